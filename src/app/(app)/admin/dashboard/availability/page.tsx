@@ -0,0 +1,37 @@
+import { auth } from "@clerk/nextjs/server";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft } from "lucide-react";
+import { AvailabilityManager } from "@/components/admin/availability";
+import { getCachedAdminUser } from "@/lib/cache/cached-queries";
+
+// Force dynamic rendering since we use auth headers
+export const dynamic = "force-dynamic";
+
+export default async function AdminAvailabilityPage() {
+  // Layout ensures userId exists and user is an admin
+  const { userId } = await auth();
+  if (!userId) throw new Error("Unauthorized"); // TypeScript type guard - layout ensures this never happens
+
+  const { dbUser } = await getCachedAdminUser(userId);
+  if (!dbUser) throw new Error("User not found"); // Layout ensures the user exists via getOrCreateUser
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold mb-1">Availability</h1>
+          <p className="text-muted-foreground text-sm">Plan time away and choose who covers your tickets</p>
+        </div>
+        <Button variant="outline" size="sm" asChild>
+          <Link href="/admin/dashboard">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Link>
+        </Button>
+      </div>
+
+      <AvailabilityManager currentUserId={dbUser.id} />
+    </div>
+  );
+}
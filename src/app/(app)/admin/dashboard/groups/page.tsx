@@ -1,18 +1,18 @@
 import { auth } from "@clerk/nextjs/server";
 import { db, tickets, categories, ticket_statuses, ticket_groups } from "@/db";
-import { desc, eq, isNotNull, and, sql, ilike } from "drizzle-orm";
+import { desc, eq, isNotNull, and } from "drizzle-orm";
 import { TicketGrouping, SelectableTicketList } from "@/components/admin/tickets";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import Link from "next/link";
 import { ArrowLeft, Users, Package, CheckCircle2, TrendingUp } from "lucide-react";
-import { getCachedAdminUser, getCachedAdminAssignment } from "@/lib/cache/cached-queries";
-import { ticketMatchesAdminAssignment } from "@/lib/assignment/admin-assignment";
+import { getCachedAdminUser } from "@/lib/cache/cached-queries";
+import { getAdminTicketScopeCondition } from "@/lib/ticket/data/ticketScope";
 import { AdminTicketFilters } from "@/components/admin/tickets";
 import type { Ticket } from "@/db/types-only";
 import type { AdminTicketRow } from "@/lib/ticket/filters/adminTicketFilters";
-import { applySubcategoryFilter, applyTATFilter } from "@/lib/ticket/filters/adminTicketFilters";
+import { buildAdminTicketConditions, parseAdminTicketFilters } from "@/lib/ticket/filters/adminTicketFilters";
 
 // Force dynamic rendering since we use auth headers
 export const dynamic = "force-dynamic";
@@ -32,65 +32,16 @@ export default async function AdminGroupsPage({
     // Layout already ensures user exists via getOrCreateUser, so dbUser will exist
     const { dbUser } = await getCachedAdminUser(userId);
 
-    // Get admin's domain/scope assignment (cached)
-    const adminAssignment = await getCachedAdminAssignment(userId);
-
     // Parse search params
     const resolvedSearchParams = searchParams ? await searchParams : {};
-    const params = resolvedSearchParams || {};
-    const statusFilter = (typeof params["status"] === "string" ? params["status"] : params["status"]?.[0]) || "";
-    const categoryFilter = (typeof params["category"] === "string" ? params["category"] : params["category"]?.[0]) || "";
-    const subcategoryFilter = (typeof params["subcategory"] === "string" ? params["subcategory"] : params["subcategory"]?.[0]) || "";
-    const searchQuery = (typeof params["search"] === "string" ? params["search"] : params["search"]?.[0]) || "";
-    const locationFilter = (typeof params["location"] === "string" ? params["location"] : params["location"]?.[0]) || "";
-    const tatFilter = (typeof params["tat"] === "string" ? params["tat"] : params["tat"]?.[0]) || "";
-
-    // Build where conditions
-    const conditions = [];
-
-    // Status filter
-    if (statusFilter) {
-      const normalizedStatus = statusFilter.toLowerCase();
-      if (normalizedStatus === "escalated") {
-        conditions.push(sql`${tickets.escalation_level} > 0`);
-      } else {
-        conditions.push(sql`LOWER(${ticket_statuses.value}) = ${normalizedStatus}`);
-      }
-    }
-
-    // Category filter - match by slug or name
-    if (categoryFilter) {
-      conditions.push(
-        and(
-          // Ensure category is present
-          isNotNull(tickets.category_id),
-          // Match either category slug or name (case-insensitive)
-          sql`(${categories.slug} ILIKE ${`%${categoryFilter}%`} OR ${categories.name} ILIKE ${`%${categoryFilter}%`})`
-        )
-      );
-    }
-
-    // Location filter
-    if (locationFilter) {
-      conditions.push(ilike(tickets.location, `%${locationFilter}%`));
-    }
+    const { status, category, subcategory, search, location, tat } = parseAdminTicketFilters(resolvedSearchParams || {});
 
-    // Note: subcategory and TAT filters are applied after fetching using shared helpers
-
-    // Search query filter
-    if (searchQuery) {
-      conditions.push(
-        sql`(
-          ${tickets.id}::text ILIKE ${`%${searchQuery}%`} OR
-          ${tickets.description} ILIKE ${`%${searchQuery}%`}
-        )`
-      );
-    }
-
-    // Note: We don't filter by assigned_to here because we want to show:
-    // 1. Tickets explicitly assigned to this admin
-    // 2. Unassigned tickets matching admin's domain/scope (for grouping)
-    // The in-memory filtering below handles domain/scope matching
+    // Tickets assigned to this admin plus unassigned tickets in their domain/scope (for grouping),
+    // narrowed by the filters - all in SQL
+    const conditions = [
+      await getAdminTicketScopeCondition(userId, dbUser.id),
+      ...buildAdminTicketConditions({ status, category, subcategory, search, location, tat }),
+    ];
 
     // Fetch tickets with proper joins for better data
     const allTicketRows = await db
@@ -117,45 +68,11 @@ export default async function AdminGroupsPage({
       .from(tickets)
       .leftJoin(ticket_statuses, eq(tickets.status_id, ticket_statuses.id))
       .leftJoin(categories, eq(tickets.category_id, categories.id))
-      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .where(and(...conditions))
       .orderBy(desc(tickets.created_at))
       .limit(1000); // Reasonable limit for grouping operations
 
-    // Filter tickets based on admin assignment
-    // Show tickets that are:
-    // 1. Explicitly assigned to this admin, OR
-    // 2. Unassigned tickets matching admin's domain/scope
-    let allTickets: AdminTicketRow[] = allTicketRows.filter(ticket => {
-      // Priority 1: Tickets explicitly assigned to this admin
-      if (ticket.assigned_to === dbUser.id) {
-        // If admin has a scope, filter by scope for assigned tickets too
-        if (adminAssignment.scope && ticket.location) {
-          const ticketLocation = (ticket.location || "").toLowerCase();
-          const assignmentScope = (adminAssignment.scope || "").toLowerCase();
-          return ticketLocation === assignmentScope;
-        }
-        return true; // Always show tickets assigned to this admin (if no scope restriction)
-      }
-      
-      // Priority 2: Unassigned tickets matching admin's domain/scope
-      if (!ticket.assigned_to && adminAssignment.domain) {
-        return ticketMatchesAdminAssignment({
-          category: ticket.category_name,
-          location: ticket.location,
-        }, adminAssignment);
-      }
-      
-      return false;
-    }) as AdminTicketRow[];
-
-    // Apply additional in-memory filters that rely on metadata (subcategory, TAT)
-    if (subcategoryFilter) {
-      allTickets = applySubcategoryFilter(allTickets, subcategoryFilter);
-    }
-
-    if (tatFilter) {
-      allTickets = applyTATFilter(allTickets, tatFilter);
-    }
+    const allTickets: AdminTicketRow[] = allTicketRows;
 
     // Fetch ticket groups to calculate stats
     const allGroups = await db
@@ -22,6 +22,8 @@ import { AdminActions } from "@/components/features/tickets/actions/AdminActions
 
 import { CommitteeTagging } from "@/components/admin/committees";
 
+import { DuplicateSuggestions } from "@/components/admin/tickets";
+
 import { AdminCommentComposer } from "@/components/features/tickets/actions/AdminCommentComposer";
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -42,6 +44,10 @@ import { buildProgressMap } from "@/lib/status/getTicketStatuses";
 import { getCategoryProfileFields, getCategorySchema } from "@/lib/category/categories";
 import { resolveProfileFields } from "@/lib/ticket/validation/profileFieldResolver";
 import { extractDynamicFields } from "@/lib/ticket/formatting/formatDynamicFields";
+import { getTicketFormVersionFields } from "@/lib/category/formVersions";
+import { getTicketComments } from "@/lib/ticket/data/ticketComments";
+import { getTicketAttachmentRules, getTicketAttachments, toTicketAttachment } from "@/lib/ticket/data/ticketAttachments";
+import { TicketAttachmentList } from "@/components/features/tickets/display/TicketAttachmentList";
 import { DynamicFieldDisplay } from "@/components/features/tickets/display/DynamicFieldDisplay";
 import { CardDescription } from "@/components/ui/card";
 import { Info } from "lucide-react";
@@ -234,6 +240,8 @@ export default async function AdminTicketPage({ params }: { params: Promise<{ ti
 
     creator_email: string | null;
 
+    group_id: number | null;
+
   };
 
 
@@ -458,15 +466,18 @@ export default async function AdminTicketPage({ params }: { params: Promise<{ ti
 
     subcategory?: string;
 
-    comments?: Array<Record<string, unknown>>;
-
     images?: string[];
 
   };
 
   let metadata: TicketMetadataWithExtras = {};
 
-  let comments: Array<Record<string, unknown>> = [];
+  const [comments, attachmentRows, attachmentRules] = await Promise.all([
+    getTicketComments(id, { includeInternal: true }),
+    getTicketAttachments(id, { includeInternal: true }),
+    getTicketAttachmentRules(id),
+  ]);
+  const attachments = attachmentRows.map(toTicketAttachment);
 
 
 
@@ -474,8 +485,6 @@ export default async function AdminTicketPage({ params }: { params: Promise<{ ti
 
     metadata = (ticket.metadata as TicketMetadataWithExtras) || {};
 
-    comments = Array.isArray(metadata?.comments) ? metadata.comments : [];
-
   } catch (error) {
 
     console.error('[Admin Ticket] Error parsing metadata:', error);
@@ -488,7 +497,8 @@ export default async function AdminTicketPage({ params }: { params: Promise<{ ti
 
   // Extract dynamic fields from metadata (after metadata is initialized)
 
-  const dynamicFields = extractDynamicFields(metadata as Record<string, unknown>, categorySchema || {});
+  const formVersionFields = await getTicketFormVersionFields(metadata);
+  const dynamicFields = extractDynamicFields(metadata as Record<string, unknown>, categorySchema || {}, formVersionFields);
 
 
 
@@ -559,7 +569,7 @@ export default async function AdminTicketPage({ params }: { params: Promise<{ ti
 
     status: statusValueStr,
 
-  }, normalizedStatus);
+  }, normalizedStatus, comments);
 
 
 
@@ -1109,6 +1119,18 @@ export default async function AdminTicketPage({ params }: { params: Promise<{ ti
 
 
 
+              {attachments.length > 0 && (
+
+                <div className="p-4 rounded-lg bg-muted/50 border">
+
+                  <TicketAttachmentList attachments={attachments} />
+
+                </div>
+
+              )}
+
+
+
               {/* Additional Dynamic Fields - Filter out TAT-related fields */}
 
               {(() => {
@@ -1385,7 +1407,7 @@ export default async function AdminTicketPage({ params }: { params: Promise<{ ti
 
                       // Chat-style for regular comments
 
-                      const isStudent = commentSource === "website";
+                      const isStudent = comment.authorRole === "student" || commentSource === "website";
 
                       const isAdmin = !isStudent;
 
@@ -1487,7 +1509,7 @@ export default async function AdminTicketPage({ params }: { params: Promise<{ ti
 
 
 
-              <AdminCommentComposer ticketId={ticket.id} />
+              <AdminCommentComposer ticketId={ticket.id} attachmentRules={attachmentRules} />
 
             </CardContent>
 
@@ -1551,6 +1573,26 @@ export default async function AdminTicketPage({ params }: { params: Promise<{ ti
 
 
 
+          {/* Possible Duplicates */}
+
+          <Card className="border-2">
+
+            <CardHeader>
+
+              <CardTitle>Possible Duplicates</CardTitle>
+
+            </CardHeader>
+
+            <CardContent>
+
+              <DuplicateSuggestions ticketId={id} groupId={ticket.group_id} />
+
+            </CardContent>
+
+          </Card>
+
+
+
         </div>
 
 
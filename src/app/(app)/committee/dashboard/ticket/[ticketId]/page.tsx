@@ -8,6 +8,7 @@ import { getCachedUser } from "@/lib/cache/cached-queries";
 import { canCommitteeAccessTicket } from "@/lib/ticket/utils/committeeAccess";
 
 import { getCommitteeTicketData } from "@/lib/ticket/data/getCommitteeTicketData";
+import { getTicketAttachmentRules, getTicketAttachments, toTicketAttachment } from "@/lib/ticket/data/ticketAttachments";
 
 import { resolveProfileFields } from "@/lib/ticket/validation/profileFieldResolver";
 
@@ -125,12 +126,17 @@ export default async function CommitteeTicketPage({ params }: { params: Promise<
 
   // Fetch ticket data
 
-  const [data, ticketStatuses] = await Promise.all([
+  const [data, ticketStatuses, attachmentRows, attachmentRules] = await Promise.all([
 
     getCommitteeTicketData(id),
 
     getCachedTicketStatuses(),
 
+    // Committee is staff: attachments on internal notes included, like the notes
+    getTicketAttachments(id, { includeInternal: true }),
+
+    getTicketAttachmentRules(id),
+
   ]);
 
 
@@ -143,7 +149,7 @@ export default async function CommitteeTicketPage({ params }: { params: Promise<
 
 
 
-  const { ticket, category, creator, student, profileFields, dynamicFields, comments } = data;
+  const { ticket, category, creator, student, profileFields, dynamicFields, comments, slaPauses } = data;
 
 
 
@@ -179,7 +185,7 @@ export default async function CommitteeTicketPage({ params }: { params: Promise<
 
   // Calculate TAT info
 
-  const tatInfo: TATInfo = calculateTATInfo(ticket, { normalizedStatus, ticketProgress });
+  const tatInfo: TATInfo = calculateTATInfo(ticket, { normalizedStatus, ticketProgress }, slaPauses);
 
 
 
@@ -219,9 +225,9 @@ export default async function CommitteeTicketPage({ params }: { params: Promise<
 
   };
 
-  const baseTimeline = buildTimeline(ticketForTimeline, normalizedStatus);
+  const baseTimeline = buildTimeline(ticketForTimeline, normalizedStatus, comments || []);
 
-  const timelineEntries: TicketTimelineEntry[] = enrichTimelineWithTAT(baseTimeline, ticket, { normalizedStatus, ticketProgress });
+  const timelineEntries: TicketTimelineEntry[] = enrichTimelineWithTAT(baseTimeline, ticket, { normalizedStatus, ticketProgress }, slaPauses);
 
 
 
@@ -241,53 +247,9 @@ export default async function CommitteeTicketPage({ params }: { params: Promise<
 
 
 
-  // Normalize comments
-
-  const normalizedComments: TicketComment[] = (comments || []).map((c: unknown) => {
-
-    const comment = c as Record<string, unknown>;
-
-    const createdAtValue = comment.createdAt || comment.created_at;
-
-    let normalizedCreatedAt: string | Date | null = null;
-
-    if (createdAtValue) {
-
-      if (typeof createdAtValue === 'string') {
-
-        normalizedCreatedAt = createdAtValue;
-
-      } else if (createdAtValue instanceof Date) {
-
-        normalizedCreatedAt = createdAtValue;
-
-      } else if (createdAtValue && typeof createdAtValue === 'object' && 'toISOString' in createdAtValue) {
-
-        normalizedCreatedAt = new Date((createdAtValue as { toISOString: () => string }).toISOString());
+  // Comments come from ticket_comments already in the TicketComment shape
 
-      }
-
-    }
-
-    return {
-
-      text: typeof comment.text === 'string' ? comment.text : '',
-
-      author: typeof comment.author === 'string' ? comment.author : undefined,
-
-      createdAt: normalizedCreatedAt,
-
-      created_at: normalizedCreatedAt,
-
-      source: typeof comment.source === 'string' ? comment.source : undefined,
-
-      type: typeof comment.type === 'string' ? comment.type : undefined,
-
-      isInternal: typeof comment.isInternal === 'boolean' ? comment.isInternal : undefined,
-
-    };
-
-  });
+  const normalizedComments: TicketComment[] = comments || [];
 
 
 
@@ -339,6 +301,8 @@ export default async function CommitteeTicketPage({ params }: { params: Promise<
 
               images={images}
 
+              attachments={attachmentRows.map(toTicketAttachment)}
+
               dynamicFields={dynamicFields.map((f) => {
 
                 // Normalize value to string | string[]
@@ -497,7 +461,7 @@ export default async function CommitteeTicketPage({ params }: { params: Promise<
 
                         // Chat-style for regular comments
 
-                        const isStudent = commentSource === "website";
+                        const isStudent = comment.authorRole === "student" || commentSource === "website";
 
                         const isAdmin = !isStudent;
 
@@ -599,7 +563,7 @@ export default async function CommitteeTicketPage({ params }: { params: Promise<
 
 
 
-                <AdminCommentComposer ticketId={ticket.id} />
+                <AdminCommentComposer ticketId={ticket.id} attachmentRules={attachmentRules} />
 
               </CardContent>
 
@@ -4,7 +4,9 @@ import { db, students, hostels, class_sections, batches } from "@/db";
 import { eq, asc } from "drizzle-orm";
 import { getCachedUser } from "@/lib/cache/cached-queries";
 import { getCategoriesHierarchy } from "@/lib/category/getCategoriesHierarchy";
+import { getCategoryAttachmentRules } from "@/lib/ticket/data/ticketAttachments";
 import TicketForm from "@/components/features/tickets/forms/TicketForm/TicketForm";
+import { toTicketFormProfileFields } from "@/components/features/tickets/forms/TicketForm/hierarchyProps";
 
 /**
  * Committee New Ticket Page
@@ -23,6 +25,7 @@ export default async function CommitteeNewTicketPage() {
     studentDataResult,
     hostelsList,
     categoryHierarchy,
+    attachmentRules,
   ] = await Promise.all([
     // Fetch student row from DB (committee members might also be students)
     db
@@ -46,6 +49,9 @@ export default async function CommitteeNewTicketPage() {
 
     // Fetch full category hierarchy (categories → subcategories → sub-subcategories → fields → options)
     getCategoriesHierarchy(),
+
+    // Per-category attachment type / size limits, checked before uploading
+    getCategoryAttachmentRules(),
   ]);
 
   const [studentData] = studentDataResult;
@@ -190,16 +196,26 @@ export default async function CommitteeNewTicketPage() {
     );
   }
 
+  // A published profile field configuration replaces the standard fields;
+  // student-only fields are dropped when the committee member is not a student
+  const committeeContactFields = ["name", "email", "phone"];
+  const profileFields = committeeCategory.profileFields
+    ? toTicketFormProfileFields([committeeCategory]).filter(
+        (field) => student || committeeContactFields.includes(field.field_name)
+      )
+    : standardProfileFields;
+
   return (
     <TicketForm
       dbUserId={dbUser.id}
       student={normalizedStudent}
       categories={categoriesFromHierarchy as Array<{ id: number; name: string; [key: string]: unknown }>}
       subcategories={subcategoriesWithSubs}
-      profileFields={standardProfileFields}
+      profileFields={profileFields}
       dynamicFields={mappedCategoryFields}
       fieldOptions={[]} // No longer needed as options are nested in fields
       hostels={hostelsList}
+      attachmentRules={attachmentRules}
     />
   );
 }
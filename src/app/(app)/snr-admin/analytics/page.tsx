@@ -9,7 +9,9 @@ import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { getAllTicketStatuses } from "@/lib/status/getTicketStatuses";
+import { getAverageResolutionHours } from "@/lib/sla/pauses";
 import { Badge } from "@/components/ui/badge";
+import { ExportTicketsButton } from "@/components/admin/tickets";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 
 // Use ISR (Incremental Static Regeneration) - cache for 30 seconds
@@ -155,13 +157,10 @@ export default async function SnrAdminAnalyticsPage() {
         const resolvedThisMonth = resolvedTickets.filter(t => t.resolved_at && t.resolved_at >= startOfMonth);
 
         // === PERFORMANCE METRICS ===
-        const resolvedWithTime = resolvedTickets.filter(t => t.created_at && t.resolved_at);
-        const avgResolutionHours = resolvedWithTime.length > 0
-            ? resolvedWithTime.reduce((sum, t) => {
-                const hours = (t.resolved_at!.getTime() - t.created_at!.getTime()) / (1000 * 60 * 60);
-                return sum + hours;
-            }, 0) / resolvedWithTime.length
-            : 0;
+        // Gross (created → resolved) and net of SLA pauses (time awaiting the student)
+        const resolutionHours = await getAverageResolutionHours(resolvedTickets);
+        const avgResolutionHours = resolutionHours.gross;
+        const avgNetResolutionHours = resolutionHours.net;
 
         const acknowledgedTickets = allTickets.filter(t => t.created_at && t.acknowledged_at);
         const avgAckHours = acknowledgedTickets.length > 0
@@ -362,7 +361,8 @@ export default async function SnrAdminAnalyticsPage() {
                             </p>
                         </div>
                     </div>
-                    <div className="flex gap-2">
+                    <div className="flex items-center gap-2">
+                        <ExportTicketsButton />
                         <Badge variant="outline" className="text-sm">
                             <Globe className="h-3 w-3 mr-1" />
                             All Domains
@@ -511,7 +511,12 @@ export default async function SnrAdminAnalyticsPage() {
                                         }
                                     </div>
                                     <p className="text-xs text-muted-foreground mt-1">
-                                        Based on {resolvedWithTime.length} tickets
+                                        Net of SLA pauses: {avgNetResolutionHours > 24
+                                            ? `${(avgNetResolutionHours / 24).toFixed(1)} days`
+                                            : `${avgNetResolutionHours.toFixed(1)} hrs`}
+                                    </p>
+                                    <p className="text-xs text-muted-foreground mt-1">
+                                        Based on {resolutionHours.count} tickets
                                     </p>
                                 </CardContent>
                             </Card>
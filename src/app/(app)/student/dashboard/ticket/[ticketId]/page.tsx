@@ -134,6 +134,7 @@ export default async function StudentTicketPage({
               description={vm.ticket.description}
               location={vm.ticket.location}
               images={vm.images}
+              attachments={vm.attachments}
               dynamicFields={vm.normalizedDynamicFields}
             />
 
@@ -142,6 +143,7 @@ export default async function StudentTicketPage({
             <TicketConversation
               comments={vm.normalizedComments}
               ticketId={vm.ticket.id}
+              attachmentRules={vm.attachmentRules}
               status={vm.statusDisplay}
               normalizedStatus={vm.normalizedStatus}
               optimisticComments={[]}
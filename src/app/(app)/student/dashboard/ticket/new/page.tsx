@@ -4,7 +4,12 @@ import { db, students, hostels, class_sections, batches } from "@/db";
 import { eq, asc } from "drizzle-orm";
 import { getCachedUser } from "@/lib/cache/cached-queries";
 import { getCategoriesHierarchy } from "@/lib/category/getCategoriesHierarchy";
+import { getCategoryAttachmentRules } from "@/lib/ticket/data/ticketAttachments";
 import TicketForm from "@/components/features/tickets/forms/TicketForm/TicketForm";
+import {
+  toTicketFormCategoryProps,
+  toTicketFormProfileFields,
+} from "@/components/features/tickets/forms/TicketForm/hierarchyProps";
 
 /**
  * Student New Ticket Page
@@ -23,6 +28,7 @@ export default async function NewTicketPage() {
     studentDataResult,
     hostelsList,
     categoryHierarchy,
+    attachmentRules,
   ] = await Promise.all([
     // Fetch only needed student fields with class section name (optimized: select specific fields)
     db
@@ -52,6 +58,9 @@ export default async function NewTicketPage() {
     // Fetch full category hierarchy (categories → subcategories → sub-subcategories → fields → options)
     // Already cached with unstable_cache for 5 minutes
     getCategoriesHierarchy(),
+
+    // Per-category attachment type / size limits, checked before uploading
+    getCategoryAttachmentRules(),
   ]);
 
   const [studentData] = studentDataResult;
@@ -78,108 +87,20 @@ export default async function NewTicketPage() {
     (cat) => cat.label.toLowerCase() !== "committee" && cat.value.toLowerCase() !== "committee"
   );
 
-  // Flatten hierarchy into shapes expected by TicketForm (optimized: only include needed fields)
-  const categoriesFromHierarchy = visibleCategories.map((cat) => ({
-    id: cat.id,
-    name: cat.label,
-    slug: cat.value,
-  }));
-
-  const subcategoriesWithSubs = visibleCategories.flatMap((cat) =>
-    (cat.subcategories || []).map((sub) => ({
-      id: sub.id,
-      category_id: cat.id,
-      name: sub.label,
-      slug: sub.value,
-      display_order: undefined as number | undefined,
-      // Attach fields; TicketForm will further sort/normalize
-      fields: (sub.fields || []).map((f) => ({
-        id: f.id,
-        name: f.name,
-        slug: f.slug,
-        field_type: f.type,
-        required: f.required ?? false,
-        placeholder: f.placeholder ?? null,
-        help_text: f.help_text ?? null,
-        validation_rules: (f.validation_rules || null) as Record<string, unknown> | null,
-        display_order: f.display_order ?? 0,
-        subcategory_id: sub.id,
-        options: (f.options || []).map((opt, index) => ({
-          id: index,
-          label: opt.label,
-          value: opt.value,
-        })),
-      })),
-    }))
-  );
-
-  // Flatten dynamic fields for TicketForm (still accepts flat list)
-  const mappedCategoryFields = subcategoriesWithSubs.flatMap((sub) => sub.fields || []);
-
-  // Define standard profile fields to show for all tickets
-  // These are always shown to help admins contact students
-  const standardProfileFields = [
-    {
-      field_name: "name",
-      storage_key: "name",
-      required: false,
-      editable: false,
-      display_order: 1,
-    },
-    {
-      field_name: "email",
-      storage_key: "email",
-      required: false,
-      editable: false,
-      display_order: 2,
-    },
-    {
-      field_name: "phone",
-      storage_key: "phone",
-      required: false,
-      editable: true,
-      display_order: 3,
-    },
-    {
-      field_name: "hostel",
-      storage_key: "hostel",
-      required: false,
-      editable: true,
-      display_order: 4,
-    },
-    {
-      field_name: "roomNumber",
-      storage_key: "roomNumber",
-      required: false,
-      editable: true,
-      display_order: 5,
-    },
-    {
-      field_name: "batchYear",
-      storage_key: "batchYear",
-      required: false,
-      editable: false,
-      display_order: 6,
-    },
-    {
-      field_name: "classSection",
-      storage_key: "classSection",
-      required: false,
-      editable: false,
-      display_order: 7,
-    },
-  ];
+  // Flatten hierarchy into shapes expected by TicketForm
+  const { categories, subcategories, dynamicFields } = toTicketFormCategoryProps(visibleCategories);
 
   return (
     <TicketForm
       dbUserId={dbUser.id}
       student={normalizedStudent}
-      categories={categoriesFromHierarchy as Array<{ id: number; name: string; [key: string]: unknown }>}
-      subcategories={subcategoriesWithSubs}
-      profileFields={standardProfileFields}
-      dynamicFields={mappedCategoryFields}
+      categories={categories}
+      subcategories={subcategories}
+      profileFields={toTicketFormProfileFields(visibleCategories)}
+      dynamicFields={dynamicFields}
       fieldOptions={[]}
       hostels={hostelsList as Array<{ id: number; name: string }>}
+      attachmentRules={attachmentRules}
     />
   );
 }
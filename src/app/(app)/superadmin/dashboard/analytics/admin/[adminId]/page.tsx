@@ -12,7 +12,9 @@ import { normalizeStatusForComparison } from "@/lib/utils";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { TicketCard } from "@/components/layout/TicketCard";
+import { ExportTicketsButton } from "@/components/admin/tickets";
 import { getTicketStatusByValue } from "@/lib/status/getTicketStatuses";
+import { getAverageResolutionHours } from "@/lib/sla/pauses";
 
 /**
  * Super Admin Admin Detail Analytics Page
@@ -67,15 +69,18 @@ export default async function AdminDetailPage({
 
   // Time filter logic
   let timeFilter = undefined;
+  let periodStart: string | undefined;
   const now = new Date();
   if (period === "7d") {
     const date = new Date(now);
     date.setDate(date.getDate() - 7);
     timeFilter = gte(tickets.created_at, date);
+    periodStart = date.toISOString().slice(0, 10);
   } else if (period === "30d") {
     const date = new Date(now);
     date.setDate(date.getDate() - 30);
     timeFilter = gte(tickets.created_at, date);
+    periodStart = date.toISOString().slice(0, 10);
   }
 
   // Fetch all tickets assigned to this admin
@@ -308,16 +313,10 @@ export default async function AdminDetailPage({
   const openRate = totalTickets > 0 ? Math.round((openTickets / totalTickets) * 100) : 0;
   const inProgressRate = totalTickets > 0 ? Math.round((inProgressTickets.length / totalTickets) * 100) : 0;
 
-  // Calculate average resolution time
-  const resolvedWithTime = resolvedTickets.filter(t => t.created_at && t.resolved_at);
-  const avgResolutionHours = resolvedWithTime.length > 0
-    ? Math.round(
-      resolvedWithTime.reduce((sum, t) => {
-        const hours = (t.resolved_at!.getTime() - t.created_at!.getTime()) / (1000 * 60 * 60);
-        return sum + hours;
-      }, 0) / resolvedWithTime.length
-    )
-    : 0;
+  // Calculate average resolution time (gross, and net of SLA pauses)
+  const resolutionHours = await getAverageResolutionHours(resolvedTickets);
+  const avgResolutionHours = Math.round(resolutionHours.gross);
+  const avgNetResolutionHours = Math.round(resolutionHours.net);
 
   // Category breakdown
   const categoryBreakdown: Record<string, { total: number; open: number; inProgress: number; resolved: number }> = {};
@@ -368,6 +367,7 @@ export default async function AdminDetailPage({
           <Button variant={period === 'all' ? 'default' : 'outline'} size="sm" asChild>
             <Link href="?period=all">All Time</Link>
           </Button>
+          <ExportTicketsButton filters={{ assigned: adminId, from: periodStart }} />
         </div>
       </div>
 
@@ -520,7 +520,12 @@ export default async function AdminDetailPage({
               }
             </div>
             <p className="text-xs text-muted-foreground mt-1">
-              Based on {resolvedWithTime.length} resolved tickets
+              Net of SLA pauses: {avgNetResolutionHours > 24
+                ? `${Math.round(avgNetResolutionHours / 24)}d`
+                : `${avgNetResolutionHours}h`}
+            </p>
+            <p className="text-xs text-muted-foreground mt-1">
+              Based on {resolutionHours.count} resolved tickets
             </p>
           </CardContent>
         </Card>
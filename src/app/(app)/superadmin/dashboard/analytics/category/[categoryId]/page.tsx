@@ -7,8 +7,10 @@ import { alias } from "drizzle-orm/pg-core";
 import { normalizeStatusForComparison } from "@/lib/utils";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { getTicketStatusByValue } from "@/lib/status/getTicketStatuses";
+import { getAverageResolutionHours } from "@/lib/sla/pauses";
 import { Button } from "@/components/ui/button";
 import Link from "next/link";
+import { ExportTicketsButton } from "@/components/admin/tickets";
 import {
   ArrowLeft,
   FileText,
@@ -40,6 +42,7 @@ export default async function CategoryAnalyticsDetailPage({
   let categoryCondition = isNull(tickets.category_id);
   let categoryName = "Uncategorized";
   let parentCategoryName: string | null = null;
+  let categorySlug: string | null = null;
 
   if (isUncategorized) {
     categoryCondition = isNull(tickets.category_id);
@@ -53,6 +56,7 @@ export default async function CategoryAnalyticsDetailPage({
       .select({
         id: categories.id,
         name: categories.name,
+        slug: categories.slug,
         parentId: categories.parent_category_id,
       })
       .from(categories)
@@ -65,6 +69,7 @@ export default async function CategoryAnalyticsDetailPage({
 
     categoryCondition = eq(tickets.category_id, parsedId);
     categoryName = categoryRecord.name || "Unnamed Category";
+    categorySlug = categoryRecord.slug;
 
     if (categoryRecord.parentId) {
       const [parentRecord] = await db
@@ -230,17 +235,10 @@ export default async function CategoryAnalyticsDetailPage({
   const openRate = totalTickets > 0 ? Math.round((openTickets.length / totalTickets) * 100) : 0;
   const inProgressRate = totalTickets > 0 ? Math.round((inProgressTickets.length / totalTickets) * 100) : 0;
 
-  const resolvedWithTime = resolvedTickets.filter((ticket) => ticket.created_at && ticket.resolved_at);
-  const avgResolutionHours =
-    resolvedWithTime.length > 0
-      ? Math.round(
-          resolvedWithTime.reduce((sum, ticket) => {
-            const hours =
-              ((ticket.resolved_at as Date).getTime() - (ticket.created_at as Date).getTime()) / (1000 * 60 * 60);
-            return sum + hours;
-          }, 0) / resolvedWithTime.length,
-        )
-      : 0;
+  // Gross (created → resolved) and net of SLA pauses (time awaiting the student)
+  const resolutionHours = await getAverageResolutionHours(resolvedTickets);
+  const avgResolutionHours = Math.round(resolutionHours.gross);
+  const avgNetResolutionHours = Math.round(resolutionHours.net);
 
   const unassignedTickets = allTickets.filter((ticket) => !ticket.assigned_to).length;
 
@@ -295,8 +293,9 @@ export default async function CategoryAnalyticsDetailPage({
             </p>
           </div>
         </div>
-        <div className="text-sm text-muted-foreground">
+        <div className="flex items-center gap-3 text-sm text-muted-foreground">
           {totalTickets} tickets • {ticketsThisWeek} this week
+          {categorySlug && <ExportTicketsButton filters={{ category: categorySlug }} />}
         </div>
       </div>
 
@@ -394,7 +393,11 @@ export default async function CategoryAnalyticsDetailPage({
               {avgResolutionHours > 24 ? `${Math.round(avgResolutionHours / 24)}d` : `${avgResolutionHours}h`}
             </div>
             <p className="text-xs text-muted-foreground mt-1">
-              Based on {resolvedWithTime.length} resolved tickets
+              Net of SLA pauses:{" "}
+              {avgNetResolutionHours > 24 ? `${Math.round(avgNetResolutionHours / 24)}d` : `${avgNetResolutionHours}h`}
+            </p>
+            <p className="text-xs text-muted-foreground mt-1">
+              Based on {resolutionHours.count} resolved tickets
             </p>
           </CardContent>
         </Card>
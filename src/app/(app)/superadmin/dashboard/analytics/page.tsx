@@ -9,7 +9,9 @@ import { normalizeStatusForComparison } from "@/lib/utils";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
+import { ExportTicketsButton } from "@/components/admin/tickets";
 import { getTicketStatusByValue } from "@/lib/status/getTicketStatuses";
+import { getAverageResolutionHours } from "@/lib/sla/pauses";
 
 /**
  * Super Admin Analytics Page
@@ -121,17 +123,10 @@ export default async function SuperAdminAnalyticsPage() {
   const openRate = totalTickets > 0 ? Math.round((openTickets / totalTickets) * 100) : 0;
   const inProgressRate = totalTickets > 0 ? Math.round((inProgressTickets.length / totalTickets) * 100) : 0;
 
-  // Calculate average resolution time
-  const resolvedWithTime = resolvedTickets.filter(t => t.created_at && t.resolved_at);
-  const avgResolutionHours = resolvedWithTime.length > 0
-    ? Math.round(
-      resolvedWithTime.reduce((sum, t) => {
-        if (!t.created_at || !t.resolved_at) return sum;
-        const hours = (new Date(t.resolved_at).getTime() - new Date(t.created_at).getTime()) / (1000 * 60 * 60);
-        return sum + hours;
-      }, 0) / resolvedWithTime.length
-    )
-    : 0;
+  // Calculate average resolution time (gross, and net of SLA pauses)
+  const resolutionHours = await getAverageResolutionHours(resolvedTickets);
+  const avgResolutionHours = Math.round(resolutionHours.gross);
+  const avgNetResolutionHours = Math.round(resolutionHours.net);
 
   // Per Admin Analytics
   type AdminStat = {
@@ -252,6 +247,9 @@ export default async function SuperAdminAnalyticsPage() {
           </h1>
           <p className="text-muted-foreground">System-wide ticket statistics and performance insights</p>
         </div>
+        <div className="ml-auto">
+          <ExportTicketsButton />
+        </div>
       </div>
 
       <Tabs defaultValue="overall" className="space-y-6">
@@ -363,7 +361,12 @@ export default async function SuperAdminAnalyticsPage() {
                   }
                 </div>
                 <p className="text-xs text-muted-foreground mt-1">
-                  Based on {resolvedWithTime.length} resolved tickets
+                  Net of SLA pauses: {avgNetResolutionHours > 24
+                    ? `${Math.round(avgNetResolutionHours / 24)}d`
+                    : `${avgNetResolutionHours}h`}
+                </p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Based on {resolutionHours.count} resolved tickets
                 </p>
               </CardContent>
             </Card>
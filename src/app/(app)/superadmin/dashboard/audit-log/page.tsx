@@ -0,0 +1,25 @@
+import { AuditLogViewer } from "@/components/superadmin/AuditLogViewer";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Super Admin Audit Log Page
+ * Note: Auth and role checks are handled by superadmin/layout.tsx
+ */
+export default async function AuditLogPage() {
+
+  return (
+    <div className="space-y-8 p-6">
+      <div>
+        <h1 className="text-4xl font-bold tracking-tight mb-2 bg-gradient-to-r from-foreground to-foreground/70 bg-clip-text text-transparent">
+          Audit Log
+        </h1>
+        <p className="text-muted-foreground">
+          Who changed roles, categories, fields, notification settings, committees and students, and when
+        </p>
+      </div>
+
+      <AuditLogViewer />
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+import { BusinessCalendarsManager } from "@/components/superadmin/BusinessCalendarsManager";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Super Admin Business Hours Page
+ * Note: Auth and role checks are handled by superadmin/layout.tsx
+ */
+export default async function BusinessHoursPage() {
+
+  return (
+    <div className="space-y-8 p-6">
+      <div>
+        <h1 className="text-4xl font-bold tracking-tight mb-2 bg-gradient-to-r from-foreground to-foreground/70 bg-clip-text text-transparent">
+          Business Hours
+        </h1>
+        <p className="text-muted-foreground">
+          Working hours and holidays that drive SLA due dates per domain and scope
+        </p>
+      </div>
+
+      <BusinessCalendarsManager />
+    </div>
+  );
+}
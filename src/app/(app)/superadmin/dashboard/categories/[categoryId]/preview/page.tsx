@@ -0,0 +1,83 @@
+import { auth } from "@clerk/nextjs/server";
+import { notFound } from "next/navigation";
+import { db, hostels } from "@/db";
+import { eq, asc } from "drizzle-orm";
+import { getCachedUser } from "@/lib/cache/cached-queries";
+import { buildCategorySnapshot } from "@/lib/category/categoryReleases";
+import { toCategoryHierarchyNode } from "@/lib/category/getCategoriesHierarchy";
+import TicketForm from "@/components/features/tickets/forms/TicketForm/TicketForm";
+import {
+  toTicketFormCategoryProps,
+  toTicketFormProfileFields,
+} from "@/components/features/tickets/forms/TicketForm/hierarchyProps";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Super Admin Draft Preview
+ * Renders the student TicketForm with a category's unpublished configuration,
+ * built the same way as the published hierarchy students are served.
+ * Note: Auth and role checks are handled by superadmin/layout.tsx
+ */
+export default async function CategoryPreviewPage({
+  params,
+}: {
+  params: Promise<{ categoryId: string }>;
+}) {
+  const { userId } = await auth();
+  if (!userId) throw new Error("Unauthorized"); // TypeScript type guard - layout ensures this never happens
+
+  const { categoryId } = await params;
+  const id = Number(categoryId);
+  if (!Number.isInteger(id)) {
+    notFound();
+  }
+
+  const [dbUser, draft, hostelsList] = await Promise.all([
+    getCachedUser(userId),
+    buildCategorySnapshot(id),
+    db
+      .select({
+        id: hostels.id,
+        name: hostels.name,
+      })
+      .from(hostels)
+      .where(eq(hostels.is_active, true))
+      .orderBy(asc(hostels.name)),
+  ]);
+
+  if (!dbUser) {
+    throw new Error("User not found");
+  }
+  if (!draft) {
+    notFound();
+  }
+
+  const draftNodes = [toCategoryHierarchyNode(draft)];
+  const { categories, subcategories, dynamicFields } = toTicketFormCategoryProps(draftNodes);
+
+  // The previewing super admin stands in for the student
+  const previewStudent = {
+    fullName: dbUser.full_name || "",
+    email: dbUser.email || "",
+    mobile: dbUser.phone || "",
+    hostel: null,
+    roomNumber: null,
+    batchYear: null,
+    classSection: null,
+  };
+
+  return (
+    <TicketForm
+      dbUserId={dbUser.id}
+      student={previewStudent}
+      categories={categories}
+      subcategories={subcategories}
+      profileFields={toTicketFormProfileFields(draftNodes)}
+      dynamicFields={dynamicFields}
+      fieldOptions={[]}
+      hostels={hostelsList}
+      preview
+    />
+  );
+}
@@ -104,6 +104,7 @@ export default async function CategoriesPage() {
           </CardTitle>
           <CardDescription>
             Create and manage ticket categories. Each category can have subcategories with custom form fields.
+            Changes are a draft until you publish them from the category&apos;s Manage view.
           </CardDescription>
         </CardHeader>
         <CardContent>
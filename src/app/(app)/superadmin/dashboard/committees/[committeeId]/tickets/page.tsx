@@ -33,20 +33,18 @@ export default async function CommitteeTicketsPage({
     notFound();
   }
 
-  // Get committee with head_id
   const [committee] = await db
     .select({
       id: committees.id,
       name: committees.name,
       description: committees.description,
       contact_email: committees.contact_email,
-      head_id: committees.head_id,
     })
     .from(committees)
     .where(eq(committees.id, id))
     .limit(1);
 
-  if (!committee || !committee.head_id) {
+  if (!committee) {
     notFound();
   }
 
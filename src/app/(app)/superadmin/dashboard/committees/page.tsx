@@ -1,5 +1,5 @@
-import { db, committees, users } from "@/db";
-import { eq } from "drizzle-orm";
+import { db, committees } from "@/db";
+import { listCommitteeMembers, serializeCommitteeMember } from "@/lib/committee/committeeMembers";
 import { CommitteesManagement } from "@/components/admin/committees";
 import { Button } from "@/components/ui/button";
 import { ArrowLeft } from "lucide-react";
@@ -9,55 +9,8 @@ import Link from "next/link";
 export const revalidate = 300;
 
 async function getCommitteeMembers(committeeId: number) {
-  const [committee] = await db
-    .select({
-      id: committees.id,
-      name: committees.name,
-      head_id: committees.head_id,
-    })
-    .from(committees)
-    .where(eq(committees.id, committeeId))
-    .limit(1);
-
-  if (!committee || !committee.head_id) {
-    return [];
-  }
-
-  const [member] = await db
-    .select({
-      id: users.id,
-      auth_provider: users.auth_provider,
-      external_id: users.external_id,
-      full_name: users.full_name,
-      email: users.email,
-    })
-    .from(users)
-    .where(eq(users.id, committee.head_id))
-    .limit(1);
-
-  if (!member) {
-    return [];
-  }
-
-  const [firstName, ...restNameParts] = (member.full_name || "").split(" ").filter(Boolean);
-  const lastName = restNameParts.length > 0 ? restNameParts.join(" ") : null;
-
-  return [{
-    id: member.id,
-    committee_id: committee.id,
-    user_id: member.id,
-    clerk_user_id: member.external_id || "",
-    role: "head",
-    created_at: null,
-    updated_at: null,
-    user: {
-      firstName: firstName || null,
-      lastName,
-      emailAddresses: member.email
-        ? [{ emailAddress: member.email }]
-        : [],
-    },
-  }];
+  const members = await listCommitteeMembers(committeeId);
+  return members.map(serializeCommitteeMember);
 }
 
 export default async function CommitteesPage() {
@@ -0,0 +1,25 @@
+import { OutboxDeadLetterManager } from "@/components/superadmin/OutboxDeadLetterManager";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Super Admin Outbox Page
+ * Note: Auth and role checks are handled by superadmin/layout.tsx
+ */
+export default async function OutboxPage() {
+
+  return (
+    <div className="space-y-8 p-6">
+      <div>
+        <h1 className="text-4xl font-bold tracking-tight mb-2 bg-gradient-to-r from-foreground to-foreground/70 bg-clip-text text-transparent">
+          Outbox
+        </h1>
+        <p className="text-muted-foreground">
+          Inspect failed notification events and replay them
+        </p>
+      </div>
+
+      <OutboxDeadLetterManager />
+    </div>
+  );
+}
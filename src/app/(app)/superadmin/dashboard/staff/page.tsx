@@ -1,5 +1,5 @@
-import { db, users, domains, scopes, roles, admin_profiles, committees, hostels, batches, class_sections } from "@/db";
-import { eq, inArray } from "drizzle-orm";
+import { db, users, domains, scopes, roles, admin_profiles, committees, committee_members, hostels, batches, class_sections } from "@/db";
+import { and, asc, eq, inArray, isNull } from "drizzle-orm";
 import { StaffManagement } from "@/components/admin/staff";
 
 // Use ISR - revalidate every 5 minutes (staff changes infrequently)
@@ -34,19 +34,22 @@ async function getStaffMembers() {
   const committeesMap = new Map<string, { id: number; name: string; description: string | null }>();
   
   if (committeeMemberIds.length > 0) {
+    // Current memberships; a member of several committees is shown with the one they joined first
     const committeeRecords = await db
       .select({
         id: committees.id,
         name: committees.name,
         description: committees.description,
-        head_id: committees.head_id,
+        user_id: committee_members.user_id,
       })
-      .from(committees)
-      .where(inArray(committees.head_id, committeeMemberIds));
+      .from(committee_members)
+      .innerJoin(committees, eq(committee_members.committee_id, committees.id))
+      .where(and(inArray(committee_members.user_id, committeeMemberIds), isNull(committee_members.left_at)))
+      .orderBy(asc(committee_members.joined_at));
     
     for (const committee of committeeRecords) {
-      if (committee.head_id) {
-        committeesMap.set(committee.head_id, {
+      if (!committeesMap.has(committee.user_id)) {
+        committeesMap.set(committee.user_id, {
           id: committee.id,
           name: committee.name,
           description: committee.description,
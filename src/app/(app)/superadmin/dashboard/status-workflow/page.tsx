@@ -0,0 +1,25 @@
+import { StatusTransitionsManager } from "@/components/superadmin/StatusTransitionsManager";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Super Admin Status Workflow Page
+ * Note: Auth and role checks are handled by superadmin/layout.tsx
+ */
+export default async function StatusWorkflowPage() {
+
+  return (
+    <div className="space-y-8 p-6">
+      <div>
+        <h1 className="text-4xl font-bold tracking-tight mb-2 bg-gradient-to-r from-foreground to-foreground/70 bg-clip-text text-transparent">
+          Status Workflow
+        </h1>
+        <p className="text-muted-foreground">
+          Which status changes are allowed, who can make them and what they require
+        </p>
+      </div>
+
+      <StatusTransitionsManager />
+    </div>
+  );
+}
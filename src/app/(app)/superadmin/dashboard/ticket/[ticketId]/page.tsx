@@ -22,6 +22,13 @@ import { buildProgressMap } from "@/lib/status/getTicketStatuses";
 import { getCategoryProfileFields, getCategorySchema } from "@/lib/category/categories";
 import { resolveProfileFields } from "@/lib/ticket/validation/profileFieldResolver";
 import { extractDynamicFields } from "@/lib/ticket/formatting/formatDynamicFields";
+import { getTicketFormVersionFields } from "@/lib/category/formVersions";
+import { getTicketComments } from "@/lib/ticket/data/ticketComments";
+import { getTicketAttachmentRules, getTicketAttachments, toTicketAttachment } from "@/lib/ticket/data/ticketAttachments";
+import { TicketAttachmentList } from "@/components/features/tickets/display/TicketAttachmentList";
+import { getLatestTicketActivity } from "@/lib/ticket/data/ticketActivity";
+import { TICKET_ACTIVITY } from "@/conf/constants";
+import { getTicketCoverageScope, resolveAdminCoverage } from "@/lib/assignment/coverage";
 import { DynamicFieldDisplay } from "@/components/features/tickets/display/DynamicFieldDisplay";
 import { CardDescription } from "@/components/ui/card";
 import { Info } from "lucide-react";
@@ -89,6 +96,8 @@ export default async function SuperAdminTicketPage({ params }: { params: Promise
       creator_full_name: users.full_name,
       creator_email: users.email,
       assigned_staff_id: assignedUser.id,
+      assigned_staff_name: assignedUser.full_name,
+      assigned_staff_email: assignedUser.email,
     })
     .from(tickets)
     .leftJoin(categories, eq(tickets.category_id, categories.id))
@@ -122,6 +131,9 @@ export default async function SuperAdminTicketPage({ params }: { params: Promise
       }
     : null;
 
+  const assignedStaffId = ticketRows[0]?.assigned_staff_id ?? null;
+  const assignedStaffName = ticketRows[0]?.assigned_staff_name || ticketRows[0]?.assigned_staff_email || null;
+
   const ticket = {
     ...ticketRows[0],
     creator_name: ticketRows[0].creator_full_name || null,
@@ -130,7 +142,7 @@ export default async function SuperAdminTicketPage({ params }: { params: Promise
   };
 
   // Fetch student data, profile fields, category schema, and statuses in parallel
-  const [studentDataResult, profileFieldsConfig, categorySchema, ticketStatuses] = await Promise.all([
+  const [studentDataResult, profileFieldsConfig, categorySchema, ticketStatuses, assignmentActivity, coverage] = await Promise.all([
     // Fetch student data for profile fields
     db
       .select({
@@ -154,7 +166,15 @@ export default async function SuperAdminTicketPage({ params }: { params: Promise
       ? getCategorySchema(ticket.category_id)
       : Promise.resolve(null),
     getCachedTicketStatuses().catch(() => []),
+    getLatestTicketActivity(id, TICKET_ACTIVITY.AUTO_ASSIGNED).catch(() => null),
+    // Who is handling the ticket while the assignee is out of office
+    assignedStaffId
+      ? getTicketCoverageScope(id)
+          .then((scope) => resolveAdminCoverage(assignedStaffId, scope))
+          .catch(() => null)
+      : Promise.resolve(null),
   ]);
+  const assignmentDetails = (assignmentActivity?.details ?? null) as { reason?: string; strategy?: string } | null;
 
   const forwardTargetsRaw = await db
     .select({
@@ -177,17 +197,20 @@ export default async function SuperAdminTicketPage({ params }: { params: Promise
   // Parse metadata (JSONB) with error handling
   type TicketMetadataWithExtras = TicketMetadata & {
     subcategory?: string;
-    comments?: Array<Record<string, unknown>>;
     images?: string[];
   };
   let metadata: TicketMetadataWithExtras = {};
   let subcategory: string | null = null;
-  let comments: Array<Record<string, unknown>> = [];
+  const [comments, attachmentRows, attachmentRules] = await Promise.all([
+    getTicketComments(id, { includeInternal: true }),
+    getTicketAttachments(id, { includeInternal: true }),
+    getTicketAttachmentRules(id),
+  ]);
+  const attachments = attachmentRows.map(toTicketAttachment);
 
   try {
     metadata = (ticket.metadata as TicketMetadataWithExtras) || {};
     subcategory = metadata?.subcategory || null;
-    comments = Array.isArray(metadata?.comments) ? metadata.comments : [];
   } catch (error) {
     console.error('[Super Admin Ticket] Error parsing metadata:', error);
     // Continue with empty defaults
@@ -195,7 +218,8 @@ export default async function SuperAdminTicketPage({ params }: { params: Promise
 
 
   // Extract dynamic fields from metadata (after metadata is initialized)
-  const dynamicFields = extractDynamicFields(metadata as Record<string, unknown>, categorySchema || {});
+  const formVersionFields = await getTicketFormVersionFields(metadata);
+  const dynamicFields = extractDynamicFields(metadata as Record<string, unknown>, categorySchema || {}, formVersionFields);
 
   // Normalize status for comparisons
   const statusValueStr = typeof ticket.status === 'string' 
@@ -229,7 +253,7 @@ export default async function SuperAdminTicketPage({ params }: { params: Promise
     reopened_at: reopenedAt,
     escalation_level: ticket.escalation_level,
     status: statusValueStr,
-  }, normalizedStatus);
+  }, normalizedStatus, comments);
 
   // Add TAT set entry if TAT was set
   const tatSetAt = metadata?.tatSetAt;
@@ -378,8 +402,21 @@ export default async function SuperAdminTicketPage({ params }: { params: Promise
               <span className="text-sm font-medium text-muted-foreground">Assigned To</span>
             </div>
             <p className="text-base font-semibold break-words">
-              {ticket.assigned_staff_id ? "Assigned" : "Unassigned"}
+              {assignedStaffId ? assignedStaffName || "Assigned" : "Unassigned"}
             </p>
+            {coverage && (
+              <div className="mt-2 pt-2 border-t border-purple-200 dark:border-purple-800">
+                <p className="text-xs text-muted-foreground">
+                  Away until {format(coverage.absence.endsAt, 'MMM d, yyyy HH:mm')}
+                  {coverage.absence.note ? ` (${coverage.absence.note})` : ""}
+                </p>
+                <p className="text-xs font-medium mt-1">
+                  {coverage.cover
+                    ? `Covered by ${coverage.cover.name || coverage.cover.email || "another admin"} (${coverage.cover.via === "delegate" ? "delegate" : "next admin in scope"})`
+                    : "No one is covering"}
+                </p>
+              </div>
+            )}
           </CardContent>
         </Card>
         <Card className="border-2 bg-gradient-to-br from-green-50/50 to-green-100/30 dark:from-green-950/20 dark:to-green-900/10">
@@ -495,6 +532,12 @@ export default async function SuperAdminTicketPage({ params }: { params: Promise
                 </div>
               )}
 
+              {attachments.length > 0 && (
+                <div className="p-4 rounded-lg bg-muted/50 border">
+                  <TicketAttachmentList attachments={attachments} />
+                </div>
+              )}
+
               {/* Additional Dynamic Fields - Filter out TAT-related fields */}
               {(() => {
                 // Filter out TAT-related fields from dynamic fields
@@ -633,7 +676,7 @@ export default async function SuperAdminTicketPage({ params }: { params: Promise
                       }
 
                       // Chat-style for regular comments
-                      const isStudent = commentSource === "website";
+                      const isStudent = comment.authorRole === "student" || commentSource === "website";
                       const isAdmin = !isStudent;
                       
                       return (
@@ -684,7 +727,7 @@ export default async function SuperAdminTicketPage({ params }: { params: Promise
 
               <Separator />
 
-              <AdminCommentComposer ticketId={ticket.id} />
+              <AdminCommentComposer ticketId={ticket.id} attachmentRules={attachmentRules} />
             </CardContent>
           </Card>
 
@@ -762,6 +805,23 @@ export default async function SuperAdminTicketPage({ params }: { params: Promise
                   </p>
                 )}
               </div>
+              {assignmentDetails?.reason && (
+                <>
+                  <Separator />
+                  <div>
+                    <label className="text-sm font-medium text-muted-foreground flex items-center gap-2 mb-1">
+                      <Info className="w-4 h-4" />
+                      Why Assigned
+                    </label>
+                    <p className="text-sm break-words">{assignmentDetails.reason}</p>
+                    {assignmentDetails.strategy && (
+                      <Badge variant="outline" className="mt-1 text-xs">
+                        {assignmentDetails.strategy.replace(/_/g, " ")}
+                      </Badge>
+                    )}
+                  </div>
+                </>
+              )}
               {tatDate && (
                 <>
                   <Separator />
@@ -0,0 +1,25 @@
+import { WebhooksManager } from "@/components/superadmin/WebhooksManager";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Super Admin Webhooks Page
+ * Note: Auth and role checks are handled by superadmin/layout.tsx
+ */
+export default async function WebhooksPage() {
+
+  return (
+    <div className="space-y-8 p-6">
+      <div>
+        <h1 className="text-4xl font-bold tracking-tight mb-2 bg-gradient-to-r from-foreground to-foreground/70 bg-clip-text text-transparent">
+          Webhooks
+        </h1>
+        <p className="text-muted-foreground">
+          Send signed ticket events to other campus systems
+        </p>
+      </div>
+
+      <WebhooksManager />
+    </div>
+  );
+}
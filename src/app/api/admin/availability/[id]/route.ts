@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { db, admin_availability } from "@/db";
+import { eq } from "drizzle-orm";
+import { getCachedAdminUser } from "@/lib/cache/cached-queries";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { AUDIT_ENTITY } from "@/conf/constants";
+
+/**
+ * DELETE /api/admin/availability/[id]
+ * Remove (or end early) an out-of-office window. Owner or super admin only.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { dbUser, role } = await getCachedAdminUser(userId);
+    if (!dbUser || (role !== "admin" && role !== "super_admin")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const windowId = parseInt(id);
+    if (isNaN(windowId) || windowId <= 0) {
+      return NextResponse.json({ error: "Invalid window ID" }, { status: 400 });
+    }
+
+    const [window] = await db
+      .select({ id: admin_availability.id, user_id: admin_availability.user_id })
+      .from(admin_availability)
+      .where(eq(admin_availability.id, windowId))
+      .limit(1);
+
+    if (!window) {
+      return NextResponse.json({ error: "Availability window not found" }, { status: 404 });
+    }
+    if (window.user_id !== dbUser.id && role !== "super_admin") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const [deleted] = await db
+      .delete(admin_availability)
+      .where(eq(admin_availability.id, windowId))
+      .returning();
+
+    await recordAudit(request, {
+      actorClerkId: userId,
+      action: "availability.delete",
+      entityType: AUDIT_ENTITY.AVAILABILITY,
+      entityId: windowId,
+      before: deleted,
+    });
+
+    return NextResponse.json({ message: "Availability window removed" });
+  } catch (error) {
+    console.error("Error deleting availability window:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
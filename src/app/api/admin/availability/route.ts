@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { db, admin_availability, users, roles } from "@/db";
+import { eq } from "drizzle-orm";
+import { getCachedAdminUser } from "@/lib/cache/cached-queries";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { AUDIT_ENTITY } from "@/conf/constants";
+import { CreateAvailabilityWindowSchema } from "@/schemas/business/availability";
+import { findOverlappingWindows, listAvailabilityWindows } from "@/lib/assignment/availability";
+
+/**
+ * ============================================
+ * /api/admin/availability
+ * ============================================
+ *
+ * GET → Current and upcoming out-of-office windows
+ *   - Auth: Required (Admin, Super Admin)
+ *   - Query: userId (super admin only; defaults to the caller)
+ *
+ * POST → Declare an out-of-office window
+ *   - Auth: Required (Admin, Super Admin)
+ *   - Body: { starts_at, ends_at, delegate_id?, note?, user_id? (super admin only) }
+ *   - While the window is active, new, reassigned and escalated tickets and SPOC reminders
+ *     go to the delegate (or the next available admin in scope)
+ * ============================================
+ */
+
+async function isAdminUser(userId: string): Promise<boolean> {
+  const [row] = await db
+    .select({ role: roles.name })
+    .from(users)
+    .leftJoin(roles, eq(users.role_id, roles.id))
+    .where(eq(users.id, userId))
+    .limit(1);
+  return row?.role === "admin" || row?.role === "super_admin";
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { dbUser, role } = await getCachedAdminUser(userId);
+    if (!dbUser || (role !== "admin" && role !== "super_admin")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const requestedUserId = request.nextUrl.searchParams.get("userId");
+    if (requestedUserId && requestedUserId !== dbUser.id && role !== "super_admin") {
+      return NextResponse.json({ error: "Only super admins can view other admins' availability" }, { status: 403 });
+    }
+
+    const windows = await listAvailabilityWindows(requestedUserId || dbUser.id);
+    return NextResponse.json({ windows });
+  } catch (error) {
+    console.error("Error fetching availability:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { dbUser, role } = await getCachedAdminUser(userId);
+    if (!dbUser || (role !== "admin" && role !== "super_admin")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const parsed = CreateAvailabilityWindowSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const { starts_at, ends_at, delegate_id, note, user_id } = parsed.data;
+    const targetUserId = user_id || dbUser.id;
+
+    if (targetUserId !== dbUser.id) {
+      if (role !== "super_admin") {
+        return NextResponse.json({ error: "Only super admins can set availability for other admins" }, { status: 403 });
+      }
+      if (!(await isAdminUser(targetUserId))) {
+        return NextResponse.json({ error: "Selected user is not an admin" }, { status: 400 });
+      }
+    }
+
+    if (ends_at.getTime() <= Date.now()) {
+      return NextResponse.json({ error: "The window must end in the future" }, { status: 400 });
+    }
+
+    if (delegate_id) {
+      if (delegate_id === targetUserId) {
+        return NextResponse.json({ error: "An admin cannot delegate to themselves" }, { status: 400 });
+      }
+      if (!(await isAdminUser(delegate_id))) {
+        return NextResponse.json({ error: "Delegate must be an admin" }, { status: 400 });
+      }
+    }
+
+    const overlapping = await findOverlappingWindows(targetUserId, starts_at, ends_at);
+    if (overlapping.length > 0) {
+      return NextResponse.json(
+        { error: "This window overlaps an existing one", overlapping: overlapping.map((window) => window.id) },
+        { status: 409 }
+      );
+    }
+
+    const [window] = await db
+      .insert(admin_availability)
+      .values({
+        user_id: targetUserId,
+        starts_at,
+        ends_at,
+        delegate_id: delegate_id || null,
+        note: note || null,
+        created_by: dbUser.id,
+      })
+      .returning();
+
+    await recordAudit(request, {
+      actorClerkId: userId,
+      action: "availability.create",
+      entityType: AUDIT_ENTITY.AVAILABILITY,
+      entityId: window?.id,
+      after: window,
+    });
+
+    return NextResponse.json({ window }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating availability window:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -4,6 +4,8 @@ import { db } from "@/db";
 import { category_assignments } from "@/db/schema";
 import { eq } from "drizzle-orm";
 import { getUserRoleFromDB } from "@/lib/auth/db-roles";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { AUDIT_ENTITY } from "@/conf/constants";
 
 /**
  * DELETE /api/admin/categories/[id]/assignments/[assignmentId]
@@ -36,9 +38,20 @@ export async function DELETE(
             return NextResponse.json({ error: "Invalid assignment ID" }, { status: 400 });
         }
 
-        await db
+        const [deleted] = await db
             .delete(category_assignments)
-            .where(eq(category_assignments.id, assignmentIdNum));
+            .where(eq(category_assignments.id, assignmentIdNum))
+            .returning();
+
+        if (deleted) {
+            await recordAudit(request, {
+                actorClerkId: userId,
+                action: "category_assignment.delete",
+                entityType: AUDIT_ENTITY.CATEGORY_ASSIGNMENT,
+                entityId: assignmentIdNum,
+                before: deleted,
+            });
+        }
 
         return NextResponse.json({ success: true });
     } catch (error) {
@@ -96,12 +109,29 @@ export async function PATCH(
             );
         }
 
+        const [existing] = await db
+            .select()
+            .from(category_assignments)
+            .where(eq(category_assignments.id, assignmentIdNum))
+            .limit(1);
+
         const updated = await db
             .update(category_assignments)
             .set(updateData)
             .where(eq(category_assignments.id, assignmentIdNum))
             .returning();
 
+        if (updated[0]) {
+            await recordAudit(request, {
+                actorClerkId: userId,
+                action: "category_assignment.update",
+                entityType: AUDIT_ENTITY.CATEGORY_ASSIGNMENT,
+                entityId: assignmentIdNum,
+                before: existing,
+                after: updated[0],
+            });
+        }
+
         return NextResponse.json({ assignment: updated[0] });
     } catch (error) {
         console.error("[Category Assignments API] Error:", error);
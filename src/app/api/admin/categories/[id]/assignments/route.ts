@@ -3,6 +3,8 @@ import { auth } from "@clerk/nextjs/server";
 import { db, category_assignments, users } from "@/db";
 import { eq, and, desc } from "drizzle-orm";
 import { getUserRoleFromDB } from "@/lib/auth/db-roles";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { AUDIT_ENTITY } from "@/conf/constants";
 
 /**
  * GET /api/admin/categories/[id]/assignments
@@ -145,6 +147,14 @@ export async function POST(
             })
             .returning();
 
+        await recordAudit(request, {
+            actorClerkId: userId,
+            action: "category_assignment.create",
+            entityType: AUDIT_ENTITY.CATEGORY_ASSIGNMENT,
+            entityId: assignment?.id,
+            after: assignment,
+        });
+
         return NextResponse.json({ assignment });
     } catch (error) {
         console.error("[Category Assignments API] Error:", error);
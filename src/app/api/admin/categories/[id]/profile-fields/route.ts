@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { eq } from "drizzle-orm";
+import { db } from "@/db";
+import { categories } from "@/db/schema";
+import { getUserRoleFromDB } from "@/lib/auth/db-roles";
+import { getOrCreateUser } from "@/lib/auth/user-sync";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { AUDIT_ENTITY } from "@/conf/constants";
+import { parseProfileFields, type CategoryProfileField } from "@/lib/category/profileFields";
+
+/**
+ * ============================================
+ * /api/admin/categories/[id]/profile-fields
+ * ============================================
+ *
+ * GET → Draft Profile Field Configuration
+ *   - Auth: Required (Super Admin)
+ *   - Returns: 200 OK with { profileFields, usesStandardFields }
+ *
+ * POST → Save Draft Profile Field Configuration
+ *   - Auth: Required (Super Admin)
+ *   - Body: { fields: [{ field_name, required, editable }] } in display order,
+ *     or { fields: null } to go back to the standard fields
+ *   - Saved to the category draft; students see it once the category is published
+ *   - Returns: 200 OK with { profileFields, usesStandardFields }
+ * ============================================
+ */
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+async function authorize(): Promise<{ clerkId: string } | NextResponse> {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  await getOrCreateUser(userId);
+  const role = await getUserRoleFromDB(userId);
+
+  if (role !== "super_admin") {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  return { clerkId: userId };
+}
+
+async function parseCategoryId(params: RouteParams["params"]) {
+  const { id } = await params;
+  const categoryId = parseInt(id, 10);
+  return isNaN(categoryId) ? null : categoryId;
+}
+
+function toResponseBody(profileFields: CategoryProfileField[] | null) {
+  return { profileFields: profileFields ?? [], usesStandardFields: profileFields === null };
+}
+
+// GET - Draft profile field configuration
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const authResult = await authorize();
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const categoryId = await parseCategoryId(params);
+    if (categoryId === null) {
+      return NextResponse.json({ error: "Invalid category ID" }, { status: 400 });
+    }
+
+    const [category] = await db
+      .select({ profile_fields: categories.profile_fields })
+      .from(categories)
+      .where(eq(categories.id, categoryId))
+      .limit(1);
+    if (!category) {
+      return NextResponse.json({ error: "Category not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(toResponseBody(category.profile_fields));
+  } catch (error) {
+    console.error("Error fetching category profile fields:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
+
+// POST - Save the draft profile field configuration
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const authResult = await authorize();
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const categoryId = await parseCategoryId(params);
+    if (categoryId === null) {
+      return NextResponse.json({ error: "Invalid category ID" }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object" || !("fields" in body)) {
+      return NextResponse.json({ error: "fields is required" }, { status: 400 });
+    }
+
+    const profileFields = body.fields === null ? null : parseProfileFields(body.fields);
+    if (profileFields === undefined) {
+      return NextResponse.json(
+        { error: "fields must be a list of known profile fields, each with boolean required and editable" },
+        { status: 400 }
+      );
+    }
+
+    const [existing] = await db
+      .select({ profile_fields: categories.profile_fields })
+      .from(categories)
+      .where(eq(categories.id, categoryId))
+      .limit(1);
+    if (!existing) {
+      return NextResponse.json({ error: "Category not found" }, { status: 404 });
+    }
+
+    await db
+      .update(categories)
+      .set({ profile_fields: profileFields, updated_at: new Date() })
+      .where(eq(categories.id, categoryId));
+
+    await recordAudit(request, {
+      actorClerkId: authResult.clerkId,
+      action: "category.profile_fields.update",
+      entityType: AUDIT_ENTITY.CATEGORY,
+      entityId: categoryId,
+      before: existing,
+      after: { profile_fields: profileFields },
+    });
+
+    return NextResponse.json(toResponseBody(profileFields));
+  } catch (error) {
+    console.error("Error saving category profile fields:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
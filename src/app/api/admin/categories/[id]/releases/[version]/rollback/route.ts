@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { revalidateTag } from "next/cache";
+import { getUserRoleFromDB } from "@/lib/auth/db-roles";
+import { getOrCreateUser } from "@/lib/auth/user-sync";
+import { invalidateCategorySchemaCache } from "@/lib/cache/cache-invalidation";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { AUDIT_ENTITY } from "@/conf/constants";
+import { rollbackCategory } from "@/lib/category/categoryReleases";
+import { CATEGORIES_HIERARCHY_CACHE_TAG } from "@/lib/category/getCategoriesHierarchy";
+
+/**
+ * ============================================
+ * /api/admin/categories/[id]/releases/[version]/rollback
+ * ============================================
+ *
+ * POST → Roll Back to a Release
+ *   - Auth: Required (Super Admin)
+ *   - Publishes that release's snapshot again as a new release; the draft is untouched
+ *   - Returns: 201 Created with { release }
+ * ============================================
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; version: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const user = await getOrCreateUser(userId);
+    const role = await getUserRoleFromDB(userId);
+
+    if (role !== "super_admin") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id, version } = await params;
+    const categoryId = parseInt(id, 10);
+    const releaseVersion = parseInt(version, 10);
+    if (isNaN(categoryId) || isNaN(releaseVersion)) {
+      return NextResponse.json({ error: "Invalid category ID or version" }, { status: 400 });
+    }
+
+    const result = await rollbackCategory(categoryId, releaseVersion, { publishedBy: user?.id ?? null });
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    await invalidateCategorySchemaCache(categoryId).catch(err =>
+      console.warn('Failed to invalidate cache:', err)
+    );
+    revalidateTag(CATEGORIES_HIERARCHY_CACHE_TAG);
+
+    await recordAudit(request, {
+      actorClerkId: userId,
+      action: "category.rollback",
+      entityType: AUDIT_ENTITY.CATEGORY_RELEASE,
+      entityId: result.release.id,
+      before: result.before,
+      after: result.release,
+    });
+
+    return NextResponse.json({ release: result.release }, { status: 201 });
+  } catch (error) {
+    console.error("Error rolling back category:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { revalidateTag } from "next/cache";
+import { getUserRoleFromDB } from "@/lib/auth/db-roles";
+import { getOrCreateUser } from "@/lib/auth/user-sync";
+import { invalidateCategorySchemaCache } from "@/lib/cache/cache-invalidation";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { AUDIT_ENTITY } from "@/conf/constants";
+import { getCategoryDraftStatus, listCategoryReleases, publishCategory } from "@/lib/category/categoryReleases";
+import { CATEGORIES_HIERARCHY_CACHE_TAG } from "@/lib/category/getCategoriesHierarchy";
+
+/**
+ * ============================================
+ * /api/admin/categories/[id]/releases
+ * ============================================
+ *
+ * GET → Draft Status and Releases
+ *   - Auth: Required (Super Admin)
+ *   - Returns: 200 OK with { releases, hasUnpublishedChanges, changes }
+ *     (changes: draft compared with the release students see)
+ *
+ * POST → Publish Draft
+ *   - Auth: Required (Super Admin)
+ *   - Snapshots the category's profile fields, subcategories, fields and options as the next release
+ *   - Returns: 201 Created with { release }; 409 when there is nothing to publish
+ * ============================================
+ */
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+async function authorize(): Promise<{ clerkId: string; userId: string | null } | NextResponse> {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const user = await getOrCreateUser(userId);
+  const role = await getUserRoleFromDB(userId);
+
+  if (role !== "super_admin") {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  return { clerkId: userId, userId: user?.id ?? null };
+}
+
+async function parseCategoryId(params: RouteParams["params"]) {
+  const { id } = await params;
+  const categoryId = parseInt(id, 10);
+  return isNaN(categoryId) ? null : categoryId;
+}
+
+// GET - Releases and the unpublished changes of the draft
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const authResult = await authorize();
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const categoryId = await parseCategoryId(params);
+    if (categoryId === null) {
+      return NextResponse.json({ error: "Invalid category ID" }, { status: 400 });
+    }
+
+    const [status, releases] = await Promise.all([
+      getCategoryDraftStatus(categoryId),
+      listCategoryReleases(categoryId),
+    ]);
+    if (!status) {
+      return NextResponse.json({ error: "Category not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      releases: releases.map(({ snapshot, ...release }) => ({
+        ...release,
+        subcategory_count: snapshot.subcategories.length,
+      })),
+      hasUnpublishedChanges: status.hasUnpublishedChanges,
+      changes: status.changes,
+    });
+  } catch (error) {
+    console.error("Error fetching category releases:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
+
+// POST - Publish the draft configuration
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const authResult = await authorize();
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const categoryId = await parseCategoryId(params);
+    if (categoryId === null) {
+      return NextResponse.json({ error: "Invalid category ID" }, { status: 400 });
+    }
+
+    const result = await publishCategory(categoryId, { publishedBy: authResult.userId });
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    // Students see the new release right away
+    await invalidateCategorySchemaCache(categoryId).catch(err =>
+      console.warn('Failed to invalidate cache:', err)
+    );
+    revalidateTag(CATEGORIES_HIERARCHY_CACHE_TAG);
+
+    await recordAudit(request, {
+      actorClerkId: authResult.clerkId,
+      action: "category.publish",
+      entityType: AUDIT_ENTITY.CATEGORY_RELEASE,
+      entityId: result.release.id,
+      before: result.before,
+      after: result.release,
+    });
+
+    return NextResponse.json({ release: result.release }, { status: 201 });
+  } catch (error) {
+    console.error("Error publishing category:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -5,7 +5,11 @@ import { categories } from "@/db/schema";
 import { eq } from "drizzle-orm";
 import { getUserRoleFromDB } from "@/lib/auth/db-roles";
 import { getOrCreateUser } from "@/lib/auth/user-sync";
+import { parseAttachmentTypes } from "@/lib/ticket/data/ticketAttachments";
+import { isAssignmentStrategy } from "@/lib/assignment/strategies";
+import { ASSIGNMENT_STRATEGY, AUDIT_ENTITY } from "@/conf/constants";
 import type { InferSelectModel } from "drizzle-orm";
+import { recordAudit } from "@/lib/audit/auditLog";
 
 // PATCH: Update a category
 export async function PATCH(
@@ -84,6 +88,28 @@ export async function PATCH(
       updateData.display_order = body.display_order;
     }
     
+    if (body.attachment_types !== undefined) {
+      const attachmentTypes = parseAttachmentTypes(body.attachment_types);
+      if (attachmentTypes === undefined) {
+        return NextResponse.json({ error: "Attachment types must be a list of MIME types (e.g. application/pdf, image/*)" }, { status: 400 });
+      }
+      updateData.attachment_types = attachmentTypes;
+    }
+
+    if (body.attachment_max_mb !== undefined) {
+      if (body.attachment_max_mb !== null && (typeof body.attachment_max_mb !== 'number' || !Number.isInteger(body.attachment_max_mb) || body.attachment_max_mb <= 0)) {
+        return NextResponse.json({ error: "Attachment size limit must be a positive whole number of MB" }, { status: 400 });
+      }
+      updateData.attachment_max_mb = body.attachment_max_mb;
+    }
+    
+    if (body.assignment_strategy !== undefined) {
+      if (body.assignment_strategy !== null && !isAssignmentStrategy(body.assignment_strategy)) {
+        return NextResponse.json({ error: `Assignment strategy must be one of: ${Object.values(ASSIGNMENT_STRATEGY).join(", ")}` }, { status: 400 });
+      }
+      updateData.assignment_strategy = body.assignment_strategy;
+    }
+    
     if (body.active !== undefined) {
       updateData.active = body.active === true;
     }
@@ -122,6 +148,7 @@ export async function PATCH(
       }
     }
 
+    const [existing] = await db.select().from(categories).where(eq(categories.id, categoryId)).limit(1);
     const [updated] = await db
       .update(categories)
       .set(updateData)
@@ -132,6 +159,15 @@ export async function PATCH(
       return NextResponse.json({ error: "Category not found" }, { status: 404 });
     }
 
+    await recordAudit(request, {
+      actorClerkId: userId,
+      action: "category.update",
+      entityType: AUDIT_ENTITY.CATEGORY,
+      entityId: categoryId,
+      before: existing,
+      after: updated,
+    });
+
     return NextResponse.json(updated);
   } catch (error) {
     console.error("Error updating category:", error);
@@ -167,6 +203,7 @@ export async function DELETE(
     }
 
     // Soft delete
+    const [existing] = await db.select().from(categories).where(eq(categories.id, categoryId)).limit(1);
     const [updated] = await db
       .update(categories)
       .set({ is_active: false, updated_at: new Date() })
@@ -177,6 +214,15 @@ export async function DELETE(
       return NextResponse.json({ error: "Category not found" }, { status: 404 });
     }
 
+    await recordAudit(request, {
+      actorClerkId: userId,
+      action: "category.deactivate",
+      entityType: AUDIT_ENTITY.CATEGORY,
+      entityId: categoryId,
+      before: existing,
+      after: updated,
+    });
+
     return NextResponse.json({ message: "Category deleted successfully" });
   } catch (error) {
     console.error("Error deleting category:", error);
@@ -5,6 +5,10 @@ import { categories, subcategories, category_fields, field_options } from "@/db/
 import { eq, desc, asc, and, inArray } from "drizzle-orm";
 import { getUserRoleFromDB } from "@/lib/auth/db-roles";
 import { getOrCreateUser } from "@/lib/auth/user-sync";
+import { parseAttachmentTypes } from "@/lib/ticket/data/ticketAttachments";
+import { isAssignmentStrategy } from "@/lib/assignment/strategies";
+import { ASSIGNMENT_STRATEGY, AUDIT_ENTITY } from "@/conf/constants";
+import { recordAudit } from "@/lib/audit/auditLog";
 
 // Cache configuration for this route
 export const revalidate = 30; // Revalidate every 30 seconds
@@ -45,6 +49,9 @@ export async function GET(request: NextRequest) {
           icon: categories.icon,
           color: categories.color,
           sla_hours: categories.sla_hours,
+          attachment_types: categories.attachment_types,
+          attachment_max_mb: categories.attachment_max_mb,
+          assignment_strategy: categories.assignment_strategy,
           domain_id: categories.domain_id,
           scope_id: categories.scope_id,
           default_admin_id: categories.default_admin_id,
@@ -193,6 +200,9 @@ export async function GET(request: NextRequest) {
         icon: categories.icon,
         color: categories.color,
         sla_hours: categories.sla_hours,
+        attachment_types: categories.attachment_types,
+        attachment_max_mb: categories.attachment_max_mb,
+        assignment_strategy: categories.assignment_strategy,
         domain_id: categories.domain_id,
         scope_id: categories.scope_id,
         default_admin_id: categories.default_admin_id,
@@ -236,7 +246,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { name, slug, description, icon, color, sla_hours, display_order, default_admin_id, domain_id, scope_id } = body;
+    const { name, slug, description, icon, color, sla_hours, display_order, default_admin_id, domain_id, scope_id, attachment_types, attachment_max_mb, assignment_strategy } = body;
 
     // Validation
     if (!name || typeof name !== 'string' || name.trim().length === 0) {
@@ -277,6 +287,19 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Display order must be a non-negative number" }, { status: 400 });
     }
 
+    const attachmentTypes = attachment_types === undefined ? null : parseAttachmentTypes(attachment_types);
+    if (attachmentTypes === undefined) {
+      return NextResponse.json({ error: "Attachment types must be a list of MIME types (e.g. application/pdf, image/*)" }, { status: 400 });
+    }
+
+    if (attachment_max_mb !== undefined && attachment_max_mb !== null && (typeof attachment_max_mb !== 'number' || !Number.isInteger(attachment_max_mb) || attachment_max_mb <= 0)) {
+      return NextResponse.json({ error: "Attachment size limit must be a positive whole number of MB" }, { status: 400 });
+    }
+
+    if (assignment_strategy !== undefined && assignment_strategy !== null && !isAssignmentStrategy(assignment_strategy)) {
+      return NextResponse.json({ error: `Assignment strategy must be one of: ${Object.values(ASSIGNMENT_STRATEGY).join(", ")}` }, { status: 400 });
+    }
+
     // Validate default_admin_id if provided (must be valid UUID format)
     if (default_admin_id !== undefined && default_admin_id !== null && default_admin_id !== "") {
       const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
@@ -298,10 +321,21 @@ export async function POST(request: NextRequest) {
         default_admin_id: default_admin_id && default_admin_id !== "" ? String(default_admin_id) : null,
         sla_hours: sla_hours && typeof sla_hours === 'number' ? sla_hours : 48,
         display_order: display_order && typeof display_order === 'number' ? display_order : 0,
+        attachment_types: attachmentTypes,
+        attachment_max_mb: typeof attachment_max_mb === 'number' ? attachment_max_mb : null,
+        assignment_strategy: isAssignmentStrategy(assignment_strategy) ? assignment_strategy : null,
         is_active: true,
       })
       .returning();
 
+    await recordAudit(request, {
+      actorClerkId: userId,
+      action: "category.create",
+      entityType: AUDIT_ENTITY.CATEGORY,
+      entityId: newCategory?.id,
+      after: newCategory,
+    });
+
     // Transform is_active to active for frontend compatibility
     const { is_active, ...rest } = newCategory;
     return NextResponse.json({ ...rest, active: is_active }, { status: 201 });
@@ -6,6 +6,20 @@ import { eq, asc } from "drizzle-orm";
 import { getUserRoleFromDB } from "@/lib/auth/db-roles";
 import { getOrCreateUser } from "@/lib/auth/user-sync";
 import type { InferSelectModel } from "drizzle-orm";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { AUDIT_ENTITY } from "@/conf/constants";
+
+// Field row plus its options, as recorded in the audit log
+async function getFieldSnapshot(fieldId: number) {
+  const [field] = await db.select().from(category_fields).where(eq(category_fields.id, fieldId)).limit(1);
+  if (!field) return null;
+  const options = await db
+    .select({ label: field_options.label, value: field_options.value, display_order: field_options.display_order })
+    .from(field_options)
+    .where(eq(field_options.field_id, fieldId))
+    .orderBy(asc(field_options.display_order));
+  return { ...field, options };
+}
 
 export async function PATCH(
   request: NextRequest,
@@ -53,6 +67,7 @@ export async function PATCH(
       updateData.assigned_admin_id = body.assigned_admin_id === null || body.assigned_admin_id === "" ? null : String(body.assigned_admin_id);
     }
 
+    const fieldBefore = await getFieldSnapshot(fieldId);
     const [updated] = await db
       .update(category_fields)
       .set(updateData)
@@ -119,6 +134,15 @@ export async function PATCH(
       .where(eq(field_options.field_id, fieldId))
       .orderBy(asc(field_options.display_order));
 
+    await recordAudit(request, {
+      actorClerkId: userId,
+      action: "field.update",
+      entityType: AUDIT_ENTITY.FIELD,
+      entityId: fieldId,
+      before: fieldBefore,
+      after: await getFieldSnapshot(fieldId),
+    });
+
     return NextResponse.json({ ...updated, options: fieldOptions });
   } catch (error) {
     console.error("Error updating field:", error);
@@ -152,6 +176,8 @@ export async function DELETE(
       return NextResponse.json({ error: "Invalid field ID" }, { status: 400 });
     }
 
+    const fieldBefore = await getFieldSnapshot(fieldId);
+
     // Delete options first (safe even though field_options has cascade)
     await db.delete(field_options).where(eq(field_options.field_id, fieldId));
 
@@ -164,6 +190,14 @@ export async function DELETE(
       return NextResponse.json({ error: "Field not found" }, { status: 404 });
     }
 
+    await recordAudit(request, {
+      actorClerkId: userId,
+      action: "field.delete",
+      entityType: AUDIT_ENTITY.FIELD,
+      entityId: fieldId,
+      before: fieldBefore,
+    });
+
     return NextResponse.json({
       success: true,
       message: `Field "${deletedField.name}" deleted successfully.`,
@@ -5,6 +5,8 @@ import { category_fields, field_options } from "@/db/schema";
 import { eq, and, desc, asc } from "drizzle-orm";
 import { getUserRoleFromDB } from "@/lib/auth/db-roles";
 import { getOrCreateUser } from "@/lib/auth/user-sync";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { AUDIT_ENTITY } from "@/conf/constants";
 
 const CHOICE_FIELD_TYPES = new Set(["select", "multi_select"]);
 
@@ -232,6 +234,15 @@ export async function POST(request: NextRequest) {
       await db.insert(field_options).values(optionValues);
     }
 
+    await recordAudit(request, {
+      actorClerkId: userId,
+      action: existingField && !existingField.is_active ? "field.reactivate" : "field.create",
+      entityType: AUDIT_ENTITY.FIELD,
+      entityId: newField?.id,
+      before: existingField && !existingField.is_active ? existingField : undefined,
+      after: { ...newField, options: isChoiceField && Array.isArray(options) ? options : [] },
+    });
+
     // Transform is_active to active for frontend compatibility
     const { is_active, ...fieldRest } = newField;
     const transformedField = { ...fieldRest, active: is_active };
@@ -1,9 +1,31 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
-import { db, users, domains, scopes, roles, students, admin_profiles, committees } from "@/db";
-import { eq, inArray } from "drizzle-orm";
+import { db, users, domains, scopes, roles, students, admin_profiles, committees, committee_members } from "@/db";
+import { and, asc, eq, inArray, isNull } from "drizzle-orm";
 import { getCachedAdminUser } from "@/lib/cache/cached-queries";
 import type { InferSelectModel } from "drizzle-orm";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { AUDIT_ENTITY } from "@/conf/constants";
+
+// Role, contact and admin profile of a staff member, as recorded in the audit log
+async function getStaffSnapshot(userId: string) {
+    const [row] = await db
+        .select({
+            role_id: users.role_id,
+            phone: users.phone,
+            primary_domain_id: admin_profiles.primary_domain_id,
+            primary_scope_id: admin_profiles.primary_scope_id,
+            slack_user_id: admin_profiles.slack_user_id,
+            is_active: admin_profiles.is_active,
+            is_available: admin_profiles.is_available,
+            capacity: admin_profiles.capacity,
+        })
+        .from(users)
+        .leftJoin(admin_profiles, eq(admin_profiles.user_id, users.id))
+        .where(eq(users.id, userId))
+        .limit(1);
+    return row ?? null;
+}
 
 export async function GET() {
     try {
@@ -28,6 +50,9 @@ export async function GET() {
                 full_name: users.full_name,
                 email: users.email,
                 slackUserId: admin_profiles.slack_user_id,
+                isActive: admin_profiles.is_active,
+                isAvailable: admin_profiles.is_available,
+                capacity: admin_profiles.capacity,
                 phone: users.phone,
                 role: roles.name,
                 domain: domains.name,
@@ -48,19 +73,22 @@ export async function GET() {
         const committeesMap = new Map<string, { id: number; name: string; description: string | null }>();
         
         if (committeeMemberIds.length > 0) {
+            // Current memberships; a member of several committees is shown with the one they joined first
             const committeeRecords = await db
                 .select({
                     id: committees.id,
                     name: committees.name,
                     description: committees.description,
-                    head_id: committees.head_id,
+                    user_id: committee_members.user_id,
                 })
-                .from(committees)
-                .where(inArray(committees.head_id, committeeMemberIds));
+                .from(committee_members)
+                .innerJoin(committees, eq(committee_members.committee_id, committees.id))
+                .where(and(inArray(committee_members.user_id, committeeMemberIds), isNull(committee_members.left_at)))
+                .orderBy(asc(committee_members.joined_at));
             
             for (const committee of committeeRecords) {
-                if (committee.head_id) {
-                    committeesMap.set(committee.head_id, {
+                if (!committeesMap.has(committee.user_id)) {
+                    committeesMap.set(committee.user_id, {
                         id: committee.id,
                         name: committee.name,
                         description: committee.description,
@@ -81,6 +109,9 @@ export async function GET() {
                 email: staff.email,
                 slackUserId: staff.slackUserId,
                 whatsappNumber: staff.phone, // Map phone to whatsappNumber
+                isActive: staff.isActive ?? true,
+                isAvailable: staff.isAvailable ?? true,
+                capacity: staff.capacity,
                 role: staff.role,
                 domain: staff.domain,
                 scope: staff.scope,
@@ -199,6 +230,8 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({ error: "Invalid role" }, { status: 400 });
         }
 
+        const staffBefore = targetUser ? await getStaffSnapshot(targetUser.id) : null;
+
         // If promoting from student, delete student record
         const elevatedRoles: string[] = ["admin", "super_admin", "committee"];
         if (elevatedRoles.includes(role)) {
@@ -247,6 +280,15 @@ export async function POST(request: NextRequest) {
                 },
             });
 
+        await recordAudit(request, {
+            actorClerkId: userId,
+            action: "staff.create",
+            entityType: AUDIT_ENTITY.STAFF,
+            entityId: targetUser?.id,
+            before: staffBefore,
+            after: targetUser ? await getStaffSnapshot(targetUser.id) : undefined,
+        });
+
         return NextResponse.json({ success: true });
     } catch (error) {
         console.error("Error creating staff:", error);
@@ -270,12 +312,28 @@ export async function PATCH(request: NextRequest) {
         }
 
         const body = await request.json();
-        const { id, domain, scope, role, slackUserId, whatsappNumber } = body;
+        const { id, domain, scope, role, slackUserId, whatsappNumber, isActive, isAvailable, capacity } = body;
 
         if (!id) {
             return NextResponse.json({ error: "Missing user ID" }, { status: 400 });
         }
 
+        // Automatic assignment settings (optional)
+        if (isActive !== undefined && typeof isActive !== "boolean") {
+            return NextResponse.json({ error: "isActive must be a boolean" }, { status: 400 });
+        }
+        if (isAvailable !== undefined && typeof isAvailable !== "boolean") {
+            return NextResponse.json({ error: "isAvailable must be a boolean" }, { status: 400 });
+        }
+        if (capacity !== undefined && (typeof capacity !== "number" || !Number.isInteger(capacity) || capacity <= 0)) {
+            return NextResponse.json({ error: "capacity must be a positive whole number" }, { status: 400 });
+        }
+        const assignmentSettings = {
+            ...(isActive !== undefined ? { is_active: isActive as boolean } : {}),
+            ...(isAvailable !== undefined ? { is_available: isAvailable as boolean } : {}),
+            ...(capacity !== undefined ? { capacity: capacity as number } : {}),
+        };
+
         // Domain is always required
         if (!domain) {
             return NextResponse.json({ error: "Domain is required" }, { status: 400 });
@@ -318,6 +376,7 @@ export async function PATCH(request: NextRequest) {
             updateData.phone = whatsappNumber;
         }
 
+        const staffBefore = await getStaffSnapshot(id);
         await db.update(users).set(updateData).where(eq(users.id, id));
 
         // Check if admin profile exists to preserve existing slack_user_id if not provided
@@ -340,6 +399,7 @@ export async function PATCH(request: NextRequest) {
                 primary_domain_id: domainId,
                 primary_scope_id: scopeId,
                 slack_user_id: finalSlackUserId,
+                ...assignmentSettings,
             })
             .onConflictDoUpdate({
                 target: admin_profiles.user_id,
@@ -347,10 +407,20 @@ export async function PATCH(request: NextRequest) {
                     primary_domain_id: domainId,
                     primary_scope_id: scopeId,
                     slack_user_id: finalSlackUserId,
+                    ...assignmentSettings,
                     updated_at: new Date(),
                 },
             });
 
+        await recordAudit(request, {
+            actorClerkId: userId,
+            action: "staff.update",
+            entityType: AUDIT_ENTITY.STAFF,
+            entityId: id,
+            before: staffBefore,
+            after: await getStaffSnapshot(id),
+        });
+
         return NextResponse.json({ success: true });
     } catch (error) {
         console.error("Error updating staff:", error);
@@ -396,6 +466,8 @@ export async function DELETE(request: NextRequest) {
             return NextResponse.json({ error: "Student role not found" }, { status: 500 });
         }
 
+        const staffBefore = await getStaffSnapshot(id);
+
         // Revert to student role and clear staff assignments
         await db.update(users).set({
             role_id: studentRole.id,
@@ -424,6 +496,15 @@ export async function DELETE(request: NextRequest) {
         // If you want to actually delete the user (use with caution):
         // await db.delete(users).where(eq(users.id, id));
 
+        await recordAudit(request, {
+            actorClerkId: userId,
+            action: "staff.remove",
+            entityType: AUDIT_ENTITY.STAFF,
+            entityId: id,
+            before: staffBefore,
+            after: await getStaffSnapshot(id),
+        });
+
         return NextResponse.json({ success: true, message: "Staff member reverted to student role" });
     } catch (error) {
         console.error("Error deleting staff:", error);
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { db } from "@/db";
+import { subcategories } from "@/db/schema";
+import { eq } from "drizzle-orm";
+import { getUserRoleFromDB } from "@/lib/auth/db-roles";
+import { getOrCreateUser } from "@/lib/auth/user-sync";
+import { getFormVersion, listFormVersions, snapshotFormFields } from "@/lib/category/formVersions";
+import { getPublishedSubcategoryFields } from "@/lib/category/categoryReleases";
+import { diffFormFields } from "@/lib/category/formVersionDiff";
+
+/**
+ * ============================================
+ * /api/admin/subcategories/[id]/form-versions
+ * ============================================
+ *
+ * GET → List Form Versions
+ *   - Auth: Required (Admin, Super Admin)
+ *   - Returns: 200 OK with { versions, pendingChanges }
+ *     (pendingChanges: draft fields compared with the published ones)
+ *   - Query: ?from=<version>&to=<version> returns { changes } between two versions
+ *     (to omitted → compared with the draft fields)
+ *
+ * Versions are recorded when the category is published
+ * (/api/admin/categories/[id]/releases) and when tickets are submitted.
+ * ============================================
+ */
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+async function findSubcategoryId(params: RouteParams["params"]): Promise<number | NextResponse> {
+  const { id } = await params;
+  const subcategoryId = parseInt(id, 10);
+  if (isNaN(subcategoryId)) {
+    return NextResponse.json({ error: "Invalid subcategory ID" }, { status: 400 });
+  }
+
+  const [subcategory] = await db
+    .select({ id: subcategories.id })
+    .from(subcategories)
+    .where(eq(subcategories.id, subcategoryId))
+    .limit(1);
+  if (!subcategory) {
+    return NextResponse.json({ error: "Subcategory not found" }, { status: 404 });
+  }
+  return subcategoryId;
+}
+
+// GET - Versions and pending changes, or the diff between two versions
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await getOrCreateUser(userId);
+    const role = await getUserRoleFromDB(userId);
+
+    if (role !== "admin" && role !== "super_admin") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const subcategoryId = await findSubcategoryId(params);
+    if (subcategoryId instanceof NextResponse) {
+      return subcategoryId;
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const from = searchParams.get("from");
+    if (from !== null) {
+      const to = searchParams.get("to");
+      const fromVersion = await getFormVersion(subcategoryId, parseInt(from, 10));
+      const toVersion = to !== null ? await getFormVersion(subcategoryId, parseInt(to, 10)) : null;
+      if (!fromVersion || (to !== null && !toVersion)) {
+        return NextResponse.json({ error: "Form version not found" }, { status: 404 });
+      }
+
+      const afterFields = toVersion ? toVersion.fields : await snapshotFormFields(subcategoryId);
+      return NextResponse.json({ changes: diffFormFields(fromVersion.fields, afterFields) });
+    }
+
+    const [versions, draftFields, publishedFields] = await Promise.all([
+      listFormVersions(subcategoryId),
+      snapshotFormFields(subcategoryId),
+      getPublishedSubcategoryFields(subcategoryId),
+    ]);
+
+    return NextResponse.json({
+      versions: versions.map(({ fields, ...version }) => ({ ...version, field_count: fields.length })),
+      pendingChanges: diffFormFields(publishedFields ?? [], draftFields),
+    });
+  } catch (error) {
+    console.error("Error fetching form versions:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -6,6 +6,8 @@ import { eq } from "drizzle-orm";
 import { getUserRoleFromDB } from "@/lib/auth/db-roles";
 import { getOrCreateUser } from "@/lib/auth/user-sync";
 import { invalidateCategorySchemaCache } from "@/lib/cache/cache-invalidation";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { AUDIT_ENTITY } from "@/conf/constants";
 
 export async function PATCH(
   request: NextRequest,
@@ -42,6 +44,7 @@ export async function PATCH(
       updateData.assigned_admin_id = body.assigned_admin_id === null || body.assigned_admin_id === "" ? null : String(body.assigned_admin_id);
     }
 
+    const [existing] = await db.select().from(subcategories).where(eq(subcategories.id, subcategoryId)).limit(1);
     const [updated] = await db
       .update(subcategories)
       .set(updateData)
@@ -59,6 +62,15 @@ export async function PATCH(
       );
     }
 
+    await recordAudit(request, {
+      actorClerkId: userId,
+      action: "subcategory.update",
+      entityType: AUDIT_ENTITY.SUBCATEGORY,
+      entityId: subcategoryId,
+      before: existing,
+      after: updated,
+    });
+
     return NextResponse.json(updated);
   } catch (error: unknown) {
     console.error("Error updating subcategory:", error);
@@ -92,6 +104,7 @@ export async function DELETE(
       return NextResponse.json({ error: "Invalid subcategory ID" }, { status: 400 });
     }
 
+    const [existing] = await db.select().from(subcategories).where(eq(subcategories.id, subcategoryId)).limit(1);
     const [updated] = await db
       .update(subcategories)
       .set({ is_active: false, updated_at: new Date() })
@@ -109,6 +122,15 @@ export async function DELETE(
       );
     }
 
+    await recordAudit(request, {
+      actorClerkId: userId,
+      action: "subcategory.deactivate",
+      entityType: AUDIT_ENTITY.SUBCATEGORY,
+      entityId: subcategoryId,
+      before: existing,
+      after: updated,
+    });
+
     return NextResponse.json({ message: "Subcategory deleted successfully" });
   } catch (error) {
     console.error("Error deleting subcategory:", error);
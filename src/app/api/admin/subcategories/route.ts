@@ -4,6 +4,8 @@ import { db } from "@/db";
 import { subcategories, category_fields, field_options } from "@/db/schema";
 import { eq, and, desc, asc } from "drizzle-orm";
 import { getCachedAdminUser } from "@/lib/cache/cached-queries";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { AUDIT_ENTITY } from "@/conf/constants";
 
 // GET: Fetch subcategories for a category
 export async function GET(request: NextRequest) {
@@ -231,6 +233,15 @@ export async function POST(request: NextRequest) {
         })
         .where(eq(subcategories.id, existingInactive.id))
         .returning();
+
+      await recordAudit(request, {
+        actorClerkId: userId,
+        action: "subcategory.reactivate",
+        entityType: AUDIT_ENTITY.SUBCATEGORY,
+        entityId: existingInactive.id,
+        before: existingInactive,
+        after: reactivated,
+      });
       
       // Transform is_active to active for frontend compatibility
       const { is_active, ...rest } = reactivated;
@@ -250,6 +261,14 @@ export async function POST(request: NextRequest) {
       })
       .returning();
 
+    await recordAudit(request, {
+      actorClerkId: userId,
+      action: "subcategory.create",
+      entityType: AUDIT_ENTITY.SUBCATEGORY,
+      entityId: newSubcategory?.id,
+      after: newSubcategory,
+    });
+
     // Transform is_active to active for frontend compatibility
     const { is_active, ...rest } = newSubcategory;
     return NextResponse.json({ ...rest, active: is_active }, { status: 201 });
@@ -12,6 +12,8 @@ import { users } from "@/db/schema";
 import { eq } from "drizzle-orm";
 import { getUserRoleFromDB } from "@/lib/auth/db-roles";
 import { getOrCreateUser } from "@/lib/auth/user-sync";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { AUDIT_ENTITY } from "@/conf/constants";
 
 export async function PATCH(
     request: NextRequest,
@@ -61,6 +63,15 @@ export async function PATCH(
             .where(eq(users.id, targetUserId))
             .returning();
 
+        await recordAudit(request, {
+            actorClerkId: currentUserId,
+            action: "user_role.set",
+            entityType: AUDIT_ENTITY.USER_ROLE,
+            entityId: targetUserId,
+            before: { role_id: targetUser.role_id },
+            after: { role_id: updatedUser?.role_id ?? parseInt(role_id) },
+        });
+
         return NextResponse.json(
             {
                 message: "User role updated successfully",
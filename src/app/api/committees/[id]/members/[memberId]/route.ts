@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getUserRoleFromDB } from "@/lib/auth/db-roles";
+import { getOrCreateUser } from "@/lib/auth/user-sync";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { AUDIT_ENTITY } from "@/conf/constants";
+import {
+  isCommitteeMemberRole,
+  removeCommitteeMember,
+  updateCommitteeMemberRole,
+  COMMITTEE_MEMBER_ROLES,
+} from "@/lib/committee/committeeMembers";
+
+/**
+ * ============================================
+ * /api/committees/[id]/members/[memberId]
+ * ============================================
+ *
+ * PATCH → Change Member Role
+ *   - Auth: Required (Senior Admin, Super Admin)
+ *   - Body: { role: "head" | "coordinator" | "member" }
+ *   - Promoting to head demotes the current head to member
+ *   - Returns: 200 OK with { member }
+ *
+ * DELETE → Remove Member
+ *   - Auth: Required (Senior Admin, Super Admin)
+ *   - Sets left_at (membership history is kept)
+ *   - Returns: 200 OK with { member }
+ * ============================================
+ */
+
+type RouteParams = { params: Promise<{ id: string; memberId: string }> };
+
+async function authorize(): Promise<{ clerkId: string } | NextResponse> {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  // Ensure user exists in database
+  await getOrCreateUser(userId);
+
+  // Snr Admin and Super Admin manage committee membership
+  const role = await getUserRoleFromDB(userId);
+  if (role !== "super_admin" && role !== "snr_admin") {
+    return NextResponse.json({ error: "Only senior admins and super admins can manage committee members" }, { status: 403 });
+  }
+
+  return { clerkId: userId };
+}
+
+async function parseIds(params: RouteParams["params"]) {
+  const { id, memberId } = await params;
+  const committeeId = parseInt(id, 10);
+  const parsedMemberId = parseInt(memberId, 10);
+  return isNaN(committeeId) || isNaN(parsedMemberId) ? null : { committeeId, memberId: parsedMemberId };
+}
+
+// PATCH - Change a member's role
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const authResult = await authorize();
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const ids = await parseIds(params);
+    if (!ids) {
+      return NextResponse.json({ error: "Invalid committee or member ID" }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!isCommitteeMemberRole(body?.role)) {
+      return NextResponse.json({ error: `Role must be one of: ${COMMITTEE_MEMBER_ROLES.join(", ")}` }, { status: 400 });
+    }
+
+    const result = await updateCommitteeMemberRole({ ...ids, role: body.role });
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    if (result.before?.role !== result.member.role) {
+      await recordAudit(request, {
+        actorClerkId: authResult.clerkId,
+        action: "committee_member.update",
+        entityType: AUDIT_ENTITY.COMMITTEE_MEMBER,
+        entityId: result.member.id,
+        before: result.before,
+        after: result.member,
+      });
+    }
+
+    return NextResponse.json({ member: result.member });
+  } catch (error) {
+    console.error("Error updating committee member:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
+
+// DELETE - Remove a member from the committee
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const authResult = await authorize();
+    if (authResult instanceof NextResponse) {
+      return authResult;
+    }
+
+    const ids = await parseIds(params);
+    if (!ids) {
+      return NextResponse.json({ error: "Invalid committee or member ID" }, { status: 400 });
+    }
+
+    const result = await removeCommitteeMember(ids);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    await recordAudit(request, {
+      actorClerkId: authResult.clerkId,
+      action: "committee_member.remove",
+      entityType: AUDIT_ENTITY.COMMITTEE_MEMBER,
+      entityId: result.member.id,
+      before: result.before,
+      after: result.member,
+    });
+
+    return NextResponse.json({ member: result.member });
+  } catch (error) {
+    console.error("Error removing committee member:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -4,15 +4,43 @@ import { db, committees, users } from "@/db";
 import { eq } from "drizzle-orm";
 import { getUserRoleFromDB } from "@/lib/auth/db-roles";
 import { getOrCreateUser } from "@/lib/auth/user-sync";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { AUDIT_ENTITY, COMMITTEE_MEMBER_ROLE } from "@/conf/constants";
+import {
+  addCommitteeMember,
+  isCommitteeMemberRole,
+  listCommitteeMembers,
+  serializeCommitteeMember,
+  COMMITTEE_MEMBER_ROLES,
+} from "@/lib/committee/committeeMembers";
 
-// GET - Get the member (head) of a committee
+/**
+ * ============================================
+ * /api/committees/[id]/members
+ * ============================================
+ *
+ * GET → List Committee Members
+ *   - Auth: Required (Admin, Senior Admin, Super Admin, Committee)
+ *   - Head first, then coordinators and members
+ *   - Query: ?include_former=true also returns members who left (with left_at)
+ *   - Returns: 200 OK with { members }
+ *
+ * POST → Add Committee Member
+ *   - Auth: Required (Senior Admin, Super Admin)
+ *   - Body: { email?: string, user_id?: string, role?: "head" | "coordinator" | "member" }
+ *   - Adding a head demotes the current head to member
+ *   - Returns: 201 Created with { member }
+ * ============================================
+ */
+
+// GET - List the members of a committee
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const { userId } = await auth();
-    
+
     if (!userId) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
@@ -22,8 +50,8 @@ export async function GET(
 
     // Get role from database (single source of truth)
     const role = await getUserRoleFromDB(userId);
-    
-    if (role !== "admin" && role !== "super_admin" && role !== "committee") {
+
+    if (role !== "admin" && role !== "snr_admin" && role !== "super_admin" && role !== "committee") {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
@@ -34,13 +62,8 @@ export async function GET(
       return NextResponse.json({ error: "Invalid committee ID" }, { status: 400 });
     }
 
-    // Get committee with head
     const [committee] = await db
-      .select({
-        id: committees.id,
-        name: committees.name,
-        head_id: committees.head_id,
-      })
+      .select({ id: committees.id })
       .from(committees)
       .where(eq(committees.id, committeeId))
       .limit(1);
@@ -49,51 +72,100 @@ export async function GET(
       return NextResponse.json({ error: "Committee not found" }, { status: 404 });
     }
 
-    if (!committee.head_id) {
-      return NextResponse.json({ members: [] });
+    const includeFormer = request.nextUrl.searchParams.get("include_former") === "true";
+    const members = await listCommitteeMembers(committeeId, { includeFormer });
+
+    return NextResponse.json({ members: members.map(serializeCommitteeMember) });
+  } catch (error) {
+    console.error("Error fetching committee members:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
+
+// POST - Add a member to a committee
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    // Get member details from our users table (auth_provider/external_id/full_name/email)
-    const [member] = await db
-      .select({
-        id: users.id,
-        auth_provider: users.auth_provider,
-        external_id: users.external_id,
-        full_name: users.full_name,
-        email: users.email,
-      })
+    // Ensure user exists in database
+    const actor = await getOrCreateUser(userId);
+
+    // Get role from database (single source of truth)
+    const role = await getUserRoleFromDB(userId);
+
+    // Snr Admin and Super Admin manage committee membership
+    if (role !== "super_admin" && role !== "snr_admin") {
+      return NextResponse.json({ error: "Only senior admins and super admins can manage committee members" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const committeeId = parseInt(id, 10);
+
+    if (isNaN(committeeId)) {
+      return NextResponse.json({ error: "Invalid committee ID" }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const { email, user_id, role: memberRole = COMMITTEE_MEMBER_ROLE.MEMBER } = body || {};
+
+    if (!isCommitteeMemberRole(memberRole)) {
+      return NextResponse.json({ error: `Role must be one of: ${COMMITTEE_MEMBER_ROLES.join(", ")}` }, { status: 400 });
+    }
+
+    if (typeof email !== "string" && typeof user_id !== "string") {
+      return NextResponse.json({ error: "Email or user ID is required" }, { status: 400 });
+    }
+
+    // NOTE: We do NOT auto-create users here. A real user must exist first.
+    const [memberUser] = await db
+      .select({ id: users.id })
       .from(users)
-      .where(eq(users.id, committee.head_id))
+      .where(
+        typeof user_id === "string"
+          ? eq(users.id, user_id)
+          : eq(users.email, email.trim().toLowerCase())
+      )
       .limit(1);
 
-    if (!member) {
-      return NextResponse.json({ members: [] });
+    if (!memberUser) {
+      return NextResponse.json(
+        { error: "No user found. Please ensure the member has a user account before adding them." },
+        { status: 404 }
+      );
+    }
+
+    const result = await addCommitteeMember({
+      committeeId,
+      userId: memberUser.id,
+      role: memberRole,
+      addedBy: actor?.id ?? null,
+    });
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
     }
 
-    // Shape response to match existing frontend expectations (CommitteeMember + nested user)
-    const [firstName, ...restNameParts] = (member.full_name || "").split(" ").filter(Boolean);
-    const lastName = restNameParts.length > 0 ? restNameParts.join(" ") : null;
-
-    const memberWithDetails = {
-      id: member.id,
-      committee_id: committee.id,
-      user_id: member.id,
-      clerk_user_id: member.external_id, // Clerk user id stored as external_id
-      role: "head",
-      created_at: null,
-      updated_at: null,
-      user: {
-        firstName: firstName || null,
-        lastName,
-        emailAddresses: member.email
-          ? [{ emailAddress: member.email }]
-          : [],
-      },
-    };
-
-    return NextResponse.json({ members: [memberWithDetails] });
+    await recordAudit(request, {
+      actorClerkId: userId,
+      action: "committee_member.create",
+      entityType: AUDIT_ENTITY.COMMITTEE_MEMBER,
+      entityId: result.member.id,
+      after: result.member,
+    });
+
+    const member = (await listCommitteeMembers(committeeId)).find((row) => row.id === result.member.id);
+    return NextResponse.json(
+      { member: member ? serializeCommitteeMember(member) : result.member },
+      { status: 201 }
+    );
   } catch (error) {
-    console.error("Error fetching committee member:", error);
+    console.error("Error adding committee member:", error);
     return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
   }
 }
@@ -1,9 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
-import { db, committees, users, roles } from "@/db";
+import { db, committees, users } from "@/db";
 import { eq } from "drizzle-orm";
 import { getUserRoleFromDB } from "@/lib/auth/db-roles";
 import { getOrCreateUser } from "@/lib/auth/user-sync";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { AUDIT_ENTITY } from "@/conf/constants";
+import { endCommitteeMemberships, setCommitteeHead } from "@/lib/committee/committeeMembers";
 
 // PATCH - Update a committee
 export async function PATCH(
@@ -18,7 +21,7 @@ export async function PATCH(
     }
 
     // Ensure user exists in database
-    await getOrCreateUser(userId);
+    const actor = await getOrCreateUser(userId);
 
     // Get role from database (single source of truth)
     const role = await getUserRoleFromDB(userId);
@@ -38,7 +41,7 @@ export async function PATCH(
     const body = await request.json();
     const { name, description, contact_email } = body;
 
-    // Verify committee exists and get current head_id
+    // Verify committee exists
     const [committee] = await db
       .select({
         id: committees.id,
@@ -61,11 +64,12 @@ export async function PATCH(
       name?: string;
       description?: string | null;
       contact_email?: string | null;
-      head_id?: string | null;
       updated_at: Date;
     } = {
       updated_at: new Date(),
     };
+    // undefined = head unchanged, null = remove the head
+    let newHeadId: string | null | undefined;
 
     if (name !== undefined) {
       if (typeof name !== "string" || name.trim().length === 0) {
@@ -132,100 +136,38 @@ export async function PATCH(
           );
         }
 
-        // Ensure new user is not already head of another committee
-        const [existingHeadCommittee] = await db
-          .select({
-            id: committees.id,
-            name: committees.name,
-          })
-          .from(committees)
-          .where(eq(committees.head_id, newHeadUser.id))
-          .limit(1);
-
-        if (existingHeadCommittee && existingHeadCommittee.id !== committeeId) {
-          return NextResponse.json(
-            {
-              error: `User with email ${normalizedNewEmail} is already the head of committee '${existingHeadCommittee.name}'`,
-            },
-            { status: 400 },
-          );
-        }
-
-        // Get role IDs
-        const [studentRole] = await db
-          .select({ id: roles.id })
-          .from(roles)
-          .where(eq(roles.name, "student"))
-          .limit(1);
-
-        const [committeeRole] = await db
-          .select({ id: roles.id })
-          .from(roles)
-          .where(eq(roles.name, "committee"))
-          .limit(1);
-
-        if (!studentRole || !committeeRole) {
-          return NextResponse.json(
-            { error: "Required roles (student, committee) not found in database" },
-            { status: 500 },
-          );
-        }
-
-        // If there was an old head, change their role back to student
-        if (committee.head_id) {
-          await db
-            .update(users)
-            .set({
-              role_id: studentRole.id,
-              updated_at: new Date(),
-            })
-            .where(eq(users.id, committee.head_id));
-        }
-
-        // Change new head's role to committee
-        await db
-          .update(users)
-          .set({
-            role_id: committeeRole.id,
-            updated_at: new Date(),
-          })
-          .where(eq(users.id, newHeadUser.id));
-
-        // Update committee with new head_id and email
-        updateData.head_id = newHeadUser.id;
-        updateData.contact_email = normalizedNewEmail;
-      } else if (normalizedNewEmail === null) {
-        // If email is being cleared, also clear head_id and revert old head to student
-        if (committee.head_id) {
-          const [studentRole] = await db
-            .select({ id: roles.id })
-            .from(roles)
-            .where(eq(roles.name, "student"))
-            .limit(1);
-
-          if (studentRole) {
-            await db
-              .update(users)
-              .set({
-                role_id: studentRole.id,
-                updated_at: new Date(),
-              })
-              .where(eq(users.id, committee.head_id));
-          }
-        }
-        updateData.head_id = null;
-        updateData.contact_email = null;
+        newHeadId = newHeadUser.id;
+      } else if (emailChanged) {
+        // Clearing the email removes the head
+        newHeadId = null;
       } else {
         // Email unchanged, just update the field (normalize it)
         updateData.contact_email = normalizedNewEmail;
       }
     }
 
-    const [updatedCommittee] = await db
-      .update(committees)
-      .set(updateData)
-      .where(eq(committees.id, committeeId))
-      .returning();
+    // A new head goes through committee_members (previous head leaves),
+    // which also mirrors head_id / contact_email onto the committee
+    const updatedCommittee = await db.transaction(async (tx) => {
+      if (newHeadId !== undefined) {
+        await setCommitteeHead({ committeeId, userId: newHeadId, addedBy: actor?.id ?? null }, tx);
+      }
+      const [updated] = await tx
+        .update(committees)
+        .set(updateData)
+        .where(eq(committees.id, committeeId))
+        .returning();
+      return updated;
+    });
+
+    await recordAudit(request, {
+      actorClerkId: userId,
+      action: "committee.update",
+      entityType: AUDIT_ENTITY.COMMITTEE,
+      entityId: committeeId,
+      before: committee,
+      after: updatedCommittee,
+    });
 
     return NextResponse.json({ committee: updatedCommittee });
   } catch (error) {
@@ -264,7 +206,7 @@ export async function DELETE(
       return NextResponse.json({ error: "Invalid committee ID" }, { status: 400 });
     }
 
-    // Verify committee exists and get head_id
+    // Verify committee exists
     const [committee] = await db
       .select({
         id: committees.id,
@@ -282,29 +224,21 @@ export async function DELETE(
       return NextResponse.json({ error: "Committee not found" }, { status: 404 });
     }
 
-    // If there's a head, revert their role back to student before deleting
-    if (committee.head_id) {
-      const [studentRole] = await db
-        .select({ id: roles.id })
-        .from(roles)
-        .where(eq(roles.name, "student"))
-        .limit(1);
-
-      if (studentRole) {
-        await db
-          .update(users)
-          .set({
-            role_id: studentRole.id,
-            updated_at: new Date(),
-          })
-          .where(eq(users.id, committee.head_id));
-      }
-    }
-
-    // Delete the committee
-    await db
-      .delete(committees)
-      .where(eq(committees.id, committeeId));
+    // Members leave first, so those without another committee go back to the student role
+    await db.transaction(async (tx) => {
+      await endCommitteeMemberships(committeeId, tx);
+      await tx
+        .delete(committees)
+        .where(eq(committees.id, committeeId));
+    });
+
+    await recordAudit(request, {
+      actorClerkId: userId,
+      action: "committee.delete",
+      entityType: AUDIT_ENTITY.COMMITTEE,
+      entityId: committeeId,
+      before: committee,
+    });
 
     return NextResponse.json({ message: "Committee deleted successfully" });
   } catch (error) {
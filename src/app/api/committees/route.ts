@@ -5,6 +5,9 @@ import { eq } from "drizzle-orm";
 import { getOrCreateUser } from "@/lib/auth/user-sync";
 import { getUserRoleFromDB } from "@/lib/auth/db-roles";
 import { fastAuthCheck, isAuthError } from "@/lib/auth/fast-auth";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { AUDIT_ENTITY } from "@/conf/constants";
+import { setCommitteeHead } from "@/lib/committee/committeeMembers";
 
 // GET - Get all committees (for admin tagging dropdown)
 export async function GET() {
@@ -47,7 +50,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Ensure user exists in database
-    await getOrCreateUser(userId);
+    const actor = await getOrCreateUser(userId);
 
     // Get role from database (single source of truth)
     const role = await getUserRoleFromDB(userId);
@@ -116,32 +119,29 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Ensure this user is not already the head of another committee
-    const [existingHeadCommittee] = await db
-      .select({
-        id: committees.id,
-        name: committees.name,
-      })
-      .from(committees)
-      .where(eq(committees.head_id, headUser.id))
-      .limit(1);
-
-    if (existingHeadCommittee) {
-      return NextResponse.json(
-        { error: `User with email ${normalizedEmail} is already the head of committee '${existingHeadCommittee.name}'` },
-        { status: 400 },
-      );
-    }
-
-    const [newCommittee] = await db
-      .insert(committees)
-      .values({
-        name: name.trim(),
-        description: description?.trim() || null,
-        contact_email: normalizedEmail,
-        head_id: headUser.id,
-      })
-      .returning();
+    // The contact email's user joins as the committee head
+    const newCommittee = await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(committees)
+        .values({
+          name: name.trim(),
+          description: description?.trim() || null,
+          contact_email: normalizedEmail,
+          head_id: headUser.id,
+        })
+        .returning();
+
+      await setCommitteeHead({ committeeId: created!.id, userId: headUser.id, addedBy: actor?.id ?? null }, tx);
+      return created;
+    });
+
+    await recordAudit(request, {
+      actorClerkId: userId,
+      action: "committee.create",
+      entityType: AUDIT_ENTITY.COMMITTEE,
+      entityId: newCommittee?.id,
+      after: newCommittee,
+    });
 
     return NextResponse.json({ committee: newCommittee }, { status: 201 });
   } catch (error) {
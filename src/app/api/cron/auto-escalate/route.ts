@@ -1,12 +1,17 @@
 import { NextRequest, NextResponse } from "next/server";
-import { db, tickets, ticket_feedback, users, roles, categories, domains } from "@/db";
-import { and, eq, ne } from "drizzle-orm";
-import { postThreadReply } from "@/lib/integration/slack";
+import { db, tickets, ticket_feedback, ticket_comments, users, roles, categories, domains, outbox } from "@/db";
+import { and, eq, gt, isNull, ne, max } from "drizzle-orm";
 import type { TicketMetadata } from "@/db/inferred-types";
 import { appConfig } from "@/conf/config";
 import { TICKET_STATUS } from "@/conf/constants";
 import { verifyCronAuth } from "@/lib/cron-auth";
 import { getStatusIdByValue } from "@/lib/status/getTicketStatuses";
+import { resolveBusinessCalendar } from "@/lib/sla/calendars";
+import { applySlaPauseTransition, getSlaPausingStatusIds } from "@/lib/sla/pauses";
+import { addBusinessHours, businessHoursBetween, type BusinessCalendar } from "@/lib/sla/businessHours";
+
+// Rule 6: business hours without activity before an in-progress ticket counts as stalled
+const STALLED_BUSINESS_HOURS = 48;
 
 // Auto-escalate tickets that haven't been updated in n days
 // This should be called by a cron job (e.g., Vercel Cron, GitHub Actions, etc.)
@@ -38,6 +43,7 @@ export async function GET(request: NextRequest) {
 				ticket: tickets,
 				category_name: categories.name,
 				domain_id: categories.domain_id,
+				category_scope_id: categories.scope_id,
 			})
 			.from(tickets)
 			.leftJoin(categories, eq(categories.id, tickets.category_id))
@@ -53,9 +59,35 @@ export async function GET(request: NextRequest) {
 		// 3. Repeated Reopening - 3rd time (Rule 3)
 		// 4. Negative Feedback (Low Rating) - 1 or 2 stars (Rule 4)
 		// 5. "Ping-Pong" Forwarding - > 3 times (Rule 5)
-		// 6. Stalled "In Progress" - no activity for 48 hours (Rule 6)
+		// 6. Stalled "In Progress" - no activity for 48 business hours (Rule 6)
 		const now = new Date();
-		const fortyEightHoursAgo = new Date(now.getTime() - 48 * 60 * 60 * 1000);
+
+		// Tickets waiting on the student have their SLA clock stopped - no overdue checks while paused
+		const pausingStatusIds = await getSlaPausingStatusIds();
+
+		// Business calendar per ticket (scope → domain → default → 24x7), resolved once per scope/domain pair
+		const calendarsByKey = new Map<string, BusinessCalendar>();
+		const ticketCalendars = new Map<number, BusinessCalendar>();
+		for (const { ticket, domain_id, category_scope_id } of allPendingTickets) {
+			const scopeId = ticket.scope_id ?? category_scope_id ?? null;
+			const key = `${scopeId ?? ""}:${domain_id ?? ""}`;
+			let calendar = calendarsByKey.get(key);
+			if (!calendar) {
+				calendar = await resolveBusinessCalendar({ scopeId, domainId: domain_id });
+				calendarsByKey.set(key, calendar);
+			}
+			ticketCalendars.set(ticket.id, calendar);
+		}
+
+		// Latest comment per ticket (for Rule 6). 48 business hours can span well over a week of
+		// nights, weekends and holidays, so look back 30 days rather than 48 wall-clock hours.
+		const commentLookback = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
+		const recentCommentRows = await db
+			.select({ ticket_id: ticket_comments.ticket_id, last_comment_at: max(ticket_comments.created_at) })
+			.from(ticket_comments)
+			.where(and(gt(ticket_comments.created_at, commentLookback), isNull(ticket_comments.deleted_at)))
+			.groupBy(ticket_comments.ticket_id);
+		const lastCommentAt = new Map(recentCommentRows.map(r => [r.ticket_id, r.last_comment_at]));
 		
 		const ticketsToEscalate = allPendingTickets.map(({ ticket, category_name, domain_id }) => {
 			let escalationReason = "";
@@ -86,28 +118,31 @@ export async function GET(request: NextRequest) {
 				escalationReason = `TAT extension limit (${tatExtensionCount} extensions)`;
 			}
 
-			// Rule 2: Ticket Overdue (SLA Breach) - resolution_due_at passed
-			const dueAt = ticket.resolution_due_at || ticket.acknowledgement_due_at;
-			if (dueAt) {
-				const dueAtDate = new Date(dueAt);
-				if (dueAtDate.getTime() < now.getTime()) {
-					hasTATViolation = true;
-					slaBreachedAt = dueAtDate;
-					if (!escalationReason) {
-						escalationReason = "SLA breach (resolution due date passed)";
+			// Rule 2: Ticket Overdue (SLA Breach) - resolution_due_at passed (not while the SLA is paused)
+			const isSlaPaused = ticket.status_id !== null && pausingStatusIds.has(ticket.status_id);
+			if (!isSlaPaused) {
+				const dueAt = ticket.resolution_due_at || ticket.acknowledgement_due_at;
+				if (dueAt) {
+					const dueAtDate = new Date(dueAt);
+					if (dueAtDate.getTime() < now.getTime()) {
+						hasTATViolation = true;
+						slaBreachedAt = dueAtDate;
+						if (!escalationReason) {
+							escalationReason = "SLA breach (resolution due date passed)";
+						}
 					}
 				}
-			}
 			
-			// Check TAT date violation (legacy field in metadata)
-			const tatDate = details.tatDate ? new Date(details.tatDate) : null;
-			if (tatDate && tatDate.getTime() < now.getTime()) {
-				hasTATViolation = true;
-				if (!slaBreachedAt || tatDate.getTime() < slaBreachedAt.getTime()) {
-					slaBreachedAt = tatDate;
-				}
-				if (!escalationReason) {
-					escalationReason = "TAT violation (TAT date passed)";
+				// Check TAT date violation (legacy field in metadata)
+				const tatDate = details.tatDate ? new Date(details.tatDate) : null;
+				if (tatDate && tatDate.getTime() < now.getTime()) {
+					hasTATViolation = true;
+					if (!slaBreachedAt || tatDate.getTime() < slaBreachedAt.getTime()) {
+						slaBreachedAt = tatDate;
+					}
+					if (!escalationReason) {
+						escalationReason = "TAT violation (TAT date passed)";
+					}
 				}
 			}
 
@@ -138,23 +173,16 @@ export async function GET(request: NextRequest) {
 				}
 			}
 
-			// Rule 6: Stalled "In Progress" - no activity for 48 hours
+			// Rule 6: Stalled "In Progress" - no activity (updates or comments) for 48 business hours
 			if (inProgressStatusId && ticket.status_id === inProgressStatusId) {
 				const lastUpdate = ticket.updated_at || ticket.created_at;
-				if (lastUpdate && new Date(lastUpdate).getTime() < fortyEightHoursAgo.getTime()) {
-					// Check if there are any comments in the last 48 hours
-					const comments = Array.isArray(details.comments) ? details.comments : [];
-					const recentComments = comments.filter((c: { createdAt?: string }) => {
-						if (!c.createdAt) return false;
-						const commentDate = new Date(c.createdAt);
-						return commentDate.getTime() > fortyEightHoursAgo.getTime();
-					});
-					
-					if (recentComments.length === 0) {
-						hasStalledInProgress = true;
-						if (!escalationReason) {
-							escalationReason = "stalled in progress (no activity for 48 hours)";
-						}
+				const lastComment = lastCommentAt.get(ticket.id);
+				const lastActivity = lastComment && (!lastUpdate || lastComment > lastUpdate) ? lastComment : lastUpdate;
+				const calendar = ticketCalendars.get(ticket.id);
+				if (lastActivity && calendar && businessHoursBetween(new Date(lastActivity), now, calendar) >= STALLED_BUSINESS_HOURS) {
+					hasStalledInProgress = true;
+					if (!escalationReason) {
+						escalationReason = `stalled in progress (no activity for ${STALLED_BUSINESS_HOURS} business hours)`;
 					}
 				}
 			}
@@ -288,7 +316,9 @@ export async function GET(request: NextRequest) {
 				// Only set TAT from escalation rule if ticket doesn't have one
 				if (!hasExistingTAT && nextTarget && nextTarget.tat_hours) {
 					const now = new Date();
-					const newTATDate = new Date(now.getTime() + nextTarget.tat_hours * 60 * 60 * 1000);
+					// tat_hours are business hours on the ticket's calendar
+					const calendar = ticketCalendars.get(ticket.id) ?? await resolveBusinessCalendar({ domainId: domain_id });
+					const newTATDate = addBusinessHours(now, nextTarget.tat_hours, calendar);
 					
 					// Set TAT in metadata
 					metadata.tat = `${nextTarget.tat_hours} hours`;
@@ -304,52 +334,37 @@ export async function GET(request: NextRequest) {
 					// Ticket already has TAT set, preserving it
 				}
 
-				await db
-					.update(tickets)
-					.set(updateData)
-					.where(eq(tickets.id, ticket.id));
-
-				// Send Slack notification (reuse metadata already parsed above)
-				const details = ticketMetadata;
-				const categoryNameForSlack = category_name || categoryNameForEscalation || "College"; // Default fallback
-
-				// Check if category_id exists (assuming non-null means it's a valid category)
-				if (ticket.category_id) {
-					const slackMessageTs = details.slackMessageTs;
-					if (slackMessageTs) {
-						try {
-							// Use the escalation reason determined earlier
-							const reason = escalationReason || `automatic escalation trigger`;
-
-							const escalationText = `🚨 *AUTO-ESCALATION #${newEscalationCount}*\nTicket #${ticket.id} has been automatically escalated due to: ${reason}.\nEscalation count: ${newEscalationCount}\nEscalated to: ${escalatedTo === "super_admin_urgent" ? "Super Admin (URGENT)" : "Super Admin"}`;
-							
-							const { slackConfig } = await import("@/conf/config");
-							const ccUserIds = slackConfig.defaultCc;
-
-							const channelOverride = details.slackChannel;
-							if (channelOverride) {
-								const { postThreadReplyToChannel } = await import("@/lib/integration/slack");
-								await postThreadReplyToChannel(
-									channelOverride,
-									slackMessageTs,
-									escalationText,
-									ccUserIds
-								);
-							} else {
-								// Use the category name we determined earlier
-								await postThreadReply(
-									categoryNameForSlack as "College" | "Hostel" | "Committee",
-									slackMessageTs,
-									escalationText,
-									ccUserIds
-								);
-							}
-						} catch (slackError) {
-							console.error(`❌ Error posting auto-escalation to Slack for ticket #${ticket.id}:`, slackError);
-						}
+				// Update ticket and queue the escalation notification in one transaction;
+				// the ticket.escalated worker posts to the Slack thread and emails the next-level admin
+				await db.transaction(async (tx) => {
+					// Escalating a paused ticket restarts the SLA clock; a TAT set just above starts from now
+					if (updateData.status_id) {
+						Object.assign(
+							updateData,
+							await applySlaPauseTransition(tx, ticket.id, TICKET_STATUS.ESCALATED, {
+								metadata: updateData.metadata as TicketMetadata,
+								shiftDueDate: !!hasExistingTAT,
+							})
+						);
 					}
-				}
 
+					await tx
+						.update(tickets)
+						.set(updateData)
+						.where(eq(tickets.id, ticket.id));
+
+					await tx.insert(outbox).values({
+						event_type: "ticket.escalated.auto",
+						payload: {
+							ticket_id: ticket.id,
+							escalated_by_role: "system",
+							previous_level: currentEscalationCount,
+							new_escalation_level: newEscalationCount,
+							escalated_to: escalatedTo,
+							reason: escalationReason || "automatic escalation trigger",
+						},
+					});
+				});
 
 				escalated.push(ticket.id);
 			} catch (error) {
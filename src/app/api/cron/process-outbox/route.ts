@@ -1,8 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
-import { claimNextOutboxRow, markOutboxSuccess, markOutboxFailure } from "@/workers/utils";
+import { claimOutboxBatch, markOutboxSuccess, markOutboxFailure, type OutboxRow } from "@/workers/utils";
 import { processTicketCreated } from "@/workers/handlers/processTicketCreatedWorker";
+import { processTicketEscalated } from "@/workers/handlers/processTicketEscalatedWorker";
+import { processTicketCommentAdded } from "@/workers/handlers/processTicketCommentAddedWorker";
+import { processTicketStatusUpdated } from "@/workers/handlers/processTicketStatusUpdatedWorker";
+import { processWebhookDeliveryWorker } from "@/workers/handlers/processWebhookDeliveryWorker";
+import { processTicketExportWorker } from "@/workers/handlers/processTicketExportWorker";
+import { processCommitteeTaggedWorker } from "@/workers/handlers/processCommitteeTaggedWorker";
+import { enqueueWebhookDeliveries, WEBHOOK_DELIVER_EVENT } from "@/lib/notification/webhooks";
+import { TICKET_EXPORT_EVENT } from "@/lib/ticket/data/ticketExport";
+import { COMMITTEE_TAGGED_EVENT } from "@/lib/committee/committeeMembers";
 import { verifyCronAuth } from "@/lib/cron-auth";
 import { logger } from "@/lib/logger";
+import { outboxConfig } from "@/conf/config";
 import { db, outbox } from "@/db";
 import { sql } from "drizzle-orm";
 
@@ -15,10 +25,98 @@ type TicketCreatedPayload = {
   category?: string;
 };
 
+function assertObjectPayload(id: number, payload: unknown): Record<string, unknown> {
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    logger.warn(`[Outbox] Invalid payload type for event ${id}`, { payloadType: typeof payload });
+    throw new Error('Invalid payload type');
+  }
+  return payload as Record<string, unknown>;
+}
+
+/**
+ * Route a claimed outbox row to its handler.
+ * Throws on failure; the caller records the attempt (retry or dead-letter).
+ * Lifecycle events are first fanned out to webhook endpoints (idempotent, so retries don't duplicate).
+ */
+async function dispatchOutboxEvent(row: OutboxRow): Promise<void> {
+  const { event_type, payload, id } = row;
+
+  if (event_type !== WEBHOOK_DELIVER_EVENT) {
+    await enqueueWebhookDeliveries(row);
+  }
+
+  switch (event_type) {
+    case "ticket.created":
+    case "ticket.created.v1": {
+      // Deep clone to avoid any reference issues
+      const parsed = JSON.parse(JSON.stringify(assertObjectPayload(id, payload))) as Record<string, unknown>;
+      if (typeof parsed.ticket_id !== 'number') {
+        logger.warn(`[Outbox] Missing ticket_id in payload for event ${id}`);
+        throw new Error('Invalid payload: missing ticket_id');
+      }
+      const ticketPayload: TicketCreatedPayload = {
+        ticket_id: parsed.ticket_id,
+        created_by_clerk: typeof parsed.created_by_clerk === 'string' ? parsed.created_by_clerk : undefined,
+        category: typeof parsed.category === 'string' ? parsed.category : undefined,
+      };
+      await processTicketCreated(id, ticketPayload);
+      return;
+    }
+
+    case "ticket.escalated":
+    case "ticket.escalated.manual":
+    case "ticket.escalated.auto":
+      await processTicketEscalated(id, assertObjectPayload(id, payload));
+      return;
+
+    case "ticket.comment.added":
+    case "ticket.comment_added":
+      await processTicketCommentAdded(id, assertObjectPayload(id, payload));
+      return;
+
+    case "ticket.status.updated":
+    case "ticket.status_changed":
+      await processTicketStatusUpdated(id, assertObjectPayload(id, payload));
+      return;
+
+    // Only delivered to webhooks (the TAT routes notify the student and Slack directly;
+    // SLA resumes are recorded by applySlaPauseTransition with the status change itself)
+    case "ticket.tat.set":
+    case "TAT_RESUME":
+      return;
+
+    // Only delivered to webhooks (the assign, reassign, forward and Slack routes notify directly)
+    case "ticket.reassigned":
+    case "ticket.assignment.updated":
+    case "ticket.forwarded":
+      return;
+
+    case WEBHOOK_DELIVER_EVENT:
+      await processWebhookDeliveryWorker(row, assertObjectPayload(id, payload));
+      return;
+
+    case TICKET_EXPORT_EVENT:
+      await processTicketExportWorker(row, assertObjectPayload(id, payload));
+      return;
+
+    case COMMITTEE_TAGGED_EVENT:
+      await processCommitteeTaggedWorker(row, assertObjectPayload(id, payload));
+      return;
+
+    default:
+      logger.warn(`[Outbox] Unknown event type: ${event_type}`);
+      throw new Error(`Unknown event type: ${event_type}`);
+  }
+}
+
 /**
  * Cron endpoint to process outbox events
  * Should be called periodically (e.g., every minute) to process pending notifications
- * 
+ *
+ * - Leases rows in batches (FOR UPDATE SKIP LOCKED + lease expiry), so overlapping runs never double-deliver
+ * - Rows in a batch are handled concurrently, bounded by the per-event-type concurrency limit
+ * - Rows that exhaust outboxConfig.maxAttempts are dead-lettered (see /superadmin/dashboard/outbox)
+ *
  * Security: Protected with CRON_SECRET (mandatory in production)
  */
 export async function GET(request: NextRequest) {
@@ -32,88 +130,61 @@ export async function GET(request: NextRequest) {
     const maxEventsPerRun = 50; // Process up to 50 events per cron run (increased for better coverage)
     let processed = 0;
     let errors = 0;
+    let deadLettered = 0;
 
     console.log(`[Outbox Cron] Starting outbox processing (max ${maxEventsPerRun} events)`);
 
-    while (processed < maxEventsPerRun) {
-      const outboxRow = await claimNextOutboxRow();
+    while (processed + errors < maxEventsPerRun) {
+      const batch = await claimOutboxBatch(Math.min(outboxConfig.batchSize, maxEventsPerRun - processed - errors));
 
-      if (!outboxRow) {
-        // No more events to process
-        console.log(`[Outbox Cron] No more events to process. Processed ${processed} events.`);
+      if (batch.length === 0) {
+        // No more events to process (or every pending type is at its concurrency limit)
+        console.log(`[Outbox Cron] No more events to claim. Processed ${processed} events.`);
         break;
       }
 
-      console.log(`[Outbox Cron] Processing event ${outboxRow.id} (type: ${outboxRow.event_type})`);
-
-      try {
-        const { event_type, payload, id } = outboxRow;
-
-        // Route to appropriate handler based on event type
-        switch (event_type) {
-          case "ticket.created":
-          case "ticket.created.v1":
-            // Safety check: ensure payload is a valid object before processing
-            let ticketPayload: TicketCreatedPayload;
-            try {
-              if (payload && typeof payload === 'object' && !Array.isArray(payload) && payload !== null) {
-                // Deep clone to avoid any reference issues
-                const parsed = JSON.parse(JSON.stringify(payload)) as Record<string, unknown>;
-                // Ensure ticket_id exists
-                if (typeof parsed.ticket_id === 'number') {
-                  ticketPayload = {
-                    ticket_id: parsed.ticket_id,
-                    created_by_clerk: typeof parsed.created_by_clerk === 'string' ? parsed.created_by_clerk : undefined,
-                    category: typeof parsed.category === 'string' ? parsed.category : undefined,
-                  };
-                } else {
-                  logger.warn(`[Outbox] Missing ticket_id in payload for event ${id}`);
-                  throw new Error('Invalid payload: missing ticket_id');
-                }
-              } else {
-                logger.warn(`[Outbox] Invalid payload type for event ${id}`, { payloadType: typeof payload });
-                throw new Error('Invalid payload type');
-              }
-            } catch (error) {
-              logger.error(`[Outbox] Error processing payload for event ${id}`, error);
-              // Skip this event if payload is invalid
-              await markOutboxFailure(id, error instanceof Error ? error.message : 'Invalid payload');
-              errors++;
-              continue;
-            }
-            await processTicketCreated(id, ticketPayload);
-            await markOutboxSuccess(id);
-            processed++;
-            console.log(`[Outbox Cron] ✅ Successfully processed ticket.created event ${id} for ticket #${ticketPayload.ticket_id}`);
-            break;
-
-          // Add other event types here as needed
-          // case "ticket.status.updated":
-          //   await processTicketStatusUpdated(id, payload);
-          //   await markOutboxSuccess(id);
-          //   break;
-
-          default:
-            logger.warn(`[Outbox] Unknown event type: ${event_type}`);
-            await markOutboxFailure(id, `Unknown event type: ${event_type}`);
-            errors++;
-            break;
+      console.log(`[Outbox Cron] Claimed ${batch.length} event(s): ${batch.map((row) => `${row.id}:${row.event_type}`).join(", ")}`);
+
+      const results = await Promise.allSettled(
+        batch.map(async (row) => {
+          await dispatchOutboxEvent(row);
+          await markOutboxSuccess(row.id);
+          console.log(`[Outbox Cron] ✅ Successfully processed ${row.event_type} event ${row.id}`);
+        })
+      );
+
+      for (const [i, result] of results.entries()) {
+        if (result.status === "fulfilled") {
+          processed++;
+          continue;
         }
-      } catch (error) {
-        logger.error(`[Outbox] Error processing event ${outboxRow.id}`, error);
-        const errorMessage = error instanceof Error ? error.message : "Unknown error";
-        await markOutboxFailure(outboxRow.id, errorMessage);
+
+        const row = batch[i];
+        if (!row) continue;
+
+        logger.error(`[Outbox] Error processing event ${row.id}`, result.reason);
+        const errorMessage = result.reason instanceof Error ? result.reason.message : "Unknown error";
         errors++;
+        try {
+          if (await markOutboxFailure(row.id, errorMessage)) {
+            deadLettered++;
+          }
+        } catch (markError) {
+          // Lease expiry will make the row claimable again
+          logger.error(`[Outbox] Failed to record failure for event ${row.id}`, markError);
+        }
       }
     }
 
     // Log warning if there are many unprocessed events (potential backlog)
-    const unprocessedCount = await db
-      .select({ count: sql<number>`count(*)` })
-      .from(outbox)
-      .where(sql`${outbox.processed_at} IS NULL`)
-      .then(([row]) => row?.count || 0);
-    
+    const [counts] = await db
+      .select({
+        unprocessed: sql<number>`count(*) FILTER (WHERE ${outbox.processed_at} IS NULL AND ${outbox.dead_lettered_at} IS NULL)::int`,
+        deadLetter: sql<number>`count(*) FILTER (WHERE ${outbox.dead_lettered_at} IS NOT NULL AND ${outbox.processed_at} IS NULL)::int`,
+      })
+      .from(outbox);
+    const unprocessedCount = counts?.unprocessed || 0;
+
     if (unprocessedCount > 50) {
       console.warn(`[Outbox] High backlog detected: ${unprocessedCount} unprocessed events`);
     }
@@ -122,12 +193,14 @@ export async function GET(request: NextRequest) {
       success: true,
       processed,
       errors,
+      deadLettered,
       unprocessed: unprocessedCount,
-      message: `Processed ${processed} events${errors > 0 ? `, ${errors} errors` : ""}`,
+      deadLetterTotal: counts?.deadLetter || 0,
+      message: `Processed ${processed} events${errors > 0 ? `, ${errors} errors` : ""}${deadLettered > 0 ? `, ${deadLettered} dead-lettered` : ""}`,
     };
-    
+
     console.log(`[Outbox Cron] Completed: ${JSON.stringify(response)}`);
-    
+
     return NextResponse.json(response);
   } catch (error) {
     logger.error("[Outbox Cron] Fatal error", error);
@@ -140,4 +213,3 @@ export async function GET(request: NextRequest) {
 
 // Also support POST for manual triggering
 export const POST = GET;
-
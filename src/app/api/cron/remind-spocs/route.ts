@@ -6,6 +6,8 @@ import { postThreadReplyToChannel } from "@/lib/integration/slack";
 import { sendEmail } from "@/lib/integration/email";
 import { verifyCronAuth } from "@/lib/cron-auth";
 import { getStatusIdByValue } from "@/lib/status/getTicketStatuses";
+import { getActiveAbsences } from "@/lib/assignment/availability";
+import { getTicketCoverageScope, resolveAdminCoverage, type AdminCoverage } from "@/lib/assignment/coverage";
 
 // Force Node.js runtime for Slack/email integrations
 export const runtime = 'nodejs';
@@ -14,6 +16,7 @@ export const runtime = 'nodejs';
  * GET /api/cron/remind-spocs
  * Cron job to send reminders to SPOCs for pending tickets
  * Should be called periodically (e.g., every 6 hours)
+ * Reminders for out-of-office SPOCs go to whoever covers for them (delegate or next admin in scope)
  * 
  * Security: Protected with CRON_SECRET (mandatory in production)
  */
@@ -56,6 +59,7 @@ export async function GET(request: NextRequest) {
         category_name: categories.name,
         subcategory_id: tickets.subcategory_id,
         creator_phone: users.phone,
+        spoc_name: spocUser.full_name,
         spoc_email: spocUser.email,
         spoc_slack_id: spocProfile.slack_user_id,
       })
@@ -72,6 +76,12 @@ export async function GET(request: NextRequest) {
         )
       );
 
+    const absences = await getActiveAbsences(
+      pendingTickets.map((ticket) => ticket.assigned_to).filter((id): id is string => !!id),
+      now
+    );
+    const coverageCache = new Map<string, AdminCoverage | null>();
+
     for (const ticket of pendingTickets) {
       try {
         // Check if ticket needs reminder
@@ -81,7 +91,8 @@ export async function GET(request: NextRequest) {
         // Case 1: Not acknowledged and created more than 2 hours ago
         // Check if ticket has acknowledgement_due_at set (indicates it was acknowledged)
         const hasAcknowledged = ticket.metadata && typeof ticket.metadata === 'object' && 
-          (ticket.metadata as Record<string, unknown>).acknowledgedAt;
+          ((ticket.metadata as Record<string, unknown>).acknowledged_at ||
+            (ticket.metadata as Record<string, unknown>).acknowledgedAt);
         
         if (!hasAcknowledged && ticket.created_at) {
           const hoursSinceCreation =
@@ -113,6 +124,23 @@ export async function GET(request: NextRequest) {
         // Get SPOC info
         if (!ticket.assigned_to) continue;
 
+        let spocSlackId = ticket.spoc_slack_id;
+        let spocEmail = ticket.spoc_email;
+        let coverNote = "";
+        if (absences.has(ticket.assigned_to)) {
+          const coverageScope = await getTicketCoverageScope(ticket.id);
+          const cacheKey = `${ticket.assigned_to}|${coverageScope.domain ?? ""}|${coverageScope.scope ?? ""}`;
+          if (!coverageCache.has(cacheKey)) {
+            coverageCache.set(cacheKey, await resolveAdminCoverage(ticket.assigned_to, coverageScope, now));
+          }
+          const cover = coverageCache.get(cacheKey)?.cover;
+          if (cover) {
+            spocSlackId = cover.slackUserId;
+            spocEmail = cover.email;
+            coverNote = `Covering for ${ticket.spoc_name || "the assigned SPOC"}, who is away.`;
+          }
+        }
+
         // Send Slack reminder
         if (ticket.category_name === "Hostel" || ticket.category_name === "College") {
           try {
@@ -126,7 +154,7 @@ export async function GET(request: NextRequest) {
                 slackConfig.ccMap[ticket.category_name] ||
                 slackConfig.defaultCc;
 
-              const reminderText = `⏰ *Reminder*\n${reminderReason}\nTicket #${ticket.id} requires attention.\n${ticket.spoc_slack_id ? `<@${ticket.spoc_slack_id}>` : ""
+              const reminderText = `⏰ *Reminder*\n${reminderReason}\nTicket #${ticket.id} requires attention.\n${coverNote ? `${coverNote}\n` : ""}${spocSlackId ? `<@${spocSlackId}>` : ""
                 }`;
 
               const channelOverride = typeof details.slackChannel === 'string' ? details.slackChannel : null;
@@ -165,12 +193,12 @@ export async function GET(request: NextRequest) {
         }
 
         // Send email reminder to SPOC (if email available)
-        if (ticket.spoc_email) {
+        if (spocEmail) {
           try {
             const emailSubject = `Reminder: Ticket #${ticket.id} Requires Attention`;
-            const emailBody = `Reminder: ${reminderReason}\n\nTicket #${ticket.id}\nCategory: ${ticket.category_name}\nUser Phone: ${ticket.creator_phone || "N/A"}\n\nPlease take action on this ticket.`;
+            const emailBody = `Reminder: ${reminderReason}\n\nTicket #${ticket.id}\nCategory: ${ticket.category_name}\nUser Phone: ${ticket.creator_phone || "N/A"}\n${coverNote ? `\n${coverNote}\n` : ""}\nPlease take action on this ticket.`;
             await sendEmail({
-              to: ticket.spoc_email,
+              to: spocEmail,
               subject: emailSubject,
               html: emailBody.replace(/\n/g, '<br>'),
             });
@@ -4,6 +4,8 @@ import { db, escalation_rules, users } from "@/db";
 import { eq, and, isNull } from "drizzle-orm";
 import { getUserRoleFromDB } from "@/lib/auth/db-roles";
 import { getOrCreateUser } from "@/lib/auth/user-sync";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { AUDIT_ENTITY } from "@/conf/constants";
 
 // GET - Get a specific escalation rule
 export async function GET(
@@ -240,6 +242,15 @@ export async function PATCH(
       .where(eq(escalation_rules.id, ruleId))
       .returning();
 
+    await recordAudit(request, {
+      actorClerkId: userId,
+      action: "escalation_rule.update",
+      entityType: AUDIT_ENTITY.ESCALATION_RULE,
+      entityId: ruleId,
+      before: existingRule,
+      after: updatedRule,
+    });
+
     return NextResponse.json({ rule: updatedRule });
 
   } catch (error) {
@@ -293,6 +304,14 @@ export async function DELETE(
       .delete(escalation_rules)
       .where(eq(escalation_rules.id, ruleId));
 
+    await recordAudit(request, {
+      actorClerkId: userId,
+      action: "escalation_rule.delete",
+      entityType: AUDIT_ENTITY.ESCALATION_RULE,
+      entityId: ruleId,
+      before: rule,
+    });
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Error deleting escalation rule:", error);
@@ -4,6 +4,8 @@ import { db, escalation_rules, users, domains, scopes } from "@/db";
 import { eq, and, isNull, inArray } from "drizzle-orm";
 import { getUserRoleFromDB } from "@/lib/auth/db-roles";
 import { getOrCreateUser } from "@/lib/auth/user-sync";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { AUDIT_ENTITY } from "@/conf/constants";
 
 // GET - Get all escalation rules
 export async function GET() {
@@ -195,6 +197,14 @@ export async function POST(request: NextRequest) {
       })
       .returning();
 
+    await recordAudit(request, {
+      actorClerkId: userId,
+      action: "escalation_rule.create",
+      entityType: AUDIT_ENTITY.ESCALATION_RULE,
+      entityId: newRule?.id,
+      after: newRule,
+    });
+
     return NextResponse.json({ rule: newRule }, { status: 201 });
   } catch (error) {
     console.error("Error creating escalation rule:", error);
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listHostelFloors } from "@/lib/hostel/hostelRooms";
+
+/**
+ * GET /api/master/hostels/[id]/rooms
+ * Active floors and rooms of a hostel for the location picker
+ */
+export async function GET(
+	_request: NextRequest,
+	{ params }: { params: Promise<{ id: string }> }
+) {
+	try {
+		const { id } = await params;
+		const hostelId = parseInt(id, 10);
+
+		if (isNaN(hostelId)) {
+			return NextResponse.json({ error: "Invalid hostel ID" }, { status: 400 });
+		}
+
+		const floors = await listHostelFloors(hostelId, { activeOnly: true });
+
+		return NextResponse.json({ floors });
+	} catch (error) {
+		console.error("Error fetching hostel rooms:", error);
+		return NextResponse.json(
+			{ error: "Failed to fetch hostel rooms" },
+			{ status: 500 }
+		);
+	}
+}
@@ -68,6 +68,7 @@ export async function GET() {
       full_name: dbUser.full_name || "",
       email: dbUser.email || "",
       mobile: dbUser.phone || "",
+      whatsapp_opt_in: dbUser.whatsapp_opt_in,
       room_number: profile.room_no || null,
 
       hostel: profile.hostel_name || null,
@@ -87,7 +88,7 @@ export async function GET() {
 }
 
 /* ------------------------------------------------------------
-    PATCH — Update mobile, hostel_id, room_number
+    PATCH — Update mobile, whatsapp_opt_in, hostel_id, room_number
 -------------------------------------------------------------*/
 export async function PATCH(request: NextRequest) {
   try {
@@ -95,7 +96,7 @@ export async function PATCH(request: NextRequest) {
     if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
 
     const body = await request.json();
-    const { mobile, hostel_id, room_number } = body;
+    const { mobile, whatsapp_opt_in, hostel_id, room_number } = body;
 
     /* ---------------------------
        Validate mobile (if sent)
@@ -110,6 +111,10 @@ export async function PATCH(request: NextRequest) {
       }
     }
 
+    if (whatsapp_opt_in !== undefined && typeof whatsapp_opt_in !== "boolean") {
+      return NextResponse.json({ error: "whatsapp_opt_in must be a boolean" }, { status: 400 });
+    }
+
     /* ---------------------------
        Validate profile updates (hostel_id, room_number)
     ----------------------------*/
@@ -134,13 +139,17 @@ export async function PATCH(request: NextRequest) {
     if (!dbUser) return NextResponse.json({ error: "User not found" }, { status: 404 });
 
     /* ---------------------------
-       Update MOBILE
+       Update MOBILE / WhatsApp opt-in
     ----------------------------*/
-    if (mobile !== undefined) {
-      const userUpdate: Partial<UserInsert> = {
-        phone: mobile.trim(),
-        updated_at: new Date(),
-      };
+    if (mobile !== undefined || whatsapp_opt_in !== undefined) {
+      const userUpdate: Partial<UserInsert> = { updated_at: new Date() };
+      if (mobile !== undefined) {
+        userUpdate.phone = mobile.trim();
+      }
+      if (whatsapp_opt_in !== undefined && whatsapp_opt_in !== dbUser.whatsapp_opt_in) {
+        userUpdate.whatsapp_opt_in = whatsapp_opt_in;
+        userUpdate.whatsapp_opt_in_changed_at = new Date();
+      }
       await db
         .update(users)
         .set(userUpdate)
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from "next/server";
+import { readVerifiedSlackBody } from "@/lib/integration/slack-signature";
+import { addSlackThreadReply } from "@/lib/ticket/actions/slackThreadReply";
+
+// Force Node.js runtime (crypto for signature verification, database transaction)
+export const runtime = 'nodejs';
+
+/**
+ * Slack Events API endpoint
+ * Syncs admin replies in a ticket's Slack thread back to the portal as comments
+ *
+ * Setup in the Slack app:
+ * 1. Event Subscriptions → Request URL: https://your-domain.com/api/slack/events
+ * 2. Subscribe to bot events: message.channels (and message.groups for private channels)
+ * 3. Copy the Signing Secret into SLACK_SIGNING_SECRET
+ *
+ * Visibility: prefix "!public" (or :speech_balloon:) for a student-visible comment,
+ * "!internal" (or :lock:) for an internal note; see parseSlackCommentVisibility.
+ *
+ * Echo loops: bot messages (including our own notifications) are ignored, and comments
+ * with source "slack" are never posted back to the thread by the comment worker.
+ */
+
+type SlackMessageEvent = {
+	type: string;
+	subtype?: string;
+	channel?: string;
+	user?: string;
+	bot_id?: string;
+	app_id?: string;
+	text?: string;
+	ts?: string;
+	thread_ts?: string;
+};
+
+type SlackEventEnvelope = {
+	type: string;
+	challenge?: string;
+	event_id?: string;
+	event?: SlackMessageEvent;
+	authorizations?: Array<{ user_id?: string; is_bot?: boolean }>;
+};
+
+// Message subtypes that carry a human-authored thread reply
+const SYNCABLE_SUBTYPES = new Set([undefined, "thread_broadcast", "file_share"]);
+
+export async function POST(request: NextRequest) {
+	const verified = await readVerifiedSlackBody(request, "Slack Events");
+	if (!verified.ok) {
+		return verified.response;
+	}
+	const { rawBody } = verified;
+
+	let envelope: SlackEventEnvelope;
+	try {
+		envelope = JSON.parse(rawBody) as SlackEventEnvelope;
+	} catch {
+		return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+	}
+
+	// One-time handshake when the Request URL is saved in the Slack app config
+	if (envelope.type === "url_verification") {
+		return NextResponse.json({ challenge: envelope.challenge });
+	}
+
+	if (envelope.type !== "event_callback" || !envelope.event) {
+		return NextResponse.json({ ok: true });
+	}
+
+	const event = envelope.event;
+	if (event.type !== "message") {
+		return NextResponse.json({ ok: true });
+	}
+
+	// Only replies inside a thread (not the root message, not edits/deletes/joins)
+	if (!event.thread_ts || !event.ts || event.thread_ts === event.ts || !event.channel) {
+		return NextResponse.json({ ok: true });
+	}
+	if (!SYNCABLE_SUBTYPES.has(event.subtype)) {
+		return NextResponse.json({ ok: true });
+	}
+
+	// Never sync bot posts - our own notifications land in these threads
+	const botUserIds = new Set((envelope.authorizations || []).filter((a) => a.is_bot).map((a) => a.user_id));
+	if (event.bot_id || event.app_id || !event.user || botUserIds.has(event.user)) {
+		return NextResponse.json({ ok: true });
+	}
+
+	try {
+		const result = await addSlackThreadReply({
+			channel: event.channel,
+			ts: event.ts,
+			threadTs: event.thread_ts,
+			slackUserId: event.user,
+			text: event.text || "",
+		});
+
+		switch (result.status) {
+			case "created":
+				console.log(`[Slack Events] Synced thread reply ${event.ts} as ${result.commentType} comment ${result.commentId} on ticket #${result.ticketId}`);
+				break;
+			case "duplicate":
+				console.log(`[Slack Events] Thread reply ${event.ts} already synced (comment ${result.commentId})`);
+				break;
+			case "unknown_user":
+				console.warn(`[Slack Events] Slack user ${event.user} is not linked to an admin profile; reply on ticket #${result.ticketId} not synced`);
+				break;
+			case "empty":
+			case "unknown_thread":
+				break;
+		}
+
+		return NextResponse.json({ ok: true });
+	} catch (error) {
+		console.error(`[Slack Events] Failed to sync thread reply ${event.ts} (event ${envelope.event_id}):`, error);
+		// Non-2xx makes Slack retry; delivery is deduped on channel:ts
+		return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+	}
+}
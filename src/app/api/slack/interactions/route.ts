@@ -1,183 +1,812 @@
 import { NextRequest, NextResponse } from "next/server";
-import { db, tickets, categories, users } from "@/db";
-import { eq } from "drizzle-orm";
-import { postThreadReply } from "@/lib/integration/slack";
+import { db, tickets, categories, users, roles, admin_profiles, committees, ticket_committee_tags, outbox } from "@/db";
+import { and, asc, eq } from "drizzle-orm";
+import type { ViewsOpenArguments } from "@slack/web-api";
+import { openSlackModal, postThreadReply } from "@/lib/integration/slack";
+import { readVerifiedSlackBody } from "@/lib/integration/slack-signature";
 import { sendEmail, getStatusUpdateEmail, getTATSetEmail, getCommentAddedEmail, getStudentEmail } from "@/lib/integration/email";
-import { calculateTATDate } from "@/utils";
-import type { TicketMetadata } from "@/db/inferred-types";
-import { TICKET_STATUS } from "@/conf/constants";
+import { getCommentAddedWhatsApp, notifyUserOnWhatsApp } from "@/lib/notification/whatsapp";
+import { calculateTicketTATDate } from "@/lib/sla/calendars";
+import { applySlaPauseTransition } from "@/lib/sla/pauses";
+import type { TicketInsert, TicketMetadata, TicketSelect } from "@/db/inferred-types";
+import { COMMENT_SOURCE, TICKET_ACTIVITY, TICKET_STATUS, type TicketStatusValue } from "@/conf/constants";
+import { addTicketComment } from "@/lib/ticket/data/ticketComments";
+import { recordTicketActivity } from "@/lib/ticket/data/ticketActivity";
+import { queueCommitteeTaggedNotification } from "@/lib/committee/committeeMembers";
 import { getStatusIdByValue } from "@/lib/status/getTicketStatuses";
+import { validateStatusTransition } from "@/lib/status/transitions";
+import { getCachedTicketStatuses } from "@/lib/cache/cached-queries";
 
 // Force Node.js runtime for Slack/email integrations
 export const runtime = 'nodejs';
 
-export async function POST(request: NextRequest) {
+/**
+ * Slack Interactivity endpoint (buttons on ticket messages and the modals they open)
+ *
+ * Setup in the Slack app:
+ * Interactivity & Shortcuts → Request URL: https://your-domain.com/api/slack/interactions
+ * Requests are verified with SLACK_SIGNING_SECRET (see readVerifiedSlackBody).
+ *
+ * Buttons carry "<action>_<ticketId>" values (see postToSlackChannel). Every action is
+ * recorded in ticket_activity; the Slack user is mapped to a portal account through
+ * admin_profiles.slack_user_id when linked.
+ */
+
+type SlackViewStateValue = {
+	value?: string | null;
+	selected_user?: string | null;
+	selected_option?: { value: string } | null;
+};
+
+type SlackInteraction = {
+	type: string;
+	user: { id: string; name?: string; username?: string };
+	trigger_id?: string;
+	response_url?: string;
+	actions?: Array<{ action_id: string; value?: string }>;
+	view?: {
+		callback_id?: string;
+		private_metadata?: string;
+		state: { values: Record<string, Record<string, SlackViewStateValue> | undefined> };
+	};
+};
+
+type SlackActor = { id: string; full_name: string | null; role: string };
+
+type TicketWithRelations = {
+	ticket: TicketSelect;
+	category: { name: string } | null;
+	creator: { id: string } | null;
+};
+
+/**
+ * Slack sends interactions as application/x-www-form-urlencoded with a JSON `payload` field
+ */
+function parseInteraction(rawBody: string): SlackInteraction | null {
 	try {
-		const body = await request.json();
-		const interaction = body;
+		const payload = new URLSearchParams(rawBody).get("payload");
+		return JSON.parse(payload ?? rawBody) as SlackInteraction;
+	} catch {
+		return null;
+	}
+}
 
-		// Handle different interaction types
-		switch (interaction.type) {
-			case "block_actions": {
-				const action = interaction.actions?.[0];
-				if (!action) {
-					return NextResponse.json({ text: "OK" });
-				}
+/**
+ * Ticket id from a button value such as "close_123" or "tag_committee_123"
+ */
+function ticketIdFromValue(value: string | undefined): number | null {
+	const match = value?.match(/(\d+)$/);
+	return match ? parseInt(match[1]!, 10) : null;
+}
 
-				switch (action.action_id) {
-					case "ticket_close": {
-						const ticketId = parseInt(action.value || "0");
-						if (isNaN(ticketId)) {
-							return NextResponse.json({ error: "Invalid ticket ID" }, { status: 400 });
-						}
+async function resolveSlackActor(slackUserId: string): Promise<SlackActor | null> {
+	const [actor] = await db
+		.select({ id: users.id, full_name: users.full_name, role: roles.name })
+		.from(admin_profiles)
+		.innerJoin(users, eq(users.id, admin_profiles.user_id))
+		.innerJoin(roles, eq(roles.id, users.role_id))
+		.where(eq(admin_profiles.slack_user_id, slackUserId))
+		.limit(1);
+	return actor ?? null;
+}
 
-						// Fetch ticket with joins
-						const [ticketData] = await db
-							.select({
-								ticket: tickets,
-								category: categories,
-								creator: users,
-							})
-							.from(tickets)
-							.leftJoin(categories, eq(tickets.category_id, categories.id))
-							.leftJoin(users, eq(tickets.created_by, users.id))
-							.where(eq(tickets.id, ticketId))
-							.limit(1);
-
-						if (!ticketData || !ticketData.ticket) {
-							return NextResponse.json({ error: "Ticket not found" }, { status: 404 });
-						}
+const UNLINKED_ACTOR_TEXT =
+	"⚠️ Your Slack account is not linked to an admin account. Ask a super admin to add your Slack user ID on the Staff page, or use the website.";
 
-						const { ticket, category, creator } = ticketData;
-						const details = ticket.metadata ? (ticket.metadata as TicketMetadata) : {};
-						const originalMessageId = details.originalEmailMessageId;
-						const originalSubject = details.originalEmailSubject;
+/**
+ * Linked admin for actions that change a ticket; unlinked workspace members get an ephemeral reply
+ */
+async function requireLinkedActor(interaction: SlackInteraction): Promise<SlackActor | null> {
+	const actor = await resolveSlackActor(interaction.user.id);
+	if (!actor) {
+		await respondEphemeral(interaction.response_url, UNLINKED_ACTOR_TEXT);
+	}
+	return actor;
+}
 
-						// Get the status_id for "resolved" status
-						const resolvedStatusId = await getStatusIdByValue(TICKET_STATUS.RESOLVED);
-						if (!resolvedStatusId) {
-							console.error(`[Slack Interactions] Failed to find status_id for "${TICKET_STATUS.RESOLVED}"`);
-							return NextResponse.json({ error: "Failed to resolve ticket" }, { status: 500 });
-						}
+async function loadTicket(ticketId: number): Promise<TicketWithRelations | null> {
+	const [ticketData] = await db
+		.select({
+			ticket: tickets,
+			category: { name: categories.name },
+			creator: { id: users.id },
+		})
+		.from(tickets)
+		.leftJoin(categories, eq(tickets.category_id, categories.id))
+		.leftJoin(users, eq(tickets.created_by, users.id))
+		.where(eq(tickets.id, ticketId))
+		.limit(1);
+	return ticketData ?? null;
+}
 
-						await db
-							.update(tickets)
-							.set({ status_id: resolvedStatusId, updated_at: new Date() })
-							.where(eq(tickets.id, ticketId));
+function actorName(interaction: SlackInteraction, actor: SlackActor | null): string {
+	return actor?.full_name || interaction.user.name || interaction.user.username || interaction.user.id;
+}
 
-						// Send notifications asynchronously
-						(async () => {
-							try {
-								const studentEmail = creator ? await getStudentEmail(creator.id) : null;
-								if (studentEmail) {
-									const emailTemplate = getStatusUpdateEmail(
-										ticket.id,
-										"RESOLVED",
-										category?.name || "General"
-									);
-									await sendEmail({
-										to: studentEmail,
-										subject: emailTemplate.subject,
-										html: emailTemplate.html,
-										ticketId: ticket.id,
-										threadMessageId: originalMessageId,
-										originalSubject: originalSubject,
-									});
-								}
-							} catch (emailError) {
-								console.error("Error sending close email:", emailError);
-							}
-						})();
+function slackActivityDetails(interaction: SlackInteraction, details: Record<string, unknown> = {}) {
+	return {
+		...details,
+		source: COMMENT_SOURCE.SLACK,
+		slack_user_id: interaction.user.id,
+		slack_user_name: interaction.user.name || interaction.user.username || null,
+	};
+}
 
-						return NextResponse.json({ text: "OK" });
-					}
-					default:
-						return NextResponse.json({ text: "OK" });
-				}
+async function respondEphemeral(responseUrl: string | undefined, text: string) {
+	if (!responseUrl) return;
+	await fetch(responseUrl, {
+		method: "POST",
+		headers: { "Content-Type": "application/json" },
+		body: JSON.stringify({ response_type: "ephemeral", replace_original: false, text }),
+	}).catch((err) => console.error("[Slack Interactions] Failed to send ephemeral response:", err));
+}
+
+/**
+ * Post an update in the ticket's Slack thread (Hostel / College tickets with a thread only)
+ */
+async function postTicketThreadUpdate(ticketId: number, categoryName: string, details: TicketMetadata, text: string) {
+	if (categoryName !== "Hostel" && categoryName !== "College") return;
+	const slackMessageTs = details.slackMessageTs;
+	if (typeof slackMessageTs !== "string" || !slackMessageTs) return;
+
+	try {
+		const { slackConfig } = await import("@/conf/config");
+		const ccUserIds = slackConfig.ccMap[categoryName] || slackConfig.defaultCc;
+		const channelOverride: string | undefined = typeof details.slackChannel === "string" ? details.slackChannel : undefined;
+		if (channelOverride) {
+			const { postThreadReplyToChannel } = await import("@/lib/integration/slack");
+			await postThreadReplyToChannel(channelOverride, slackMessageTs, text, ccUserIds);
+		} else {
+			await postThreadReply(categoryName, slackMessageTs, text, ccUserIds);
+		}
+	} catch (err) {
+		const errorMessage = err instanceof Error ? err.message : String(err);
+		const errorCode = err && typeof err === 'object' && 'code' in err ? String(err.code) : undefined;
+		const errorData = err && typeof err === 'object' && 'data' in err ? err.data : undefined;
+		console.error(`❌ Error posting update to Slack thread for ticket #${ticketId}:`, {
+			message: errorMessage,
+			code: errorCode,
+			data: errorData,
+		});
+	}
+}
+
+function modalResult(title: string, text: string) {
+	return NextResponse.json({
+		response_action: "update",
+		view: {
+			type: "modal",
+			title: { type: "plain_text", text: title },
+			blocks: [{ type: "section", text: { type: "mrkdwn", text } }],
+		},
+	});
+}
+
+/**
+ * Move a ticket to a new status as the linked Slack user, enforcing the status workflow
+ */
+async function changeStatusFromSlack(
+	interaction: SlackInteraction,
+	actor: SlackActor,
+	ticket: TicketSelect,
+	toStatus: TicketStatusValue
+): Promise<{ ok: true } | { ok: false; error: string }> {
+	const statusId = await getStatusIdByValue(toStatus);
+	if (!statusId) {
+		console.error(`[Slack Interactions] Failed to find status_id for "${toStatus}"`);
+		return { ok: false, error: "status is not configured" };
+	}
+
+	const ticketStatuses = await getCachedTicketStatuses();
+	const fromStatus = ticketStatuses.find((s) => s.id === ticket.status_id)?.value ?? null;
+	const details = ticket.metadata ? (ticket.metadata as TicketMetadata) : {};
+	const transitionCheck = await validateStatusTransition({
+		fromStatus,
+		toStatus,
+		role: actor.role,
+		// Slack status buttons carry no comment - transitions that need one must be made on the website
+		hasComment: false,
+		hasTAT: !!details.tatDate,
+	});
+	if (!transitionCheck.ok) {
+		return { ok: false, error: transitionCheck.error };
+	}
+
+	await db.transaction(async (tx) => {
+		const slaUpdate = await applySlaPauseTransition(tx, ticket.id, toStatus);
+		await tx
+			.update(tickets)
+			.set({ ...slaUpdate, status_id: statusId, updated_at: new Date() })
+			.where(eq(tickets.id, ticket.id));
+		await recordTicketActivity({
+			ticketId: ticket.id,
+			userId: actor.id,
+			action: TICKET_ACTIVITY.STATUS_CHANGED,
+			details: slackActivityDetails(interaction, { from: fromStatus, to: toStatus }),
+		}, tx);
+		await tx.insert(outbox).values({
+			event_type: "ticket.status.updated",
+			payload: {
+				ticket_id: ticket.id,
+				old_status: fromStatus,
+				new_status: toStatus,
+				slack_user_id: interaction.user.id,
+			},
+		});
+	});
+
+	return { ok: true };
+}
+
+function notifyStudentOfStatus(ticketData: TicketWithRelations, status: string) {
+	const { ticket, category, creator } = ticketData;
+	const details = ticket.metadata ? (ticket.metadata as TicketMetadata) : {};
+
+	// Send notifications asynchronously
+	(async () => {
+		try {
+			const studentEmail = creator ? await getStudentEmail(creator.id) : null;
+			if (studentEmail) {
+				const emailTemplate = getStatusUpdateEmail(
+					ticket.id,
+					status,
+					category?.name || "General"
+				);
+				await sendEmail({
+					to: studentEmail,
+					subject: emailTemplate.subject,
+					html: emailTemplate.html,
+					ticketId: ticket.id,
+					threadMessageId: details.originalEmailMessageId,
+					originalSubject: details.originalEmailSubject,
+				});
+			}
+		} catch (emailError) {
+			console.error("Error sending status email:", emailError);
+		}
+	})();
+}
+
+function tatModal(ticket: TicketSelect): ViewsOpenArguments["view"] {
+	const details = ticket.metadata ? (ticket.metadata as TicketMetadata) : {};
+	const isExtension = !!details.tat;
+	return {
+		type: "modal",
+		callback_id: "set_tat_modal",
+		private_metadata: JSON.stringify({ ticketId: ticket.id, markInProgress: !isExtension }),
+		title: { type: "plain_text", text: isExtension ? "Extend TAT" : "Set TAT" },
+		submit: { type: "plain_text", text: "Save" },
+		close: { type: "plain_text", text: "Cancel" },
+		blocks: [
+			...(isExtension
+				? [{
+					type: "context" as const,
+					elements: [{ type: "mrkdwn" as const, text: `Current TAT: *${details.tat}*` }],
+				}]
+				: []),
+			{
+				type: "input",
+				block_id: "tat_input",
+				label: { type: "plain_text", text: "Turnaround time" },
+				hint: { type: "plain_text", text: 'e.g. "2 days", "48 hours", "1 week"' },
+				element: { type: "plain_text_input", action_id: "tat_value" },
+			},
+		],
+	};
+}
+
+function commentModal(ticketId: number): ViewsOpenArguments["view"] {
+	return {
+		type: "modal",
+		callback_id: "add_comment_modal",
+		private_metadata: JSON.stringify({ ticketId }),
+		title: { type: "plain_text", text: "Add Comment" },
+		submit: { type: "plain_text", text: "Add" },
+		close: { type: "plain_text", text: "Cancel" },
+		blocks: [
+			{
+				type: "input",
+				block_id: "comment_input",
+				label: { type: "plain_text", text: `Comment on Ticket #${ticketId}` },
+				element: { type: "plain_text_input", action_id: "comment_value", multiline: true },
+			},
+		],
+	};
+}
+
+function reassignModal(ticketId: number): ViewsOpenArguments["view"] {
+	return {
+		type: "modal",
+		callback_id: "reassign_modal",
+		private_metadata: JSON.stringify({ ticketId }),
+		title: { type: "plain_text", text: "Reassign Ticket" },
+		submit: { type: "plain_text", text: "Reassign" },
+		close: { type: "plain_text", text: "Cancel" },
+		blocks: [
+			{
+				type: "input",
+				block_id: "assignee_input",
+				label: { type: "plain_text", text: `Assign Ticket #${ticketId} to` },
+				hint: { type: "plain_text", text: "Only admins whose profile has a linked Slack user can be picked." },
+				element: { type: "users_select", action_id: "assignee_value" },
+			},
+		],
+	};
+}
+
+async function tagCommitteeModal(ticketId: number): Promise<ViewsOpenArguments["view"] | null> {
+	const activeCommittees = await db
+		.select({ id: committees.id, name: committees.name })
+		.from(committees)
+		.where(eq(committees.is_active, true))
+		.orderBy(asc(committees.name))
+		.limit(100); // static_select option limit
+
+	if (activeCommittees.length === 0) return null;
+
+	return {
+		type: "modal",
+		callback_id: "tag_committee_modal",
+		private_metadata: JSON.stringify({ ticketId }),
+		title: { type: "plain_text", text: "Tag Committee" },
+		submit: { type: "plain_text", text: "Tag" },
+		close: { type: "plain_text", text: "Cancel" },
+		blocks: [
+			{
+				type: "input",
+				block_id: "committee_input",
+				label: { type: "plain_text", text: `Committee for Ticket #${ticketId}` },
+				element: {
+					type: "static_select",
+					action_id: "committee_value",
+					options: activeCommittees.map((committee) => ({
+						text: { type: "plain_text" as const, text: committee.name.slice(0, 75) },
+						value: String(committee.id),
+					})),
+				},
+			},
+			{
+				type: "input",
+				block_id: "reason_input",
+				optional: true,
+				label: { type: "plain_text", text: "Reason" },
+				element: { type: "plain_text_input", action_id: "reason_value", multiline: true },
+			},
+		],
+	};
+}
+
+async function handleBlockAction(interaction: SlackInteraction): Promise<NextResponse> {
+	const action = interaction.actions?.[0];
+	if (!action || action.action_id === "ticket_view_website") {
+		return NextResponse.json({ text: "OK" });
+	}
+
+	const ticketId = ticketIdFromValue(action.value);
+	if (ticketId === null) {
+		return NextResponse.json({ error: "Invalid ticket ID" }, { status: 400 });
+	}
+
+	const ticketData = await loadTicket(ticketId);
+	if (!ticketData) {
+		await respondEphemeral(interaction.response_url, `⚠️ Ticket #${ticketId} was not found.`);
+		return NextResponse.json({ error: "Ticket not found" }, { status: 404 });
+	}
+	const { ticket, category } = ticketData;
+	const categoryName = category?.name || "General";
+	const details: TicketMetadata = ticket.metadata ? (ticket.metadata as TicketMetadata) : {};
+
+	switch (action.action_id) {
+		case "ticket_acknowledge": {
+			if (details.acknowledged_at) {
+				await respondEphemeral(interaction.response_url, `Ticket #${ticketId} was already acknowledged.`);
+				return NextResponse.json({ text: "OK" });
 			}
+
+			const actor = await requireLinkedActor(interaction);
+			if (!actor) return NextResponse.json({ text: "OK" });
+			const acknowledgedAt = new Date();
+
+			await db.transaction(async (tx) => {
+				await tx
+					.update(tickets)
+					.set({
+						metadata: { ...details, acknowledged_at: acknowledgedAt.toISOString() },
+						updated_at: acknowledgedAt,
+					})
+					.where(eq(tickets.id, ticketId));
+				await recordTicketActivity({
+					ticketId,
+					userId: actor.id,
+					action: TICKET_ACTIVITY.ACKNOWLEDGED,
+					details: slackActivityDetails(interaction),
+				}, tx);
+			});
+
+			void postTicketThreadUpdate(ticketId, categoryName, details, `👀 *Acknowledged* by <@${interaction.user.id}>`);
+			return NextResponse.json({ text: "OK" });
+		}
+		case "ticket_in_progress":
+		case "ticket_awaiting_student":
+		case "ticket_close": {
+			const toStatus: TicketStatusValue =
+				action.action_id === "ticket_in_progress"
+					? TICKET_STATUS.IN_PROGRESS
+					: action.action_id === "ticket_awaiting_student"
+						? TICKET_STATUS.AWAITING_STUDENT
+						: TICKET_STATUS.RESOLVED;
+
+			const actor = await requireLinkedActor(interaction);
+			if (!actor) return NextResponse.json({ text: "OK" });
+			const result = await changeStatusFromSlack(interaction, actor, ticket, toStatus);
+			if (!result.ok) {
+				await respondEphemeral(interaction.response_url, `⚠️ Ticket #${ticketId} was not updated: ${result.error}`);
+				return NextResponse.json({ text: result.error });
+			}
+
+			const statusText =
+				toStatus === TICKET_STATUS.IN_PROGRESS
+					? "🔄 *Marked In Progress*"
+					: toStatus === TICKET_STATUS.AWAITING_STUDENT
+						? "⏳ *Awaiting Student* (SLA paused)"
+						: "✅ *Ticket Resolved*";
+			void postTicketThreadUpdate(ticketId, categoryName, details, `${statusText} by <@${interaction.user.id}>`);
+			notifyStudentOfStatus(ticketData, toStatus === TICKET_STATUS.RESOLVED ? "RESOLVED" : toStatus);
+			return NextResponse.json({ text: "OK" });
+		}
+		case "ticket_set_tat":
+		case "ticket_add_comment":
+		case "ticket_reassign":
+		case "ticket_tag_committee": {
+			if (!interaction.trigger_id) {
+				return NextResponse.json({ error: "Missing trigger_id" }, { status: 400 });
+			}
+
+			// Every modal action is recorded as the linked admin; don't open a form that can't be submitted
+			if (!(await requireLinkedActor(interaction))) {
+				return NextResponse.json({ text: "OK" });
+			}
+
+			const view =
+				action.action_id === "ticket_set_tat"
+					? tatModal(ticket)
+					: action.action_id === "ticket_add_comment"
+						? commentModal(ticketId)
+						: action.action_id === "ticket_reassign"
+							? reassignModal(ticketId)
+							: await tagCommitteeModal(ticketId);
+			if (!view) {
+				await respondEphemeral(interaction.response_url, "⚠️ There are no active committees to tag.");
+				return NextResponse.json({ text: "OK" });
+			}
+
+			const opened = await openSlackModal(interaction.trigger_id, view);
+			if (!opened) {
+				await respondEphemeral(interaction.response_url, "⚠️ Could not open the dialog. Please use the website instead.");
+			}
+			return NextResponse.json({ text: "OK" });
+		}
+		default:
+			return NextResponse.json({ text: "OK" });
+	}
+}
+
+async function handleReassignSubmission(interaction: SlackInteraction, ticketData: TicketWithRelations): Promise<NextResponse> {
+	const { ticket, category } = ticketData;
+	const actor = await resolveSlackActor(interaction.user.id);
+	if (!actor) {
+		return modalResult("Reassign Ticket", UNLINKED_ACTOR_TEXT);
+	}
+
+	const selectedSlackUser = interaction.view?.state.values.assignee_input?.assignee_value?.selected_user;
+	if (!selectedSlackUser) {
+		return NextResponse.json({
+			response_action: "errors",
+			errors: { assignee_input: "Pick a user" },
+		});
+	}
+
+	// The picked Slack user must be linked to a staff account
+	const assignee = await resolveSlackActor(selectedSlackUser);
+	if (!assignee || (assignee.role !== "admin" && assignee.role !== "snr_admin" && assignee.role !== "super_admin")) {
+		return NextResponse.json({
+			response_action: "errors",
+			errors: { assignee_input: "This Slack user is not linked to an admin account" },
+		});
+	}
+
+	if (ticket.assigned_to === assignee.id) {
+		return modalResult("Reassign Ticket", `Ticket #${ticket.id} is already assigned to *${assignee.full_name || "this admin"}*`);
+	}
+
+	let previousAssigneeName = "Unassigned";
+	if (ticket.assigned_to) {
+		const [previous] = await db
+			.select({ full_name: users.full_name, email: users.email })
+			.from(users)
+			.where(eq(users.id, ticket.assigned_to))
+			.limit(1);
+		previousAssigneeName = previous?.full_name?.trim() || previous?.email || "Unknown";
+	}
+	const assigneeName = assignee.full_name?.trim() || "Admin";
+
+	await db.transaction(async (tx) => {
+		const updateData: Partial<TicketInsert> = {
+			assigned_to: assignee.id,
+			updated_at: new Date(),
+		};
+		await tx
+			.update(tickets)
+			.set(updateData)
+			.where(eq(tickets.id, ticket.id));
+
+		// Same notification event as the website reassign flow
+		await tx.insert(outbox).values({
+			event_type: "ticket.reassigned",
+			payload: {
+				ticket_id: ticket.id,
+				previous_assigned_to: ticket.assigned_to,
+				new_assigned_to: assignee.id,
+				previous_assignee_name: previousAssigneeName,
+				new_assignee_name: assigneeName,
+				category_name: category?.name ?? null,
+				reassigned_by: actor.id,
+			},
+		});
+
+		await recordTicketActivity({
+			ticketId: ticket.id,
+			userId: actor.id,
+			action: TICKET_ACTIVITY.REASSIGNED,
+			details: slackActivityDetails(interaction, {
+				from: ticket.assigned_to,
+				to: assignee.id,
+				assignee_slack_user_id: selectedSlackUser,
+			}),
+		}, tx);
+	});
+
+	const details = ticket.metadata ? (ticket.metadata as TicketMetadata) : {};
+	void postTicketThreadUpdate(
+		ticket.id,
+		category?.name || "General",
+		details,
+		`👤 *Reassigned* to <@${selectedSlackUser}> by <@${interaction.user.id}>`
+	);
+
+	return modalResult("Ticket Reassigned", `✅ Ticket #${ticket.id} assigned to *${assigneeName}*`);
+}
+
+async function handleTagCommitteeSubmission(interaction: SlackInteraction, ticketData: TicketWithRelations): Promise<NextResponse> {
+	const { ticket, category } = ticketData;
+	const actor = await resolveSlackActor(interaction.user.id);
+	if (!actor) {
+		return modalResult("Tag Committee", UNLINKED_ACTOR_TEXT);
+	}
+
+	const values = interaction.view?.state.values;
+	const committeeId = parseInt(values?.committee_input?.committee_value?.selected_option?.value || "", 10);
+	const reason = values?.reason_input?.reason_value?.value?.trim() || null;
+
+	const [committee] = Number.isNaN(committeeId)
+		? []
+		: await db
+			.select({ id: committees.id, name: committees.name })
+			.from(committees)
+			.where(eq(committees.id, committeeId))
+			.limit(1);
+	if (!committee) {
+		return NextResponse.json({
+			response_action: "errors",
+			errors: { committee_input: "Committee not found" },
+		});
+	}
+
+	const [existingTag] = await db
+		.select({ id: ticket_committee_tags.id })
+		.from(ticket_committee_tags)
+		.where(and(eq(ticket_committee_tags.ticket_id, ticket.id), eq(ticket_committee_tags.committee_id, committee.id)))
+		.limit(1);
+	if (existingTag) {
+		return NextResponse.json({
+			response_action: "errors",
+			errors: { committee_input: "Ticket is already tagged to this committee" },
+		});
+	}
+
+	await db.transaction(async (tx) => {
+		await tx.insert(ticket_committee_tags).values({
+			ticket_id: ticket.id,
+			committee_id: committee.id,
+			tagged_by: actor.id,
+			reason,
+		});
+		await queueCommitteeTaggedNotification(
+			{ ticketId: ticket.id, committeeId: committee.id, taggedBy: actor.id, reason },
+			tx
+		);
+		await recordTicketActivity({
+			ticketId: ticket.id,
+			userId: actor.id,
+			action: TICKET_ACTIVITY.COMMITTEE_TAGGED,
+			details: slackActivityDetails(interaction, { committee_id: committee.id, committee_name: committee.name, reason }),
+		}, tx);
+	});
+
+	const details = ticket.metadata ? (ticket.metadata as TicketMetadata) : {};
+	void postTicketThreadUpdate(
+		ticket.id,
+		category?.name || "General",
+		details,
+		`🏷️ *Tagged to ${committee.name}* by <@${interaction.user.id}>${reason ? `\nReason: ${reason}` : ""}`
+	);
+
+	return modalResult("Committee Tagged", `✅ Ticket #${ticket.id} tagged to *${committee.name}*`);
+}
+
+export async function POST(request: NextRequest) {
+	const verified = await readVerifiedSlackBody(request, "Slack Interactions");
+	if (!verified.ok) {
+		return verified.response;
+	}
+
+	try {
+		const interaction = parseInteraction(verified.rawBody);
+		if (!interaction) {
+			return NextResponse.json({ error: "Invalid payload" }, { status: 400 });
+		}
+
+		// Handle different interaction types
+		switch (interaction.type) {
+			case "block_actions":
+				return await handleBlockAction(interaction);
 			case "view_submission": {
-				// Handle modal submissions (TAT and comment modals)
+				if (!interaction.view) {
+					return NextResponse.json({ text: "OK" });
+				}
+
+				// Handle modal submissions (TAT, comment, reassign and committee modals)
 				const metadata = JSON.parse(interaction.view.private_metadata || "{}");
-				const ticketId = metadata.ticketId;
+				const ticketId = Number(metadata.ticketId);
+				if (!Number.isInteger(ticketId)) {
+					return NextResponse.json({ error: "Invalid ticket ID" }, { status: 400 });
+				}
+
+				const ticketData = await loadTicket(ticketId);
+				if (!ticketData) {
+					return NextResponse.json({ error: "Ticket not found" }, { status: 404 });
+				}
+
+				if (interaction.view.callback_id === "reassign_modal") {
+					return await handleReassignSubmission(interaction, ticketData);
+				}
+
+				if (interaction.view.callback_id === "tag_committee_modal") {
+					return await handleTagCommitteeSubmission(interaction, ticketData);
+				}
 
 				if (interaction.view.callback_id === "set_tat_modal") {
 					const tatValue =
-						interaction.view.state.values.tat_input?.tat_value?.value || "";
-
-					// Fetch ticket with joins
-					const [ticketData] = await db
-						.select({
-							ticket: tickets,
-							category: categories,
-							creator: users,
-						})
-						.from(tickets)
-						.leftJoin(categories, eq(tickets.category_id, categories.id))
-						.leftJoin(users, eq(tickets.created_by, users.id))
-						.where(eq(tickets.id, ticketId))
-						.limit(1);
-
-					if (!ticketData || !ticketData.ticket) {
-						return NextResponse.json({ error: "Ticket not found" }, { status: 404 });
+						interaction.view.state.values.tat_input?.tat_value?.value?.trim() || "";
+					if (!tatValue) {
+						return NextResponse.json({
+							response_action: "errors",
+							errors: { tat_input: "TAT cannot be empty" },
+						});
 					}
 
 					const { ticket, category, creator } = ticketData;
 					const markInProgress = metadata.markInProgress || false;
 					const details: TicketMetadata = ticket.metadata ? (ticket.metadata as TicketMetadata) : {};
 					const isExtension = !!details.tat;
+					const previousTAT = details.tat;
+					const previousTATDate = details.tatDate;
 					const originalMessageId = details.originalEmailMessageId;
 					const originalSubject = details.originalEmailSubject;
 
-					// Parse TAT text and calculate date
-					const tatDate = calculateTATDate(tatValue);
+					// Parse TAT text and calculate date on the ticket's business calendar
+					const tatDate = await calculateTicketTATDate(ticket, tatValue);
+					const actor = await resolveSlackActor(interaction.user.id);
+					if (!actor) {
+						return modalResult("Set TAT", UNLINKED_ACTOR_TEXT);
+					}
+					const setBy = actorName(interaction, actor);
+
+					// Moving to in progress has to follow the status workflow like any other status change
+					let inProgressStatusId: number | null = null;
+					let inProgressSkipped: string | null = null;
+					if (markInProgress) {
+						const ticketStatuses = await getCachedTicketStatuses();
+						const fromStatus = ticketStatuses.find((s) => s.id === ticket.status_id)?.value ?? null;
+						const transitionCheck = await validateStatusTransition({
+							fromStatus,
+							toStatus: TICKET_STATUS.IN_PROGRESS,
+							role: actor.role,
+							hasTAT: true,
+						});
+						if (transitionCheck.ok) {
+							inProgressStatusId = await getStatusIdByValue(TICKET_STATUS.IN_PROGRESS);
+							if (!inProgressStatusId) {
+								console.error(`[Slack Interactions] Failed to find status_id for "${TICKET_STATUS.IN_PROGRESS}"`);
+							}
+						} else {
+							inProgressSkipped = transitionCheck.error;
+						}
+					}
 
 					details.tat = tatValue;
 					details.tatDate = tatDate.toISOString();
 					details.tatSetAt = new Date().toISOString();
-					details.tatSetBy = interaction.user.name || interaction.user.id;
-					// Note: TAT extension tracking is handled via tatExtensions array, not tatExtendedAt
+					details.tatSetBy = setBy;
+
+					// Track TAT extensions (same shape as the website TAT route)
+					if (isExtension) {
+						details.tatExtensions = details.tatExtensions || [];
+						details.tatExtensions.push({
+							previousTAT: previousTAT || "",
+							newTAT: tatValue,
+							previousTATDate: previousTATDate || "",
+							newTATDate: tatDate.toISOString(),
+							extendedAt: new Date().toISOString(),
+							extendedBy: setBy,
+						});
+					} else {
+						details.tatExtensions = [];
+					}
 
 					// Update ticket with TAT and optionally mark as IN_PROGRESS
-					const updateData: { metadata: TicketMetadata; status_id?: number } = { metadata: details };
-
-					if (markInProgress) {
-						// Get the status_id for "in_progress" status
-						const statusId = await getStatusIdByValue(TICKET_STATUS.IN_PROGRESS);
-						if (statusId) {
-							updateData.status_id = statusId;
-						} else {
-							console.error(`[Slack Interactions] Failed to find status_id for "${TICKET_STATUS.IN_PROGRESS}"`);
+					const updateData: { metadata: TicketMetadata; status_id?: number; resolution_due_at: Date } = {
+						metadata: details,
+						resolution_due_at: tatDate,
+					};
+
+					await db.transaction(async (tx) => {
+						if (inProgressStatusId) {
+							// The new TAT starts from now - just close any open SLA pause
+							await applySlaPauseTransition(tx, ticketId, TICKET_STATUS.IN_PROGRESS, { shiftDueDate: false });
+							updateData.status_id = inProgressStatusId;
 						}
-					}
 
-					await db
-						.update(tickets)
-						.set(updateData)
-						.where(eq(tickets.id, ticketId));
+						await tx
+							.update(tickets)
+							.set(updateData)
+							.where(eq(tickets.id, ticketId));
 
-					// Return response to Slack immediately (within 3 second timeout)
-					const response = NextResponse.json({
-						response_action: "update",
-						view: {
-							type: "modal",
-							title: {
-								type: "plain_text",
-								text: "TAT Set",
+						await tx.insert(outbox).values({
+							event_type: "ticket.tat.set",
+							payload: {
+								ticket_id: ticketId,
+								tat: tatValue,
+								tat_date: tatDate.toISOString(),
+								is_extension: isExtension,
+								slack_user_id: interaction.user.id,
 							},
-							blocks: [
-								{
-									type: "section",
-									text: {
-										type: "mrkdwn",
-										text: markInProgress
-											? `✅ TAT set to: *${tatValue}* and Ticket #${ticketId} marked as *In Progress*`
-											: `✅ TAT set to: *${tatValue}* for Ticket #${ticketId}`,
-									},
-								},
-							],
-						},
+						});
+
+						await recordTicketActivity({
+							ticketId,
+							userId: actor.id,
+							action: isExtension ? TICKET_ACTIVITY.TAT_EXTENDED : TICKET_ACTIVITY.TAT_SET,
+							details: slackActivityDetails(interaction, {
+								tat: tatValue,
+								tat_date: tatDate.toISOString(),
+								previous_tat: previousTAT ?? null,
+								previous_tat_date: previousTATDate ?? null,
+								marked_in_progress: !!updateData.status_id,
+							}),
+						}, tx);
 					});
 
+					// Return response to Slack immediately (within 3 second timeout)
+					const response = modalResult(
+						isExtension ? "TAT Extended" : "TAT Set",
+						updateData.status_id
+							? `✅ TAT set to: *${tatValue}* and Ticket #${ticketId} marked as *In Progress*`
+							: inProgressSkipped
+								? `✅ TAT set to: *${tatValue}* for Ticket #${ticketId}\n⚠️ Status not changed: ${inProgressSkipped}`
+								: `✅ TAT set to: *${tatValue}* for Ticket #${ticketId}`
+					);
+
 					// Send email and Slack updates asynchronously (don't await)
 					(async () => {
 						try {
@@ -189,7 +818,7 @@ export async function POST(request: NextRequest) {
 									tatDate.toISOString(),
 									category?.name || "General",
 									isExtension,
-									markInProgress
+									!!updateData.status_id
 								);
 								const emailResult = await sendEmail({
 									to: studentEmail,
@@ -209,44 +838,12 @@ export async function POST(request: NextRequest) {
 						}
 
 						// Post TAT update to Slack as threaded reply
-						const categoryName = category?.name || "General";
-						if (categoryName === "Hostel" || categoryName === "College") {
-							const slackMessageTs = details.slackMessageTs;
-							if (slackMessageTs) {
-								const tatMessage = isExtension
-									? `⏱️ *TAT Extended*\n\nTurnaround Time updated to: *${tatValue}*\nTarget Date: ${new Date(tatDate).toLocaleDateString()}\nExtended by <@${interaction.user.id || interaction.user.name}>`
-									: markInProgress
-										? `⏱️ *TAT Set & Ticket In Progress*\n\nTurnaround Time: *${tatValue}*\nTarget Date: ${new Date(tatDate).toLocaleDateString()}\nSet by <@${interaction.user.id || interaction.user.name}>`
-										: `⏱️ *TAT Updated*\n\nTurnaround Time: *${tatValue}*\nTarget Date: ${new Date(tatDate).toLocaleDateString()}\nUpdated by <@${interaction.user.id || interaction.user.name}>`;
-
-								try {
-									const { slackConfig } = await import("@/conf/config");
-									const key = categoryName;
-									const ccUserIds = (slackConfig.ccMap[key] || slackConfig.ccMap[categoryName] || slackConfig.defaultCc);
-									const channelOverride: string | undefined = typeof details.slackChannel === "string" ? details.slackChannel : undefined;
-									if (channelOverride) {
-										const { postThreadReplyToChannel } = await import("@/lib/integration/slack");
-										await postThreadReplyToChannel(channelOverride, slackMessageTs, tatMessage, ccUserIds);
-									} else {
-										await postThreadReply(
-											categoryName as "Hostel" | "College",
-											slackMessageTs,
-											tatMessage,
-											ccUserIds
-										);
-									}
-								} catch (err) {
-									const errorMessage = err instanceof Error ? err.message : String(err);
-									const errorCode = err && typeof err === 'object' && 'code' in err ? String(err.code) : undefined;
-									const errorData = err && typeof err === 'object' && 'data' in err ? err.data : undefined;
-									console.error(`❌ Error posting TAT update to Slack for ticket #${ticketId}:`, {
-										message: errorMessage,
-										code: errorCode,
-										data: errorData,
-									});
-								}
-							}
-						}
+						const tatMessage = isExtension
+							? `⏱️ *TAT Extended*\n\nTurnaround Time updated to: *${tatValue}*\nTarget Date: ${new Date(tatDate).toLocaleDateString()}\nExtended by <@${interaction.user.id || interaction.user.name}>`
+							: updateData.status_id
+								? `⏱️ *TAT Set & Ticket In Progress*\n\nTurnaround Time: *${tatValue}*\nTarget Date: ${new Date(tatDate).toLocaleDateString()}\nSet by <@${interaction.user.id || interaction.user.name}>`
+								: `⏱️ *TAT Updated*\n\nTurnaround Time: *${tatValue}*\nTarget Date: ${new Date(tatDate).toLocaleDateString()}\nUpdated by <@${interaction.user.id || interaction.user.name}>`;
+						await postTicketThreadUpdate(ticketId, category?.name || "General", details, tatMessage);
 					})();
 
 					return response;
@@ -255,98 +852,56 @@ export async function POST(request: NextRequest) {
 				if (interaction.view.callback_id === "add_comment_modal") {
 					const commentValue =
 						interaction.view.state.values.comment_input?.comment_value?.value || "";
-
-					// Fetch ticket with joins
-					const [ticketData] = await db
-						.select({
-							ticket: tickets,
-							category: categories,
-							creator: users,
-						})
-						.from(tickets)
-						.leftJoin(categories, eq(tickets.category_id, categories.id))
-						.leftJoin(users, eq(tickets.created_by, users.id))
-						.where(eq(tickets.id, ticketId))
-						.limit(1);
-
-					if (!ticketData || !ticketData.ticket) {
-						return NextResponse.json({ error: "Ticket not found" }, { status: 404 });
+					if (!commentValue.trim()) {
+						return NextResponse.json({
+							response_action: "errors",
+							errors: { comment_input: "Comment cannot be empty" },
+						});
 					}
 
 					const { ticket, category, creator } = ticketData;
 					const details: TicketMetadata = ticket.metadata ? (ticket.metadata as TicketMetadata) : {};
-					if (!details.comments) details.comments = [];
 					const originalMessageId = details.originalEmailMessageId;
 					const originalSubject = details.originalEmailSubject;
-					const authorName = interaction.user.name || interaction.user.id;
 
-					details.comments.push({
-						text: commentValue,
-						author: authorName,
-						createdAt: new Date().toISOString(),
-						source: "slack",
-					});
+					// Comments are posted as the linked admin account
+					const slackAuthor = await resolveSlackActor(interaction.user.id);
+					if (!slackAuthor) {
+						return modalResult("Add Comment", UNLINKED_ACTOR_TEXT);
+					}
+					const authorName = actorName(interaction, slackAuthor);
+
+					await db.transaction(async (tx) => {
+						const comment = await addTicketComment({
+							ticketId,
+							body: commentValue,
+							authorId: slackAuthor.id,
+							authorName,
+							authorRole: slackAuthor.role,
+							source: COMMENT_SOURCE.SLACK,
+						}, tx);
+
+						await tx
+							.update(tickets)
+							.set({ updated_at: new Date() })
+							.where(eq(tickets.id, ticketId));
 
-					await db
-						.update(tickets)
-						.set({ metadata: details })
-						.where(eq(tickets.id, ticketId));
+						await recordTicketActivity({
+							ticketId,
+							userId: slackAuthor.id,
+							action: TICKET_ACTIVITY.COMMENT_ADDED,
+							details: slackActivityDetails(interaction, { comment_id: comment.id }),
+						}, tx);
+					});
 
 					// Return response to Slack immediately (within 3 second timeout)
-					const response = NextResponse.json({
-						response_action: "update",
-						view: {
-							type: "modal",
-							title: {
-								type: "plain_text",
-								text: "Comment Added",
-							},
-							blocks: [
-								{
-									type: "section",
-									text: {
-										type: "mrkdwn",
-										text: `✅ Comment added to Ticket #${ticketId}`,
-									},
-								},
-							],
-						},
-					});
+					const response = modalResult("Comment Added", `✅ Comment added to Ticket #${ticketId}`);
 
 					// Post comment and send email asynchronously (don't await)
 					(async () => {
 						// Post comment as thread reply in Slack
 						const categoryName = category?.name || "General";
-						if (categoryName === "Hostel" || categoryName === "College") {
-							const slackMessageTs = details.slackMessageTs;
-							if (slackMessageTs) {
-								try {
-									const commentText = `💬 *Comment by ${authorName}:*\n${commentValue}`;
-									const { slackConfig } = await import("@/conf/config");
-									const key = categoryName;
-									const ccUserIds = (slackConfig.ccMap[key] || slackConfig.ccMap[categoryName] || slackConfig.defaultCc);
-									const channelOverride: string | undefined = typeof details.slackChannel === "string" ? details.slackChannel : undefined;
-									if (channelOverride) {
-										const { postThreadReplyToChannel } = await import("@/lib/integration/slack");
-										await postThreadReplyToChannel(channelOverride, slackMessageTs, commentText, ccUserIds);
-									} else {
-										await postThreadReply(
-											categoryName as "Hostel" | "College",
-											slackMessageTs,
-											commentText,
-											ccUserIds
-										);
-									}
-								} catch (slackError) {
-									const errorDetails = slackError instanceof Error 
-										? { message: slackError.message }
-										: { message: String(slackError) };
-									console.error(`❌ Error posting comment to Slack thread for ticket #${ticketId}:`, {
-										...errorDetails,
-									});
-								}
-							}
-						}
+						await postTicketThreadUpdate(ticketId, categoryName, details, `💬 *Comment by ${authorName}:*\n${commentValue}`);
 
 						// Send email notification to student for admin comments
 						try {
@@ -374,6 +929,20 @@ export async function POST(request: NextRequest) {
 						} catch (emailError) {
 							console.error("Error sending comment email:", emailError);
 						}
+
+						// WhatsApp (students who opted in)
+						try {
+							if (creator) {
+								await notifyUserOnWhatsApp({
+									userId: creator.id,
+									ticketId: ticket.id,
+									body: getCommentAddedWhatsApp(ticket.id, commentValue, authorName),
+									notificationType: "ticket.comment",
+								});
+							}
+						} catch (whatsappError) {
+							console.error("Error sending comment WhatsApp message:", whatsappError);
+						}
 					})();
 
 					return response;
@@ -0,0 +1,75 @@
+/**
+ * API Route for exporting the Audit Log as CSV
+ * Super Admin only
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getCachedAdminUser } from "@/lib/cache/cached-queries";
+import { parseAuditLogFilters, searchAuditLog } from "@/lib/audit/auditLog";
+
+// Keeps a single export bounded; narrow the filters for older history
+const MAX_EXPORT_ROWS = 10000;
+
+const CSV_COLUMNS = [
+  "id",
+  "created_at",
+  "actor_name",
+  "actor_email",
+  "actor_role",
+  "action",
+  "entity_type",
+  "entity_id",
+  "changes",
+  "before",
+  "after",
+  "ip_address",
+  "user_agent",
+] as const;
+
+function csvCell(value: unknown): string {
+  if (value == null) return "";
+  const text = value instanceof Date ? value.toISOString() : typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * GET - Download the entries matching the viewer's filters (same query params, no paging)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Use cached function for better performance (request-scoped deduplication)
+    const { role } = await getCachedAdminUser(userId);
+    if (role !== "super_admin") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { entries } = await searchAuditLog(parseAuditLogFilters(request.nextUrl.searchParams), {
+      limit: MAX_EXPORT_ROWS,
+    });
+
+    const csv = [
+      CSV_COLUMNS.join(","),
+      ...entries.map((entry) => CSV_COLUMNS.map((column) => csvCell(entry[column])).join(",")),
+    ].join("\n");
+
+    const date = new Date().toISOString().slice(0, 10);
+    return new NextResponse(csv, {
+      headers: {
+        "Content-Type": "text/csv",
+        "Content-Disposition": `attachment; filename="audit-log-${date}.csv"`,
+      },
+    });
+  } catch (error) {
+    console.error("[GET /api/superadmin/audit-log/export] Error:", error);
+    return NextResponse.json(
+      { error: "Internal Server Error" },
+      { status: 500 }
+    );
+  }
+}
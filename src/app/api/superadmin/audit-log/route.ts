@@ -0,0 +1,48 @@
+/**
+ * API Route for the Audit Log viewer
+ * Super Admin only
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getCachedAdminUser } from "@/lib/cache/cached-queries";
+import { parseAuditLogFilters, searchAuditLog } from "@/lib/audit/auditLog";
+
+/**
+ * GET - Search audit entries, newest first
+ * Query: q, action, entityType, entityId, actorId, from, to (ISO date/time), page, limit
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Use cached function for better performance (request-scoped deduplication)
+    const { role } = await getCachedAdminUser(userId);
+    if (role !== "super_admin") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const params = request.nextUrl.searchParams;
+    const page = Math.max(parseInt(params.get("page") || "1", 10) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(params.get("limit") || "50", 10) || 50, 1), 200);
+
+    const { entries, total } = await searchAuditLog(parseAuditLogFilters(params), {
+      limit,
+      offset: (page - 1) * limit,
+    });
+
+    return NextResponse.json({
+      entries,
+      pagination: { page, limit, total, totalPages: Math.max(Math.ceil(total / limit), 1) },
+    });
+  } catch (error) {
+    console.error("[GET /api/superadmin/audit-log] Error:", error);
+    return NextResponse.json(
+      { error: "Internal Server Error" },
+      { status: 500 }
+    );
+  }
+}
@@ -14,6 +14,8 @@ import { batches, students } from "@/db/schema";
 import type { BatchInsert } from "@/db/inferred-types";
 import { eq } from "drizzle-orm";
 import { getCachedAdminUser } from "@/lib/cache/cached-queries";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { AUDIT_ENTITY } from "@/conf/constants";
 
 // GET - Get single batch by ID
 export async function GET(
@@ -138,6 +140,15 @@ export async function PATCH(
 			.where(eq(batches.id, batchId))
 			.returning();
 
+		await recordAudit(request, {
+			actorClerkId: userId,
+			action: "batch.update",
+			entityType: AUDIT_ENTITY.BATCH,
+			entityId: batchId,
+			before: existing,
+			after: updatedBatch,
+		});
+
 		return NextResponse.json(
 			{ message: "Batch updated successfully", batch: updatedBatch },
 			{ status: 200 },
@@ -213,6 +224,15 @@ export async function DELETE(
 			.where(eq(batches.id, batchId))
 			.returning();
 
+		await recordAudit(request, {
+			actorClerkId: userId,
+			action: "batch.deactivate",
+			entityType: AUDIT_ENTITY.BATCH,
+			entityId: batchId,
+			before: existing,
+			after: deletedBatch,
+		});
+
 		return NextResponse.json(
 			{ message: "Batch deactivated successfully", batch: deletedBatch },
 			{ status: 200 },
@@ -12,6 +12,8 @@ import { db } from "@/db";
 import { batches } from "@/db/schema";
 import { eq } from "drizzle-orm";
 import { getCachedAdminUser } from "@/lib/cache/cached-queries";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { AUDIT_ENTITY } from "@/conf/constants";
 
 // GET - List all batches
 export async function GET(request: NextRequest) {
@@ -111,6 +113,14 @@ export async function POST(request: NextRequest) {
 			})
 			.returning();
 
+		await recordAudit(request, {
+			actorClerkId: userId,
+			action: "batch.create",
+			entityType: AUDIT_ENTITY.BATCH,
+			entityId: newBatch?.id,
+			after: newBatch,
+		});
+
 		return NextResponse.json(
 			{ message: "Batch created successfully", batch: newBatch },
 			{ status: 201 },
@@ -0,0 +1,73 @@
+/**
+ * DELETE /api/superadmin/business-calendars/[id]/holidays/[holidayId]
+ *
+ * Remove a holiday from a business calendar
+ * SuperAdmin-only endpoint
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { revalidateTag } from "next/cache";
+import { db } from "@/db";
+import { business_calendar_holidays } from "@/db/schema";
+import { and, eq } from "drizzle-orm";
+import { getCachedAdminUser } from "@/lib/cache/cached-queries";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { AUDIT_ENTITY } from "@/conf/constants";
+import { BUSINESS_CALENDARS_CACHE_TAG } from "@/lib/sla/calendars";
+
+export async function DELETE(
+	request: NextRequest,
+	{ params }: { params: Promise<{ id: string; holidayId: string }> }
+) {
+	try {
+		const { userId } = await auth();
+		if (!userId) {
+			return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+		}
+
+		// Use cached function for better performance (request-scoped deduplication)
+		const { role } = await getCachedAdminUser(userId);
+		if (role !== "super_admin") {
+			return NextResponse.json({ error: "Forbidden: Super admin only" }, { status: 403 });
+		}
+
+		const { id, holidayId } = await params;
+		const calendarId = parseInt(id);
+		const holidayIdNum = parseInt(holidayId);
+		if (isNaN(calendarId) || calendarId <= 0 || isNaN(holidayIdNum) || holidayIdNum <= 0) {
+			return NextResponse.json({ error: "Invalid calendar or holiday ID" }, { status: 400 });
+		}
+
+		const [deleted] = await db
+			.delete(business_calendar_holidays)
+			.where(and(
+				eq(business_calendar_holidays.id, holidayIdNum),
+				eq(business_calendar_holidays.calendar_id, calendarId),
+			))
+			.returning();
+
+		if (!deleted) {
+			return NextResponse.json({ error: "Holiday not found" }, { status: 404 });
+		}
+
+		revalidateTag(BUSINESS_CALENDARS_CACHE_TAG);
+
+		await recordAudit(request, {
+			actorClerkId: userId,
+			action: "business_calendar_holiday.delete",
+			entityType: AUDIT_ENTITY.BUSINESS_CALENDAR_HOLIDAY,
+			entityId: deleted.id,
+			before: deleted,
+		});
+
+		return NextResponse.json({ message: "Holiday removed", holiday: deleted }, { status: 200 });
+	} catch (error: unknown) {
+		console.error("Delete holiday error:", error);
+		const errorMessage = error instanceof Error ? error.message : "Failed to delete holiday";
+		return NextResponse.json(
+			{ error: errorMessage },
+			{ status: 500 },
+		);
+	}
+}
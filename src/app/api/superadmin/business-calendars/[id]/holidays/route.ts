@@ -0,0 +1,109 @@
+/**
+ * POST /api/superadmin/business-calendars/[id]/holidays
+ *
+ * Add holidays to a business calendar - the SLA clock does not run on these dates
+ * Body: { date: "YYYY-MM-DD", name?: string } or { holidays: [{ date, name? }, ...] }
+ * Dates already on the calendar are updated (name) rather than duplicated.
+ * SuperAdmin-only endpoint
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { revalidateTag } from "next/cache";
+import { db } from "@/db";
+import { business_calendars, business_calendar_holidays } from "@/db/schema";
+import { eq, sql } from "drizzle-orm";
+import { getCachedAdminUser } from "@/lib/cache/cached-queries";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { AUDIT_ENTITY } from "@/conf/constants";
+import { BUSINESS_CALENDARS_CACHE_TAG } from "@/lib/sla/calendars";
+
+function isValidDateKey(value: unknown): value is string {
+	if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+	const parsed = new Date(`${value}T00:00:00Z`);
+	return !isNaN(parsed.getTime()) && parsed.toISOString().startsWith(value);
+}
+
+export async function POST(
+	request: NextRequest,
+	{ params }: { params: Promise<{ id: string }> }
+) {
+	try {
+		const { userId } = await auth();
+		if (!userId) {
+			return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+		}
+
+		// Use cached function for better performance (request-scoped deduplication)
+		const { role } = await getCachedAdminUser(userId);
+		if (role !== "super_admin") {
+			return NextResponse.json({ error: "Forbidden: Super admin only" }, { status: 403 });
+		}
+
+		const { id } = await params;
+		const calendarId = parseInt(id);
+		if (isNaN(calendarId) || calendarId <= 0) {
+			return NextResponse.json({ error: "Invalid calendar ID" }, { status: 400 });
+		}
+
+		const [calendar] = await db
+			.select({ id: business_calendars.id })
+			.from(business_calendars)
+			.where(eq(business_calendars.id, calendarId))
+			.limit(1);
+
+		if (!calendar) {
+			return NextResponse.json({ error: "Business calendar not found" }, { status: 404 });
+		}
+
+		const body = await request.json();
+		const entries: Array<{ date?: unknown; name?: unknown }> = Array.isArray(body?.holidays) ? body.holidays : [body];
+
+		if (entries.length === 0) {
+			return NextResponse.json({ error: "No holidays provided" }, { status: 400 });
+		}
+
+		const values = [];
+		for (const entry of entries) {
+			if (!isValidDateKey(entry?.date)) {
+				return NextResponse.json({ error: `Invalid holiday date '${String(entry?.date)}' (expected YYYY-MM-DD)` }, { status: 400 });
+			}
+			values.push({
+				calendar_id: calendarId,
+				date: entry.date,
+				name: typeof entry.name === "string" && entry.name.trim() ? entry.name.trim() : null,
+			});
+		}
+
+		const holidays = await db
+			.insert(business_calendar_holidays)
+			.values(values)
+			.onConflictDoUpdate({
+				target: [business_calendar_holidays.calendar_id, business_calendar_holidays.date],
+				set: { name: sql`excluded.name` },
+			})
+			.returning();
+
+		revalidateTag(BUSINESS_CALENDARS_CACHE_TAG);
+
+		await recordAudit(request, {
+			actorClerkId: userId,
+			action: "business_calendar_holiday.save",
+			entityType: AUDIT_ENTITY.BUSINESS_CALENDAR_HOLIDAY,
+			entityId: calendar.id,
+			after: { holidays },
+		});
+
+		return NextResponse.json(
+			{ message: `${holidays.length} holiday(s) saved`, holidays },
+			{ status: 201 },
+		);
+	} catch (error: unknown) {
+		console.error("Add holidays error:", error);
+		const errorMessage = error instanceof Error ? error.message : "Failed to add holidays";
+		return NextResponse.json(
+			{ error: errorMessage },
+			{ status: 500 },
+		);
+	}
+}
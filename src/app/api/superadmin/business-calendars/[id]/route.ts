@@ -0,0 +1,222 @@
+/**
+ * PATCH /api/superadmin/business-calendars/[id]
+ * DELETE /api/superadmin/business-calendars/[id]
+ *
+ * Manage individual business calendar
+ * SuperAdmin-only endpoints
+ *
+ * Editing a calendar only affects due dates computed afterwards; existing
+ * acknowledgement / resolution due dates are not recalculated.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { revalidateTag } from "next/cache";
+import { db } from "@/db";
+import { business_calendars, scopes } from "@/db/schema";
+import type { BusinessCalendarInsert } from "@/db/inferred-types";
+import { eq } from "drizzle-orm";
+import { getCachedAdminUser } from "@/lib/cache/cached-queries";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { AUDIT_ENTITY } from "@/conf/constants";
+import { BUSINESS_CALENDARS_CACHE_TAG, findShadowingCalendar } from "@/lib/sla/calendars";
+import { isValidTimeZone, parseWeeklySchedule } from "@/lib/sla/businessHours";
+
+// PATCH - Update calendar
+export async function PATCH(
+	request: NextRequest,
+	{ params }: { params: Promise<{ id: string }> }
+) {
+	try {
+		const { userId } = await auth();
+		if (!userId) {
+			return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+		}
+
+		// Use cached function for better performance (request-scoped deduplication)
+		const { role } = await getCachedAdminUser(userId);
+		if (role !== "super_admin") {
+			return NextResponse.json({ error: "Forbidden: Super admin only" }, { status: 403 });
+		}
+
+		const { id } = await params;
+		const calendarId = parseInt(id);
+		if (isNaN(calendarId) || calendarId <= 0) {
+			return NextResponse.json({ error: "Invalid calendar ID" }, { status: 400 });
+		}
+
+		const [existing] = await db
+			.select()
+			.from(business_calendars)
+			.where(eq(business_calendars.id, calendarId))
+			.limit(1);
+
+		if (!existing) {
+			return NextResponse.json({ error: "Business calendar not found" }, { status: 404 });
+		}
+
+		const body = await request.json();
+		const { name, domain_id, scope_id, timezone, weekly_schedule, is_default, is_active } = body;
+
+		const updates: Partial<BusinessCalendarInsert> = { updated_at: new Date() };
+
+		if (name !== undefined) {
+			if (typeof name !== "string" || name.trim().length === 0) {
+				return NextResponse.json({ error: "Calendar name cannot be empty" }, { status: 400 });
+			}
+			updates.name = name.trim();
+		}
+
+		if (domain_id !== undefined) {
+			if (domain_id !== null && typeof domain_id !== "number") {
+				return NextResponse.json({ error: "Invalid domain_id" }, { status: 400 });
+			}
+			updates.domain_id = domain_id;
+		}
+
+		if (scope_id !== undefined) {
+			if (scope_id !== null && typeof scope_id !== "number") {
+				return NextResponse.json({ error: "Invalid scope_id" }, { status: 400 });
+			}
+			updates.scope_id = scope_id;
+			if (scope_id) {
+				// A scope calendar applies to its domain - keep the pair consistent
+				const [scope] = await db
+					.select({ domain_id: scopes.domain_id })
+					.from(scopes)
+					.where(eq(scopes.id, scope_id))
+					.limit(1);
+				if (!scope) {
+					return NextResponse.json({ error: "Scope not found" }, { status: 404 });
+				}
+				updates.domain_id = scope.domain_id;
+			}
+		}
+
+		if (timezone !== undefined) {
+			if (typeof timezone !== "string" || !isValidTimeZone(timezone.trim())) {
+				return NextResponse.json({ error: `Unknown timezone '${timezone}'` }, { status: 400 });
+			}
+			updates.timezone = timezone.trim();
+		}
+
+		if (weekly_schedule !== undefined) {
+			const schedule = parseWeeklySchedule(weekly_schedule);
+			if (!schedule) {
+				return NextResponse.json(
+					{ error: "weekly_schedule must map days 0-6 to non-overlapping { start, end } windows in HH:MM" },
+					{ status: 400 },
+				);
+			}
+			updates.weekly_schedule = schedule;
+		}
+
+		if (is_default !== undefined) {
+			updates.is_default = Boolean(is_default);
+		}
+
+		if (is_active !== undefined) {
+			updates.is_active = Boolean(is_active);
+		}
+
+		const updatedCalendar = await db.transaction(async (tx) => {
+			// Only one default calendar
+			if (updates.is_default) {
+				await tx
+					.update(business_calendars)
+					.set({ is_default: false, updated_at: new Date() })
+					.where(eq(business_calendars.is_default, true));
+			}
+
+			const [updated] = await tx
+				.update(business_calendars)
+				.set(updates)
+				.where(eq(business_calendars.id, calendarId))
+				.returning();
+
+			return updated;
+		});
+
+		const warning = updatedCalendar?.is_active
+			? await findShadowingCalendar(calendarId, updatedCalendar.domain_id, updatedCalendar.scope_id)
+			: null;
+		revalidateTag(BUSINESS_CALENDARS_CACHE_TAG);
+
+		await recordAudit(request, {
+			actorClerkId: userId,
+			action: "business_calendar.update",
+			entityType: AUDIT_ENTITY.BUSINESS_CALENDAR,
+			entityId: calendarId,
+			before: existing,
+			after: updatedCalendar,
+		});
+
+		return NextResponse.json(
+			{ message: "Business calendar updated successfully", calendar: updatedCalendar, ...(warning ? { warning } : {}) },
+			{ status: 200 },
+		);
+	} catch (error: unknown) {
+		console.error("Update business calendar error:", error);
+		const errorMessage = error instanceof Error ? error.message : "Failed to update business calendar";
+		return NextResponse.json(
+			{ error: errorMessage },
+			{ status: 500 },
+		);
+	}
+}
+
+// DELETE - Delete calendar (holidays cascade); tickets fall back to the next calendar in line
+export async function DELETE(
+	request: NextRequest,
+	{ params }: { params: Promise<{ id: string }> }
+) {
+	try {
+		const { userId } = await auth();
+		if (!userId) {
+			return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+		}
+
+		// Use cached function for better performance (request-scoped deduplication)
+		const { role } = await getCachedAdminUser(userId);
+		if (role !== "super_admin") {
+			return NextResponse.json({ error: "Forbidden: Super admin only" }, { status: 403 });
+		}
+
+		const { id } = await params;
+		const calendarId = parseInt(id);
+		if (isNaN(calendarId) || calendarId <= 0) {
+			return NextResponse.json({ error: "Invalid calendar ID" }, { status: 400 });
+		}
+
+		const [deletedCalendar] = await db
+			.delete(business_calendars)
+			.where(eq(business_calendars.id, calendarId))
+			.returning();
+
+		if (!deletedCalendar) {
+			return NextResponse.json({ error: "Business calendar not found" }, { status: 404 });
+		}
+
+		revalidateTag(BUSINESS_CALENDARS_CACHE_TAG);
+
+		await recordAudit(request, {
+			actorClerkId: userId,
+			action: "business_calendar.delete",
+			entityType: AUDIT_ENTITY.BUSINESS_CALENDAR,
+			entityId: calendarId,
+			before: deletedCalendar,
+		});
+
+		return NextResponse.json(
+			{ message: "Business calendar deleted successfully", calendar: deletedCalendar },
+			{ status: 200 },
+		);
+	} catch (error: unknown) {
+		console.error("Delete business calendar error:", error);
+		const errorMessage = error instanceof Error ? error.message : "Failed to delete business calendar";
+		return NextResponse.json(
+			{ error: errorMessage },
+			{ status: 500 },
+		);
+	}
+}
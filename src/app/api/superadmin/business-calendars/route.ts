@@ -0,0 +1,187 @@
+/**
+ * GET /api/superadmin/business-calendars
+ * POST /api/superadmin/business-calendars
+ *
+ * Manage SLA business calendars (working hours + holidays per domain / scope)
+ * SuperAdmin-only endpoints
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { revalidateTag } from "next/cache";
+import { db } from "@/db";
+import { business_calendars, business_calendar_holidays, domains, scopes } from "@/db/schema";
+import { eq, inArray } from "drizzle-orm";
+import { getCachedAdminUser } from "@/lib/cache/cached-queries";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { AUDIT_ENTITY } from "@/conf/constants";
+import { BUSINESS_CALENDARS_CACHE_TAG, findShadowingCalendar } from "@/lib/sla/calendars";
+import { isValidTimeZone, parseWeeklySchedule } from "@/lib/sla/businessHours";
+import { slaConfig } from "@/conf/config";
+
+// GET - List all calendars with their holidays
+export async function GET() {
+	try {
+		const { userId } = await auth();
+		if (!userId) {
+			return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+		}
+
+		// Use cached function for better performance (request-scoped deduplication)
+		const { role } = await getCachedAdminUser(userId);
+		if (role !== "super_admin") {
+			return NextResponse.json({ error: "Forbidden: Super admin only" }, { status: 403 });
+		}
+
+		const calendarList = await db
+			.select({
+				id: business_calendars.id,
+				name: business_calendars.name,
+				domain_id: business_calendars.domain_id,
+				domain_name: domains.name,
+				scope_id: business_calendars.scope_id,
+				scope_name: scopes.name,
+				timezone: business_calendars.timezone,
+				weekly_schedule: business_calendars.weekly_schedule,
+				is_default: business_calendars.is_default,
+				is_active: business_calendars.is_active,
+				created_at: business_calendars.created_at,
+				updated_at: business_calendars.updated_at,
+			})
+			.from(business_calendars)
+			.leftJoin(domains, eq(domains.id, business_calendars.domain_id))
+			.leftJoin(scopes, eq(scopes.id, business_calendars.scope_id))
+			.orderBy(business_calendars.name);
+
+		const holidays = calendarList.length > 0
+			? await db
+				.select()
+				.from(business_calendar_holidays)
+				.where(inArray(business_calendar_holidays.calendar_id, calendarList.map((c) => c.id)))
+				.orderBy(business_calendar_holidays.date)
+			: [];
+
+		return NextResponse.json(
+			{
+				calendars: calendarList.map((calendar) => ({
+					...calendar,
+					holidays: holidays.filter((h) => h.calendar_id === calendar.id),
+				})),
+			},
+			{ status: 200 },
+		);
+	} catch (error: unknown) {
+		console.error("Fetch business calendars error:", error);
+		const errorMessage = error instanceof Error ? error.message : "Failed to fetch business calendars";
+		return NextResponse.json(
+			{ error: errorMessage },
+			{ status: 500 },
+		);
+	}
+}
+
+// POST - Create new calendar
+export async function POST(request: NextRequest) {
+	try {
+		const { userId } = await auth();
+		if (!userId) {
+			return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+		}
+
+		// Use cached function for better performance (request-scoped deduplication)
+		const { role } = await getCachedAdminUser(userId);
+		if (role !== "super_admin") {
+			return NextResponse.json({ error: "Forbidden: Super admin only" }, { status: 403 });
+		}
+
+		const body = await request.json();
+		const { name, domain_id, scope_id, timezone, weekly_schedule, is_default } = body;
+		const calendarName = name && typeof name === "string" ? name.trim() : "";
+
+		if (!calendarName) {
+			return NextResponse.json({ error: "Calendar name is required" }, { status: 400 });
+		}
+
+		if (domain_id !== undefined && domain_id !== null && typeof domain_id !== "number") {
+			return NextResponse.json({ error: "Invalid domain_id" }, { status: 400 });
+		}
+		if (scope_id !== undefined && scope_id !== null && typeof scope_id !== "number") {
+			return NextResponse.json({ error: "Invalid scope_id" }, { status: 400 });
+		}
+
+		const calendarTimezone = timezone && typeof timezone === "string" ? timezone.trim() : slaConfig.defaultTimezone;
+		if (!isValidTimeZone(calendarTimezone)) {
+			return NextResponse.json({ error: `Unknown timezone '${calendarTimezone}'` }, { status: 400 });
+		}
+
+		const schedule = parseWeeklySchedule(weekly_schedule);
+		if (!schedule) {
+			return NextResponse.json(
+				{ error: "weekly_schedule must map days 0-6 to non-overlapping { start, end } windows in HH:MM" },
+				{ status: 400 },
+			);
+		}
+
+		// A scope calendar applies to its domain - keep the pair consistent
+		let calendarDomainId: number | null = domain_id ?? null;
+		if (scope_id) {
+			const [scope] = await db
+				.select({ domain_id: scopes.domain_id })
+				.from(scopes)
+				.where(eq(scopes.id, scope_id))
+				.limit(1);
+			if (!scope) {
+				return NextResponse.json({ error: "Scope not found" }, { status: 404 });
+			}
+			calendarDomainId = scope.domain_id;
+		}
+
+		const newCalendar = await db.transaction(async (tx) => {
+			// Only one default calendar
+			if (is_default === true) {
+				await tx
+					.update(business_calendars)
+					.set({ is_default: false, updated_at: new Date() })
+					.where(eq(business_calendars.is_default, true));
+			}
+
+			const [created] = await tx
+				.insert(business_calendars)
+				.values({
+					name: calendarName,
+					domain_id: calendarDomainId,
+					scope_id: scope_id ?? null,
+					timezone: calendarTimezone,
+					weekly_schedule: schedule,
+					is_default: is_default === true,
+					is_active: true,
+				})
+				.returning();
+
+			return created;
+		});
+
+		const warning = await findShadowingCalendar(newCalendar?.id ?? 0, calendarDomainId, scope_id ?? null);
+		revalidateTag(BUSINESS_CALENDARS_CACHE_TAG);
+
+		await recordAudit(request, {
+			actorClerkId: userId,
+			action: "business_calendar.create",
+			entityType: AUDIT_ENTITY.BUSINESS_CALENDAR,
+			entityId: newCalendar?.id,
+			after: newCalendar,
+		});
+
+		return NextResponse.json(
+			{ message: "Business calendar created successfully", calendar: newCalendar, ...(warning ? { warning } : {}) },
+			{ status: 201 },
+		);
+	} catch (error: unknown) {
+		console.error("Create business calendar error:", error);
+		const errorMessage = error instanceof Error ? error.message : "Failed to create business calendar";
+		return NextResponse.json(
+			{ error: errorMessage },
+			{ status: 500 },
+		);
+	}
+}
@@ -14,6 +14,8 @@ import { class_sections, students } from "@/db/schema";
 import type { ClassSectionInsert } from "@/db/inferred-types";
 import { eq } from "drizzle-orm";
 import { getCachedAdminUser } from "@/lib/cache/cached-queries";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { AUDIT_ENTITY } from "@/conf/constants";
 
 // GET - Get single class section by ID
 export async function GET(
@@ -136,6 +138,15 @@ export async function PATCH(
 			.where(eq(class_sections.id, sectionId))
 			.returning();
 
+		await recordAudit(request, {
+			actorClerkId: userId,
+			action: "class_section.update",
+			entityType: AUDIT_ENTITY.CLASS_SECTION,
+			entityId: sectionId,
+			before: existing,
+			after: updatedSection,
+		});
+
 		return NextResponse.json(
 			{ message: "Section updated successfully", class_section: updatedSection },
 			{ status: 200 },
@@ -211,6 +222,15 @@ export async function DELETE(
 			.where(eq(class_sections.id, sectionId))
 			.returning();
 
+		await recordAudit(request, {
+			actorClerkId: userId,
+			action: "class_section.deactivate",
+			entityType: AUDIT_ENTITY.CLASS_SECTION,
+			entityId: sectionId,
+			before: existing,
+			after: deletedSection,
+		});
+
 		return NextResponse.json(
 			{ message: "Section deactivated successfully", class_section: deletedSection },
 			{ status: 200 },
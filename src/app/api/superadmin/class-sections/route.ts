@@ -12,6 +12,8 @@ import { db } from "@/db";
 import { class_sections } from "@/db/schema";
 import { eq } from "drizzle-orm";
 import { getCachedAdminUser } from "@/lib/cache/cached-queries";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { AUDIT_ENTITY } from "@/conf/constants";
 
 // GET - List all class sections
 export async function GET(request: NextRequest) {
@@ -102,6 +104,14 @@ export async function POST(request: NextRequest) {
 			})
 			.returning();
 
+		await recordAudit(request, {
+			actorClerkId: userId,
+			action: "class_section.create",
+			entityType: AUDIT_ENTITY.CLASS_SECTION,
+			entityId: newSection?.id,
+			after: newSection,
+		});
+
 		return NextResponse.json(
 			{ message: "Section created successfully", class_section: newSection },
 			{ status: 201 },
@@ -13,6 +13,8 @@ import { db } from "@/db";
 import { domains, categories } from "@/db/schema";
 import { eq } from "drizzle-orm";
 import { getCachedAdminUser } from "@/lib/cache/cached-queries";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { AUDIT_ENTITY } from "@/conf/constants";
 
 // GET - Get single domain by ID
 export async function GET(
@@ -144,6 +146,15 @@ export async function PATCH(
 			.where(eq(domains.id, domainId))
 			.returning();
 
+		await recordAudit(request, {
+			actorClerkId: userId,
+			action: "domain.update",
+			entityType: AUDIT_ENTITY.DOMAIN,
+			entityId: domainId,
+			before: existing,
+			after: updatedDomain,
+		});
+
 		return NextResponse.json(
 			{ message: "Domain updated successfully", domain: updatedDomain },
 			{ status: 200 },
@@ -227,6 +238,15 @@ export async function DELETE(
 			.where(eq(domains.id, domainId))
 			.returning();
 
+		await recordAudit(request, {
+			actorClerkId: userId,
+			action: "domain.deactivate",
+			entityType: AUDIT_ENTITY.DOMAIN,
+			entityId: domainId,
+			before: existing,
+			after: deletedDomain,
+		});
+
 		return NextResponse.json(
 			{ message: "Domain deactivated successfully", domain: deletedDomain },
 			{ status: 200 },
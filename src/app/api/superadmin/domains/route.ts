@@ -12,6 +12,8 @@ import { db } from "@/db";
 import { domains } from "@/db/schema";
 import { eq } from "drizzle-orm";
 import { getCachedAdminUser } from "@/lib/cache/cached-queries";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { AUDIT_ENTITY } from "@/conf/constants";
 
 // GET - List all domains
 export async function GET(request: NextRequest) {
@@ -106,6 +108,14 @@ export async function POST(request: NextRequest) {
 			})
 			.returning();
 
+		await recordAudit(request, {
+			actorClerkId: userId,
+			action: "domain.create",
+			entityType: AUDIT_ENTITY.DOMAIN,
+			entityId: newDomain?.id,
+			after: newDomain,
+		});
+
 		return NextResponse.json(
 			{ message: "Domain created successfully", domain: newDomain },
 			{ status: 201 },
@@ -0,0 +1,122 @@
+/**
+ * PATCH /api/superadmin/hostels/[id]/rooms/[roomId]
+ * DELETE /api/superadmin/hostels/[id]/rooms/[roomId]
+ * 
+ * Manage a single hostel room
+ * SuperAdmin-only endpoints
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { db } from "@/db";
+import { hostel_rooms } from "@/db/schema";
+import { and, eq } from "drizzle-orm";
+import { getCachedAdminUser } from "@/lib/cache/cached-queries";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { AUDIT_ENTITY } from "@/conf/constants";
+
+type RouteParams = { params: Promise<{ id: string; roomId: string }> };
+
+async function findRoom(params: RouteParams["params"]) {
+	const { id, roomId } = await params;
+	const hostelId = parseInt(id);
+	const parsedRoomId = parseInt(roomId);
+	if (isNaN(hostelId) || isNaN(parsedRoomId)) return null;
+
+	const [room] = await db
+		.select()
+		.from(hostel_rooms)
+		.where(and(eq(hostel_rooms.id, parsedRoomId), eq(hostel_rooms.hostel_id, hostelId)))
+		.limit(1);
+	return room ?? null;
+}
+
+// PATCH - Activate or deactivate a room (inactive rooms are hidden from the picker)
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+	try {
+		const { userId } = await auth();
+		if (!userId) {
+			return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+		}
+
+		// Use cached function for better performance (request-scoped deduplication)
+		const { role } = await getCachedAdminUser(userId);
+		if (role !== "super_admin") {
+			return NextResponse.json({ error: "Forbidden: Super admin only" }, { status: 403 });
+		}
+
+		const existing = await findRoom(params);
+		if (!existing) {
+			return NextResponse.json({ error: "Room not found" }, { status: 404 });
+		}
+
+		const body = await request.json().catch(() => null);
+		if (typeof body?.is_active !== "boolean") {
+			return NextResponse.json({ error: "is_active must be true or false" }, { status: 400 });
+		}
+
+		const [updatedRoom] = await db
+			.update(hostel_rooms)
+			.set({ is_active: body.is_active })
+			.where(eq(hostel_rooms.id, existing.id))
+			.returning();
+
+		await recordAudit(request, {
+			actorClerkId: userId,
+			action: "hostel_room.update",
+			entityType: AUDIT_ENTITY.HOSTEL_ROOM,
+			entityId: existing.id,
+			before: existing,
+			after: updatedRoom,
+		});
+
+		return NextResponse.json({ message: "Room updated successfully", room: updatedRoom }, { status: 200 });
+	} catch (error: unknown) {
+		console.error("Update hostel room error:", error);
+		const errorMessage = error instanceof Error ? error.message : "Failed to update room";
+		return NextResponse.json(
+			{ error: errorMessage },
+			{ status: 500 },
+		);
+	}
+}
+
+// DELETE - Remove a room (tickets keep the room name they were filed with)
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+	try {
+		const { userId } = await auth();
+		if (!userId) {
+			return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+		}
+
+		// Use cached function for better performance (request-scoped deduplication)
+		const { role } = await getCachedAdminUser(userId);
+		if (role !== "super_admin") {
+			return NextResponse.json({ error: "Forbidden: Super admin only" }, { status: 403 });
+		}
+
+		const existing = await findRoom(params);
+		if (!existing) {
+			return NextResponse.json({ error: "Room not found" }, { status: 404 });
+		}
+
+		await db.delete(hostel_rooms).where(eq(hostel_rooms.id, existing.id));
+
+		await recordAudit(request, {
+			actorClerkId: userId,
+			action: "hostel_room.delete",
+			entityType: AUDIT_ENTITY.HOSTEL_ROOM,
+			entityId: existing.id,
+			before: existing,
+		});
+
+		return NextResponse.json({ message: "Room deleted successfully" }, { status: 200 });
+	} catch (error: unknown) {
+		console.error("Delete hostel room error:", error);
+		const errorMessage = error instanceof Error ? error.message : "Failed to delete room";
+		return NextResponse.json(
+			{ error: errorMessage },
+			{ status: 500 },
+		);
+	}
+}
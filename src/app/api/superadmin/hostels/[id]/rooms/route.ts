@@ -0,0 +1,113 @@
+/**
+ * GET /api/superadmin/hostels/[id]/rooms
+ * POST /api/superadmin/hostels/[id]/rooms
+ * 
+ * Manage the floors and rooms of a hostel (location field master data)
+ * SuperAdmin-only endpoints
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getCachedAdminUser } from "@/lib/cache/cached-queries";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { AUDIT_ENTITY } from "@/conf/constants";
+import { addHostelRooms, listHostelFloors } from "@/lib/hostel/hostelRooms";
+
+// GET - List floors and rooms (including inactive rooms)
+export async function GET(
+	_request: NextRequest,
+	{ params }: { params: Promise<{ id: string }> }
+) {
+	try {
+		const { userId } = await auth();
+		if (!userId) {
+			return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+		}
+
+		// Use cached function for better performance (request-scoped deduplication)
+		const { role } = await getCachedAdminUser(userId);
+		if (role !== "super_admin") {
+			return NextResponse.json({ error: "Forbidden: Super admin only" }, { status: 403 });
+		}
+
+		const { id } = await params;
+		const hostelId = parseInt(id);
+
+		if (isNaN(hostelId)) {
+			return NextResponse.json({ error: "Invalid hostel ID" }, { status: 400 });
+		}
+
+		const floors = await listHostelFloors(hostelId);
+
+		return NextResponse.json({ floors }, { status: 200 });
+	} catch (error: unknown) {
+		console.error("Fetch hostel rooms error:", error);
+		const errorMessage = error instanceof Error ? error.message : "Failed to fetch hostel rooms";
+		return NextResponse.json(
+			{ error: errorMessage },
+			{ status: 500 },
+		);
+	}
+}
+
+// POST - Add rooms to a floor
+// Body: { floor: string, rooms: string[] | string (comma-separated) }
+export async function POST(
+	request: NextRequest,
+	{ params }: { params: Promise<{ id: string }> }
+) {
+	try {
+		const { userId } = await auth();
+		if (!userId) {
+			return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+		}
+
+		// Use cached function for better performance (request-scoped deduplication)
+		const { role } = await getCachedAdminUser(userId);
+		if (role !== "super_admin") {
+			return NextResponse.json({ error: "Forbidden: Super admin only" }, { status: 403 });
+		}
+
+		const { id } = await params;
+		const hostelId = parseInt(id);
+
+		if (isNaN(hostelId)) {
+			return NextResponse.json({ error: "Invalid hostel ID" }, { status: 400 });
+		}
+
+		const body = await request.json().catch(() => null);
+		const floor = typeof body?.floor === "string" ? body.floor : "";
+		const rooms: string[] = Array.isArray(body?.rooms)
+			? body.rooms.map(String)
+			: typeof body?.rooms === "string"
+				? body.rooms.split(",")
+				: [];
+
+		const result = await addHostelRooms(hostelId, floor, rooms);
+		if (!result.ok) {
+			return NextResponse.json({ error: result.error }, { status: result.status });
+		}
+
+		for (const room of result.rooms) {
+			await recordAudit(request, {
+				actorClerkId: userId,
+				action: "hostel_room.create",
+				entityType: AUDIT_ENTITY.HOSTEL_ROOM,
+				entityId: room.id,
+				after: room,
+			});
+		}
+
+		return NextResponse.json(
+			{ message: `${result.rooms.length} room(s) added`, rooms: result.rooms, skipped: result.skipped },
+			{ status: 201 },
+		);
+	} catch (error: unknown) {
+		console.error("Create hostel rooms error:", error);
+		const errorMessage = error instanceof Error ? error.message : "Failed to add hostel rooms";
+		return NextResponse.json(
+			{ error: errorMessage },
+			{ status: 500 },
+		);
+	}
+}
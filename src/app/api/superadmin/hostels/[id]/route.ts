@@ -14,6 +14,8 @@ import { hostels, students } from "@/db/schema";
 import type { HostelInsert } from "@/db/inferred-types";
 import { eq } from "drizzle-orm";
 import { getCachedAdminUser } from "@/lib/cache/cached-queries";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { AUDIT_ENTITY } from "@/conf/constants";
 
 // GET - Get single hostel by ID
 export async function GET(
@@ -134,6 +136,15 @@ export async function PATCH(
 			.where(eq(hostels.id, hostelId))
 			.returning();
 
+		await recordAudit(request, {
+			actorClerkId: userId,
+			action: "hostel.update",
+			entityType: AUDIT_ENTITY.HOSTEL,
+			entityId: hostelId,
+			before: existing,
+			after: updatedHostel,
+		});
+
 		return NextResponse.json(
 			{ message: "Hostel updated successfully", hostel: updatedHostel },
 			{ status: 200 },
@@ -209,6 +220,15 @@ export async function DELETE(
 			.where(eq(hostels.id, hostelId))
 			.returning();
 
+		await recordAudit(request, {
+			actorClerkId: userId,
+			action: "hostel.deactivate",
+			entityType: AUDIT_ENTITY.HOSTEL,
+			entityId: hostelId,
+			before: existing,
+			after: deletedHostel,
+		});
+
 		return NextResponse.json(
 			{ message: "Hostel deactivated successfully", hostel: deletedHostel },
 			{ status: 200 },
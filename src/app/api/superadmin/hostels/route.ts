@@ -12,6 +12,8 @@ import { db } from "@/db";
 import { hostels } from "@/db/schema";
 import { eq } from "drizzle-orm";
 import { getCachedAdminUser } from "@/lib/cache/cached-queries";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { AUDIT_ENTITY } from "@/conf/constants";
 
 // GET - List all hostels
 export async function GET(request: NextRequest) {
@@ -102,6 +104,14 @@ export async function POST(request: NextRequest) {
 			})
 			.returning();
 
+		await recordAudit(request, {
+			actorClerkId: userId,
+			action: "hostel.create",
+			entityType: AUDIT_ENTITY.HOSTEL,
+			entityId: newHostel?.id,
+			after: newHostel,
+		});
+
 		return NextResponse.json(
 			{ message: "Hostel created successfully", hostel: newHostel },
 			{ status: 201 },
@@ -8,6 +8,8 @@ import { auth } from "@clerk/nextjs/server";
 import { db, notification_config } from "@/db";
 import { eq } from "drizzle-orm";
 import { getCachedAdminUser } from "@/lib/cache/cached-queries";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { AUDIT_ENTITY } from "@/conf/constants";
 
 /**
  * GET - Get single notification configuration
@@ -129,6 +131,12 @@ export async function PATCH(
     if (priority !== undefined) updateData.priority = priority;
     if (is_active !== undefined) updateData.is_active = is_active;
 
+    const [existing] = await db
+      .select()
+      .from(notification_config)
+      .where(eq(notification_config.id, configId))
+      .limit(1);
+
     const [updatedConfig] = await db
       .update(notification_config)
       .set(updateData)
@@ -139,6 +147,15 @@ export async function PATCH(
       return NextResponse.json({ error: "Config not found" }, { status: 404 });
     }
 
+    await recordAudit(request, {
+      actorClerkId: userId,
+      action: "notification_config.update",
+      entityType: AUDIT_ENTITY.NOTIFICATION_CONFIG,
+      entityId: configId,
+      before: existing,
+      after: updatedConfig,
+    });
+
     return NextResponse.json({ config: updatedConfig });
   } catch (error) {
     console.error("[PATCH /api/superadmin/notification-config/[id]] Error:", error);
@@ -175,6 +192,12 @@ export async function DELETE(
       return NextResponse.json({ error: "Invalid config ID" }, { status: 400 });
     }
 
+    const [existing] = await db
+      .select()
+      .from(notification_config)
+      .where(eq(notification_config.id, configId))
+      .limit(1);
+
     const [updatedConfig] = await db
       .update(notification_config)
       .set({
@@ -188,6 +211,15 @@ export async function DELETE(
       return NextResponse.json({ error: "Config not found" }, { status: 404 });
     }
 
+    await recordAudit(request, {
+      actorClerkId: userId,
+      action: "notification_config.deactivate",
+      entityType: AUDIT_ENTITY.NOTIFICATION_CONFIG,
+      entityId: configId,
+      before: existing,
+      after: updatedConfig,
+    });
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("[DELETE /api/superadmin/notification-config/[id]] Error:", error);
@@ -8,6 +8,8 @@ import { auth } from "@clerk/nextjs/server";
 import { db, notification_config, categories, subcategories, scopes } from "@/db";
 import { eq, desc } from "drizzle-orm";
 import { getCachedAdminUser } from "@/lib/cache/cached-queries";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { AUDIT_ENTITY } from "@/conf/constants";
 
 /**
  * GET - List all notification configurations
@@ -156,6 +158,14 @@ export async function POST(request: NextRequest) {
       })
       .returning();
 
+    await recordAudit(request, {
+      actorClerkId: userId,
+      action: "notification_config.create",
+      entityType: AUDIT_ENTITY.NOTIFICATION_CONFIG,
+      entityId: newConfig?.id,
+      after: newConfig,
+    });
+
     return NextResponse.json({ config: newConfig }, { status: 201 });
   } catch (error) {
     console.error("[POST /api/superadmin/notification-config] Error:", error);
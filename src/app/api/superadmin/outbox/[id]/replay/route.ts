@@ -0,0 +1,63 @@
+/**
+ * API Route for replaying a failed outbox event
+ * Super Admin only
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getCachedAdminUser } from "@/lib/cache/cached-queries";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { AUDIT_ENTITY } from "@/conf/constants";
+import { replayOutboxRow } from "@/workers/utils";
+
+/**
+ * POST - Re-queue an unprocessed (usually dead-lettered) event with a fresh attempt budget.
+ * The next process-outbox cron run picks it up.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Use cached function for better performance (request-scoped deduplication)
+    const { role } = await getCachedAdminUser(userId);
+    if (role !== "super_admin") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const outboxId = parseInt(id, 10);
+
+    if (isNaN(outboxId)) {
+      return NextResponse.json({ error: "Invalid event ID" }, { status: 400 });
+    }
+
+    const event = await replayOutboxRow(outboxId);
+    if (!event) {
+      return NextResponse.json({ error: "Event not found, already processed or not dead-lettered" }, { status: 404 });
+    }
+
+    console.log(`[Outbox] Event ${outboxId} (${event.event_type}) re-queued by super admin ${userId}`);
+
+    await recordAudit(request, {
+      actorClerkId: userId,
+      action: "outbox_event.replay",
+      entityType: AUDIT_ENTITY.OUTBOX_EVENT,
+      entityId: outboxId,
+      after: { event_type: event.event_type },
+    });
+
+    return NextResponse.json({ success: true, event });
+  } catch (error) {
+    console.error("[POST /api/superadmin/outbox/[id]/replay] Error:", error);
+    return NextResponse.json(
+      { error: "Internal Server Error" },
+      { status: 500 }
+    );
+  }
+}
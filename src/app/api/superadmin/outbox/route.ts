@@ -0,0 +1,72 @@
+/**
+ * API Routes for Outbox Dead Letters
+ * Super Admin only
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { db, outbox } from "@/db";
+import { and, desc, isNotNull, isNull, sql } from "drizzle-orm";
+import { getCachedAdminUser } from "@/lib/cache/cached-queries";
+
+/**
+ * GET - List failed outbox events
+ * Query: status=dead (default, exhausted attempts) | failing (still retrying with an error)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Use cached function for better performance (request-scoped deduplication)
+    const { role } = await getCachedAdminUser(userId);
+    if (role !== "super_admin") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const status = request.nextUrl.searchParams.get("status") === "failing" ? "failing" : "dead";
+    const limit = Math.min(Math.max(parseInt(request.nextUrl.searchParams.get("limit") || "100", 10) || 100, 1), 500);
+
+    const condition =
+      status === "dead"
+        ? and(isNull(outbox.processed_at), isNotNull(outbox.dead_lettered_at))
+        : and(isNull(outbox.processed_at), isNull(outbox.dead_lettered_at), isNotNull(outbox.last_error));
+
+    const events = await db
+      .select({
+        id: outbox.id,
+        event_type: outbox.event_type,
+        payload: outbox.payload,
+        attempts: outbox.attempts,
+        last_error: outbox.last_error,
+        next_retry_at: outbox.next_retry_at,
+        dead_lettered_at: outbox.dead_lettered_at,
+        created_at: outbox.created_at,
+      })
+      .from(outbox)
+      .where(condition)
+      .orderBy(desc(outbox.id))
+      .limit(limit);
+
+    const [counts] = await db
+      .select({
+        dead: sql<number>`count(*) FILTER (WHERE ${outbox.dead_lettered_at} IS NOT NULL)::int`,
+        failing: sql<number>`count(*) FILTER (WHERE ${outbox.dead_lettered_at} IS NULL AND ${outbox.last_error} IS NOT NULL)::int`,
+      })
+      .from(outbox)
+      .where(isNull(outbox.processed_at));
+
+    return NextResponse.json({
+      events,
+      counts: { dead: counts?.dead || 0, failing: counts?.failing || 0 },
+    });
+  } catch (error) {
+    console.error("[GET /api/superadmin/outbox] Error:", error);
+    return NextResponse.json(
+      { error: "Internal Server Error" },
+      { status: 500 }
+    );
+  }
+}
@@ -13,6 +13,9 @@ import { db } from "@/db";
 import { scopes, categories } from "@/db/schema";
 import { eq, and } from "drizzle-orm";
 import { getCachedAdminUser } from "@/lib/cache/cached-queries";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { isAssignmentStrategy } from "@/lib/assignment/strategies";
+import { ASSIGNMENT_STRATEGY, AUDIT_ENTITY, type AssignmentStrategyValue } from "@/conf/constants";
 
 // GET - Get single scope by ID
 export async function GET(
@@ -43,6 +46,7 @@ export async function GET(
 				name: scopes.name,
 				domain_id: scopes.domain_id,
 				student_field_key: scopes.student_field_key,
+				assignment_strategy: scopes.assignment_strategy,
 				is_active: scopes.is_active,
 				created_at: scopes.created_at,
 				updated_at: scopes.updated_at,
@@ -101,12 +105,13 @@ export async function PATCH(
 		}
 
 		const body = await request.json();
-		const { name, domain_id, student_field_key, is_active } = body;
+		const { name, domain_id, student_field_key, assignment_strategy, is_active } = body;
 
 		const updates: {
 			name?: string;
 			domain_id?: number;
 			student_field_key?: string | null;
+			assignment_strategy?: AssignmentStrategyValue | null;
 			is_active?: boolean;
 			updated_at?: Date;
 		} = { updated_at: new Date() };
@@ -157,6 +162,16 @@ export async function PATCH(
 			updates.student_field_key = student_field_key === null ? null : student_field_key.trim();
 		}
 
+		if (assignment_strategy !== undefined) {
+			if (assignment_strategy !== null && !isAssignmentStrategy(assignment_strategy)) {
+				return NextResponse.json(
+					{ error: `assignment_strategy must be one of: ${Object.values(ASSIGNMENT_STRATEGY).join(", ")}, or null` },
+					{ status: 400 },
+				);
+			}
+			updates.assignment_strategy = assignment_strategy;
+		}
+
 		if (is_active !== undefined) {
 			updates.is_active = Boolean(is_active);
 		}
@@ -167,6 +182,15 @@ export async function PATCH(
 			.where(eq(scopes.id, scopeId))
 			.returning();
 
+		await recordAudit(request, {
+			actorClerkId: userId,
+			action: "scope.update",
+			entityType: AUDIT_ENTITY.SCOPE,
+			entityId: scopeId,
+			before: existing,
+			after: updatedScope,
+		});
+
 		return NextResponse.json(
 			{ message: "Scope updated successfully", scope: updatedScope },
 			{ status: 200 },
@@ -239,6 +263,15 @@ export async function DELETE(
 			.where(eq(scopes.id, scopeId))
 			.returning();
 
+		await recordAudit(request, {
+			actorClerkId: userId,
+			action: "scope.deactivate",
+			entityType: AUDIT_ENTITY.SCOPE,
+			entityId: scopeId,
+			before: existing,
+			after: deletedScope,
+		});
+
 		return NextResponse.json(
 			{ message: "Scope deactivated successfully", scope: deletedScope },
 			{ status: 200 },
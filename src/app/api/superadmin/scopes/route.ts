@@ -12,6 +12,8 @@ import { db } from "@/db";
 import { scopes } from "@/db/schema";
 import { eq, and } from "drizzle-orm";
 import { getCachedAdminUser } from "@/lib/cache/cached-queries";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { AUDIT_ENTITY } from "@/conf/constants";
 
 // GET - List all scopes
 export async function GET(request: NextRequest) {
@@ -37,6 +39,7 @@ export async function GET(request: NextRequest) {
 				name: scopes.name,
 				domain_id: scopes.domain_id,
 				student_field_key: scopes.student_field_key,
+				assignment_strategy: scopes.assignment_strategy,
 				is_active: scopes.is_active,
 				created_at: scopes.created_at,
 				updated_at: scopes.updated_at,
@@ -141,6 +144,14 @@ export async function POST(request: NextRequest) {
 			})
 			.returning();
 
+		await recordAudit(request, {
+			actorClerkId: userId,
+			action: "scope.create",
+			entityType: AUDIT_ENTITY.SCOPE,
+			entityId: newScope?.id,
+			after: newScope,
+		});
+
 		return NextResponse.json(
 			{ message: "Scope created successfully", scope: newScope },
 			{ status: 201 },
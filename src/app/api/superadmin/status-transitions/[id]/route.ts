@@ -0,0 +1,167 @@
+/**
+ * PATCH /api/superadmin/status-transitions/[id]
+ * DELETE /api/superadmin/status-transitions/[id]
+ *
+ * Manage individual status transition
+ * SuperAdmin-only endpoints
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { revalidateTag } from "next/cache";
+import { db } from "@/db";
+import { status_transitions } from "@/db/schema";
+import type { StatusTransitionInsert } from "@/db/inferred-types";
+import { eq } from "drizzle-orm";
+import { getCachedAdminUser } from "@/lib/cache/cached-queries";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { AUDIT_ENTITY } from "@/conf/constants";
+import { STATUS_TRANSITIONS_CACHE_TAG, WORKFLOW_ROLES, parseAllowedRoles } from "@/lib/status/transitions";
+
+// PATCH - Update roles / requirements / active flag
+export async function PATCH(
+	request: NextRequest,
+	{ params }: { params: Promise<{ id: string }> }
+) {
+	try {
+		const { userId } = await auth();
+		if (!userId) {
+			return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+		}
+
+		// Use cached function for better performance (request-scoped deduplication)
+		const { role } = await getCachedAdminUser(userId);
+		if (role !== "super_admin") {
+			return NextResponse.json({ error: "Forbidden: Super admin only" }, { status: 403 });
+		}
+
+		const { id } = await params;
+		const transitionId = parseInt(id);
+		if (isNaN(transitionId) || transitionId <= 0) {
+			return NextResponse.json({ error: "Invalid transition ID" }, { status: 400 });
+		}
+
+		const body = await request.json();
+		const { allowed_roles, requires_comment, requires_tat, is_active } = body;
+
+		const updates: Partial<StatusTransitionInsert> = { updated_at: new Date() };
+
+		if (allowed_roles !== undefined) {
+			const roles = parseAllowedRoles(allowed_roles);
+			if (!roles) {
+				return NextResponse.json(
+					{ error: `allowed_roles must be a list of: ${WORKFLOW_ROLES.join(", ")}` },
+					{ status: 400 },
+				);
+			}
+			updates.allowed_roles = roles;
+		}
+
+		if (requires_comment !== undefined) {
+			updates.requires_comment = Boolean(requires_comment);
+		}
+
+		if (requires_tat !== undefined) {
+			updates.requires_tat = Boolean(requires_tat);
+		}
+
+		if (is_active !== undefined) {
+			updates.is_active = Boolean(is_active);
+		}
+
+		const [existing] = await db
+			.select()
+			.from(status_transitions)
+			.where(eq(status_transitions.id, transitionId))
+			.limit(1);
+
+		const [updatedTransition] = await db
+			.update(status_transitions)
+			.set(updates)
+			.where(eq(status_transitions.id, transitionId))
+			.returning();
+
+		if (!updatedTransition) {
+			return NextResponse.json({ error: "Status transition not found" }, { status: 404 });
+		}
+
+		revalidateTag(STATUS_TRANSITIONS_CACHE_TAG);
+
+		await recordAudit(request, {
+			actorClerkId: userId,
+			action: "status_transition.update",
+			entityType: AUDIT_ENTITY.STATUS_TRANSITION,
+			entityId: transitionId,
+			before: existing,
+			after: updatedTransition,
+		});
+
+		return NextResponse.json(
+			{ message: "Status transition updated successfully", transition: updatedTransition },
+			{ status: 200 },
+		);
+	} catch (error: unknown) {
+		console.error("Update status transition error:", error);
+		const errorMessage = error instanceof Error ? error.message : "Failed to update status transition";
+		return NextResponse.json(
+			{ error: errorMessage },
+			{ status: 500 },
+		);
+	}
+}
+
+// DELETE - Remove a transition (the move is no longer allowed)
+export async function DELETE(
+	request: NextRequest,
+	{ params }: { params: Promise<{ id: string }> }
+) {
+	try {
+		const { userId } = await auth();
+		if (!userId) {
+			return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+		}
+
+		// Use cached function for better performance (request-scoped deduplication)
+		const { role } = await getCachedAdminUser(userId);
+		if (role !== "super_admin") {
+			return NextResponse.json({ error: "Forbidden: Super admin only" }, { status: 403 });
+		}
+
+		const { id } = await params;
+		const transitionId = parseInt(id);
+		if (isNaN(transitionId) || transitionId <= 0) {
+			return NextResponse.json({ error: "Invalid transition ID" }, { status: 400 });
+		}
+
+		const [deletedTransition] = await db
+			.delete(status_transitions)
+			.where(eq(status_transitions.id, transitionId))
+			.returning();
+
+		if (!deletedTransition) {
+			return NextResponse.json({ error: "Status transition not found" }, { status: 404 });
+		}
+
+		revalidateTag(STATUS_TRANSITIONS_CACHE_TAG);
+
+		await recordAudit(request, {
+			actorClerkId: userId,
+			action: "status_transition.delete",
+			entityType: AUDIT_ENTITY.STATUS_TRANSITION,
+			entityId: transitionId,
+			before: deletedTransition,
+		});
+
+		return NextResponse.json(
+			{ message: "Status transition deleted successfully", transition: deletedTransition },
+			{ status: 200 },
+		);
+	} catch (error: unknown) {
+		console.error("Delete status transition error:", error);
+		const errorMessage = error instanceof Error ? error.message : "Failed to delete status transition";
+		return NextResponse.json(
+			{ error: errorMessage },
+			{ status: 500 },
+		);
+	}
+}
@@ -0,0 +1,156 @@
+/**
+ * GET /api/superadmin/status-transitions
+ * POST /api/superadmin/status-transitions
+ *
+ * Manage the status workflow (allowed from → to moves, roles and requirements)
+ * SuperAdmin-only endpoints
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { revalidateTag } from "next/cache";
+import { db } from "@/db";
+import { status_transitions, ticket_statuses } from "@/db/schema";
+import { and, eq, inArray } from "drizzle-orm";
+import { getCachedAdminUser } from "@/lib/cache/cached-queries";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { AUDIT_ENTITY } from "@/conf/constants";
+import { STATUS_TRANSITIONS_CACHE_TAG, WORKFLOW_ROLES, parseAllowedRoles } from "@/lib/status/transitions";
+
+// GET - List statuses and all transitions between them
+export async function GET() {
+	try {
+		const { userId } = await auth();
+		if (!userId) {
+			return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+		}
+
+		// Use cached function for better performance (request-scoped deduplication)
+		const { role } = await getCachedAdminUser(userId);
+		if (role !== "super_admin") {
+			return NextResponse.json({ error: "Forbidden: Super admin only" }, { status: 403 });
+		}
+
+		const [statuses, transitions] = await Promise.all([
+			db
+				.select({
+					id: ticket_statuses.id,
+					value: ticket_statuses.value,
+					label: ticket_statuses.label,
+					badge_color: ticket_statuses.badge_color,
+					is_active: ticket_statuses.is_active,
+					is_final: ticket_statuses.is_final,
+				})
+				.from(ticket_statuses)
+				.orderBy(ticket_statuses.display_order, ticket_statuses.id),
+			db
+				.select({
+					id: status_transitions.id,
+					from_status_id: status_transitions.from_status_id,
+					to_status_id: status_transitions.to_status_id,
+					allowed_roles: status_transitions.allowed_roles,
+					requires_comment: status_transitions.requires_comment,
+					requires_tat: status_transitions.requires_tat,
+					is_active: status_transitions.is_active,
+				})
+				.from(status_transitions),
+		]);
+
+		return NextResponse.json({ statuses, transitions, roles: WORKFLOW_ROLES }, { status: 200 });
+	} catch (error: unknown) {
+		console.error("Fetch status transitions error:", error);
+		const errorMessage = error instanceof Error ? error.message : "Failed to fetch status transitions";
+		return NextResponse.json(
+			{ error: errorMessage },
+			{ status: 500 },
+		);
+	}
+}
+
+// POST - Allow a new from → to move
+export async function POST(request: NextRequest) {
+	try {
+		const { userId } = await auth();
+		if (!userId) {
+			return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+		}
+
+		// Use cached function for better performance (request-scoped deduplication)
+		const { role } = await getCachedAdminUser(userId);
+		if (role !== "super_admin") {
+			return NextResponse.json({ error: "Forbidden: Super admin only" }, { status: 403 });
+		}
+
+		const body = await request.json();
+		const { from_status_id, to_status_id, allowed_roles, requires_comment, requires_tat } = body;
+
+		if (typeof from_status_id !== "number" || typeof to_status_id !== "number") {
+			return NextResponse.json({ error: "from_status_id and to_status_id are required" }, { status: 400 });
+		}
+		if (from_status_id === to_status_id) {
+			return NextResponse.json({ error: "A transition must change the status" }, { status: 400 });
+		}
+
+		const roles = parseAllowedRoles(allowed_roles ?? []);
+		if (!roles) {
+			return NextResponse.json(
+				{ error: `allowed_roles must be a list of: ${WORKFLOW_ROLES.join(", ")}` },
+				{ status: 400 },
+			);
+		}
+
+		const statuses = await db
+			.select({ id: ticket_statuses.id })
+			.from(ticket_statuses)
+			.where(inArray(ticket_statuses.id, [from_status_id, to_status_id]));
+		if (statuses.length !== 2) {
+			return NextResponse.json({ error: "Status not found" }, { status: 404 });
+		}
+
+		const [existing] = await db
+			.select({ id: status_transitions.id })
+			.from(status_transitions)
+			.where(and(
+				eq(status_transitions.from_status_id, from_status_id),
+				eq(status_transitions.to_status_id, to_status_id),
+			))
+			.limit(1);
+		if (existing) {
+			return NextResponse.json({ error: "This transition already exists" }, { status: 409 });
+		}
+
+		const [transition] = await db
+			.insert(status_transitions)
+			.values({
+				from_status_id,
+				to_status_id,
+				allowed_roles: roles,
+				requires_comment: requires_comment === true,
+				requires_tat: requires_tat === true,
+				is_active: true,
+			})
+			.returning();
+
+		revalidateTag(STATUS_TRANSITIONS_CACHE_TAG);
+
+		await recordAudit(request, {
+			actorClerkId: userId,
+			action: "status_transition.create",
+			entityType: AUDIT_ENTITY.STATUS_TRANSITION,
+			entityId: transition?.id,
+			after: transition,
+		});
+
+		return NextResponse.json(
+			{ message: "Status transition created successfully", transition },
+			{ status: 201 },
+		);
+	} catch (error: unknown) {
+		console.error("Create status transition error:", error);
+		const errorMessage = error instanceof Error ? error.message : "Failed to create status transition";
+		return NextResponse.json(
+			{ error: errorMessage },
+			{ status: 500 },
+		);
+	}
+}
@@ -16,6 +16,8 @@ import type { StudentInsert } from "@/db/inferred-types";
 import { eq } from "drizzle-orm";
 import { getCachedAdminUser } from "@/lib/cache/cached-queries";
 import { AdminUpdateStudentSchema } from "@/schemas/business/student";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { AUDIT_ENTITY } from "@/conf/constants";
 
 /**
  * GET /api/superadmin/students/[id]
@@ -124,6 +126,12 @@ export async function PATCH(
 			return NextResponse.json({ error: "Student not found" }, { status: 404 });
 		}
 
+		const [existingUser] = await db
+			.select({ full_name: users.full_name, phone: users.phone })
+			.from(users)
+			.where(eq(users.id, existingStudent.user_id))
+			.limit(1);
+
 		const updatedStudent = await db.transaction(async (tx) => {
 			// Use Partial<StudentInsert> for type-safe updates
 			const studentUpdate: Partial<StudentInsert> = {
@@ -159,6 +167,19 @@ export async function PATCH(
 			return updated;
 		});
 
+		await recordAudit(request, {
+			actorClerkId: userId,
+			action: "student.update",
+			entityType: AUDIT_ENTITY.STUDENT,
+			entityId: studentId,
+			before: { ...existingStudent, ...existingUser },
+			after: {
+				...updatedStudent,
+				full_name: updateData.full_name ? updateData.full_name.trim() || null : existingUser?.full_name ?? null,
+				phone: updateData.phone !== undefined ? updateData.phone : existingUser?.phone ?? null,
+			},
+		});
+
 		return NextResponse.json({
 			success: true,
 			message: "Student updated successfully",
@@ -237,6 +258,14 @@ export async function DELETE(
 				.where(eq(users.id, user.id));
 		}
 
+		await recordAudit(request, {
+			actorClerkId: userId,
+			action: "student.delete",
+			entityType: AUDIT_ENTITY.STUDENT,
+			entityId: studentId,
+			before: { ...student, full_name: user?.full_name ?? null, email: user?.email ?? null, user_deleted: !!neverLoggedIn },
+		});
+
 		return NextResponse.json({
 			success: true,
 			message: "Student deleted successfully",
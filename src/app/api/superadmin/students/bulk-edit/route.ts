@@ -6,6 +6,8 @@ import type { StudentInsert } from "@/db/inferred-types";
 import { inArray } from "drizzle-orm";
 import { getCachedAdminUser } from "@/lib/cache/cached-queries";
 import { BulkEditStudentsSchema } from "@/schemas/business/student";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { AUDIT_ENTITY } from "@/conf/constants";
 
 /**
  * PATCH /api/superadmin/students/bulk-edit
@@ -53,7 +55,7 @@ export async function PATCH(request: NextRequest) {
 
         // Verify all students exist
         const existingStudents = await db
-            .select({ id: students.id })
+            .select()
             .from(students)
             .where(inArray(students.id, student_ids));
 
@@ -83,6 +85,18 @@ export async function PATCH(request: NextRequest) {
             .where(inArray(students.id, student_ids))
             .returning();
 
+        // One entry per bulk edit, with the edited columns of every affected student
+        const editedKeys = Object.keys(updateData).filter((key) => key !== "updated_at");
+        const pickEdited = (row: Record<string, unknown>) =>
+            Object.fromEntries([["id", row.id], ...editedKeys.map((key) => [key, row[key]])]);
+        await recordAudit(request, {
+            actorClerkId: userId,
+            action: "student.bulk_edit",
+            entityType: AUDIT_ENTITY.STUDENT,
+            before: { students: existingStudents.map(pickEdited) },
+            after: { students: updatedStudents.map(pickEdited) },
+        });
+
         return NextResponse.json({
             success: true,
             message: `Successfully updated ${updatedStudents.length} students`,
@@ -12,6 +12,8 @@ import { db } from "@/db";
 import { users, students, hostels, batches, class_sections, roles } from "@/db/schema";
 import { eq } from "drizzle-orm";
 import { getCachedAdminUser } from "@/lib/cache/cached-queries";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { AUDIT_ENTITY } from "@/conf/constants";
 
 /**
  * Data cleaning utilities
@@ -489,6 +491,13 @@ export async function POST(request: NextRequest) {
 			summary: `Created: ${created}, Updated: ${updated}, Skipped: ${skipped}`,
 		};
 
+		await recordAudit(request, {
+			actorClerkId: userId,
+			action: "student.bulk_upload",
+			entityType: AUDIT_ENTITY.STUDENT,
+			after: { file: file.name, rows: rows.length, created, updated, skipped },
+		});
+
 		return NextResponse.json(result, { status: 200 });
 	} catch (error: unknown) {
 		console.error("Bulk upload error:", error);
@@ -12,6 +12,8 @@ import { users, students, hostels, batches, class_sections, roles } from "@/db/s
 import type { UserInsert, StudentInsert } from "@/db/inferred-types";
 import { eq } from "drizzle-orm";
 import { getCachedAdminUser } from "@/lib/cache/cached-queries";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { AUDIT_ENTITY } from "@/conf/constants";
 
 function cleanFullName(name: string): string {
 	if (!name) return name;
@@ -247,7 +249,16 @@ export async function POST(request: NextRequest) {
 				wasStudentCreated = true;
 			}
 
-			return { user: targetUser, student: studentRecord, wasStudentCreated };
+			return { user: targetUser, student: studentRecord, wasStudentCreated, previousStudent: existingStudent ?? null };
+		});
+
+		await recordAudit(request, {
+			actorClerkId: userId,
+			action: result.wasStudentCreated ? "student.create" : "student.update",
+			entityType: AUDIT_ENTITY.STUDENT,
+			entityId: result.student?.id,
+			before: result.previousStudent ?? undefined,
+			after: { ...result.student, email: cleanedEmail, full_name: cleanedName, phone: cleanedMobile },
 		});
 
 		return NextResponse.json(
@@ -12,6 +12,8 @@ import { db } from "@/db";
 import { students } from "@/db/schema";
 import { inArray } from "drizzle-orm";
 import { getCachedAdminUser } from "@/lib/cache/cached-queries";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { AUDIT_ENTITY } from "@/conf/constants";
 
 interface DeactivateRequest {
 	student_ids: number[]; // Array of student IDs to deactivate
@@ -80,6 +82,13 @@ export async function PATCH(request: NextRequest) {
 				.where(inArray(students.id, idsToDeactivate));
 
 			deactivated = idsToDeactivate.length;
+
+			await recordAudit(request, {
+				actorClerkId: userId,
+				action: "student.deactivate",
+				entityType: AUDIT_ENTITY.STUDENT,
+				after: { student_ids: idsToDeactivate },
+			});
 		}
 
 		// Build error list
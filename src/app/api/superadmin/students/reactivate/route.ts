@@ -12,6 +12,8 @@ import { db } from "@/db";
 import { students } from "@/db/schema";
 import { inArray } from "drizzle-orm";
 import { getCachedAdminUser } from "@/lib/cache/cached-queries";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { AUDIT_ENTITY } from "@/conf/constants";
 
 interface ReactivateRequest {
 	student_ids: number[]; // Array of student IDs to reactivate
@@ -77,6 +79,13 @@ export async function PATCH(request: NextRequest) {
 				.where(inArray(students.id, idsToReactivate));
 
 			reactivated = idsToReactivate.length;
+
+			await recordAudit(request, {
+				actorClerkId: userId,
+				action: "student.reactivate",
+				entityType: AUDIT_ENTITY.STUDENT,
+				after: { student_ids: idsToReactivate },
+			});
 		}
 
 		// Build error list
@@ -0,0 +1,69 @@
+/**
+ * POST /api/superadmin/webhooks/[id]/deliveries/[deliveryId]/redeliver
+ *
+ * Queue another attempt for a failed (or already delivered) webhook delivery.
+ * The same payload is sent, with a fresh signature, on the next process-outbox run.
+ * SuperAdmin-only endpoint
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { db } from "@/db";
+import { webhook_deliveries } from "@/db/schema";
+import { and, eq } from "drizzle-orm";
+import { getCachedAdminUser } from "@/lib/cache/cached-queries";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { AUDIT_ENTITY } from "@/conf/constants";
+import { requeueWebhookDelivery } from "@/lib/notification/webhooks";
+
+export async function POST(
+	request: NextRequest,
+	{ params }: { params: Promise<{ id: string; deliveryId: string }> }
+) {
+	try {
+		const { userId } = await auth();
+		if (!userId) {
+			return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+		}
+
+		// Use cached function for better performance (request-scoped deduplication)
+		const { role } = await getCachedAdminUser(userId);
+		if (role !== "super_admin") {
+			return NextResponse.json({ error: "Forbidden: Super admin only" }, { status: 403 });
+		}
+
+		const { id, deliveryId } = await params;
+		const webhookId = parseInt(id);
+		const deliveryIdNum = parseInt(deliveryId);
+		if (isNaN(webhookId) || isNaN(deliveryIdNum)) {
+			return NextResponse.json({ error: "Invalid ID" }, { status: 400 });
+		}
+
+		const [delivery] = await db
+			.select({ id: webhook_deliveries.id })
+			.from(webhook_deliveries)
+			.where(and(eq(webhook_deliveries.id, deliveryIdNum), eq(webhook_deliveries.channel_id, webhookId)))
+			.limit(1);
+
+		if (!delivery) {
+			return NextResponse.json({ error: "Delivery not found" }, { status: 404 });
+		}
+
+		if (!(await requeueWebhookDelivery(delivery.id))) {
+			return NextResponse.json({ error: "Delivery is already queued" }, { status: 409 });
+		}
+
+		await recordAudit(request, {
+			actorClerkId: userId,
+			action: "webhook_delivery.redeliver",
+			entityType: AUDIT_ENTITY.WEBHOOK_DELIVERY,
+			entityId: delivery.id,
+			after: { webhook_id: webhookId },
+		});
+
+		return NextResponse.json({ success: true, message: "Delivery queued" });
+	} catch (error) {
+		console.error("Redeliver webhook error:", error);
+		return NextResponse.json({ error: "Failed to queue redelivery" }, { status: 500 });
+	}
+}
@@ -0,0 +1,74 @@
+/**
+ * GET /api/superadmin/webhooks/[id]/deliveries
+ *
+ * Delivery log of one webhook endpoint, newest first
+ * Query: status=pending|delivered|failed (optional), limit (default 50, max 200)
+ * SuperAdmin-only endpoint
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { db } from "@/db";
+import { webhook_deliveries } from "@/db/schema";
+import { and, desc, eq } from "drizzle-orm";
+import { getCachedAdminUser } from "@/lib/cache/cached-queries";
+import { WEBHOOK_DELIVERY_STATUS } from "@/lib/notification/webhooks";
+
+export async function GET(
+	request: NextRequest,
+	{ params }: { params: Promise<{ id: string }> }
+) {
+	try {
+		const { userId } = await auth();
+		if (!userId) {
+			return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+		}
+
+		// Use cached function for better performance (request-scoped deduplication)
+		const { role } = await getCachedAdminUser(userId);
+		if (role !== "super_admin") {
+			return NextResponse.json({ error: "Forbidden: Super admin only" }, { status: 403 });
+		}
+
+		const { id } = await params;
+		const webhookId = parseInt(id);
+		if (isNaN(webhookId) || webhookId <= 0) {
+			return NextResponse.json({ error: "Invalid webhook ID" }, { status: 400 });
+		}
+
+		const status = request.nextUrl.searchParams.get("status");
+		const statuses = Object.values(WEBHOOK_DELIVERY_STATUS) as string[];
+		if (status && !statuses.includes(status)) {
+			return NextResponse.json({ error: `status must be one of: ${statuses.join(", ")}` }, { status: 400 });
+		}
+		const limit = Math.min(Math.max(parseInt(request.nextUrl.searchParams.get("limit") || "50", 10) || 50, 1), 200);
+
+		const deliveries = await db
+			.select({
+				id: webhook_deliveries.id,
+				event_type: webhook_deliveries.event_type,
+				ticket_id: webhook_deliveries.ticket_id,
+				status: webhook_deliveries.status,
+				attempts: webhook_deliveries.attempts,
+				last_status_code: webhook_deliveries.last_status_code,
+				last_error: webhook_deliveries.last_error,
+				last_attempt_at: webhook_deliveries.last_attempt_at,
+				delivered_at: webhook_deliveries.delivered_at,
+				created_at: webhook_deliveries.created_at,
+			})
+			.from(webhook_deliveries)
+			.where(
+				and(
+					eq(webhook_deliveries.channel_id, webhookId),
+					status ? eq(webhook_deliveries.status, status) : undefined,
+				),
+			)
+			.orderBy(desc(webhook_deliveries.id))
+			.limit(limit);
+
+		return NextResponse.json({ deliveries });
+	} catch (error) {
+		console.error("Fetch webhook deliveries error:", error);
+		return NextResponse.json({ error: "Failed to fetch webhook deliveries" }, { status: 500 });
+	}
+}
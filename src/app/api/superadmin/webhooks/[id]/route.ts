@@ -0,0 +1,163 @@
+/**
+ * PATCH /api/superadmin/webhooks/[id]
+ * DELETE /api/superadmin/webhooks/[id]
+ *
+ * Manage an individual webhook endpoint
+ * SuperAdmin-only endpoints
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { db } from "@/db";
+import { notification_channels } from "@/db/schema";
+import type { NotificationChannelInsert } from "@/db/inferred-types";
+import { and, eq } from "drizzle-orm";
+import { getCachedAdminUser } from "@/lib/cache/cached-queries";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { AUDIT_ENTITY } from "@/conf/constants";
+import {
+	WEBHOOK_CHANNEL_TYPE,
+	generateWebhookSecret,
+	parseWebhookInput,
+	serializeWebhook,
+	validateWebhookUrl,
+} from "@/lib/notification/webhooks";
+
+// PATCH - Update URL / owner / events / active flag, or rotate the secret (rotate_secret: true)
+export async function PATCH(
+	request: NextRequest,
+	{ params }: { params: Promise<{ id: string }> }
+) {
+	try {
+		const { userId } = await auth();
+		if (!userId) {
+			return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+		}
+
+		// Use cached function for better performance (request-scoped deduplication)
+		const { role } = await getCachedAdminUser(userId);
+		if (role !== "super_admin") {
+			return NextResponse.json({ error: "Forbidden: Super admin only" }, { status: 403 });
+		}
+
+		const { id } = await params;
+		const webhookId = parseInt(id);
+		if (isNaN(webhookId) || webhookId <= 0) {
+			return NextResponse.json({ error: "Invalid webhook ID" }, { status: 400 });
+		}
+
+		const body = await request.json();
+		const parsed = parseWebhookInput(body);
+		if ("error" in parsed) {
+			return NextResponse.json({ error: parsed.error }, { status: 400 });
+		}
+
+		const updates: Partial<NotificationChannelInsert> = { ...parsed.updates, updated_at: new Date() };
+
+		if (body.url !== undefined) {
+			const urlError = validateWebhookUrl(body.url);
+			if (urlError) {
+				return NextResponse.json({ error: urlError }, { status: 400 });
+			}
+			updates.webhook_url = String(body.url).trim();
+		}
+
+		if (body.is_active !== undefined) {
+			updates.is_active = Boolean(body.is_active);
+		}
+
+		const secret = body.rotate_secret === true ? generateWebhookSecret() : undefined;
+		if (secret) {
+			updates.webhook_secret = secret;
+		}
+
+		const [existing] = await db
+			.select()
+			.from(notification_channels)
+			.where(and(eq(notification_channels.id, webhookId), eq(notification_channels.channel_type, WEBHOOK_CHANNEL_TYPE)))
+			.limit(1);
+
+		const [updatedChannel] = await db
+			.update(notification_channels)
+			.set(updates)
+			.where(and(eq(notification_channels.id, webhookId), eq(notification_channels.channel_type, WEBHOOK_CHANNEL_TYPE)))
+			.returning();
+
+		if (!updatedChannel) {
+			return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+		}
+
+		await recordAudit(request, {
+			actorClerkId: userId,
+			action: secret ? "webhook.rotate_secret" : "webhook.update",
+			entityType: AUDIT_ENTITY.WEBHOOK,
+			entityId: webhookId,
+			before: existing,
+			after: updatedChannel,
+		});
+
+		return NextResponse.json(
+			{
+				message: secret ? "Webhook secret rotated" : "Webhook updated successfully",
+				webhook: serializeWebhook(updatedChannel),
+				...(secret ? { secret } : {}),
+			},
+			{ status: 200 },
+		);
+	} catch (error: unknown) {
+		console.error("Update webhook error:", error);
+		const errorMessage = error instanceof Error ? error.message : "Failed to update webhook";
+		return NextResponse.json({ error: errorMessage }, { status: 500 });
+	}
+}
+
+// DELETE - Remove an endpoint (its delivery log is removed with it)
+export async function DELETE(
+	request: NextRequest,
+	{ params }: { params: Promise<{ id: string }> }
+) {
+	try {
+		const { userId } = await auth();
+		if (!userId) {
+			return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+		}
+
+		// Use cached function for better performance (request-scoped deduplication)
+		const { role } = await getCachedAdminUser(userId);
+		if (role !== "super_admin") {
+			return NextResponse.json({ error: "Forbidden: Super admin only" }, { status: 403 });
+		}
+
+		const { id } = await params;
+		const webhookId = parseInt(id);
+		if (isNaN(webhookId) || webhookId <= 0) {
+			return NextResponse.json({ error: "Invalid webhook ID" }, { status: 400 });
+		}
+
+		const [deletedChannel] = await db
+			.delete(notification_channels)
+			.where(and(eq(notification_channels.id, webhookId), eq(notification_channels.channel_type, WEBHOOK_CHANNEL_TYPE)))
+			.returning();
+
+		if (!deletedChannel) {
+			return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+		}
+
+		await recordAudit(request, {
+			actorClerkId: userId,
+			action: "webhook.delete",
+			entityType: AUDIT_ENTITY.WEBHOOK,
+			entityId: webhookId,
+			before: deletedChannel,
+		});
+
+		return NextResponse.json(
+			{ message: "Webhook deleted successfully", webhook: serializeWebhook(deletedChannel) },
+			{ status: 200 },
+		);
+	} catch (error: unknown) {
+		console.error("Delete webhook error:", error);
+		const errorMessage = error instanceof Error ? error.message : "Failed to delete webhook";
+		return NextResponse.json({ error: errorMessage }, { status: 500 });
+	}
+}
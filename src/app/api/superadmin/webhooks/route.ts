@@ -0,0 +1,145 @@
+/**
+ * GET /api/superadmin/webhooks
+ * POST /api/superadmin/webhooks
+ *
+ * Outgoing webhook endpoints (notification_channels with channel_type "webhook")
+ * SuperAdmin-only endpoints
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { db } from "@/db";
+import { notification_channels, webhook_deliveries } from "@/db/schema";
+import { and, desc, eq, sql } from "drizzle-orm";
+import { getCachedAdminUser } from "@/lib/cache/cached-queries";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { AUDIT_ENTITY } from "@/conf/constants";
+import {
+	WEBHOOK_CHANNEL_TYPE,
+	WEBHOOK_DELIVERY_STATUS,
+	WEBHOOK_EVENTS,
+	generateWebhookSecret,
+	parseWebhookInput,
+	serializeWebhook,
+	validateWebhookUrl,
+} from "@/lib/notification/webhooks";
+
+// GET - List webhook endpoints with delivery counts
+export async function GET() {
+	try {
+		const { userId } = await auth();
+		if (!userId) {
+			return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+		}
+
+		// Use cached function for better performance (request-scoped deduplication)
+		const { role } = await getCachedAdminUser(userId);
+		if (role !== "super_admin") {
+			return NextResponse.json({ error: "Forbidden: Super admin only" }, { status: 403 });
+		}
+
+		const channels = await db
+			.select()
+			.from(notification_channels)
+			.where(eq(notification_channels.channel_type, WEBHOOK_CHANNEL_TYPE))
+			.orderBy(desc(notification_channels.created_at));
+
+		const stats = await db
+			.select({
+				channel_id: webhook_deliveries.channel_id,
+				delivered: sql<number>`count(*) FILTER (WHERE ${webhook_deliveries.status} = ${WEBHOOK_DELIVERY_STATUS.DELIVERED})::int`,
+				pending: sql<number>`count(*) FILTER (WHERE ${webhook_deliveries.status} = ${WEBHOOK_DELIVERY_STATUS.PENDING})::int`,
+				failed: sql<number>`count(*) FILTER (WHERE ${webhook_deliveries.status} = ${WEBHOOK_DELIVERY_STATUS.FAILED})::int`,
+				last_attempt_at: sql<string | null>`max(${webhook_deliveries.last_attempt_at})`,
+			})
+			.from(webhook_deliveries)
+			.innerJoin(notification_channels, and(
+				eq(notification_channels.id, webhook_deliveries.channel_id),
+				eq(notification_channels.channel_type, WEBHOOK_CHANNEL_TYPE),
+			))
+			.groupBy(webhook_deliveries.channel_id);
+		const statsByChannel = new Map(stats.map((row) => [row.channel_id, row]));
+
+		return NextResponse.json({
+			webhooks: channels.map((channel) => {
+				const channelStats = statsByChannel.get(channel.id);
+				return {
+					...serializeWebhook(channel),
+					deliveries: {
+						delivered: channelStats?.delivered ?? 0,
+						pending: channelStats?.pending ?? 0,
+						failed: channelStats?.failed ?? 0,
+						last_attempt_at: channelStats?.last_attempt_at ?? null,
+					},
+				};
+			}),
+			events: WEBHOOK_EVENTS,
+		});
+	} catch (error) {
+		console.error("Fetch webhooks error:", error);
+		return NextResponse.json({ error: "Failed to fetch webhooks" }, { status: 500 });
+	}
+}
+
+// POST - Register a webhook endpoint (returns the signing secret once)
+export async function POST(request: NextRequest) {
+	try {
+		const { userId } = await auth();
+		if (!userId) {
+			return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+		}
+
+		// Use cached function for better performance (request-scoped deduplication)
+		const { role } = await getCachedAdminUser(userId);
+		if (role !== "super_admin") {
+			return NextResponse.json({ error: "Forbidden: Super admin only" }, { status: 403 });
+		}
+
+		const body = await request.json();
+
+		const urlError = validateWebhookUrl(body.url);
+		if (urlError) {
+			return NextResponse.json({ error: urlError }, { status: 400 });
+		}
+
+		const parsed = parseWebhookInput({ owner_type: "global", ...body });
+		if ("error" in parsed) {
+			return NextResponse.json({ error: parsed.error }, { status: 400 });
+		}
+
+		const secret = generateWebhookSecret();
+		const [channel] = await db
+			.insert(notification_channels)
+			.values({
+				owner_type: parsed.updates.owner_type ?? "global",
+				owner_id: parsed.updates.owner_id ?? "*",
+				channel_type: WEBHOOK_CHANNEL_TYPE,
+				webhook_url: String(body.url).trim(),
+				webhook_secret: secret,
+				webhook_events: parsed.updates.webhook_events ?? null,
+				is_active: body.is_active === undefined ? true : Boolean(body.is_active),
+			})
+			.returning();
+
+		if (!channel) {
+			return NextResponse.json({ error: "Failed to create webhook" }, { status: 500 });
+		}
+
+		await recordAudit(request, {
+			actorClerkId: userId,
+			action: "webhook.create",
+			entityType: AUDIT_ENTITY.WEBHOOK,
+			entityId: channel.id,
+			after: channel,
+		});
+
+		return NextResponse.json(
+			{ message: "Webhook created successfully", webhook: serializeWebhook(channel), secret },
+			{ status: 201 },
+		);
+	} catch (error: unknown) {
+		console.error("Create webhook error:", error);
+		const errorMessage = error instanceof Error ? error.message : "Failed to create webhook";
+		return NextResponse.json({ error: errorMessage }, { status: 500 });
+	}
+}
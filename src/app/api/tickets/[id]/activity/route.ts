@@ -5,6 +5,7 @@ import { tickets } from "@/db/schema";
 import { eq } from "drizzle-orm";
 import { getUserRoleFromDB } from "@/lib/auth/db-roles";
 import { getOrCreateUser } from "@/lib/auth/user-sync";
+import { getTicketComments } from "@/lib/ticket/data/ticketComments";
 
 /**
  * ============================================
@@ -85,7 +86,6 @@ export async function GET(
     const timeline: TimelineItem[] = [];
 
     type TicketMetadata = {
-      comments?: Array<{ [key: string]: unknown }>;
       resolved_at?: string;
       reopened_at?: string;
       last_escalation_at?: string;
@@ -98,31 +98,20 @@ export async function GET(
     const reopenedAt = metadata.reopened_at ? new Date(metadata.reopened_at) : null;
     const lastEscalationAt = metadata.last_escalation_at ? new Date(metadata.last_escalation_at) : null;
 
-    // 1. COMMENTS
-    if (Array.isArray(metadata.comments)) {
-      for (const c of metadata.comments) {
-        // Students cannot see internal notes
-        if (isStudent && c.isInternal) continue;
-
-        type Comment = {
-          author?: unknown;
-          text?: unknown;
-          createdAt?: unknown;
-          isInternal?: unknown;
-        };
-        const comment = c as Comment;
-        const createdAt = comment.createdAt instanceof Date ? comment.createdAt : 
-                         typeof comment.createdAt === 'string' ? new Date(comment.createdAt) :
-                         new Date();
-        timeline.push({
-          type: "comment",
-          timestamp: createdAt,
-          author: String(comment.author || "Unknown"),
-          text: String(comment.text || ""),
-          createdAt: createdAt,
-          isInternal: Boolean(comment.isInternal || false),
-        });
-      }
+    // 1. COMMENTS (students cannot see internal notes)
+    const comments = await getTicketComments(ticketId, { includeInternal: !isStudent });
+    for (const comment of comments) {
+      const createdAt = comment.createdAt instanceof Date ? comment.createdAt :
+                       typeof comment.createdAt === 'string' ? new Date(comment.createdAt) :
+                       new Date();
+      timeline.push({
+        type: "comment",
+        timestamp: createdAt,
+        author: String(comment.author || "Unknown"),
+        text: comment.text,
+        createdAt: createdAt,
+        isInternal: Boolean(comment.isInternal),
+      });
     }
 
     // 2. STATUS CHANGES
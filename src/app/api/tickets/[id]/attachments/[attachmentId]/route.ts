@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { TICKET_ACTIVITY } from "@/conf/constants";
+import { getAttachmentStorage } from "@/lib/integration/storage";
+import { getTicketViewer } from "@/lib/ticket/data/ticketScope";
+import { recordTicketActivity } from "@/lib/ticket/data/ticketActivity";
+import { deleteTicketAttachment, getTicketAttachment } from "@/lib/ticket/data/ticketAttachments";
+
+/**
+ * ============================================
+ * /api/tickets/[id]/attachments/[attachmentId]
+ * ============================================
+ *
+ * GET → Download Attachment
+ *   - Auth: Required (anyone who can see the ticket and the comment it belongs to)
+ *   - Redirects to a short-lived signed URL, or streams the file (local storage)
+ *
+ * DELETE → Remove Attachment
+ *   - Auth: Required (the uploader, or staff who can see the ticket)
+ *   - Returns: 200 OK with success message
+ * ============================================
+ */
+
+async function resolveAttachment(clerkUserId: string, rawTicketId: string, rawAttachmentId: string) {
+  const ticketId = parseInt(rawTicketId, 10);
+  const attachmentId = parseInt(rawAttachmentId, 10);
+  if (isNaN(ticketId) || isNaN(attachmentId)) {
+    return { error: NextResponse.json({ error: "Invalid ID" }, { status: 400 }) };
+  }
+
+  // Unreachable tickets and hidden attachments look the same as missing ones
+  const viewer = await getTicketViewer(clerkUserId, ticketId);
+  const attachment = viewer
+    ? await getTicketAttachment(ticketId, attachmentId, { includeInternal: viewer.isStaff })
+    : null;
+  if (!viewer || !attachment) {
+    return { error: NextResponse.json({ error: "Attachment not found" }, { status: 404 }) };
+  }
+
+  return { viewer, attachment };
+}
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; attachmentId: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id, attachmentId } = await params;
+    const resolved = await resolveAttachment(userId, id, attachmentId);
+    if (resolved.error) {
+      return resolved.error;
+    }
+    const { attachment } = resolved;
+
+    const mimeType = attachment.mime_type || "application/octet-stream";
+    const download = await getAttachmentStorage(attachment.storage_provider).getDownload(attachment.storage_key, {
+      fileName: attachment.file_name,
+      mimeType,
+    });
+
+    if (download.kind === "redirect") {
+      const response = NextResponse.redirect(download.url, 302);
+      response.headers.set("Cache-Control", "private, no-store");
+      return response;
+    }
+
+    return new NextResponse(new Uint8Array(download.body), {
+      headers: {
+        "Content-Type": mimeType,
+        "Content-Length": String(download.body.length),
+        "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(attachment.file_name)}`,
+        "X-Content-Type-Options": "nosniff",
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Error downloading attachment:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; attachmentId: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id, attachmentId } = await params;
+    const resolved = await resolveAttachment(userId, id, attachmentId);
+    if (resolved.error) {
+      return resolved.error;
+    }
+    const { viewer, attachment } = resolved;
+
+    if (!viewer.isStaff && attachment.uploaded_by !== viewer.userId) {
+      return NextResponse.json({ error: "You can only remove attachments you uploaded" }, { status: 403 });
+    }
+
+    await deleteTicketAttachment(attachment);
+
+    await recordTicketActivity({
+      ticketId: attachment.ticket_id,
+      userId: viewer.userId,
+      action: TICKET_ACTIVITY.ATTACHMENT_REMOVED,
+      details: { attachment_id: attachment.id, file_name: attachment.file_name },
+    });
+
+    return NextResponse.json({ success: true, message: "Attachment removed" });
+  } catch (error) {
+    console.error("Error deleting attachment:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
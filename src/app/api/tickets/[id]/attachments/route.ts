@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { db, ticket_comments } from "@/db";
+import { and, eq, isNull } from "drizzle-orm";
+import { TICKET_ACTIVITY } from "@/conf/constants";
+import { getTicketViewer } from "@/lib/ticket/data/ticketScope";
+import { isInternalCommentType } from "@/lib/ticket/data/ticketComments";
+import { recordTicketActivity } from "@/lib/ticket/data/ticketActivity";
+import {
+  getTicketAttachmentRules,
+  getTicketAttachments,
+  sanitizeAttachmentFileName,
+  toTicketAttachment,
+  uploadTicketAttachment,
+} from "@/lib/ticket/data/ticketAttachments";
+import { validateAttachment } from "@/lib/ticket/utils/attachmentRules";
+
+/**
+ * ============================================
+ * /api/tickets/[id]/attachments
+ * ============================================
+ *
+ * GET → List Attachments
+ *   - Auth: Required (anyone who can see the ticket)
+ *   - Students don't see attachments on internal notes
+ *   - Returns: 200 OK with { attachments, rules }
+ *
+ * POST → Upload Attachment
+ *   - Auth: Required (anyone who can see the ticket)
+ *   - Body: multipart/form-data { file: File, commentId?: number }
+ *   - Type and size limits come from the ticket's category
+ *   - Returns: 201 Created with { attachment }
+ * ============================================
+ */
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const ticketId = parseInt(id, 10);
+    if (isNaN(ticketId)) {
+      return NextResponse.json({ error: "Invalid ticket ID" }, { status: 400 });
+    }
+
+    const viewer = await getTicketViewer(userId, ticketId);
+    if (!viewer) {
+      return NextResponse.json({ error: "Ticket not found" }, { status: 404 });
+    }
+
+    const [attachments, rules] = await Promise.all([
+      getTicketAttachments(ticketId, { includeInternal: viewer.isStaff }),
+      getTicketAttachmentRules(ticketId),
+    ]);
+
+    return NextResponse.json({
+      attachments: attachments.map(toTicketAttachment),
+      rules: { allowed_types: rules.allowedTypes, max_bytes: rules.maxBytes },
+    });
+  } catch (error) {
+    console.error("Error fetching attachments:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const ticketId = parseInt(id, 10);
+    if (isNaN(ticketId)) {
+      return NextResponse.json({ error: "Invalid ticket ID" }, { status: 400 });
+    }
+
+    const viewer = await getTicketViewer(userId, ticketId);
+    if (!viewer) {
+      return NextResponse.json({ error: "Ticket not found" }, { status: 404 });
+    }
+
+    const formData = await request.formData();
+    const file = formData.get("file");
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "No file provided" }, { status: 400 });
+    }
+
+    const rules = await getTicketAttachmentRules(ticketId);
+    const validationError = validateAttachment(file, rules);
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError, allowed_types: rules.allowedTypes, max_bytes: rules.maxBytes },
+        { status: 400 }
+      );
+    }
+
+    // Optional link to a comment on the same ticket (students can only attach to visible comments)
+    let commentId: number | null = null;
+    const rawCommentId = formData.get("commentId");
+    if (rawCommentId !== null && rawCommentId !== "") {
+      commentId = parseInt(String(rawCommentId), 10);
+      if (isNaN(commentId)) {
+        return NextResponse.json({ error: "Invalid comment ID" }, { status: 400 });
+      }
+
+      const [comment] = await db
+        .select({ id: ticket_comments.id, comment_type: ticket_comments.comment_type })
+        .from(ticket_comments)
+        .where(
+          and(
+            eq(ticket_comments.id, commentId),
+            eq(ticket_comments.ticket_id, ticketId),
+            isNull(ticket_comments.deleted_at)
+          )
+        )
+        .limit(1);
+
+      if (!comment || (!viewer.isStaff && isInternalCommentType(comment.comment_type))) {
+        return NextResponse.json({ error: "Comment not found on this ticket" }, { status: 404 });
+      }
+    }
+
+    const attachment = await uploadTicketAttachment({
+      ticketId,
+      commentId,
+      uploadedBy: viewer.userId,
+      fileName: sanitizeAttachmentFileName(file.name),
+      mimeType: file.type,
+      body: Buffer.from(await file.arrayBuffer()),
+    });
+
+    await recordTicketActivity({
+      ticketId,
+      userId: viewer.userId,
+      action: TICKET_ACTIVITY.ATTACHMENT_ADDED,
+      details: {
+        attachment_id: attachment.id,
+        file_name: attachment.file_name,
+        comment_id: attachment.comment_id,
+      },
+    });
+
+    return NextResponse.json({ attachment: toTicketAttachment(attachment) }, { status: 201 });
+  } catch (error) {
+    console.error("Error uploading attachment:", error);
+    return NextResponse.json({ error: "Failed to upload attachment" }, { status: 500 });
+  }
+}
@@ -4,10 +4,17 @@ import { tickets, outbox, ticket_statuses } from "@/db/schema";
 import type { TicketInsert } from "@/db/inferred-types";
 import { eq } from "drizzle-orm";
 import { AddCommentSchema } from "@/schemas/business/ticket";
-import { getCachedAdminUser, getCachedUser, getCachedTicketStatuses } from "@/lib/cache/cached-queries";
+import { getCachedAdminUser, getCachedUser } from "@/lib/cache/cached-queries";
 import { auth } from "@clerk/nextjs/server";
 import type { TicketMetadata } from "@/db/inferred-types";
-import { TICKET_STATUS, getCanonicalStatus } from "@/conf/constants";
+import { COMMENT_SOURCE, USER_ROLE, getCanonicalStatus } from "@/conf/constants";
+import {
+  addTicketComment,
+  getLatestTicketComment,
+  getTicketComments,
+  toTicketComment,
+} from "@/lib/ticket/data/ticketComments";
+import { resumeFromAwaitingStudent } from "@/lib/ticket/actions/studentReply";
 
 /**
  * ============================================
@@ -84,17 +91,13 @@ export async function GET(
       if (!localId || ticket.created_by !== localId)
         return NextResponse.json({ error: "Forbidden" }, { status: 403 });
 
-      const metadata = (ticket.metadata as TicketMetadata & { comments?: Array<Record<string, unknown>> }) || {};
-      const comments = (metadata.comments || []).filter(
-        (c: Record<string, unknown>) => !c.isInternal
-      );
+      const comments = await getTicketComments(ticketId, { includeInternal: false });
 
       return NextResponse.json(comments, { status: 200 });
     }
 
     // Committee / Staff / Admin / Superadmin → all comments
-    const metadata = (ticket.metadata as TicketMetadata & { comments?: Array<Record<string, unknown>> }) || {};
-    const comments = metadata.comments || [];
+    const comments = await getTicketComments(ticketId, { includeInternal: true });
 
     return NextResponse.json(comments, { status: 200 });
   } catch (error) {
@@ -110,7 +113,7 @@ export async function GET(
  * POST /api/tickets/[id]/comments
  * - Validates input
  * - Checks permissions
- * - Appends comment to ticket.metadata.comments in a DB transaction
+ * - Inserts a ticket_comments row in a DB transaction
  * - Enqueues an outbox event ('ticket.comment.added') for notifications (Slack/email)
  *
  * NOTE: Worker must process outbox events to send Slack/email and update ticket metadata further if needed.
@@ -185,17 +188,11 @@ export async function POST(
       }
       
       // Check if the last comment was from a student - if so, prevent adding another comment
-      const metadata = (ticket.metadata as TicketMetadata & { comments?: Array<Record<string, unknown>> }) || {};
-      const comments = Array.isArray(metadata.comments) ? metadata.comments : [];
-      if (comments.length > 0) {
-        const lastComment = comments[comments.length - 1];
-        const lastCommentSource = lastComment?.source;
-        // If last comment was from a student (source === "website"), prevent adding another comment
-        if (lastCommentSource === "website") {
-          return NextResponse.json({ 
-            error: "You have already replied. Please wait for the admin to ask another question before replying again." 
-          }, { status: 403 });
-        }
+      const lastComment = await getLatestTicketComment(ticketId, { includeInternal: false });
+      if (lastComment?.author_role === USER_ROLE.STUDENT) {
+        return NextResponse.json({ 
+          error: "You have already replied. Please wait for the admin to ask another question before replying again." 
+        }, { status: 403 });
       }
     } else if (isCommittee) {
       // Edge case: Validate committee member has access to this ticket
@@ -218,18 +215,7 @@ export async function POST(
     const author = localUser.full_name || localUser.email || "User";
     // For admin super_admin note type, we may label differently in the worker / UI
 
-    // Create comment object
-    const isInternal = commentType === "internal_note" || commentType === "super_admin_note";
-    const commentObj = {
-      text: comment.trim(),
-      author,
-      createdAt: new Date().toISOString(),
-      source: isAdminUser ? "admin_dashboard" : "website",
-      type: commentType,
-      isInternal,
-    };
-
-    // Transaction: append comment to metadata.comments, handle TAT resume, and auto status change
+    // Transaction: insert comment row, handle TAT resume, and auto status change
     let updated;
     try {
       updated = await db.transaction(async (tx) => {
@@ -247,10 +233,10 @@ export async function POST(
       if (!freshTicket) throw new Error("Ticket not found in transaction");
 
       // Safely parse and validate metadata structure
-      let metadata: TicketMetadata & { comments?: Array<Record<string, unknown>> };
+      let metadata: TicketMetadata;
       try {
         if (freshTicket.metadata && typeof freshTicket.metadata === 'object' && !Array.isArray(freshTicket.metadata)) {
-          metadata = freshTicket.metadata as TicketMetadata & { comments?: Array<Record<string, unknown>> };
+          metadata = freshTicket.metadata as TicketMetadata;
         } else {
           metadata = {};
         }
@@ -259,85 +245,37 @@ export async function POST(
         // Start with fresh metadata if parsing fails
         metadata = {};
       }
-      
-      // Ensure comments array exists and is valid
-      if (!Array.isArray(metadata.comments)) {
-        metadata.comments = [];
-      }
-      
-      // Validate comment object before pushing
-      if (commentObj && typeof commentObj === 'object' && commentObj.text && typeof commentObj.text === 'string') {
-        metadata.comments.push(commentObj);
-      } else {
-        throw new Error("Invalid comment object structure");
-      }
+
+      const commentRow = await addTicketComment(
+        {
+          ticketId,
+          body: comment,
+          authorId: localUser.id,
+          authorName: author,
+          authorRole: role || null,
+          commentType,
+          source: COMMENT_SOURCE.WEB,
+        },
+        tx
+      );
 
       const updateData: Partial<TicketInsert> = {
-        metadata: metadata as unknown,
         updated_at: new Date(),
       };
 
-      // Check if student is replying to AWAITING_STUDENT status
+      // Student replying to AWAITING_STUDENT: resume TAT and move back to IN_PROGRESS
       const statusValue = freshTicket.status || null;
       const currentStatus = statusValue ? (getCanonicalStatus(statusValue) || statusValue.toLowerCase()) : "";
-      const isAwaitingStudent =
-        currentStatus === TICKET_STATUS.AWAITING_STUDENT;
-      
-      if (isStudent && isAwaitingStudent) {
-        // 1. Resume TAT - calculate paused duration and update TAT date
-        const tatPauseStart = metadata.tatPauseStart ? new Date(metadata.tatPauseStart as string) : null;
-        const now = new Date();
-        
-        if (tatPauseStart && metadata.tatDate) {
-          // Calculate paused duration
-          const pausedDuration = now.getTime() - tatPauseStart.getTime();
-          const previousPausedDuration = (metadata.tatPausedDuration as number) || 0;
-          metadata.tatPausedDuration = previousPausedDuration + pausedDuration;
-          
-          // Update TAT date by adding paused duration
-          const originalTATDate = new Date(metadata.tatDate as string);
-          const newTATDate = new Date(originalTATDate.getTime() + pausedDuration);
-          metadata.tatDate = newTATDate.toISOString();
-          
-          // Clear pause start
-          metadata.tatPauseStart = undefined;
-          
-          // Create TAT_RESUME event
-          await tx.insert(outbox).values({
-            event_type: "TAT_RESUME",
-            payload: {
-              ticket_id: ticketId,
-              paused_duration_ms: pausedDuration,
-              total_paused_duration_ms: metadata.tatPausedDuration,
-              new_tat_date: metadata.tatDate,
-              resumed_at: now.toISOString(),
-            },
-          });
-        }
-
-        // 2. Automatically change status to IN_PROGRESS
-        // Use cached statuses for better performance
-        const ticketStatuses = await getCachedTicketStatuses();
-        const inProgressStatus = ticketStatuses.find(s => s.value.toLowerCase() === TICKET_STATUS.IN_PROGRESS.toLowerCase());
-        const inProgressStatusId = inProgressStatus?.id || null;
-        if (inProgressStatusId) {
-          updateData.status_id = inProgressStatusId;
-        } else {
-          console.error(`[Comments API] Failed to find status_id for "${TICKET_STATUS.IN_PROGRESS}"`);
-        }
-        
-        // Create status change event
-        await tx.insert(outbox).values({
-          event_type: "ticket.status.updated",
-          payload: {
-            ticket_id: ticketId,
-            old_status: currentStatus ? currentStatus.toUpperCase() : currentStatus,
-            new_status: TICKET_STATUS.IN_PROGRESS.toUpperCase(),
-            updated_by_clerk_id: userId,
-            auto_changed: true,
-            reason: "Student replied to awaiting question",
-          },
-        });
+      if (isStudent) {
+        Object.assign(
+          updateData,
+          await resumeFromAwaitingStudent(tx, {
+            ticketId,
+            metadata,
+            currentStatus,
+            actorClerkId: userId,
+          })
+        );
       }
 
       // Update ticket
@@ -351,7 +289,7 @@ export async function POST(
         event_type: "ticket.comment.added",
         payload: {
           ticket_id: ticketId,
-          comment: commentObj,
+          comment_id: commentRow.id,
           added_by_clerk_id: userId,
           originalEmailMessageId: metadata.originalEmailMessageId || null,
           originalEmailSubject: metadata.originalEmailSubject || null,
@@ -359,7 +297,7 @@ export async function POST(
         },
       });
 
-        return commentObj;
+        return toTicketComment(commentRow);
       });
     } catch (transactionError) {
       console.error(`[Comments API] Transaction failed for ticket #${ticketId}:`, transactionError);
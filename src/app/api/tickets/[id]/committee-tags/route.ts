@@ -5,6 +5,7 @@ import { eq, and } from "drizzle-orm";
 import { getOrCreateUser } from "@/lib/auth/user-sync";
 import { getUserRoleFromDB } from "@/lib/auth/db-roles";
 import { fastAuthCheck, isAuthError } from "@/lib/auth/fast-auth";
+import { queueCommitteeTaggedNotification } from "@/lib/committee/committeeMembers";
 
 /**
  * ============================================
@@ -158,16 +159,23 @@ export async function POST(
       return NextResponse.json({ error: "Failed to sync user" }, { status: 500 });
     }
 
-    // Create the tag
-    const [newTag] = await db
-      .insert(ticket_committee_tags)
-      .values({
-        ticket_id: ticketId,
-        committee_id,
-        tagged_by: dbUser.id,
-        reason: reason || null,
-      })
-      .returning();
+    // Create the tag and notify the committee's members
+    const newTag = await db.transaction(async (tx) => {
+      const [tag] = await tx
+        .insert(ticket_committee_tags)
+        .values({
+          ticket_id: ticketId,
+          committee_id,
+          tagged_by: dbUser.id,
+          reason: reason || null,
+        })
+        .returning();
+      await queueCommitteeTaggedNotification(
+        { ticketId, committeeId: committee_id, taggedBy: dbUser.id, reason: reason || null },
+        tx
+      );
+      return tag!;
+    });
 
     // Fetch tag with committee details
     const [tagWithCommittee] = await db
@@ -6,6 +6,8 @@ import { eq } from "drizzle-orm";
 import { getCachedAdminUser, getCachedTicketStatuses } from "@/lib/cache/cached-queries";
 import { TICKET_STATUS, getCanonicalStatus } from "@/conf/constants";
 import { EscalateTicketSchema } from "@/schemas/business/ticket";
+import type { TicketMetadata } from "@/db/inferred-types";
+import { applySlaPauseTransition } from "@/lib/sla/pauses";
 
 /**
  * ============================================
@@ -168,10 +170,14 @@ export async function POST(
         : {};
       metadata.last_escalation_at = new Date().toISOString();
 
+      // SLA pause bookkeeping (escalating a paused ticket restarts the clock)
+      const slaUpdates = await applySlaPauseTransition(tx, ticketId, TICKET_STATUS.ESCALATED, { metadata: metadata as TicketMetadata });
+
       // Update ticket
       const [t] = await tx
         .update(tickets)
         .set({
+          ...slaUpdates,
           escalation_level: newEscalationLevel,
           status_id: escalatedStatusId,
           metadata: metadata,
@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { db, tickets, ticket_followers, ticket_statuses } from "@/db";
+import { and, eq, sql } from "drizzle-orm";
+import { getOrCreateUser } from "@/lib/auth/user-sync";
+import { TICKET_ACTIVITY } from "@/conf/constants";
+import { recordTicketActivity } from "@/lib/ticket/data/ticketActivity";
+import { getTicketViewer } from "@/lib/ticket/data/ticketScope";
+import { verifySimilarTicketFollowToken } from "@/lib/ticket/data/similarTickets";
+import { FollowTicketSchema } from "@/schemas/business/ticket";
+
+/**
+ * ============================================
+ * /api/tickets/[id]/follow
+ * ============================================
+ *
+ * POST → Follow Ticket
+ *   - Auth: Required (any signed-in user other than the ticket's creator)
+ *   - Body: { followToken? }
+ *   - Instead of filing a duplicate, get this ticket's status updates
+ *   - The ticket must be visible to the user, or have been shown to them by the
+ *     similar ticket lookup (its followToken)
+ *   - Only open (non-final) tickets can be followed
+ *   - Returns: 200 OK with { following: true, followerCount }
+ *
+ * DELETE → Unfollow Ticket
+ *   - Auth: Required
+ *   - Returns: 200 OK with { following: false, followerCount }
+ * ============================================
+ */
+
+async function countFollowers(ticketId: number): Promise<number> {
+  const [row] = await db
+    .select({ count: sql<number>`count(*)::int` })
+    .from(ticket_followers)
+    .where(eq(ticket_followers.ticket_id, ticketId));
+  return Number(row?.count ?? 0);
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const ticketId = parseInt(id, 10);
+    if (isNaN(ticketId)) {
+      return NextResponse.json({ error: "Invalid ticket ID" }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const parsed = FollowTicketSchema.safeParse(body ?? {});
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const dbUser = await getOrCreateUser(userId);
+    if (!dbUser) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const viewer = await getTicketViewer(userId, ticketId);
+    if (!viewer && !verifySimilarTicketFollowToken(ticketId, dbUser.id, parsed.data.followToken)) {
+      return NextResponse.json({ error: "Ticket not found" }, { status: 404 });
+    }
+
+    const [ticket] = await db
+      .select({ id: tickets.id, created_by: tickets.created_by, is_final: ticket_statuses.is_final })
+      .from(tickets)
+      .innerJoin(ticket_statuses, eq(ticket_statuses.id, tickets.status_id))
+      .where(eq(tickets.id, ticketId))
+      .limit(1);
+
+    if (!ticket) {
+      return NextResponse.json({ error: "Ticket not found" }, { status: 404 });
+    }
+    if (ticket.created_by === dbUser.id) {
+      return NextResponse.json({ error: "You already receive updates for your own ticket" }, { status: 400 });
+    }
+    if (ticket.is_final) {
+      return NextResponse.json({ error: "This ticket is already closed" }, { status: 400 });
+    }
+
+    await db.transaction(async (tx) => {
+      const [inserted] = await tx
+        .insert(ticket_followers)
+        .values({ ticket_id: ticketId, user_id: dbUser.id })
+        .onConflictDoNothing()
+        .returning({ id: ticket_followers.id });
+
+      if (inserted) {
+        await recordTicketActivity(
+          { ticketId, action: TICKET_ACTIVITY.FOLLOWED, userId: dbUser.id },
+          tx
+        );
+      }
+    });
+
+    return NextResponse.json({ following: true, followerCount: await countFollowers(ticketId) });
+  } catch (error) {
+    console.error("Error following ticket:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const ticketId = parseInt(id, 10);
+    if (isNaN(ticketId)) {
+      return NextResponse.json({ error: "Invalid ticket ID" }, { status: 400 });
+    }
+
+    const dbUser = await getOrCreateUser(userId);
+    if (!dbUser) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    await db.transaction(async (tx) => {
+      const [removed] = await tx
+        .delete(ticket_followers)
+        .where(and(eq(ticket_followers.ticket_id, ticketId), eq(ticket_followers.user_id, dbUser.id)))
+        .returning({ id: ticket_followers.id });
+
+      if (removed) {
+        await recordTicketActivity(
+          { ticketId, action: TICKET_ACTIVITY.UNFOLLOWED, userId: dbUser.id },
+          tx
+        );
+      }
+    });
+
+    return NextResponse.json({ following: false, followerCount: await countFollowers(ticketId) });
+  } catch (error) {
+    console.error("Error unfollowing ticket:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
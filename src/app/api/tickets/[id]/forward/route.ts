@@ -1,12 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { db } from "@/db";
-import { tickets, outbox, users, committees, ticket_statuses } from "@/db/schema";
+import { tickets, outbox, committees, ticket_statuses } from "@/db/schema";
 import { eq } from "drizzle-orm";
 import { getCachedAdminUser, getCachedTicketStatuses } from "@/lib/cache/cached-queries";
 import { TICKET_STATUS, getCanonicalStatus, isAdminLevel } from "@/conf/constants";
 import { ForwardTicketSchema } from "@/schemas/business/ticket";
 import type { TicketMetadata } from "@/db/inferred-types";
+import { applySlaPauseTransition } from "@/lib/sla/pauses";
+import { getCommitteeLead } from "@/lib/committee/committeeMembers";
 
 /**
  * ============================================
@@ -98,47 +100,33 @@ export async function POST(
         }
 
         // --------------------------------------------------
-        // GET COMMITTEE AND HEAD (optimized single query with join)
+        // GET COMMITTEE AND ITS LEAD (head, else a coordinator)
         // --------------------------------------------------
-        const [committeeWithHead] = await db
-            .select({
-                committee_id: committees.id,
-                committee_name: committees.name,
-                head_id: committees.head_id,
-                head_user_id: users.id,
-                head_full_name: users.full_name,
-                head_email: users.email,
-            })
+        const [committee] = await db
+            .select({ id: committees.id, name: committees.name })
             .from(committees)
-            .leftJoin(users, eq(committees.head_id, users.id))
             .where(eq(committees.id, committee_id))
             .limit(1);
 
-        if (!committeeWithHead) {
+        if (!committee) {
             return NextResponse.json(
                 { error: "Committee not found" },
                 { status: 404 }
             );
         }
 
-        if (!committeeWithHead.head_id) {
+        const lead = await getCommitteeLead(committee.id);
+        if (!lead) {
             return NextResponse.json(
-                { error: "Committee has no head assigned" },
+                { error: "Committee has no head or coordinator assigned" },
                 { status: 400 }
             );
         }
 
-        if (!committeeWithHead.head_user_id) {
-            return NextResponse.json(
-                { error: "Committee head not found" },
-                { status: 404 }
-            );
-        }
-
         const targetAdmin = {
-            id: committeeWithHead.head_user_id,
-            full_name: committeeWithHead.head_full_name,
-            email: committeeWithHead.head_email,
+            id: lead.user_id,
+            full_name: lead.full_name,
+            email: lead.email,
         };
         const targetAdminName = targetAdmin.full_name?.trim() || targetAdmin.email || "Unknown";
 
@@ -169,11 +157,15 @@ export async function POST(
                 throw new Error("FORWARDED status not found in database");
             }
             const forwardedStatusId = forwardedStatus.id;
+
+            // SLA pause bookkeeping (forwarding a paused ticket restarts the clock)
+            const slaUpdates = await applySlaPauseTransition(tx, ticketId, TICKET_STATUS.FORWARDED, { metadata });
             
-            // Update ticket - reassign to committee head and set status to FORWARDED
+            // Update ticket - reassign to the committee lead and set status to FORWARDED
             const [t] = await tx
                 .update(tickets)
                 .set({
+                    ...slaUpdates,
                     assigned_to: targetAdmin.id,
                     status_id: forwardedStatusId,
                     updated_at: new Date(),
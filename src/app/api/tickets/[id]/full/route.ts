@@ -39,6 +39,8 @@ import {
   getCategoryProfileFields
 } from "@/lib/category/categories";
 import { extractDynamicFields } from "@/lib/ticket/formatting/formatDynamicFields";
+import { getTicketFormVersionFields } from "@/lib/category/formVersions";
+import { getTicketComments } from "@/lib/ticket/data/ticketComments";
 
 export async function GET(
   _request: unknown,
@@ -104,7 +106,6 @@ export async function GET(
     }
 
     type TicketMetadata = {
-      comments?: Array<{ [key: string]: unknown }>;
       [key: string]: unknown;
     };
     const metadata = (ticketData.ticket_metadata as TicketMetadata) || {};
@@ -190,20 +191,18 @@ export async function GET(
     }
 
     // 8. Extract dynamic fields using helper
+    // Render against the form version the ticket was submitted with (if recorded)
+    const formVersionFields = await getTicketFormVersionFields(metadata);
     const dynamicFields = categorySchema && typeof categorySchema === 'object' && !Array.isArray(categorySchema)
-      ? extractDynamicFields(metadata, categorySchema as Record<string, unknown>)
+      ? extractDynamicFields(metadata, categorySchema as Record<string, unknown>, formVersionFields)
       : [];
 
     // 9. Extract resolved_at, acknowledged_at from metadata
     const resolvedAt = metadata.resolved_at ? new Date(metadata.resolved_at as string) : null;
     const acknowledgedAt = metadata.acknowledged_at ? new Date(metadata.acknowledged_at as string) : null;
 
-    // Extract comments
-    type Comment = { isInternal?: boolean; type?: string };
-    const comments = Array.isArray(metadata?.comments) ? metadata.comments : [];
-    const visibleComments = comments.filter(
-      (c: Comment) => !c?.isInternal && c?.type !== "super_admin_note"
-    );
+    // Fetch student-visible comments
+    const visibleComments = await getTicketComments(ticketId, { includeInternal: false });
 
     // 10. Build timeline
     const timeline = [
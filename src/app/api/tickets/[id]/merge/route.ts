@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { db, tickets } from "@/db";
+import { and, inArray } from "drizzle-orm";
+import { getCachedAdminUser } from "@/lib/cache/cached-queries";
+import { getTicketScope } from "@/lib/ticket/data/ticketScope";
+import { mergeTickets } from "@/lib/ticket/actions/mergeTickets";
+import { checkAndArchiveGroupIfAllTicketsClosed } from "@/lib/archive/group-archive";
+import { MergeTicketsSchema } from "@/schemas/business/ticket";
+
+/**
+ * ============================================
+ * /api/tickets/[id]/merge
+ * ============================================
+ *
+ * POST → Merge Duplicates Into This Ticket
+ *   - Auth: Required (Admin, Senior Admin, Super Admin; every ticket must be in the caller's scope)
+ *   - Moves internal notes, committee tags and followers of the given tickets
+ *     to this one and closes them with the "merged" status and a link back here;
+ *     student-visible comments stay on their ticket and are copied here as internal notes
+ *   - Body: { ticketIds: number[], reason?: string }
+ *   - Returns: 200 OK with { primaryTicketId, mergedTicketIds, moved }
+ * ============================================
+ */
+
+const MERGE_ROLES = ["admin", "snr_admin", "super_admin"];
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const ticketId = parseInt(id, 10);
+    if (isNaN(ticketId)) {
+      return NextResponse.json({ error: "Invalid ticket ID" }, { status: 400 });
+    }
+
+    const { dbUser, role } = await getCachedAdminUser(userId);
+    if (!dbUser) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+    if (!role || !MERGE_ROLES.includes(role)) {
+      return NextResponse.json({ error: "Only admins can merge tickets" }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = MergeTicketsSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid request", details: parsed.error.issues }, { status: 400 });
+    }
+
+    // Every ticket involved has to be within the admin's reach
+    const ticketIds = Array.from(new Set([ticketId, ...parsed.data.ticketIds]));
+    const scope = await getTicketScope(userId);
+    if (scope.kind === "none") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    if (scope.kind === "scoped") {
+      const visible = await db
+        .select({ id: tickets.id })
+        .from(tickets)
+        .where(and(inArray(tickets.id, ticketIds), scope.condition));
+      const hidden = ticketIds.filter((tid) => !visible.some((row) => row.id === tid));
+      if (hidden.length > 0) {
+        return NextResponse.json(
+          { error: `Ticket${hidden.length > 1 ? "s" : ""} not found or outside your scope: #${hidden.join(", #")}` },
+          { status: 404 }
+        );
+      }
+    }
+
+    const result = await mergeTickets({
+      primaryTicketId: ticketId,
+      secondaryTicketIds: parsed.data.ticketIds,
+      actor: { userId: dbUser.id, clerkId: userId, name: dbUser.full_name || null, role },
+      reason: parsed.data.reason,
+    });
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    // Merged tickets are closed, so their groups may now be fully resolved
+    for (const groupId of result.affectedGroupIds) {
+      try {
+        await checkAndArchiveGroupIfAllTicketsClosed(groupId);
+      } catch (archiveError) {
+        console.error(`Error checking group ${groupId} for archiving after merge:`, archiveError);
+      }
+    }
+
+    return NextResponse.json({
+      primaryTicketId: result.primaryTicketId,
+      mergedTicketIds: result.mergedTicketIds,
+      moved: result.moved,
+    });
+  } catch (error) {
+    console.error("Error merging tickets:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
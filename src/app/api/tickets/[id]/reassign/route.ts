@@ -8,6 +8,9 @@ import { postThreadReply } from "@/lib/integration/slack";
 import { sendEmail } from "@/lib/integration/email";
 import { getUserRoleFromDB } from "@/lib/auth/db-roles";
 import { getOrCreateUser } from "@/lib/auth/user-sync";
+import { TICKET_ACTIVITY } from "@/conf/constants";
+import { recordTicketActivity } from "@/lib/ticket/data/ticketActivity";
+import { getTicketCoverageScope, resolveAdminCoverage } from "@/lib/assignment/coverage";
 
 /**
  * ============================================
@@ -18,6 +21,8 @@ import { getOrCreateUser } from "@/lib/auth/user-sync";
  *   - Auth: Required (Admin only)
  *   - Reassign ticket to different staff member
  *   - Body: { staffId: string (UUID), reason: string (optional) }
+ *   - If the new assignee is out of office, the ticket goes to whoever covers for them
+ *     (their delegate or the next available admin in the ticket's scope)
  *   - Notifies both old and new assignee
  *   - Returns: 200 OK with updated ticket
  * ============================================
@@ -158,6 +163,22 @@ export async function POST(
 			adminName = "Unassigned";
 		}
 
+		// Out-of-office admins hand the ticket to their cover; keep the requested admin if nobody can cover
+		let coveringFor: { user_id: string; name: string; away_until: string; via: "delegate" | "scope" } | null = null;
+		if (databaseUserId) {
+			const coverage = await resolveAdminCoverage(databaseUserId, await getTicketCoverageScope(ticketId));
+			if (coverage?.cover) {
+				coveringFor = {
+					user_id: databaseUserId,
+					name: adminName,
+					away_until: coverage.absence.endsAt.toISOString(),
+					via: coverage.cover.via,
+				};
+				databaseUserId = coverage.cover.userId;
+				adminName = coverage.cover.name?.trim() || coverage.cover.email || "Admin";
+			}
+		}
+
 		// Get previous assignee name for notifications
 		let previousAssigneeName = "Unassigned";
 		if (ticket.assigned_to) {
@@ -200,6 +221,23 @@ export async function POST(
 				},
 				attempts: 0,
 			});
+
+			const [actor] = await tx
+				.select({ id: users.id })
+				.from(users)
+				.where(eq(users.external_id, userId))
+				.limit(1);
+
+			await recordTicketActivity({
+				ticketId,
+				userId: actor?.id,
+				action: TICKET_ACTIVITY.REASSIGNED,
+				details: {
+					from: ticket.assigned_to,
+					to: databaseUserId,
+					...(coveringFor ? { covering_for: coveringFor } : {}),
+				},
+			}, tx);
 		});
 
 		// Send notifications immediately (for real-time updates)
@@ -209,8 +247,9 @@ export async function POST(
 			const slackMessageTs = typeof metadata.slackMessageTs === 'string' ? metadata.slackMessageTs : undefined;
 			if (slackMessageTs && (ticket.category_name === "Hostel" || ticket.category_name === "College")) {
 				try {
+					const coverNote = coveringFor ? ` (covering for ${coveringFor.name}, who is away)` : "";
 					const reassignText = normalizedAssignedTo
-						? `🔄 *Ticket Reassigned*\nTicket #${ticketId} has been reassigned to ${adminName}.\nPrevious assignment: ${previousAssigneeName}`
+						? `🔄 *Ticket Reassigned*\nTicket #${ticketId} has been reassigned to ${adminName}${coverNote}.\nPrevious assignment: ${previousAssigneeName}`
 						: `🔄 *Ticket Unassigned*\nTicket #${ticketId} is now unassigned.\nPrevious assignment: ${previousAssigneeName}`;
 					await postThreadReply(
 						ticket.category_name as "Hostel" | "College",
@@ -330,6 +369,7 @@ export async function POST(
 			success: true, 
 			message: databaseUserId ? "Ticket reassigned successfully" : "Ticket unassigned successfully",
 			assignedTo: databaseUserId,
+			coveringFor,
 		});
 	} catch (error) {
 		console.error("Error reassigning ticket:", error);
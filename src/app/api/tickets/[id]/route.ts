@@ -1,15 +1,23 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth, clerkClient } from "@clerk/nextjs/server";
-import { db, tickets, ticket_committee_tags, committees, categories, users, ticket_statuses, ticket_groups } from "@/db";
+import { db, tickets, ticket_committee_tags, categories, users, ticket_statuses, ticket_groups, outbox } from "@/db";
 import { getStatusIdByValue } from "@/lib/status/getTicketStatuses";
 import { eq, and, inArray } from "drizzle-orm";
 import { sendEmail, getStatusUpdateEmail } from "@/lib/integration/email";
 import { postThreadReply } from "@/lib/integration/slack";
-import { TICKET_STATUS, getCanonicalStatus } from "@/conf/constants";
+import { AUDIT_ENTITY, COMMENT_SOURCE, TICKET_ACTIVITY, TICKET_STATUS, getCanonicalStatus } from "@/conf/constants";
 import { getUserRoleFromDB } from "@/lib/auth/db-roles";
 import { getOrCreateUser } from "@/lib/auth/user-sync";
 import { getAdminAssignment, ticketMatchesAdminAssignment } from "@/lib/assignment/admin-assignment";
 import type { TicketMetadata } from "@/db/inferred-types";
+import { addTicketComment } from "@/lib/ticket/data/ticketComments";
+import { recordTicketActivity } from "@/lib/ticket/data/ticketActivity";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { applySlaPauseTransition } from "@/lib/sla/pauses";
+import { validateStatusTransition } from "@/lib/status/transitions";
+import { TicketFieldValidationError, applyTicketDetailsUpdate } from "@/lib/ticket/validation/ticketFields";
+import { getUserCommitteeIds } from "@/lib/committee/committeeMembers";
+import { UpdateTicketSchema } from "@/schemas/business/ticket";
 
 // Force Node.js runtime for Slack/email integrations
 export const runtime = 'nodejs';
@@ -106,12 +114,7 @@ export async function GET(
         // Check if tagged OR in a group assigned to their committee
         const dbUser = await getOrCreateUser(userId);
         if (dbUser) {
-          const committeeRecords = await db
-            .select({ id: committees.id })
-            .from(committees)
-            .where(eq(committees.head_id, dbUser.id));
-
-          const committeeIds = committeeRecords.map(c => c.id);
+          const committeeIds = await getUserCommitteeIds(dbUser.id);
           if (committeeIds.length > 0) {
             // Check direct tags
             const tagRecords = await db
@@ -196,6 +199,37 @@ export async function GET(
   }
 }
 
+/**
+ * Dynamic field values that differ between two metadata snapshots (null: not set)
+ */
+function diffDynamicFieldValues(previous: Record<string, unknown>, next: Record<string, unknown>) {
+  const valuesOf = (metadata: Record<string, unknown>): Record<string, unknown> => {
+    const fields =
+      metadata.dynamic_fields && typeof metadata.dynamic_fields === "object"
+        ? (metadata.dynamic_fields as Record<string, { value?: unknown }>)
+        : {};
+    return Object.fromEntries(Object.entries(fields).map(([slug, entry]) => [slug, entry?.value ?? null]));
+  };
+
+  const previousValues = valuesOf(previous);
+  const nextValues = valuesOf(next);
+  const before: Record<string, unknown> = {};
+  const after: Record<string, unknown> = {};
+  for (const slug of new Set([...Object.keys(previousValues), ...Object.keys(nextValues)])) {
+    const from = previousValues[slug] ?? null;
+    const to = nextValues[slug] ?? null;
+    if (JSON.stringify(from) === JSON.stringify(to)) continue;
+    before[slug] = from;
+    after[slug] = to;
+  }
+  return { before, after };
+}
+
+/**
+ * PATCH - Update status, add a comment and/or edit dynamic field values
+ * `details` (admins only) is merged with the stored field values and validated against
+ * the subcategory's field rules; 400 with { error, fieldErrors } when invalid
+ */
 export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -208,7 +242,7 @@ export async function PATCH(
     }
 
     // Ensure user exists in database
-    await getOrCreateUser(userId);
+    const currentUser = await getOrCreateUser(userId);
 
     // Get role from database (single source of truth)
     const role = await getUserRoleFromDB(userId);
@@ -216,9 +250,12 @@ export async function PATCH(
     const isCommittee = role === "committee";
 
     const { id } = await params;
-    const body = await request.json();
-    let { status } = body;
-    const { comment, commentType } = body;
+    const parsedBody = UpdateTicketSchema.safeParse(await request.json().catch(() => null));
+    if (!parsedBody.success) {
+      return NextResponse.json({ error: "Invalid request", details: parsedBody.error.issues }, { status: 400 });
+    }
+    let { status } = parsedBody.data;
+    const { comment, commentType, details } = parsedBody.data;
 
     // Get ticket to check ownership
     const ticketId = parseInt(id);
@@ -234,6 +271,7 @@ export async function PATCH(
         assigned_to: tickets.assigned_to,
         metadata: tickets.metadata,
         category_id: tickets.category_id,
+        subcategory_id: tickets.subcategory_id,
         location: tickets.location,
         description: tickets.description,
         category_name: categories.name,
@@ -283,12 +321,7 @@ export async function PATCH(
         return NextResponse.json({ error: "User account not found" }, { status: 404 });
       }
 
-      const committeeRecords = await db
-        .select({ id: committees.id })
-        .from(committees)
-        .where(eq(committees.head_id, dbUser.id));
-
-      const committeeIds = committeeRecords.map(c => c.id);
+      const committeeIds = await getUserCommitteeIds(dbUser.id);
 
       if (committeeIds.length > 0) {
         const tagRecords = await db
@@ -356,6 +389,90 @@ export async function PATCH(
       }
     }
 
+    // Validate against the configured status workflow (allowed moves, roles, comment / TAT requirements)
+    // before anything is written, so a rejected change doesn't leave a comment or field edit behind
+    if (canonicalStatus) {
+      const ticketMetadata = (ticket.metadata as TicketMetadata) || {};
+      const transitionCheck = await validateStatusTransition({
+        fromStatus: ticket.status || null,
+        toStatus: canonicalStatus,
+        role,
+        hasComment: typeof comment === "string" && comment.trim().length > 0,
+        hasTAT: !!ticketMetadata.tatDate,
+      });
+      if (!transitionCheck.ok) {
+        return NextResponse.json({ error: transitionCheck.error }, { status: transitionCheck.status });
+      }
+    }
+
+    // Handle dynamic field edits (admins only)
+    if (details !== undefined) {
+      if (!isAdmin) {
+        return NextResponse.json({ error: "Only admins can edit ticket fields" }, { status: 403 });
+      }
+
+      const currentMetadata =
+        ticket.metadata && typeof ticket.metadata === "object" && !Array.isArray(ticket.metadata)
+          ? (ticket.metadata as Record<string, unknown>)
+          : {};
+      const metadataSubcategoryId = Number(currentMetadata.subcategoryId);
+
+      let nextMetadata: Record<string, unknown>;
+      try {
+        nextMetadata = await applyTicketDetailsUpdate(
+          currentMetadata,
+          ticket.subcategory_id ?? (Number.isInteger(metadataSubcategoryId) ? metadataSubcategoryId : null),
+          details
+        );
+      } catch (error) {
+        if (error instanceof TicketFieldValidationError) {
+          return NextResponse.json({ error: error.message, fieldErrors: error.fieldErrors }, { status: 400 });
+        }
+        throw error;
+      }
+
+      const { before, after } = diffDynamicFieldValues(currentMetadata, nextMetadata);
+      const actor = await getOrCreateUser(userId);
+
+      await db.transaction(async (tx) => {
+        await tx
+          .update(tickets)
+          .set({ metadata: nextMetadata, updated_at: new Date() })
+          .where(eq(tickets.id, ticketId));
+
+        if (Object.keys(after).length > 0) {
+          await recordTicketActivity({
+            ticketId,
+            userId: actor?.id,
+            action: TICKET_ACTIVITY.FIELDS_UPDATED,
+            details: { fields: Object.keys(after), before, after },
+          }, tx);
+        }
+      });
+
+      if (Object.keys(after).length > 0) {
+        await recordAudit(request, {
+          actorClerkId: userId,
+          action: "ticket.update_fields",
+          entityType: AUDIT_ENTITY.TICKET,
+          entityId: ticketId,
+          before,
+          after,
+        });
+      }
+      // Later status handling builds on the updated metadata
+      ticket.metadata = nextMetadata;
+
+      if (!status && !comment) {
+        const [updatedTicket] = await db
+          .select()
+          .from(tickets)
+          .where(eq(tickets.id, ticketId))
+          .limit(1);
+        return NextResponse.json(updatedTicket);
+      }
+    }
+
     // Handle comments if provided (for committee members or admins)
     if (comment && typeof comment === "string" && comment.trim().length > 0) {
       // Check permissions for adding comments
@@ -363,12 +480,6 @@ export async function PATCH(
         return NextResponse.json({ error: "You don't have permission to add comments to this ticket" }, { status: 403 });
       }
 
-      // Parse metadata (JSONB) for comments
-      const metadata = (ticket.metadata as TicketMetadata) || {};
-      if (!metadata.comments) {
-        metadata.comments = [];
-      }
-
       // Get author name
       let authorName = "Committee Member";
       if (isAdmin) {
@@ -385,42 +496,23 @@ export async function PATCH(
         }
       }
 
-      // Edge case: Use transaction to prevent concurrent comment conflicts
       await db.transaction(async (tx) => {
-        // Re-fetch ticket inside transaction to get latest metadata
-        const [currentTicket] = await tx
-          .select({ metadata: tickets.metadata })
-          .from(tickets)
-          .where(eq(tickets.id, ticketId))
-          .limit(1);
-        
-        if (!currentTicket) {
-          throw new Error("Ticket not found. It may have been deleted.");
-        }
-        
-        // Parse current metadata
-        const currentMetadata = (currentTicket.metadata as TicketMetadata) || {};
-        if (!currentMetadata.comments) {
-          currentMetadata.comments = [];
-        }
-        
-        // Add comment
-        currentMetadata.comments.push({
-          text: comment.trim(),
-          author: authorName,
-          createdAt: new Date().toISOString(),
-          source: isAdmin ? "admin_dashboard" : "committee_dashboard",
-          type: commentType || "student_visible",
-          isInternal: commentType === "internal_note" || commentType === "super_admin_note",
-        });
+        await addTicketComment(
+          {
+            ticketId,
+            body: comment,
+            authorId: currentUser?.id ?? null,
+            authorName,
+            authorRole: role || null,
+            commentType: typeof commentType === "string" && commentType ? commentType : "student_visible",
+            source: COMMENT_SOURCE.WEB,
+          },
+          tx
+        );
 
-        // Update ticket with comment
         await tx
           .update(tickets)
-          .set({
-            metadata: currentMetadata,
-            updated_at: new Date(),
-          })
+          .set({ updated_at: new Date() })
           .where(eq(tickets.id, ticketId));
       });
 
@@ -507,6 +599,12 @@ export async function PATCH(
         if (!currentTicket) {
           throw new Error("Ticket not found. It may have been deleted.");
         }
+
+        // SLA pause bookkeeping (open/close the pause interval, shift the due date on resume)
+        Object.assign(
+          updateData,
+          await applySlaPauseTransition(tx, ticketId, canonicalStatus, { metadata: metadata as TicketMetadata })
+        );
         
         // Update ticket
         const [updated] = await tx
@@ -518,6 +616,17 @@ export async function PATCH(
         if (!updated) {
           throw new Error("Failed to update ticket. It may have been deleted.");
         }
+
+        // Outbox event for worker (webhooks + WhatsApp)
+        await tx.insert(outbox).values({
+          event_type: "ticket.status.updated",
+          payload: {
+            ticket_id: ticketId,
+            old_status: ticket.status,
+            new_status: canonicalStatus,
+            updated_by_clerk_id: userId,
+          },
+        });
         
         return updated;
       });
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getTicketScope, getTicketViewer } from "@/lib/ticket/data/ticketScope";
+import { findSimilarToTicket } from "@/lib/ticket/data/similarTickets";
+
+/**
+ * ============================================
+ * /api/tickets/[id]/similar
+ * ============================================
+ *
+ * GET → Possible Duplicates
+ *   - Auth: Required (staff who can see the ticket)
+ *   - Open tickets in the same category that look like this one, limited to
+ *     the caller's ticket scope and excluding tickets already in its group
+ *   - Query: ?limit=number (default 5, max 20)
+ *   - Returns: 200 OK with { tickets } (each with `matchedOn`, `group`, `followerCount`)
+ * ============================================
+ */
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const ticketId = parseInt(id, 10);
+    if (isNaN(ticketId)) {
+      return NextResponse.json({ error: "Invalid ticket ID" }, { status: 400 });
+    }
+
+    const viewer = await getTicketViewer(userId, ticketId);
+    if (!viewer) {
+      return NextResponse.json({ error: "Ticket not found" }, { status: 404 });
+    }
+    if (!viewer.isStaff) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const scope = await getTicketScope(userId);
+    const limitParam = parseInt(request.nextUrl.searchParams.get("limit") ?? "", 10);
+    const similar = await findSimilarToTicket(ticketId, {
+      condition: scope.kind === "scoped" ? scope.condition : undefined,
+      limit: isNaN(limitParam) ? undefined : limitParam,
+    });
+
+    return NextResponse.json({ tickets: similar });
+  } catch (error) {
+    console.error("Error finding possible duplicates:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getCachedAdminUser } from "@/lib/cache/cached-queries";
+import { getTicketViewer } from "@/lib/ticket/data/ticketScope";
+import { splitTicket } from "@/lib/ticket/actions/splitTicket";
+import { SplitTicketSchema } from "@/schemas/business/ticket";
+
+/**
+ * ============================================
+ * /api/tickets/[id]/split
+ * ============================================
+ *
+ * POST → Split Ticket
+ *   - Auth: Required (Admin, Senior Admin, Super Admin with the ticket in scope)
+ *   - Creates a child ticket for a second, unrelated problem reported here. The child
+ *     belongs to the same student and inherits profile data, location, scope and assignee
+ *   - Body: { description: string, categoryId?: number, subcategoryId?: number | null,
+ *             commentIds?: number[], attachmentIds?: number[] }
+ *     (selected comments/attachments move to the child)
+ *   - Returns: 201 Created with { parentTicketId, childTicketId, moved }
+ * ============================================
+ */
+
+const SPLIT_ROLES = ["admin", "snr_admin", "super_admin"];
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const ticketId = parseInt(id, 10);
+    if (isNaN(ticketId)) {
+      return NextResponse.json({ error: "Invalid ticket ID" }, { status: 400 });
+    }
+
+    const { dbUser, role } = await getCachedAdminUser(userId);
+    if (!dbUser) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+    if (!role || !SPLIT_ROLES.includes(role)) {
+      return NextResponse.json({ error: "Only admins can split tickets" }, { status: 403 });
+    }
+
+    const viewer = await getTicketViewer(userId, ticketId);
+    if (!viewer) {
+      return NextResponse.json({ error: "Ticket not found" }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = SplitTicketSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid request", details: parsed.error.issues }, { status: 400 });
+    }
+
+    const result = await splitTicket({
+      parentTicketId: ticketId,
+      ...parsed.data,
+      actor: { userId: dbUser.id, clerkId: userId, name: dbUser.full_name || null, role },
+    });
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(
+      { parentTicketId: result.parentTicketId, childTicketId: result.childTicketId, moved: result.moved },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error splitting ticket:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
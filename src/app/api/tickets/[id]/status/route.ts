@@ -1,12 +1,17 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { db } from "@/db";
-import { tickets, outbox, ticket_committee_tags, committees, ticket_statuses, ticket_groups } from "@/db/schema";
-import type { TicketInsert } from "@/db/inferred-types";
+import { tickets, outbox, ticket_committee_tags, ticket_statuses, ticket_groups } from "@/db/schema";
+import type { TicketInsert, TicketMetadata } from "@/db/inferred-types";
 import { eq, and, inArray } from "drizzle-orm";
 import { getCachedAdminUser, getCachedUser, getCachedTicketStatuses } from "@/lib/cache/cached-queries";
 import { UpdateTicketStatusSchema } from "@/schemas/business/ticket";
-import { TICKET_STATUS, getCanonicalStatus } from "@/conf/constants";
+import { COMMENT_SOURCE, TICKET_STATUS, getCanonicalStatus } from "@/conf/constants";
+import { applySlaPauseTransition } from "@/lib/sla/pauses";
+import { calculateTicketTATDate } from "@/lib/sla/calendars";
+import { validateStatusTransition } from "@/lib/status/transitions";
+import { addTicketComment } from "@/lib/ticket/data/ticketComments";
+import { getUserCommitteeIds } from "@/lib/committee/committeeMembers";
 
 // Force Node.js runtime for Slack/email integrations
 export const runtime = 'nodejs';
@@ -21,7 +26,9 @@ export const runtime = 'nodejs';
  *   - Permissions:
  *     • Admin: Update to ANY status
  *     • Committee: Admin-like control, but ONLY for tickets tagged to their committee
- *     • Student: Can reopen their own closed/resolved tickets and "close" (self-resolve) their own active tickets
+ *     • Student: Only their own tickets
+ *   - Allowed moves per role come from the status workflow (status_transitions)
+ *   - Body: { status, comment?, tat? } - comment / tat when the transition requires them
  *   - Returns: 200 OK with updated ticket
  * ============================================
  */
@@ -47,7 +54,11 @@ export async function PATCH(
 
     const canonicalStatus = typeof body.status === "string" ? getCanonicalStatus(body.status) : null;
 
-    const parsed = UpdateTicketStatusSchema.safeParse({ status: canonicalStatus });
+    const parsed = UpdateTicketStatusSchema.safeParse({
+      status: canonicalStatus,
+      comment: typeof body.comment === "string" && body.comment.trim() ? body.comment : undefined,
+      tat: typeof body.tat === "string" && body.tat.trim() ? body.tat : undefined,
+    });
     if (!parsed.success) {
       return NextResponse.json(
         { error: "Invalid status", details: parsed.error.format() },
@@ -56,6 +67,7 @@ export async function PATCH(
     }
 
     let newStatus = parsed.data.status;
+    const { comment: statusComment, tat: statusTAT } = parsed.data;
 
     // -------------------------
     // USER + ROLE (use cached functions for better performance)
@@ -88,6 +100,8 @@ export async function PATCH(
         status: ticket_statuses.value,
         status_id: tickets.status_id,
         group_id: tickets.group_id,
+        category_id: tickets.category_id,
+        scope_id: tickets.scope_id,
         metadata: tickets.metadata,
       })
       .from(tickets)
@@ -102,45 +116,16 @@ export async function PATCH(
     // PERMISSIONS
     // -------------------------
 
-    // Students → can "close" (self-resolve) their own active tickets, or reopen their own resolved/closed tickets
+    // Students → only their own tickets (which moves they may make comes from the status workflow)
     if (isStudent) {
-      const currentCanonical = getCanonicalStatus(ticket.status) || null;
-
       if (ticket.created_by !== localUser.id) {
         return NextResponse.json({ error: "Forbidden" }, { status: 403 });
       }
-
-      const isReopening = newStatus === TICKET_STATUS.REOPENED;
-      const isClosing = newStatus === TICKET_STATUS.CLOSED || newStatus === TICKET_STATUS.RESOLVED;
-
-      const canReopen = currentCanonical === TICKET_STATUS.RESOLVED || currentCanonical === TICKET_STATUS.CLOSED;
-      const canCloseFrom = new Set<string>([
-        TICKET_STATUS.OPEN,
-        TICKET_STATUS.IN_PROGRESS,
-        TICKET_STATUS.AWAITING_STUDENT,
-        TICKET_STATUS.REOPENED,
-      ]);
-
-      const canClose = currentCanonical ? canCloseFrom.has(currentCanonical) : false;
-
-      if ((isReopening && canReopen) || (isClosing && canClose)) {
-        // Allowed
-      } else {
-        return NextResponse.json(
-          { error: "Students can only close their own active tickets or reopen closed/resolved tickets" },
-          { status: 403 }
-        );
-      }
     }
 
     // Committee → can act like admins, but ONLY for tickets tagged to their committee or in groups assigned to their committee
     if (isCommittee) {
-      const committeeRecords = await db
-        .select({ id: committees.id })
-        .from(committees)
-        .where(eq(committees.head_id, localUser.id));
-
-      const committeeIds = committeeRecords.map((c) => c.id);
+      const committeeIds = await getUserCommitteeIds(localUser.id);
 
       if (committeeIds.length === 0) {
         return NextResponse.json(
@@ -215,18 +200,21 @@ export async function PATCH(
       }
     }
 
-    // Handle TAT pause when status changes to AWAITING_STUDENT
     let metadata: Record<string, unknown> = {};
     if (ticket.metadata && typeof ticket.metadata === "object" && !Array.isArray(ticket.metadata)) {
       metadata = { ...(ticket.metadata as Record<string, unknown>) };
     }
-    if (newStatus === TICKET_STATUS.AWAITING_STUDENT && currentCanonicalStatus !== TICKET_STATUS.AWAITING_STUDENT) {
-      // Pause TAT - record pause start time
-      metadata.tatPauseStart = new Date().toISOString();
-      // Initialize paused duration if not exists
-      if (!metadata.tatPausedDuration) {
-        metadata.tatPausedDuration = 0;
-      }
+
+    // Validate against the configured status workflow (allowed moves, roles, comment / TAT requirements)
+    const transitionCheck = await validateStatusTransition({
+      fromStatus: currentStatusValue || null,
+      toStatus: newStatus,
+      role,
+      hasComment: !!statusComment,
+      hasTAT: !!(statusTAT || metadata.tatDate),
+    });
+    if (!transitionCheck.ok) {
+      return NextResponse.json({ error: transitionCheck.error }, { status: transitionCheck.status });
     }
 
     // Edge case: Validate status exists and is active before updating
@@ -285,9 +273,6 @@ export async function PATCH(
       // Increment reopen_count in metadata
       const currentReopenCount = (metadata.reopen_count as number) || 0;
       metadata.reopen_count = currentReopenCount + 1;
-      // Reset TAT pause tracking for new TAT cycle
-      metadata.tatPauseStart = undefined;
-      metadata.tatPausedDuration = 0;
       // Clear TAT for new cycle (admin will set new TAT)
       metadata.tat = undefined;
       metadata.tatDate = undefined;
@@ -295,6 +280,16 @@ export async function PATCH(
       metadata.tatSetBy = undefined;
     }
 
+    // TAT supplied with the status change (workflow transitions may require one)
+    let tatDate: Date | null = null;
+    if (statusTAT) {
+      tatDate = await calculateTicketTATDate(ticket, statusTAT);
+      metadata.tat = statusTAT;
+      metadata.tatDate = tatDate.toISOString();
+      metadata.tatSetAt = new Date().toISOString();
+      metadata.tatSetBy = localUser.id;
+    }
+
     // Build update data
     const updateData: Partial<TicketInsert> = {
       status_id: newStatusId,
@@ -313,6 +308,32 @@ export async function PATCH(
     let updatedTicket;
     try {
       updatedTicket = await db.transaction(async (tx) => {
+        // SLA pause bookkeeping (open/close the pause interval, shift the due date on resume)
+        Object.assign(
+          updateData,
+          await applySlaPauseTransition(tx, ticketId, newStatus, {
+            metadata: metadata as TicketMetadata,
+            shiftDueDate: !tatDate,
+          })
+        );
+        if (tatDate) {
+          updateData.resolution_due_at = tatDate;
+        }
+
+        if (statusComment) {
+          await addTicketComment(
+            {
+              ticketId,
+              body: statusComment,
+              authorId: localUser.id,
+              authorName: localUser.full_name || null,
+              authorRole: role || null,
+              source: COMMENT_SOURCE.WEB,
+            },
+            tx
+          );
+        }
+
         // Update ticket
         const [ticketUpdated] = await tx
           .update(tickets)
@@ -331,6 +352,7 @@ export async function PATCH(
             old_status: currentStatusValue,
             new_status: newStatus,
             updated_by_clerk_id: userId,
+            comment: statusComment ?? null,
           },
         });
 
@@ -1,13 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { db } from "@/db";
-import { tickets, categories, users } from "@/db/schema";
+import { tickets, categories, users, outbox } from "@/db/schema";
 import type { TicketInsert } from "@/db/inferred-types";
 import { eq } from "drizzle-orm";
 import { sendEmail, getTATSetEmail } from "@/lib/integration/email";
 import { SetTATSchema } from "@/schemas/business/ticket";
 import { TICKET_STATUS } from "@/conf/constants";
-import { calculateTATDate } from "@/utils";
+import { calculateTicketTATDate } from "@/lib/sla/calendars";
+import { applySlaPauseTransition } from "@/lib/sla/pauses";
 import { getCachedAdminUser } from "@/lib/cache/cached-queries";
 import type { TicketMetadata } from "@/db/inferred-types";
 import { getCachedTicketStatuses } from "@/lib/cache/cached-queries";
@@ -77,6 +78,7 @@ export async function POST(
 				id: tickets.id,
 				created_by: tickets.created_by,
 				category_id: tickets.category_id,
+				scope_id: tickets.scope_id,
 				category_name: categories.name,
 				metadata: tickets.metadata,
 				group_id: tickets.group_id,
@@ -99,9 +101,9 @@ export async function POST(
 		const originalMessageId: string | undefined = metadata.originalEmailMessageId;
 		const originalSubject: string | undefined = metadata.originalEmailSubject;
 
-		// Parse TAT text and calculate date
+		// Parse TAT text and calculate date on the ticket's business calendar (working hours, holidays)
 		const tatText = tat.trim();
-		const tatDate = calculateTATDate(tatText);
+		const tatDate = await calculateTicketTATDate(ticket, tatText);
 
 		// Set TAT (support both setting and extending)
 		// PRD v3.0: Track TAT extensions for auto-escalation (after 3 extensions)
@@ -140,6 +142,7 @@ export async function POST(
 			metadata: metadata as unknown,
 			updated_at: new Date(),
 			assigned_to: dbUser.id,
+			resolution_due_at: tatDate,
 		};
 
 		if (markInProgress) {
@@ -147,6 +150,8 @@ export async function POST(
 			const ticketStatuses = await getCachedTicketStatuses();
 			const inProgressStatus = ticketStatuses.find(s => s.value.toLowerCase() === TICKET_STATUS.IN_PROGRESS.toLowerCase());
 			if (inProgressStatus?.id) {
+				// The new TAT starts from now - just close any open SLA pause
+				await applySlaPauseTransition(db, ticketId, TICKET_STATUS.IN_PROGRESS, { shiftDueDate: false });
 				updateData.status_id = inProgressStatus.id;
 			} else {
 				console.error(`[TAT API] Failed to find status_id for "${TICKET_STATUS.IN_PROGRESS}"`);
@@ -154,10 +159,24 @@ export async function POST(
 			}
 		}
 
-		await db
-			.update(tickets)
-			.set(updateData)
-			.where(eq(tickets.id, ticketId));
+		await db.transaction(async (tx) => {
+			await tx
+				.update(tickets)
+				.set(updateData)
+				.where(eq(tickets.id, ticketId));
+
+			// Outbox event for webhook subscribers
+			await tx.insert(outbox).values({
+				event_type: "ticket.tat.set",
+				payload: {
+					ticket_id: ticketId,
+					tat: tatText,
+					tat_date: tatDate.toISOString(),
+					is_extension: isExtension,
+					set_by_clerk_id: userId,
+				},
+			});
+		});
 
 		// If ticket is in a group, apply the same TAT to all tickets in that group
 		if (ticket.group_id) {
@@ -6,9 +6,13 @@ import type { TicketInsert } from "@/db/inferred-types";
 import { BulkCloseTicketsSchema } from "@/schemas/business/ticket";
 import { getUserRoleFromDB } from "@/lib/auth/db-roles";
 import { getOrCreateUser } from "@/lib/auth/user-sync";
-import { getCanonicalStatus, TICKET_STATUS } from "@/conf/constants";
+import { COMMENT_TYPE, getCanonicalStatus, TICKET_STATUS } from "@/conf/constants";
 import type { TicketMetadata } from "@/db/inferred-types";
 import { getStatusIdByValue } from "@/lib/status/getTicketStatuses";
+import { addTicketComment } from "@/lib/ticket/data/ticketComments";
+import { applySlaPauseTransition } from "@/lib/sla/pauses";
+import { validateStatusTransition } from "@/lib/status/transitions";
+import { getCachedTicketStatuses } from "@/lib/cache/cached-queries";
 
 /**
  * ============================================
@@ -20,6 +24,7 @@ import { getStatusIdByValue } from "@/lib/status/getTicketStatuses";
  *   - Close multiple tickets at once
  *   - Body: { ticketIds: number[], reason: string (optional) }
  *   - Updates status to CLOSED for all specified tickets
+ *   - Tickets whose move is not allowed by the status workflow are returned in `skipped`
  *   - Notifies affected students
  *   - Returns: 200 OK with count of closed tickets
  * ============================================
@@ -33,7 +38,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Ensure user exists in database
-    await getOrCreateUser(userId);
+    const currentUser = await getOrCreateUser(userId);
 
     // Get role from database (single source of truth)
     const role = await getUserRoleFromDB(userId);
@@ -66,30 +71,50 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "No tickets found for the provided ids" }, { status: 404 });
     }
 
-    // Update metadata with optional bulk-close comment and set status
+    const ticketStatuses = await getCachedTicketStatuses();
+
+    // Add optional bulk-close comment, update metadata and set status
+    // Tickets the status workflow doesn't allow to be resolved this way are skipped
     const now = new Date();
+    const updated: number[] = [];
+    const skipped: Array<{ ticketId: number; error: string }> = [];
     for (const row of rows) {
+      const currentStatus = ticketStatuses.find((s) => s.id === row.status_id)?.value ?? null;
+      const transitionCheck = await validateStatusTransition({
+        fromStatus: currentStatus,
+        toStatus: targetStatusValue,
+        role,
+        hasComment: !!comment,
+        hasTAT: !!(row.metadata as TicketMetadata | null)?.tatDate,
+      });
+      if (!transitionCheck.ok) {
+        skipped.push({ ticketId: row.id, error: transitionCheck.error });
+        continue;
+      }
+
       let metadata: TicketMetadata = {};
       try {
         metadata = row.metadata ? (typeof row.metadata === 'string' ? JSON.parse(row.metadata) as TicketMetadata : row.metadata as TicketMetadata) : {};
       } catch { }
 
       if (comment) {
-        const comments = Array.isArray(metadata.comments) ? metadata.comments : [];
-        comments.push({
-          text: comment,
-          author: "Admin",
-          createdAt: now.toISOString(),
-          type: "internal_note",
-          isInternal: true,
-          source: "bulk_action",
+        await addTicketComment({
+          ticketId: row.id,
+          body: comment,
+          authorId: currentUser?.id ?? null,
+          authorName: currentUser?.full_name || "Admin",
+          authorRole: role,
+          commentType: COMMENT_TYPE.INTERNAL_NOTE,
+          createdAt: now,
         });
-        metadata.comments = comments;
       }
 
       // Set resolved_at in metadata
       metadata.resolved_at = now.toISOString();
 
+      // Close any open SLA pause interval
+      await applySlaPauseTransition(db, row.id, TICKET_STATUS.RESOLVED, { metadata, at: now });
+
       const updateData: Partial<TicketInsert> = {
         status_id: resolvedStatusId,
         updated_at: now,
@@ -100,9 +125,10 @@ export async function POST(request: NextRequest) {
         .update(tickets)
         .set(updateData)
         .where(eq(tickets.id, row.id));
+      updated.push(row.id);
     }
 
-    return NextResponse.json({ success: true, updated: rows.map((r) => r.id) });
+    return NextResponse.json({ success: skipped.length === 0, updated, skipped });
   } catch (error) {
     console.error("Error bulk closing tickets:", error);
     return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getCachedAdminUser } from "@/lib/cache/cached-queries";
+import { getAttachmentStorage } from "@/lib/integration/storage";
+import { SPREADSHEET_MIME_TYPES } from "@/lib/ticket/formatting/spreadsheet";
+import { TICKET_EXPORT_STATUS, getTicketExportForUser, isTicketExportFormat } from "@/lib/ticket/data/ticketExport";
+
+/**
+ * ============================================
+ * /api/tickets/export/[exportId]/download
+ * ============================================
+ *
+ * GET → Download a Completed Export
+ *   - Auth: Required (the user who requested the export)
+ *   - Redirects to a short-lived signed URL, or streams the file (local storage)
+ *   - Returns 409 while the export is still running
+ * ============================================
+ */
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ exportId: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { exportId } = await params;
+    const id = parseInt(exportId, 10);
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Invalid export ID" }, { status: 400 });
+    }
+
+    const { dbUser } = await getCachedAdminUser(userId);
+    const job = dbUser ? await getTicketExportForUser(id, dbUser.id) : null;
+    if (!job) {
+      return NextResponse.json({ error: "Export not found" }, { status: 404 });
+    }
+    if (job.status !== TICKET_EXPORT_STATUS.COMPLETED || !job.storage_key) {
+      return NextResponse.json({ error: "Export is not ready", status: job.status }, { status: 409 });
+    }
+
+    const fileName = job.file_name || `tickets-${job.id}.${job.format}`;
+    const mimeType = isTicketExportFormat(job.format) ? SPREADSHEET_MIME_TYPES[job.format] : "application/octet-stream";
+    const download = await getAttachmentStorage(job.storage_provider).getDownload(job.storage_key, {
+      fileName,
+      mimeType,
+    });
+
+    if (download.kind === "redirect") {
+      const response = NextResponse.redirect(download.url, 302);
+      response.headers.set("Cache-Control", "private, no-store");
+      return response;
+    }
+
+    return new NextResponse(new Uint8Array(download.body), {
+      headers: {
+        "Content-Type": mimeType,
+        "Content-Length": String(download.body.length),
+        "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+        "X-Content-Type-Options": "nosniff",
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Error downloading ticket export:", error);
+    return NextResponse.json({ error: "Failed to download export" }, { status: 500 });
+  }
+}
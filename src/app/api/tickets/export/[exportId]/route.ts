@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getCachedAdminUser } from "@/lib/cache/cached-queries";
+import { getTicketExportForUser, serializeTicketExport } from "@/lib/ticket/data/ticketExport";
+
+/**
+ * ============================================
+ * /api/tickets/export/[exportId]
+ * ============================================
+ *
+ * GET → Export Job Status
+ *   - Auth: Required (the user who requested the export)
+ *   - Returns: 200 OK with { export } (status, row_count, download_url once completed)
+ * ============================================
+ */
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ exportId: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { exportId } = await params;
+    const id = parseInt(exportId, 10);
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Invalid export ID" }, { status: 400 });
+    }
+
+    const { dbUser } = await getCachedAdminUser(userId);
+    const job = dbUser ? await getTicketExportForUser(id, dbUser.id) : null;
+    if (!job) {
+      return NextResponse.json({ error: "Export not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ export: serializeTicketExport(job) });
+  } catch (error) {
+    console.error("Error fetching ticket export:", error);
+    return NextResponse.json({ error: "Failed to fetch export" }, { status: 500 });
+  }
+}
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { ticketExportConfig } from "@/conf/config";
+import { getCachedAdminUser } from "@/lib/cache/cached-queries";
+import { parseAdminTicketFilters } from "@/lib/ticket/filters/adminTicketFilters";
+import { SPREADSHEET_MIME_TYPES } from "@/lib/ticket/formatting/spreadsheet";
+import {
+  buildTicketExportFile,
+  countTicketsForExport,
+  getTicketExportConditions,
+  isTicketExportFormat,
+  requestTicketExport,
+  serializeTicketExport,
+  streamTicketCsv,
+  ticketExportFileName,
+} from "@/lib/ticket/data/ticketExport";
+
+/**
+ * ============================================
+ * /api/tickets/export
+ * ============================================
+ *
+ * GET → Download Tickets as CSV / XLSX (Staff only)
+ *   - Auth: Required (Admin, Senior Admin, Super Admin, Committee)
+ *   - Query Parameters: format ("csv" | "xlsx", default "csv") plus the
+ *     AdminTicketFilters parameters (search, category, status, from, to, tat, ...)
+ *   - Only the tickets the caller's dashboard shows are exported
+ *   - CSV is streamed; returns 413 when more than ticketExportConfig.syncRowLimit
+ *     tickets match (use POST for those)
+ *
+ * POST → Request an Export
+ *   - Body: { format, filters } (filters: AdminTicketFilters parameters)
+ *   - Returns: { mode: "download", url } when the export is small enough to
+ *     download directly, otherwise 202 with { mode: "background", export } -
+ *     poll GET /api/tickets/export/[exportId] for the download link
+ * ============================================
+ */
+
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const format = searchParams.get("format") || "csv";
+    if (!isTicketExportFormat(format)) {
+      return NextResponse.json({ error: "format must be csv or xlsx" }, { status: 400 });
+    }
+
+    const conditions = await getTicketExportConditions(
+      userId,
+      parseAdminTicketFilters(Object.fromEntries(searchParams.entries()))
+    );
+    if (!conditions) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const total = await countTicketsForExport(conditions);
+    if (total > ticketExportConfig.syncRowLimit) {
+      return NextResponse.json(
+        {
+          error: `${total} tickets match; exports above ${ticketExportConfig.syncRowLimit} rows run in the background`,
+          total,
+        },
+        { status: 413 }
+      );
+    }
+
+    const fileName = ticketExportFileName(format);
+    const headers = {
+      "Content-Type": SPREADSHEET_MIME_TYPES[format],
+      "Content-Disposition": `attachment; filename="${fileName}"`,
+      "Cache-Control": "private, no-store",
+    };
+
+    if (format === "csv") {
+      return new NextResponse(await streamTicketCsv(conditions, ticketExportConfig.syncRowLimit), { headers });
+    }
+
+    const { body } = await buildTicketExportFile(conditions, format, ticketExportConfig.syncRowLimit);
+    return new NextResponse(new Uint8Array(body), {
+      headers: { ...headers, "Content-Length": String(body.length) },
+    });
+  } catch (error) {
+    console.error("Error exporting tickets:", error);
+    return NextResponse.json({ error: "Failed to export tickets" }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const format = body?.format || "csv";
+    if (!isTicketExportFormat(format)) {
+      return NextResponse.json({ error: "format must be csv or xlsx" }, { status: 400 });
+    }
+    const rawFilters =
+      body?.filters && typeof body.filters === "object" && !Array.isArray(body.filters) ? body.filters : {};
+    const filters = parseAdminTicketFilters(rawFilters as Record<string, string | string[] | undefined>);
+
+    const conditions = await getTicketExportConditions(userId, filters);
+    if (!conditions) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const total = await countTicketsForExport(conditions);
+    if (total <= ticketExportConfig.syncRowLimit) {
+      const params = new URLSearchParams({ format });
+      for (const [key, value] of Object.entries(filters)) {
+        if (value) params.set(key, String(value));
+      }
+      return NextResponse.json({ mode: "download", total, url: `/api/tickets/export?${params.toString()}` });
+    }
+
+    const { dbUser } = await getCachedAdminUser(userId);
+    if (!dbUser) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const job = await requestTicketExport({ requestedBy: dbUser.id, format, filters });
+    return NextResponse.json(
+      { mode: "background", total: Math.min(total, ticketExportConfig.maxRows), export: serializeTicketExport(job) },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error("Error requesting ticket export:", error);
+    return NextResponse.json({ error: "Failed to request export" }, { status: 500 });
+  }
+}
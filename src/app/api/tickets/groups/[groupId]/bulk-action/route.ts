@@ -4,8 +4,12 @@ import { db, tickets, ticket_groups, outbox, ticket_statuses } from "@/db";
 import { eq } from "drizzle-orm";
 import { getUserRoleFromDB } from "@/lib/auth/db-roles";
 import { getOrCreateUser } from "@/lib/auth/user-sync";
-import { getCanonicalStatus, TICKET_STATUS } from "@/conf/constants";
+import { COMMENT_SOURCE, getCanonicalStatus, TICKET_STATUS } from "@/conf/constants";
+import { addTicketComment } from "@/lib/ticket/data/ticketComments";
 import { getStatusIdByValue } from "@/lib/status/getTicketStatuses";
+import type { TicketMetadata } from "@/db/inferred-types";
+import { applySlaPauseTransition } from "@/lib/sla/pauses";
+import { validateStatusTransition } from "@/lib/status/transitions";
 
 // POST - Perform bulk actions on grouped tickets (comment, close, etc.)
 export async function POST(
@@ -20,7 +24,7 @@ export async function POST(
     }
 
     // Ensure user exists in database
-    await getOrCreateUser(userId);
+    const currentUser = await getOrCreateUser(userId);
 
     // Get role from database (single source of truth)
     const role = await getUserRoleFromDB(userId);
@@ -103,51 +107,34 @@ export async function POST(
             continue;
           }
 
-          // Parse existing metadata (not details)
-          type TicketMetadata = {
-            [key: string]: unknown;
-          };
-          let ticketMetadata: TicketMetadata = {};
-          if (ticket.metadata) {
-            try {
-              ticketMetadata = typeof ticket.metadata === 'string' ? JSON.parse(ticket.metadata) : ticket.metadata;
-            } catch (e) {
-              console.error("Error parsing ticket metadata:", e);
-            }
-          }
-
-          // Add comment to metadata
-          if (!Array.isArray(ticketMetadata.comments)) {
-            ticketMetadata.comments = [];
-          }
-          (ticketMetadata.comments as Array<Record<string, unknown>>).push({
-            text: comment,
-            author: "Admin",
-            createdAt: new Date().toISOString(),
-            source: "admin_dashboard",
-            type: "student_visible",
-            isInternal: false,
-          });
-
-          // Update ticket
-          await db
-            .update(tickets)
-            .set({
-              metadata: ticketMetadata,
-              updated_at: new Date(),
-            })
-            .where(eq(tickets.id, ticket.id));
-
-          // Insert into outbox for notification worker
-          await db.insert(outbox).values({
-            event_type: "ticket.comment_added",
-            payload: {
-              ticketId: ticket.id,
-              comment: comment,
-              authorName: "Admin",
-              isInternal: false,
-            },
-            created_at: new Date(),
+          await db.transaction(async (tx) => {
+            const commentRow = await addTicketComment(
+              {
+                ticketId: ticket.id,
+                body: trimmedComment,
+                authorId: currentUser?.id ?? null,
+                authorName: currentUser?.full_name || "Admin",
+                authorRole: role,
+                source: COMMENT_SOURCE.WEB,
+              },
+              tx
+            );
+
+            await tx
+              .update(tickets)
+              .set({ updated_at: new Date() })
+              .where(eq(tickets.id, ticket.id));
+
+            // Insert into outbox for notification worker
+            await tx.insert(outbox).values({
+              event_type: "ticket.comment.added",
+              payload: {
+                ticket_id: ticket.id,
+                comment_id: commentRow.id,
+                added_by_clerk_id: userId,
+              },
+              created_at: new Date(),
+            });
           });
 
           results.push({ ticketId: ticket.id, success: true });
@@ -157,8 +144,9 @@ export async function POST(
         }
       }
     } else if (action === "close") {
-      // Close all tickets
+      // Close all tickets; an optional closing comment is added to each ticket
       const newStatusValue = getCanonicalStatus(status || TICKET_STATUS.RESOLVED) || TICKET_STATUS.RESOLVED;
+      const closeComment = typeof comment === "string" && comment.trim() ? comment.trim() : null;
 
       for (const ticket of groupTickets) {
         try {
@@ -176,6 +164,19 @@ export async function POST(
 
           const oldStatusValue = ticket.status_value || "";
 
+          // Validate against the status workflow (per ticket - tickets may be in different statuses)
+          const transitionCheck = await validateStatusTransition({
+            fromStatus: ticket.status_value,
+            toStatus: newStatusValue,
+            role,
+            hasComment: !!closeComment,
+            hasTAT: !!(ticket.metadata as TicketMetadata | null)?.tatDate,
+          });
+          if (!transitionCheck.ok) {
+            results.push({ ticketId: ticket.id, success: false, error: transitionCheck.error });
+            continue;
+          }
+
           // Get status ID for new status
           const newStatusId = await getStatusIdByValue(newStatusValue);
           if (!newStatusId) {
@@ -193,9 +194,24 @@ export async function POST(
             metadata.resolved_at = new Date().toISOString();
           }
 
+          // SLA pause bookkeeping (closes any open pause interval)
+          const slaUpdates = await applySlaPauseTransition(db, ticket.id, newStatusValue, { metadata: metadata as TicketMetadata });
+
+          if (closeComment) {
+            await addTicketComment({
+              ticketId: ticket.id,
+              body: closeComment,
+              authorId: currentUser?.id ?? null,
+              authorName: currentUser?.full_name || "Admin",
+              authorRole: role,
+              source: COMMENT_SOURCE.WEB,
+            });
+          }
+
           await db
             .update(tickets)
             .set({
+              ...slaUpdates,
               status_id: newStatusId,
               metadata: metadata as unknown,
               updated_at: new Date(),
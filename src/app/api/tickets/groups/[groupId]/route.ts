@@ -5,7 +5,7 @@ import { eq, inArray, and } from "drizzle-orm";
 import { getUserRoleFromDB } from "@/lib/auth/db-roles";
 import { getOrCreateUser } from "@/lib/auth/user-sync";
 import type { TicketMetadata } from "@/db/inferred-types";
-import { calculateTATDate } from "@/utils";
+import { calculateTicketTATDate } from "@/lib/sla/calendars";
 import { TICKET_STATUS } from "@/conf/constants";
 import { getStatusIdByValue } from "@/lib/status/getTicketStatuses";
 
@@ -476,7 +476,6 @@ export async function PATCH(
     // Set TAT for all tickets in the group
     if (groupTAT && typeof groupTAT === 'string' && groupTAT.trim()) {
       const tatText = groupTAT.trim();
-      const tatDate = calculateTATDate(tatText);
       const dbUser = await getOrCreateUser(userId);
       if (!dbUser) {
         return NextResponse.json({ error: "User not found" }, { status: 404 });
@@ -490,6 +489,8 @@ export async function PATCH(
           status_id: tickets.status_id,
           status_value: ticket_statuses.value,
           metadata: tickets.metadata,
+          scope_id: tickets.scope_id,
+          category_id: tickets.category_id,
         })
         .from(tickets)
         .leftJoin(ticket_statuses, eq(tickets.status_id, ticket_statuses.id))
@@ -514,6 +515,9 @@ export async function PATCH(
         const previousTAT = metadata.tat || "";
         const previousTATDate = metadata.tatDate || "";
 
+        // Grouped tickets may span categories, so each due date uses that ticket's business calendar
+        const tatDate = await calculateTicketTATDate(ticket, tatText);
+
         // Set new TAT
         metadata.tat = tatText;
         metadata.tatDate = tatDate.toISOString();
@@ -1,7 +1,7 @@
 import { NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { db } from "@/db";
-import { tickets, categories, ticket_statuses } from "@/db/schema";
+import { tickets, categories, ticket_statuses, ticket_sla_pauses } from "@/db/schema";
 import { eq, inArray, sql, gte, and, ne } from "drizzle-orm";
 import { getUserRoleFromDB } from "@/lib/auth/db-roles";
 import { TICKET_STATUS } from "@/conf/constants";
@@ -18,7 +18,7 @@ import { getStatusIdByValue } from "@/lib/status/getTicketStatuses";
  *     • Total ticket counts
  *     • Counts by status
  *     • Counts by category
- *     • SLA metrics (avg resolution time)
+ *     • SLA metrics (avg gross / net-of-pauses resolution time)
  *     • Overdue ticket count
  *     • Reopened ticket count
  *     • Today's stats (created, resolved)
@@ -98,7 +98,16 @@ export async function GET() {
   // SLA METRICS
   // -------------------------------
   // Average resolution time (in hours) - extract from metadata
-  // Note: This is a simplified calculation. For production, you may want to query metadata JSONB
+  // Net time excludes SLA pauses (e.g. awaiting the student) that fell before resolution
+  const pausedSecondsBeforeResolution = sql`(
+    SELECT COALESCE(SUM(EXTRACT(EPOCH FROM (
+      LEAST(COALESCE(p.resumed_at, (tickets.metadata->>'resolved_at')::timestamp), (tickets.metadata->>'resolved_at')::timestamp)
+      - GREATEST(p.paused_at, tickets.created_at)
+    ))), 0)
+    FROM ${ticket_sla_pauses} p
+    WHERE p.ticket_id = tickets.id
+      AND p.paused_at < (tickets.metadata->>'resolved_at')::timestamp
+  )`;
   const avgResolutionRows = await db
     .select({
       avgResolutionHours: sql<number>`
@@ -110,10 +119,20 @@ export async function GET() {
             END
           )
         `,
+      avgNetResolutionHours: sql<number>`
+          AVG(
+            CASE 
+              WHEN metadata->>'resolved_at' IS NOT NULL AND created_at IS NOT NULL
+              THEN GREATEST(EXTRACT(EPOCH FROM ((metadata->>'resolved_at')::timestamp - created_at)) - ${pausedSecondsBeforeResolution}, 0) / 3600
+              ELSE NULL
+            END
+          )
+        `,
     })
     .from(tickets)
     .where(sql`metadata->>'resolved_at' IS NOT NULL`);
   const avgResolutionHours = avgResolutionRows[0]?.avgResolutionHours ?? 0;
+  const avgNetResolutionHours = avgResolutionRows[0]?.avgNetResolutionHours ?? 0;
 
   // Overdue tickets: updated_at > 48h OR SLA custom logic
   const resolvedStatusId = await getStatusIdByValue(TICKET_STATUS.RESOLVED);
@@ -197,6 +216,7 @@ export async function GET() {
       categories: categoryRows,
       sla: {
         avgResolutionHours: avgResolutionHours || 0,
+        avgNetResolutionHours: avgNetResolutionHours || 0,
         overdue,
         reopened,
       },
@@ -4,6 +4,7 @@ import { db, tickets, users, categories } from "@/db";
 import { desc, eq } from "drizzle-orm";
 import { getUserRoleFromDB } from "@/lib/auth/db-roles";
 import { createTicket } from "@/lib/ticket/actions/createTicket";
+import { TicketFieldValidationError } from "@/lib/ticket/validation/ticketFields";
 
 // Force Node.js runtime for Slack/email integrations
 export const runtime = 'nodejs';
@@ -16,6 +17,8 @@ export const runtime = 'nodejs';
  * POST → Create Ticket
  *   - Auth: Required (Student, Admin, Committee)
  *   - Creates new support ticket
+ *   - Dynamic field values (details) are validated against the subcategory's
+ *     field rules; 400 with { error, fieldErrors } (slug → message) when invalid
  *   - Returns: 201 Created with ticket object
  * 
  * GET → List Tickets (role-based)
@@ -78,6 +81,12 @@ export async function POST(request: NextRequest) {
         payload: parsed.data,
       });
     } catch (createError) {
+      if (createError instanceof TicketFieldValidationError) {
+        return NextResponse.json(
+          { error: createError.message, fieldErrors: createError.fieldErrors },
+          { status: 400 }
+        );
+      }
       console.error("[Ticket API] createTicket failed:", createError);
       const errorMessage = createError instanceof Error 
         ? createError.message 
@@ -117,13 +126,17 @@ export async function POST(request: NextRequest) {
         console.log(`[Ticket API] ✅ Wait complete, proceeding with outbox query...`);
         
         console.log(`[Ticket API] 📦 Importing dependencies...`);
-        let processTicketCreated, markOutboxSuccess, markOutboxFailure, dbInstance, outboxTable, eq, desc, and, isNull, sql;
+        let processTicketCreated, enqueueWebhookDeliveries, claimOutboxRowById, markOutboxSuccess, markOutboxFailure, dbInstance, outboxTable, eq, desc, and, isNull, sql;
         try {
           const processTicketCreatedModule = await import("@/workers/handlers/processTicketCreatedWorker");
           processTicketCreated = processTicketCreatedModule.processTicketCreated;
           console.log(`[Ticket API] ✅ processTicketCreated imported`);
+
+          const webhooksModule = await import("@/lib/notification/webhooks");
+          enqueueWebhookDeliveries = webhooksModule.enqueueWebhookDeliveries;
           
           const utilsModule = await import("@/workers/utils");
+          claimOutboxRowById = utilsModule.claimOutboxRowById;
           markOutboxSuccess = utilsModule.markOutboxSuccess;
           markOutboxFailure = utilsModule.markOutboxFailure;
           console.log(`[Ticket API] ✅ worker utils imported`);
@@ -307,11 +320,20 @@ export async function POST(request: NextRequest) {
             console.error(`[Ticket API] ❌ Invalid payload for ticket #${ticket.id}, skipping notification processing`);
             return;
           }
+
+          // Lease the row so a concurrent cron run can't deliver it too
+          const claimed = await claimOutboxRowById(eventToProcess.id);
+          if (!claimed) {
+            console.log(`[Ticket API] ⏭️ Outbox event ${eventToProcess.id} already claimed elsewhere for ticket #${ticket.id}`);
+            return;
+          }
           
           // Process immediately (non-blocking)
           // Use void to explicitly mark as fire-and-forget, but ensure promise chain continues
           console.log(`[Ticket API] 🚀 Starting notification processing for ticket #${payload.ticket_id}`);
-          void processTicketCreated(eventToProcess.id, payload)
+          // Webhook fan-out first, as the cron dispatcher does (idempotent if the row is retried)
+          void enqueueWebhookDeliveries(claimed)
+            .then(() => processTicketCreated(eventToProcess.id, payload))
             .then(() => {
               console.log(`[Ticket API] ✅ Notification processing completed for ticket #${payload.ticket_id}`);
               return markOutboxSuccess(eventToProcess.id);
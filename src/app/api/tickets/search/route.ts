@@ -2,17 +2,27 @@ import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { db } from "@/db";
 import { tickets, ticket_statuses } from "@/db/schema";
-import { and, eq, gte, lte, like, or, sql } from "drizzle-orm";
+import { and, desc, eq, gte, lte, sql } from "drizzle-orm";
+import { getTicketScope } from "@/lib/ticket/data/ticketScope";
+import {
+  ticketCommentSearchHeadline,
+  ticketSearchCondition,
+  ticketSearchHeadline,
+  ticketSearchQuery,
+  ticketSearchRank,
+} from "@/lib/ticket/data/ticketSearch";
 
 /**
  * ============================================
  * /api/tickets/search
  * ============================================
  * 
- * GET → Search/Filter Tickets (Admin only)
- *   - Auth: Required (Admin+)
+ * GET → Search/Filter Tickets (Staff only)
+ *   - Auth: Required (Admin, Senior Admin, Super Admin, Committee)
+ *   - Results are limited to the tickets the caller's dashboard shows
  *   - Query Parameters:
- *     • query: Text search in description
+ *     • query: Full-text search (web search syntax: "exact phrase", or, -exclude)
+ *       over title, description, location, dynamic field values and comments
  *     • status: Filter by status value (e.g., "OPEN")
  *     • category: Filter by category ID
  *     • assignedTo: Filter by user UUID
@@ -21,7 +31,9 @@ import { and, eq, gte, lte, like, or, sql } from "drizzle-orm";
  *     • dateTo: ISO date
  *     • page: Page number
  *     • limit: Results per page
- *   - Returns: 200 OK with paginated search results
+ *   - Returns: 200 OK with paginated search results; with a query, results are
+ *     ranked by relevance and carry `rank`, `headline` and `commentHeadline`
+ *     snippets (<mark>…</mark> around hits, HTML-escaped)
  * ============================================
  */
 
@@ -35,38 +47,44 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
+    const scope = await getTicketScope(userId);
+    if (scope.kind === "none") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
     // -----------------------
     // QUERY PARAMS
     // -----------------------
     const url = new URL(request.url);
-    const query = url.searchParams.get("query") ?? "";
+    const query = (url.searchParams.get("query") ?? "").trim();
     const status = url.searchParams.get("status") ?? "";
-    const categoryId = url.searchParams.get("categoryId") ?? "";
+    const category = url.searchParams.get("category") ?? "";
     const assignedTo = url.searchParams.get("assignedTo") ?? "";
     const createdBy = url.searchParams.get("createdBy") ?? "";
     const dateFrom = url.searchParams.get("dateFrom") ?? "";
     const dateTo = url.searchParams.get("dateTo") ?? "";
 
-    const page = Number(url.searchParams.get("page") ?? 1);
-    const limit = Number(url.searchParams.get("limit") ?? 20);
+    const page = Math.max(1, Number(url.searchParams.get("page")) || 1);
+    const limit = Math.min(100, Math.max(1, Number(url.searchParams.get("limit")) || 20));
     const offset = (page - 1) * limit;
 
+    const categoryId = category ? Number(category) : null;
+    if (categoryId !== null && !Number.isInteger(categoryId)) {
+      return NextResponse.json({ error: "Invalid category ID" }, { status: 400 });
+    }
+
     // -----------------------
     // BUILD FILTERS
     // -----------------------
 
     const filters = [];
 
-    // Free-text search (indexed in Postgres)
-    if (query) {
-      filters.push(
-        or(
-          like(tickets.description, `%${query}%`),
-          like(sql`CAST(${tickets.metadata} AS TEXT)`, `%${query}%`),
-          like(tickets.location, `%${query}%`)
-        )
-      );
-    }
+    // Only tickets the caller can see on their dashboard
+    if (scope.kind === "scoped") filters.push(scope.condition);
+
+    // Free-text search (GIN-indexed tsvector columns)
+    const tsQuery = query ? ticketSearchQuery(query) : null;
+    if (tsQuery) filters.push(ticketSearchCondition(tsQuery));
 
     if (status) {
       // Join ticket_statuses for status filtering
@@ -77,7 +95,7 @@ export async function GET(request: NextRequest) {
       )`);
     }
 
-    if (categoryId) filters.push(eq(tickets.category_id, Number(categoryId)));
+    if (categoryId !== null) filters.push(eq(tickets.category_id, categoryId));
 
     if (assignedTo) filters.push(eq(tickets.assigned_to, assignedTo));
 
@@ -104,20 +122,29 @@ export async function GET(request: NextRequest) {
         metadata: tickets.metadata,
         assignedTo: tickets.assigned_to,
         createdBy: tickets.created_by,
+        ...(tsQuery
+          ? {
+              rank: ticketSearchRank(tsQuery),
+              headline: ticketSearchHeadline(tsQuery),
+              commentHeadline: ticketCommentSearchHeadline(tsQuery),
+            }
+          : {}),
       })
       .from(tickets)
       .leftJoin(ticket_statuses, eq(ticket_statuses.id, tickets.status_id))
       .where(whereClause ?? undefined)
       .limit(limit)
       .offset(offset)
-      .orderBy(tickets.created_at);
+      .orderBy(
+        ...(tsQuery ? [desc(ticketSearchRank(tsQuery)), desc(tickets.created_at)] : [tickets.created_at])
+      );
 
     // -----------------------
     // COUNT FOR PAGINATION
     // -----------------------
     const countRows = await db
       .select({
-        count: sql<number>`COUNT(*)`,
+        count: sql<number>`COUNT(*)::int`,
       })
       .from(tickets)
       .leftJoin(ticket_statuses, eq(ticket_statuses.id, tickets.status_id))
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { db, ticket_followers } from "@/db";
+import { and, eq, inArray } from "drizzle-orm";
+import { getOrCreateUser } from "@/lib/auth/user-sync";
+import { SimilarTicketsQuerySchema } from "@/schemas/business/ticket";
+import { findSimilarTickets, formSimilarityText, similarTicketFollowToken } from "@/lib/ticket/data/similarTickets";
+import { getTicketScope } from "@/lib/ticket/data/ticketScope";
+
+/**
+ * ============================================
+ * /api/tickets/similar
+ * ============================================
+ *
+ * POST → Similar Open Tickets (duplicate check before submission)
+ *   - Auth: Required (any signed-in user filing a ticket)
+ *   - Body: { categoryId, subcategoryId?, location?, description?, details? }
+ *   - Staff: tickets within their ticket scope, with title, excerpt and location
+ *   - Students: only lookups anchored on a subcategory or location; each ticket
+ *     carries id, status, category and follower count (no free text) plus a
+ *     `followToken` that lets them follow it
+ *   - Returns: 200 OK with { tickets }, each with `matchedOn`, `isOwn` and `isFollowing`
+ * ============================================
+ */
+
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const parsed = SimilarTicketsQuerySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const dbUser = await getOrCreateUser(userId);
+    if (!dbUser) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const scope = await getTicketScope(userId);
+    const isStaff = scope.kind !== "none";
+
+    const { categoryId, subcategoryId, location, description, details } = parsed.data;
+    const similar = await findSimilarTickets({
+      categoryId,
+      subcategoryId,
+      location,
+      text: formSimilarityText(description, details),
+      condition: scope.kind === "scoped" ? scope.condition : undefined,
+      requireSubcategoryOrLocation: !isStaff,
+    });
+
+    const ids = similar.map((ticket) => ticket.id);
+    const following = ids.length > 0
+      ? await db
+          .select({ ticketId: ticket_followers.ticket_id })
+          .from(ticket_followers)
+          .where(and(eq(ticket_followers.user_id, dbUser.id), inArray(ticket_followers.ticket_id, ids)))
+      : [];
+    const followingIds = new Set(following.map((row) => row.ticketId));
+
+    return NextResponse.json({
+      tickets: similar.map((ticket) => {
+        const isOwn = ticket.createdBy === dbUser.id;
+        const summary = {
+          id: ticket.id,
+          categoryName: ticket.categoryName,
+          status: ticket.status,
+          followerCount: ticket.followerCount,
+          matchedOn: ticket.matchedOn,
+          isOwn,
+          isFollowing: followingIds.has(ticket.id),
+        };
+
+        return isStaff
+          ? {
+              ...summary,
+              title: ticket.title,
+              description: ticket.description,
+              location: ticket.location,
+              subcategoryName: ticket.subcategoryName,
+              createdAt: ticket.createdAt,
+            }
+          : { ...summary, followToken: isOwn ? null : similarTicketFollowToken(ticket.id, dbUser.id) };
+      }),
+    });
+  } catch (error) {
+    console.error("Error finding similar tickets:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -3,6 +3,8 @@ import { auth } from "@clerk/nextjs/server";
 import { getUserRoleFromDB, getUserRoles, setUserRole, removeUserRole } from "@/lib/auth/db-roles";
 import { getOrCreateUser } from "@/lib/auth/user-sync";
 import type { UserRole } from "@/types/auth";
+import { recordAudit } from "@/lib/audit/auditLog";
+import { AUDIT_ENTITY } from "@/conf/constants";
 
 /**
  * GET - Get user's role from database
@@ -78,6 +80,7 @@ export async function POST(
 
     // Ensure target user exists in database
     await getOrCreateUser(clerkId);
+    const rolesBefore = await getUserRoles(clerkId);
 
     // Set the role
     await setUserRole(clerkId, role as UserRole, {
@@ -105,6 +108,15 @@ export async function POST(
       }
     }
 
+    await recordAudit(request, {
+      actorClerkId: userId,
+      action: "user_role.set",
+      entityType: AUDIT_ENTITY.USER_ROLE,
+      entityId: clerkId,
+      before: { roles: rolesBefore },
+      after: { roles: await getUserRoles(clerkId), domain: domain || null, scope: scope || null },
+    });
+
     return NextResponse.json({ success: true, message: `Role ${role} assigned successfully` });
   } catch (error) {
     console.error("Error setting user role:", error);
@@ -142,6 +154,16 @@ export async function DELETE(
     const role = searchParams.get("role") as UserRole | null;
     const domain = searchParams.get("domain");
     const scope = searchParams.get("scope");
+    const rolesBefore = await getUserRoles(clerkId);
+    const auditRemoval = async () =>
+      recordAudit(request, {
+        actorClerkId: userId,
+        action: "user_role.remove",
+        entityType: AUDIT_ENTITY.USER_ROLE,
+        entityId: clerkId,
+        before: { roles: rolesBefore },
+        after: { roles: await getUserRoles(clerkId) },
+      });
 
     // If no role specified, remove all non-student roles (keep student as default)
     if (!role) {
@@ -154,6 +176,7 @@ export async function DELETE(
           });
         }
       }
+      await auditRemoval();
       return NextResponse.json({ success: true, message: "All non-student roles removed" });
     }
 
@@ -162,6 +185,7 @@ export async function DELETE(
       domain: domain || null,
       scope: scope || null,
     });
+    await auditRemoval();
 
     return NextResponse.json({ success: true, message: `Role ${role} removed successfully` });
   } catch (error) {
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from "next/server";
+import { timingSafeEqual } from "crypto";
+import { emailConfig, env } from "@/conf/config";
+import { apiErrors } from "@/lib/api-error";
+import { logger } from "@/lib/logger";
+import { parseInboundJson, parseRawEmail, type InboundEmail } from "@/lib/integration/inbound-email";
+import { addInboundEmailReply } from "@/lib/ticket/actions/inboundEmailReply";
+
+// Force Node.js runtime (Buffer/TextDecoder for MIME decoding, database transaction)
+export const runtime = "nodejs";
+
+/**
+ * Inbound Email Webhook
+ * Turns student replies to ticket emails into student-visible comments
+ *
+ * The local SMTP relay POSTs each received message here as either:
+ * - raw MIME (Content-Type: message/rfc822 or text/plain), or
+ * - parsed JSON ({ from, subject, text, html, messageId, inReplyTo, references, headers } or { raw })
+ *
+ * The ticket is matched via In-Reply-To / References (see findTicketForEmailReply),
+ * and the sender must own the ticket. Quoted history and signatures are stripped.
+ *
+ * Rejected messages (unmatched, wrong sender, empty) return 200 with accepted=false so the relay
+ * does not retry them; 5xx responses are safe to retry (delivery is deduped on Message-ID).
+ *
+ * Security: "Authorization: Bearer <INBOUND_EMAIL_SECRET>" (mandatory in production)
+ */
+
+function verifyInboundEmailAuth(request: NextRequest): NextResponse | null {
+  const secret = emailConfig.inboundSecret;
+
+  if (!secret) {
+    if (env.isDevelopment) {
+      logger.warn("[Inbound Email] INBOUND_EMAIL_SECRET not set - allowing in development mode only");
+      return null;
+    }
+    logger.error("[Inbound Email] INBOUND_EMAIL_SECRET not set - rejecting inbound email");
+    return apiErrors.unauthorized("Inbound email authentication not configured");
+  }
+
+  const provided = Buffer.from(request.headers.get("authorization") || "");
+  const expected = Buffer.from(`Bearer ${secret}`);
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    logger.warn("[Inbound Email] Unauthorized access attempt", {
+      ip: request.headers.get("x-forwarded-for") || request.headers.get("x-real-ip") || "unknown",
+    });
+    return apiErrors.unauthorized("Invalid or missing inbound email authentication");
+  }
+
+  return null;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const authError = verifyInboundEmailAuth(request);
+    if (authError) {
+      return authError;
+    }
+
+    const contentLength = parseInt(request.headers.get("content-length") || "0", 10);
+    if (contentLength > emailConfig.inboundMaxBytes) {
+      return NextResponse.json({ error: "Message too large" }, { status: 413 });
+    }
+
+    const rawBody = await request.text();
+    if (rawBody.length > emailConfig.inboundMaxBytes) {
+      return NextResponse.json({ error: "Message too large" }, { status: 413 });
+    }
+    if (!rawBody.trim()) {
+      return apiErrors.badRequest("Empty request body");
+    }
+
+    let email: InboundEmail;
+    const contentType = (request.headers.get("content-type") || "").toLowerCase();
+    if (contentType.includes("application/json")) {
+      let payload: unknown;
+      try {
+        payload = JSON.parse(rawBody);
+      } catch {
+        return apiErrors.badRequest("Invalid JSON body");
+      }
+      if (!payload || typeof payload !== "object" || Array.isArray(payload)) {
+        return apiErrors.badRequest("JSON body must be an object");
+      }
+      email = parseInboundJson(payload as Record<string, unknown>);
+    } else {
+      email = parseRawEmail(rawBody);
+    }
+
+    if (!email.fromEmail) {
+      return apiErrors.badRequest("Missing sender address");
+    }
+
+    const result = await addInboundEmailReply(email);
+
+    switch (result.status) {
+      case "created":
+        logger.info(`[Inbound Email] Reply from ${email.fromEmail} added as comment ${result.commentId} on ticket #${result.ticketId}`);
+        return NextResponse.json({ accepted: true, ticketId: result.ticketId, commentId: result.commentId }, { status: 201 });
+      case "duplicate":
+        logger.info(`[Inbound Email] Duplicate delivery of ${email.messageId} (comment ${result.commentId})`);
+        return NextResponse.json({ accepted: true, duplicate: true, ticketId: result.ticketId, commentId: result.commentId });
+      case "unmatched":
+        logger.warn("[Inbound Email] Could not match reply to a ticket", {
+          from: email.fromEmail,
+          messageId: email.messageId,
+          inReplyTo: email.inReplyTo,
+        });
+        return NextResponse.json({ accepted: false, reason: "No ticket matches this email thread" });
+      case "forbidden":
+        logger.warn(`[Inbound Email] Sender ${email.fromEmail} does not own ticket #${result.ticketId}`);
+        return NextResponse.json({ accepted: false, reason: "Sender does not own this ticket" });
+      case "empty":
+        logger.info(`[Inbound Email] Reply to ticket #${result.ticketId} had no text after stripping quotes`);
+        return NextResponse.json({ accepted: false, reason: "Reply is empty" });
+    }
+  } catch (error) {
+    logger.error("[Inbound Email] Failed to process inbound email", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { readVerifiedTwilioForm } from "@/lib/integration/twilio-signature";
+import { handleInboundWhatsAppMessage } from "@/lib/ticket/actions/whatsappInbound";
+
+// Force Node.js runtime (crypto for signature verification, database transaction)
+export const runtime = "nodejs";
+
+/**
+ * Inbound WhatsApp Webhook
+ * Twilio POSTs each message students send to our WhatsApp number here (form-encoded)
+ *
+ * The sender is matched to an account via users.phone; the message is a command
+ * (see handleInboundWhatsAppMessage): "#<ticket> <message>" adds a comment,
+ * "STATUS <ticket>" returns the status, "RATE <ticket> <1-5>" rates, START/STOP toggles opt-in.
+ *
+ * The reply goes back as TwiML, so no outbound API call is needed.
+ * 5xx responses are safe for Twilio to retry (comments are deduped on MessageSid).
+ *
+ * Security: X-Twilio-Signature (HMAC-SHA1 with TWILIO_AUTH_TOKEN; set
+ * TWILIO_WHATSAPP_WEBHOOK_URL if a proxy rewrites the public URL)
+ */
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function twimlResponse(message?: string): NextResponse {
+  const body = message
+    ? `<?xml version="1.0" encoding="UTF-8"?><Response><Message>${escapeXml(message)}</Message></Response>`
+    : `<?xml version="1.0" encoding="UTF-8"?><Response></Response>`;
+  return new NextResponse(body, { headers: { "Content-Type": "text/xml" } });
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const form = await readVerifiedTwilioForm(request, "WhatsApp Webhook");
+    if (!form.ok) {
+      return form.response;
+    }
+
+    const from = form.params.get("From") || "";
+    const body = form.params.get("Body") || "";
+    const messageSid = form.params.get("MessageSid") || form.params.get("SmsMessageSid");
+
+    if (!from) {
+      return NextResponse.json({ error: "Missing sender" }, { status: 400 });
+    }
+    // Media-only messages have an empty body
+    if (!body.trim()) {
+      return twimlResponse('Please send text. Reply "HELP" for the list of commands.');
+    }
+
+    const reply = await handleInboundWhatsAppMessage({ from, body, messageSid });
+    logger.info(`[WhatsApp Webhook] Handled message ${messageSid ?? "(no sid)"}`);
+    return twimlResponse(reply);
+  } catch (error) {
+    logger.error("[WhatsApp Webhook] Failed to process inbound message", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,274 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CalendarOff, Loader2, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+interface AvailabilityWindow {
+  id: number;
+  starts_at: string;
+  ends_at: string;
+  delegate_id: string | null;
+  delegate_name: string | null;
+  delegate_email: string | null;
+  note: string | null;
+}
+
+interface AdminUser {
+  id: string; // UUID
+  name: string;
+  email: string;
+  domain: string | null;
+  scope: string | null;
+}
+
+interface AvailabilityManagerProps {
+  /** users.id of the signed-in admin */
+  currentUserId: string;
+}
+
+const EMPTY_FORM = { starts_at: "", ends_at: "", delegate_id: "none", note: "" };
+
+function formatDateTime(value: string): string {
+  return new Date(value).toLocaleString("en-IN", { dateStyle: "medium", timeStyle: "short" });
+}
+
+export function AvailabilityManager({ currentUserId }: AvailabilityManagerProps) {
+  const [windows, setWindows] = useState<AvailabilityWindow[]>([]);
+  const [adminUsers, setAdminUsers] = useState<AdminUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<number | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  const fetchWindows = useCallback(async () => {
+    try {
+      const response = await fetch("/api/admin/availability");
+      if (response.ok) {
+        const data = await response.json();
+        setWindows(data.windows || []);
+      } else {
+        toast.error("Failed to fetch availability");
+      }
+    } catch (error) {
+      console.error("Error fetching availability:", error);
+      toast.error("Failed to fetch availability");
+    }
+  }, []);
+
+  const fetchAdmins = useCallback(async () => {
+    try {
+      const response = await fetch("/api/admin/list");
+      if (response.ok) {
+        const data = await response.json();
+        setAdminUsers((data.admins || []).filter((admin: AdminUser) => admin.id !== currentUserId));
+      }
+    } catch (error) {
+      console.error("Error fetching admins:", error);
+    }
+  }, [currentUserId]);
+
+  useEffect(() => {
+    setLoading(true);
+    Promise.all([fetchWindows(), fetchAdmins()]).finally(() => setLoading(false));
+  }, [fetchWindows, fetchAdmins]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.starts_at || !formData.ends_at) {
+      toast.error("Please choose when you are away from and until");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch("/api/admin/availability", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          // datetime-local values are in the browser's timezone
+          starts_at: new Date(formData.starts_at).toISOString(),
+          ends_at: new Date(formData.ends_at).toISOString(),
+          delegate_id: formData.delegate_id === "none" ? null : formData.delegate_id,
+          note: formData.note.trim() || null,
+        }),
+      });
+
+      if (response.ok) {
+        toast.success("Out-of-office window added");
+        setFormData(EMPTY_FORM);
+        await fetchWindows();
+      } else {
+        const error = await response.json().catch(() => ({}));
+        toast.error(error.error || "Failed to add window");
+      }
+    } catch (error) {
+      console.error("Error adding availability window:", error);
+      toast.error("Failed to add window");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    setDeletingId(id);
+    try {
+      const response = await fetch(`/api/admin/availability/${id}`, { method: "DELETE" });
+      if (response.ok) {
+        toast.success("Window removed");
+        setWindows((current) => current.filter((window) => window.id !== id));
+      } else {
+        const error = await response.json().catch(() => ({}));
+        toast.error(error.error || "Failed to remove window");
+      }
+    } catch (error) {
+      console.error("Error removing availability window:", error);
+      toast.error("Failed to remove window");
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const now = Date.now();
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Plan time away</CardTitle>
+          <CardDescription>
+            While you are away, new and reassigned tickets, reminders and escalations go to your delegate.
+            Without a delegate, the next available admin in your scope covers for you.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="starts_at">Away from</Label>
+              <Input
+                id="starts_at"
+                type="datetime-local"
+                value={formData.starts_at}
+                onChange={(e) => setFormData({ ...formData, starts_at: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ends_at">Back on</Label>
+              <Input
+                id="ends_at"
+                type="datetime-local"
+                value={formData.ends_at}
+                onChange={(e) => setFormData({ ...formData, ends_at: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="delegate_id">Delegate</Label>
+              <Select
+                value={formData.delegate_id}
+                onValueChange={(value) => setFormData({ ...formData, delegate_id: value })}
+              >
+                <SelectTrigger id="delegate_id">
+                  <SelectValue placeholder="Select admin" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Next available admin in my scope</SelectItem>
+                  {adminUsers.map((admin) => (
+                    <SelectItem key={admin.id} value={admin.id}>
+                      {admin.name}
+                      {admin.domain && ` (${admin.domain}${admin.scope ? ` - ${admin.scope}` : ""})`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="note">Note</Label>
+              <Textarea
+                id="note"
+                rows={1}
+                maxLength={255}
+                placeholder="e.g. Annual leave"
+                value={formData.note}
+                onChange={(e) => setFormData({ ...formData, note: e.target.value })}
+              />
+            </div>
+            <div className="md:col-span-2">
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Add window
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Current and upcoming</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : windows.length === 0 ? (
+            <div className="flex flex-col items-center gap-2 py-8 text-muted-foreground">
+              <CalendarOff className="w-8 h-8" />
+              <p className="text-sm">No time away planned</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {windows.map((window) => {
+                const active = new Date(window.starts_at).getTime() <= now;
+                return (
+                  <div key={window.id} className="flex items-start justify-between gap-4 rounded-lg border p-4">
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-2">
+                        <p className="font-medium">
+                          {formatDateTime(window.starts_at)} – {formatDateTime(window.ends_at)}
+                        </p>
+                        {active && <Badge variant="secondary">Away now</Badge>}
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        Covered by {window.delegate_name || window.delegate_email || "the next available admin in scope"}
+                      </p>
+                      {window.note && <p className="text-sm">{window.note}</p>}
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleDelete(window.id)}
+                      disabled={deletingId === window.id}
+                      aria-label={active ? "End now" : "Remove"}
+                    >
+                      {deletingId === window.id ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <Trash2 className="w-4 h-4" />
+                      )}
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
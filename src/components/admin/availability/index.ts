@@ -0,0 +1 @@
+export { AvailabilityManager } from "./AvailabilityManager";
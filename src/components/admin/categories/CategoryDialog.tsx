@@ -25,6 +25,7 @@ import { api, endpoints } from "@/lib/api/client";
 import { useAdmins, type Admin } from "@/lib/api/admins";
 import { useFetchDomains } from "@/hooks/api/useFetchDomains";
 import { useSlugGeneration } from "@/hooks/forms/useSlugGeneration";
+import { ATTACHMENT_DEFAULTS } from "@/conf/constants";
 
 interface Category {
   id: number;
@@ -38,6 +39,8 @@ interface Category {
   domain_id?: number | null;
   scope_id?: number | null;
   default_admin_id?: string | null;
+  attachment_types?: string[] | null;
+  attachment_max_mb?: number | null;
 }
 
 interface Domain {
@@ -74,6 +77,8 @@ export function CategoryDialog({ open, onClose, category }: CategoryDialogProps)
     domain_id: 1,
     scope_id: null as number | null,
     default_admin_id: null as string | null,
+    attachment_types: "", // comma-separated MIME types; empty = defaults
+    attachment_max_mb: "", // empty = default limit
   });
 
   // Use centralized hooks
@@ -101,6 +106,8 @@ export function CategoryDialog({ open, onClose, category }: CategoryDialogProps)
         domain_id: category.domain_id || 1,
         scope_id: category.scope_id || null,
         default_admin_id: category.default_admin_id || null,
+        attachment_types: category.attachment_types?.join(", ") || "",
+        attachment_max_mb: category.attachment_max_mb ? String(category.attachment_max_mb) : "",
       });
       setManualEdit(true); // When editing, slug is already set, so mark as manually edited
     } else {
@@ -115,6 +122,8 @@ export function CategoryDialog({ open, onClose, category }: CategoryDialogProps)
         domain_id: 1,
         scope_id: null,
         default_admin_id: null,
+        attachment_types: "",
+        attachment_max_mb: "",
       });
       setManualEdit(false); // Reset when creating new category
     }
@@ -148,10 +157,20 @@ export function CategoryDialog({ open, onClose, category }: CategoryDialogProps)
         ? `${endpoints.admin.categories}/${category.id}`
         : endpoints.admin.categories;
 
+      const attachmentTypes = formData.attachment_types
+        .split(",")
+        .map((type) => type.trim())
+        .filter(Boolean);
+      const payload = {
+        ...formData,
+        attachment_types: attachmentTypes.length > 0 ? attachmentTypes : null,
+        attachment_max_mb: parseInt(formData.attachment_max_mb) || null,
+      };
+
       if (category) {
-        await api.patch(url, formData);
+        await api.patch(url, payload);
       } else {
-        await api.post(url, formData);
+        await api.post(url, payload);
       }
 
       toast.success(category ? "Category updated successfully" : "Category created successfully");
@@ -402,6 +421,45 @@ export function CategoryDialog({ open, onClose, category }: CategoryDialogProps)
             </div>
           </div>
 
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="attachment_types">Allowed Attachment Types</Label>
+              <Input
+                id="attachment_types"
+                value={formData.attachment_types}
+                onChange={(e) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    attachment_types: e.target.value,
+                  }))
+                }
+                placeholder="application/pdf, image/*, video/mp4"
+              />
+              <p className="text-xs text-muted-foreground">
+                Comma-separated MIME types. Leave empty for the defaults (images, PDF, Office documents, short videos)
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="attachment_max_mb">Max Attachment Size (MB)</Label>
+              <Input
+                id="attachment_max_mb"
+                type="number"
+                value={formData.attachment_max_mb}
+                onChange={(e) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    attachment_max_mb: e.target.value,
+                  }))
+                }
+                min="1"
+                placeholder={String(ATTACHMENT_DEFAULTS.MAX_SIZE_MB)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Per-file limit for tickets in this category
+              </p>
+            </div>
+          </div>
+
           <DialogFooter>
             <Button type="button" variant="outline" onClick={() => onClose(false)}>
               Cancel
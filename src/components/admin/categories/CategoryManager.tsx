@@ -9,6 +9,8 @@ import { CategoryDialog } from "./CategoryDialog";
 import { SubcategoryManager } from "./SubcategoryManager";
 import { EscalationManager } from "@/components/admin/escalation/EscalationManager";
 import { CategoryAssignmentsManager } from "./CategoryAssignmentsManager";
+import { CategoryReleasesPanel } from "./CategoryReleasesPanel";
+import { ProfileFieldsConfig } from "@/components/admin/fields/ProfileFieldsConfig";
 import { toast } from "sonner";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 
@@ -155,10 +157,13 @@ export function CategoryManager({ initialCategories }: CategoryManagerProps) {
                 </Button>
               </div>
             </div>
+            {/* Edits below are a draft until published */}
+            <CategoryReleasesPanel categoryId={selectedCategory.id} />
             <SubcategoryManager
               categoryId={selectedCategory.id}
               categoryDefaultAdmin={selectedCategory.default_authority}
             />
+            <ProfileFieldsConfig categoryId={selectedCategory.id} categoryName={selectedCategory.name} />
           </TabsContent>
 
           <TabsContent value="assignments" className="space-y-4">
@@ -0,0 +1,187 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Eye, History, Loader2, RefreshCw, Undo2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import type { CategoryDraftChange } from "@/lib/category/categoryReleases";
+
+interface ReleaseSummary {
+  id: number;
+  version: number;
+  restored_from: number | null;
+  subcategory_count: number;
+  created_at: string | null;
+}
+
+interface CategoryReleasesPanelProps {
+  categoryId: number;
+}
+
+const CHANGE_STYLES: Record<CategoryDraftChange["kind"], string> = {
+  added: "bg-green-100 text-green-800",
+  removed: "bg-red-100 text-red-800",
+  changed: "bg-amber-100 text-amber-800",
+};
+
+export function CategoryReleasesPanel({ categoryId }: CategoryReleasesPanelProps) {
+  const [releases, setReleases] = useState<ReleaseSummary[]>([]);
+  const [changes, setChanges] = useState<CategoryDraftChange[]>([]);
+  const [hasUnpublishedChanges, setHasUnpublishedChanges] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+
+  const baseUrl = `/api/admin/categories/${categoryId}/releases`;
+
+  const loadStatus = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(baseUrl);
+      if (res.ok) {
+        const data = await res.json();
+        setReleases(data.releases || []);
+        setChanges(data.changes || []);
+        setHasUnpublishedChanges(Boolean(data.hasUnpublishedChanges));
+      } else {
+        toast.error("Failed to load publish status");
+      }
+    } catch (error) {
+      console.error("Error loading category releases:", error);
+      toast.error("Failed to load publish status");
+    } finally {
+      setLoading(false);
+    }
+  }, [baseUrl]);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const runAction = async (url: string, successMessage: (version: number) => string) => {
+    setBusy(true);
+    try {
+      const res = await fetch(url, { method: "POST" });
+      const data = await res.json().catch(() => ({}));
+      if (res.ok) {
+        toast.success(successMessage(data.release?.version));
+        await loadStatus();
+      } else {
+        toast.error(data.error || "Request failed");
+      }
+    } catch (error) {
+      console.error("Error updating category release:", error);
+      toast.error("Request failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePublish = () => {
+    if (!confirm("Publish the draft? Students will see the new form immediately.")) return;
+    runAction(baseUrl, (version) => `Published version ${version}`);
+  };
+
+  const handleRollback = (release: ReleaseSummary) => {
+    if (!confirm(`Roll back to version ${release.version}? Students will see that form again; your draft is kept.`)) return;
+    runAction(`${baseUrl}/${release.version}/rollback`, (version) => `Version ${release.version} restored as version ${version}`);
+  };
+
+  const liveRelease = releases[0];
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex items-center gap-2 text-sm">
+            {loading ? (
+              <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+            ) : hasUnpublishedChanges ? (
+              <Badge variant="secondary" className="bg-amber-100 text-amber-800">Unpublished changes</Badge>
+            ) : (
+              <Badge variant="secondary" className="bg-green-100 text-green-800">Published</Badge>
+            )}
+            <span className="text-muted-foreground">
+              {liveRelease ? `Students see version ${liveRelease.version}` : "Not published yet; students cannot see this category"}
+            </span>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="ghost" size="sm" onClick={loadStatus} disabled={loading}>
+              <RefreshCw className="w-4 h-4" />
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <Link href={`/superadmin/dashboard/categories/${categoryId}/preview`} target="_blank">
+                <Eye className="w-4 h-4 mr-2" />
+                Preview
+              </Link>
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setShowHistory((open) => !open)} disabled={releases.length === 0}>
+              <History className="w-4 h-4 mr-2" />
+              History
+            </Button>
+            <Button size="sm" onClick={handlePublish} disabled={busy || loading || !hasUnpublishedChanges}>
+              {busy ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+              Publish
+            </Button>
+          </div>
+        </div>
+
+        {hasUnpublishedChanges && changes.length > 0 && (
+          <ul className="space-y-2 border-t pt-3">
+            {changes.map((change) => (
+              <li key={`${change.kind}-${change.subcategoryId ?? "category"}`} className="text-sm">
+                <div className="flex items-center gap-2">
+                  <Badge variant="secondary" className={CHANGE_STYLES[change.kind]}>
+                    {change.kind}
+                  </Badge>
+                  <span className="font-medium">{change.name}</span>
+                  {change.subcategoryId === null && <span className="text-xs text-muted-foreground">category</span>}
+                </div>
+                {(change.details.length > 0 || change.fields.length > 0) && (
+                  <ul className="ml-6 mt-1 list-disc text-xs text-muted-foreground">
+                    {change.details.map((detail) => (
+                      <li key={detail}>{detail}</li>
+                    ))}
+                    {change.fields.map((field) => (
+                      <li key={`${field.kind}-${field.slug}`}>
+                        Field &quot;{field.name}&quot; {field.kind}
+                        {field.details.length > 0 && `: ${field.details.join("; ")}`}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {showHistory && releases.length > 0 && (
+          <ul className="divide-y rounded-md border text-sm">
+            {releases.map((release, index) => (
+              <li key={release.id} className="flex items-center justify-between px-3 py-2">
+                <div>
+                  <span className="font-medium">Version {release.version}</span>
+                  {index === 0 && <Badge variant="outline" className="ml-2 text-xs">Live</Badge>}
+                  <span className="ml-2 text-xs text-muted-foreground">
+                    {release.subcategory_count} subcategor{release.subcategory_count === 1 ? "y" : "ies"}
+                    {release.restored_from !== null && ` · restored from version ${release.restored_from}`}
+                    {release.created_at && ` · ${new Date(release.created_at).toLocaleString()}`}
+                  </span>
+                </div>
+                {index > 0 && (
+                  <Button variant="ghost" size="sm" onClick={() => handleRollback(release)} disabled={busy}>
+                    <Undo2 className="w-4 h-4 mr-2" />
+                    Roll back
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,6 +2,7 @@
 export { CategoryManager } from "./CategoryManager";
 export { CategoryDialog } from "./CategoryDialog";
 export { CategoryAssignmentsManager } from "./CategoryAssignmentsManager";
+export { CategoryReleasesPanel } from "./CategoryReleasesPanel";
 
 // Subcategory Management
 export { SubcategoryManager } from "./SubcategoryManager";
@@ -7,7 +7,6 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Badge } from "@/components/ui/badge";
 import {
   Dialog,
   DialogContent,
@@ -27,7 +26,8 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { Users, Plus, Edit, Trash2, Loader2, Building2, FileText } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Users, Plus, Edit, Trash2, Loader2, Building2, FileText, UserPlus, UserMinus } from "lucide-react";
 import { toast } from "sonner";
 import Link from "next/link";
 
@@ -45,6 +45,7 @@ interface CommitteeMember {
   committee_id: number;
   clerk_user_id: string;
   role: string | null;
+  joined_at?: Date | string | null;
   user?: {
     firstName: string | null;
     lastName: string | null;
@@ -61,6 +62,12 @@ interface ClerkUser {
   email?: string;
 }
 
+const MEMBER_ROLES = [
+  { value: "head", label: "Head" },
+  { value: "coordinator", label: "Coordinator" },
+  { value: "member", label: "Member" },
+];
+
 interface CommitteesManagementProps {
   initialCommittees: Committee[];
   initialMembers: Record<number, CommitteeMember[]>;
@@ -81,6 +88,8 @@ export function CommitteesManagement({ initialCommittees, initialMembers }: Comm
     description: "",
     contact_email: "",
   });
+  const [newMembers, setNewMembers] = useState<Record<number, { email: string; role: string }>>({});
+  const [memberSaving, setMemberSaving] = useState<number | null>(null);
 
   useEffect(() => {
     fetchClerkUsers();
@@ -105,6 +114,100 @@ export function CommitteesManagement({ initialCommittees, initialMembers }: Comm
     router.refresh();
   };
 
+  const reloadMembers = async (committeeId: number) => {
+    const response = await fetch(`/api/committees/${committeeId}/members`);
+    if (response.ok) {
+      const data = await response.json();
+      setCommitteeMembers((prev) => ({ ...prev, [committeeId]: data.members || [] }));
+    }
+  };
+
+  // Head changes are mirrored onto the committee's contact email
+  const reloadCommittees = async () => {
+    const response = await fetch("/api/committees");
+    if (response.ok) {
+      const data = await response.json();
+      setCommittees(data.committees || []);
+    }
+  };
+
+  const handleAddMember = async (committeeId: number) => {
+    const draft = newMembers[committeeId] || { email: "", role: "member" };
+    if (!draft.email.trim()) {
+      toast.error("Member email is required");
+      return;
+    }
+
+    try {
+      setMemberSaving(committeeId);
+      const response = await fetch(`/api/committees/${committeeId}/members`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email: draft.email.trim(), role: draft.role }),
+      });
+
+      if (response.ok) {
+        toast.success("Member added");
+        setNewMembers((prev) => ({ ...prev, [committeeId]: { email: "", role: "member" } }));
+        await Promise.all([reloadMembers(committeeId), reloadCommittees()]);
+      } else {
+        const error = await response.json();
+        toast.error(error.error || "Failed to add member");
+      }
+    } catch (error) {
+      console.error("Error adding committee member:", error);
+      toast.error("Failed to add member");
+    } finally {
+      setMemberSaving(null);
+    }
+  };
+
+  const handleChangeMemberRole = async (committeeId: number, memberId: number, role: string) => {
+    try {
+      setMemberSaving(committeeId);
+      const response = await fetch(`/api/committees/${committeeId}/members/${memberId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ role }),
+      });
+
+      if (response.ok) {
+        toast.success("Member role updated");
+        await Promise.all([reloadMembers(committeeId), reloadCommittees()]);
+      } else {
+        const error = await response.json();
+        toast.error(error.error || "Failed to update member role");
+      }
+    } catch (error) {
+      console.error("Error updating committee member:", error);
+      toast.error("Failed to update member role");
+    } finally {
+      setMemberSaving(null);
+    }
+  };
+
+  const handleRemoveMember = async (committeeId: number, memberId: number) => {
+    try {
+      setMemberSaving(committeeId);
+      const response = await fetch(`/api/committees/${committeeId}/members/${memberId}`, {
+        method: "DELETE",
+      });
+
+      if (response.ok) {
+        toast.success("Member removed");
+        await Promise.all([reloadMembers(committeeId), reloadCommittees()]);
+      } else {
+        const error = await response.json();
+        toast.error(error.error || "Failed to remove member");
+      }
+    } catch (error) {
+      console.error("Error removing committee member:", error);
+      toast.error("Failed to remove member");
+    } finally {
+      setMemberSaving(null);
+    }
+  };
+
   const handleOpenDialog = (committee?: Committee) => {
     if (committee) {
       setEditingCommittee(committee);
@@ -170,6 +273,11 @@ export function CommitteesManagement({ initialCommittees, initialMembers }: Comm
 
       if (response.ok) {
         toast.success(editingCommittee ? "Committee updated successfully" : "Committee created successfully");
+        // The contact email decides the head, so the member list may have changed
+        const saved = await response.json();
+        if (saved.committee?.id) {
+          await Promise.all([reloadMembers(saved.committee.id), reloadCommittees()]);
+        }
         handleCloseDialog();
         refreshData();
       } else {
@@ -267,7 +375,7 @@ export function CommitteesManagement({ initialCommittees, initialMembers }: Comm
                     placeholder="committee@example.com"
                   />
                   <p className="text-xs text-muted-foreground">
-                    Primary email address for this committee
+                    The user with this email becomes the committee head
                   </p>
                 </div>
                 <DialogFooter>
@@ -295,6 +403,8 @@ export function CommitteesManagement({ initialCommittees, initialMembers }: Comm
       <div className="space-y-3">
         {committees.map((committee) => {
           const members = committeeMembers[committee.id] || [];
+          const draft = newMembers[committee.id] || { email: "", role: "member" };
+          const busy = memberSaving === committee.id;
           
           return (
             <Card key={committee.id} className="border-2 hover:shadow-lg transition-all duration-300">
@@ -361,7 +471,7 @@ export function CommitteesManagement({ initialCommittees, initialMembers }: Comm
                   <p className="text-sm font-medium mb-2">Members ({members.length})</p>
                   {members.length === 0 ? (
                     <p className="text-sm text-muted-foreground">
-                      No members assigned. The committee head (from contact email) is treated as the sole member.
+                      No members yet. Add members below or set a contact email to make its user the head.
                     </p>
                   ) : (
                     <div className="space-y-2">
@@ -387,17 +497,76 @@ export function CommitteesManagement({ initialCommittees, initialMembers }: Comm
                             <div className="flex items-center gap-2">
                               <Users className="w-4 h-4 text-muted-foreground" />
                               <span className="text-sm">{displayName}</span>
-                              {member.role && (
-                                <Badge variant="secondary" className="text-xs">
-                                  {member.role}
-                                </Badge>
+                              {member.joined_at && (
+                                <span className="text-xs text-muted-foreground">
+                                  since {new Date(member.joined_at).toLocaleDateString()}
+                                </span>
                               )}
                             </div>
+                            <div className="flex items-center gap-2">
+                              <Select
+                                value={member.role || "member"}
+                                onValueChange={(role) => handleChangeMemberRole(committee.id, member.id, role)}
+                                disabled={busy}
+                              >
+                                <SelectTrigger className="h-8 w-[140px]">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {MEMBER_ROLES.map((role) => (
+                                    <SelectItem key={role.value} value={role.value}>
+                                      {role.label}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleRemoveMember(committee.id, member.id)}
+                                disabled={busy}
+                                title="Remove from committee"
+                              >
+                                <UserMinus className="w-4 h-4" />
+                              </Button>
+                            </div>
                           </div>
                         );
                       })}
                     </div>
                   )}
+                  <div className="flex items-center gap-2 mt-3">
+                    <Input
+                      type="email"
+                      value={draft.email}
+                      onChange={(e) =>
+                        setNewMembers((prev) => ({ ...prev, [committee.id]: { ...draft, email: e.target.value } }))
+                      }
+                      placeholder="member@example.com"
+                      className="h-9"
+                    />
+                    <Select
+                      value={draft.role}
+                      onValueChange={(role) =>
+                        setNewMembers((prev) => ({ ...prev, [committee.id]: { ...draft, role } }))
+                      }
+                    >
+                      <SelectTrigger className="h-9 w-[140px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {MEMBER_ROLES.map((role) => (
+                          <SelectItem key={role.value} value={role.value}>
+                            {role.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button size="sm" onClick={() => handleAddMember(committee.id)} disabled={busy}>
+                      {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <UserPlus className="w-4 h-4 mr-2" />}
+                      {!busy && "Add"}
+                    </Button>
+                  </div>
                 </div>
               </CardContent>
             </Card>
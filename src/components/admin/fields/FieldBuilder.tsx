@@ -4,8 +4,9 @@ import { useState, useEffect } from "react";
 import { Card, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Plus, Edit, Trash2 } from "lucide-react";
+import { Plus, Edit, Trash2, History } from "lucide-react";
 import { FieldDialog } from "./FieldDialog";
+import { FormVersionsDialog } from "./FormVersionsDialog";
 import { toast } from "sonner";
 
 interface Field {
@@ -48,6 +49,13 @@ const FIELD_TYPE_LABELS: Record<string, string> = {
   number: "Number",
   boolean: "Yes/No",
   upload: "File Upload",
+  datetime: "Date & Time",
+  time_range: "Time Range",
+  location: "Location",
+  rating: "Rating",
+  email: "Email",
+  phone: "Phone",
+  group: "Repeatable Group",
 };
 
 const FIELD_TYPE_COLORS: Record<string, string> = {
@@ -59,6 +67,13 @@ const FIELD_TYPE_COLORS: Record<string, string> = {
   number: "bg-pink-100 text-pink-800",
   boolean: "bg-yellow-100 text-yellow-800",
   upload: "bg-gray-100 text-gray-800",
+  datetime: "bg-orange-100 text-orange-800",
+  time_range: "bg-amber-100 text-amber-800",
+  location: "bg-emerald-100 text-emerald-800",
+  rating: "bg-yellow-100 text-yellow-800",
+  email: "bg-sky-100 text-sky-800",
+  phone: "bg-indigo-100 text-indigo-800",
+  group: "bg-violet-100 text-violet-800",
 };
 
 export function FieldBuilder({
@@ -70,6 +85,7 @@ export function FieldBuilder({
   const [fields, setFields] = useState<Field[]>(initialFields);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingField, setEditingField] = useState<Field | null>(null);
+  const [isVersionsOpen, setIsVersionsOpen] = useState(false);
 
   useEffect(() => {
     setFields(initialFields);
@@ -150,10 +166,16 @@ export function FieldBuilder({
             Add custom fields that will appear when creating tickets in this subcategory
           </p>
         </div>
-        <Button onClick={handleCreateField} size="sm" variant="outline">
-          <Plus className="w-4 h-4 mr-2" />
-          Add Field
-        </Button>
+        <div className="flex gap-2">
+          <Button onClick={() => setIsVersionsOpen(true)} size="sm" variant="ghost">
+            <History className="w-4 h-4 mr-2" />
+            Versions
+          </Button>
+          <Button onClick={handleCreateField} size="sm" variant="outline">
+            <Plus className="w-4 h-4 mr-2" />
+            Add Field
+          </Button>
+        </div>
       </div>
 
       {sortedFields.length === 0 ? (
@@ -201,6 +223,15 @@ export function FieldBuilder({
                         ))}
                       </div>
                     )}
+                    {field.field_type === "group" && Array.isArray(field.validation_rules?.groupFields) && (
+                      <div className="mt-2 flex flex-wrap gap-1">
+                        {(field.validation_rules.groupFields as Array<{ slug: string; name: string }>).map((subfield) => (
+                          <Badge key={subfield.slug} variant="outline" className="text-xs">
+                            {subfield.name}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
                   </div>
                   <div className="flex gap-1">
                     <Button
@@ -235,6 +266,12 @@ export function FieldBuilder({
         subcategoryDefaultAdmin={subcategoryDefaultAdmin ? String(subcategoryDefaultAdmin) : null}
         availableFields={sortedFields}
       />
+
+      <FormVersionsDialog
+        open={isVersionsOpen}
+        onOpenChange={setIsVersionsOpen}
+        subcategoryId={subcategoryId}
+      />
     </div>
   );
 }
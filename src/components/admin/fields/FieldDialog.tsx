@@ -29,6 +29,7 @@ import { generateSlug } from "@/lib/utils/slug";
 import { FieldOptionsEditor, type FieldOption } from "./FieldOptionsEditor";
 import { FieldLogicSection } from "./FieldLogicSection";
 import { FieldAdminAssignment } from "./FieldAdminAssignment";
+import { FieldTypeSettings, FIELD_TYPE_SETTING_KEYS } from "./FieldTypeSettings";
 
 interface Field {
   id: number;
@@ -75,6 +76,13 @@ const FIELD_TYPES = [
   { value: "number", label: "Number" },
   { value: "boolean", label: "Yes/No" },
   { value: "upload", label: "File Upload" },
+  { value: "datetime", label: "Date & Time" },
+  { value: "time_range", label: "Time Range" },
+  { value: "location", label: "Location (Hostel / Floor / Room)" },
+  { value: "rating", label: "Rating" },
+  { value: "email", label: "Email" },
+  { value: "phone", label: "Phone" },
+  { value: "group", label: "Repeatable Group" },
 ];
 
 const CHOICE_FIELD_TYPES = new Set(["select", "multi_select"]);
@@ -235,6 +243,9 @@ export function FieldDialog({
       } else {
         delete nextRules.multiSelect;
       }
+      if (value !== prev.field_type) {
+        for (const key of FIELD_TYPE_SETTING_KEYS) delete nextRules[key];
+      }
       return {
         ...prev,
         field_type: value,
@@ -408,6 +419,34 @@ export function FieldDialog({
         return;
       }
 
+      // Validate repeatable group sub-fields
+      if (formData.field_type === "group") {
+        const subfields = Array.isArray(validationRules.groupFields)
+          ? (validationRules.groupFields as Array<{ slug?: string; name?: string; field_type?: string; options?: unknown[] }>)
+          : [];
+        const slugs = subfields.map((subfield) => subfield.slug || "");
+        if (subfields.length === 0) {
+          toast.error("Repeatable groups need at least one field");
+          setLoading(false);
+          return;
+        }
+        if (subfields.some((subfield) => !subfield.name?.trim() || !subfield.slug)) {
+          toast.error("Every field in the group needs a label");
+          setLoading(false);
+          return;
+        }
+        if (new Set(slugs).size !== slugs.length) {
+          toast.error("Fields in the group must have different labels");
+          setLoading(false);
+          return;
+        }
+        if (subfields.some((subfield) => subfield.field_type === "select" && !subfield.options?.length)) {
+          toast.error("Dropdown fields in the group need at least one option");
+          setLoading(false);
+          return;
+        }
+      }
+
       // Validate for duplicate values (case-insensitive)
       if (CHOICE_FIELD_TYPES.has(formData.field_type)) {
         const valueMap = new Map<string, number>();
@@ -588,6 +627,12 @@ export function FieldDialog({
             fieldType={formData.field_type}
           />
 
+          <FieldTypeSettings
+            fieldType={formData.field_type}
+            rules={validationRules}
+            onChange={patchValidationRules}
+          />
+
           <FieldLogicSection
             enabled={logicSectionOpen}
             onToggle={handleLogicToggle}
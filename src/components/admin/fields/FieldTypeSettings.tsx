@@ -0,0 +1,267 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { generateSlug } from "@/lib/utils/slug";
+import type { TicketFieldDefinition } from "@/schemas/business/ticketForm";
+
+/**
+ * Type-specific settings stored in validation_rules:
+ * - location: locationLevel
+ * - rating: max, ratingStyle
+ * - time_range: withDate
+ * - group: groupFields, itemLabel, minItems, maxItems
+ */
+
+interface FieldTypeSettingsProps {
+  fieldType: string;
+  rules: Record<string, unknown>;
+  onChange: (patch: Record<string, unknown>) => void;
+}
+
+// Rule keys owned by a field type; FieldDialog drops them when the type changes
+export const FIELD_TYPE_SETTING_KEYS = [
+  "locationLevel",
+  "ratingStyle",
+  "withDate",
+  "groupFields",
+  "itemLabel",
+  "minItems",
+  "maxItems",
+];
+
+const GROUP_SUBFIELD_TYPES = [
+  { value: "text", label: "Text" },
+  { value: "number", label: "Number" },
+  { value: "select", label: "Dropdown" },
+  { value: "date", label: "Date" },
+  { value: "email", label: "Email" },
+  { value: "phone", label: "Phone" },
+  { value: "boolean", label: "Yes/No" },
+];
+
+export function FieldTypeSettings({ fieldType, rules, onChange }: FieldTypeSettingsProps) {
+  switch (fieldType) {
+    case "location":
+      return (
+        <div className="space-y-2 border rounded-lg p-4">
+          <Label>Location Detail</Label>
+          <Select
+            value={typeof rules.locationLevel === "string" ? rules.locationLevel : "room"}
+            onValueChange={(value) => onChange({ locationLevel: value === "room" ? undefined : value })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="hostel">Hostel only</SelectItem>
+              <SelectItem value="floor">Hostel and floor</SelectItem>
+              <SelectItem value="room">Hostel, floor and room</SelectItem>
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            Floors and rooms come from the hostel master data.
+          </p>
+        </div>
+      );
+
+    case "rating":
+      return (
+        <div className="grid grid-cols-2 gap-4 border rounded-lg p-4">
+          <div className="space-y-2">
+            <Label htmlFor="rating_max">Highest Rating</Label>
+            <Input
+              id="rating_max"
+              type="number"
+              min={2}
+              max={10}
+              value={rules.max === undefined ? "" : String(rules.max)}
+              onChange={(e) => onChange({ max: e.target.value === "" ? undefined : Number(e.target.value) })}
+              placeholder="5"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Style</Label>
+            <Select
+              value={rules.ratingStyle === "scale" ? "scale" : "stars"}
+              onValueChange={(value) => onChange({ ratingStyle: value === "scale" ? "scale" : undefined })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="stars">Stars</SelectItem>
+                <SelectItem value="scale">Numbered scale</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      );
+
+    case "time_range":
+      return (
+        <div className="flex items-center space-x-2 border rounded-lg p-4">
+          <Checkbox
+            id="range_with_date"
+            checked={rules.withDate === true}
+            onCheckedChange={(checked) => onChange({ withDate: checked === true ? true : undefined })}
+          />
+          <Label htmlFor="range_with_date" className="cursor-pointer">
+            Include dates (for ranges spanning several days)
+          </Label>
+        </div>
+      );
+
+    case "group":
+      return <GroupFieldsEditor rules={rules} onChange={onChange} />;
+
+    default:
+      return null;
+  }
+}
+
+function GroupFieldsEditor({ rules, onChange }: Omit<FieldTypeSettingsProps, "fieldType">) {
+  const subfields = Array.isArray(rules.groupFields) ? (rules.groupFields as TicketFieldDefinition[]) : [];
+
+  const setSubfields = (next: TicketFieldDefinition[]) => onChange({ groupFields: next });
+
+  const updateSubfield = (index: number, patch: Partial<TicketFieldDefinition>) => {
+    setSubfields(subfields.map((subfield, idx) => (idx === index ? { ...subfield, ...patch } : subfield)));
+  };
+
+  const handleNameChange = (index: number, name: string) => {
+    const current = subfields[index];
+    if (!current) return;
+    // Keep the slug in step with the name until it has been set to something else
+    const followsName = !current.slug || current.slug === generateSlug(current.name, "_");
+    updateSubfield(index, { name, ...(followsName ? { slug: generateSlug(name, "_") } : {}) });
+  };
+
+  const handleOptionsBlur = (index: number, text: string) => {
+    const labels = Array.from(new Set(text.split(",").map((label) => label.trim()).filter(Boolean)));
+    updateSubfield(index, { options: labels.map((label) => ({ label, value: generateSlug(label, "_") })) });
+  };
+
+  return (
+    <div className="space-y-3 border rounded-lg p-4">
+      <div className="flex items-center justify-between">
+        <Label>Fields in Each Item</Label>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => setSubfields([...subfields, { slug: "", name: "", field_type: "text", required: false }])}
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Field
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <div className="space-y-1">
+          <Label htmlFor="group_item_label" className="text-xs">Item Name</Label>
+          <Input
+            id="group_item_label"
+            value={typeof rules.itemLabel === "string" ? rules.itemLabel : ""}
+            onChange={(e) => onChange({ itemLabel: e.target.value })}
+            placeholder="Item"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="group_min_items" className="text-xs">Min Items</Label>
+          <Input
+            id="group_min_items"
+            type="number"
+            min={0}
+            value={rules.minItems === undefined ? "" : String(rules.minItems)}
+            onChange={(e) => onChange({ minItems: e.target.value === "" ? undefined : Number(e.target.value) })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="group_max_items" className="text-xs">Max Items</Label>
+          <Input
+            id="group_max_items"
+            type="number"
+            min={1}
+            value={rules.maxItems === undefined ? "" : String(rules.maxItems)}
+            onChange={(e) => onChange({ maxItems: e.target.value === "" ? undefined : Number(e.target.value) })}
+          />
+        </div>
+      </div>
+
+      {subfields.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-4">
+          No fields yet. Add the fields each item should have (e.g., Item, Quantity).
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {subfields.map((subfield, index) => (
+            <div key={index} className="space-y-2 rounded-md border p-2">
+              <div className="flex gap-2 items-center">
+                <Input
+                  placeholder="Field label"
+                  value={subfield.name}
+                  onChange={(e) => handleNameChange(index, e.target.value)}
+                  className="flex-1"
+                />
+                <Select
+                  value={subfield.field_type}
+                  onValueChange={(value) =>
+                    updateSubfield(index, { field_type: value, options: value === "select" ? subfield.options : undefined })
+                  }
+                >
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {GROUP_SUBFIELD_TYPES.map((type) => (
+                      <SelectItem key={type.value} value={type.value}>
+                        {type.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="flex items-center gap-1.5">
+                  <Checkbox
+                    id={`group_required_${index}`}
+                    checked={subfield.required === true}
+                    onCheckedChange={(checked) => updateSubfield(index, { required: checked === true })}
+                  />
+                  <Label htmlFor={`group_required_${index}`} className="text-xs cursor-pointer">
+                    Required
+                  </Label>
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setSubfields(subfields.filter((_, idx) => idx !== index))}
+                >
+                  <Trash2 className="w-4 h-4 text-destructive" />
+                </Button>
+              </div>
+              {subfield.field_type === "select" && (
+                <Input
+                  key={`${index}-${subfield.slug}`}
+                  placeholder="Options, comma-separated (e.g., Chair, Table, Fan)"
+                  defaultValue={(subfield.options ?? []).map((option) => option.label || option.value).join(", ")}
+                  onBlur={(e) => handleOptionsBlur(index, e.target.value)}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { endpoints } from "@/lib/api/client";
+import type { FormFieldChange } from "@/lib/category/formVersionDiff";
+
+interface FormVersionSummary {
+  id: number;
+  version: number;
+  field_count: number;
+  created_at: string | null;
+}
+
+interface FormVersionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  subcategoryId: number;
+}
+
+const CURRENT = "current";
+
+const CHANGE_STYLES: Record<FormFieldChange["kind"], string> = {
+  added: "bg-green-100 text-green-800",
+  removed: "bg-red-100 text-red-800",
+  changed: "bg-amber-100 text-amber-800",
+};
+
+function ChangeList({ changes }: { changes: FormFieldChange[] }) {
+  if (changes.length === 0) {
+    return <p className="text-sm text-muted-foreground">No differences.</p>;
+  }
+  return (
+    <ul className="space-y-2">
+      {changes.map((change) => (
+        <li key={`${change.kind}-${change.slug}`} className="text-sm">
+          <div className="flex items-center gap-2">
+            <Badge variant="secondary" className={CHANGE_STYLES[change.kind]}>
+              {change.kind}
+            </Badge>
+            <span className="font-medium">{change.name}</span>
+            <span className="text-xs text-muted-foreground">{change.slug}</span>
+          </div>
+          {change.details.length > 0 && (
+            <ul className="ml-6 mt-1 list-disc text-xs text-muted-foreground">
+              {change.details.map((detail) => (
+                <li key={detail}>{detail}</li>
+              ))}
+            </ul>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function FormVersionsDialog({ open, onOpenChange, subcategoryId }: FormVersionsDialogProps) {
+  const [versions, setVersions] = useState<FormVersionSummary[]>([]);
+  const [pendingChanges, setPendingChanges] = useState<FormFieldChange[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [compareFrom, setCompareFrom] = useState("");
+  const [compareTo, setCompareTo] = useState(CURRENT);
+  const [comparison, setComparison] = useState<FormFieldChange[] | null>(null);
+
+  const baseUrl = endpoints.admin.formVersions(subcategoryId);
+
+  const loadVersions = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(baseUrl);
+      if (res.ok) {
+        const data = await res.json();
+        setVersions(data.versions || []);
+        setPendingChanges(data.pendingChanges || []);
+      } else {
+        toast.error("Failed to load form versions");
+      }
+    } catch (error) {
+      console.error("Error loading form versions:", error);
+      toast.error("Failed to load form versions");
+    } finally {
+      setLoading(false);
+    }
+  }, [baseUrl]);
+
+  useEffect(() => {
+    setComparison(null);
+    setCompareFrom("");
+    setCompareTo(CURRENT);
+    if (open) {
+      loadVersions();
+    }
+  }, [open, loadVersions]);
+
+  const handleCompare = async () => {
+    if (!compareFrom) return;
+    const params = new URLSearchParams({ from: compareFrom });
+    if (compareTo !== CURRENT) params.set("to", compareTo);
+    try {
+      const res = await fetch(`${baseUrl}?${params}`);
+      const data = await res.json().catch(() => ({}));
+      if (res.ok) {
+        setComparison(data.changes || []);
+      } else {
+        toast.error(data.error || "Failed to compare versions");
+      }
+    } catch (error) {
+      console.error("Error comparing form versions:", error);
+      toast.error("Failed to compare versions");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Form Versions</DialogTitle>
+          <DialogDescription>
+            Tickets keep the version they were submitted with, so old tickets show their original labels and options
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <section className="space-y-3">
+              <div>
+                <h4 className="font-semibold text-sm">Unpublished changes</h4>
+                <p className="text-xs text-muted-foreground">
+                  Draft fields compared with what students see. Publish them from the category&apos;s Publish button.
+                </p>
+              </div>
+              <ChangeList changes={pendingChanges} />
+            </section>
+
+            <section className="space-y-3">
+              <h4 className="font-semibold text-sm">Versions</h4>
+              {versions.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No versions yet. One is recorded when the category is published or a ticket is submitted.
+                </p>
+              ) : (
+                <ul className="divide-y rounded-md border text-sm">
+                  {versions.map((version) => (
+                    <li key={version.id} className="flex items-center justify-between px-3 py-2">
+                      <span className="font-medium">Version {version.version}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {version.field_count} field{version.field_count === 1 ? "" : "s"}
+                        {version.created_at && ` · ${new Date(version.created_at).toLocaleString()}`}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            {versions.length > 0 && (
+              <section className="space-y-3">
+                <h4 className="font-semibold text-sm">Compare</h4>
+                <div className="flex items-end gap-2">
+                  <div className="flex-1 space-y-1">
+                    <Label className="text-xs">From</Label>
+                    <Select value={compareFrom} onValueChange={setCompareFrom}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select version" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {versions.map((version) => (
+                          <SelectItem key={version.id} value={String(version.version)}>
+                            Version {version.version}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex-1 space-y-1">
+                    <Label className="text-xs">To</Label>
+                    <Select value={compareTo} onValueChange={setCompareTo}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={CURRENT}>Draft fields</SelectItem>
+                        {versions.map((version) => (
+                          <SelectItem key={version.id} value={String(version.version)}>
+                            Version {version.version}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Button variant="outline" onClick={handleCompare} disabled={!compareFrom}>
+                    Compare
+                  </Button>
+                </div>
+                {comparison && <ChangeList changes={comparison} />}
+              </section>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -6,7 +6,7 @@ import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
-import { Save, Loader2, User } from "lucide-react";
+import { Save, Loader2, RotateCcw, User } from "lucide-react";
 import { toast } from "sonner";
 
 interface ProfileField {
@@ -38,6 +38,7 @@ export function ProfileFieldsConfig({ categoryId, categoryName }: ProfileFieldsC
 	const [fields, setFields] = useState<ProfileField[]>([]);
 	const [loading, setLoading] = useState(true);
 	const [saving, setSaving] = useState(false);
+	const [usesStandardFields, setUsesStandardFields] = useState(false);
 
 	useEffect(() => {
 		fetchProfileFields();
@@ -50,6 +51,7 @@ export function ProfileFieldsConfig({ categoryId, categoryName }: ProfileFieldsC
 			const response = await fetch(`/api/admin/categories/${categoryId}/profile-fields`);
 			if (response.ok) {
 				const data = await response.json();
+				setUsesStandardFields(Boolean(data.usesStandardFields));
 				// Map existing fields to state
 				const existingFields = data.profileFields || [];
 				const fieldMap = new Map(
@@ -142,31 +144,21 @@ export function ProfileFieldsConfig({ categoryId, categoryName }: ProfileFieldsC
 		}
 	};
 
-	const handleSave = async () => {
+	// Saves the draft; students see it once the category is published
+	const saveFields = async (fieldsToSave: Omit<ProfileField, "id">[] | null) => {
 		try {
 			setSaving(true);
-			// Only send fields that are enabled (required or editable)
-			// Force email and rollNo to be editable: false (read-only)
-			const enabledFields = fields
-				.filter((f) => f.required || f.editable)
-				.map((f, index) => ({
-					field_name: f.field_name,
-					required: f.required,
-					editable: (f.field_name === "email" || f.field_name === "rollNo") ? false : f.editable,
-					display_order: index,
-				}));
-
 			const response = await fetch(
 				`/api/admin/categories/${categoryId}/profile-fields`,
 				{
 					method: "POST",
 					headers: { "Content-Type": "application/json" },
-					body: JSON.stringify({ fields: enabledFields }),
+					body: JSON.stringify({ fields: fieldsToSave }),
 				}
 			);
 
 			if (response.ok) {
-				toast.success("Profile field configuration saved successfully");
+				toast.success("Profile fields saved. Publish the category to apply them.");
 				await fetchProfileFields();
 			} else {
 				const error = await response.json();
@@ -180,6 +172,20 @@ export function ProfileFieldsConfig({ categoryId, categoryName }: ProfileFieldsC
 		}
 	};
 
+	const handleSave = () => {
+		// Only send fields that are enabled (required or editable)
+		// Force email and rollNo to be editable: false (read-only)
+		const enabledFields = fields
+			.filter((f) => f.required || f.editable)
+			.map((f, index) => ({
+				field_name: f.field_name,
+				required: f.required,
+				editable: (f.field_name === "email" || f.field_name === "rollNo") ? false : f.editable,
+				display_order: index,
+			}));
+		return saveFields(enabledFields);
+	};
+
 	if (loading) {
 		return (
 			<Card>
@@ -202,8 +208,14 @@ export function ProfileFieldsConfig({ categoryId, categoryName }: ProfileFieldsC
 				<CardDescription>
 					Configure which profile fields to collect when students create tickets in the{" "}
 					<strong>{categoryName}</strong> category. Check the boxes to enable fields,
-					and configure whether they are required and editable.
+					and configure whether they are required and editable. Changes are saved to the draft
+					and reach students when the category is published.
 				</CardDescription>
+				{usesStandardFields && (
+					<p className="text-sm text-muted-foreground">
+						Not configured yet: students see the standard contact fields.
+					</p>
+				)}
 			</CardHeader>
 			<CardContent className="space-y-4">
 				<div className="space-y-3">
@@ -299,7 +311,13 @@ export function ProfileFieldsConfig({ categoryId, categoryName }: ProfileFieldsC
 					})}
 				</div>
 
-				<div className="flex justify-end pt-4 border-t">
+				<div className="flex justify-end gap-2 pt-4 border-t">
+					{!usesStandardFields && (
+						<Button variant="outline" onClick={() => saveFields(null)} disabled={saving}>
+							<RotateCcw className="w-4 h-4 mr-2" />
+							Use Standard Fields
+						</Button>
+					)}
 					<Button onClick={handleSave} disabled={saving}>
 						{saving ? (
 							<>
@@ -1,9 +1,11 @@
 // Field Management
 export { FieldDialog } from "./FieldDialog";
 export { FieldBuilder } from "./FieldBuilder";
+export { FormVersionsDialog } from "./FormVersionsDialog";
 export { ProfileFieldsConfig } from "./ProfileFieldsConfig";
 
 // Field Dialog Sub-components
 export { FieldOptionsEditor } from "./FieldOptionsEditor";
 export { FieldLogicSection } from "./FieldLogicSection";
 export { FieldAdminAssignment } from "./FieldAdminAssignment";
+export { FieldTypeSettings } from "./FieldTypeSettings";
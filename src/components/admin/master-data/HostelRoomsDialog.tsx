@@ -0,0 +1,189 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, Plus, X } from "lucide-react";
+import { toast } from "sonner";
+import type { Hostel } from "@/db/types-only";
+import type { HostelFloor } from "@/lib/hostel/hostelRooms";
+
+interface HostelRoomsDialogProps {
+	hostel: Hostel | null;
+	onOpenChange: (open: boolean) => void;
+}
+
+export function HostelRoomsDialog({ hostel, onOpenChange }: HostelRoomsDialogProps) {
+	const [floors, setFloors] = useState<HostelFloor[]>([]);
+	const [loading, setLoading] = useState(false);
+	const [saving, setSaving] = useState(false);
+	const [floorInput, setFloorInput] = useState("");
+	const [roomsInput, setRoomsInput] = useState("");
+
+	const loadRooms = useCallback(async (hostelId: number) => {
+		setLoading(true);
+		try {
+			const res = await fetch(`/api/superadmin/hostels/${hostelId}/rooms`);
+			if (res.ok) {
+				const data = await res.json();
+				setFloors(data.floors || []);
+			} else {
+				toast.error("Failed to load rooms");
+			}
+		} catch (error) {
+			console.error("Error loading hostel rooms:", error);
+			toast.error("Failed to load rooms");
+		} finally {
+			setLoading(false);
+		}
+	}, []);
+
+	useEffect(() => {
+		setFloorInput("");
+		setRoomsInput("");
+		setFloors([]);
+		if (hostel) {
+			loadRooms(hostel.id);
+		}
+	}, [hostel, loadRooms]);
+
+	const handleAddRooms = async () => {
+		if (!hostel) return;
+		if (!floorInput.trim() || !roomsInput.trim()) {
+			toast.error("Enter a floor and at least one room number");
+			return;
+		}
+
+		setSaving(true);
+		try {
+			const res = await fetch(`/api/superadmin/hostels/${hostel.id}/rooms`, {
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({ floor: floorInput.trim(), rooms: roomsInput }),
+			});
+			const data = await res.json().catch(() => ({}));
+			if (res.ok) {
+				toast.success(
+					data.skipped?.length
+						? `${data.message}; already present: ${data.skipped.join(", ")}`
+						: data.message || "Rooms added"
+				);
+				setRoomsInput("");
+				await loadRooms(hostel.id);
+			} else {
+				toast.error(data.error || "Failed to add rooms");
+			}
+		} catch (error) {
+			console.error("Error adding hostel rooms:", error);
+			toast.error("Failed to add rooms");
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	const handleDeleteRoom = async (roomId: number) => {
+		if (!hostel) return;
+		try {
+			const res = await fetch(`/api/superadmin/hostels/${hostel.id}/rooms/${roomId}`, {
+				method: "DELETE",
+			});
+			if (res.ok) {
+				await loadRooms(hostel.id);
+			} else {
+				const error = await res.json().catch(() => ({}));
+				toast.error(error.error || "Failed to delete room");
+			}
+		} catch (error) {
+			console.error("Error deleting hostel room:", error);
+			toast.error("Failed to delete room");
+		}
+	};
+
+	return (
+		<Dialog open={hostel !== null} onOpenChange={onOpenChange}>
+			<DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+				<DialogHeader>
+					<DialogTitle>Rooms · {hostel?.name}</DialogTitle>
+					<DialogDescription>
+						Floors and rooms offered by location fields on ticket forms
+					</DialogDescription>
+				</DialogHeader>
+				<div className="space-y-4">
+					<div className="grid grid-cols-[1fr_2fr_auto] gap-2 items-end">
+						<div>
+							<Label htmlFor="room-floor">Floor</Label>
+							<Input
+								id="room-floor"
+								value={floorInput}
+								onChange={(e) => setFloorInput(e.target.value)}
+								placeholder="e.g., Ground, 1"
+							/>
+						</div>
+						<div>
+							<Label htmlFor="room-numbers">Room Numbers</Label>
+							<Input
+								id="room-numbers"
+								value={roomsInput}
+								onChange={(e) => setRoomsInput(e.target.value)}
+								placeholder="Comma-separated, e.g., 101, 102, 103"
+							/>
+						</div>
+						<Button onClick={handleAddRooms} disabled={saving}>
+							{saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+						</Button>
+					</div>
+
+					{loading ? (
+						<div className="flex justify-center py-6">
+							<Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+						</div>
+					) : floors.length === 0 ? (
+						<p className="text-sm text-muted-foreground text-center py-6">No rooms added yet</p>
+					) : (
+						<div className="space-y-3">
+							{floors.map((floor) => (
+								<div key={floor.floor} className="space-y-1.5">
+									<p className="text-sm font-medium">Floor {floor.floor}</p>
+									<div className="flex flex-wrap gap-1.5">
+										{floor.rooms.map((room) => (
+											<Badge
+												key={room.id}
+												variant={room.is_active ? "outline" : "secondary"}
+												className="gap-1"
+											>
+												{room.room_no}
+												<button
+													type="button"
+													aria-label={`Delete room ${room.room_no}`}
+													onClick={() => handleDeleteRoom(room.id)}
+													className="hover:text-destructive"
+												>
+													<X className="h-3 w-3" />
+												</button>
+											</Badge>
+										))}
+									</div>
+								</div>
+							))}
+						</div>
+					)}
+				</div>
+				<DialogFooter>
+					<Button variant="outline" onClick={() => onOpenChange(false)}>
+						Close
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
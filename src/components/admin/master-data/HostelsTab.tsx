@@ -10,7 +10,7 @@ import {
 	TableHeader,
 	TableRow
 } from "@/components/ui/table";
-import { Plus, Pencil, Trash2 } from "lucide-react";
+import { Plus, Pencil, Trash2, DoorOpen } from "lucide-react";
 import type { Hostel } from "@/db/types-only";
 
 interface HostelsTabProps {
@@ -18,9 +18,10 @@ interface HostelsTabProps {
 	onAdd: () => void;
 	onEdit: (hostel: Hostel) => void;
 	onDelete: (id: number) => void;
+	onManageRooms: (hostel: Hostel) => void;
 }
 
-export function HostelsTab({ hostels, onAdd, onEdit, onDelete }: HostelsTabProps) {
+export function HostelsTab({ hostels, onAdd, onEdit, onDelete, onManageRooms }: HostelsTabProps) {
 	return (
 		<Card>
 			<CardHeader className="flex flex-row items-center justify-between">
@@ -57,6 +58,14 @@ export function HostelsTab({ hostels, onAdd, onEdit, onDelete }: HostelsTabProps
 									<TableCell className="font-medium">{hostel.name}</TableCell>
 									<TableCell>{new Date(hostel.created_at).toLocaleDateString()}</TableCell>
 									<TableCell className="text-right space-x-2">
+										<Button
+											variant="ghost"
+											size="sm"
+											title="Floors and rooms"
+											onClick={() => onManageRooms(hostel)}
+										>
+											<DoorOpen className="h-4 w-4" />
+										</Button>
 										<Button
 											variant="ghost"
 											size="sm"
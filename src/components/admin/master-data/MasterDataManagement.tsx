@@ -14,6 +14,7 @@ import { HostelsTab } from "./HostelsTab";
 import { SectionDialog } from "./SectionDialog";
 import { BatchDialog } from "./BatchDialog";
 import { HostelDialog } from "./HostelDialog";
+import { HostelRoomsDialog } from "./HostelRoomsDialog";
 import { DeleteDialog } from "./DeleteDialog";
 import { toast } from "sonner";
 
@@ -47,6 +48,7 @@ export function MasterDataManagement({
 	const [hostelForm, setHostelForm] = useState({ name: "", is_active: true });
 	const [editingHostel, setEditingHostel] = useState<Hostel | null>(null);
 	const [hostelLoading, setHostelLoading] = useState(false);
+	const [roomsHostel, setRoomsHostel] = useState<Hostel | null>(null);
 
 	const [deleteDialog, setDeleteDialog] = useState(false);
 	const [deleteItem, setDeleteItem] = useState<{ type: string; id: number; name: string } | null>(null);
@@ -463,6 +465,7 @@ export function MasterDataManagement({
 						onAdd={() => openHostelDialog()}
 						onEdit={openHostelDialog}
 						onDelete={(id) => confirmDelete("hostel", id, hostels.find(h => h.id === id)?.name || "")}
+						onManageRooms={setRoomsHostel}
 					/>
 				</TabsContent>
 			</Tabs>
@@ -497,6 +500,11 @@ export function MasterDataManagement({
 				loading={hostelLoading}
 			/>
 
+			<HostelRoomsDialog
+				hostel={roomsHostel}
+				onOpenChange={(open) => !open && setRoomsHostel(null)}
+			/>
+
 			<DeleteDialog
 				open={deleteDialog}
 				onOpenChange={setDeleteDialog}
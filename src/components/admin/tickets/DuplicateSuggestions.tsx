@@ -0,0 +1,213 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { Copy, GitMerge, Layers, Loader2, Users } from "lucide-react";
+
+interface SuggestedTicket {
+  id: number;
+  title: string | null;
+  description: string | null;
+  location: string | null;
+  subcategoryName: string | null;
+  status: { value: string; label: string };
+  createdAt: string | null;
+  group: { id: number; name: string } | null;
+  followerCount: number;
+  matchedOn: Array<"text" | "subcategory" | "location">;
+}
+
+interface DuplicateSuggestionsProps {
+  ticketId: number;
+  /** Group this ticket already belongs to, if any */
+  groupId?: number | null;
+}
+
+/**
+ * "Possible duplicate" suggestions for a ticket, with one-click merge into a ticket group:
+ * - this ticket is grouped → the suggestion joins that group
+ * - the suggestion is grouped → this ticket joins the suggestion's group
+ * - neither → a new group is created for both
+ * True duplicates can instead be merged into this ticket (the suggestion is closed as "merged").
+ */
+export function DuplicateSuggestions({ ticketId, groupId }: DuplicateSuggestionsProps) {
+  const router = useRouter();
+  const [suggestions, setSuggestions] = useState<SuggestedTicket[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [mergingId, setMergingId] = useState<number | null>(null);
+  const [foldingId, setFoldingId] = useState<number | null>(null);
+
+  const fetchSuggestions = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/tickets/${ticketId}/similar`);
+      if (response.ok) {
+        const data = await response.json();
+        setSuggestions(data.tickets || []);
+      }
+    } catch (error) {
+      console.error("Error fetching duplicate suggestions:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [ticketId]);
+
+  useEffect(() => {
+    fetchSuggestions();
+  }, [fetchSuggestions]);
+
+  const handleMerge = async (suggestion: SuggestedTicket) => {
+    try {
+      setMergingId(suggestion.id);
+
+      let response: Response;
+      let groupLabel: string;
+      if (groupId || suggestion.group) {
+        const targetGroupId = groupId ?? suggestion.group!.id;
+        const ticketToAdd = groupId ? suggestion.id : ticketId;
+        groupLabel = groupId ? "this ticket's group" : `"${suggestion.group!.name}"`;
+        response = await fetch(`/api/tickets/groups/${targetGroupId}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ addTicketIds: [ticketToAdd] }),
+        });
+      } else {
+        const name = `Duplicates of #${suggestion.id}${suggestion.subcategoryName ? ` – ${suggestion.subcategoryName}` : ""}`;
+        groupLabel = `"${name}"`;
+        response = await fetch("/api/tickets/groups", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            name,
+            description: `Grouped as possible duplicates of ticket #${suggestion.id}`,
+            ticketIds: [suggestion.id, ticketId],
+          }),
+        });
+      }
+
+      if (response.ok) {
+        toast.success(`Merged #${suggestion.id} and #${ticketId} into ${groupLabel}`);
+        fetchSuggestions();
+        router.refresh();
+      } else {
+        const data = await response.json().catch(() => ({}));
+        toast.error(data.error || "Failed to merge tickets");
+      }
+    } catch (error) {
+      console.error("Error merging duplicate tickets:", error);
+      toast.error("Failed to merge tickets");
+    } finally {
+      setMergingId(null);
+    }
+  };
+
+  const handleFoldInto = async (suggestion: SuggestedTicket) => {
+    if (!confirm(`Merge #${suggestion.id} into #${ticketId}? Its internal notes and followers move here, its comments are copied as internal notes, and it is closed.`)) {
+      return;
+    }
+    try {
+      setFoldingId(suggestion.id);
+      const response = await fetch(`/api/tickets/${ticketId}/merge`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ticketIds: [suggestion.id], reason: "Duplicate" }),
+      });
+
+      if (response.ok) {
+        toast.success(`Merged #${suggestion.id} into #${ticketId}`);
+        fetchSuggestions();
+        router.refresh();
+      } else {
+        const data = await response.json().catch(() => ({}));
+        toast.error(data.error || "Failed to merge tickets");
+      }
+    } catch (error) {
+      console.error("Error merging duplicate into ticket:", error);
+      toast.error("Failed to merge tickets");
+    } finally {
+      setFoldingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <p className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Looking for possible duplicates…
+      </p>
+    );
+  }
+
+  if (suggestions.length === 0) {
+    return <p className="text-sm text-muted-foreground">No similar open tickets found.</p>;
+  }
+
+  return (
+    <ul className="space-y-3">
+      {suggestions.map((suggestion) => (
+        <li key={suggestion.id} className="rounded-lg border p-3 space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <Link href={`/admin/dashboard/ticket/${suggestion.id}`} className="font-medium hover:underline">
+              #{suggestion.id} {suggestion.title || suggestion.subcategoryName || ""}
+            </Link>
+            <Badge variant="outline">{suggestion.status.label}</Badge>
+            {suggestion.location && <Badge variant="secondary">{suggestion.location}</Badge>}
+            {suggestion.group && (
+              <Badge variant="secondary" className="gap-1">
+                <Layers className="w-3 h-3" />
+                {suggestion.group.name}
+              </Badge>
+            )}
+          </div>
+          {suggestion.description && (
+            <p className="text-sm text-muted-foreground line-clamp-2">{suggestion.description}</p>
+          )}
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+              <span>Matched on {suggestion.matchedOn.join(", ")}</span>
+              {suggestion.followerCount > 0 && (
+                <span className="flex items-center gap-1">
+                  <Users className="w-3 h-3" />
+                  {suggestion.followerCount} following
+                </span>
+              )}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                className="gap-1.5"
+                disabled={mergingId !== null || foldingId !== null}
+                onClick={() => handleMerge(suggestion)}
+              >
+                {mergingId === suggestion.id ? (
+                  <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                ) : (
+                  <Copy className="w-3.5 h-3.5" />
+                )}
+                {groupId ? "Add to this group" : suggestion.group ? "Join its group" : "Merge into group"}
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="gap-1.5"
+                disabled={mergingId !== null || foldingId !== null}
+                onClick={() => handleFoldInto(suggestion)}
+              >
+                {foldingId === suggestion.id ? (
+                  <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                ) : (
+                  <GitMerge className="w-3.5 h-3.5" />
+                )}
+                Merge into this ticket
+              </Button>
+            </div>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
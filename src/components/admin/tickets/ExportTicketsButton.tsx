@@ -0,0 +1,124 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Download, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+interface ExportJob {
+  id: number;
+  status: string;
+  row_count: number | null;
+  error: string | null;
+  download_url: string | null;
+}
+
+interface ExportTicketsButtonProps {
+  /**
+   * Filters to export (AdminTicketFilters parameters).
+   * Defaults to the filters in the current URL, so list pages export what they show.
+   */
+  filters?: Record<string, string | undefined>;
+}
+
+const POLL_INTERVAL_MS = 3000;
+
+export function ExportTicketsButton({ filters }: ExportTicketsButtonProps) {
+  const searchParams = useSearchParams();
+  const [requesting, setRequesting] = useState(false);
+  const [job, setJob] = useState<ExportJob | null>(null);
+
+  const running = job !== null && (job.status === "pending" || job.status === "processing");
+
+  // Poll background exports until they finish
+  useEffect(() => {
+    if (!job || !running) return;
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/tickets/export/${job.id}`);
+        if (!res.ok) throw new Error("Failed to fetch export status");
+        const data = await res.json();
+        const next: ExportJob = data.export;
+        setJob(next);
+        if (next.status === "completed") {
+          toast.success(`Export ready (${next.row_count ?? 0} tickets)`);
+        } else if (next.status === "failed") {
+          toast.error(next.error || "Export failed");
+        }
+      } catch (error) {
+        console.error("Error polling export:", error);
+        setJob(null);
+        toast.error("Lost track of the export; try again");
+      }
+    }, POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [job, running]);
+
+  const requestExport = async (format: "csv" | "xlsx") => {
+    try {
+      setRequesting(true);
+      const body = {
+        format,
+        filters: filters ?? Object.fromEntries(searchParams?.entries() ?? []),
+      };
+      const res = await fetch("/api/tickets/export", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to export tickets");
+      }
+
+      if (data.mode === "download") {
+        window.location.href = data.url;
+        return;
+      }
+      setJob(data.export);
+      toast.info(`Exporting ${data.total} tickets in the background; the download will appear here`);
+    } catch (error) {
+      console.error("Error exporting tickets:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to export tickets");
+    } finally {
+      setRequesting(false);
+    }
+  };
+
+  if (job?.status === "completed" && job.download_url) {
+    return (
+      <Button variant="outline" size="sm" asChild>
+        <a href={job.download_url} onClick={() => setJob(null)}>
+          <Download className="w-4 h-4 mr-2" />
+          Download export
+        </a>
+      </Button>
+    );
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={requesting || running}>
+          {requesting || running ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <Download className="w-4 h-4 mr-2" />
+          )}
+          {running ? "Exporting…" : "Export"}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => requestExport("csv")}>CSV</DropdownMenuItem>
+        <DropdownMenuItem onClick={() => requestExport("xlsx")}>Excel (XLSX)</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
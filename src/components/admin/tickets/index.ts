@@ -3,6 +3,8 @@ export { TicketGrouping } from "./TicketGrouping";
 export { AdminTicketFilters } from "./AdminTicketFilters";
 export { ManageGroupTicketsDialog } from "./ManageGroupTicketsDialog";
 export { SelectableTicketList } from "./SelectableTicketList";
+export { DuplicateSuggestions } from "./DuplicateSuggestions";
+export { ExportTicketsButton } from "./ExportTicketsButton";
 
 // Ticket Grouping Components
 export { GroupList } from "./GroupList";
@@ -0,0 +1,75 @@
+"use client";
+
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+
+interface CursorPaginationControlsProps {
+  nextCursor: string | null;
+  prevCursor: string | null;
+  /** Tickets matching the filters (all pages) */
+  totalCount: number;
+  baseUrl?: string;
+}
+
+/**
+ * Previous / Next links for keyset-paginated lists (cursor + dir search params)
+ */
+export function CursorPaginationControls({
+  nextCursor,
+  prevCursor,
+  totalCount,
+  baseUrl = "",
+}: CursorPaginationControlsProps) {
+  const searchParams = useSearchParams();
+
+  const buildUrl = (cursor: string, dir: "next" | "prev") => {
+    const params = new URLSearchParams(searchParams.toString());
+    params.set("cursor", cursor);
+    params.set("dir", dir);
+    return `${baseUrl}?${params.toString()}`;
+  };
+
+  if (!nextCursor && !prevCursor) {
+    return null; // Don't show pagination if only 1 page
+  }
+
+  return (
+    <div className="flex items-center justify-between border-t pt-4 mt-6">
+      <div className="text-sm text-muted-foreground">
+        <span className="font-medium">{totalCount}</span> tickets
+      </div>
+
+      <div className="flex items-center gap-2">
+        {prevCursor ? (
+          <Button variant="outline" size="sm" asChild>
+            <Link href={buildUrl(prevCursor, "prev")}>
+              <ChevronLeft className="w-4 h-4 mr-1" />
+              Previous
+            </Link>
+          </Button>
+        ) : (
+          <Button variant="outline" size="sm" disabled>
+            <ChevronLeft className="w-4 h-4 mr-1" />
+            Previous
+          </Button>
+        )}
+
+        {nextCursor ? (
+          <Button variant="outline" size="sm" asChild>
+            <Link href={buildUrl(nextCursor, "next")}>
+              Next
+              <ChevronRight className="w-4 h-4 ml-1" />
+            </Link>
+          </Button>
+        ) : (
+          <Button variant="outline" size="sm" disabled>
+            Next
+            <ChevronRight className="w-4 h-4 ml-1" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
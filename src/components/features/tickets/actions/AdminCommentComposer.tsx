@@ -8,17 +8,23 @@ import { Loader2, MessageCircleQuestion, MessageSquarePlus } from "lucide-react"
 import { toast } from "sonner";
 import { logger } from "@/lib/logger";
 import { AriaLiveRegion } from "@/lib/ui/aria-live-region";
+import { AttachmentPicker } from "@/components/features/tickets/forms/AttachmentPicker";
+import { useAttachmentQueue } from "@/hooks/forms/useAttachmentQueue";
+import type { AttachmentRules } from "@/lib/ticket/utils/attachmentRules";
 
 interface AdminCommentComposerProps {
   ticketId: number;
+  /** The ticket category's attachment rules */
+  attachmentRules: AttachmentRules;
   onCommentAdded?: (comment: { text: string; source: string; createdAt: Date }) => void;
   onStatusChanged?: (newStatus: string) => void;
 }
 
-export function AdminCommentComposer({ ticketId, onCommentAdded, onStatusChanged }: AdminCommentComposerProps) {
+export function AdminCommentComposer({ ticketId, attachmentRules, onCommentAdded, onStatusChanged }: AdminCommentComposerProps) {
   const router = useRouter();
   const [message, setMessage] = useState("");
   const [loading, setLoading] = useState<"comment" | "question" | null>(null);
+  const { queued, uploading, addFiles, removeFile, uploadQueued } = useAttachmentQueue(attachmentRules);
 
   const handleSubmit = async (action: "comment" | "question") => {
     if (!message.trim()) {
@@ -79,6 +85,15 @@ export function AdminCommentComposer({ ticketId, onCommentAdded, onStatusChanged
         throw new Error(error.error || "Failed to send comment");
       }
 
+      // Files are attached to the comment they were sent with
+      if (queued.length > 0) {
+        const { comment } = (await response.json().catch(() => ({}))) as { comment?: { id?: number } };
+        const { failed } = await uploadQueued(ticketId, comment?.id);
+        if (failed.length > 0) {
+          toast.error(`${failed.length} file${failed.length > 1 ? "s" : ""} could not be attached`);
+        }
+      }
+
       router.refresh();
       toast.success(action === "question" ? "Question sent to student" : "Comment added");
     } catch (error) {
@@ -115,6 +130,15 @@ export function AdminCommentComposer({ ticketId, onCommentAdded, onStatusChanged
         disabled={loading !== null}
       />
 
+      <AttachmentPicker
+        files={queued}
+        rules={attachmentRules}
+        uploading={uploading}
+        disabled={loading !== null}
+        onAdd={(files) => addFiles(files)}
+        onRemove={removeFile}
+      />
+
       <div className="flex flex-wrap gap-2">
         <Button
           variant="outline"
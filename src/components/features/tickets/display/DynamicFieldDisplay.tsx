@@ -4,6 +4,7 @@
  */
 
 import { Badge } from "@/components/ui/badge";
+import { Star } from "lucide-react";
 import { format } from "date-fns";
 
 type DynamicField = {
@@ -64,6 +65,46 @@ function formatDynamicFieldValue(fieldType: string, value: unknown): React.React
     }
   }
 
+  // Date-time fields
+  if (fieldType === 'datetime' && typeof value === 'string') {
+    const dateValue = new Date(value);
+    return isNaN(dateValue.getTime()) ? sanitize(value) : format(dateValue, 'MMMM d, yyyy, h:mm a');
+  }
+
+  // Rating fields (stored as the chosen score)
+  if (fieldType === 'rating') {
+    const score = Math.max(0, Math.round(Number(value)) || 0);
+    return (
+      <span className="inline-flex items-center gap-0.5" aria-label={`Rated ${score}`}>
+        {Array.from({ length: score }, (_, idx) => (
+          <Star key={idx} className="w-4 h-4 fill-yellow-400 text-yellow-400" />
+        ))}
+        <span className="ml-1.5">{score}</span>
+      </span>
+    );
+  }
+
+  // Email / phone fields
+  if ((fieldType === 'email' || fieldType === 'phone') && typeof value === 'string') {
+    const href = fieldType === 'email' ? `mailto:${value.trim()}` : `tel:${value.replace(/[\s-]/g, '')}`;
+    return (
+      <a href={sanitize(href)} className="text-primary hover:underline">
+        {sanitize(value)}
+      </a>
+    );
+  }
+
+  // Repeatable groups (one "Label: value, ..." line per item)
+  if (fieldType === 'group' && Array.isArray(value)) {
+    return (
+      <ol className="list-decimal pl-5 space-y-1 font-normal">
+        {value.map((item: unknown, idx: number) => (
+          <li key={idx}>{sanitize(String(item))}</li>
+        ))}
+      </ol>
+    );
+  }
+
   // Number fields
   if (fieldType === 'number' && value) {
     return Number(value).toLocaleString();
@@ -114,7 +155,19 @@ export function DynamicFieldDisplay({ field }: DynamicFieldDisplayProps) {
       case 'select':
         return '📋';
       case 'date':
+      case 'datetime':
+      case 'time_range':
         return '📅';
+      case 'location':
+        return '📍';
+      case 'rating':
+        return '⭐';
+      case 'email':
+        return '✉️';
+      case 'phone':
+        return '📞';
+      case 'group':
+        return '🗂️';
       case 'number':
         return '🔢';
       case 'boolean':
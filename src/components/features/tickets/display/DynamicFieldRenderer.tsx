@@ -1,7 +1,5 @@
 "use client";
 
-import { useRef } from "react";
-import Image from "next/image";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
@@ -14,9 +12,16 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
-import { ImageIcon, Trash2, Loader2 } from "lucide-react";
+import { Trash2, Plus, Star } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { logger } from "@/lib/logger";
+import {
+  getTicketGroupFields,
+  getTicketLocationLevel,
+  getTicketRatingScale,
+  type TicketTimeRangeValue,
+} from "@/schemas/business/ticketForm";
+import { AttachmentPicker, type AttachmentPickerProps } from "@/components/features/tickets/forms/AttachmentPicker";
+import { LocationFieldInput } from "./LocationFieldInput";
 
 /* -----------------------------
    Types - FIXED
@@ -50,8 +55,8 @@ interface DynamicFieldRendererProps {
   value: unknown;
   onChange: (value: unknown) => void;
   error?: string;
-  onImageUpload?: (file: File) => Promise<void>;
-  imagesUploading?: boolean;
+  /** Picked files for upload fields (uploaded as ticket attachments once the ticket exists) */
+  attachments?: Omit<AttachmentPickerProps, "id" | "invalid">;
 }
 
 /* -----------------------------
@@ -63,10 +68,8 @@ export function DynamicFieldRenderer({
   value,
   onChange,
   error,
-  onImageUpload,
-  imagesUploading = false,
+  attachments,
 }: DynamicFieldRendererProps) {
-  const fileInputRef = useRef<HTMLInputElement | null>(null);
   const placeholder = field.placeholder ?? ""; // normalize
   const helpText = field.help_text ?? "";
 
@@ -319,102 +322,193 @@ export function DynamicFieldRenderer({
       }
 
       case "upload": {
-        const images: string[] = Array.isArray(value) ? value : (value ? [String(value)] : []);
-        
-        const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-          const files = Array.from(e.target.files ?? []);
-          if (files.length === 0) return;
-          
-          if (onImageUpload) {
-            // Use the provided upload handler (from TicketForm)
-            // Upload each file sequentially
-            for (const file of files) {
-              if (!file) continue;
-              try {
-                await onImageUpload(file);
-                // The upload handler updates the form state via setDetail
-                // The component will re-render with updated images from value prop
-              } catch (err) {
-                logger.error("Upload failed", err, { component: "DynamicFieldRenderer", fieldSlug: field.slug });
-              }
-            }
-          } else {
-            // Fallback: just store file objects (not recommended for production)
-            onChange(files);
-          }
-          
-          // Reset input
-          if (fileInputRef.current) {
-            fileInputRef.current.value = "";
-          }
-        };
-        
-        const removeImage = (imageUrl: string) => {
-          const updatedImages = images.filter(img => img !== imageUrl);
-          onChange(updatedImages.length > 0 ? updatedImages : []);
+        if (!attachments) return null;
+        return (
+          <div className="space-y-2">
+            <AttachmentPicker {...attachments} id={`${field.slug}-file-input`} invalid={!!error} />
+            {attachments.files.length === 0 && field.required && (
+              <p className="text-xs text-destructive">At least one file is required</p>
+            )}
+          </div>
+        );
+      }
+
+      case "datetime":
+        return (
+          <Input
+            id={field.slug}
+            type="datetime-local"
+            value={typeof value === "string" ? value.slice(0, 16) : ""}
+            onChange={(e) => onChange(e.target.value)}
+            className={cn(error && "border-destructive")}
+          />
+        );
+
+      case "time_range": {
+        const withDate = field.validation_rules?.withDate === true;
+        const range = (value && typeof value === "object" && !Array.isArray(value) ? value : {}) as Partial<TicketTimeRangeValue>;
+        const updateRange = (key: keyof TicketTimeRangeValue, next: string) => {
+          const updated = { start: range.start ?? "", end: range.end ?? "", [key]: next };
+          // An untouched range stays empty so optional fields are not half-filled
+          onChange(updated.start || updated.end ? updated : undefined);
         };
-        
         return (
-          <div className="space-y-3">
-            <div className="flex gap-3 items-center">
-              <input
-                ref={fileInputRef}
-                type="file"
-                accept="image/*"
-                multiple
-                className="hidden"
-                onChange={handleFileChange}
-                id={`${field.slug}-file-input`}
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <span className="text-xs text-muted-foreground">From</span>
+              <Input
+                id={field.slug}
+                type={withDate ? "datetime-local" : "time"}
+                value={range.start ?? ""}
+                onChange={(e) => updateRange("start", e.target.value)}
+                className={cn(error && "border-destructive")}
               />
-              <Button
-                type="button"
-                variant="outline"
-                onClick={() => fileInputRef.current?.click()}
-                disabled={imagesUploading}
+            </div>
+            <div className="space-y-1">
+              <span className="text-xs text-muted-foreground">To</span>
+              <Input
+                type={withDate ? "datetime-local" : "time"}
+                value={range.end ?? ""}
+                onChange={(e) => updateRange("end", e.target.value)}
                 className={cn(error && "border-destructive")}
+              />
+            </div>
+          </div>
+        );
+      }
+
+      case "rating": {
+        const max = getTicketRatingScale(field);
+        const current = Number(value) || 0;
+        const asStars = field.validation_rules?.ratingStyle !== "scale";
+        return (
+          <div id={field.slug} className="flex flex-wrap gap-1" role="radiogroup" aria-label={field.name}>
+            {Array.from({ length: max }, (_, idx) => idx + 1).map((score) => (
+              <button
+                key={score}
+                type="button"
+                role="radio"
+                aria-checked={current === score}
+                aria-label={`${score} of ${max}`}
+                // Clicking the current score again clears the rating
+                onClick={() => onChange(current === score ? undefined : score)}
+                className={cn(
+                  "transition-colors",
+                  asStars
+                    ? "p-0.5"
+                    : "h-9 w-9 rounded-md border text-sm font-medium",
+                  !asStars && (current === score ? "bg-primary text-primary-foreground border-primary" : "hover:bg-muted"),
+                  !asStars && error && "border-destructive"
+                )}
               >
-                {imagesUploading ? (
-                  <>
-                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                    Uploading...
-                  </>
+                {asStars ? (
+                  <Star
+                    className={cn(
+                      "w-6 h-6",
+                      score <= current ? "fill-yellow-400 text-yellow-400" : "text-muted-foreground"
+                    )}
+                  />
                 ) : (
-                  <>
-                    <ImageIcon className="w-4 h-4 mr-2" />
-                    Upload Image{images.length > 0 ? "s" : ""}
-                  </>
+                  score
                 )}
-              </Button>
-            </div>
-            
-            {images.length > 0 && (
-              <div className="flex flex-wrap gap-3">
-                {images.map((imageUrl, idx) => (
-                  <div key={idx} className="relative w-28 h-28 rounded overflow-hidden border group">
-                    <Image
-                      src={imageUrl}
-                      alt={`Upload ${idx + 1}`}
-                      fill
-                      sizes="112px"
-                      className="object-cover"
-                      style={{ objectFit: 'cover' }}
+              </button>
+            ))}
+          </div>
+        );
+      }
+
+      case "email":
+      case "phone":
+        return (
+          <Input
+            id={field.slug}
+            type={field.field_type === "email" ? "email" : "tel"}
+            inputMode={field.field_type === "email" ? "email" : "tel"}
+            value={typeof value === "string" ? value : ""}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder={placeholder || (field.field_type === "email" ? "name@example.com" : "10-digit mobile number")}
+            className={cn(error && "border-destructive")}
+          />
+        );
+
+      case "location":
+        return (
+          <LocationFieldInput
+            slug={field.slug}
+            level={getTicketLocationLevel(field)}
+            value={value}
+            onChange={onChange}
+            error={error}
+          />
+        );
+
+      case "group": {
+        const subfields = getTicketGroupFields(field);
+        const items = Array.isArray(value) ? (value as Array<Record<string, unknown>>) : [];
+        const rules = field.validation_rules || {};
+        const itemLabel = typeof rules.itemLabel === "string" && rules.itemLabel.trim() ? rules.itemLabel.trim() : "Item";
+        const maxItems = Number(rules.maxItems) || Infinity;
+
+        const updateItem = (index: number, slug: string, next: unknown) => {
+          onChange(items.map((item, idx) => (idx === index ? { ...item, [slug]: next } : item)));
+        };
+
+        return (
+          <div className="space-y-3">
+            {items.map((item, index) => (
+              <div key={index} className="rounded-md border p-3 space-y-3 bg-muted/20">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">
+                    {itemLabel} {index + 1}
+                  </span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    aria-label={`Remove ${itemLabel} ${index + 1}`}
+                    onClick={() => onChange(items.filter((_, idx) => idx !== index))}
+                  >
+                    <Trash2 className="w-4 h-4 text-destructive" />
+                  </Button>
+                </div>
+                <div className="grid gap-3 sm:grid-cols-2">
+                  {subfields.map((subfield, subIndex) => (
+                    <DynamicFieldRenderer
+                      key={subfield.slug}
+                      field={{
+                        id: subIndex,
+                        name: subfield.name,
+                        slug: `${field.slug}-${index}-${subfield.slug}`,
+                        field_type: subfield.field_type,
+                        required: Boolean(subfield.required),
+                        placeholder: null,
+                        help_text: null,
+                        validation_rules: subfield.validation_rules ?? null,
+                        display_order: subIndex,
+                        options: (subfield.options ?? []).map((option) => ({
+                          label: option.label || option.value,
+                          value: option.value,
+                        })),
+                      }}
+                      value={item[subfield.slug]}
+                      onChange={(next) => updateItem(index, subfield.slug, next)}
                     />
-                    <button
-                      type="button"
-                      aria-label="Remove image"
-                      onClick={() => removeImage(imageUrl)}
-                      className="absolute top-1 right-1 bg-white/80 p-1 rounded hover:bg-white transition-colors z-10"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </button>
-                  </div>
-                ))}
+                  ))}
+                </div>
               </div>
-            )}
-            
-            {images.length === 0 && field.required && (
-              <p className="text-xs text-destructive">At least one image is required</p>
-            )}
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => onChange([...items, {}])}
+              disabled={items.length >= maxItems}
+              className={cn(error && "border-destructive")}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add {itemLabel}
+            </Button>
           </div>
         );
       }
@@ -0,0 +1,140 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { logger } from "@/lib/logger";
+import { api, endpoints } from "@/lib/api/client";
+import type { HostelFloor } from "@/lib/hostel/hostelRooms";
+import type { TicketLocationLevel, TicketLocationValue } from "@/schemas/business/ticketForm";
+
+/**
+ * Hostel → floor → room picker for "location" fields, driven by the hostel master data.
+ * Each choice resets the levels below it.
+ */
+
+interface LocationFieldInputProps {
+  slug: string;
+  level: TicketLocationLevel;
+  value: unknown;
+  onChange: (value: TicketLocationValue | undefined) => void;
+  error?: string;
+}
+
+function asLocation(value: unknown): Partial<TicketLocationValue> {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as Partial<TicketLocationValue>) : {};
+}
+
+export function LocationFieldInput({ slug, level, value, onChange, error }: LocationFieldInputProps) {
+  const location = asLocation(value);
+  const [hostels, setHostels] = useState<Array<{ id: number; name: string }>>([]);
+  const [floors, setFloors] = useState<HostelFloor[]>([]);
+  const [loadingFloors, setLoadingFloors] = useState(false);
+
+  useEffect(() => {
+    api
+      .get<{ hostels: Array<{ id: number; name: string }> }>(endpoints.master.hostels, { skipErrorToast: true })
+      .then(({ data }) => setHostels(data.hostels || []))
+      .catch((err) => logger.error("Failed to load hostels", err, { component: "LocationFieldInput", fieldSlug: slug }));
+  }, [slug]);
+
+  const hostelId = location.hostel_id;
+  useEffect(() => {
+    if (!hostelId || level === "hostel") {
+      setFloors([]);
+      return;
+    }
+    let cancelled = false;
+    setLoadingFloors(true);
+    api
+      .get<{ floors: HostelFloor[] }>(endpoints.master.hostelRooms(hostelId), { skipErrorToast: true })
+      .then(({ data }) => {
+        if (!cancelled) setFloors(data.floors || []);
+      })
+      .catch((err) => logger.error("Failed to load hostel rooms", err, { component: "LocationFieldInput", fieldSlug: slug }))
+      .finally(() => {
+        if (!cancelled) setLoadingFloors(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [hostelId, level, slug]);
+
+  const rooms = floors.find((floor) => floor.floor === location.floor)?.rooms ?? [];
+  const noRooms = !loadingFloors && hostelId && floors.length === 0;
+
+  const selectHostel = (id: string) => {
+    const hostel = hostels.find((h) => String(h.id) === id);
+    onChange(hostel ? { hostel_id: hostel.id, hostel: hostel.name } : undefined);
+  };
+
+  const selectFloor = (floor: string) => {
+    if (!location.hostel_id) return;
+    onChange({ hostel_id: location.hostel_id, hostel: location.hostel, floor });
+  };
+
+  const selectRoom = (id: string) => {
+    const room = rooms.find((r) => String(r.id) === id);
+    if (!location.hostel_id || !room) return;
+    onChange({ hostel_id: location.hostel_id, hostel: location.hostel, floor: location.floor, room_id: room.id, room: room.room_no });
+  };
+
+  return (
+    <div className={cn("grid gap-2", level === "room" ? "sm:grid-cols-3" : level === "floor" ? "sm:grid-cols-2" : "")}>
+      <Select value={hostelId ? String(hostelId) : ""} onValueChange={selectHostel}>
+        <SelectTrigger id={slug} className={cn(error && "border-destructive")}>
+          <SelectValue placeholder="Hostel" />
+        </SelectTrigger>
+        <SelectContent>
+          {hostels.map((hostel) => (
+            <SelectItem key={hostel.id} value={String(hostel.id)}>
+              {hostel.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {level !== "hostel" && (
+        <Select value={location.floor ?? ""} onValueChange={selectFloor} disabled={!hostelId || loadingFloors}>
+          <SelectTrigger className={cn(error && "border-destructive")}>
+            <SelectValue placeholder={loadingFloors ? "Loading..." : noRooms ? "No floors listed" : "Floor"} />
+          </SelectTrigger>
+          <SelectContent>
+            {floors.map((floor) => (
+              <SelectItem key={floor.floor} value={floor.floor}>
+                {floor.floor}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      {level === "room" && (
+        <Select
+          value={location.room_id ? String(location.room_id) : ""}
+          onValueChange={selectRoom}
+          disabled={!location.floor}
+        >
+          <SelectTrigger className={cn(error && "border-destructive")}>
+            <SelectValue placeholder="Room" />
+          </SelectTrigger>
+          <SelectContent>
+            {rooms.map((room) => (
+              <SelectItem key={room.id} value={String(room.id)}>
+                {room.room_no}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+}
+
+export default LocationFieldInput;
@@ -6,10 +6,12 @@ import { MessageSquare, User, AlertCircle } from "lucide-react";
 import { format } from "date-fns";
 import { CommentForm } from "@/components/features/tickets/forms/CommentForm";
 import type { TicketComment, TicketStatusDisplay } from "@/types/ticket";
+import type { AttachmentRules } from "@/lib/ticket/utils/attachmentRules";
 
 interface TicketConversationProps {
   comments: TicketComment[];
   ticketId: number;
+  attachmentRules: AttachmentRules;
   status: TicketStatusDisplay | null;
   normalizedStatus: string;
   emptyStateTitle?: string;
@@ -20,6 +22,7 @@ interface TicketConversationProps {
 export function TicketConversation({
   comments,
   ticketId,
+  attachmentRules,
   status,
   normalizedStatus,
   emptyStateTitle = "No comments yet",
@@ -28,7 +31,8 @@ export function TicketConversation({
 }: TicketConversationProps) {
   const canComment = normalizedStatus === "awaiting_student" || normalizedStatus === "awaiting_student_response";
   const lastComment = comments.length > 0 ? comments[comments.length - 1] : null;
-  const showAlert = canComment && lastComment && lastComment.source !== "website";
+  const lastCommentIsFromStudent = lastComment?.authorRole === "student" || lastComment?.source === "website";
+  const showAlert = canComment && lastComment && !lastCommentIsFromStudent;
   
   // Merge optimistic comments with server comments
   const allComments = [
@@ -39,6 +43,7 @@ export function TicketConversation({
       createdAt: opt.createdAt,
       created_at: opt.createdAt,
       author: opt.source === "website" ? "You" : undefined,
+      authorRole: opt.source === "website" ? "student" : undefined,
     })),
   ];
 
@@ -63,7 +68,7 @@ export function TicketConversation({
             <div className="space-y-4">
               {allComments.map((comment, idx) => {
                 const commentCreatedAt = comment.createdAt || comment.created_at;
-                const isStudent = comment.source === "website";
+                const isStudent = comment.authorRole === "student" || comment.source === "website";
                 const isAdmin = !isStudent;
 
                 return (
@@ -122,6 +127,7 @@ export function TicketConversation({
             )}
             <CommentForm 
               ticketId={ticketId} 
+              attachmentRules={attachmentRules}
               currentStatus={status?.value || undefined}
               comments={comments}
             />
@@ -7,7 +7,11 @@ import type { TATInfo } from "@/types/ticket";
 interface TicketQuickInfoProps {
   ticketProgress: number;
   normalizedStatus: string;
-  assignedStaff: { name: string; email: string | null } | null;
+  assignedStaff: {
+    name: string;
+    email: string | null;
+    coverage?: { awayUntil: string; coveredBy: string | null } | null;
+  } | null;
   tatInfo: TATInfo;
   ticket: {
     resolved_at?: Date | string | null;
@@ -76,6 +80,15 @@ export function TicketQuickInfo({
           <p className="text-base font-semibold break-words">
             {assignedStaff ? assignedStaff.name : <span className="text-muted-foreground">Not assigned</span>}
           </p>
+          {assignedStaff?.coverage && (
+            <div className="mt-2 pt-2 border-t border-purple-200 dark:border-purple-800">
+              <p className="text-xs text-muted-foreground">
+                {assignedStaff.coverage.coveredBy
+                  ? `Covered by ${assignedStaff.coverage.coveredBy} while away until ${format(new Date(assignedStaff.coverage.awayUntil), 'MMM d, yyyy')}`
+                  : `Away until ${format(new Date(assignedStaff.coverage.awayUntil), 'MMM d, yyyy')}`}
+              </p>
+            </div>
+          )}
         </CardContent>
       </Card>
 
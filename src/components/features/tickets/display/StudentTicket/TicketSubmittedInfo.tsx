@@ -2,6 +2,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { FileText, MapPin, ImageIcon, Info } from "lucide-react";
 import { ImageLightbox } from "@/components/features/tickets/display/ImageLightbox";
 import { DynamicFieldDisplay } from "@/components/features/tickets/display/DynamicFieldDisplay";
+import { TicketAttachmentList } from "@/components/features/tickets/display/TicketAttachmentList";
+import type { TicketAttachment } from "@/types/ticket";
 
 interface DynamicField {
   key: string;
@@ -14,6 +16,7 @@ interface TicketSubmittedInfoProps {
   description: string | null;
   location: string | null;
   images: string[];
+  attachments: TicketAttachment[];
   dynamicFields: DynamicField[];
 }
 
@@ -21,6 +24,7 @@ export function TicketSubmittedInfo({
   description,
   location,
   images,
+  attachments,
   dynamicFields,
 }: TicketSubmittedInfoProps) {
   // Filter out TAT-related fields
@@ -79,6 +83,12 @@ export function TicketSubmittedInfo({
           </div>
         )}
 
+        {attachments.length > 0 && (
+          <div className="p-3 sm:p-4 rounded-lg bg-muted/50 border">
+            <TicketAttachmentList attachments={attachments} />
+          </div>
+        )}
+
         {filteredFields.length > 0 && (
           <div className="space-y-3">
             {filteredFields.map((field) => (
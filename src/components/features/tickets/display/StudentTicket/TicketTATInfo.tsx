@@ -1,5 +1,5 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Clock, TrendingUp } from "lucide-react";
+import { Clock, PauseCircle, TrendingUp } from "lucide-react";
 import { format } from "date-fns";
 import type { TATInfo } from "@/types/ticket";
 
@@ -10,8 +10,9 @@ interface TicketTATInfoProps {
 export function TicketTATInfo({ tatInfo }: TicketTATInfoProps) {
   const hasTATInfo = tatInfo.tatSetAt || tatInfo.tatSetBy || tatInfo.tat;
   const hasExtensions = tatInfo.tatExtensions.length > 0;
+  const hasPauses = tatInfo.pauses.length > 0;
 
-  if (!hasTATInfo && !hasExtensions) return null;
+  if (!hasTATInfo && !hasExtensions && !hasPauses) return null;
 
   return (
     <>
@@ -103,6 +104,62 @@ export function TicketTATInfo({ tatInfo }: TicketTATInfoProps) {
           </CardContent>
         </Card>
       )}
+
+      {hasPauses && (
+        <Card className="border-2">
+          <CardHeader className="pb-3">
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <div className="p-1.5 rounded-lg bg-primary/10">
+                <PauseCircle className="w-4 h-4 text-primary" />
+              </div>
+              SLA Pauses ({tatInfo.pauses.length})
+              {tatInfo.isPaused && (
+                <span className="ml-auto text-xs font-medium px-2 py-0.5 rounded-full bg-slate-100 text-slate-700 dark:bg-slate-900/40 dark:text-slate-300">
+                  Paused now
+                </span>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {tatInfo.pauses.map((pause, index) => (
+                <div key={index} className="p-3 rounded-lg bg-muted/50 border">
+                  <div className="flex items-center justify-between mb-2">
+                    <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+                      {pause.status.replace(/_/g, " ")}
+                    </p>
+                    {pause.pausedBusinessSeconds !== null && (
+                      <p className="text-xs text-muted-foreground">
+                        {formatPausedDuration(pause.pausedBusinessSeconds)} of working time
+                      </p>
+                    )}
+                  </div>
+                  <div className="grid grid-cols-2 gap-2 text-sm">
+                    <div>
+                      <span className="text-muted-foreground">Paused: </span>
+                      <span className="font-medium">{format(new Date(pause.pausedAt), 'MMM d, h:mm a')}</span>
+                    </div>
+                    <div>
+                      <span className="text-muted-foreground">Resumed: </span>
+                      <span className="font-medium">
+                        {pause.resumedAt ? format(new Date(pause.resumedAt), 'MMM d, h:mm a') : "—"}
+                      </span>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
     </>
   );
 }
+
+function formatPausedDuration(seconds: number): string {
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const remainder = minutes % 60;
+  return remainder > 0 ? `${hours}h ${remainder}m` : `${hours}h`;
+}
@@ -1,3 +1,4 @@
+import Link from "next/link";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { 
   CalendarCheck, 
@@ -7,7 +8,11 @@ import {
   Clock, 
   RotateCw, 
   MessageSquare, 
-  AlertTriangle 
+  AlertTriangle,
+  PauseCircle,
+  PlayCircle,
+  GitMerge,
+  GitBranch 
 } from "lucide-react";
 import { format } from "date-fns";
 import type { TicketTimelineEntry } from "@/types/ticket";
@@ -20,6 +25,10 @@ const ICON_MAP: Record<string, React.ComponentType<{ className?: string }>> = {
   RotateCw,
   MessageSquare,
   AlertTriangle,
+  PauseCircle,
+  PlayCircle,
+  GitMerge,
+  GitBranch,
 };
 
 interface TicketTimelineProps {
@@ -52,7 +61,15 @@ export function TicketTimeline({ entries }: TicketTimelineProps) {
                   </div>
                   <div className="flex-1 min-w-0 pb-4">
                     <div className="p-3 rounded-lg bg-muted/50 border">
-                      <p className="text-sm font-semibold mb-1.5 break-words">{entry.title}</p>
+                      <p className="text-sm font-semibold mb-1.5 break-words">
+                        {entry.href ? (
+                          <Link href={entry.href} className="hover:underline">
+                            {entry.title}
+                          </Link>
+                        ) : (
+                          entry.title
+                        )}
+                      </p>
                       {entry.date && (
                         <div className="flex items-center gap-2 text-xs text-muted-foreground">
                           <Calendar className="w-3.5 h-3.5" />
@@ -0,0 +1,40 @@
+import { Download, FileText, Paperclip } from "lucide-react";
+import { formatFileSize } from "@/lib/ticket/utils/attachmentRules";
+import type { TicketAttachment } from "@/types/ticket";
+
+interface TicketAttachmentListProps {
+  attachments: TicketAttachment[];
+}
+
+/**
+ * Files attached to a ticket and its comments; links go through the access-checked download route
+ */
+export function TicketAttachmentList({ attachments }: TicketAttachmentListProps) {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Paperclip className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+        <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wide">Files ({attachments.length})</p>
+      </div>
+      <ul className="space-y-1.5">
+        {attachments.map((attachment) => (
+          <li key={attachment.id}>
+            <a
+              href={attachment.download_url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-2 rounded-md border bg-muted/30 px-3 py-2 text-sm hover:bg-muted/60 transition-colors"
+            >
+              <FileText className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+              <span className="flex-1 min-w-0 truncate">{attachment.file_name}</span>
+              <span className="text-xs text-muted-foreground whitespace-nowrap">{formatFileSize(attachment.file_size)}</span>
+              <Download className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+            </a>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
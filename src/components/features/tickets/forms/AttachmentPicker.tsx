@@ -0,0 +1,94 @@
+"use client";
+
+import { useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { FileText, Loader2, Paperclip, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { formatFileSize, type AttachmentRules } from "@/lib/ticket/utils/attachmentRules";
+import type { QueuedAttachment } from "@/hooks/forms/useAttachmentQueue";
+
+export interface AttachmentPickerProps {
+  files: QueuedAttachment[];
+  rules: AttachmentRules;
+  onAdd: (files: File[]) => void;
+  onRemove: (key: string) => void;
+  uploading?: boolean;
+  disabled?: boolean;
+  id?: string;
+  invalid?: boolean;
+}
+
+/**
+ * File picker for ticket attachments; picked files are listed until the form uploads them
+ */
+export function AttachmentPicker({
+  files,
+  rules,
+  onAdd,
+  onRemove,
+  uploading = false,
+  disabled = false,
+  id,
+  invalid = false,
+}: AttachmentPickerProps) {
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          ref={fileInputRef}
+          id={id}
+          type="file"
+          multiple
+          className="hidden"
+          accept={rules.allowedTypes.join(",")}
+          onChange={(e) => {
+            onAdd(Array.from(e.target.files ?? []));
+            e.target.value = "";
+          }}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled || uploading}
+          className={cn(invalid && "border-destructive")}
+        >
+          <Paperclip className="w-4 h-4 mr-2" />
+          Attach Files
+        </Button>
+        {uploading ? (
+          <span className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Loader2 className="w-3.5 h-3.5 animate-spin" />
+            Uploading...
+          </span>
+        ) : (
+          <span className="text-xs text-muted-foreground">Max {formatFileSize(rules.maxBytes)} each</span>
+        )}
+      </div>
+
+      {files.length > 0 && (
+        <ul className="space-y-1.5">
+          {files.map((item) => (
+            <li key={item.key} className="flex items-center gap-2 rounded-md border bg-muted/30 px-2.5 py-1.5 text-sm">
+              <FileText className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+              <span className="flex-1 min-w-0 truncate">{item.file.name}</span>
+              <span className="text-xs text-muted-foreground whitespace-nowrap">{formatFileSize(item.file.size)}</span>
+              <button
+                type="button"
+                aria-label={`Remove ${item.file.name}`}
+                onClick={() => onRemove(item.key)}
+                disabled={uploading}
+                className="p-0.5 rounded text-muted-foreground hover:text-foreground transition-colors"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -8,18 +8,24 @@ import { toast } from "sonner";
 import { normalizeStatusForComparison, formatStatus } from "@/lib/utils";
 import { logger } from "@/lib/logger";
 import { AriaLiveRegion } from "@/lib/ui/aria-live-region";
+import { AttachmentPicker } from "@/components/features/tickets/forms/AttachmentPicker";
+import { useAttachmentQueue } from "@/hooks/forms/useAttachmentQueue";
+import type { AttachmentRules } from "@/lib/ticket/utils/attachmentRules";
 
 interface CommentFormProps {
 	ticketId: number;
+	/** The ticket category's attachment rules */
+	attachmentRules: AttachmentRules;
 	currentStatus?: string;
-	comments?: Array<{ source?: string; author?: string; [key: string]: unknown }>;
+	comments?: Array<{ source?: string; author?: string; authorRole?: string | null; [key: string]: unknown }>;
 	onCommentAdded?: (comment: { text: string; source: string; createdAt: Date }) => void;
 }
 
-export function CommentForm({ ticketId, currentStatus, comments = [], onCommentAdded }: CommentFormProps) {
+export function CommentForm({ ticketId, attachmentRules, currentStatus, comments = [], onCommentAdded }: CommentFormProps) {
 	const router = useRouter();
 	const [comment, setComment] = useState("");
 	const [loading, setLoading] = useState(false);
+	const { queued, uploading, addFiles, removeFile, uploadQueued } = useAttachmentQueue(attachmentRules);
 
 	// Normalize status for comparison (handles both uppercase enum and lowercase constants)
 	const normalizedStatus = normalizeStatusForComparison(currentStatus);
@@ -27,8 +33,8 @@ export function CommentForm({ ticketId, currentStatus, comments = [], onCommentA
 	// Check if the last comment was from a student
 	// Students can only reply if the last comment was from an admin/committee (not from a student)
 	const lastComment = comments.length > 0 ? comments[comments.length - 1] : null;
-	const lastCommentSource = lastComment?.source;
-	const lastCommentIsFromStudent = lastCommentSource === "website";
+	// "website" is the legacy source for student comments (still used for optimistic entries)
+	const lastCommentIsFromStudent = lastComment?.authorRole === "student" || lastComment?.source === "website";
 	
 	// Check if student can reply:
 	// 1. Status must be "awaiting_student" (canonical value from database)
@@ -71,6 +77,14 @@ export function CommentForm({ ticketId, currentStatus, comments = [], onCommentA
 			});
 
 			if (response.ok) {
+				// Files are attached to the comment they were sent with
+				if (queued.length > 0) {
+					const { comment: created } = (await response.json().catch(() => ({}))) as { comment?: { id?: number } };
+					const { failed } = await uploadQueued(ticketId, created?.id);
+					if (failed.length > 0) {
+						toast.error(`${failed.length} file${failed.length > 1 ? "s" : ""} could not be attached`);
+					}
+				}
 				toast.success("Comment added successfully");
 				router.refresh(); // Refresh to show new comment from server
 			} else {
@@ -120,6 +134,14 @@ export function CommentForm({ ticketId, currentStatus, comments = [], onCommentA
 				rows={3}
 				disabled={loading}
 			/>
+			<AttachmentPicker
+				files={queued}
+				rules={attachmentRules}
+				uploading={uploading}
+				disabled={loading}
+				onAdd={(files) => addFiles(files)}
+				onRemove={removeFile}
+			/>
 			<Button type="submit" disabled={loading || !comment.trim()}>
 				{loading ? "Adding..." : canReply ? "Send Reply" : "Add Comment"}
 			</Button>
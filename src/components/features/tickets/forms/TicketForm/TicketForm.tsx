@@ -9,7 +9,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Progress } from "@/components/ui/progress";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Separator } from "@/components/ui/separator";
-import { Loader2, ArrowLeft } from "lucide-react";
+import { Loader2, ArrowLeft, Eye } from "lucide-react";
+import { toast } from "sonner";
 
 import { DynamicFieldRenderer } from "@/components/features/tickets/display/DynamicFieldRenderer";
 import { ProfileFieldsRenderer } from "@/components/features/tickets/display/ProfileFieldsRenderer";
@@ -25,14 +26,17 @@ import { shouldDisplayField, isFieldRequired, isMultiSelectField } from "./field
 // Hooks
 import { useTicketFormState } from "./hooks/useTicketFormState";
 import { useTicketSubmission } from "./hooks/useTicketSubmission";
-import { useImageUpload } from "./hooks/useImageUpload";
+import { useSimilarTickets } from "./hooks/useSimilarTickets";
+import { useAttachmentQueue } from "@/hooks/forms/useAttachmentQueue";
+import { resolveAttachmentRules } from "@/lib/ticket/utils/attachmentRules";
 
 // Components
 import { CategorySelector } from "./components/CategorySelector";
 import { SubcategorySelector } from "./components/SubcategorySelector";
 import { DescriptionEditor } from "./components/DescriptionEditor";
-import { GeneralImageUpload } from "./components/GeneralImageUpload";
+import { GeneralAttachmentUpload } from "./components/GeneralAttachmentUpload";
 import { SubmitBar } from "./components/SubmitBar";
+import { SimilarTicketsPanel } from "./components/SimilarTicketsPanel";
 
 export default function TicketForm(props: TicketFormProps) {
   const {
@@ -43,6 +47,8 @@ export default function TicketForm(props: TicketFormProps) {
     dynamicFields: dynamicFieldsProp,
     fieldOptions: fieldOptionsProp,
     hostels: hostelsProp,
+    attachmentRules: attachmentRulesProp,
+    preview = false,
   } = props;
 
   const router = useRouter();
@@ -85,7 +91,6 @@ export default function TicketForm(props: TicketFormProps) {
   } = useTicketFormState(student);
 
   const [loading, setLoading] = useState(false);
-  const { uploadImage, imagesUploading } = useImageUpload();
 
   // Derived state
   const currentSchema = useMemo(() => {
@@ -98,6 +103,22 @@ export default function TicketForm(props: TicketFormProps) {
     return currentSchema.subcategories.find((s) => s.id === form.subcategoryId) || null;
   }, [currentSchema, form.subcategoryId]);
 
+  // Attachment rules of the selected category (defaults until one is picked)
+  const defaultAttachmentRules = useMemo(() => resolveAttachmentRules(), []);
+  const rulesForCategory = useCallback(
+    (categoryId: number | null) => (categoryId && attachmentRulesProp?.[categoryId]) || defaultAttachmentRules,
+    [attachmentRulesProp, defaultAttachmentRules]
+  );
+  const attachmentRules = useMemo(() => rulesForCategory(form.categoryId), [rulesForCategory, form.categoryId]);
+  const {
+    queued: queuedFiles,
+    uploading: attachmentsUploading,
+    addFiles,
+    removeFile,
+    retainAllowed,
+    uploadQueued,
+  } = useAttachmentQueue(attachmentRules);
+
   // Clean up hidden fields when dependencies change
   useEffect(() => {
     if (!currentSubcategory?.fields?.length) return;
@@ -128,78 +149,55 @@ export default function TicketForm(props: TicketFormProps) {
     [form, currentSchema, currentSubcategory]
   );
 
-  // Image upload handlers
-  const handleImageFiles = useCallback(
-    async (files: FileList | null) => {
-      if (!files || files.length === 0) return;
-      for (let i = 0; i < files.length; i++) {
-        const file = files[i];
-        if (!file) continue;
-        try {
-          const url = await uploadImage(file);
-          setFormPartial((prev) => ({
-            ...prev,
-            details: {
-              ...(prev.details || {}),
-              images: [...((prev.details?.images as string[]) || []), url],
-            },
-          }));
-        } catch (error) {
-          // Error already handled in uploadImage hook
+  // Upload fields hold the names of their picked files (the files are uploaded after the ticket is created)
+  useEffect(() => {
+    const uploadFields = (currentSubcategory?.fields || []).filter((field) => field.field_type === "upload");
+    if (uploadFields.length === 0) return;
+    setFormPartial((prev) => {
+      const nextDetails = { ...(prev.details || {}) };
+      let changed = false;
+      for (const field of uploadFields) {
+        if (!shouldDisplayField(field, prev)) continue;
+        const names = queuedFiles.filter((item) => item.fieldSlug === field.slug).map((item) => item.file.name);
+        const current = Array.isArray(nextDetails[field.slug]) ? (nextDetails[field.slug] as string[]) : [];
+        if (names.length === current.length && names.every((name, index) => name === current[index])) continue;
+        if (names.length > 0) {
+          nextDetails[field.slug] = names;
+        } else {
+          delete nextDetails[field.slug];
         }
+        changed = true;
       }
-    },
-    [uploadImage, setFormPartial]
-  );
-
-  const removeImage = useCallback(
-    (url: string) => {
-      setFormPartial((prev) => {
-        const images = Array.isArray(prev.details?.images) ? prev.details.images : [];
-        const newImages = images.filter((u: unknown) => typeof u === "string" && u !== url);
-        return {
-          ...prev,
-          details: {
-            ...(prev.details || {}),
-            images: newImages,
-          },
-        };
-      });
-    },
-    [setFormPartial]
-  );
+      if (!changed) return prev;
+      return { ...prev, details: nextDetails };
+    });
+  }, [queuedFiles, currentSubcategory?.fields, setFormPartial]);
 
-  // Field-specific image upload handler
-  const createImageUploadHandler = useCallback(
-    (fieldSlug: string) => {
-      return async (file: File) => {
-        try {
-          const url = await uploadImage(file);
-          setFormPartial((prev) => {
-            const currentImages = Array.isArray(prev.details?.[fieldSlug])
-              ? (prev.details[fieldSlug] as string[])
-              : prev.details?.[fieldSlug]
-                ? [String(prev.details[fieldSlug])]
-                : [];
-
-            return {
-              ...prev,
-              details: {
-                ...(prev.details || {}),
-                [fieldSlug]: [...currentImages, url],
-              },
-            };
-          });
-        } catch (error) {
-          // Error already handled in uploadImage hook
-        }
-      };
-    },
-    [uploadImage, setFormPartial]
+  // Submission
+  const { handleSubmit: submitTicket } = useTicketSubmission(
+    form,
+    loading,
+    setLoading,
+    validateForm,
+    setErrors,
+    queuedFiles.length > 0 ? uploadQueued : undefined
   );
 
-  // Submission
-  const { handleSubmit } = useTicketSubmission(form, loading, setLoading, validateForm);
+  // The preview never files a ticket; it only runs the same validation
+  const handleSubmit = useCallback(() => {
+    if (!preview) {
+      submitTicket();
+      return;
+    }
+    if (validateForm()) {
+      toast.success("The form is valid. Nothing was submitted (preview).");
+    } else {
+      toast.error("Please fix the highlighted errors");
+    }
+  }, [preview, submitTicket, validateForm]);
+
+  // Duplicate check: similar open tickets the student could follow instead
+  const { similarTickets, checking: checkingSimilar } = useSimilarTickets(form, !preview);
 
   // Autofill profile fields from student data
   useEffect(() => {
@@ -274,8 +272,17 @@ export default function TicketForm(props: TicketFormProps) {
             value={form.details[f.slug]}
             onChange={(val) => setDetail(f.slug, val)}
             error={errors[f.slug]}
-            onImageUpload={f.field_type === "upload" ? createImageUploadHandler(f.slug) : undefined}
-            imagesUploading={f.field_type === "upload" ? imagesUploading : false}
+            attachments={
+              f.field_type === "upload"
+                ? {
+                    files: queuedFiles.filter((item) => item.fieldSlug === f.slug),
+                    rules: attachmentRules,
+                    uploading: attachmentsUploading,
+                    onAdd: (files) => addFiles(files, f.slug),
+                    onRemove: removeFile,
+                  }
+                : undefined
+            }
           />
         ))}
       </div>
@@ -285,8 +292,11 @@ export default function TicketForm(props: TicketFormProps) {
     form,
     errors,
     setDetail,
-    createImageUploadHandler,
-    imagesUploading,
+    queuedFiles,
+    attachmentRules,
+    attachmentsUploading,
+    addFiles,
+    removeFile,
   ]);
 
   const ProfileFieldsSectionMemo = useMemo(() => {
@@ -344,34 +354,42 @@ export default function TicketForm(props: TicketFormProps) {
     );
   }, [currentSubcategory?.fields, form.description, errors.description, setFormPartial, setErrors]);
 
-  const GeneralImageUploadMemo = useMemo(() => {
+  const GeneralAttachmentUploadMemo = useMemo(() => {
     const hasUploadField = currentSubcategory?.fields?.some((field) => field.field_type === "upload");
     if (hasUploadField) return null;
 
-    const images: string[] = (form.details?.images as string[]) || [];
-
     return (
-      <GeneralImageUpload
-        images={images}
-        uploading={imagesUploading}
-        onUpload={handleImageFiles}
-        onRemove={removeImage}
+      <GeneralAttachmentUpload
+        files={queuedFiles.filter((item) => item.fieldSlug === null)}
+        rules={attachmentRules}
+        uploading={attachmentsUploading}
+        onAdd={(files) => addFiles(files)}
+        onRemove={removeFile}
       />
     );
-  }, [currentSubcategory?.fields, form.details?.images, imagesUploading, handleImageFiles, removeImage]);
+  }, [currentSubcategory?.fields, queuedFiles, attachmentRules, attachmentsUploading, addFiles, removeFile]);
 
   return (
     <div className="max-w-3xl mx-auto p-3 sm:p-4 md:p-6 space-y-4 sm:space-y-6">
       <div className="flex items-center justify-between">
-        <Link href="/student/dashboard">
+        <Link href={preview ? "/superadmin/dashboard/categories" : "/student/dashboard"}>
           <Button variant="ghost" className="gap-1.5 sm:gap-2 text-sm sm:text-base h-8 sm:h-10">
             <ArrowLeft className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
-            <span className="hidden sm:inline">Back to Tickets</span>
+            <span className="hidden sm:inline">{preview ? "Back to Categories" : "Back to Tickets"}</span>
             <span className="sm:hidden">Back</span>
           </Button>
         </Link>
       </div>
 
+      {preview && (
+        <Alert>
+          <Eye className="w-4 h-4" />
+          <AlertDescription className="text-xs sm:text-sm">
+            Preview of the unpublished draft, exactly as students will see it once published. Submitting only checks the form.
+          </AlertDescription>
+        </Alert>
+      )}
+
       <Card className="border-2 shadow-lg">
         <CardHeader className="space-y-3 p-4 sm:p-6">
           <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 sm:gap-4">
@@ -436,8 +454,9 @@ export default function TicketForm(props: TicketFormProps) {
                     setFormPartial({
                       categoryId,
                       subcategoryId: null,
-                      details: { images: form.details?.images || [] },
+                      details: {},
                     });
+                    retainAllowed(rulesForCategory(categoryId), { keepFieldFiles: false });
                     setErrors((p) => {
                       const c = { ...p };
                       delete c.category;
@@ -454,7 +473,8 @@ export default function TicketForm(props: TicketFormProps) {
                   value={form.subcategoryId}
                   error={errors.subcategory}
                   onChange={(subcategoryId) => {
-                    setFormPartial({ subcategoryId, details: { images: form.details?.images || [] } });
+                    setFormPartial({ subcategoryId, details: {} });
+                    retainAllowed(attachmentRules, { keepFieldFiles: false });
                     setErrors((p) => {
                       const c = { ...p };
                       delete c.subcategory;
@@ -467,12 +487,14 @@ export default function TicketForm(props: TicketFormProps) {
 
                 {DescriptionEditorMemo}
 
-                {GeneralImageUploadMemo}
+                {GeneralAttachmentUploadMemo}
 
                 <Separator />
 
                 {ProfileFieldsSectionMemo}
 
+                <SimilarTicketsPanel tickets={similarTickets} checking={checkingSimilar} />
+
                 <SubmitBar
                   form={form}
                   currentSubcategory={currentSubcategory}
@@ -0,0 +1,58 @@
+"use client";
+
+import { Label } from "@/components/ui/label";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { HelpCircle } from "lucide-react";
+import { AttachmentPicker } from "@/components/features/tickets/forms/AttachmentPicker";
+import { formatFileSize, type AttachmentRules } from "@/lib/ticket/utils/attachmentRules";
+import type { QueuedAttachment } from "@/hooks/forms/useAttachmentQueue";
+
+interface GeneralAttachmentUploadProps {
+  files: QueuedAttachment[];
+  rules: AttachmentRules;
+  uploading: boolean;
+  onAdd: (files: File[]) => void;
+  onRemove: (key: string) => void;
+}
+
+export function GeneralAttachmentUpload({
+  files,
+  rules,
+  uploading,
+  onAdd,
+  onRemove,
+}: GeneralAttachmentUploadProps) {
+  const hint = `Add photos, documents or short videos that help explain your issue. Max ${formatFileSize(rules.maxBytes)} each. Optional.`;
+
+  return (
+    <div className="space-y-2 border-t pt-4">
+      <div className="flex items-center gap-1.5 sm:gap-2">
+        <Label htmlFor="general-attachments" className="text-sm sm:text-base font-semibold">
+          Attachments
+        </Label>
+        <TooltipProvider>
+          <Tooltip>
+            <TooltipTrigger>
+              <HelpCircle className="w-4 h-4 text-muted-foreground" />
+            </TooltipTrigger>
+            <TooltipContent>
+              <p>{hint}</p>
+            </TooltipContent>
+          </Tooltip>
+        </TooltipProvider>
+      </div>
+      <p className="text-xs sm:text-sm text-muted-foreground">
+        Files are uploaded when you submit the ticket.
+      </p>
+
+      <AttachmentPicker
+        id="general-attachments"
+        files={files}
+        rules={rules}
+        uploading={uploading}
+        onAdd={onAdd}
+        onRemove={onRemove}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { BellPlus, Copy, Loader2, Users } from "lucide-react";
+import { api, endpoints } from "@/lib/api/client";
+import type { SimilarTicketSummary } from "../types";
+
+interface SimilarTicketsPanelProps {
+  tickets: SimilarTicketSummary[];
+  checking: boolean;
+}
+
+const MATCH_LABELS: Record<SimilarTicketSummary["matchedOn"][number], string> = {
+  text: "Similar description",
+  subcategory: "Same issue type",
+  location: "Same location",
+};
+
+export function SimilarTicketsPanel({ tickets, checking }: SimilarTicketsPanelProps) {
+  const router = useRouter();
+  const [followingId, setFollowingId] = useState<number | null>(null);
+
+  if (tickets.length === 0) {
+    return checking ? (
+      <p className="flex items-center gap-2 text-xs sm:text-sm text-muted-foreground">
+        <Loader2 className="w-3.5 h-3.5 animate-spin" />
+        Checking for similar open tickets…
+      </p>
+    ) : null;
+  }
+
+  const handleFollow = async (ticket: SimilarTicketSummary) => {
+    setFollowingId(ticket.id);
+    try {
+      await api.post(endpoints.ticketFollow(ticket.id), { followToken: ticket.followToken ?? null });
+      toast.success(`Following ticket #${ticket.id}`, {
+        description: "You'll get its status updates instead of filing a new ticket",
+      });
+      router.push("/student/dashboard");
+    } catch {
+      // Error toast shown by the API client
+      setFollowingId(null);
+    }
+  };
+
+  return (
+    <Alert className="border-amber-300 bg-amber-50 dark:bg-amber-950/20">
+      <Copy className="w-4 h-4" />
+      <AlertTitle className="text-sm sm:text-base">Is this already reported?</AlertTitle>
+      <AlertDescription className="space-y-3 text-xs sm:text-sm">
+        <p>
+          These open tickets look like yours. Follow one to get its updates instead of filing a duplicate,
+          or carry on if yours is different.
+        </p>
+        <ul className="space-y-2">
+          {tickets.map((ticket) => (
+            <li key={ticket.id} className="rounded-md border bg-background p-3 space-y-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-medium">#{ticket.id}</span>
+                <span className="font-medium truncate">
+                  {ticket.title || ticket.subcategoryName || ticket.categoryName || "Ticket"}
+                </span>
+                <Badge variant="outline">{ticket.status.label}</Badge>
+                {ticket.location && <Badge variant="secondary">{ticket.location}</Badge>}
+              </div>
+              {ticket.description && <p className="text-muted-foreground line-clamp-2">{ticket.description}</p>}
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex flex-wrap items-center gap-1.5 text-muted-foreground">
+                  {ticket.matchedOn.map((match) => (
+                    <Badge key={match} variant="outline" className="text-[10px] sm:text-xs font-normal">
+                      {MATCH_LABELS[match]}
+                    </Badge>
+                  ))}
+                  {ticket.followerCount > 0 && (
+                    <span className="flex items-center gap-1">
+                      <Users className="w-3 h-3" />
+                      {ticket.followerCount} following
+                    </span>
+                  )}
+                </div>
+                {ticket.isOwn ? (
+                  <Link href={`/student/dashboard/ticket/${ticket.id}`}>
+                    <Button type="button" size="sm" variant="outline">View your ticket</Button>
+                  </Link>
+                ) : ticket.isFollowing ? (
+                  <Badge variant="secondary">Following</Badge>
+                ) : (
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    className="gap-1.5"
+                    disabled={followingId !== null}
+                    onClick={() => handleFollow(ticket)}
+                  >
+                    {followingId === ticket.id ? (
+                      <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                    ) : (
+                      <BellPlus className="w-3.5 h-3.5" />
+                    )}
+                    Follow instead
+                  </Button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -6,15 +6,14 @@ import type {
   TicketFormState,
   CategorySchema,
   Subcategory,
-  DynamicField,
 } from "./types";
   // ProfileFieldConfig import removed
+import { validateTicketFields } from "@/schemas/business/ticketForm";
 import { validateRollNo, validateEmail, validatePhone } from "./validation";
 import {
   shouldDisplayField,
   isFieldRequired,
   isFieldValueFilled,
-  isMultiSelectField,
 } from "./fieldHelpers";
 
 // Re-export for convenience
@@ -75,74 +74,10 @@ export function validateTicketForm(
     }
   }
 
-  // Dynamic subcategory fields
-  const subFields = currentSubcategory?.fields || [];
-  for (const field of subFields) {
-    if (!shouldDisplayField(field, form)) continue;
-    const fv = form.details[field.slug];
-    const fieldIsRequired = isFieldRequired(field, form);
-
-    if (fieldIsRequired && !isFieldValueFilled(field, fv)) {
-      errors[field.slug] = `${field.name} is required`;
-      continue;
-    }
-
-    if (!isFieldValueFilled(field, fv)) {
-      continue;
-    }
-
-    const multiSelect = isMultiSelectField(field);
-    if (multiSelect) {
-      continue;
-    }
-
-    if (field.field_type === "boolean" || field.field_type === "upload") {
-      continue;
-    }
-
-    type ValidationRules = {
-      minLength?: number | null;
-      maxLength?: number | null;
-      pattern?: string | null;
-      errorMessage?: string | null;
-      min?: number | null;
-      max?: number | null;
-      [key: string]: unknown;
-    };
-    type FieldWithValidation = DynamicField & { validation_rules?: ValidationRules | null };
-    const rules = (field as FieldWithValidation).validation_rules;
-
-    if (rules && typeof fv === "string") {
-      const minLength = typeof rules.minLength === "number" ? rules.minLength : null;
-      const maxLength = typeof rules.maxLength === "number" ? rules.maxLength : null;
-      const pattern = typeof rules.pattern === "string" ? rules.pattern : null;
-      const errorMessage = typeof rules.errorMessage === "string" ? rules.errorMessage : null;
-
-      if (minLength !== null && fv.length < minLength) {
-        errors[field.slug] = `${field.name} must be at least ${minLength} characters`;
-      }
-      if (maxLength !== null && fv.length > maxLength) {
-        errors[field.slug] = `${field.name} must be at most ${maxLength} characters`;
-      }
-      if (pattern !== null) {
-        const re = new RegExp(pattern);
-        if (!re.test(fv)) {
-          errors[field.slug] = errorMessage || `${field.name} format is invalid`;
-        }
-      }
-    }
-
-    if (rules && (rules.min !== undefined || rules.max !== undefined)) {
-      const num = Number(fv);
-      const min = typeof rules.min === "number" ? rules.min : null;
-      const max = typeof rules.max === "number" ? rules.max : null;
-      if (min !== null && num < min) {
-        errors[field.slug] = `${field.name} must be at least ${min}`;
-      }
-      if (max !== null && num > max) {
-        errors[field.slug] = `${field.name} must be at most ${max}`;
-      }
-    }
+  // Dynamic subcategory fields - compiled from the field rules, exactly as the API checks them
+  const fieldResult = validateTicketFields(currentSubcategory?.fields || [], form.details || {}, form.profile);
+  if (!fieldResult.success) {
+    Object.assign(errors, fieldResult.fieldErrors);
   }
 
   return errors;
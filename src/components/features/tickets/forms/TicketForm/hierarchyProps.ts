@@ -0,0 +1,86 @@
+/**
+ * TicketForm props from the category hierarchy
+ * Shared by the student new-ticket page and the super admin draft preview,
+ * so the preview renders exactly what students get after publishing.
+ */
+
+import type { CategoryHierarchyNode } from "@/lib/category/getCategoriesHierarchy";
+import type { Category, DynamicField, ProfileFieldConfig, Subcategory } from "./types";
+
+/**
+ * Standard profile fields shown on every ticket (help admins contact the student)
+ */
+export const STANDARD_PROFILE_FIELDS: ProfileFieldConfig[] = [
+  { field_name: "name", storage_key: "name", required: false, editable: false, display_order: 1 },
+  { field_name: "email", storage_key: "email", required: false, editable: false, display_order: 2 },
+  { field_name: "phone", storage_key: "phone", required: false, editable: true, display_order: 3 },
+  { field_name: "hostel", storage_key: "hostel", required: false, editable: true, display_order: 4 },
+  { field_name: "roomNumber", storage_key: "roomNumber", required: false, editable: true, display_order: 5 },
+  { field_name: "batchYear", storage_key: "batchYear", required: false, editable: false, display_order: 6 },
+  { field_name: "classSection", storage_key: "classSection", required: false, editable: false, display_order: 7 },
+];
+
+/**
+ * Profile fields of each category's release (the standard fields where none are configured),
+ * tagged with the category so TicketForm shows them for that category only
+ */
+export function toTicketFormProfileFields(nodes: CategoryHierarchyNode[]): ProfileFieldConfig[] {
+  return nodes.flatMap((cat) =>
+    (cat.profileFields ?? STANDARD_PROFILE_FIELDS).map((field) => ({
+      field_name: field.field_name,
+      storage_key: field.field_name,
+      required: field.required,
+      editable: field.editable,
+      display_order: field.display_order,
+      category_id: cat.id,
+    }))
+  );
+}
+
+/**
+ * Flatten hierarchy nodes into the categories / subcategories / fields TicketForm expects
+ */
+export function toTicketFormCategoryProps(nodes: CategoryHierarchyNode[]): {
+  categories: Category[];
+  subcategories: Subcategory[];
+  dynamicFields: DynamicField[];
+} {
+  const categories = nodes.map((cat) => ({
+    id: cat.id,
+    name: cat.label,
+    slug: cat.value,
+  }));
+
+  const subcategories = nodes.flatMap((cat) =>
+    (cat.subcategories || []).map((sub) => ({
+      id: sub.id,
+      category_id: cat.id,
+      name: sub.label,
+      slug: sub.value,
+      display_order: undefined as number | undefined,
+      // Attach fields; TicketForm will further sort/normalize
+      fields: (sub.fields || []).map((f) => ({
+        id: f.id,
+        name: f.name,
+        slug: f.slug,
+        field_type: f.type,
+        required: f.required ?? false,
+        placeholder: f.placeholder ?? null,
+        help_text: f.help_text ?? null,
+        validation_rules: (f.validation_rules || null) as Record<string, unknown> | null,
+        display_order: f.display_order ?? 0,
+        subcategory_id: sub.id,
+        options: (f.options || []).map((opt, index) => ({
+          id: index,
+          label: opt.label,
+          value: opt.value,
+        })),
+      })),
+    }))
+  );
+
+  // Flatten dynamic fields for TicketForm (still accepts flat list)
+  const dynamicFields = subcategories.flatMap((sub) => sub.fields || []);
+
+  return { categories, subcategories, dynamicFields };
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { api, endpoints } from "@/lib/api/client";
+import { logger } from "@/lib/logger";
+import type { SimilarTicketSummary, TicketFormState } from "../types";
+
+const LOOKUP_DEBOUNCE_MS = 700;
+const MIN_DESCRIPTION_LENGTH = 10;
+
+/**
+ * Open tickets similar to the one being filed, refreshed (debounced) as the form changes
+ * (disabled: never looks anything up, e.g. in the super admin preview)
+ */
+export function useSimilarTickets(form: TicketFormState, enabled = true) {
+  const [similarTickets, setSimilarTickets] = useState<SimilarTicketSummary[]>([]);
+  const [checking, setChecking] = useState(false);
+  const requestIdRef = useRef(0);
+
+  const location =
+    typeof form.profile?.hostel === "string" && form.profile.hostel.trim()
+      ? form.profile.hostel.trim()
+      : null;
+
+  const details = Object.fromEntries(
+    Object.entries(form.details || {}).filter(([, value]) => typeof value === "string")
+  ) as Record<string, string>;
+  const detailsKey = JSON.stringify(details);
+  const description = String(form.description || "").trim();
+  const hasText = description.length >= MIN_DESCRIPTION_LENGTH || Object.values(details).some((v) => v.trim());
+
+  useEffect(() => {
+    const requestId = ++requestIdRef.current;
+
+    // Students' lookups must be anchored on a subcategory or location (see /api/tickets/similar)
+    if (!enabled || !form.categoryId || (!hasText && !form.subcategoryId) || (!form.subcategoryId && !location)) {
+      setSimilarTickets([]);
+      setChecking(false);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      setChecking(true);
+      try {
+        const response = await api.post<{ tickets: SimilarTicketSummary[] }>(
+          endpoints.similarTickets,
+          {
+            categoryId: form.categoryId,
+            subcategoryId: form.subcategoryId,
+            location,
+            description,
+            details: JSON.parse(detailsKey) as Record<string, string>,
+          },
+          { skipErrorToast: true }
+        );
+        if (requestId === requestIdRef.current) {
+          setSimilarTickets(response.data.tickets || []);
+        }
+      } catch (err: unknown) {
+        // The duplicate check is a hint; never get in the way of filing
+        logger.warn("Similar ticket lookup failed", {
+          component: "TicketForm",
+          error: err instanceof Error ? err.message : String(err),
+        });
+      } finally {
+        if (requestId === requestIdRef.current) setChecking(false);
+      }
+    }, LOOKUP_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [enabled, form.categoryId, form.subcategoryId, location, description, detailsKey, hasText]);
+
+  return { similarTickets, checking };
+}
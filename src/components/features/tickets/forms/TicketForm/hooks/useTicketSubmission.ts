@@ -3,7 +3,7 @@
 import { useCallback } from "react";
 import { useRouter } from "next/navigation";
 import { toast } from "sonner";
-import { api, endpoints } from "@/lib/api/client";
+import { api, endpoints, ApiError } from "@/lib/api/client";
 import { logger } from "@/lib/logger";
 import type { TicketFormState } from "../types";
 
@@ -11,7 +11,10 @@ export function useTicketSubmission(
   form: TicketFormState,
   loading: boolean,
   setLoading: (loading: boolean) => void,
-  validateForm: () => boolean
+  validateForm: () => boolean,
+  setErrors?: (errors: Record<string, string>) => void,
+  // Uploads the picked files once the ticket exists; resolves with the files that failed
+  uploadAttachments?: (ticketId: number) => Promise<{ failed: unknown[] }>
 ) {
   const router = useRouter();
 
@@ -42,10 +45,6 @@ export function useTicketSubmission(
         Object.entries(profileData).filter(([key, value]) => key !== "undefined" && value != null)
       );
 
-      const images = (form.details?.images as string[]) || [];
-      const detailsWithoutImages = { ...(form.details || {}) };
-      delete detailsWithoutImages.images;
-
       const derivedLocation =
         typeof form.profile?.hostel === "string" && form.profile.hostel.trim()
           ? form.profile.hostel.trim()
@@ -55,13 +54,14 @@ export function useTicketSubmission(
         categoryId: form.categoryId,
         subcategoryId: form.subcategoryId,
         description: form.description,
-        details: detailsWithoutImages,
-        images: images.length > 0 ? images : undefined,
+        details: form.details || {},
         location: derivedLocation,
         profile: cleanProfile,
       };
 
-      const response = await api.post<{ id?: number; ticket?: { id: number } }>(endpoints.tickets, payload);
+      const response = await api.post<{ id?: number; ticket?: { id: number } }>(endpoints.tickets, payload, {
+        skipErrorToast: true,
+      });
       const ticket = response.data;
       const ticketId = ticket?.id || ticket?.ticket?.id;
 
@@ -69,6 +69,18 @@ export function useTicketSubmission(
         throw new Error("Ticket created but no ID returned");
       }
 
+      // Attachments need the ticket id, so they are uploaded after it is created
+      if (uploadAttachments) {
+        toast.loading("Uploading attachments...", { id: loadingToastId, description: undefined });
+        const { failed } = await uploadAttachments(ticketId);
+        if (failed.length > 0) {
+          toast.warning(`${failed.length} file${failed.length > 1 ? "s" : ""} could not be attached`, {
+            description: `Ticket #${ticketId} was created without ${failed.length > 1 ? "them" : "it"}.`,
+            duration: 5000,
+          });
+        }
+      }
+
       toast.dismiss(loadingToastId);
       toast.success("Ticket created successfully!", {
         description: `Ticket #${ticketId} has been created and assigned`,
@@ -79,6 +91,16 @@ export function useTicketSubmission(
       router.push(`/student/dashboard/ticket/${ticketId}`);
       return;
     } catch (err: unknown) {
+      // Field rule violations found by the server: show them next to the fields
+      const fieldErrors =
+        err instanceof ApiError ? (err.data as { fieldErrors?: Record<string, string> } | undefined)?.fieldErrors : undefined;
+      if (fieldErrors && setErrors) {
+        setErrors(fieldErrors);
+        toast.dismiss(loadingToastId);
+        toast.error("Please fix the highlighted errors");
+        return;
+      }
+
       logger.error("Ticket create error", err, { component: "TicketForm", action: "submit" });
       const errorMessage = err instanceof Error ? err.message : "Failed to create ticket";
 
@@ -90,7 +112,7 @@ export function useTicketSubmission(
     } finally {
       setLoading(false);
     }
-  }, [form, validateForm, router, loading, setLoading]);
+  }, [form, validateForm, router, loading, setLoading, setErrors, uploadAttachments]);
 
   return { handleSubmit };
 }
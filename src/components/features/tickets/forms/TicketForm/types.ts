@@ -2,6 +2,8 @@
  * Type definitions for TicketForm component
  */
 
+import type { AttachmentRules } from "@/lib/ticket/utils/attachmentRules";
+
 export type StudentProfile = {
   fullName: string;
   email: string;
@@ -66,6 +68,10 @@ export type TicketFormProps = {
   dynamicFields: DynamicField[];
   fieldOptions: { id: number; option_label: string; option_value: string; field_id: number }[];
   hostels?: Array<{ id: number; name: string }>;
+  /** Attachment rules by category id (defaults for categories not listed) */
+  attachmentRules?: Record<number, AttachmentRules>;
+  /** Super admin preview of an unpublished form: submitting only validates */
+  preview?: boolean;
 };
 
 export type TicketFormState = {
@@ -89,3 +95,21 @@ export type FieldRules = {
   requiredWhenValue?: string | string[];
   multiSelect?: boolean;
 };
+
+export type SimilarTicketSummary = {
+  id: number;
+  categoryName: string | null;
+  status: { value: string; label: string };
+  followerCount: number;
+  matchedOn: Array<"text" | "subcategory" | "location">;
+  isOwn: boolean;
+  isFollowing: boolean;
+  // Staff only; students never see other students' text
+  title?: string | null;
+  description?: string | null;
+  location?: string | null;
+  subcategoryName?: string | null;
+  createdAt?: string | null;
+  // Students only; sent back when following the ticket
+  followToken?: string | null;
+};
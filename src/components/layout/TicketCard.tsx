@@ -22,6 +22,7 @@ interface TicketCardProps {
     category_name?: string | null;
     creator_name?: string | null;
     creator_email?: string | null;
+    comment_count?: number | null;
   };
   basePath?: string;
   disableLink?: boolean;
@@ -154,10 +155,11 @@ function TicketCardComponent({ ticket, basePath = "/student/dashboard", disableL
     };
   }, [ticket, metadata?.tatDate]);
 
-  // Memoize comment count
+  // Memoize comment count (from ticket_comments; legacy tickets may still carry metadata.comments)
   const commentCount = useMemo(() => {
+    if (typeof ticket.comment_count === "number") return ticket.comment_count;
     return Array.isArray(metadata?.comments) ? metadata.comments.length : 0;
-  }, [metadata?.comments]);
+  }, [ticket.comment_count, metadata?.comments]);
 
   // Memoize escalation status
   const isEscalated = useMemo(() => (ticket.escalation_level ?? 0) > 0, [ticket.escalation_level]);
@@ -8,6 +8,11 @@ import {
   GraduationCap,
   Settings,
   Bell,
+  Inbox,
+  CalendarClock,
+  Workflow,
+  Webhook,
+  ScrollText,
   ChevronLeft,
   ChevronRight,
 } from "lucide-react";
@@ -40,6 +45,31 @@ const SIDE_ITEMS = [
     href: "/superadmin/dashboard/notification-settings",
     icon: Bell,
   },
+  {
+    title: "Business Hours",
+    href: "/superadmin/dashboard/business-hours",
+    icon: CalendarClock,
+  },
+  {
+    title: "Status Workflow",
+    href: "/superadmin/dashboard/status-workflow",
+    icon: Workflow,
+  },
+  {
+    title: "Webhooks",
+    href: "/superadmin/dashboard/webhooks",
+    icon: Webhook,
+  },
+  {
+    title: "Outbox",
+    href: "/superadmin/dashboard/outbox",
+    icon: Inbox,
+  },
+  {
+    title: "Audit Log",
+    href: "/superadmin/dashboard/audit-log",
+    icon: ScrollText,
+  },
 ] as const;
 
 type SuperAdminSideNavProps = {
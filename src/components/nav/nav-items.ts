@@ -6,6 +6,7 @@ import {
   Users,
   BarChart3,
   Tag,
+  CalendarOff,
   LucideIcon,
 } from "lucide-react";
 import { UserRole } from "@/hooks/auth/useRole";
@@ -70,6 +71,12 @@ export function getNavItemsForRole(role: UserRole, mounted: boolean): NavItem[]
             icon: Users,
             show: true,
           },
+          {
+            title: "Availability",
+            href: "/admin/dashboard/availability",
+            icon: CalendarOff,
+            show: true,
+          },
         ]
       : []),
 
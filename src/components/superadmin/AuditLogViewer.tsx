@@ -0,0 +1,329 @@
+"use client";
+
+import { Fragment, useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, RefreshCw, Download, ChevronDown, ChevronRight, ScrollText } from "lucide-react";
+import { toast } from "sonner";
+import { AUDIT_ENTITY } from "@/conf/constants";
+
+interface AuditEntry {
+  id: number;
+  actor_external_id: string | null;
+  actor_role: string | null;
+  actor_name: string | null;
+  actor_email: string | null;
+  action: string;
+  entity_type: string;
+  entity_id: string | null;
+  before: unknown;
+  after: unknown;
+  changes: Record<string, { from: unknown; to: unknown }> | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  created_at: Date | string;
+}
+
+interface Filters {
+  q: string;
+  entityType: string;
+  from: string;
+  to: string;
+}
+
+const PAGE_SIZE = 50;
+const EMPTY_FILTERS: Filters = { q: "", entityType: "__all__", from: "", to: "" };
+
+function formatDate(value: Date | string | null) {
+  if (!value) return "—";
+  return new Date(value).toLocaleString();
+}
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined) return "—";
+  if (typeof value === "string") return value;
+  return JSON.stringify(value);
+}
+
+function buildQuery(filters: Filters) {
+  const params = new URLSearchParams();
+  if (filters.q.trim()) params.set("q", filters.q.trim());
+  if (filters.entityType !== "__all__") params.set("entityType", filters.entityType);
+  if (filters.from) params.set("from", filters.from);
+  if (filters.to) params.set("to", filters.to);
+  return params;
+}
+
+export function AuditLogViewer() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [draft, setDraft] = useState<Filters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [pagination, setPagination] = useState({ total: 0, totalPages: 1 });
+  const [loading, setLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  const fetchData = useCallback(async () => {
+    try {
+      setLoading(true);
+      const params = buildQuery(filters);
+      params.set("page", String(page));
+      params.set("limit", String(PAGE_SIZE));
+      const res = await fetch(`/api/superadmin/audit-log?${params.toString()}`);
+      if (!res.ok) {
+        throw new Error("Failed to fetch");
+      }
+      const data = await res.json();
+      setEntries(data.entries || []);
+      setPagination({
+        total: data.pagination?.total || 0,
+        totalPages: data.pagination?.totalPages || 1,
+      });
+    } catch (error) {
+      console.error("Error fetching audit log:", error);
+      toast.error("Failed to load audit log");
+    } finally {
+      setLoading(false);
+    }
+  }, [filters, page]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const applyFilters = (next: Filters) => {
+    setPage(1);
+    setExpandedId(null);
+    setFilters(next);
+  };
+
+  const exportHref = `/api/superadmin/audit-log/export?${buildQuery(filters).toString()}`;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardContent className="pt-6">
+          <form
+            className="grid gap-4 md:grid-cols-[2fr_1fr_1fr_1fr_auto] items-end"
+            onSubmit={(e) => {
+              e.preventDefault();
+              applyFilters(draft);
+            }}
+          >
+            <div>
+              <Label htmlFor="audit-q">Search</Label>
+              <Input
+                id="audit-q"
+                value={draft.q}
+                onChange={(e) => setDraft((prev) => ({ ...prev, q: e.target.value }))}
+                placeholder="Action, entity ID, actor name or email"
+              />
+            </div>
+            <div>
+              <Label>Entity</Label>
+              <Select
+                value={draft.entityType}
+                onValueChange={(value) => setDraft((prev) => ({ ...prev, entityType: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="All entities" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="__all__">All entities</SelectItem>
+                  {Object.values(AUDIT_ENTITY).map((entityType) => (
+                    <SelectItem key={entityType} value={entityType}>
+                      {entityType}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="audit-from">From</Label>
+              <Input
+                id="audit-from"
+                type="date"
+                value={draft.from}
+                onChange={(e) => setDraft((prev) => ({ ...prev, from: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="audit-to">To</Label>
+              <Input
+                id="audit-to"
+                type="date"
+                value={draft.to}
+                onChange={(e) => setDraft((prev) => ({ ...prev, to: e.target.value }))}
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button type="submit">Search</Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => {
+                  setDraft(EMPTY_FILTERS);
+                  applyFilters(EMPTY_FILTERS);
+                }}
+              >
+                Clear
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>Entries</CardTitle>
+            <CardDescription>
+              {pagination.total} matching {pagination.total === 1 ? "entry" : "entries"}. Entries cannot be edited or deleted.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => fetchData()} disabled={loading}>
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Refresh
+            </Button>
+            <Button variant="outline" asChild>
+              <a href={exportHref}>
+                <Download className="w-4 h-4 mr-2" />
+                Export CSV
+              </a>
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : entries.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <ScrollText className="w-12 h-12 mx-auto mb-4 opacity-50" />
+              <p>No audit entries match these filters</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8" />
+                  <TableHead>When</TableHead>
+                  <TableHead>Actor</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Entity</TableHead>
+                  <TableHead>Changed</TableHead>
+                  <TableHead>IP</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry) => {
+                  const expanded = expandedId === entry.id;
+                  const changedKeys = entry.changes ? Object.keys(entry.changes) : [];
+                  return (
+                    <Fragment key={entry.id}>
+                      <TableRow
+                        className="cursor-pointer"
+                        onClick={() => setExpandedId(expanded ? null : entry.id)}
+                      >
+                        <TableCell>
+                          {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                          {formatDate(entry.created_at)}
+                        </TableCell>
+                        <TableCell>
+                          <div className="text-sm font-medium">{entry.actor_name || entry.actor_email || entry.actor_external_id || "—"}</div>
+                          {entry.actor_role && (
+                            <div className="text-xs text-muted-foreground">{entry.actor_role}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{entry.action}</Badge>
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {entry.entity_type}
+                          {entry.entity_id && <span className="font-mono text-muted-foreground"> #{entry.entity_id}</span>}
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground max-w-xs truncate">
+                          {changedKeys.length > 0 ? changedKeys.join(", ") : "—"}
+                        </TableCell>
+                        <TableCell className="font-mono text-xs">{entry.ip_address || "—"}</TableCell>
+                      </TableRow>
+                      {expanded && (
+                        <TableRow>
+                          <TableCell />
+                          <TableCell colSpan={6} className="bg-muted/30">
+                            {entry.changes ? (
+                              <div className="space-y-1 text-sm">
+                                {Object.entries(entry.changes).map(([key, change]) => (
+                                  <div key={key} className="grid grid-cols-[12rem_1fr] gap-2">
+                                    <span className="font-medium">{key}</span>
+                                    <code className="text-xs break-all">
+                                      <span className="text-destructive">{formatValue(change.from)}</span>
+                                      {" → "}
+                                      <span className="text-green-600 dark:text-green-400">{formatValue(change.to)}</span>
+                                    </code>
+                                  </div>
+                                ))}
+                              </div>
+                            ) : (
+                              <p className="text-sm text-muted-foreground">No field-level changes recorded</p>
+                            )}
+                            {entry.user_agent && (
+                              <p className="mt-3 text-xs text-muted-foreground break-all">{entry.user_agent}</p>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+
+          {pagination.totalPages > 1 && (
+            <div className="flex items-center justify-between pt-4">
+              <span className="text-sm text-muted-foreground">
+                Page {page} of {pagination.totalPages}
+              </span>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" disabled={page <= 1 || loading} onClick={() => setPage((p) => p - 1)}>
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={page >= pagination.totalPages || loading}
+                  onClick={() => setPage((p) => p + 1)}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
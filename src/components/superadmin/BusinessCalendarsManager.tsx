@@ -0,0 +1,542 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Plus, Pencil, Trash2, CalendarClock, X } from "lucide-react";
+import { toast } from "sonner";
+
+type ShiftWindow = { start: string; end: string };
+type WeeklySchedule = Record<string, ShiftWindow[]>;
+
+interface Holiday {
+  id: number;
+  date: string;
+  name: string | null;
+}
+
+interface BusinessCalendar {
+  id: number;
+  name: string;
+  domain_id: number | null;
+  domain_name: string | null;
+  scope_id: number | null;
+  scope_name: string | null;
+  timezone: string;
+  weekly_schedule: WeeklySchedule;
+  is_default: boolean;
+  is_active: boolean | null;
+  holidays: Holiday[];
+}
+
+interface Domain {
+  id: number;
+  name: string;
+}
+
+interface Scope {
+  id: number;
+  name: string;
+  domain_id: number;
+}
+
+const DAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// One text field per day: "09:00-13:00, 14:00-17:30"; empty = closed
+type ScheduleForm = Record<string, string>;
+
+const DEFAULT_SCHEDULE_FORM: ScheduleForm = {
+  "0": "",
+  "1": "09:00-17:30",
+  "2": "09:00-17:30",
+  "3": "09:00-17:30",
+  "4": "09:00-17:30",
+  "5": "09:00-17:30",
+  "6": "",
+};
+
+function scheduleToForm(schedule: WeeklySchedule): ScheduleForm {
+  const form: ScheduleForm = {};
+  DAYS.forEach((_, day) => {
+    form[day] = (schedule[day] || []).map((w) => `${w.start}-${w.end}`).join(", ");
+  });
+  return form;
+}
+
+function formToSchedule(form: ScheduleForm): WeeklySchedule | null {
+  const schedule: WeeklySchedule = {};
+  for (const [day, value] of Object.entries(form)) {
+    const windows: ShiftWindow[] = [];
+    for (const part of value.split(",").map((p) => p.trim()).filter(Boolean)) {
+      const match = /^(\d{1,2}:\d{2})\s*-\s*(\d{1,2}:\d{2})$/.exec(part);
+      if (!match || !match[1] || !match[2]) return null;
+      windows.push({ start: match[1], end: match[2] });
+    }
+    schedule[day] = windows;
+  }
+  return schedule;
+}
+
+function summarizeDay(windows: ShiftWindow[] | undefined) {
+  if (!windows || windows.length === 0) return "Closed";
+  return windows.map((w) => `${w.start}–${w.end}`).join(", ");
+}
+
+export function BusinessCalendarsManager() {
+  const [calendars, setCalendars] = useState<BusinessCalendar[]>([]);
+  const [domains, setDomains] = useState<Domain[]>([]);
+  const [scopes, setScopes] = useState<Scope[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<BusinessCalendar | null>(null);
+  const [formData, setFormData] = useState({
+    name: "",
+    domain_id: "__none__",
+    scope_id: "__none__",
+    timezone: "Asia/Kolkata",
+    is_default: false,
+    schedule: DEFAULT_SCHEDULE_FORM,
+  });
+  const [holidayDrafts, setHolidayDrafts] = useState<Record<number, { date: string; name: string }>>({});
+
+  const fetchData = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [calendarsRes, domainsRes, scopesRes] = await Promise.all([
+        fetch("/api/superadmin/business-calendars"),
+        fetch("/api/superadmin/domains"),
+        fetch("/api/superadmin/scopes?active=true"),
+      ]);
+
+      if (!calendarsRes.ok) {
+        throw new Error("Failed to fetch");
+      }
+      const calendarsData = await calendarsRes.json();
+      setCalendars(calendarsData.calendars || []);
+
+      if (domainsRes.ok) {
+        const domainsData = await domainsRes.json();
+        setDomains(domainsData.domains || []);
+      }
+      if (scopesRes.ok) {
+        const scopesData = await scopesRes.json();
+        setScopes(scopesData.scopes || []);
+      }
+    } catch (error) {
+      console.error("Error fetching business calendars:", error);
+      toast.error("Failed to load business calendars");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const handleOpenDialog = (calendar?: BusinessCalendar) => {
+    setEditing(calendar || null);
+    setFormData(
+      calendar
+        ? {
+            name: calendar.name,
+            domain_id: calendar.domain_id ? String(calendar.domain_id) : "__none__",
+            scope_id: calendar.scope_id ? String(calendar.scope_id) : "__none__",
+            timezone: calendar.timezone,
+            is_default: calendar.is_default,
+            schedule: scheduleToForm(calendar.weekly_schedule || {}),
+          }
+        : {
+            name: "",
+            domain_id: "__none__",
+            scope_id: "__none__",
+            timezone: "Asia/Kolkata",
+            is_default: false,
+            schedule: DEFAULT_SCHEDULE_FORM,
+          }
+    );
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    const weeklySchedule = formToSchedule(formData.schedule);
+    if (!weeklySchedule) {
+      toast.error("Shifts must look like 09:00-17:30 (separate multiple shifts with commas)");
+      return;
+    }
+    if (!formData.name.trim()) {
+      toast.error("Calendar name is required");
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const response = await fetch(
+        editing ? `/api/superadmin/business-calendars/${editing.id}` : "/api/superadmin/business-calendars",
+        {
+          method: editing ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            name: formData.name.trim(),
+            domain_id: formData.domain_id === "__none__" ? null : parseInt(formData.domain_id, 10),
+            scope_id: formData.scope_id === "__none__" ? null : parseInt(formData.scope_id, 10),
+            timezone: formData.timezone.trim(),
+            is_default: formData.is_default,
+            weekly_schedule: weeklySchedule,
+          }),
+        }
+      );
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save calendar");
+      }
+
+      toast.success(editing ? "Calendar updated" : "Calendar created");
+      if (data.warning) {
+        toast.warning(data.warning);
+      }
+      setDialogOpen(false);
+      fetchData();
+    } catch (error) {
+      console.error("Error saving business calendar:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save calendar");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (calendar: BusinessCalendar) => {
+    try {
+      const response = await fetch(`/api/superadmin/business-calendars/${calendar.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ is_active: !calendar.is_active }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to update calendar");
+      }
+      fetchData();
+    } catch (error) {
+      console.error("Error updating business calendar:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update calendar");
+    }
+  };
+
+  const handleDelete = async (calendar: BusinessCalendar) => {
+    if (!confirm(`Delete calendar "${calendar.name}" and its holidays?`)) return;
+    try {
+      const response = await fetch(`/api/superadmin/business-calendars/${calendar.id}`, { method: "DELETE" });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to delete calendar");
+      }
+      toast.success("Calendar deleted");
+      fetchData();
+    } catch (error) {
+      console.error("Error deleting business calendar:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to delete calendar");
+    }
+  };
+
+  const handleAddHoliday = async (calendarId: number) => {
+    const draft = holidayDrafts[calendarId];
+    if (!draft?.date) {
+      toast.error("Pick a date for the holiday");
+      return;
+    }
+    try {
+      const response = await fetch(`/api/superadmin/business-calendars/${calendarId}/holidays`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ date: draft.date, name: draft.name }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to add holiday");
+      }
+      setHolidayDrafts((prev) => ({ ...prev, [calendarId]: { date: "", name: "" } }));
+      fetchData();
+    } catch (error) {
+      console.error("Error adding holiday:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to add holiday");
+    }
+  };
+
+  const handleRemoveHoliday = async (calendarId: number, holidayId: number) => {
+    try {
+      const response = await fetch(`/api/superadmin/business-calendars/${calendarId}/holidays/${holidayId}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to remove holiday");
+      }
+      fetchData();
+    } catch (error) {
+      console.error("Error removing holiday:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to remove holiday");
+    }
+  };
+
+  const scopesForDomain = formData.domain_id === "__none__"
+    ? scopes
+    : scopes.filter((s) => s.domain_id === parseInt(formData.domain_id, 10));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-muted-foreground">
+          Tickets use their scope&apos;s calendar, then their domain&apos;s, then the default. Without any calendar the SLA clock runs 24x7.
+        </p>
+        <Button onClick={() => handleOpenDialog()}>
+          <Plus className="w-4 h-4 mr-2" />
+          New Calendar
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : calendars.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12 text-muted-foreground">
+            <CalendarClock className="w-12 h-12 mx-auto mb-4 opacity-50" />
+            <p>No business calendars configured - SLA due dates use wall-clock time</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-6 lg:grid-cols-2">
+          {calendars.map((calendar) => (
+            <Card key={calendar.id} className={calendar.is_active ? "" : "opacity-60"}>
+              <CardHeader>
+                <div className="flex justify-between items-start gap-4">
+                  <div>
+                    <CardTitle className="flex items-center gap-2">
+                      {calendar.name}
+                      {calendar.is_default && <Badge>Default</Badge>}
+                      {!calendar.is_active && <Badge variant="secondary">Inactive</Badge>}
+                    </CardTitle>
+                    <CardDescription>
+                      {calendar.scope_name
+                        ? `Scope: ${calendar.scope_name}`
+                        : calendar.domain_name
+                          ? `Domain: ${calendar.domain_name}`
+                          : "Not linked to a domain or scope"}
+                      {" · "}
+                      {calendar.timezone}
+                    </CardDescription>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch checked={!!calendar.is_active} onCheckedChange={() => handleToggleActive(calendar)} />
+                    <Button size="sm" variant="outline" onClick={() => handleOpenDialog(calendar)}>
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => handleDelete(calendar)}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+                  {DAYS.map((dayName, day) => (
+                    <div key={dayName} className="flex justify-between">
+                      <span className="text-muted-foreground">{dayName}</span>
+                      <span>{summarizeDay(calendar.weekly_schedule?.[day])}</span>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Holidays</Label>
+                  <div className="flex flex-wrap gap-2">
+                    {calendar.holidays.length === 0 && (
+                      <span className="text-sm text-muted-foreground">None</span>
+                    )}
+                    {calendar.holidays.map((holiday) => (
+                      <Badge key={holiday.id} variant="outline" className="gap-1">
+                        {holiday.date}
+                        {holiday.name ? ` · ${holiday.name}` : ""}
+                        <button
+                          type="button"
+                          onClick={() => handleRemoveHoliday(calendar.id, holiday.id)}
+                          className="ml-1 hover:text-destructive"
+                          aria-label={`Remove holiday ${holiday.date}`}
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      </Badge>
+                    ))}
+                  </div>
+                  <div className="flex gap-2">
+                    <Input
+                      type="date"
+                      value={holidayDrafts[calendar.id]?.date || ""}
+                      onChange={(e) =>
+                        setHolidayDrafts((prev) => ({
+                          ...prev,
+                          [calendar.id]: { date: e.target.value, name: prev[calendar.id]?.name || "" },
+                        }))
+                      }
+                      className="w-44"
+                    />
+                    <Input
+                      placeholder="Holiday name (optional)"
+                      value={holidayDrafts[calendar.id]?.name || ""}
+                      onChange={(e) =>
+                        setHolidayDrafts((prev) => ({
+                          ...prev,
+                          [calendar.id]: { date: prev[calendar.id]?.date || "", name: e.target.value },
+                        }))
+                      }
+                    />
+                    <Button variant="outline" onClick={() => handleAddHoliday(calendar.id)}>
+                      <Plus className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {/* Create/Edit Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Business Calendar" : "New Business Calendar"}</DialogTitle>
+            <DialogDescription>
+              The SLA clock only runs during these shifts. Changes apply to due dates computed from now on.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div>
+              <Label>Name</Label>
+              <Input
+                value={formData.name}
+                onChange={(e) => setFormData((prev) => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g. Hostel office hours"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Domain</Label>
+                <Select
+                  value={formData.domain_id}
+                  onValueChange={(value) => setFormData((prev) => ({ ...prev, domain_id: value, scope_id: "__none__" }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select domain" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="__none__">No domain</SelectItem>
+                    {domains.map((domain) => (
+                      <SelectItem key={domain.id} value={domain.id.toString()}>
+                        {domain.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Scope (Optional)</Label>
+                <Select
+                  value={formData.scope_id}
+                  onValueChange={(value) => setFormData((prev) => ({ ...prev, scope_id: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Whole domain" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="__none__">Whole domain</SelectItem>
+                    {scopesForDomain.map((scope) => (
+                      <SelectItem key={scope.id} value={scope.id.toString()}>
+                        {scope.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4 items-end">
+              <div>
+                <Label>Timezone</Label>
+                <Input
+                  value={formData.timezone}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, timezone: e.target.value }))}
+                  placeholder="Asia/Kolkata"
+                />
+              </div>
+              <div className="flex items-center gap-2 pb-2">
+                <Switch
+                  checked={formData.is_default}
+                  onCheckedChange={(checked) => setFormData((prev) => ({ ...prev, is_default: checked }))}
+                />
+                <Label>Default calendar</Label>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Working hours</Label>
+              <p className="text-xs text-muted-foreground">
+                24h times, e.g. 09:00-13:00, 14:00-17:30. Leave empty for a closed day.
+              </p>
+              {DAYS.map((dayName, day) => (
+                <div key={dayName} className="grid grid-cols-[7rem_1fr] items-center gap-2">
+                  <span className="text-sm">{dayName}</span>
+                  <Input
+                    value={formData.schedule[day] || ""}
+                    onChange={(e) =>
+                      setFormData((prev) => ({
+                        ...prev,
+                        schedule: { ...prev.schedule, [day]: e.target.value },
+                      }))
+                    }
+                    placeholder="Closed"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {editing ? "Save Changes" : "Create Calendar"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
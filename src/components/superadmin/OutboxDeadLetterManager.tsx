@@ -0,0 +1,198 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, RefreshCw, RotateCcw, Inbox } from "lucide-react";
+import { toast } from "sonner";
+
+type OutboxStatus = "dead" | "failing";
+
+interface OutboxEvent {
+  id: number;
+  event_type: string;
+  payload: unknown;
+  attempts: number;
+  last_error: string | null;
+  next_retry_at: Date | string | null;
+  dead_lettered_at: Date | string | null;
+  created_at: Date | string;
+}
+
+function formatDate(value: Date | string | null) {
+  if (!value) return "—";
+  return new Date(value).toLocaleString();
+}
+
+function payloadPreview(payload: unknown) {
+  try {
+    const json = JSON.stringify(payload);
+    return json.length > 80 ? `${json.slice(0, 80)}…` : json;
+  } catch {
+    return String(payload);
+  }
+}
+
+export function OutboxDeadLetterManager() {
+  const [events, setEvents] = useState<OutboxEvent[]>([]);
+  const [counts, setCounts] = useState({ dead: 0, failing: 0 });
+  const [status, setStatus] = useState<OutboxStatus>("dead");
+  const [loading, setLoading] = useState(true);
+  const [replayingId, setReplayingId] = useState<number | null>(null);
+
+  const fetchData = useCallback(async () => {
+    try {
+      setLoading(true);
+      const res = await fetch(`/api/superadmin/outbox?status=${status}`);
+      if (!res.ok) {
+        throw new Error("Failed to fetch");
+      }
+      const data = await res.json();
+      setEvents(data.events || []);
+      setCounts(data.counts || { dead: 0, failing: 0 });
+    } catch (error) {
+      console.error("Error fetching outbox events:", error);
+      toast.error("Failed to load outbox events");
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const handleReplay = async (id: number) => {
+    try {
+      setReplayingId(id);
+      const response = await fetch(`/api/superadmin/outbox/${id}/replay`, {
+        method: "POST",
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to replay");
+      }
+
+      toast.success(`Event #${id} re-queued`);
+      fetchData();
+    } catch (error) {
+      console.error("Error replaying event:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to replay event");
+    } finally {
+      setReplayingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div className="flex gap-2">
+          <Button
+            variant={status === "dead" ? "default" : "outline"}
+            onClick={() => setStatus("dead")}
+          >
+            Dead-lettered
+            <Badge variant="secondary" className="ml-2">{counts.dead}</Badge>
+          </Button>
+          <Button
+            variant={status === "failing" ? "default" : "outline"}
+            onClick={() => setStatus("failing")}
+          >
+            Retrying
+            <Badge variant="secondary" className="ml-2">{counts.failing}</Badge>
+          </Button>
+        </div>
+        <Button variant="outline" onClick={() => fetchData()} disabled={loading}>
+          <RefreshCw className="w-4 h-4 mr-2" />
+          Refresh
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{status === "dead" ? "Dead-lettered Events" : "Events Awaiting Retry"}</CardTitle>
+          <CardDescription>
+            {status === "dead"
+              ? "These events exhausted their retry attempts. Replay re-queues them with a fresh attempt budget."
+              : "These events failed at least once and will be retried automatically."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : events.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <Inbox className="w-12 h-12 mx-auto mb-4 opacity-50" />
+              <p>No {status === "dead" ? "dead-lettered" : "failing"} events</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>ID</TableHead>
+                  <TableHead>Event</TableHead>
+                  <TableHead>Payload</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead>Last Error</TableHead>
+                  <TableHead>{status === "dead" ? "Dead-lettered" : "Next Retry"}</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {events.map((event) => (
+                  <TableRow key={event.id}>
+                    <TableCell className="font-mono text-sm">#{event.id}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{event.event_type}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <code className="text-xs bg-muted px-2 py-1 rounded break-all">
+                        {payloadPreview(event.payload)}
+                      </code>
+                    </TableCell>
+                    <TableCell>{event.attempts}</TableCell>
+                    <TableCell className="max-w-xs">
+                      <span className="text-sm text-destructive break-words">
+                        {event.last_error || "—"}
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                      {formatDate(status === "dead" ? event.dead_lettered_at : event.next_retry_at)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleReplay(event.id)}
+                        disabled={replayingId === event.id}
+                      >
+                        {replayingId === event.id ? (
+                          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        ) : (
+                          <RotateCcw className="w-4 h-4 mr-2" />
+                        )}
+                        Replay
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,368 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2, Trash2, Workflow, MessageSquare, Clock, Check, Minus } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+
+interface TicketStatus {
+  id: number;
+  value: string;
+  label: string;
+  badge_color: string | null;
+  is_active: boolean | null;
+  is_final: boolean | null;
+}
+
+interface StatusTransition {
+  id: number;
+  from_status_id: number;
+  to_status_id: number;
+  allowed_roles: string[];
+  requires_comment: boolean;
+  requires_tat: boolean;
+  is_active: boolean;
+}
+
+const ROLE_LABELS: Record<string, string> = {
+  super_admin: "Super Admin",
+  snr_admin: "Senior Admin",
+  admin: "Admin",
+  committee: "Committee",
+  student: "Student",
+};
+
+const DEFAULT_ROLES = ["admin", "super_admin"];
+
+type TransitionForm = {
+  allowed_roles: string[];
+  requires_comment: boolean;
+  requires_tat: boolean;
+  is_active: boolean;
+};
+
+export function StatusTransitionsManager() {
+  const [statuses, setStatuses] = useState<TicketStatus[]>([]);
+  const [transitions, setTransitions] = useState<StatusTransition[]>([]);
+  const [roles, setRoles] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [selected, setSelected] = useState<{ from: TicketStatus; to: TicketStatus } | null>(null);
+  const [formData, setFormData] = useState<TransitionForm>({
+    allowed_roles: DEFAULT_ROLES,
+    requires_comment: false,
+    requires_tat: false,
+    is_active: true,
+  });
+
+  const fetchData = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch("/api/superadmin/status-transitions");
+      if (!response.ok) {
+        throw new Error("Failed to fetch");
+      }
+      const data = await response.json();
+      setStatuses(data.statuses || []);
+      setTransitions(data.transitions || []);
+      setRoles(data.roles || []);
+    } catch (error) {
+      console.error("Error fetching status transitions:", error);
+      toast.error("Failed to load status workflow");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const findTransition = (fromId: number, toId: number) =>
+    transitions.find((t) => t.from_status_id === fromId && t.to_status_id === toId);
+
+  const selectedTransition = selected ? findTransition(selected.from.id, selected.to.id) : undefined;
+
+  const handleOpenCell = (from: TicketStatus, to: TicketStatus) => {
+    const transition = findTransition(from.id, to.id);
+    setSelected({ from, to });
+    setFormData(
+      transition
+        ? {
+            allowed_roles: transition.allowed_roles || [],
+            requires_comment: transition.requires_comment,
+            requires_tat: transition.requires_tat,
+            is_active: transition.is_active,
+          }
+        : {
+            allowed_roles: DEFAULT_ROLES,
+            requires_comment: false,
+            requires_tat: false,
+            is_active: true,
+          }
+    );
+  };
+
+  const toggleRole = (role: string, checked: boolean) => {
+    setFormData((prev) => ({
+      ...prev,
+      allowed_roles: checked
+        ? [...prev.allowed_roles.filter((r) => r !== role), role]
+        : prev.allowed_roles.filter((r) => r !== role),
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!selected) return;
+    try {
+      setSaving(true);
+      const response = await fetch(
+        selectedTransition
+          ? `/api/superadmin/status-transitions/${selectedTransition.id}`
+          : "/api/superadmin/status-transitions",
+        {
+          method: selectedTransition ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            ...(selectedTransition
+              ? { is_active: formData.is_active }
+              : { from_status_id: selected.from.id, to_status_id: selected.to.id }),
+            allowed_roles: formData.allowed_roles,
+            requires_comment: formData.requires_comment,
+            requires_tat: formData.requires_tat,
+          }),
+        }
+      );
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save transition");
+      }
+
+      toast.success(selectedTransition ? "Transition updated" : "Transition allowed");
+      setSelected(null);
+      fetchData();
+    } catch (error) {
+      console.error("Error saving status transition:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save transition");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected || !selectedTransition) return;
+    if (!confirm(`Stop allowing ${selected.from.label} → ${selected.to.label}?`)) return;
+    try {
+      setSaving(true);
+      const response = await fetch(`/api/superadmin/status-transitions/${selectedTransition.id}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to delete transition");
+      }
+      toast.success("Transition removed");
+      setSelected(null);
+      fetchData();
+    } catch (error) {
+      console.error("Error deleting status transition:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to delete transition");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-muted-foreground">
+        Each cell is a move from the row&apos;s status to the column&apos;s status. Click a cell to allow it, choose
+        which roles may make it and whether a comment or TAT is required. Without any transitions every move is allowed.
+      </p>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : statuses.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12 text-muted-foreground">
+            <Workflow className="w-12 h-12 mx-auto mb-4 opacity-50" />
+            <p>No ticket statuses configured</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle>Transition Matrix</CardTitle>
+            <CardDescription>
+              {transitions.filter((t) => t.is_active).length} active of {transitions.length} configured transitions
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="overflow-x-auto">
+            <table className="w-full border-collapse text-sm">
+              <thead>
+                <tr>
+                  <th className="p-2 text-left text-xs font-medium text-muted-foreground">From ↓ / To →</th>
+                  {statuses.map((to) => (
+                    <th key={to.id} className="p-2 text-center text-xs font-medium">
+                      <span className={cn(!to.is_active && "opacity-60")}>{to.label}</span>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {statuses.map((from) => (
+                  <tr key={from.id} className="border-t">
+                    <th className="p-2 text-left text-xs font-medium whitespace-nowrap">
+                      <span className={cn(!from.is_active && "opacity-60")}>{from.label}</span>
+                      {from.is_final && <Badge variant="outline" className="ml-2 text-[10px]">Final</Badge>}
+                    </th>
+                    {statuses.map((to) => {
+                      if (from.id === to.id) {
+                        return <td key={to.id} className="p-1 bg-muted/40" />;
+                      }
+                      const transition = findTransition(from.id, to.id);
+                      return (
+                        <td key={to.id} className="p-1 text-center">
+                          <button
+                            type="button"
+                            onClick={() => handleOpenCell(from, to)}
+                            className={cn(
+                              "w-full min-w-[4.5rem] rounded-md border px-2 py-2 transition-colors hover:border-primary",
+                              transition?.is_active
+                                ? "bg-primary/10 border-primary/40"
+                                : transition
+                                  ? "bg-muted border-dashed"
+                                  : "border-dashed text-muted-foreground"
+                            )}
+                            aria-label={`${from.label} to ${to.label}`}
+                          >
+                            {transition ? (
+                              <div className="flex flex-col items-center gap-1">
+                                <div className="flex items-center gap-1">
+                                  <Check className="w-3.5 h-3.5" />
+                                  {transition.requires_comment && <MessageSquare className="w-3.5 h-3.5" />}
+                                  {transition.requires_tat && <Clock className="w-3.5 h-3.5" />}
+                                </div>
+                                <span className="text-[10px] text-muted-foreground">
+                                  {transition.allowed_roles.length} role{transition.allowed_roles.length === 1 ? "" : "s"}
+                                </span>
+                              </div>
+                            ) : (
+                              <Minus className="w-3.5 h-3.5 mx-auto" />
+                            )}
+                          </button>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="flex flex-wrap gap-4 mt-4 text-xs text-muted-foreground">
+              <span className="flex items-center gap-1"><Check className="w-3.5 h-3.5" /> Allowed</span>
+              <span className="flex items-center gap-1"><MessageSquare className="w-3.5 h-3.5" /> Comment required</span>
+              <span className="flex items-center gap-1"><Clock className="w-3.5 h-3.5" /> TAT required</span>
+              <span className="flex items-center gap-1"><Minus className="w-3.5 h-3.5" /> Not allowed</span>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {selected ? `${selected.from.label} → ${selected.to.label}` : "Transition"}
+            </DialogTitle>
+            <DialogDescription>
+              {selectedTransition
+                ? "Edit who can make this move and what it requires"
+                : "This move is currently not allowed. Save to allow it."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Allowed roles</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {roles.map((role) => (
+                  <label key={role} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={formData.allowed_roles.includes(role)}
+                      onCheckedChange={(checked) => toggleRole(role, checked === true)}
+                    />
+                    {ROLE_LABELS[role] || role}
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Super admins can always make an allowed move. Students can only change their own tickets.
+              </p>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="requires_comment">Require a comment</Label>
+              <Switch
+                id="requires_comment"
+                checked={formData.requires_comment}
+                onCheckedChange={(checked) => setFormData((prev) => ({ ...prev, requires_comment: checked }))}
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="requires_tat">Require a TAT</Label>
+              <Switch
+                id="requires_tat"
+                checked={formData.requires_tat}
+                onCheckedChange={(checked) => setFormData((prev) => ({ ...prev, requires_tat: checked }))}
+              />
+            </div>
+
+            {selectedTransition && (
+              <div className="flex items-center justify-between">
+                <Label htmlFor="is_active">Active</Label>
+                <Switch
+                  id="is_active"
+                  checked={formData.is_active}
+                  onCheckedChange={(checked) => setFormData((prev) => ({ ...prev, is_active: checked }))}
+                />
+              </div>
+            )}
+          </div>
+
+          <DialogFooter className="gap-2">
+            {selectedTransition && (
+              <Button variant="outline" onClick={handleDelete} disabled={saving} className="mr-auto">
+                <Trash2 className="w-4 h-4 mr-2" />
+                Disallow
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => setSelected(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {selectedTransition ? "Save" : "Allow"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
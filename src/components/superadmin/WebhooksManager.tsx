@@ -0,0 +1,603 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, Plus, Trash2, Webhook, KeyRound, History, RotateCcw, Copy } from "lucide-react";
+import { toast } from "sonner";
+
+type OwnerType = "global" | "domain" | "scope" | "category";
+
+interface WebhookEndpoint {
+  id: number;
+  owner_type: OwnerType;
+  owner_id: string;
+  url: string;
+  events: string[] | null;
+  is_active: boolean | null;
+  created_at: Date | string;
+  deliveries: {
+    delivered: number;
+    pending: number;
+    failed: number;
+    last_attempt_at: Date | string | null;
+  };
+}
+
+interface WebhookDelivery {
+  id: number;
+  event_type: string;
+  ticket_id: number | null;
+  status: "pending" | "delivered" | "failed";
+  attempts: number;
+  last_status_code: number | null;
+  last_error: string | null;
+  last_attempt_at: Date | string | null;
+  created_at: Date | string;
+}
+
+interface NamedOption {
+  id: number;
+  name: string;
+}
+
+type WebhookForm = {
+  url: string;
+  owner_type: OwnerType;
+  owner_id: string;
+  events: string[];
+};
+
+const EMPTY_FORM: WebhookForm = { url: "", owner_type: "global", owner_id: "", events: [] };
+
+const OWNER_LABELS: Record<OwnerType, string> = {
+  global: "All tickets",
+  domain: "Domain",
+  scope: "Scope",
+  category: "Category",
+};
+
+const DELIVERY_BADGE: Record<WebhookDelivery["status"], "default" | "secondary" | "destructive"> = {
+  delivered: "default",
+  pending: "secondary",
+  failed: "destructive",
+};
+
+function formatDate(value: Date | string | null) {
+  if (!value) return "—";
+  return new Date(value).toLocaleString();
+}
+
+export function WebhooksManager() {
+  const [webhooks, setWebhooks] = useState<WebhookEndpoint[]>([]);
+  const [events, setEvents] = useState<string[]>([]);
+  const [owners, setOwners] = useState<Record<Exclude<OwnerType, "global">, NamedOption[]>>({
+    domain: [],
+    scope: [],
+    category: [],
+  });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<WebhookEndpoint | null>(null);
+  const [formData, setFormData] = useState<WebhookForm>(EMPTY_FORM);
+  const [revealedSecret, setRevealedSecret] = useState<string | null>(null);
+  const [logWebhook, setLogWebhook] = useState<WebhookEndpoint | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [loadingDeliveries, setLoadingDeliveries] = useState(false);
+
+  const fetchData = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [webhooksRes, masterDataRes] = await Promise.all([
+        fetch("/api/superadmin/webhooks"),
+        fetch("/api/admin/master-data"),
+      ]);
+
+      if (!webhooksRes.ok) {
+        throw new Error("Failed to fetch");
+      }
+      const webhooksData = await webhooksRes.json();
+      setWebhooks(webhooksData.webhooks || []);
+      setEvents(webhooksData.events || []);
+
+      if (masterDataRes.ok) {
+        const masterData = await masterDataRes.json();
+        setOwners({
+          domain: masterData.domains || [],
+          scope: masterData.scopes || [],
+          category: masterData.categories || [],
+        });
+      }
+    } catch (error) {
+      console.error("Error fetching webhooks:", error);
+      toast.error("Failed to load webhooks");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const fetchDeliveries = useCallback(async (webhookId: number) => {
+    try {
+      setLoadingDeliveries(true);
+      const res = await fetch(`/api/superadmin/webhooks/${webhookId}/deliveries`);
+      if (!res.ok) {
+        throw new Error("Failed to fetch");
+      }
+      const data = await res.json();
+      setDeliveries(data.deliveries || []);
+    } catch (error) {
+      console.error("Error fetching webhook deliveries:", error);
+      toast.error("Failed to load deliveries");
+    } finally {
+      setLoadingDeliveries(false);
+    }
+  }, []);
+
+  const ownerName = (webhook: WebhookEndpoint) => {
+    if (webhook.owner_type === "global") return OWNER_LABELS.global;
+    const match = owners[webhook.owner_type]?.find((owner) => String(owner.id) === webhook.owner_id);
+    return `${OWNER_LABELS[webhook.owner_type]}: ${match?.name || `#${webhook.owner_id}`}`;
+  };
+
+  const openCreate = () => {
+    setEditing(null);
+    setFormData(EMPTY_FORM);
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (webhook: WebhookEndpoint) => {
+    setEditing(webhook);
+    setFormData({
+      url: webhook.url,
+      owner_type: webhook.owner_type,
+      owner_id: webhook.owner_type === "global" ? "" : webhook.owner_id,
+      events: webhook.events || [],
+    });
+    setIsDialogOpen(true);
+  };
+
+  const openLog = (webhook: WebhookEndpoint) => {
+    setLogWebhook(webhook);
+    setDeliveries([]);
+    fetchDeliveries(webhook.id);
+  };
+
+  const toggleEvent = (event: string, checked: boolean) => {
+    setFormData((prev) => ({
+      ...prev,
+      events: checked ? [...prev.events, event] : prev.events.filter((e) => e !== event),
+    }));
+  };
+
+  const handleSave = async () => {
+    if (formData.owner_type !== "global" && !formData.owner_id) {
+      toast.error(`Select a ${OWNER_LABELS[formData.owner_type].toLowerCase()}`);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const response = await fetch(
+        editing ? `/api/superadmin/webhooks/${editing.id}` : "/api/superadmin/webhooks",
+        {
+          method: editing ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            url: formData.url,
+            owner_type: formData.owner_type,
+            owner_id: formData.owner_id || undefined,
+            events: formData.events.length > 0 ? formData.events : null,
+          }),
+        }
+      );
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save webhook");
+      }
+
+      toast.success(editing ? "Webhook updated" : "Webhook created");
+      setIsDialogOpen(false);
+      if (data.secret) {
+        setRevealedSecret(data.secret);
+      }
+      fetchData();
+    } catch (error) {
+      console.error("Error saving webhook:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save webhook");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (webhook: WebhookEndpoint, isActive: boolean) => {
+    try {
+      const response = await fetch(`/api/superadmin/webhooks/${webhook.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ is_active: isActive }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to update webhook");
+      }
+      fetchData();
+    } catch (error) {
+      console.error("Error updating webhook:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update webhook");
+    }
+  };
+
+  const handleRotateSecret = async (webhook: WebhookEndpoint) => {
+    if (!confirm("Rotate the signing secret? The receiving system must be updated with the new secret.")) {
+      return;
+    }
+    try {
+      const response = await fetch(`/api/superadmin/webhooks/${webhook.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ rotate_secret: true }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to rotate secret");
+      }
+      setRevealedSecret(data.secret);
+    } catch (error) {
+      console.error("Error rotating webhook secret:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to rotate secret");
+    }
+  };
+
+  const handleDelete = async (webhook: WebhookEndpoint) => {
+    if (!confirm(`Delete the webhook for ${webhook.url}? Its delivery log is deleted too.`)) {
+      return;
+    }
+    try {
+      const response = await fetch(`/api/superadmin/webhooks/${webhook.id}`, { method: "DELETE" });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to delete webhook");
+      }
+      toast.success("Webhook deleted");
+      fetchData();
+    } catch (error) {
+      console.error("Error deleting webhook:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to delete webhook");
+    }
+  };
+
+  const handleRedeliver = async (delivery: WebhookDelivery) => {
+    if (!logWebhook) return;
+    try {
+      const response = await fetch(
+        `/api/superadmin/webhooks/${logWebhook.id}/deliveries/${delivery.id}/redeliver`,
+        { method: "POST" }
+      );
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to queue redelivery");
+      }
+      toast.success(`Delivery #${delivery.id} queued`);
+      fetchDeliveries(logWebhook.id);
+    } catch (error) {
+      console.error("Error queueing redelivery:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to queue redelivery");
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-end">
+        <Button onClick={openCreate}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Webhook
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Webhook Endpoints</CardTitle>
+          <CardDescription>
+            Ticket events are POSTed as JSON and signed with HMAC-SHA256 in the X-Resolve-Signature header
+            (t=&lt;timestamp&gt;,v1=&lt;hex digest of &quot;timestamp.body&quot;&gt;). Failed deliveries are retried with backoff.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : webhooks.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <Webhook className="w-12 h-12 mx-auto mb-4 opacity-50" />
+              <p>No webhooks configured</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>URL</TableHead>
+                  <TableHead>Tickets</TableHead>
+                  <TableHead>Events</TableHead>
+                  <TableHead>Deliveries</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {webhooks.map((webhook) => (
+                  <TableRow key={webhook.id}>
+                    <TableCell className="max-w-xs">
+                      <code className="text-xs break-all">{webhook.url}</code>
+                    </TableCell>
+                    <TableCell className="text-sm">{ownerName(webhook)}</TableCell>
+                    <TableCell>
+                      {webhook.events?.length ? (
+                        <div className="flex flex-wrap gap-1">
+                          {webhook.events.map((event) => (
+                            <Badge key={event} variant="outline">{event}</Badge>
+                          ))}
+                        </div>
+                      ) : (
+                        <span className="text-sm text-muted-foreground">All events</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm whitespace-nowrap">
+                      <span className="text-green-600">{webhook.deliveries.delivered} ok</span>
+                      {" · "}
+                      <span className="text-muted-foreground">{webhook.deliveries.pending} pending</span>
+                      {" · "}
+                      <span className="text-destructive">{webhook.deliveries.failed} failed</span>
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={webhook.is_active ?? false}
+                        onCheckedChange={(checked) => handleToggleActive(webhook, checked)}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap space-x-1">
+                      <Button size="sm" variant="outline" onClick={() => openLog(webhook)}>
+                        <History className="w-4 h-4" />
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => openEdit(webhook)}>
+                        Edit
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => handleRotateSecret(webhook)}>
+                        <KeyRound className="w-4 h-4" />
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => handleDelete(webhook)}>
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Webhook" : "Add Webhook"}</DialogTitle>
+            <DialogDescription>
+              {editing
+                ? "Change where events are sent and which tickets they cover"
+                : "The signing secret is shown once after the webhook is created"}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="webhook_url">Endpoint URL</Label>
+              <Input
+                id="webhook_url"
+                placeholder="https://example.edu/hooks/resolve"
+                value={formData.url}
+                onChange={(e) => setFormData((prev) => ({ ...prev, url: e.target.value }))}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label>Tickets</Label>
+                <Select
+                  value={formData.owner_type}
+                  onValueChange={(value) =>
+                    setFormData((prev) => ({ ...prev, owner_type: value as OwnerType, owner_id: "" }))
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(OWNER_LABELS) as OwnerType[]).map((ownerType) => (
+                      <SelectItem key={ownerType} value={ownerType}>
+                        {OWNER_LABELS[ownerType]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {formData.owner_type !== "global" && (
+                <div className="space-y-2">
+                  <Label>{OWNER_LABELS[formData.owner_type]}</Label>
+                  <Select
+                    value={formData.owner_id}
+                    onValueChange={(value) => setFormData((prev) => ({ ...prev, owner_id: value }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder={`Select ${OWNER_LABELS[formData.owner_type].toLowerCase()}`} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {owners[formData.owner_type].map((owner) => (
+                        <SelectItem key={owner.id} value={owner.id.toString()}>
+                          {owner.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Events</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {events.map((event) => (
+                  <label key={event} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={formData.events.includes(event)}
+                      onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                    />
+                    {event}
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">Leave all unchecked to receive every event.</p>
+            </div>
+          </div>
+
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving || !formData.url.trim()}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {editing ? "Save" : "Create"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!revealedSecret} onOpenChange={(open) => !open && setRevealedSecret(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Signing Secret</DialogTitle>
+            <DialogDescription>
+              Copy this secret into the receiving system now. It will not be shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 text-xs bg-muted px-2 py-2 rounded break-all">{revealedSecret}</code>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => {
+                if (revealedSecret) {
+                  navigator.clipboard.writeText(revealedSecret);
+                  toast.success("Secret copied");
+                }
+              }}
+            >
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setRevealedSecret(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!logWebhook} onOpenChange={(open) => !open && setLogWebhook(null)}>
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>Delivery Log</DialogTitle>
+            <DialogDescription className="break-all">{logWebhook?.url}</DialogDescription>
+          </DialogHeader>
+          {loadingDeliveries ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : deliveries.length === 0 ? (
+            <p className="text-center py-12 text-muted-foreground">No deliveries yet</p>
+          ) : (
+            <div className="max-h-[60vh] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>ID</TableHead>
+                    <TableHead>Event</TableHead>
+                    <TableHead>Ticket</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Attempts</TableHead>
+                    <TableHead>Last Attempt</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {deliveries.map((delivery) => (
+                    <TableRow key={delivery.id}>
+                      <TableCell className="font-mono text-sm">#{delivery.id}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{delivery.event_type}</Badge>
+                      </TableCell>
+                      <TableCell>{delivery.ticket_id ? `#${delivery.ticket_id}` : "—"}</TableCell>
+                      <TableCell className="max-w-xs">
+                        <Badge variant={DELIVERY_BADGE[delivery.status]}>
+                          {delivery.status}
+                          {delivery.last_status_code ? ` · ${delivery.last_status_code}` : ""}
+                        </Badge>
+                        {delivery.last_error && delivery.status !== "delivered" && (
+                          <p className="text-xs text-destructive break-words mt-1">{delivery.last_error}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>{delivery.attempts}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                        {formatDate(delivery.last_attempt_at)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {delivery.status !== "pending" && (
+                          <Button size="sm" variant="outline" onClick={() => handleRedeliver(delivery)}>
+                            <RotateCcw className="w-4 h-4 mr-2" />
+                            Redeliver
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
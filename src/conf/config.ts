@@ -25,6 +25,10 @@ export const emailConfig = {
   secure: process.env.SMTP_SECURE === "true",
   from: process.env.SMTP_FROM || process.env.SMTP_USER || "noreply@sst-resolve.com",
   domain: process.env.EMAIL_DOMAIN || "sst-resolve.local",
+  // Shared secret the inbound SMTP relay sends as "Authorization: Bearer <secret>"
+  inboundSecret: process.env.INBOUND_EMAIL_SECRET,
+  // Reject inbound messages larger than this (raw MIME bytes)
+  inboundMaxBytes: parseInt(process.env.INBOUND_EMAIL_MAX_BYTES || String(5 * 1024 * 1024), 10),
 } as const;
 
 /**
@@ -50,6 +54,10 @@ export const slackConfig = {
   enabled: !!(process.env.SLACK_BOT_TOKEN || process.env.SLACK_WEBHOOK_URL),
   botToken: process.env.SLACK_BOT_TOKEN,
   webhookUrl: process.env.SLACK_WEBHOOK_URL,
+  // Verifies X-Slack-Signature on Events API / interactivity requests
+  signingSecret: process.env.SLACK_SIGNING_SECRET,
+  // Visibility of thread replies synced into the portal when no prefix is given ("internal" | "public")
+  threadSyncDefaultVisibility: process.env.SLACK_THREAD_SYNC_DEFAULT === "public" ? "public" : "internal",
   channels: {
     hostel: defaultHostelChannel,
     college: process.env.SLACK_COLLEGE_CHANNEL || "#tickets-college",
@@ -103,13 +111,21 @@ export const clerkConfig = {
 } as const;
 
 /**
- * WhatsApp Configuration (for bot)
+ * WhatsApp Configuration (student notifications + inbound replies via Twilio)
+ * WHATSAPP_TRANSPORT=stub keeps messages in memory instead of calling Twilio (local development / tests)
  */
 export const whatsappConfig = {
-  enabled: !!(process.env.TWILIO_ACCOUNT_SID && process.env.TWILIO_AUTH_TOKEN),
+  transport: process.env.WHATSAPP_TRANSPORT === "stub" ? "stub" : "twilio",
+  enabled:
+    process.env.WHATSAPP_TRANSPORT === "stub" ||
+    !!(process.env.TWILIO_ACCOUNT_SID && process.env.TWILIO_AUTH_TOKEN && process.env.TWILIO_WHATSAPP_FROM),
   accountSid: process.env.TWILIO_ACCOUNT_SID,
   authToken: process.env.TWILIO_AUTH_TOKEN,
   fromNumber: process.env.TWILIO_WHATSAPP_FROM,
+  // Public URL of /api/webhooks/whatsapp as configured in Twilio (signatures are computed over it)
+  webhookUrl: process.env.TWILIO_WHATSAPP_WEBHOOK_URL,
+  // Prefixed to users.phone values stored without a country code
+  defaultCountryCode: (process.env.WHATSAPP_DEFAULT_COUNTRY_CODE || "91").replace(/\D/g, ""),
 } as const;
 
 /**
@@ -120,6 +136,82 @@ export const cronConfig = {
   autoEscalateEnabled: !!(process.env.CRON_SECRET || process.env.ENABLE_AUTO_ESCALATION === "true"),
 } as const;
 
+/**
+ * Outbox Processing Configuration
+ */
+export const outboxConfig = {
+  // Rows leased per claim
+  batchSize: parseInt(process.env.OUTBOX_BATCH_SIZE || "25", 10),
+  // Lease length; a crashed worker's rows become claimable again after this
+  leaseSeconds: parseInt(process.env.OUTBOX_LEASE_SECONDS || "120", 10),
+  // Attempts before a row is dead-lettered
+  maxAttempts: parseInt(process.env.OUTBOX_MAX_ATTEMPTS || "5", 10),
+  // Max rows of one event type in flight at once (across all cron invocations)
+  defaultConcurrency: parseInt(process.env.OUTBOX_DEFAULT_CONCURRENCY || "10", 10),
+  concurrencyByEventType: {
+    "ticket.created": 10,
+    "ticket.comment.added": 10,
+    "ticket.escalated": 5,
+    "ticket.escalated.auto": 5,
+    "ticket.escalated.manual": 5,
+    "webhook.deliver": 10,
+    "ticket.export.requested": 1,
+  } as Record<string, number>,
+} as const;
+
+/**
+ * SLA Configuration
+ * Working hours / holidays come from business_calendars; these are the fallbacks
+ */
+export const slaConfig = {
+  // Timezone for date boundaries ("due today") when a ticket has no calendar
+  defaultTimezone: process.env.SLA_DEFAULT_TIMEZONE || "Asia/Kolkata",
+  // Business hours until a new ticket must be acknowledged
+  acknowledgementHours: parseInt(process.env.SLA_ACK_HOURS || "4", 10),
+  // Business hours to resolve when neither category nor subcategory sets sla_hours
+  defaultResolutionHours: parseInt(process.env.SLA_DEFAULT_RESOLUTION_HOURS || "48", 10),
+  // Calendars are cached per process; edits take effect within this window
+  calendarCacheSeconds: parseInt(process.env.SLA_CALENDAR_CACHE_SECONDS || "300", 10),
+} as const;
+
+/**
+ * Attachment Storage Configuration
+ * Backend for ticket_attachments files ("cloudinary" | "local"); existing rows keep the provider they were written with
+ */
+export const attachmentStorageConfig = {
+  provider: process.env.ATTACHMENT_STORAGE_PROVIDER === "local" ? "local" : "cloudinary",
+  // Root directory for the local-disk backend (development / single-server deployments)
+  localDir: process.env.ATTACHMENT_LOCAL_DIR || ".data/attachments",
+  // Lifetime of signed download URLs handed out by the download route
+  downloadUrlTtlSeconds: parseInt(process.env.ATTACHMENT_DOWNLOAD_TTL_SECONDS || "300", 10),
+} as const;
+
+/**
+ * Ticket Export Configuration
+ * CSV/XLSX exports of filtered ticket lists; larger exports are built in the background by the outbox worker
+ */
+export const ticketExportConfig = {
+  // Exports up to this many tickets are streamed straight back to the browser
+  syncRowLimit: parseInt(process.env.TICKET_EXPORT_SYNC_LIMIT || "2000", 10),
+  // Hard cap for background exports
+  maxRows: parseInt(process.env.TICKET_EXPORT_MAX_ROWS || "50000", 10),
+  // Tickets loaded (with their status history and pauses) per query
+  batchSize: 500,
+} as const;
+
+/**
+ * Outgoing Webhook Configuration
+ * Endpoints are notification_channels rows with channel_type "webhook"; deliveries go through the outbox
+ */
+export const webhookConfig = {
+  // Per-request timeout for a delivery attempt
+  timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || "10000", 10),
+  // Plain http:// endpoints are only accepted outside production
+  allowInsecureUrls: process.env.NODE_ENV !== "production" || process.env.WEBHOOK_ALLOW_HTTP === "true",
+  // Characters of the endpoint's response body kept in the delivery log on failure
+  responseSnippetLength: 500,
+} as const;
+
 /**
  * Environment
  */
@@ -183,6 +275,10 @@ export function validateConfig(): { valid: boolean; errors: string[]; warnings:
     warnings.push("Slack notifications disabled");
   }
 
+  if (!whatsappConfig.enabled) {
+    warnings.push("WhatsApp notifications disabled (Twilio not configured)");
+  }
+
   if (!process.env.NEXT_PUBLIC_CLOUDINARY_CLOUD_NAME) {
     warnings.push("Cloudinary not configured - file uploads may fail");
   }
@@ -230,6 +326,7 @@ export function getConfigSummary() {
     },
     whatsapp: {
       enabled: whatsappConfig.enabled,
+      transport: whatsappConfig.transport,
       hasAccountSid: !!whatsappConfig.accountSid,
     },
     cron: {
@@ -15,6 +15,8 @@ export const TICKET_STATUS = {
     FORWARDED: "forwarded",
     RESOLVED: "resolved",
     CLOSED: "closed",
+    // Final status of a duplicate folded into another ticket (set by the merge API only)
+    MERGED: "merged",
 } as const;
 
 export type TicketStatusValue = (typeof TICKET_STATUS)[keyof typeof TICKET_STATUS];
@@ -85,6 +87,103 @@ export const COMMENT_TYPE = {
     SUPER_ADMIN_NOTE: "super_admin_note",
 } as const;
 
+export type CommentTypeValue = (typeof COMMENT_TYPE)[keyof typeof COMMENT_TYPE];
+
+/**
+ * Comment Sources (where a ticket comment was written)
+ */
+export const COMMENT_SOURCE = {
+    WEB: "web",
+    SLACK: "slack",
+    EMAIL: "email",
+    WHATSAPP: "whatsapp",
+} as const;
+
+export type CommentSourceValue = (typeof COMMENT_SOURCE)[keyof typeof COMMENT_SOURCE];
+
+/**
+ * Ticket Activity Actions (ticket_activity.action)
+ */
+export const TICKET_ACTIVITY = {
+    ACKNOWLEDGED: "acknowledged",
+    STATUS_CHANGED: "status_changed",
+    TAT_SET: "tat_set",
+    TAT_EXTENDED: "tat_extended",
+    REASSIGNED: "reassigned",
+    COMMITTEE_TAGGED: "committee_tagged",
+    COMMENT_ADDED: "comment_added",
+    ATTACHMENT_ADDED: "attachment_added",
+    ATTACHMENT_REMOVED: "attachment_removed",
+    AUTO_ASSIGNED: "auto_assigned",
+    FOLLOWED: "followed",
+    UNFOLLOWED: "unfollowed",
+    MERGED: "merged",
+    MERGED_INTO: "merged_into",
+    SPLIT: "split",
+    SPLIT_FROM: "split_from",
+    FIELDS_UPDATED: "fields_updated",
+} as const;
+
+export type TicketActivityAction = (typeof TICKET_ACTIVITY)[keyof typeof TICKET_ACTIVITY];
+
+/**
+ * Audit Log Entity Types (audit_log.entity_type; actions are "<entity>.<verb>")
+ */
+export const AUDIT_ENTITY = {
+    USER_ROLE: "user_role",
+    STAFF: "staff",
+    STUDENT: "student",
+    CATEGORY: "category",
+    SUBCATEGORY: "subcategory",
+    FIELD: "field",
+    CATEGORY_RELEASE: "category_release",
+    CATEGORY_ASSIGNMENT: "category_assignment",
+    ESCALATION_RULE: "escalation_rule",
+    NOTIFICATION_CONFIG: "notification_config",
+    WEBHOOK: "webhook",
+    COMMITTEE: "committee",
+    COMMITTEE_MEMBER: "committee_member",
+    STATUS_TRANSITION: "status_transition",
+    BUSINESS_CALENDAR: "business_calendar",
+    BUSINESS_CALENDAR_HOLIDAY: "business_calendar_holiday",
+    AVAILABILITY: "availability",
+    OUTBOX_EVENT: "outbox_event",
+    WEBHOOK_DELIVERY: "webhook_delivery",
+    DOMAIN: "domain",
+    SCOPE: "scope",
+    HOSTEL: "hostel",
+    HOSTEL_ROOM: "hostel_room",
+    BATCH: "batch",
+    CLASS_SECTION: "class_section",
+    TICKET: "ticket",
+} as const;
+
+export type AuditEntityType = (typeof AUDIT_ENTITY)[keyof typeof AUDIT_ENTITY];
+
+/**
+ * Assignment Strategies (categories.assignment_strategy / scopes.assignment_strategy)
+ */
+export const ASSIGNMENT_STRATEGY = {
+    FIXED: "fixed",
+    ROUND_ROBIN: "round_robin",
+    LEAST_OPEN: "least_open",
+    WEIGHTED: "weighted",
+} as const;
+
+export type AssignmentStrategyValue = (typeof ASSIGNMENT_STRATEGY)[keyof typeof ASSIGNMENT_STRATEGY];
+
+/**
+ * Committee Member Roles (committee_members.role)
+ * A committee has at most one active head
+ */
+export const COMMITTEE_MEMBER_ROLE = {
+    HEAD: "head",
+    COORDINATOR: "coordinator",
+    MEMBER: "member",
+} as const;
+
+export type CommitteeMemberRoleValue = (typeof COMMITTEE_MEMBER_ROLE)[keyof typeof COMMITTEE_MEMBER_ROLE];
+
 /**
  * Escalation Targets
  */
@@ -142,6 +241,28 @@ export const DEFAULTS = {
     MAX_TAT_EXTENSIONS: 3, // Auto-escalate after 3 TAT extensions
 } as const;
 
+/**
+ * Ticket Attachment Defaults (used when a category sets no attachment rules)
+ */
+export const ATTACHMENT_DEFAULTS = {
+    ALLOWED_TYPES: [
+        "image/jpeg",
+        "image/png",
+        "image/webp",
+        "application/pdf",
+        "application/msword",
+        "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+        "application/vnd.ms-excel",
+        "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        "text/plain",
+        "video/mp4",
+        "video/webm",
+        "video/quicktime",
+    ],
+    MAX_SIZE_MB: 25,
+    MAX_FILE_NAME_LENGTH: 200,
+} as const;
+
 /**
  * Time Constants (in milliseconds)
  */
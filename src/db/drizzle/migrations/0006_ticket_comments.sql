@@ -0,0 +1,77 @@
+-- Move ticket comments out of tickets.metadata.comments into ticket_comments
+-- Each comment used to rewrite the whole ticket row; comments are now individual rows
+
+CREATE TABLE IF NOT EXISTS "ticket_comments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"ticket_id" integer NOT NULL,
+	"author_id" uuid,
+	"author_name" varchar(255),
+	"author_role" varchar(32),
+	"body" text NOT NULL,
+	"comment_type" varchar(32) DEFAULT 'student_visible' NOT NULL,
+	"source" varchar(16) DEFAULT 'web' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"edited_at" timestamp,
+	"deleted_at" timestamp
+);
+
+DO $$ BEGIN
+	ALTER TABLE "ticket_comments" ADD CONSTRAINT "ticket_comments_ticket_id_tickets_id_fk" FOREIGN KEY ("ticket_id") REFERENCES "public"."tickets"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+	WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+	ALTER TABLE "ticket_comments" ADD CONSTRAINT "ticket_comments_author_id_users_id_fk" FOREIGN KEY ("author_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+	WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "idx_ticket_comments_ticket" ON "ticket_comments" USING btree ("ticket_id");
+CREATE INDEX IF NOT EXISTS "idx_ticket_comments_ticket_created" ON "ticket_comments" USING btree ("ticket_id", "created_at");
+CREATE INDEX IF NOT EXISTS "idx_ticket_comments_author" ON "ticket_comments" USING btree ("author_id");
+
+-- Backfill from metadata.comments
+-- Legacy shape: { text, author, createdAt, source, type, isInternal }
+-- Legacy sources: website (student), admin_dashboard, committee_dashboard, slack, email
+INSERT INTO "ticket_comments" ("ticket_id", "author_name", "author_role", "body", "comment_type", "source", "created_at")
+SELECT
+	t.id,
+	NULLIF(c.value->>'author', ''),
+	CASE c.value->>'source'
+		WHEN 'website' THEN 'student'
+		WHEN 'committee_dashboard' THEN 'committee'
+		WHEN 'admin_dashboard' THEN 'admin'
+		WHEN 'slack' THEN 'admin'
+		ELSE NULL
+	END,
+	c.value->>'text',
+	CASE
+		WHEN c.value->>'type' IN ('student_visible', 'internal_note', 'super_admin_note') THEN c.value->>'type'
+		WHEN c.value->>'isInternal' = 'true' THEN 'internal_note'
+		ELSE 'student_visible'
+	END,
+	CASE c.value->>'source'
+		WHEN 'slack' THEN 'slack'
+		WHEN 'email' THEN 'email'
+		ELSE 'web'
+	END,
+	COALESCE(
+		(NULLIF(c.value->>'createdAt', '')::timestamptz AT TIME ZONE 'UTC'),
+		(NULLIF(c.value->>'created_at', '')::timestamptz AT TIME ZONE 'UTC'),
+		t.updated_at,
+		t.created_at,
+		now()
+	)
+FROM "tickets" t
+CROSS JOIN LATERAL jsonb_array_elements(t.metadata->'comments') WITH ORDINALITY AS c(value, ord)
+WHERE jsonb_typeof(t.metadata->'comments') = 'array'
+	AND jsonb_typeof(c.value) = 'object'
+	AND COALESCE(TRIM(c.value->>'text'), '') <> ''
+	AND NOT EXISTS (SELECT 1 FROM "ticket_comments" tc WHERE tc.ticket_id = t.id)
+ORDER BY t.id, c.ord;
+
+-- Drop the legacy array so nothing keeps reading stale data
+UPDATE "tickets"
+SET "metadata" = "metadata" - 'comments'
+WHERE jsonb_typeof("metadata") = 'object' AND "metadata" ? 'comments';
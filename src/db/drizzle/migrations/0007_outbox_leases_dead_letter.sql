@@ -0,0 +1,12 @@
+-- Outbox: batch claiming with leases and a dead-letter state
+-- locked_until: lease expiry for the worker that claimed the row (re-claimable once it passes)
+-- last_error: message from the most recent failed attempt
+-- dead_lettered_at: set when attempts are exhausted; the row is only retried via replay
+
+ALTER TABLE "outbox" ADD COLUMN IF NOT EXISTS "locked_until" timestamp;
+ALTER TABLE "outbox" ADD COLUMN IF NOT EXISTS "last_error" text;
+ALTER TABLE "outbox" ADD COLUMN IF NOT EXISTS "dead_lettered_at" timestamp;
+
+CREATE INDEX IF NOT EXISTS "idx_outbox_pending" ON "outbox" USING btree ("processed_at", "dead_lettered_at", "next_retry_at");
+CREATE INDEX IF NOT EXISTS "idx_outbox_event_type" ON "outbox" USING btree ("event_type");
+CREATE INDEX IF NOT EXISTS "idx_outbox_dead_lettered" ON "outbox" USING btree ("dead_lettered_at");
@@ -0,0 +1,11 @@
+-- Inbound comments (email replies, Slack thread messages) record the id of the originating message
+-- so a redelivered webhook does not create the same comment twice
+-- NULLs are distinct, so web comments (no external_id) are unaffected by the unique constraint
+
+ALTER TABLE "ticket_comments" ADD COLUMN IF NOT EXISTS "external_id" varchar(255);
+
+DO $$ BEGIN
+	ALTER TABLE "ticket_comments" ADD CONSTRAINT "unique_ticket_comments_source_external" UNIQUE("source","external_id");
+EXCEPTION
+	WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,52 @@
+-- Working-hours calendars for the SLA clock (per domain / scope, with holidays)
+-- Tickets with no matching calendar keep the previous round-the-clock behaviour
+
+CREATE TABLE IF NOT EXISTS "business_calendars" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" varchar(120) NOT NULL,
+	"domain_id" integer,
+	"scope_id" integer,
+	"timezone" varchar(64) DEFAULT 'Asia/Kolkata' NOT NULL,
+	"weekly_schedule" jsonb NOT NULL,
+	"is_default" boolean DEFAULT false NOT NULL,
+	"is_active" boolean DEFAULT true,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS "business_calendar_holidays" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"calendar_id" integer NOT NULL,
+	"date" date NOT NULL,
+	"name" varchar(140),
+	"created_at" timestamp DEFAULT now()
+);
+
+DO $$ BEGIN
+	ALTER TABLE "business_calendars" ADD CONSTRAINT "business_calendars_domain_id_domains_id_fk" FOREIGN KEY ("domain_id") REFERENCES "public"."domains"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+	WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+	ALTER TABLE "business_calendars" ADD CONSTRAINT "business_calendars_scope_id_scopes_id_fk" FOREIGN KEY ("scope_id") REFERENCES "public"."scopes"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+	WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+	ALTER TABLE "business_calendar_holidays" ADD CONSTRAINT "business_calendar_holidays_calendar_id_business_calendars_id_fk" FOREIGN KEY ("calendar_id") REFERENCES "public"."business_calendars"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+	WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+	ALTER TABLE "business_calendar_holidays" ADD CONSTRAINT "unique_business_calendar_holiday" UNIQUE("calendar_id","date");
+EXCEPTION
+	WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "idx_business_calendars_domain" ON "business_calendars" USING btree ("domain_id");
+CREATE INDEX IF NOT EXISTS "idx_business_calendars_scope" ON "business_calendars" USING btree ("scope_id");
+CREATE INDEX IF NOT EXISTS "idx_business_calendars_active" ON "business_calendars" USING btree ("is_active");
+CREATE INDEX IF NOT EXISTS "idx_business_calendar_holidays_calendar" ON "business_calendar_holidays" USING btree ("calendar_id");
@@ -0,0 +1,35 @@
+-- SLA pause/resume: statuses flagged pauses_sla stop the clock; each pause is recorded as an interval
+-- and resolution_due_at is pushed out by the paused working time when the ticket resumes
+
+ALTER TABLE "ticket_statuses" ADD COLUMN IF NOT EXISTS "pauses_sla" boolean DEFAULT false NOT NULL;
+
+UPDATE "ticket_statuses" SET "pauses_sla" = true WHERE "value" = 'awaiting_student';
+
+CREATE TABLE IF NOT EXISTS "ticket_sla_pauses" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"ticket_id" integer NOT NULL,
+	"status_value" varchar(50) NOT NULL,
+	"paused_at" timestamp NOT NULL,
+	"resumed_at" timestamp,
+	"paused_business_seconds" integer,
+	"created_at" timestamp DEFAULT now()
+);
+
+DO $$ BEGIN
+	ALTER TABLE "ticket_sla_pauses" ADD CONSTRAINT "ticket_sla_pauses_ticket_id_tickets_id_fk" FOREIGN KEY ("ticket_id") REFERENCES "public"."tickets"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+	WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "idx_ticket_sla_pauses_ticket" ON "ticket_sla_pauses" USING btree ("ticket_id");
+CREATE INDEX IF NOT EXISTS "idx_ticket_sla_pauses_open" ON "ticket_sla_pauses" USING btree ("ticket_id","resumed_at");
+
+-- Tickets currently awaiting the student: open a pause from the legacy metadata.tatPauseStart (or now)
+INSERT INTO "ticket_sla_pauses" ("ticket_id", "status_value", "paused_at")
+SELECT t."id", ts."value", COALESCE((t."metadata"->>'tatPauseStart')::timestamp, now())
+FROM "tickets" t
+JOIN "ticket_statuses" ts ON ts."id" = t."status_id"
+WHERE ts."pauses_sla" = true
+	AND NOT EXISTS (
+		SELECT 1 FROM "ticket_sla_pauses" p WHERE p."ticket_id" = t."id" AND p."resumed_at" IS NULL
+	);
@@ -0,0 +1,50 @@
+-- Status workflow: allowed from → to moves, who may make them and what they require
+-- Seeded with the previously hardcoded rules so existing behaviour is unchanged
+
+CREATE TABLE IF NOT EXISTS "status_transitions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"from_status_id" integer NOT NULL,
+	"to_status_id" integer NOT NULL,
+	"allowed_roles" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"requires_comment" boolean DEFAULT false NOT NULL,
+	"requires_tat" boolean DEFAULT false NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+
+DO $$ BEGIN
+	ALTER TABLE "status_transitions" ADD CONSTRAINT "status_transitions_from_status_id_ticket_statuses_id_fk" FOREIGN KEY ("from_status_id") REFERENCES "public"."ticket_statuses"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+	WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+	ALTER TABLE "status_transitions" ADD CONSTRAINT "status_transitions_to_status_id_ticket_statuses_id_fk" FOREIGN KEY ("to_status_id") REFERENCES "public"."ticket_statuses"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+	WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+	ALTER TABLE "status_transitions" ADD CONSTRAINT "unique_status_transition" UNIQUE("from_status_id","to_status_id");
+EXCEPTION
+	WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "idx_status_transitions_from" ON "status_transitions" USING btree ("from_status_id");
+
+-- Staff can move between any two statuses, except resolved/closed → open (use reopened).
+-- Students can close their own active tickets and reopen resolved/closed ones.
+INSERT INTO "status_transitions" ("from_status_id", "to_status_id", "allowed_roles")
+SELECT f."id", t."id",
+	CASE
+		WHEN (f."value" IN ('open', 'in_progress', 'awaiting_student', 'reopened') AND t."value" IN ('resolved', 'closed'))
+			OR (f."value" IN ('resolved', 'closed') AND t."value" = 'reopened')
+		THEN '["admin", "snr_admin", "super_admin", "committee", "student"]'::jsonb
+		ELSE '["admin", "snr_admin", "super_admin", "committee"]'::jsonb
+	END
+FROM "ticket_statuses" f
+CROSS JOIN "ticket_statuses" t
+WHERE f."id" <> t."id"
+	AND NOT (f."value" IN ('resolved', 'closed') AND t."value" = 'open')
+ON CONFLICT ("from_status_id", "to_status_id") DO NOTHING;
@@ -0,0 +1,19 @@
+-- Full-text search: generated tsvector columns with GIN indexes on tickets and ticket_comments.
+-- A generated column can only read its own row, so comment text is indexed on ticket_comments
+-- and matched alongside the ticket document (see lib/ticket/data/ticketSearch.ts).
+-- Adding a stored generated column rewrites the table once.
+
+ALTER TABLE "tickets" ADD COLUMN IF NOT EXISTS "search_vector" tsvector GENERATED ALWAYS AS (
+	setweight(to_tsvector('english', coalesce("title", '')), 'A')
+	|| setweight(to_tsvector('english', coalesce("description", '')), 'B')
+	|| setweight(to_tsvector('english', coalesce("location", '')), 'C')
+	|| setweight(jsonb_to_tsvector('english', coalesce("metadata"->'dynamic_fields', '{}'::jsonb), '["string"]'), 'C')
+) STORED;
+
+CREATE INDEX IF NOT EXISTS "idx_tickets_search" ON "tickets" USING gin ("search_vector");
+
+ALTER TABLE "ticket_comments" ADD COLUMN IF NOT EXISTS "search_vector" tsvector GENERATED ALWAYS AS (
+	to_tsvector('english', coalesce("body", ''))
+) STORED;
+
+CREATE INDEX IF NOT EXISTS "idx_ticket_comments_search" ON "ticket_comments" USING gin ("search_vector");
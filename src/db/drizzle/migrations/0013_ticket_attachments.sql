@@ -0,0 +1,16 @@
+-- General ticket attachments: files stored through a pluggable backend and recorded in ticket_attachments,
+-- optionally linked to a comment. Categories can restrict attachment types and size.
+
+ALTER TABLE "ticket_attachments" ADD COLUMN IF NOT EXISTS "comment_id" integer;
+ALTER TABLE "ticket_attachments" ADD COLUMN IF NOT EXISTS "storage_provider" varchar(32) DEFAULT 'cloudinary' NOT NULL;
+
+DO $$ BEGIN
+	ALTER TABLE "ticket_attachments" ADD CONSTRAINT "ticket_attachments_comment_id_ticket_comments_id_fk" FOREIGN KEY ("comment_id") REFERENCES "public"."ticket_comments"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+	WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "idx_ticket_attachments_comment" ON "ticket_attachments" USING btree ("comment_id");
+
+ALTER TABLE "categories" ADD COLUMN IF NOT EXISTS "attachment_types" jsonb;
+ALTER TABLE "categories" ADD COLUMN IF NOT EXISTS "attachment_max_mb" integer;
@@ -0,0 +1,39 @@
+-- Outgoing webhooks: notification_channels rows of type 'webhook' hold an endpoint URL and signing secret.
+-- Each ticket lifecycle event is fanned out to matching endpoints and logged per endpoint in webhook_deliveries.
+
+ALTER TABLE "notification_channels" ADD COLUMN IF NOT EXISTS "webhook_url" varchar(2048);
+ALTER TABLE "notification_channels" ADD COLUMN IF NOT EXISTS "webhook_secret" varchar(255);
+ALTER TABLE "notification_channels" ADD COLUMN IF NOT EXISTS "webhook_events" jsonb;
+
+CREATE TABLE IF NOT EXISTS "webhook_deliveries" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"channel_id" integer NOT NULL,
+	"source_outbox_id" integer NOT NULL,
+	"event_type" varchar(64) NOT NULL,
+	"ticket_id" integer,
+	"payload" jsonb NOT NULL,
+	"status" varchar(16) DEFAULT 'pending' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"last_status_code" integer,
+	"last_error" text,
+	"last_attempt_at" timestamp,
+	"delivered_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "unique_webhook_delivery_source" UNIQUE("channel_id","source_outbox_id")
+);
+
+DO $$ BEGIN
+	ALTER TABLE "webhook_deliveries" ADD CONSTRAINT "webhook_deliveries_channel_id_notification_channels_id_fk" FOREIGN KEY ("channel_id") REFERENCES "public"."notification_channels"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+	WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+	ALTER TABLE "webhook_deliveries" ADD CONSTRAINT "webhook_deliveries_ticket_id_tickets_id_fk" FOREIGN KEY ("ticket_id") REFERENCES "public"."tickets"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+	WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "idx_webhook_deliveries_channel_created" ON "webhook_deliveries" USING btree ("channel_id","created_at");
+CREATE INDEX IF NOT EXISTS "idx_webhook_deliveries_status" ON "webhook_deliveries" USING btree ("status");
+CREATE INDEX IF NOT EXISTS "idx_webhook_deliveries_ticket" ON "webhook_deliveries" USING btree ("ticket_id");
@@ -0,0 +1,6 @@
+-- WhatsApp channel for students: per-user opt-in and the Twilio message SID of sent notifications
+
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "whatsapp_opt_in" boolean DEFAULT false NOT NULL;
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "whatsapp_opt_in_changed_at" timestamp;
+
+ALTER TABLE "notifications" ADD COLUMN IF NOT EXISTS "whatsapp_message_id" varchar(64);
@@ -0,0 +1,14 @@
+-- Workload-aware assignment: per category / scope strategy, admin availability and capacity
+
+DO $$ BEGIN
+ CREATE TYPE "public"."assignment_strategy" AS ENUM('fixed', 'round_robin', 'least_open', 'weighted');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+ALTER TABLE "categories" ADD COLUMN IF NOT EXISTS "assignment_strategy" "assignment_strategy";
+ALTER TABLE "scopes" ADD COLUMN IF NOT EXISTS "assignment_strategy" "assignment_strategy";
+
+ALTER TABLE "admin_profiles" ADD COLUMN IF NOT EXISTS "is_active" boolean DEFAULT true NOT NULL;
+ALTER TABLE "admin_profiles" ADD COLUMN IF NOT EXISTS "is_available" boolean DEFAULT true NOT NULL;
+ALTER TABLE "admin_profiles" ADD COLUMN IF NOT EXISTS "capacity" integer DEFAULT 10 NOT NULL;
@@ -0,0 +1,34 @@
+-- Admin out-of-office windows. While a window is active, new work for the admin is routed to the
+-- window's delegate (or the next available admin in their scope).
+
+CREATE TABLE IF NOT EXISTS "admin_availability" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" uuid NOT NULL,
+	"starts_at" timestamp NOT NULL,
+	"ends_at" timestamp NOT NULL,
+	"delegate_id" uuid,
+	"note" varchar(255),
+	"created_by" uuid,
+	"created_at" timestamp DEFAULT now()
+);
+
+DO $$ BEGIN
+	ALTER TABLE "admin_availability" ADD CONSTRAINT "admin_availability_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+	WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+	ALTER TABLE "admin_availability" ADD CONSTRAINT "admin_availability_delegate_id_users_id_fk" FOREIGN KEY ("delegate_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+	WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+	ALTER TABLE "admin_availability" ADD CONSTRAINT "admin_availability_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+	WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "idx_admin_availability_user_window" ON "admin_availability" USING btree ("user_id","starts_at","ends_at");
+CREATE INDEX IF NOT EXISTS "idx_admin_availability_delegate" ON "admin_availability" USING btree ("delegate_id");
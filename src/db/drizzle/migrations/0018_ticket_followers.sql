@@ -0,0 +1,24 @@
+-- Students following an existing open ticket instead of filing a duplicate
+
+CREATE TABLE IF NOT EXISTS "ticket_followers" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"ticket_id" integer NOT NULL,
+	"user_id" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "unique_ticket_follower" UNIQUE("ticket_id","user_id")
+);
+
+DO $$ BEGIN
+	ALTER TABLE "ticket_followers" ADD CONSTRAINT "ticket_followers_ticket_id_tickets_id_fk" FOREIGN KEY ("ticket_id") REFERENCES "public"."tickets"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+	WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+	ALTER TABLE "ticket_followers" ADD CONSTRAINT "ticket_followers_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+	WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "idx_ticket_followers_ticket" ON "ticket_followers" USING btree ("ticket_id");
+CREATE INDEX IF NOT EXISTS "idx_ticket_followers_user" ON "ticket_followers" USING btree ("user_id");
@@ -0,0 +1,24 @@
+-- Ticket merge / split: links between tickets and a final "merged" status for folded duplicates
+
+ALTER TABLE "tickets" ADD COLUMN IF NOT EXISTS "merged_into_id" integer;
+ALTER TABLE "tickets" ADD COLUMN IF NOT EXISTS "parent_ticket_id" integer;
+
+DO $$ BEGIN
+	ALTER TABLE "tickets" ADD CONSTRAINT "tickets_merged_into_id_tickets_id_fk" FOREIGN KEY ("merged_into_id") REFERENCES "public"."tickets"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+	WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+	ALTER TABLE "tickets" ADD CONSTRAINT "tickets_parent_ticket_id_tickets_id_fk" FOREIGN KEY ("parent_ticket_id") REFERENCES "public"."tickets"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+	WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "idx_tickets_merged_into" ON "tickets" USING btree ("merged_into_id");
+CREATE INDEX IF NOT EXISTS "idx_tickets_parent" ON "tickets" USING btree ("parent_ticket_id");
+
+-- Only the merge API moves tickets here, so no status_transitions rows lead into it
+INSERT INTO "ticket_statuses" ("value", "label", "description", "progress_percent", "badge_color", "is_active", "is_final", "display_order")
+VALUES ('merged', 'Merged', 'Duplicate merged into another ticket', 100, 'gray', true, true, 99)
+ON CONFLICT ("value") DO NOTHING;
@@ -0,0 +1,47 @@
+-- Append-only audit trail of administrative changes (roles, categories, fields, committees, students, ...)
+
+CREATE TABLE IF NOT EXISTS "audit_log" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"actor_id" uuid,
+	"actor_external_id" varchar(255),
+	"actor_role" varchar(32),
+	"action" varchar(80) NOT NULL,
+	"entity_type" varchar(64) NOT NULL,
+	"entity_id" varchar(128),
+	"before" jsonb,
+	"after" jsonb,
+	"changes" jsonb,
+	"ip_address" varchar(64),
+	"user_agent" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+
+DO $$ BEGIN
+	ALTER TABLE "audit_log" ADD CONSTRAINT "audit_log_actor_id_users_id_fk" FOREIGN KEY ("actor_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+	WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "idx_audit_log_created" ON "audit_log" USING btree ("created_at");
+CREATE INDEX IF NOT EXISTS "idx_audit_log_actor" ON "audit_log" USING btree ("actor_id");
+CREATE INDEX IF NOT EXISTS "idx_audit_log_entity" ON "audit_log" USING btree ("entity_type","entity_id");
+CREATE INDEX IF NOT EXISTS "idx_audit_log_action" ON "audit_log" USING btree ("action");
+
+-- Rows are immutable: reject edits and deletes. Only the actor_id FK's ON DELETE SET NULL
+-- (removing a user) may touch an existing row, and only that column.
+CREATE OR REPLACE FUNCTION audit_log_immutable() RETURNS trigger AS $$
+BEGIN
+	IF TG_OP = 'UPDATE'
+		AND NEW.actor_id IS NULL
+		AND OLD.actor_id IS NOT NULL
+		AND (to_jsonb(NEW) - 'actor_id') = (to_jsonb(OLD) - 'actor_id') THEN
+		RETURN NEW;
+	END IF;
+	RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS "audit_log_immutable" ON "audit_log";
+CREATE TRIGGER "audit_log_immutable"
+	BEFORE UPDATE OR DELETE ON "audit_log"
+	FOR EACH ROW EXECUTE FUNCTION audit_log_immutable();
@@ -0,0 +1,25 @@
+-- Background CSV/XLSX exports of filtered ticket lists (large exports are built by the outbox worker)
+
+CREATE TABLE IF NOT EXISTS "ticket_exports" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"requested_by" uuid,
+	"format" varchar(8) NOT NULL,
+	"filters" jsonb,
+	"status" varchar(16) DEFAULT 'pending' NOT NULL,
+	"row_count" integer,
+	"error" text,
+	"file_name" varchar(255),
+	"storage_provider" varchar(32),
+	"storage_key" varchar(512),
+	"file_size" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp
+);
+
+DO $$ BEGIN
+	ALTER TABLE "ticket_exports" ADD CONSTRAINT "ticket_exports_requested_by_users_id_fk" FOREIGN KEY ("requested_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+	WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "idx_ticket_exports_requested_by" ON "ticket_exports" USING btree ("requested_by","created_at");
@@ -0,0 +1,46 @@
+-- Committee membership with roles (head / coordinator / member) and join/leave dates.
+-- committees.head_id is kept as a mirror of the current head.
+
+CREATE TABLE IF NOT EXISTS "committee_members" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"committee_id" integer NOT NULL,
+	"user_id" uuid NOT NULL,
+	"role" varchar(32) DEFAULT 'member' NOT NULL,
+	"joined_at" timestamp DEFAULT now() NOT NULL,
+	"left_at" timestamp,
+	"added_by" uuid,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+
+DO $$ BEGIN
+	ALTER TABLE "committee_members" ADD CONSTRAINT "committee_members_committee_id_committees_id_fk" FOREIGN KEY ("committee_id") REFERENCES "public"."committees"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+	WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+	ALTER TABLE "committee_members" ADD CONSTRAINT "committee_members_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+	WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+	ALTER TABLE "committee_members" ADD CONSTRAINT "committee_members_added_by_users_id_fk" FOREIGN KEY ("added_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+	WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "idx_committee_members_committee" ON "committee_members" USING btree ("committee_id","left_at");
+CREATE INDEX IF NOT EXISTS "idx_committee_members_user" ON "committee_members" USING btree ("user_id","left_at");
+CREATE UNIQUE INDEX IF NOT EXISTS "unique_committee_members_active" ON "committee_members" USING btree ("committee_id","user_id") WHERE "committee_members"."left_at" IS NULL;
+
+-- Existing heads become head members
+INSERT INTO "committee_members" ("committee_id", "user_id", "role", "joined_at")
+SELECT c."id", c."head_id", 'head', COALESCE(c."created_at", now())
+FROM "committees" c
+WHERE c."head_id" IS NOT NULL
+	AND NOT EXISTS (
+		SELECT 1 FROM "committee_members" m
+		WHERE m."committee_id" = c."id" AND m."user_id" = c."head_id" AND m."left_at" IS NULL
+	);
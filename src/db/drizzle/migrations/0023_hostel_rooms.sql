@@ -0,0 +1,19 @@
+-- Hostel floors and rooms (master data for the location field type).
+
+CREATE TABLE IF NOT EXISTS "hostel_rooms" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"hostel_id" integer NOT NULL,
+	"floor" varchar(32) NOT NULL,
+	"room_no" varchar(16) NOT NULL,
+	"is_active" boolean DEFAULT true,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "unique_hostel_rooms_room" UNIQUE("hostel_id","room_no")
+);
+
+DO $$ BEGIN
+	ALTER TABLE "hostel_rooms" ADD CONSTRAINT "hostel_rooms_hostel_id_hostels_id_fk" FOREIGN KEY ("hostel_id") REFERENCES "public"."hostels"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+	WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "idx_hostel_rooms_hostel" ON "hostel_rooms" USING btree ("hostel_id","floor");
@@ -0,0 +1,26 @@
+-- Versioned subcategory form schemas: snapshots of category_fields + field_options.
+-- Tickets record the version they were submitted with in metadata.form_version_id;
+-- tickets filed before this migration have none and render with the current fields.
+
+CREATE TABLE IF NOT EXISTS "subcategory_form_versions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"subcategory_id" integer NOT NULL,
+	"version" integer NOT NULL,
+	"fields" jsonb NOT NULL,
+	"checksum" varchar(64) NOT NULL,
+	"created_by" uuid,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "unique_subcategory_form_version" UNIQUE("subcategory_id","version")
+);
+
+DO $$ BEGIN
+	ALTER TABLE "subcategory_form_versions" ADD CONSTRAINT "subcategory_form_versions_subcategory_id_subcategories_id_fk" FOREIGN KEY ("subcategory_id") REFERENCES "public"."subcategories"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+	WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+	ALTER TABLE "subcategory_form_versions" ADD CONSTRAINT "subcategory_form_versions_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+	WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,77 @@
+-- Draft / publish for category configuration. category_releases holds published
+-- snapshots of a category's subcategories, fields and options; the latest release
+-- is what students see, while edits to the live tables stay a draft until published.
+
+CREATE TABLE IF NOT EXISTS "category_releases" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"category_id" integer NOT NULL,
+	"version" integer NOT NULL,
+	"snapshot" jsonb NOT NULL,
+	"restored_from" integer,
+	"published_by" uuid,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "unique_category_release_version" UNIQUE("category_id","version")
+);
+
+DO $$ BEGIN
+	ALTER TABLE "category_releases" ADD CONSTRAINT "category_releases_category_id_categories_id_fk" FOREIGN KEY ("category_id") REFERENCES "public"."categories"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+	WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+	ALTER TABLE "category_releases" ADD CONSTRAINT "category_releases_published_by_users_id_fk" FOREIGN KEY ("published_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+	WHEN duplicate_object THEN null;
+END $$;
+
+-- Publish the current configuration of every existing category as release 1 so
+-- students keep seeing the same forms (same shape as buildCategorySnapshot)
+INSERT INTO "category_releases" ("category_id", "version", "snapshot")
+SELECT
+	c."id",
+	1,
+	jsonb_build_object(
+		'category', jsonb_build_object(
+			'id', c."id",
+			'name', c."name",
+			'slug', c."slug",
+			'description', c."description",
+			'icon', c."icon",
+			'color', c."color",
+			'display_order', COALESCE(c."display_order", 0)
+		),
+		'subcategories', COALESCE((
+			SELECT jsonb_agg(jsonb_build_object(
+				'id', s."id",
+				'name', s."name",
+				'slug', s."slug",
+				'description', s."description",
+				'display_order', COALESCE(s."display_order", 0),
+				'fields', COALESCE((
+					SELECT jsonb_agg(jsonb_build_object(
+						'id', f."id",
+						'slug', f."slug",
+						'name', f."name",
+						'field_type', f."field_type",
+						'required', COALESCE(f."required", false),
+						'placeholder', f."placeholder",
+						'help_text', f."help_text",
+						'validation_rules', CASE WHEN jsonb_typeof(f."validation_rules") = 'object' THEN f."validation_rules" END,
+						'display_order', COALESCE(f."display_order", 0),
+						'options', COALESCE((
+							SELECT jsonb_agg(jsonb_build_object('label', o."label", 'value', o."value") ORDER BY o."display_order", o."id")
+							FROM "field_options" o
+							WHERE o."field_id" = f."id" AND o."is_active" = true
+						), '[]'::jsonb)
+					) ORDER BY f."display_order", f."id")
+					FROM "category_fields" f
+					WHERE f."subcategory_id" = s."id" AND f."is_active" = true
+				), '[]'::jsonb)
+			) ORDER BY s."display_order", s."id")
+			FROM "subcategories" s
+			WHERE s."category_id" = c."id" AND s."is_active" = true
+		), '[]'::jsonb)
+	)
+FROM "categories" c
+WHERE NOT EXISTS (SELECT 1 FROM "category_releases" r WHERE r."category_id" = c."id");
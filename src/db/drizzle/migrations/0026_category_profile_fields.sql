@@ -0,0 +1,4 @@
+-- Profile fields a category collects on new tickets (draft; published with the category release).
+-- null keeps the standard contact fields.
+
+ALTER TABLE "categories" ADD COLUMN IF NOT EXISTS "profile_fields" jsonb;
@@ -22,26 +22,41 @@ import {
   users,
   tickets,
   hostels,
+  hostel_rooms,
+  subcategory_form_versions,
+  category_releases,
   categories,
   subcategories,
   ticket_feedback,
   ticket_integrations,
   ticket_activity,
+  ticket_comments,
+  ticket_sla_pauses,
   roles,
   domains,
   scopes,
   batches,
   class_sections,
   admin_assignments,
+  admin_availability,
   category_assignments,
   category_fields,
   field_options,
   ticket_statuses,
+  status_transitions,
   ticket_attachments,
   ticket_committee_tags,
+  ticket_followers,
   committees,
+  committee_members,
   notifications,
   escalation_rules,
+  business_calendars,
+  business_calendar_holidays,
+  notification_channels,
+  webhook_deliveries,
+  audit_log,
+  ticket_exports,
 } from "./schema";
 
 // ============================================================================
@@ -67,6 +82,8 @@ export type TicketInsert = typeof tickets.$inferInsert;
 // ============================================================================
 export type HostelSelect = typeof hostels.$inferSelect;
 export type HostelInsert = typeof hostels.$inferInsert;
+export type HostelRoomSelect = typeof hostel_rooms.$inferSelect;
+export type HostelRoomInsert = typeof hostel_rooms.$inferInsert;
 
 // ============================================================================
 // CATEGORIES
@@ -84,6 +101,18 @@ export type SubcategoryInsert = typeof subcategories.$inferInsert;
 export type TicketActivitySelect = typeof ticket_activity.$inferSelect;
 export type TicketActivityInsert = typeof ticket_activity.$inferInsert;
 
+// ============================================================================
+// TICKET COMMENTS
+// ============================================================================
+export type TicketCommentSelect = typeof ticket_comments.$inferSelect;
+export type TicketCommentInsert = typeof ticket_comments.$inferInsert;
+
+// ============================================================================
+// TICKET SLA PAUSES
+// ============================================================================
+export type TicketSlaPauseSelect = typeof ticket_sla_pauses.$inferSelect;
+export type TicketSlaPauseInsert = typeof ticket_sla_pauses.$inferInsert;
+
 // ============================================================================
 // TICKET FEEDBACK & INTEGRATIONS
 // ============================================================================
@@ -126,6 +155,9 @@ export type AdminProfileInsert = typeof admin_profiles.$inferInsert;
 export type AdminAssignmentSelect = typeof admin_assignments.$inferSelect;
 export type AdminAssignmentInsert = typeof admin_assignments.$inferInsert;
 
+export type AdminAvailabilitySelect = typeof admin_availability.$inferSelect;
+export type AdminAvailabilityInsert = typeof admin_availability.$inferInsert;
+
 // ============================================================================
 // CATEGORY ASSIGNMENTS & FIELDS
 // ============================================================================
@@ -138,24 +170,39 @@ export type CategoryFieldInsert = typeof category_fields.$inferInsert;
 export type FieldOptionSelect = typeof field_options.$inferSelect;
 export type FieldOptionInsert = typeof field_options.$inferInsert;
 
+export type SubcategoryFormVersionSelect = typeof subcategory_form_versions.$inferSelect;
+export type SubcategoryFormVersionInsert = typeof subcategory_form_versions.$inferInsert;
+
+export type CategoryReleaseSelect = typeof category_releases.$inferSelect;
+export type CategoryReleaseInsert = typeof category_releases.$inferInsert;
+
 // ============================================================================
 // TICKET STATUSES & ATTACHMENTS
 // ============================================================================
 export type TicketStatusSelect = typeof ticket_statuses.$inferSelect;
 export type TicketStatusInsert = typeof ticket_statuses.$inferInsert;
 
+export type StatusTransitionSelect = typeof status_transitions.$inferSelect;
+export type StatusTransitionInsert = typeof status_transitions.$inferInsert;
+
 export type TicketAttachmentSelect = typeof ticket_attachments.$inferSelect;
 export type TicketAttachmentInsert = typeof ticket_attachments.$inferInsert;
 
 export type TicketCommitteeTagSelect = typeof ticket_committee_tags.$inferSelect;
 export type TicketCommitteeTagInsert = typeof ticket_committee_tags.$inferInsert;
 
+export type TicketFollowerSelect = typeof ticket_followers.$inferSelect;
+export type TicketFollowerInsert = typeof ticket_followers.$inferInsert;
+
 // ============================================================================
 // COMMITTEES
 // ============================================================================
 export type CommitteeSelect = typeof committees.$inferSelect;
 export type CommitteeInsert = typeof committees.$inferInsert;
 
+export type CommitteeMemberSelect = typeof committee_members.$inferSelect;
+export type CommitteeMemberInsert = typeof committee_members.$inferInsert;
+
 // ============================================================================
 // NOTIFICATIONS & ESCALATION
 // ============================================================================
@@ -165,6 +212,33 @@ export type NotificationInsert = typeof notifications.$inferInsert;
 export type EscalationRuleSelect = typeof escalation_rules.$inferSelect;
 export type EscalationRuleInsert = typeof escalation_rules.$inferInsert;
 
+export type NotificationChannelSelect = typeof notification_channels.$inferSelect;
+export type NotificationChannelInsert = typeof notification_channels.$inferInsert;
+
+export type WebhookDeliverySelect = typeof webhook_deliveries.$inferSelect;
+export type WebhookDeliveryInsert = typeof webhook_deliveries.$inferInsert;
+
+// ============================================================================
+// AUDIT LOG
+// ============================================================================
+export type AuditLogSelect = typeof audit_log.$inferSelect;
+export type AuditLogInsert = typeof audit_log.$inferInsert;
+
+// ============================================================================
+// TICKET EXPORTS
+// ============================================================================
+export type TicketExportSelect = typeof ticket_exports.$inferSelect;
+export type TicketExportInsert = typeof ticket_exports.$inferInsert;
+
+// ============================================================================
+// BUSINESS CALENDARS (SLA clock)
+// ============================================================================
+export type BusinessCalendarSelect = typeof business_calendars.$inferSelect;
+export type BusinessCalendarInsert = typeof business_calendars.$inferInsert;
+
+export type BusinessCalendarHolidaySelect = typeof business_calendar_holidays.$inferSelect;
+export type BusinessCalendarHolidayInsert = typeof business_calendar_holidays.$inferInsert;
+
 // ============================================================================
 // TICKET METADATA (JSONB structure in tickets.metadata)
 // ============================================================================
@@ -191,7 +265,7 @@ export interface TicketMetadata {
 		extendedBy: string; // User ID (UUID)
 	}>;
 
-	// TAT Pause/Resume tracking
+	// Legacy TAT pause tracking - pauses now live in ticket_sla_pauses (read only by the 0010 backfill)
 	tatPauseStart?: string; // ISO timestamp - when TAT was paused (status changed to AWAITING_STUDENT)
 	tatPausedDuration?: number; // Total paused duration in milliseconds (accumulated across multiple pauses)
 
@@ -211,7 +285,7 @@ export interface TicketMetadata {
 	device?: string;
 	userAgent?: string;
 
-	// Comments (legacy - now stored in ticket_activity table)
+	// Comments (legacy - now stored in ticket_comments table)
 	// Kept for backward compatibility with old ticket data
 	comments?: Array<{
 		text: string;
@@ -8,11 +8,22 @@ import {
     integer,
     boolean,
     jsonb,
+    date,
     index,
+    uniqueIndex,
     unique,
     pgEnum,
+    customType,
+    type AnyPgColumn,
   } from "drizzle-orm/pg-core";
   import { sql } from "drizzle-orm";
+
+  // Postgres full-text search document (read through SQL helpers, never parsed in JS)
+  const tsvector = customType<{ data: string }>({
+    dataType() {
+      return "tsvector";
+    },
+  });
   
   /* -------------------------------------------------------------------------- */
   /* ENUMS                                                                      */
@@ -23,6 +34,14 @@ import {
     "dynamic",    // from student field
     "none",       // no scope
   ]);
+
+  // How a ticket is assigned when several admins cover a category / scope
+  export const assignmentStrategy = pgEnum("assignment_strategy", [
+    "fixed",       // first configured admin (default)
+    "round_robin", // least recently assigned
+    "least_open",  // fewest open tickets
+    "weighted",    // lowest open tickets relative to capacity
+  ]);
   
   /* -------------------------------------------------------------------------- */
   /* ROLES                                                                      */
@@ -80,6 +99,9 @@ import {
       // For student-based dynamic resolution
       student_field_key: varchar("student_field_key", { length: 64 }), 
       // hostel_id | class_section_id | batch_id | null
+
+      // Assignment strategy for tickets in this scope (categories can override); null = fixed
+      assignment_strategy: assignmentStrategy("assignment_strategy"),
   
       is_active: boolean("is_active").default(true),
       created_at: timestamp("created_at").defaultNow(),
@@ -114,6 +136,10 @@ import {
       avatar_url: varchar("avatar_url", { length: 512 }),
   
       role_id: integer("role_id").references(() => roles.id).notNull(),
+
+      // WhatsApp notifications to users.phone are opt-in
+      whatsapp_opt_in: boolean("whatsapp_opt_in").default(false).notNull(),
+      whatsapp_opt_in_changed_at: timestamp("whatsapp_opt_in_changed_at"),
   
       created_at: timestamp("created_at").defaultNow(),
       updated_at: timestamp("updated_at").defaultNow(),
@@ -137,6 +163,25 @@ import {
     created_at: timestamp("created_at").defaultNow(),
   });
   
+  // Floors and rooms of a hostel (drives the location picker on ticket forms)
+  export const hostel_rooms = pgTable(
+    "hostel_rooms",
+    {
+      id: serial("id").primaryKey(),
+      hostel_id: integer("hostel_id")
+        .references(() => hostels.id, { onDelete: "cascade" })
+        .notNull(),
+      floor: varchar("floor", { length: 32 }).notNull(),
+      room_no: varchar("room_no", { length: 16 }).notNull(),
+      is_active: boolean("is_active").default(true),
+      created_at: timestamp("created_at").defaultNow(),
+    },
+    (table) => ({
+      hostelIdx: index("idx_hostel_rooms_hostel").on(table.hostel_id, table.floor),
+      uniqueRoom: unique("unique_hostel_rooms_room").on(table.hostel_id, table.room_no),
+    })
+  );
+
   export const batches = pgTable("batches", {
     id: serial("id").primaryKey(),
     batch_year: integer("batch_year").notNull().unique(),
@@ -205,6 +250,11 @@ import {
       primary_scope_id: integer("primary_scope_id").references(() => scopes.id),
   
       slack_user_id: varchar("slack_user_id", { length: 128 }).notNull(),
+
+      // Automatic assignment skips inactive / unavailable admins; capacity = open tickets they can carry
+      is_active: boolean("is_active").default(true).notNull(),
+      is_available: boolean("is_available").default(true).notNull(),
+      capacity: integer("capacity").default(10).notNull(),
   
       created_at: timestamp("created_at").defaultNow(),
       updated_at: timestamp("updated_at").defaultNow(),
@@ -251,6 +301,44 @@ import {
     })
   );
   
+  /* -------------------------------------------------------------------------- */
+  /* ADMIN AVAILABILITY (out-of-office windows)                                  */
+  /* -------------------------------------------------------------------------- */
+
+  // While a window is active, new work for the admin goes to the delegate
+  // (or the next available admin in their scope)
+  export const admin_availability = pgTable(
+    "admin_availability",
+    {
+      id: serial("id").primaryKey(),
+
+      user_id: uuid("user_id")
+        .references(() => users.id, { onDelete: "cascade" })
+        .notNull(),
+
+      starts_at: timestamp("starts_at").notNull(),
+      ends_at: timestamp("ends_at").notNull(),
+
+      delegate_id: uuid("delegate_id").references(() => users.id, {
+        onDelete: "set null",
+      }),
+      note: varchar("note", { length: 255 }),
+
+      created_by: uuid("created_by").references(() => users.id, {
+        onDelete: "set null",
+      }),
+      created_at: timestamp("created_at").defaultNow(),
+    },
+    (table) => ({
+      userWindowIdx: index("idx_admin_availability_user_window").on(
+        table.user_id,
+        table.starts_at,
+        table.ends_at
+      ),
+      delegateIdx: index("idx_admin_availability_delegate").on(table.delegate_id),
+    })
+  );
+
   /* -------------------------------------------------------------------------- */
   /* COMMITTEES                                                                 */
   /* -------------------------------------------------------------------------- */
@@ -278,6 +366,42 @@ import {
       headIdx: index("idx_committees_head").on(table.head_id),
     })
   );
+
+  // Committee membership. head_id above mirrors the current head for older readers;
+  // access checks and notifications go through the active (left_at IS NULL) rows here.
+  export const committee_members = pgTable(
+    "committee_members",
+    {
+      id: serial("id").primaryKey(),
+
+      committee_id: integer("committee_id")
+        .references(() => committees.id, { onDelete: "cascade" })
+        .notNull(),
+
+      user_id: uuid("user_id")
+        .references(() => users.id, { onDelete: "cascade" })
+        .notNull(),
+
+      role: varchar("role", { length: 32 }).default("member").notNull(), // head | coordinator | member
+
+      joined_at: timestamp("joined_at").defaultNow().notNull(),
+      left_at: timestamp("left_at"),
+
+      added_by: uuid("added_by").references(() => users.id, {
+        onDelete: "set null",
+      }),
+
+      created_at: timestamp("created_at").defaultNow(),
+      updated_at: timestamp("updated_at").defaultNow(),
+    },
+    (table) => ({
+      committeeIdx: index("idx_committee_members_committee").on(table.committee_id, table.left_at),
+      userIdx: index("idx_committee_members_user").on(table.user_id, table.left_at),
+      activeMemberIdx: uniqueIndex("unique_committee_members_active")
+        .on(table.committee_id, table.user_id)
+        .where(sql`${table.left_at} IS NULL`),
+    })
+  );
   
   /* -------------------------------------------------------------------------- */
   /* CATEGORIES                                                                  */
@@ -303,10 +427,20 @@ import {
       scope_mode: scopeMode("scope_mode").default("dynamic").notNull(),
   
       default_admin_id: uuid("default_admin_id").references(() => users.id),
+
+      // Overrides the scope's assignment strategy; null = inherit
+      assignment_strategy: assignmentStrategy("assignment_strategy"),
   
       sla_hours: integer("sla_hours").default(48),
       is_active: boolean("is_active").default(true),
       display_order: integer("display_order").default(0),
+
+      // Ticket attachment rules; null falls back to ATTACHMENT_DEFAULTS
+      attachment_types: jsonb("attachment_types").$type<string[]>(), // MIME types, "image/*" wildcards allowed
+      attachment_max_mb: integer("attachment_max_mb"),
+  
+      // Student profile fields collected on new tickets (draft, published with the category); null = standard fields
+      profile_fields: jsonb("profile_fields").$type<Array<{ field_name: string; required: boolean; editable: boolean; display_order: number }>>(),
   
       parent_category_id: integer("parent_category_id").references(
         // @ts-expect-error - Self-referential reference (circular type inference)
@@ -423,6 +557,58 @@ import {
       fieldIdx: index("idx_field_options_field").on(table.field_id),
     })
   );
+
+  /* -------------------------------------------------------------------------- */
+  /* SUBCATEGORY FORM VERSIONS                                                   */
+  /* -------------------------------------------------------------------------- */
+
+  // Snapshots of a subcategory's fields + options; tickets reference the one they
+  // were submitted with (metadata.form_version_id)
+  export const subcategory_form_versions = pgTable(
+    "subcategory_form_versions",
+    {
+      id: serial("id").primaryKey(),
+
+      subcategory_id: integer("subcategory_id")
+        .references(() => subcategories.id, { onDelete: "cascade" })
+        .notNull(),
+
+      version: integer("version").notNull(),
+      fields: jsonb("fields").notNull(),
+      checksum: varchar("checksum", { length: 64 }).notNull(),
+
+      created_by: uuid("created_by").references(() => users.id, { onDelete: "set null" }),
+      created_at: timestamp("created_at").defaultNow(),
+    },
+    (table) => ({
+      uniqueVersion: unique("unique_subcategory_form_version").on(table.subcategory_id, table.version),
+    })
+  );
+
+  // Published configurations of a category (subcategories, fields, options). The
+  // live tables are the draft; students are served the latest release.
+  export const category_releases = pgTable(
+    "category_releases",
+    {
+      id: serial("id").primaryKey(),
+
+      category_id: integer("category_id")
+        .references(() => categories.id, { onDelete: "cascade" })
+        .notNull(),
+
+      version: integer("version").notNull(),
+      snapshot: jsonb("snapshot").notNull(),
+
+      // Version whose snapshot this release restored (rollbacks)
+      restored_from: integer("restored_from"),
+
+      published_by: uuid("published_by").references(() => users.id, { onDelete: "set null" }),
+      created_at: timestamp("created_at").defaultNow(),
+    },
+    (table) => ({
+      uniqueVersion: unique("unique_category_release_version").on(table.category_id, table.version),
+    })
+  );
   
   /* -------------------------------------------------------------------------- */
   /* CATEGORY ASSIGNMENTS                                                        */
@@ -475,6 +661,8 @@ import {
   
       is_active: boolean("is_active").default(true),
       is_final: boolean("is_final").default(false),
+      // SLA clock stops while a ticket is in this status (e.g. awaiting_student)
+      pauses_sla: boolean("pauses_sla").default(false).notNull(),
   
       display_order: integer("display_order").default(0),
   
@@ -485,6 +673,41 @@ import {
       valueIdx: index("idx_ticket_statuses_value").on(table.value),
     })
   );
+
+  /* -------------------------------------------------------------------------- */
+  /* STATUS TRANSITIONS (workflow)                                              */
+  /* -------------------------------------------------------------------------- */
+  
+  export const status_transitions = pgTable(
+    "status_transitions",
+    {
+      id: serial("id").primaryKey(),
+
+      from_status_id: integer("from_status_id")
+        .references(() => ticket_statuses.id, { onDelete: "cascade" })
+        .notNull(),
+      to_status_id: integer("to_status_id")
+        .references(() => ticket_statuses.id, { onDelete: "cascade" })
+        .notNull(),
+
+      // Role names allowed to make this move, e.g. ["admin", "committee", "student"]
+      allowed_roles: jsonb("allowed_roles").$type<string[]>().notNull().default(sql`'[]'::jsonb`),
+
+      requires_comment: boolean("requires_comment").default(false).notNull(),
+      requires_tat: boolean("requires_tat").default(false).notNull(),
+
+      is_active: boolean("is_active").default(true).notNull(),
+      created_at: timestamp("created_at").defaultNow(),
+      updated_at: timestamp("updated_at").defaultNow(),
+    },
+    (table) => ({
+      fromIdx: index("idx_status_transitions_from").on(table.from_status_id),
+      uniqueTransition: unique("unique_status_transition").on(
+        table.from_status_id,
+        table.to_status_id
+      ),
+    })
+  );
   
   /* -------------------------------------------------------------------------- */
   /* TICKET GROUPS                                                              */
@@ -549,11 +772,28 @@ import {
       }),
   
       escalation_level: integer("escalation_level").default(0),
+
+      // Merge / split links: a merged duplicate points at its primary ticket;
+      // a ticket split out of another points at the original
+      merged_into_id: integer("merged_into_id").references((): AnyPgColumn => tickets.id, {
+        onDelete: "set null",
+      }),
+      parent_ticket_id: integer("parent_ticket_id").references((): AnyPgColumn => tickets.id, {
+        onDelete: "set null",
+      }),
   
       acknowledgement_due_at: timestamp("acknowledgement_due_at"),
       resolution_due_at: timestamp("resolution_due_at"),
   
       metadata: jsonb("metadata"),
+
+      // Full-text search: title (A), description (B), location + dynamic field values (C)
+      search_vector: tsvector("search_vector").generatedAlwaysAs(
+        sql`setweight(to_tsvector('english', coalesce("title", '')), 'A')
+          || setweight(to_tsvector('english', coalesce("description", '')), 'B')
+          || setweight(to_tsvector('english', coalesce("location", '')), 'C')
+          || setweight(jsonb_to_tsvector('english', coalesce("metadata"->'dynamic_fields', '{}'::jsonb), '["string"]'), 'C')`
+      ),
   
       created_at: timestamp("created_at").defaultNow(),
       updated_at: timestamp("updated_at").defaultNow(),
@@ -565,10 +805,13 @@ import {
       categoryIdx: index("idx_tickets_category").on(table.category_id),
       scopeIdx: index("idx_tickets_scope").on(table.scope_id),
       groupIdx: index("idx_tickets_group").on(table.group_id),
+      mergedIntoIdx: index("idx_tickets_merged_into").on(table.merged_into_id),
+      parentIdx: index("idx_tickets_parent").on(table.parent_ticket_id),
       statusCreatedIdx: index("idx_tickets_status_created").on(
         table.status_id,
         table.created_at
       ),
+      searchIdx: index("idx_tickets_search").using("gin", table.search_vector),
     })
   );
   
@@ -600,7 +843,91 @@ import {
       createdIdx: index("idx_ticket_activity_created").on(table.created_at),
     })
   );
-  
+
+  /* -------------------------------------------------------------------------- */
+  /* TICKET COMMENTS                                                             */
+  /* -------------------------------------------------------------------------- */
+
+  export const ticket_comments = pgTable(
+    "ticket_comments",
+    {
+      id: serial("id").primaryKey(),
+
+      ticket_id: integer("ticket_id")
+        .references(() => tickets.id, { onDelete: "cascade" })
+        .notNull(),
+
+      author_id: uuid("author_id").references(() => users.id, {
+        onDelete: "set null",
+      }),
+      // Snapshot of the display name (Slack/email authors may not map to a user)
+      author_name: varchar("author_name", { length: 255 }),
+      author_role: varchar("author_role", { length: 32 }), // student | admin | committee | super_admin ...
+
+      body: text("body").notNull(),
+
+      comment_type: varchar("comment_type", { length: 32 })
+        .notNull()
+        .default("student_visible"), // COMMENT_TYPE
+      source: varchar("source", { length: 16 }).notNull().default("web"), // web | slack | email | whatsapp
+      // Message-ID (email) / message ts (Slack) of the originating message; dedupes redelivered webhooks
+      external_id: varchar("external_id", { length: 255 }),
+
+      created_at: timestamp("created_at").defaultNow().notNull(),
+      edited_at: timestamp("edited_at"),
+      deleted_at: timestamp("deleted_at"),
+
+      // Full-text search over the comment body (matched alongside tickets.search_vector)
+      search_vector: tsvector("search_vector").generatedAlwaysAs(
+        sql`to_tsvector('english', coalesce("body", ''))`
+      ),
+    },
+    (table) => ({
+      ticketIdx: index("idx_ticket_comments_ticket").on(table.ticket_id),
+      ticketCreatedIdx: index("idx_ticket_comments_ticket_created").on(
+        table.ticket_id,
+        table.created_at
+      ),
+      authorIdx: index("idx_ticket_comments_author").on(table.author_id),
+      searchIdx: index("idx_ticket_comments_search").using("gin", table.search_vector),
+      sourceExternalUnique: unique("unique_ticket_comments_source_external").on(
+        table.source,
+        table.external_id
+      ),
+    })
+  );
+
+  /* -------------------------------------------------------------------------- */
+  /* TICKET SLA PAUSES                                                           */
+  /* -------------------------------------------------------------------------- */
+
+  // One row per interval spent in an SLA-pausing status; resumed_at is null while paused
+  export const ticket_sla_pauses = pgTable(
+    "ticket_sla_pauses",
+    {
+      id: serial("id").primaryKey(),
+
+      ticket_id: integer("ticket_id")
+        .references(() => tickets.id, { onDelete: "cascade" })
+        .notNull(),
+
+      // Status that paused the clock
+      status_value: varchar("status_value", { length: 50 }).notNull(),
+
+      paused_at: timestamp("paused_at").notNull(),
+      resumed_at: timestamp("resumed_at"),
+
+      // Working time (business calendar) inside the interval; the due date was shifted by this much
+      paused_business_seconds: integer("paused_business_seconds"),
+
+      created_at: timestamp("created_at").defaultNow(),
+    },
+    (table) => ({
+      ticketIdx: index("idx_ticket_sla_pauses_ticket").on(table.ticket_id),
+      openIdx: index("idx_ticket_sla_pauses_open").on(table.ticket_id, table.resumed_at),
+    })
+  );
+
   /* -------------------------------------------------------------------------- */
   /* TICKET ATTACHMENTS                                                          */
   /* -------------------------------------------------------------------------- */
@@ -618,7 +945,14 @@ import {
         onDelete: "set null",
       }),
   
+      // Set when the file was attached to a specific comment
+      comment_id: integer("comment_id").references(() => ticket_comments.id, {
+        onDelete: "set null",
+      }),
+  
       file_name: varchar("file_name", { length: 255 }).notNull(),
+      // Backend that holds the object (lib/integration/storage); storage_key is only meaningful to it
+      storage_provider: varchar("storage_provider", { length: 32 }).notNull().default("cloudinary"),
       storage_key: varchar("storage_key", { length: 512 }).notNull(),
       mime_type: varchar("mime_type", { length: 100 }),
       file_size: integer("file_size"),
@@ -630,6 +964,7 @@ import {
       uploadedIdx: index("idx_ticket_attachments_uploaded").on(
         table.uploaded_by
       ),
+      commentIdx: index("idx_ticket_attachments_comment").on(table.comment_id),
     })
   );
   
@@ -667,6 +1002,37 @@ import {
     })
   );
   
+  /* -------------------------------------------------------------------------- */
+  /* TICKET FOLLOWERS                                                            */
+  /* -------------------------------------------------------------------------- */
+  // Students who found an existing open ticket for their issue and follow it
+  // instead of filing a duplicate; they get the ticket's status updates.
+  
+  export const ticket_followers = pgTable(
+    "ticket_followers",
+    {
+      id: serial("id").primaryKey(),
+  
+      ticket_id: integer("ticket_id")
+        .references(() => tickets.id, { onDelete: "cascade" })
+        .notNull(),
+  
+      user_id: uuid("user_id")
+        .references(() => users.id, { onDelete: "cascade" })
+        .notNull(),
+  
+      created_at: timestamp("created_at").defaultNow(),
+    },
+    (table) => ({
+      ticketIdx: index("idx_ticket_followers_ticket").on(table.ticket_id),
+      userIdx: index("idx_ticket_followers_user").on(table.user_id),
+      uniqueFollower: unique("unique_ticket_follower").on(
+        table.ticket_id,
+        table.user_id
+      ),
+    })
+  );
+  
   /* -------------------------------------------------------------------------- */
   /* TICKET FEEDBACK                                                             */
   /* -------------------------------------------------------------------------- */
@@ -733,6 +1099,7 @@ import {
   
       slack_message_id: varchar("slack_message_id", { length: 255 }),
       email_message_id: varchar("email_message_id", { length: 255 }),
+      whatsapp_message_id: varchar("whatsapp_message_id", { length: 64 }),
   
       created_at: timestamp("created_at").defaultNow(),
       sent_at: timestamp("sent_at"),
@@ -778,6 +1145,70 @@ import {
     })
   );
   
+  /* -------------------------------------------------------------------------- */
+  /* BUSINESS CALENDARS (SLA clock)                                              */
+  /* -------------------------------------------------------------------------- */
+
+  // Working hours per domain / scope; the SLA clock only runs inside these shifts.
+  // Resolution order: scope calendar → domain calendar → default calendar → 24x7
+  export const business_calendars = pgTable(
+    "business_calendars",
+    {
+      id: serial("id").primaryKey(),
+
+      name: varchar("name", { length: 120 }).notNull(),
+
+      domain_id: integer("domain_id").references(() => domains.id, {
+        onDelete: "cascade",
+      }),
+      scope_id: integer("scope_id").references(() => scopes.id, {
+        onDelete: "cascade",
+      }),
+
+      // IANA timezone, e.g. "Asia/Kolkata"
+      timezone: varchar("timezone", { length: 64 }).notNull().default("Asia/Kolkata"),
+
+      // { "0".."6" (Sunday..Saturday): [{ start: "09:00", end: "17:30" }, ...] }
+      weekly_schedule: jsonb("weekly_schedule").notNull(),
+
+      // Used for tickets whose domain / scope has no calendar of its own
+      is_default: boolean("is_default").default(false).notNull(),
+
+      is_active: boolean("is_active").default(true),
+      created_at: timestamp("created_at").defaultNow(),
+      updated_at: timestamp("updated_at").defaultNow(),
+    },
+    (table) => ({
+      domainIdx: index("idx_business_calendars_domain").on(table.domain_id),
+      scopeIdx: index("idx_business_calendars_scope").on(table.scope_id),
+      activeIdx: index("idx_business_calendars_active").on(table.is_active),
+    })
+  );
+
+  export const business_calendar_holidays = pgTable(
+    "business_calendar_holidays",
+    {
+      id: serial("id").primaryKey(),
+
+      calendar_id: integer("calendar_id")
+        .references(() => business_calendars.id, { onDelete: "cascade" })
+        .notNull(),
+
+      // Local date in the calendar's timezone
+      date: date("date", { mode: "string" }).notNull(),
+      name: varchar("name", { length: 140 }),
+
+      created_at: timestamp("created_at").defaultNow(),
+    },
+    (table) => ({
+      calendarIdx: index("idx_business_calendar_holidays_calendar").on(table.calendar_id),
+      uniqueHoliday: unique("unique_business_calendar_holiday").on(
+        table.calendar_id,
+        table.date
+      ),
+    })
+  );
+
   /* -------------------------------------------------------------------------- */
   /* NOTIFICATION CHANNELS (Flexible Routing)                                    */
   /* -------------------------------------------------------------------------- */
@@ -805,6 +1236,12 @@ import {
       
       // Slack user ID for DM notifications (when owner_type = 'user')
       slack_user_id: varchar("slack_user_id", { length: 128 }),
+
+      // Webhook endpoint (channel_type = 'webhook'); payloads are signed with the secret
+      webhook_url: varchar("webhook_url", { length: 2048 }),
+      webhook_secret: varchar("webhook_secret", { length: 255 }),
+      // Event names the endpoint subscribes to (null = all ticket lifecycle events)
+      webhook_events: jsonb("webhook_events").$type<string[]>(),
       
       // Priority: higher priority channels override lower ones
       // Ticket = 100, Category = 50, Scope = 40, Domain = 30, Committee = 20, User = 10
@@ -821,6 +1258,46 @@ import {
       priorityIdx: index("idx_notification_channels_priority").on(table.priority),
     })
   );
+
+  /* -------------------------------------------------------------------------- */
+  /* WEBHOOK DELIVERIES (per-endpoint delivery log)                              */
+  /* -------------------------------------------------------------------------- */
+
+  export const webhook_deliveries = pgTable(
+    "webhook_deliveries",
+    {
+      id: serial("id").primaryKey(),
+
+      channel_id: integer("channel_id")
+        .references(() => notification_channels.id, { onDelete: "cascade" })
+        .notNull(),
+      // Outbox row of the lifecycle event this delivery was fanned out from
+      source_outbox_id: integer("source_outbox_id").notNull(),
+
+      event_type: varchar("event_type", { length: 64 }).notNull(),
+      ticket_id: integer("ticket_id").references(() => tickets.id, {
+        onDelete: "set null",
+      }),
+      // Exact JSON body sent on every attempt
+      payload: jsonb("payload").notNull(),
+
+      // 'pending' | 'delivered' | 'failed'
+      status: varchar("status", { length: 16 }).notNull().default("pending"),
+      attempts: integer("attempts").notNull().default(0),
+      last_status_code: integer("last_status_code"),
+      last_error: text("last_error"),
+      last_attempt_at: timestamp("last_attempt_at"),
+      delivered_at: timestamp("delivered_at"),
+
+      created_at: timestamp("created_at").defaultNow(),
+    },
+    (table) => ({
+      sourceUnique: unique("unique_webhook_delivery_source").on(table.channel_id, table.source_outbox_id),
+      channelCreatedIdx: index("idx_webhook_deliveries_channel_created").on(table.channel_id, table.created_at),
+      statusIdx: index("idx_webhook_deliveries_status").on(table.status),
+      ticketIdx: index("idx_webhook_deliveries_ticket").on(table.ticket_id),
+    })
+  );
   
   /* -------------------------------------------------------------------------- */
   /* NOTIFICATION CONFIGURATION                                                 */
@@ -880,16 +1357,109 @@ import {
   /* OUTBOX                                                                      */
   /* -------------------------------------------------------------------------- */
   
-  export const outbox = pgTable("outbox", {
-    id: serial("id").primaryKey(),
-  
-    event_type: text("event_type").notNull(),
-    payload: jsonb("payload").notNull(),
-  
-    attempts: integer("attempts").default(0),
-    next_retry_at: timestamp("next_retry_at"),
-    processed_at: timestamp("processed_at"),
+  export const outbox = pgTable(
+    "outbox",
+    {
+      id: serial("id").primaryKey(),
+
+      event_type: text("event_type").notNull(),
+      payload: jsonb("payload").notNull(),
+
+      attempts: integer("attempts").default(0),
+      next_retry_at: timestamp("next_retry_at"),
+      processed_at: timestamp("processed_at"),
+
+      // Lease held by the worker that claimed the row; expired leases can be re-claimed
+      locked_until: timestamp("locked_until"),
+      last_error: text("last_error"),
+      // Set once attempts are exhausted; dead-lettered rows are only retried via replay
+      dead_lettered_at: timestamp("dead_lettered_at"),
+
+      created_at: timestamp("created_at").defaultNow(),
+    },
+    (table) => ({
+      pendingIdx: index("idx_outbox_pending").on(
+        table.processed_at,
+        table.dead_lettered_at,
+        table.next_retry_at
+      ),
+      eventTypeIdx: index("idx_outbox_event_type").on(table.event_type),
+      deadLetteredIdx: index("idx_outbox_dead_lettered").on(table.dead_lettered_at),
+    })
+  );
   
-    created_at: timestamp("created_at").defaultNow(),
-  });
-  
\ No newline at end of file
+  /* -------------------------------------------------------------------------- */
+  /* AUDIT LOG (append-only trail of administrative changes)                    */
+  /* -------------------------------------------------------------------------- */
+
+  export const audit_log = pgTable(
+    "audit_log",
+    {
+      id: serial("id").primaryKey(),
+
+      // Acting staff member; the clerk id and role are kept in case the user is removed later
+      actor_id: uuid("actor_id").references(() => users.id, {
+        onDelete: "set null",
+      }),
+      actor_external_id: varchar("actor_external_id", { length: 255 }),
+      actor_role: varchar("actor_role", { length: 32 }),
+
+      // "<entity>.<verb>", e.g. "category.update", "user_role.set"
+      action: varchar("action", { length: 80 }).notNull(),
+      entity_type: varchar("entity_type", { length: 64 }).notNull(),
+      entity_id: varchar("entity_id", { length: 128 }),
+
+      // Snapshots of the entity before/after and the changed keys ({ key: { from, to } })
+      before: jsonb("before"),
+      after: jsonb("after"),
+      changes: jsonb("changes"),
+
+      ip_address: varchar("ip_address", { length: 64 }),
+      user_agent: text("user_agent"),
+
+      created_at: timestamp("created_at").defaultNow().notNull(),
+    },
+    (table) => ({
+      createdIdx: index("idx_audit_log_created").on(table.created_at),
+      actorIdx: index("idx_audit_log_actor").on(table.actor_id),
+      entityIdx: index("idx_audit_log_entity").on(table.entity_type, table.entity_id),
+      actionIdx: index("idx_audit_log_action").on(table.action),
+    })
+  );
+
+  /* -------------------------------------------------------------------------- */
+  /* TICKET EXPORTS (background CSV/XLSX exports of filtered ticket lists)      */
+  /* -------------------------------------------------------------------------- */
+
+  export const ticket_exports = pgTable(
+    "ticket_exports",
+    {
+      id: serial("id").primaryKey(),
+
+      requested_by: uuid("requested_by").references(() => users.id, {
+        onDelete: "cascade",
+      }),
+
+      // "csv" | "xlsx"
+      format: varchar("format", { length: 8 }).notNull(),
+      // AdminTicketFilters params the export was requested with
+      filters: jsonb("filters"),
+
+      // pending -> processing -> completed | failed
+      status: varchar("status", { length: 16 }).notNull().default("pending"),
+      row_count: integer("row_count"),
+      error: text("error"),
+
+      // Finished file, held by the attachment storage backend (lib/integration/storage)
+      file_name: varchar("file_name", { length: 255 }),
+      storage_provider: varchar("storage_provider", { length: 32 }),
+      storage_key: varchar("storage_key", { length: 512 }),
+      file_size: integer("file_size"),
+
+      created_at: timestamp("created_at").defaultNow().notNull(),
+      completed_at: timestamp("completed_at"),
+    },
+    (table) => ({
+      requestedByIdx: index("idx_ticket_exports_requested_by").on(table.requested_by, table.created_at),
+    })
+  );
@@ -136,7 +136,7 @@ export interface TicketMetadata {
 	device?: string;
 	userAgent?: string;
 
-	// Comments (legacy - now stored in ticket_activity table)
+	// Comments (legacy - now stored in ticket_comments table)
 	comments?: Array<{
 		text: string;
 		author: string;
@@ -0,0 +1,102 @@
+"use client";
+
+import { useCallback, useRef, useState } from "react";
+import { toast } from "sonner";
+import { api } from "@/lib/api/client";
+import { logger } from "@/lib/logger";
+import { validateAttachment, type AttachmentRules } from "@/lib/ticket/utils/attachmentRules";
+import type { TicketAttachment } from "@/types/ticket";
+
+export type QueuedAttachment = {
+  key: string;
+  file: File;
+  /** Upload field the file was picked for (null for general attachments) */
+  fieldSlug: string | null;
+};
+
+/**
+ * Files picked in a form, uploaded to the ticket once the ticket (or comment) exists
+ * Files are checked against the category's rules when picked; the upload route checks them again.
+ */
+export function useAttachmentQueue(rules: AttachmentRules) {
+  const [queued, setQueued] = useState<QueuedAttachment[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const nextKey = useRef(0);
+
+  const addFiles = useCallback(
+    (files: File[], fieldSlug: string | null = null) => {
+      const accepted: QueuedAttachment[] = [];
+      for (const file of files) {
+        const error = validateAttachment(file, rules);
+        if (error) {
+          toast.error(`${file.name}: ${error}`);
+          continue;
+        }
+        nextKey.current += 1;
+        accepted.push({ key: `${nextKey.current}-${file.name}`, file, fieldSlug });
+      }
+      if (accepted.length > 0) {
+        setQueued((prev) => [...prev, ...accepted]);
+      }
+    },
+    [rules]
+  );
+
+  const removeFile = useCallback((key: string) => {
+    setQueued((prev) => prev.filter((item) => item.key !== key));
+  }, []);
+
+  /**
+   * Drop files that don't pass other rules (e.g. after switching category), or that belong to upload fields
+   */
+  const retainAllowed = useCallback(
+    (nextRules: AttachmentRules, { keepFieldFiles = true }: { keepFieldFiles?: boolean } = {}) => {
+      const dropped = queued.filter(
+        (item) => (!keepFieldFiles && item.fieldSlug !== null) || validateAttachment(item.file, nextRules) !== null
+      );
+      if (dropped.length === 0) return;
+
+      setQueued((prev) => prev.filter((item) => !dropped.includes(item)));
+      const notAllowed = dropped.filter((item) => validateAttachment(item.file, nextRules) !== null);
+      if (notAllowed.length > 0) {
+        toast.error(`Removed files not accepted for this category: ${notAllowed.map((item) => item.file.name).join(", ")}`);
+      }
+    },
+    [queued]
+  );
+
+  /**
+   * Upload every queued file to the ticket (linked to a comment when given).
+   * Uploaded files leave the queue; failed ones stay so they can be retried or removed.
+   */
+  const uploadQueued = useCallback(
+    async (ticketId: number, commentId?: number | null) => {
+      const uploaded: TicketAttachment[] = [];
+      const failed: QueuedAttachment[] = [];
+      setUploading(true);
+      try {
+        for (const item of queued) {
+          const fd = new FormData();
+          fd.append("file", item.file);
+          if (commentId) fd.append("commentId", String(commentId));
+          try {
+            const response = await api.post<{ attachment: TicketAttachment }>(`/api/tickets/${ticketId}/attachments`, fd, {
+              skipErrorToast: true,
+            });
+            uploaded.push(response.data.attachment);
+          } catch (err) {
+            logger.error("Attachment upload failed", err, { component: "useAttachmentQueue", ticketId, fileName: item.file.name });
+            failed.push(item);
+          }
+        }
+      } finally {
+        setQueued(failed);
+        setUploading(false);
+      }
+      return { uploaded, failed };
+    },
+    [queued]
+  );
+
+  return { queued, uploading, addFiles, removeFile, retainAllowed, uploadQueued };
+}
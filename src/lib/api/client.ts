@@ -170,10 +170,17 @@ export const endpoints = {
     categories: "/api/admin/categories",
     subcategories: "/api/admin/subcategories",
     fields: "/api/admin/fields",
+    formVersions: (subcategoryId: number) => `/api/admin/subcategories/${subcategoryId}/form-versions`,
+  },
+  master: {
+    hostels: "/api/master/hostels",
+    hostelRooms: (hostelId: number) => `/api/master/hostels/${hostelId}/rooms`,
   },
   domains: "/api/domains",
   tickets: "/api/tickets",
   ticket: (id: number) => `/api/tickets/${id}`,
   ticketReassign: (id: number) => `/api/tickets/${id}/reassign`,
+  ticketFollow: (id: number) => `/api/tickets/${id}/follow`,
+  similarTickets: "/api/tickets/similar",
   users: "/api/users",
 } as const;
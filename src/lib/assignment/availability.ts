@@ -0,0 +1,99 @@
+/**
+ * Admin Availability
+ * Out-of-office windows (admin_availability). An admin is "away" while now is inside
+ * one of their windows; each window may name a delegate who covers for them.
+ * Routing decisions based on this live in ./coverage.
+ */
+
+import { db, admin_availability, users } from "@/db";
+import type { AdminAvailabilitySelect } from "@/db/inferred-types";
+import { and, asc, eq, gt, inArray, lte } from "drizzle-orm";
+
+export interface AdminAbsence {
+  windowId: number;
+  userId: string;
+  startsAt: Date;
+  endsAt: Date;
+  delegateId: string | null;
+  note: string | null;
+}
+
+function toAbsence(row: AdminAvailabilitySelect): AdminAbsence {
+  return {
+    windowId: row.id,
+    userId: row.user_id,
+    startsAt: row.starts_at,
+    endsAt: row.ends_at,
+    delegateId: row.delegate_id,
+    note: row.note,
+  };
+}
+
+/**
+ * Active windows for the given admins, keyed by users.id.
+ * When windows overlap, the one ending last wins (the admin is away until then).
+ */
+export async function getActiveAbsences(userIds: string[], at: Date = new Date()): Promise<Map<string, AdminAbsence>> {
+  const ids = Array.from(new Set(userIds.filter(Boolean)));
+  const absences = new Map<string, AdminAbsence>();
+  if (ids.length === 0) return absences;
+
+  const rows = await db
+    .select()
+    .from(admin_availability)
+    .where(
+      and(
+        inArray(admin_availability.user_id, ids),
+        lte(admin_availability.starts_at, at),
+        gt(admin_availability.ends_at, at)
+      )
+    )
+    .orderBy(asc(admin_availability.ends_at));
+
+  for (const row of rows) {
+    absences.set(row.user_id, toAbsence(row));
+  }
+  return absences;
+}
+
+export async function getActiveAbsence(userId: string, at: Date = new Date()): Promise<AdminAbsence | null> {
+  return (await getActiveAbsences([userId], at)).get(userId) ?? null;
+}
+
+/**
+ * Current and upcoming windows for an admin, soonest first, with the delegate's name
+ */
+export async function listAvailabilityWindows(userId: string, at: Date = new Date()) {
+  return db
+    .select({
+      id: admin_availability.id,
+      user_id: admin_availability.user_id,
+      starts_at: admin_availability.starts_at,
+      ends_at: admin_availability.ends_at,
+      delegate_id: admin_availability.delegate_id,
+      delegate_name: users.full_name,
+      delegate_email: users.email,
+      note: admin_availability.note,
+      created_at: admin_availability.created_at,
+    })
+    .from(admin_availability)
+    .leftJoin(users, eq(users.id, admin_availability.delegate_id))
+    .where(and(eq(admin_availability.user_id, userId), gt(admin_availability.ends_at, at)))
+    .orderBy(asc(admin_availability.starts_at));
+}
+
+/**
+ * Windows of this admin that overlap [startsAt, endsAt)
+ */
+export async function findOverlappingWindows(userId: string, startsAt: Date, endsAt: Date): Promise<AdminAvailabilitySelect[]> {
+  return db
+    .select()
+    .from(admin_availability)
+    .where(
+      and(
+        eq(admin_availability.user_id, userId),
+        lte(admin_availability.starts_at, endsAt),
+        gt(admin_availability.ends_at, startsAt)
+      )
+    );
+}
@@ -0,0 +1,151 @@
+/**
+ * Admin Coverage
+ * Who handles an admin's work while they are out of office:
+ * 1. the delegate named on their active window (following the delegate's own delegate
+ *    if they are away too), as long as the delegate is active and available
+ * 2. otherwise the available admin with the fewest open tickets in the same domain/scope
+ *    (the ticket's, or the away admin's primary assignment)
+ *
+ * Used by automatic assignment, reassignment, SPOC reminders and escalation targets.
+ */
+
+import { db, users, admin_profiles, categories, domains, scopes, tickets } from "@/db";
+import { eq } from "drizzle-orm";
+import { ASSIGNMENT_STRATEGY } from "@/conf/constants";
+import { getAdminsForDomainScope } from "@/lib/assignment/admin-assignment";
+import { getActiveAbsence, type AdminAbsence } from "@/lib/assignment/availability";
+import {
+  loadAssignmentCandidates,
+  loadAssignmentCandidatesByClerkId,
+  pickAssignee,
+} from "@/lib/assignment/strategies";
+
+// Delegates of delegates are followed at most this far
+const MAX_DELEGATE_HOPS = 3;
+
+export interface CoveringAdmin {
+  userId: string;
+  clerkUserId: string;
+  name: string | null;
+  email: string | null;
+  slackUserId: string | null;
+  via: "delegate" | "scope";
+}
+
+export interface AdminCoverage {
+  absence: AdminAbsence;
+  /** null when nobody is available to cover */
+  cover: CoveringAdmin | null;
+  reason: string;
+}
+
+export interface CoverageScope {
+  /** Domain name (e.g. "Hostel"); defaults to the away admin's primary domain */
+  domain?: string | null;
+  /** Scope name (e.g. a hostel); only used together with domain */
+  scope?: string | null;
+}
+
+async function loadContact(userId: string, via: CoveringAdmin["via"]): Promise<CoveringAdmin | null> {
+  const [row] = await db
+    .select({
+      userId: users.id,
+      clerkUserId: users.external_id,
+      name: users.full_name,
+      email: users.email,
+      slackUserId: admin_profiles.slack_user_id,
+    })
+    .from(users)
+    .leftJoin(admin_profiles, eq(admin_profiles.user_id, users.id))
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  return row ? { ...row, slackUserId: row.slackUserId || null, via } : null;
+}
+
+async function primaryScopeOf(userId: string): Promise<CoverageScope> {
+  const [row] = await db
+    .select({ domain: domains.name, scope: scopes.name })
+    .from(admin_profiles)
+    .leftJoin(domains, eq(domains.id, admin_profiles.primary_domain_id))
+    .leftJoin(scopes, eq(scopes.id, admin_profiles.primary_scope_id))
+    .where(eq(admin_profiles.user_id, userId))
+    .limit(1);
+  return { domain: row?.domain ?? null, scope: row?.scope ?? null };
+}
+
+/**
+ * A ticket's domain (via its category) and scope, as a coverage hint
+ */
+export async function getTicketCoverageScope(ticketId: number): Promise<CoverageScope> {
+  const [row] = await db
+    .select({ domain: domains.name, scope: scopes.name })
+    .from(tickets)
+    .leftJoin(categories, eq(categories.id, tickets.category_id))
+    .leftJoin(domains, eq(domains.id, categories.domain_id))
+    .leftJoin(scopes, eq(scopes.id, tickets.scope_id))
+    .where(eq(tickets.id, ticketId))
+    .limit(1);
+  return { domain: row?.domain ?? null, scope: row?.scope ?? null };
+}
+
+function formatUntil(date: Date): string {
+  return date.toISOString().slice(0, 16).replace("T", " ");
+}
+
+/**
+ * Coverage for an admin who is away right now; null when they are not away
+ */
+export async function resolveAdminCoverage(
+  userId: string,
+  scopeHint: CoverageScope = {},
+  at: Date = new Date()
+): Promise<AdminCoverage | null> {
+  const absence = await getActiveAbsence(userId, at);
+  if (!absence) return null;
+
+  const until = formatUntil(absence.endsAt);
+  const visited = new Set<string>([userId]);
+
+  // 1. Delegate chain
+  let delegateId = absence.delegateId;
+  for (let hop = 0; delegateId && hop < MAX_DELEGATE_HOPS && !visited.has(delegateId); hop++) {
+    visited.add(delegateId);
+    const [delegate] = await loadAssignmentCandidates([delegateId]);
+    if (!delegate || !delegate.isActive || !delegate.isAvailable) break;
+    if (!delegate.absence) {
+      const cover = await loadContact(delegate.userId, "delegate");
+      if (cover) {
+        return {
+          absence,
+          cover,
+          reason: `Away until ${until}; covered by delegate ${cover.name || cover.clerkUserId}`,
+        };
+      }
+      break;
+    }
+    delegateId = delegate.absence.delegateId;
+  }
+
+  // 2. Next available admin in scope
+  const { domain, scope } = scopeHint.domain ? scopeHint : await primaryScopeOf(userId);
+  if (domain) {
+    const clerkIds = await getAdminsForDomainScope(domain, scope ?? null);
+    const candidates = (await loadAssignmentCandidatesByClerkId(clerkIds)).filter(
+      (candidate) => !visited.has(candidate.userId)
+    );
+    const pick = pickAssignee(ASSIGNMENT_STRATEGY.LEAST_OPEN, candidates);
+    if (pick) {
+      const cover = await loadContact(pick.candidate.userId, "scope");
+      if (cover) {
+        return {
+          absence,
+          cover,
+          reason: `Away until ${until}; covered by ${cover.name || cover.clerkUserId} (next available admin in ${scope ? `${domain} / ${scope}` : domain})`,
+        };
+      }
+    }
+  }
+
+  return { absence, cover: null, reason: `Away until ${until}; no delegate or admin in scope is available` };
+}
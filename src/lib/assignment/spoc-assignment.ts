@@ -2,11 +2,27 @@
  * SPOC Assignment Utility
  * Handles automatic assignment of tickets to SPOCs based on category and location
  * Follows hierarchy: field > domain/scope > subcategory > category > escalation rules
+ *
+ * Where several admins cover a level (domain/scope admins, category_assignments), the
+ * category's or scope's assignment strategy picks one (see ./strategies). Inactive and
+ * unavailable admins are skipped at every level. When everyone at a level is skipped and some
+ * of them are out of office, the ticket goes to whoever covers for them (see ./coverage).
  */
 
 import { db, users, roles, categories, domains, scopes, admin_profiles } from "@/db";
-import { eq, and, sql } from "drizzle-orm";
+import { eq, and, asc, sql } from "drizzle-orm";
 import { getAdminsForDomainScope } from "@/lib/assignment/admin-assignment";
+import { ASSIGNMENT_STRATEGY, type AssignmentStrategyValue } from "@/conf/constants";
+import {
+  describePool,
+  loadAssignmentCandidates,
+  loadAssignmentCandidatesByClerkId,
+  pickAssignee,
+  resolveAssignmentStrategy,
+  type AssignmentCandidate,
+  type AssignmentPick,
+} from "@/lib/assignment/strategies";
+import { resolveAdminCoverage, type CoverageScope } from "@/lib/assignment/coverage";
 
 // Cache column/table existence checks (these don't change during runtime)
 const COLUMN_EXISTS_CACHE = new Map<string, boolean>();
@@ -83,10 +99,95 @@ async function checkTableExists(tableName: string): Promise<boolean> {
   }
 }
 
+export type SpocAssignmentStage =
+  | "field"
+  | "domain_scope"
+  | "subcategory"
+  | "category_assignment"
+  | "category_default"
+  | "domain_fallback";
+
+export interface SpocAssignment {
+  clerkUserId: string;
+  userId: string;
+  stage: SpocAssignmentStage;
+  strategy: AssignmentStrategyValue;
+  reason: string;
+  pool: AssignmentPick["pool"];
+}
+
+const STAGE_LABELS: Record<SpocAssignmentStage, string> = {
+  field: "Field-level admin",
+  domain_scope: "Domain/scope admins",
+  subcategory: "Subcategory admin",
+  category_assignment: "Category admins",
+  category_default: "Category default admin",
+  domain_fallback: "Domain admins (fallback)",
+};
+
+function toAssignment(
+  stage: SpocAssignmentStage,
+  pick: AssignmentPick
+): SpocAssignment {
+  return {
+    clerkUserId: pick.candidate.clerkUserId,
+    userId: pick.candidate.userId,
+    stage,
+    strategy: pick.strategy,
+    reason: `${STAGE_LABELS[stage]} → ${pick.reason}`,
+    pool: pick.pool,
+  };
+}
+
+/**
+ * Pick from one level of the hierarchy; null (move on to the next level) when nobody there is available.
+ * If nobody is available because admins at this level are away, their cover gets the ticket.
+ */
+async function pickAtStage(
+  stage: SpocAssignmentStage,
+  strategy: AssignmentStrategyValue,
+  candidates: AssignmentCandidate[],
+  coverageScope: CoverageScope
+): Promise<SpocAssignment | null> {
+  const pick = pickAssignee(strategy, candidates);
+  if (pick) {
+    return toAssignment(stage, pick);
+  }
+
+  // Configuration order decides whose cover is tried first
+  const away = candidates.filter((candidate) => candidate.isActive && candidate.isAvailable && candidate.absence);
+  for (const candidate of away) {
+    const coverage = await resolveAdminCoverage(candidate.userId, coverageScope);
+    if (!coverage?.cover) continue;
+    return {
+      clerkUserId: coverage.cover.clerkUserId,
+      userId: coverage.cover.userId,
+      stage,
+      strategy,
+      reason: `${STAGE_LABELS[stage]} → ${candidate.name || candidate.clerkUserId}: ${coverage.reason}`,
+      pool: describePool(candidates),
+    };
+  }
+
+  if (candidates.length > 0) {
+    console.log(`[spoc-assignment] ${STAGE_LABELS[stage]}: all ${candidates.length} candidate(s) inactive, unavailable or away without cover; trying next level`);
+  }
+  return null;
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error
+    ? error.message
+    : typeof error === 'string'
+      ? error
+      : 'Unknown error';
+}
+
 /**
  * Find the appropriate SPOC (Single Point of Contact) for a ticket
  * based on category, subcategory, fields, and location
  * Follows hierarchy: field > subcategory > category > escalation rules
+ * Returns the Clerk user ID (see findSPOCAssignment for the decision details)
  */
 export async function findSPOCForTicket(
   category: string,
@@ -96,9 +197,25 @@ export async function findSPOCForTicket(
   fieldSlugs?: string[], // Field slugs from ticket metadata to check for field-level assignment
   categoryDefaultAdminId?: string | null // Optional: pass to avoid redundant query
 ): Promise<string | null> {
+  const assignment = await findSPOCAssignment(category, location, categoryId, subcategoryId, fieldSlugs, categoryDefaultAdminId);
+  return assignment?.clerkUserId ?? null;
+}
+
+/**
+ * Same as findSPOCForTicket, returning who was picked, at which level, by which
+ * strategy and why (recorded in ticket_activity as auto_assigned)
+ */
+export async function findSPOCAssignment(
+  category: string,
+  location: string | null,
+  categoryId?: number | null,
+  subcategoryId?: number | null,
+  fieldSlugs?: string[],
+  categoryDefaultAdminId?: string | null
+): Promise<SpocAssignment | null> {
   try {
     // Debug: trace inputs for SPOC assignment
-    console.log("[spoc-assignment] findSPOCForTicket inputs:", {
+    console.log("[spoc-assignment] findSPOCAssignment inputs:", {
       category,
       location,
       categoryId,
@@ -106,6 +223,18 @@ export async function findSPOCForTicket(
       fieldSlugs,
     });
 
+    const { strategy } = await resolveAssignmentStrategy(categoryId, location);
+
+    const normalizedCategory = (category || "").toLowerCase();
+    let domainName: string | null = null;
+    if (normalizedCategory === "hostel" || normalizedCategory === "college") {
+      domainName = normalizedCategory.charAt(0).toUpperCase() + normalizedCategory.slice(1);
+    }
+    // Scope for Hostel: use location (hostel name) if present; for College, scope is null
+    const scopeName = domainName?.toLowerCase() === "hostel" && location ? location : null;
+    // Covers for away admins are looked for in the ticket's domain/scope (else the admin's own)
+    const coverageScope: CoverageScope = { domain: domainName, scope: scopeName };
+
     // Hierarchy: field > domain/scope > subcategory > category > escalation rules
 
     // 1. Check field-level assignment (if field slugs provided)
@@ -123,53 +252,31 @@ export async function findSPOCForTicket(
             WHERE subcategory_id = ${subcategoryId}
               AND slug = ANY(${sql.raw(`ARRAY[${fieldSlugs.map(slug => `'${slug.replace(/'/g, "''")}'`).join(',')}]`)})
               AND is_active = true
-            LIMIT 1
+              AND assigned_admin_id IS NOT NULL
           `);
 
           type FieldAssignmentResult = { assigned_admin_id?: string };
-          if (fieldAssignments.length > 0 && (fieldAssignments[0] as FieldAssignmentResult)?.assigned_admin_id) {
-            const adminId = (fieldAssignments[0] as FieldAssignmentResult).assigned_admin_id;
-            if (!adminId || typeof adminId !== 'string') return null;
-            // Optimize: Get external_id directly in a single query
-            const [adminUser] = await db
-              .select({
-                external_id: users.external_id,
-              })
-              .from(users)
-              .where(eq(users.id, adminId))
-              .limit(1);
-
-            if (adminUser?.external_id) {
-              return adminUser.external_id;
-            }
-          }
+          const adminIds = (fieldAssignments as FieldAssignmentResult[])
+            .map((row) => row.assigned_admin_id)
+            .filter((id): id is string => typeof id === 'string');
+
+          const assignment = await pickAtStage("field", ASSIGNMENT_STRATEGY.FIXED, await loadAssignmentCandidates(adminIds), coverageScope);
+          if (assignment) return assignment;
         }
       } catch (error) {
         // Column might not exist yet if migration hasn't been run
-        const errorMessage = error instanceof Error 
-          ? error.message 
-          : typeof error === 'string' 
-            ? error 
-            : 'Unknown error';
-        console.warn(`Field-level assignment check failed (column may not exist):`, errorMessage);
+        console.warn(`Field-level assignment check failed (column may not exist):`, describeError(error));
       }
     }
 
     // 2. Domain + scope based matching (Hostel / College)
     //    This runs BEFORE subcategory/category assignment to honor domain/scope priority.
     // ------------------------------------------------------------------------
-    const normalizedCategory = (category || "").toLowerCase();
-    let domainName: string | null = null;
-    if (normalizedCategory === "hostel" || normalizedCategory === "college") {
-      domainName = normalizedCategory.charAt(0).toUpperCase() + normalizedCategory.slice(1);
-    }
-
     if (domainName) {
-      // Scope for Hostel: use location (hostel name) if present; for College, scope is null
-      const scopeName = domainName.toLowerCase() === "hostel" && location ? location : null;
       console.log("[spoc-assignment] domain/scope stage:", {
         domainName,
         scopeName,
+        strategy,
       });
 
       const candidateAdmins = await getAdminsForDomainScope(domainName, scopeName);
@@ -180,11 +287,16 @@ export async function findSPOCForTicket(
         candidateAdmins,
       });
 
-      if (candidateAdmins.length === 1) {
-        console.log("[spoc-assignment] selected admin from domain/scope:", {
-          selected: candidateAdmins[0],
-        });
-        return candidateAdmins[0];
+      // With the fixed strategy several scope admins are ambiguous; defer to the category-level settings
+      if (candidateAdmins.length === 1 || (candidateAdmins.length > 1 && strategy !== ASSIGNMENT_STRATEGY.FIXED)) {
+        const assignment = await pickAtStage("domain_scope", strategy, await loadAssignmentCandidatesByClerkId(candidateAdmins), coverageScope);
+        if (assignment) {
+          console.log("[spoc-assignment] selected admin from domain/scope:", {
+            selected: assignment.clerkUserId,
+            reason: assignment.reason,
+          });
+          return assignment;
+        }
       }
     }
 
@@ -204,31 +316,15 @@ export async function findSPOCForTicket(
           `);
 
           type SubcategoryResult = { assigned_admin_id?: string };
-          if (subcategoryResult.length > 0 && (subcategoryResult[0] as SubcategoryResult)?.assigned_admin_id) {
-            const adminId = (subcategoryResult[0] as SubcategoryResult).assigned_admin_id;
-            if (!adminId || typeof adminId !== 'string') return null;
-            // Optimize: Get external_id directly in a single query
-            const [adminUser] = await db
-              .select({
-                external_id: users.external_id,
-              })
-              .from(users)
-              .where(eq(users.id, adminId))
-              .limit(1);
-
-            if (adminUser?.external_id) {
-              return adminUser.external_id;
-            }
+          const adminId = (subcategoryResult[0] as SubcategoryResult | undefined)?.assigned_admin_id;
+          if (adminId && typeof adminId === 'string') {
+            const assignment = await pickAtStage("subcategory", ASSIGNMENT_STRATEGY.FIXED, await loadAssignmentCandidates([adminId]), coverageScope);
+            if (assignment) return assignment;
           }
         }
       } catch (error) {
         // Column might not exist yet if migration hasn't been run
-        const errorMessage = error instanceof Error 
-          ? error.message 
-          : typeof error === 'string' 
-            ? error 
-            : 'Unknown error';
-        console.warn(`Subcategory-level assignment check failed (column may not exist):`, errorMessage);
+        console.warn(`Subcategory-level assignment check failed (column may not exist):`, describeError(error));
       }
     }
 
@@ -240,100 +336,52 @@ export async function findSPOCForTicket(
 
         if (tableExists) {
           // Query category_assignments table
-          // Order by: created_at ASC (oldest first) to get the first assignment
+          // Order by: created_at ASC (oldest first) so "fixed" keeps picking the first assignment
           const assignments = await db.execute(sql`
             SELECT user_id 
             FROM category_assignments 
             WHERE category_id = ${categoryId}
             ORDER BY created_at ASC
-            LIMIT 1
           `);
 
           type AssignmentResult = { user_id?: string };
-          if (assignments.length > 0 && (assignments[0] as AssignmentResult)?.user_id) {
-            const adminId = (assignments[0] as AssignmentResult).user_id;
-            if (!adminId || typeof adminId !== 'string') return null;
-            // Optimize: Get external_id directly in a single query
-            const [adminUser] = await db
-              .select({
-                external_id: users.external_id,
-              })
-              .from(users)
-              .where(eq(users.id, adminId))
-              .limit(1);
-
-            if (adminUser?.external_id) {
-              return adminUser.external_id;
-            }
-          }
+          const adminIds = (assignments as AssignmentResult[])
+            .map((row) => row.user_id)
+            .filter((id): id is string => typeof id === 'string');
+
+          const assignment = await pickAtStage("category_assignment", strategy, await loadAssignmentCandidates(adminIds), coverageScope);
+          if (assignment) return assignment;
         }
       } catch (error) {
-        const errorMessage = error instanceof Error 
-          ? error.message 
-          : typeof error === 'string' 
-            ? error 
-            : 'Unknown error';
-        console.warn(`Category-level assignment check failed:`, errorMessage);
+        console.warn(`Category-level assignment check failed:`, describeError(error));
       }
     }
 
     // 5. Check category default_admin_id
     // Optimize: Use passed default_admin_id if available to avoid redundant query
-    if (categoryDefaultAdminId) {
-      try {
-        // Optimize: Get external_id directly in a single query
-        const [adminUser] = await db
-          .select({
-            external_id: users.external_id,
-          })
-          .from(users)
-          .where(eq(users.id, categoryDefaultAdminId))
-          .limit(1);
-
-        if (adminUser?.external_id) {
-          return adminUser.external_id;
-        }
-      } catch (error) {
-        const errorMessage = error instanceof Error 
-          ? error.message 
-          : typeof error === 'string' 
-            ? error 
-            : 'Unknown error';
-        console.warn(`Category default admin check failed:`, errorMessage);
-      }
-    } else if (categoryId) {
+    let defaultAdminId = categoryDefaultAdminId ?? null;
+    if (!defaultAdminId && categoryId) {
       // Fallback: query if not passed (for backward compatibility)
       try {
-        const [category] = await db
+        const [categoryRow] = await db
           .select({
             default_admin_id: categories.default_admin_id,
           })
           .from(categories)
           .where(eq(categories.id, categoryId))
           .limit(1);
+        defaultAdminId = categoryRow?.default_admin_id ?? null;
+      } catch (error) {
+        console.warn(`Category default admin check failed for categoryId ${categoryId}:`, describeError(error));
+      }
+    }
 
-        if (category && category.default_admin_id) {
-          // Optimize: Get external_id directly in a single query
-          const [adminUser] = await db
-            .select({
-              external_id: users.external_id,
-            })
-            .from(users)
-            .where(eq(users.id, category.default_admin_id))
-            .limit(1);
-
-          if (adminUser?.external_id) {
-            return adminUser.external_id;
-          }
-        }
+    if (defaultAdminId) {
+      try {
+        const assignment = await pickAtStage("category_default", ASSIGNMENT_STRATEGY.FIXED, await loadAssignmentCandidates([defaultAdminId]), coverageScope);
+        if (assignment) return assignment;
       } catch (error) {
-        // Safe error logging - avoid Object.entries on error objects
-        const errorMessage = error instanceof Error 
-          ? error.message 
-          : typeof error === 'string' 
-            ? error 
-            : 'Unknown error';
-        console.warn(`Category default admin check failed for categoryId ${categoryId}:`, errorMessage);
+        console.warn(`Category default admin check failed:`, describeError(error));
       }
     }
 
@@ -348,19 +396,10 @@ export async function findSPOCForTicket(
       .limit(1);
 
     if (domain) {
-      let query = db
-        .select({
-          external_id: users.external_id,
-        })
-        .from(users)
-        .leftJoin(roles, eq(users.role_id, roles.id))
-        .leftJoin(admin_profiles, eq(admin_profiles.user_id, users.id))
-        .where(
-          and(
-            eq(admin_profiles.primary_domain_id, domain.id),
-            eq(roles.name, "admin")
-          )
-        );
+      const conditions = [
+        eq(admin_profiles.primary_domain_id, domain.id),
+        eq(roles.name, "admin"),
+      ];
 
       // If Hostel category and location is provided, match by scope
       if (category === "Hostel" && location) {
@@ -371,38 +410,32 @@ export async function findSPOCForTicket(
           .limit(1);
 
         if (scope) {
-          query = db
-            .select({
-              external_id: users.external_id,
-            })
-            .from(users)
-            .leftJoin(roles, eq(users.role_id, roles.id))
-            .leftJoin(admin_profiles, eq(admin_profiles.user_id, users.id))
-            .where(
-              and(
-                eq(admin_profiles.primary_domain_id, domain.id),
-                eq(admin_profiles.primary_scope_id, scope.id),
-                eq(roles.name, "admin")
-              )
-            );
+          conditions.push(eq(admin_profiles.primary_scope_id, scope.id));
         }
       }
 
-      const staffMembers = await query;
-
-      if (staffMembers.length > 0 && staffMembers[0].external_id) {
-        return staffMembers[0].external_id;
-      }
+      const staffMembers = await db
+        .select({
+          id: users.id,
+        })
+        .from(users)
+        .leftJoin(roles, eq(users.role_id, roles.id))
+        .leftJoin(admin_profiles, eq(admin_profiles.user_id, users.id))
+        .where(and(...conditions))
+        .orderBy(asc(users.created_at));
+
+      const assignment = await pickAtStage(
+        "domain_fallback",
+        strategy,
+        await loadAssignmentCandidates(staffMembers.map((member) => member.id)),
+        coverageScope
+      );
+      if (assignment) return assignment;
     }
 
     return null;
   } catch (error) {
-    const errorMessage = error instanceof Error 
-      ? error.message 
-      : typeof error === 'string' 
-        ? error 
-        : 'Unknown error';
-    console.error("Error finding SPOC for ticket:", errorMessage);
+    console.error("Error finding SPOC for ticket:", describeError(error));
     if (error instanceof Error && error.stack) {
       console.error("Stack trace:", error.stack);
     }
@@ -0,0 +1,261 @@
+/**
+ * Assignment Strategies
+ * Picks one admin from a pool of candidates (several admins covering the same
+ * category or domain/scope) and explains the choice.
+ *
+ * - fixed:       first available admin in configuration order (the historical behavior)
+ * - round_robin: the available admin who was least recently assigned a ticket
+ * - least_open:  the available admin with the fewest open tickets
+ * - weighted:    the available admin with the lowest open tickets / capacity ratio;
+ *                admins at capacity are only used when everyone is
+ *
+ * Inactive (admin_profiles.is_active), unavailable (admin_profiles.is_available) and
+ * out-of-office (admin_availability) admins are always skipped. Users without an admin
+ * profile count as active with the default capacity.
+ */
+
+import { db, users, admin_profiles, categories, scopes, tickets, ticket_statuses } from "@/db";
+import { and, eq, inArray, sql } from "drizzle-orm";
+import { ASSIGNMENT_STRATEGY, type AssignmentStrategyValue } from "@/conf/constants";
+import { getActiveAbsences, type AdminAbsence } from "@/lib/assignment/availability";
+
+const DEFAULT_CAPACITY = 10;
+
+export interface AssignmentCandidate {
+  userId: string;
+  clerkUserId: string;
+  name: string | null;
+  isActive: boolean;
+  isAvailable: boolean;
+  capacity: number;
+  openTickets: number;
+  lastAssignedAt: Date | null;
+  /** Active out-of-office window, if any */
+  absence: AdminAbsence | null;
+}
+
+export interface AssignmentPick {
+  candidate: AssignmentCandidate;
+  strategy: AssignmentStrategyValue;
+  reason: string;
+  /** Pool snapshot recorded in ticket_activity */
+  pool: Array<{
+    user_id: string;
+    name: string | null;
+    open_tickets: number;
+    capacity: number;
+    skipped?: "inactive" | "unavailable" | "away";
+  }>;
+}
+
+export function isAssignmentStrategy(value: unknown): value is AssignmentStrategyValue {
+  return typeof value === "string" && (Object.values(ASSIGNMENT_STRATEGY) as string[]).includes(value);
+}
+
+/**
+ * Strategy for a category: the category's own setting, else its scope's (the category's fixed
+ * scope, or the ticket location's scope within the category's domain), else fixed.
+ */
+export async function resolveAssignmentStrategy(
+  categoryId: number | null | undefined,
+  location: string | null
+): Promise<{ strategy: AssignmentStrategyValue; source: "category" | "scope" | "default" }> {
+  if (!categoryId) {
+    return { strategy: ASSIGNMENT_STRATEGY.FIXED, source: "default" };
+  }
+
+  const [category] = await db
+    .select({
+      strategy: categories.assignment_strategy,
+      scopeId: categories.scope_id,
+      domainId: categories.domain_id,
+    })
+    .from(categories)
+    .where(eq(categories.id, categoryId))
+    .limit(1);
+
+  if (!category) {
+    return { strategy: ASSIGNMENT_STRATEGY.FIXED, source: "default" };
+  }
+  if (category.strategy) {
+    return { strategy: category.strategy, source: "category" };
+  }
+
+  const scopeCondition = category.scopeId
+    ? eq(scopes.id, category.scopeId)
+    : location
+      ? and(eq(scopes.domain_id, category.domainId), eq(scopes.name, location))
+      : null;
+
+  if (scopeCondition) {
+    const [scope] = await db
+      .select({ strategy: scopes.assignment_strategy })
+      .from(scopes)
+      .where(scopeCondition)
+      .limit(1);
+    if (scope?.strategy) {
+      return { strategy: scope.strategy, source: "scope" };
+    }
+  }
+
+  return { strategy: ASSIGNMENT_STRATEGY.FIXED, source: "default" };
+}
+
+/**
+ * Load availability and workload for admins (by users.id), keeping the input order
+ */
+export async function loadAssignmentCandidates(userIds: string[]): Promise<AssignmentCandidate[]> {
+  const ids = Array.from(new Set(userIds));
+  if (ids.length === 0) return [];
+
+  const [profiles, workloads, absences] = await Promise.all([
+    db
+      .select({
+        userId: users.id,
+        clerkUserId: users.external_id,
+        name: users.full_name,
+        isActive: admin_profiles.is_active,
+        isAvailable: admin_profiles.is_available,
+        capacity: admin_profiles.capacity,
+      })
+      .from(users)
+      .leftJoin(admin_profiles, eq(admin_profiles.user_id, users.id))
+      .where(inArray(users.id, ids)),
+    db
+      .select({
+        userId: tickets.assigned_to,
+        openTickets: sql<number>`count(*) filter (where coalesce(${ticket_statuses.is_final}, false) = false)::int`,
+        lastAssignedAt: sql<Date | null>`max(${tickets.created_at})`,
+      })
+      .from(tickets)
+      .leftJoin(ticket_statuses, eq(ticket_statuses.id, tickets.status_id))
+      .where(inArray(tickets.assigned_to, ids))
+      .groupBy(tickets.assigned_to),
+    getActiveAbsences(ids),
+  ]);
+
+  const profileById = new Map(profiles.map((profile) => [profile.userId, profile]));
+  const workloadById = new Map(workloads.map((workload) => [workload.userId, workload]));
+
+  return ids.flatMap((id) => {
+    const profile = profileById.get(id);
+    if (!profile) return [];
+    const workload = workloadById.get(id);
+    return [{
+      userId: id,
+      clerkUserId: profile.clerkUserId,
+      name: profile.name,
+      isActive: profile.isActive ?? true,
+      isAvailable: profile.isAvailable ?? true,
+      capacity: profile.capacity && profile.capacity > 0 ? profile.capacity : DEFAULT_CAPACITY,
+      openTickets: Number(workload?.openTickets ?? 0),
+      lastAssignedAt: workload?.lastAssignedAt ? new Date(workload.lastAssignedAt) : null,
+      absence: absences.get(id) ?? null,
+    }];
+  });
+}
+
+/**
+ * Same as loadAssignmentCandidates, for Clerk user IDs (getAdminsForDomainScope returns those)
+ */
+export async function loadAssignmentCandidatesByClerkId(clerkUserIds: string[]): Promise<AssignmentCandidate[]> {
+  if (clerkUserIds.length === 0) return [];
+  const rows = await db
+    .select({ id: users.id, clerkUserId: users.external_id })
+    .from(users)
+    .where(inArray(users.external_id, clerkUserIds));
+  const idByClerkId = new Map(rows.map((row) => [row.clerkUserId, row.id]));
+  return loadAssignmentCandidates(
+    clerkUserIds.map((clerkUserId) => idByClerkId.get(clerkUserId)).filter((id): id is string => !!id)
+  );
+}
+
+function label(candidate: AssignmentCandidate): string {
+  return candidate.name || candidate.clerkUserId;
+}
+
+function skipReason(candidate: AssignmentCandidate): "inactive" | "unavailable" | "away" | null {
+  if (!candidate.isActive) return "inactive";
+  if (!candidate.isAvailable) return "unavailable";
+  if (candidate.absence) return "away";
+  return null;
+}
+
+/**
+ * Pool snapshot with the reason each skipped candidate was passed over
+ */
+export function describePool(candidates: AssignmentCandidate[]): AssignmentPick["pool"] {
+  return candidates.map((candidate) => {
+    const skipped = skipReason(candidate);
+    return {
+      user_id: candidate.userId,
+      name: candidate.name,
+      open_tickets: candidate.openTickets,
+      capacity: candidate.capacity,
+      ...(skipped ? { skipped } : {}),
+    };
+  });
+}
+
+/**
+ * Apply a strategy to a pool. Returns null when every candidate is inactive, unavailable or away.
+ */
+export function pickAssignee(
+  strategy: AssignmentStrategyValue,
+  candidates: AssignmentCandidate[]
+): AssignmentPick | null {
+  const pool = describePool(candidates);
+  const eligible = candidates.filter((candidate) => !skipReason(candidate));
+  const [first] = eligible;
+  if (!first) return null;
+
+  const skippedCount = candidates.length - eligible.length;
+  const skippedNote = skippedCount > 0 ? `; ${skippedCount} inactive/unavailable/away skipped` : "";
+  const poolNote = `${eligible.length} of ${candidates.length} admins eligible${skippedNote}`;
+
+  // Ties keep configuration order (Array.prototype.sort is stable)
+  switch (strategy) {
+    case ASSIGNMENT_STRATEGY.ROUND_ROBIN: {
+      const [chosen = first] = [...eligible].sort(
+        (a, b) => (a.lastAssignedAt?.getTime() ?? 0) - (b.lastAssignedAt?.getTime() ?? 0)
+      );
+      const last = chosen.lastAssignedAt ? `last assigned ${chosen.lastAssignedAt.toISOString()}` : "never assigned";
+      return {
+        candidate: chosen,
+        strategy,
+        reason: `Round robin: ${label(chosen)} was least recently assigned (${last}); ${poolNote}`,
+        pool,
+      };
+    }
+    case ASSIGNMENT_STRATEGY.LEAST_OPEN: {
+      const [chosen = first] = [...eligible].sort((a, b) => a.openTickets - b.openTickets);
+      return {
+        candidate: chosen,
+        strategy,
+        reason: `Least open tickets: ${label(chosen)} has ${chosen.openTickets} open; ${poolNote}`,
+        pool,
+      };
+    }
+    case ASSIGNMENT_STRATEGY.WEIGHTED: {
+      const withRoom = eligible.filter((candidate) => candidate.openTickets < candidate.capacity);
+      const [chosen = first] = [...(withRoom.length > 0 ? withRoom : eligible)].sort(
+        (a, b) => a.openTickets / a.capacity - b.openTickets / b.capacity
+      );
+      const overflow = withRoom.length === 0 ? " (all admins at capacity)" : "";
+      return {
+        candidate: chosen,
+        strategy,
+        reason: `Weighted by capacity: ${label(chosen)} has ${chosen.openTickets}/${chosen.capacity} open${overflow}; ${poolNote}`,
+        pool,
+      };
+    }
+    case ASSIGNMENT_STRATEGY.FIXED:
+    default:
+      return {
+        candidate: first,
+        strategy: ASSIGNMENT_STRATEGY.FIXED,
+        reason: `Fixed: ${label(first)} is the first available configured admin; ${poolNote}`,
+        pool,
+      };
+  }
+}
@@ -0,0 +1,215 @@
+/**
+ * Audit log
+ *
+ * Append-only trail of administrative changes (roles, categories, fields,
+ * notification config, committees, students, ...). Each row records who did
+ * what to which entity, before/after snapshots with the changed keys, and the
+ * request's IP and user agent. The table rejects updates and deletes (see
+ * migration 0020), so entries are only ever written through recordAudit().
+ */
+
+import { db } from "@/db";
+import { audit_log, users } from "@/db/schema";
+import type { AuditLogSelect } from "@/db/inferred-types";
+import type { AuditEntityType } from "@/conf/constants";
+import { getCachedAdminUser } from "@/lib/cache/cached-queries";
+import { and, desc, eq, gte, ilike, lte, or, sql, type SQL } from "drizzle-orm";
+
+export interface RecordAuditInput {
+  /** Clerk id of the acting user */
+  actorClerkId: string;
+  /** "<entity>.<verb>", e.g. "category.update" */
+  action: string;
+  entityType: AuditEntityType;
+  entityId?: string | number | null;
+  before?: unknown;
+  after?: unknown;
+}
+
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+// Bookkeeping columns that change on every write and would drown out the real diff
+const IGNORED_KEYS = new Set(["updated_at", "created_at"]);
+
+// Never persist credentials, even inside a snapshot
+const REDACTED_KEY = /secret|password|token|api_key/i;
+
+function redact(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redact);
+  if (value instanceof Date) return value.toISOString();
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, inner]) => [
+        key,
+        REDACTED_KEY.test(key) && inner != null && inner !== "" ? "[redacted]" : redact(inner),
+      ])
+    );
+  }
+  return value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Top-level keys whose values differ between two snapshots.
+ * A missing snapshot (create/delete) diffs against an empty object.
+ */
+export function diffAuditSnapshots(before: unknown, after: unknown): AuditChanges | null {
+  const from = isPlainObject(before) ? before : {};
+  const to = isPlainObject(after) ? after : {};
+  const changes: AuditChanges = {};
+
+  for (const key of new Set([...Object.keys(from), ...Object.keys(to)])) {
+    if (IGNORED_KEYS.has(key)) continue;
+    if (JSON.stringify(from[key] ?? null) !== JSON.stringify(to[key] ?? null)) {
+      changes[key] = { from: from[key] ?? null, to: to[key] ?? null };
+    }
+  }
+
+  return Object.keys(changes).length > 0 ? changes : null;
+}
+
+/**
+ * Client IP and user agent of the request that triggered a change
+ */
+export function getAuditRequestContext(request: Request): { ipAddress: string | null; userAgent: string | null } {
+  const forwardedFor = request.headers.get("x-forwarded-for");
+  const ipAddress = forwardedFor?.split(",")[0]?.trim() || request.headers.get("x-real-ip") || null;
+  return { ipAddress, userAgent: request.headers.get("user-agent") };
+}
+
+/**
+ * Append an audit entry for an administrative change.
+ *
+ * Call after the change succeeded. Failures are logged and swallowed: the change
+ * has already been made, and failing the request would only hide that from the caller.
+ */
+export async function recordAudit(request: Request, input: RecordAuditInput): Promise<void> {
+  try {
+    const { dbUser, role } = await getCachedAdminUser(input.actorClerkId);
+    const before = input.before === undefined ? null : redact(input.before);
+    const after = input.after === undefined ? null : redact(input.after);
+    const { ipAddress, userAgent } = getAuditRequestContext(request);
+
+    await db.insert(audit_log).values({
+      actor_id: dbUser?.id ?? null,
+      actor_external_id: input.actorClerkId,
+      actor_role: role ?? null,
+      action: input.action,
+      entity_type: input.entityType,
+      entity_id: input.entityId == null ? null : String(input.entityId),
+      before,
+      after,
+      changes: diffAuditSnapshots(before, after),
+      ip_address: ipAddress,
+      user_agent: userAgent,
+    });
+  } catch (error) {
+    console.error(`[Audit] Failed to record "${input.action}" on ${input.entityType} ${input.entityId ?? ""}:`, error);
+  }
+}
+
+export interface AuditLogFilters {
+  /** Free text: action, entity id, actor name or email */
+  q?: string | null;
+  action?: string | null;
+  entityType?: string | null;
+  entityId?: string | null;
+  actorId?: string | null;
+  from?: Date | null;
+  to?: Date | null;
+}
+
+export type AuditLogEntry = AuditLogSelect & {
+  actor_name: string | null;
+  actor_email: string | null;
+};
+
+function auditLogCondition(filters: AuditLogFilters): SQL | undefined {
+  const conditions: (SQL | undefined)[] = [];
+  const q = filters.q?.trim();
+  if (q) {
+    const pattern = `%${q.replace(/[\\%_]/g, (ch) => `\\${ch}`)}%`;
+    conditions.push(
+      or(
+        ilike(audit_log.action, pattern),
+        ilike(audit_log.entity_id, pattern),
+        ilike(users.full_name, pattern),
+        ilike(users.email, pattern)
+      )
+    );
+  }
+  if (filters.action) conditions.push(eq(audit_log.action, filters.action));
+  if (filters.entityType) conditions.push(eq(audit_log.entity_type, filters.entityType));
+  if (filters.entityId) conditions.push(eq(audit_log.entity_id, filters.entityId));
+  if (filters.actorId) conditions.push(eq(audit_log.actor_id, filters.actorId));
+  if (filters.from) conditions.push(gte(audit_log.created_at, filters.from));
+  if (filters.to) conditions.push(lte(audit_log.created_at, filters.to));
+  return conditions.length > 0 ? and(...conditions) : undefined;
+}
+
+/**
+ * Newest-first page of audit entries with the actor's name/email and the total match count
+ */
+export async function searchAuditLog(
+  filters: AuditLogFilters,
+  { limit = 50, offset = 0 }: { limit?: number; offset?: number } = {}
+): Promise<{ entries: AuditLogEntry[]; total: number }> {
+  const condition = auditLogCondition(filters);
+
+  const [entries, [countRow]] = await Promise.all([
+    db
+      .select({
+        id: audit_log.id,
+        actor_id: audit_log.actor_id,
+        actor_external_id: audit_log.actor_external_id,
+        actor_role: audit_log.actor_role,
+        action: audit_log.action,
+        entity_type: audit_log.entity_type,
+        entity_id: audit_log.entity_id,
+        before: audit_log.before,
+        after: audit_log.after,
+        changes: audit_log.changes,
+        ip_address: audit_log.ip_address,
+        user_agent: audit_log.user_agent,
+        created_at: audit_log.created_at,
+        actor_name: users.full_name,
+        actor_email: users.email,
+      })
+      .from(audit_log)
+      .leftJoin(users, eq(users.id, audit_log.actor_id))
+      .where(condition)
+      .orderBy(desc(audit_log.created_at), desc(audit_log.id))
+      .limit(limit)
+      .offset(offset),
+    db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(audit_log)
+      .leftJoin(users, eq(users.id, audit_log.actor_id))
+      .where(condition),
+  ]);
+
+  return { entries, total: Number(countRow?.count ?? 0) };
+}
+
+/**
+ * Parse viewer/export query params into filters
+ */
+export function parseAuditLogFilters(params: URLSearchParams): AuditLogFilters {
+  const date = (value: string | null, endOfDay = false) => {
+    if (!value) return null;
+    const parsed = new Date(/^\d{4}-\d{2}-\d{2}$/.test(value) && endOfDay ? `${value}T23:59:59.999` : value);
+    return isNaN(parsed.getTime()) ? null : parsed;
+  };
+  return {
+    q: params.get("q"),
+    action: params.get("action"),
+    entityType: params.get("entityType"),
+    entityId: params.get("entityId"),
+    actorId: params.get("actorId"),
+    from: date(params.get("from")),
+    to: date(params.get("to"), true),
+  };
+}
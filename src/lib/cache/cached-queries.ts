@@ -5,6 +5,7 @@ import { getUserRoleFromDB } from "@/lib/auth/db-roles";
 import { getOrCreateUser } from "@/lib/auth/user-sync";
 import { getAdminAssignment } from "@/lib/assignment/admin-assignment";
 import { getTicketStatuses } from "@/lib/status/getTicketStatuses";
+import { ticketCommentCountSql } from "@/lib/ticket/data/ticketComments";
 
 /**
  * Cached helper functions for admin dashboard
@@ -96,6 +97,7 @@ export const getCachedAdminTickets = cache(async (
       creator_id: users.id,
       creator_full_name: users.full_name,
       creator_email: users.email,
+      comment_count: ticketCommentCountSql(tickets.id),
     })
     .from(tickets)
     .leftJoin(categories, eq(tickets.category_id, categories.id))
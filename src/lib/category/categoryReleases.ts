@@ -0,0 +1,338 @@
+/**
+ * Draft / publish for category configuration
+ *
+ * The categories, subcategories, category_fields and field_options tables are the
+ * draft that CategoryManager, SubcategoryManager, FieldBuilder and ProfileFieldsConfig
+ * (categories.profile_fields) edit. Students are
+ * served the latest category_releases snapshot, so nothing they see changes until a
+ * super admin publishes. Rolling back publishes an older snapshot again as a new release.
+ * Deactivating a whole category still takes effect immediately.
+ */
+
+import 'server-only';
+import { db } from "@/db";
+import { categories, category_releases, subcategories } from "@/db/schema";
+import type { CategoryReleaseSelect } from "@/db/inferred-types";
+import type { DbExecutor } from "@/lib/ticket/data/ticketComments";
+import { and, asc, desc, eq, inArray } from "drizzle-orm";
+import { ensureFormVersion, snapshotFormFields, type FormVersionField } from "./formVersions";
+import { diffFormFields, type FormFieldChange } from "./formVersionDiff";
+import type { CategoryProfileField } from "./profileFields";
+
+export type CategorySnapshot = {
+  category: {
+    id: number;
+    name: string;
+    slug: string;
+    description: string | null;
+    icon: string | null;
+    color: string | null;
+    display_order: number;
+    /** Left out while the category uses the standard profile fields */
+    profile_fields?: CategoryProfileField[];
+  };
+  subcategories: Array<{
+    id: number;
+    name: string;
+    slug: string;
+    description: string | null;
+    display_order: number;
+    fields: FormVersionField[];
+  }>;
+};
+
+export type CategoryRelease = Omit<CategoryReleaseSelect, "snapshot"> & { snapshot: CategorySnapshot };
+
+/**
+ * One difference between the published configuration and the draft
+ */
+export type CategoryDraftChange = {
+  kind: "added" | "removed" | "changed";
+  /** Category or subcategory name */
+  name: string;
+  subcategoryId: number | null;
+  details: string[];
+  fields: FormFieldChange[];
+};
+
+export type CategoryReleaseResult =
+  | { ok: true; release: CategoryRelease; before: CategoryRelease | null }
+  | { ok: false; status: number; error: string };
+
+function toCategoryRelease(row: CategoryReleaseSelect): CategoryRelease {
+  return { ...row, snapshot: row.snapshot as CategorySnapshot };
+}
+
+/**
+ * JSON with object keys sorted, so snapshots read back from jsonb compare equal to fresh ones
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Current (draft) configuration of a category, or null if it does not exist
+ */
+export async function buildCategorySnapshot(
+  categoryId: number,
+  executor: DbExecutor = db
+): Promise<CategorySnapshot | null> {
+  const [category] = await executor
+    .select()
+    .from(categories)
+    .where(eq(categories.id, categoryId))
+    .limit(1);
+  if (!category) return null;
+
+  const subcategoryRows = await executor
+    .select()
+    .from(subcategories)
+    .where(and(eq(subcategories.category_id, categoryId), eq(subcategories.is_active, true)))
+    .orderBy(asc(subcategories.display_order), asc(subcategories.id));
+
+  const fieldsBySubcategory = await Promise.all(
+    subcategoryRows.map((subcategory) => snapshotFormFields(subcategory.id, executor))
+  );
+
+  return {
+    category: {
+      id: category.id,
+      name: category.name,
+      slug: category.slug,
+      description: category.description,
+      icon: category.icon,
+      color: category.color,
+      display_order: category.display_order ?? 0,
+      ...(category.profile_fields ? { profile_fields: category.profile_fields } : {}),
+    },
+    subcategories: subcategoryRows.map((subcategory, index) => ({
+      id: subcategory.id,
+      name: subcategory.name,
+      slug: subcategory.slug,
+      description: subcategory.description,
+      display_order: subcategory.display_order ?? 0,
+      fields: fieldsBySubcategory[index] ?? [],
+    })),
+  };
+}
+
+/**
+ * Release students currently see for a category (null: never published)
+ */
+export async function getLatestCategoryRelease(
+  categoryId: number,
+  executor: DbExecutor = db
+): Promise<CategoryRelease | null> {
+  const [row] = await executor
+    .select()
+    .from(category_releases)
+    .where(eq(category_releases.category_id, categoryId))
+    .orderBy(desc(category_releases.version))
+    .limit(1);
+  return row ? toCategoryRelease(row) : null;
+}
+
+/**
+ * Latest release of each of the given categories, keyed by category id
+ */
+export async function getLatestCategoryReleases(categoryIds: number[]): Promise<Map<number, CategoryRelease>> {
+  if (categoryIds.length === 0) return new Map();
+
+  const rows = await db
+    .selectDistinctOn([category_releases.category_id])
+    .from(category_releases)
+    .where(inArray(category_releases.category_id, categoryIds))
+    .orderBy(category_releases.category_id, desc(category_releases.version));
+  return new Map(rows.map((row) => [row.category_id, toCategoryRelease(row)]));
+}
+
+/**
+ * All releases of a category, newest first
+ */
+export async function listCategoryReleases(categoryId: number): Promise<CategoryRelease[]> {
+  const rows = await db
+    .select()
+    .from(category_releases)
+    .where(eq(category_releases.category_id, categoryId))
+    .orderBy(desc(category_releases.version));
+  return rows.map(toCategoryRelease);
+}
+
+/**
+ * Published fields of a subcategory, or null when its category has never been published
+ * or the subcategory is not part of the live release
+ */
+export async function getPublishedSubcategoryFields(subcategoryId: number): Promise<FormVersionField[] | null> {
+  const [subcategory] = await db
+    .select({ category_id: subcategories.category_id })
+    .from(subcategories)
+    .where(eq(subcategories.id, subcategoryId))
+    .limit(1);
+  if (!subcategory) return null;
+
+  const release = await getLatestCategoryRelease(subcategory.category_id);
+  return release?.snapshot.subcategories.find((entry) => entry.id === subcategoryId)?.fields ?? null;
+}
+
+function describeCategoryChanges(before: CategorySnapshot["category"], after: CategorySnapshot["category"]): string[] {
+  const details: string[] = [];
+  if (before.name !== after.name) details.push(`Name "${before.name}" → "${after.name}"`);
+  if (before.slug !== after.slug) details.push(`Slug "${before.slug}" → "${after.slug}"`);
+  if ((before.description ?? "") !== (after.description ?? "")) details.push("Description changed");
+  if (before.icon !== after.icon || before.color !== after.color) details.push("Icon or colour changed");
+  if (before.display_order !== after.display_order) details.push("Moved");
+  if (stableStringify(before.profile_fields ?? null) !== stableStringify(after.profile_fields ?? null)) {
+    details.push("Profile fields changed");
+  }
+  return details;
+}
+
+/**
+ * Changes that publishing `after` over `before` would make (before null: first publish)
+ */
+export function diffCategorySnapshots(before: CategorySnapshot | null, after: CategorySnapshot): CategoryDraftChange[] {
+  const changes: CategoryDraftChange[] = [];
+
+  const categoryDetails = before ? describeCategoryChanges(before.category, after.category) : ["First publish"];
+  if (categoryDetails.length > 0) {
+    changes.push({ kind: "changed", name: after.category.name, subcategoryId: null, details: categoryDetails, fields: [] });
+  }
+
+  const beforeSubcategories = before?.subcategories ?? [];
+  for (const subcategory of beforeSubcategories) {
+    if (!after.subcategories.some((entry) => entry.id === subcategory.id)) {
+      changes.push({ kind: "removed", name: subcategory.name, subcategoryId: subcategory.id, details: [], fields: [] });
+    }
+  }
+
+  for (const subcategory of after.subcategories) {
+    const previous = beforeSubcategories.find((entry) => entry.id === subcategory.id);
+    const fields = diffFormFields(previous?.fields ?? [], subcategory.fields);
+    if (!previous) {
+      changes.push({ kind: "added", name: subcategory.name, subcategoryId: subcategory.id, details: [], fields });
+      continue;
+    }
+
+    const details: string[] = [];
+    if (previous.name !== subcategory.name) details.push(`Name "${previous.name}" → "${subcategory.name}"`);
+    if (previous.slug !== subcategory.slug) details.push(`Slug "${previous.slug}" → "${subcategory.slug}"`);
+    if ((previous.description ?? "") !== (subcategory.description ?? "")) details.push("Description changed");
+    if (previous.display_order !== subcategory.display_order) details.push("Moved");
+    if (details.length > 0 || fields.length > 0) {
+      changes.push({ kind: "changed", name: subcategory.name, subcategoryId: subcategory.id, details, fields });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Live release, draft and whether they differ
+ */
+export async function getCategoryDraftStatus(categoryId: number): Promise<{
+  release: CategoryRelease | null;
+  draft: CategorySnapshot;
+  hasUnpublishedChanges: boolean;
+  changes: CategoryDraftChange[];
+} | null> {
+  const [draft, release] = await Promise.all([buildCategorySnapshot(categoryId), getLatestCategoryRelease(categoryId)]);
+  if (!draft) return null;
+
+  const hasUnpublishedChanges = !release || stableStringify(release.snapshot) !== stableStringify(draft);
+  return {
+    release,
+    draft,
+    hasUnpublishedChanges,
+    changes: hasUnpublishedChanges ? diffCategorySnapshots(release?.snapshot ?? null, draft) : [],
+  };
+}
+
+/**
+ * Insert the next release of a category with the given snapshot, recording the form
+ * version of each subcategory so new tickets point at it
+ */
+async function insertRelease(
+  tx: DbExecutor,
+  categoryId: number,
+  snapshot: CategorySnapshot,
+  options: { publishedBy: string | null; restoredFrom?: number }
+): Promise<CategoryReleaseResult> {
+  const before = await getLatestCategoryRelease(categoryId, tx);
+
+  for (const subcategory of snapshot.subcategories) {
+    await ensureFormVersion(subcategory.id, { createdBy: options.publishedBy, fields: subcategory.fields }, tx);
+  }
+
+  const [inserted] = await tx
+    .insert(category_releases)
+    .values({
+      category_id: categoryId,
+      version: (before?.version ?? 0) + 1,
+      snapshot,
+      restored_from: options.restoredFrom ?? null,
+      published_by: options.publishedBy,
+    })
+    .onConflictDoNothing()
+    .returning();
+  if (!inserted) {
+    return { ok: false, status: 409, error: "Another publish of this category just happened. Reload and try again." };
+  }
+
+  return { ok: true, release: toCategoryRelease(inserted), before };
+}
+
+/**
+ * Publish the draft configuration of a category in one transaction
+ */
+export async function publishCategory(
+  categoryId: number,
+  options: { publishedBy: string | null }
+): Promise<CategoryReleaseResult> {
+  return db.transaction(async (tx) => {
+    const snapshot = await buildCategorySnapshot(categoryId, tx);
+    if (!snapshot) {
+      return { ok: false, status: 404, error: "Category not found" };
+    }
+
+    const latest = await getLatestCategoryRelease(categoryId, tx);
+    if (latest && stableStringify(latest.snapshot) === stableStringify(snapshot)) {
+      return { ok: false, status: 409, error: "There are no unpublished changes" };
+    }
+
+    return insertRelease(tx, categoryId, snapshot, options);
+  });
+}
+
+/**
+ * Publish an earlier release's snapshot again (the draft tables are left as they are)
+ */
+export async function rollbackCategory(
+  categoryId: number,
+  version: number,
+  options: { publishedBy: string | null }
+): Promise<CategoryReleaseResult> {
+  return db.transaction(async (tx) => {
+    const [target] = await tx
+      .select()
+      .from(category_releases)
+      .where(and(eq(category_releases.category_id, categoryId), eq(category_releases.version, version)))
+      .limit(1);
+    if (!target) {
+      return { ok: false, status: 404, error: "Release not found" };
+    }
+
+    const latest = await getLatestCategoryRelease(categoryId, tx);
+    if (latest && stableStringify(latest.snapshot) === stableStringify(target.snapshot)) {
+      return { ok: false, status: 409, error: `Version ${version} is already what students see` };
+    }
+
+    return insertRelease(tx, categoryId, toCategoryRelease(target).snapshot, { ...options, restoredFrom: version });
+  });
+}
@@ -0,0 +1,94 @@
+/**
+ * Differences between two versions of a subcategory form
+ *
+ * Pure (no database access) so the admin UI can use it too. Fields are matched by
+ * id, then by slug, so a renamed slug shows up as a change rather than remove + add.
+ */
+
+/**
+ * One field as stored in subcategory_form_versions.fields
+ */
+export type FormVersionField = {
+  id: number;
+  slug: string;
+  name: string;
+  field_type: string;
+  required: boolean;
+  placeholder: string | null;
+  help_text: string | null;
+  validation_rules: Record<string, unknown> | null;
+  display_order: number;
+  options: Array<{ label: string; value: string }>;
+};
+
+export type FormFieldChange = {
+  kind: "added" | "removed" | "changed";
+  slug: string;
+  name: string;
+  /** Human-readable list of what changed (empty for added / removed) */
+  details: string[];
+};
+
+function describeOptionChanges(before: FormVersionField, after: FormVersionField): string[] {
+  const details: string[] = [];
+  const afterByValue = new Map(after.options.map((option) => [option.value, option]));
+  const beforeValues = new Set(before.options.map((option) => option.value));
+
+  for (const option of before.options) {
+    const next = afterByValue.get(option.value);
+    if (!next) {
+      details.push(`Option "${option.label}" removed`);
+    } else if (next.label !== option.label) {
+      details.push(`Option "${option.label}" renamed to "${next.label}"`);
+    }
+  }
+  for (const option of after.options) {
+    if (!beforeValues.has(option.value)) details.push(`Option "${option.label}" added`);
+  }
+  return details;
+}
+
+function describeFieldChanges(before: FormVersionField, after: FormVersionField): string[] {
+  const details: string[] = [];
+  if (before.name !== after.name) details.push(`Label "${before.name}" → "${after.name}"`);
+  if (before.slug !== after.slug) details.push(`Field ID "${before.slug}" → "${after.slug}"`);
+  if (before.field_type !== after.field_type) details.push(`Type ${before.field_type} → ${after.field_type}`);
+  if (before.required !== after.required) details.push(after.required ? "Now required" : "No longer required");
+  if ((before.placeholder ?? "") !== (after.placeholder ?? "")) details.push("Placeholder changed");
+  if ((before.help_text ?? "") !== (after.help_text ?? "")) details.push("Help text changed");
+  if (JSON.stringify(before.validation_rules ?? {}) !== JSON.stringify(after.validation_rules ?? {})) {
+    details.push("Validation or display rules changed");
+  }
+  if (before.display_order !== after.display_order) details.push("Moved");
+  return [...details, ...describeOptionChanges(before, after)];
+}
+
+/**
+ * Changes that turn `before` into `after` (removed and changed fields in `before` order, then added ones)
+ */
+export function diffFormFields(before: FormVersionField[], after: FormVersionField[]): FormFieldChange[] {
+  const changes: FormFieldChange[] = [];
+  const matched = new Set<FormVersionField>();
+
+  for (const field of before) {
+    const next =
+      after.find((candidate) => candidate.id === field.id) ??
+      after.find((candidate) => !matched.has(candidate) && candidate.slug === field.slug);
+    if (!next) {
+      changes.push({ kind: "removed", slug: field.slug, name: field.name, details: [] });
+      continue;
+    }
+    matched.add(next);
+    const details = describeFieldChanges(field, next);
+    if (details.length > 0) {
+      changes.push({ kind: "changed", slug: next.slug, name: next.name, details });
+    }
+  }
+
+  for (const field of after) {
+    if (!matched.has(field)) {
+      changes.push({ kind: "added", slug: field.slug, name: field.name, details: [] });
+    }
+  }
+  return changes;
+}
@@ -0,0 +1,186 @@
+/**
+ * Versioned subcategory form schemas
+ *
+ * A version is a snapshot of a subcategory's active fields (with their active options).
+ * Tickets record the version they were submitted with in metadata.form_version_id, so
+ * later renames, deletions and option changes do not rewrite how old tickets read.
+ */
+
+import 'server-only';
+import { createHash } from "crypto";
+import { db } from "@/db";
+import { category_fields, field_options, subcategory_form_versions } from "@/db/schema";
+import type { SubcategoryFormVersionSelect } from "@/db/inferred-types";
+import type { DbExecutor } from "@/lib/ticket/data/ticketComments";
+import { and, asc, desc, eq, inArray } from "drizzle-orm";
+import type { FormVersionField } from "./formVersionDiff";
+
+export type { FormVersionField } from "./formVersionDiff";
+
+export type FormVersion = Omit<SubcategoryFormVersionSelect, "fields"> & {
+  fields: FormVersionField[];
+};
+
+function toFormVersion(row: SubcategoryFormVersionSelect): FormVersion {
+  return { ...row, fields: Array.isArray(row.fields) ? (row.fields as FormVersionField[]) : [] };
+}
+
+function checksumFields(fields: FormVersionField[]): string {
+  return createHash("sha256").update(JSON.stringify(fields)).digest("hex");
+}
+
+/**
+ * Current active fields of a subcategory in the shape stored on a version
+ */
+export async function snapshotFormFields(
+  subcategoryId: number,
+  executor: DbExecutor = db
+): Promise<FormVersionField[]> {
+  const fields = await executor
+    .select()
+    .from(category_fields)
+    .where(and(eq(category_fields.subcategory_id, subcategoryId), eq(category_fields.is_active, true)))
+    .orderBy(asc(category_fields.display_order), asc(category_fields.id));
+
+  const options = fields.length > 0
+    ? await executor
+        .select()
+        .from(field_options)
+        .where(and(inArray(field_options.field_id, fields.map((f) => f.id)), eq(field_options.is_active, true)))
+        .orderBy(asc(field_options.display_order), asc(field_options.id))
+    : [];
+
+  return fields.map((field) => ({
+    id: field.id,
+    slug: field.slug,
+    name: field.name,
+    field_type: field.field_type,
+    required: field.required ?? false,
+    placeholder: field.placeholder,
+    help_text: field.help_text,
+    validation_rules:
+      field.validation_rules && typeof field.validation_rules === "object"
+        ? (field.validation_rules as Record<string, unknown>)
+        : null,
+    display_order: field.display_order ?? 0,
+    options: options
+      .filter((option) => option.field_id === field.id)
+      .map((option) => ({ label: option.label, value: option.value })),
+  }));
+}
+
+/**
+ * Newest version of a subcategory's form, or null if none has been recorded yet
+ */
+export async function getLatestFormVersion(
+  subcategoryId: number,
+  executor: DbExecutor = db
+): Promise<FormVersion | null> {
+  const [row] = await executor
+    .select()
+    .from(subcategory_form_versions)
+    .where(eq(subcategory_form_versions.subcategory_id, subcategoryId))
+    .orderBy(desc(subcategory_form_versions.version))
+    .limit(1);
+  return row ? toFormVersion(row) : null;
+}
+
+/**
+ * Version matching the given fields (default: the subcategory's current fields), recording
+ * a new one if they differ from the latest version. Concurrent callers converge on the same row.
+ */
+export async function ensureFormVersion(
+  subcategoryId: number,
+  options: { createdBy?: string | null; fields?: FormVersionField[] } = {},
+  executor: DbExecutor = db
+): Promise<{ version: FormVersion; created: boolean }> {
+  const fields = options.fields ?? (await snapshotFormFields(subcategoryId, executor));
+  const checksum = checksumFields(fields);
+
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const latest = await getLatestFormVersion(subcategoryId, executor);
+    if (latest && latest.checksum === checksum) {
+      return { version: latest, created: false };
+    }
+
+    const [inserted] = await executor
+      .insert(subcategory_form_versions)
+      .values({
+        subcategory_id: subcategoryId,
+        version: (latest?.version ?? 0) + 1,
+        fields,
+        checksum,
+        created_by: options.createdBy ?? null,
+      })
+      .onConflictDoNothing()
+      .returning();
+    if (inserted) {
+      return { version: toFormVersion(inserted), created: true };
+    }
+    // Another request recorded this version number first; re-read and compare again
+  }
+
+  throw new Error(`Could not record a form version for subcategory ${subcategoryId}`);
+}
+
+/**
+ * All versions of a subcategory's form, newest first
+ */
+export async function listFormVersions(subcategoryId: number): Promise<FormVersion[]> {
+  const rows = await db
+    .select()
+    .from(subcategory_form_versions)
+    .where(eq(subcategory_form_versions.subcategory_id, subcategoryId))
+    .orderBy(desc(subcategory_form_versions.version));
+  return rows.map(toFormVersion);
+}
+
+/**
+ * One version of a subcategory's form by version number
+ */
+export async function getFormVersion(subcategoryId: number, version: number): Promise<FormVersion | null> {
+  const [row] = await db
+    .select()
+    .from(subcategory_form_versions)
+    .where(
+      and(
+        eq(subcategory_form_versions.subcategory_id, subcategoryId),
+        eq(subcategory_form_versions.version, version)
+      )
+    )
+    .limit(1);
+  return row ? toFormVersion(row) : null;
+}
+
+/**
+ * Form version id stored on a ticket's metadata (tickets filed before versioning have none)
+ */
+export function getTicketFormVersionId(metadata: unknown): number | null {
+  if (!metadata || typeof metadata !== "object") return null;
+  const id = (metadata as Record<string, unknown>).form_version_id;
+  return typeof id === "number" && Number.isInteger(id) ? id : null;
+}
+
+/**
+ * Field definitions for several form versions at once, keyed by version id
+ */
+export async function getFormVersionFieldsByIds(ids: number[]): Promise<Map<number, FormVersionField[]>> {
+  const uniqueIds = [...new Set(ids)];
+  if (uniqueIds.length === 0) return new Map();
+
+  const rows = await db
+    .select()
+    .from(subcategory_form_versions)
+    .where(inArray(subcategory_form_versions.id, uniqueIds));
+  return new Map(rows.map((row) => [row.id, toFormVersion(row).fields]));
+}
+
+/**
+ * Field definitions a ticket was submitted with, or undefined for tickets filed before
+ * versioning (callers then fall back to the current category schema)
+ */
+export async function getTicketFormVersionFields(metadata: unknown): Promise<FormVersionField[] | undefined> {
+  const versionId = getTicketFormVersionId(metadata);
+  if (versionId === null) return undefined;
+  return (await getFormVersionFieldsByIds([versionId])).get(versionId);
+}
@@ -0,0 +1,52 @@
+/**
+ * Category profile field configuration
+ * Client-safe: shared by the profile-fields API (validation) and the ticket form pages.
+ */
+
+import type { CategorySelect } from "@/db/inferred-types";
+
+export type CategoryProfileField = NonNullable<CategorySelect["profile_fields"]>[number];
+
+/**
+ * Profile fields a category can collect (ProfileFieldsRenderer renders each of these)
+ */
+export const PROFILE_FIELD_NAMES = [
+  "rollNo",
+  "name",
+  "email",
+  "phone",
+  "hostel",
+  "roomNumber",
+  "batchYear",
+  "classSection",
+] as const;
+
+/**
+ * Fields students can never edit on a ticket
+ */
+export const READ_ONLY_PROFILE_FIELDS: readonly string[] = ["email", "rollNo"];
+
+/**
+ * Profile field config from a request body, or undefined when it is invalid.
+ * Display order follows the list order; read-only fields are forced non-editable.
+ */
+export function parseProfileFields(value: unknown): CategoryProfileField[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+
+  const fields: CategoryProfileField[] = [];
+  for (const entry of value) {
+    if (!entry || typeof entry !== "object") return undefined;
+    const { field_name, required, editable } = entry as Record<string, unknown>;
+    if (typeof field_name !== "string" || !(PROFILE_FIELD_NAMES as readonly string[]).includes(field_name)) return undefined;
+    if (typeof required !== "boolean" || typeof editable !== "boolean") return undefined;
+    if (fields.some((field) => field.field_name === field_name)) return undefined;
+
+    fields.push({
+      field_name,
+      required,
+      editable: READ_ONLY_PROFILE_FIELDS.includes(field_name) ? false : editable,
+      display_order: fields.length,
+    });
+  }
+  return fields;
+}
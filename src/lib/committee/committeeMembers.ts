@@ -0,0 +1,462 @@
+/**
+ * Committee membership
+ *
+ * committee_members records who belongs to a committee (head / coordinator / member)
+ * and when they joined or left. Access checks, tagged-ticket lists and notifications
+ * read the active rows (left_at IS NULL). committees.head_id and contact_email mirror
+ * the current head, so screens that show "the head" keep working.
+ */
+
+import { db, committees, committee_members, outbox, roles, users } from "@/db";
+import type { CommitteeMemberSelect } from "@/db/inferred-types";
+import { and, asc, desc, eq, isNull } from "drizzle-orm";
+import { COMMITTEE_MEMBER_ROLE, type CommitteeMemberRoleValue } from "@/conf/constants";
+import { getRoleId } from "@/lib/auth/db-roles";
+import type { DbExecutor } from "@/lib/ticket/data/ticketComments";
+
+export const COMMITTEE_MEMBER_ROLES = Object.values(COMMITTEE_MEMBER_ROLE);
+
+// Outbox event: emails the tagged committee's current members
+export const COMMITTEE_TAGGED_EVENT = "ticket.committee.tagged";
+
+export function isCommitteeMemberRole(value: unknown): value is CommitteeMemberRoleValue {
+  return typeof value === "string" && (COMMITTEE_MEMBER_ROLES as string[]).includes(value);
+}
+
+export type CommitteeMembershipResult =
+  | { ok: true; member: CommitteeMemberSelect; before?: CommitteeMemberSelect }
+  | { ok: false; status: 400 | 404 | 409; error: string };
+
+/* -------------------------------------------------------------------------- */
+/* Reads                                                                      */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Subquery of the committees a user currently belongs to (for inArray conditions)
+ */
+export function activeCommitteeIdsQuery(userId: string) {
+  return db
+    .select({ id: committee_members.committee_id })
+    .from(committee_members)
+    .where(and(eq(committee_members.user_id, userId), isNull(committee_members.left_at)));
+}
+
+/**
+ * IDs of the committees a user currently belongs to
+ */
+export async function getUserCommitteeIds(userId: string): Promise<number[]> {
+  const rows = await activeCommitteeIdsQuery(userId);
+  return rows.map((row) => row.id);
+}
+
+export type CommitteeMemberWithUser = {
+  id: number;
+  committee_id: number;
+  user_id: string;
+  role: string;
+  joined_at: Date;
+  left_at: Date | null;
+  added_by: string | null;
+  created_at: Date | null;
+  updated_at: Date | null;
+  full_name: string | null;
+  email: string | null;
+  external_id: string;
+};
+
+/**
+ * Members of a committee, head first. Former members are included on request (newest first).
+ */
+export async function listCommitteeMembers(
+  committeeId: number,
+  options: { includeFormer?: boolean } = {}
+): Promise<CommitteeMemberWithUser[]> {
+  const rows = await db
+    .select({
+      id: committee_members.id,
+      committee_id: committee_members.committee_id,
+      user_id: committee_members.user_id,
+      role: committee_members.role,
+      joined_at: committee_members.joined_at,
+      left_at: committee_members.left_at,
+      added_by: committee_members.added_by,
+      created_at: committee_members.created_at,
+      updated_at: committee_members.updated_at,
+      full_name: users.full_name,
+      email: users.email,
+      external_id: users.external_id,
+    })
+    .from(committee_members)
+    .innerJoin(users, eq(committee_members.user_id, users.id))
+    .where(
+      options.includeFormer
+        ? eq(committee_members.committee_id, committeeId)
+        : and(eq(committee_members.committee_id, committeeId), isNull(committee_members.left_at))
+    )
+    .orderBy(asc(committee_members.joined_at));
+
+  const roleOrder: string[] = [COMMITTEE_MEMBER_ROLE.HEAD, COMMITTEE_MEMBER_ROLE.COORDINATOR, COMMITTEE_MEMBER_ROLE.MEMBER];
+  const rank = (row: CommitteeMemberWithUser) => (row.left_at ? roleOrder.length : roleOrder.indexOf(row.role));
+  return rows.sort((a, b) => {
+    if (a.left_at && b.left_at) return b.left_at.getTime() - a.left_at.getTime();
+    return rank(a) - rank(b);
+  });
+}
+
+/**
+ * API / CommitteesManagement shape of a member (user name split like Clerk's user object)
+ */
+export function serializeCommitteeMember(member: CommitteeMemberWithUser) {
+  const [firstName, ...restNameParts] = (member.full_name || "").split(" ").filter(Boolean);
+  return {
+    id: member.id,
+    committee_id: member.committee_id,
+    user_id: member.user_id,
+    clerk_user_id: member.external_id || "",
+    role: member.role,
+    joined_at: member.joined_at,
+    left_at: member.left_at,
+    created_at: member.created_at,
+    updated_at: member.updated_at,
+    user: {
+      firstName: firstName || null,
+      lastName: restNameParts.length > 0 ? restNameParts.join(" ") : null,
+      emailAddresses: member.email ? [{ emailAddress: member.email }] : [],
+    },
+  };
+}
+
+/**
+ * Who committee-bound work (forwarded tickets) goes to: the head,
+ * or the longest-serving coordinator while the committee has no head
+ */
+export async function getCommitteeLead(committeeId: number): Promise<CommitteeMemberWithUser | null> {
+  const members = await listCommitteeMembers(committeeId);
+  return (
+    members.find((member) => member.role === COMMITTEE_MEMBER_ROLE.HEAD) ??
+    members.find((member) => member.role === COMMITTEE_MEMBER_ROLE.COORDINATOR) ??
+    null
+  );
+}
+
+/**
+ * Queue the "tagged to your committee" notification for a new committee tag
+ */
+export async function queueCommitteeTaggedNotification(
+  input: { ticketId: number; committeeId: number; taggedBy: string | null; reason: string | null },
+  executor: DbExecutor = db
+): Promise<void> {
+  await executor.insert(outbox).values({
+    event_type: COMMITTEE_TAGGED_EVENT,
+    payload: {
+      ticket_id: input.ticketId,
+      committee_id: input.committeeId,
+      tagged_by: input.taggedBy,
+      reason: input.reason,
+    },
+  });
+}
+
+/* -------------------------------------------------------------------------- */
+/* Bookkeeping                                                                */
+/* -------------------------------------------------------------------------- */
+
+async function findActiveMembership(executor: DbExecutor, committeeId: number, userId: string) {
+  const [row] = await executor
+    .select()
+    .from(committee_members)
+    .where(
+      and(
+        eq(committee_members.committee_id, committeeId),
+        eq(committee_members.user_id, userId),
+        isNull(committee_members.left_at)
+      )
+    )
+    .limit(1);
+  return row ?? null;
+}
+
+async function findActiveMember(executor: DbExecutor, committeeId: number, memberId: number) {
+  const [row] = await executor
+    .select()
+    .from(committee_members)
+    .where(
+      and(
+        eq(committee_members.id, memberId),
+        eq(committee_members.committee_id, committeeId),
+        isNull(committee_members.left_at)
+      )
+    )
+    .limit(1);
+  return row ?? null;
+}
+
+/**
+ * A committee has at most one head: the current one becomes a regular member
+ */
+async function demoteCurrentHead(executor: DbExecutor, committeeId: number, exceptMemberId?: number) {
+  const heads = await executor
+    .select({ id: committee_members.id })
+    .from(committee_members)
+    .where(
+      and(
+        eq(committee_members.committee_id, committeeId),
+        eq(committee_members.role, COMMITTEE_MEMBER_ROLE.HEAD),
+        isNull(committee_members.left_at)
+      )
+    );
+  for (const head of heads) {
+    if (head.id === exceptMemberId) continue;
+    await executor
+      .update(committee_members)
+      .set({ role: COMMITTEE_MEMBER_ROLE.MEMBER, updated_at: new Date() })
+      .where(eq(committee_members.id, head.id));
+  }
+}
+
+/**
+ * Mirror the active head onto committees.head_id / contact_email
+ */
+async function syncCommitteeHead(executor: DbExecutor, committeeId: number) {
+  const [head] = await executor
+    .select({ user_id: committee_members.user_id, email: users.email })
+    .from(committee_members)
+    .innerJoin(users, eq(committee_members.user_id, users.id))
+    .where(
+      and(
+        eq(committee_members.committee_id, committeeId),
+        eq(committee_members.role, COMMITTEE_MEMBER_ROLE.HEAD),
+        isNull(committee_members.left_at)
+      )
+    )
+    .orderBy(desc(committee_members.joined_at))
+    .limit(1);
+
+  await executor
+    .update(committees)
+    .set({
+      head_id: head?.user_id ?? null,
+      contact_email: head?.email?.toLowerCase() ?? null,
+      updated_at: new Date(),
+    })
+    .where(eq(committees.id, committeeId));
+}
+
+/**
+ * Students who join a committee get the committee role, and lose it again when they
+ * leave their last committee. Admin roles are never touched.
+ */
+async function syncCommitteeUserRole(executor: DbExecutor, userId: string) {
+  const [user] = await executor
+    .select({ role: roles.name })
+    .from(users)
+    .leftJoin(roles, eq(users.role_id, roles.id))
+    .where(eq(users.id, userId))
+    .limit(1);
+  if (!user) return;
+
+  const [membership] = await executor
+    .select({ id: committee_members.id })
+    .from(committee_members)
+    .where(and(eq(committee_members.user_id, userId), isNull(committee_members.left_at)))
+    .limit(1);
+
+  let nextRole: "committee" | "student" | null = null;
+  if (membership && (!user.role || user.role === "student")) nextRole = "committee";
+  if (!membership && user.role === "committee") nextRole = "student";
+  if (!nextRole) return;
+
+  const roleId = await getRoleId(nextRole);
+  if (!roleId) {
+    console.warn(`[committeeMembers] Role "${nextRole}" not found; user ${userId} keeps role "${user.role}"`);
+    return;
+  }
+  await executor.update(users).set({ role_id: roleId, updated_at: new Date() }).where(eq(users.id, userId));
+}
+
+/* -------------------------------------------------------------------------- */
+/* Changes                                                                    */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Add a user to a committee. Adding a head demotes the current head to member.
+ */
+export async function addCommitteeMember(
+  input: { committeeId: number; userId: string; role: CommitteeMemberRoleValue; addedBy?: string | null },
+  executor: DbExecutor = db
+): Promise<CommitteeMembershipResult> {
+  return executor.transaction(async (tx) => {
+    const [committee] = await tx
+      .select({ id: committees.id })
+      .from(committees)
+      .where(eq(committees.id, input.committeeId))
+      .limit(1);
+    if (!committee) {
+      return { ok: false, status: 404, error: "Committee not found" };
+    }
+
+    if (await findActiveMembership(tx, input.committeeId, input.userId)) {
+      return { ok: false, status: 409, error: "User is already a member of this committee" };
+    }
+
+    if (input.role === COMMITTEE_MEMBER_ROLE.HEAD) {
+      await demoteCurrentHead(tx, input.committeeId);
+    }
+
+    const [member] = await tx
+      .insert(committee_members)
+      .values({
+        committee_id: input.committeeId,
+        user_id: input.userId,
+        role: input.role,
+        added_by: input.addedBy ?? null,
+      })
+      .returning();
+
+    if (input.role === COMMITTEE_MEMBER_ROLE.HEAD) {
+      await syncCommitteeHead(tx, input.committeeId);
+    }
+    await syncCommitteeUserRole(tx, input.userId);
+
+    return { ok: true, member: member! };
+  });
+}
+
+/**
+ * Change an active member's role. Promoting to head demotes the current head to member.
+ */
+export async function updateCommitteeMemberRole(
+  input: { committeeId: number; memberId: number; role: CommitteeMemberRoleValue },
+  executor: DbExecutor = db
+): Promise<CommitteeMembershipResult> {
+  return executor.transaction(async (tx) => {
+    const before = await findActiveMember(tx, input.committeeId, input.memberId);
+    if (!before) {
+      return { ok: false, status: 404, error: "Committee member not found" };
+    }
+    if (before.role === input.role) {
+      return { ok: true, member: before, before };
+    }
+
+    if (input.role === COMMITTEE_MEMBER_ROLE.HEAD) {
+      await demoteCurrentHead(tx, input.committeeId, before.id);
+    }
+
+    const [member] = await tx
+      .update(committee_members)
+      .set({ role: input.role, updated_at: new Date() })
+      .where(eq(committee_members.id, before.id))
+      .returning();
+
+    if (input.role === COMMITTEE_MEMBER_ROLE.HEAD || before.role === COMMITTEE_MEMBER_ROLE.HEAD) {
+      await syncCommitteeHead(tx, input.committeeId);
+    }
+
+    return { ok: true, member: member!, before };
+  });
+}
+
+/**
+ * A member leaves the committee (the row is kept with left_at for history)
+ */
+export async function removeCommitteeMember(
+  input: { committeeId: number; memberId: number },
+  executor: DbExecutor = db
+): Promise<CommitteeMembershipResult> {
+  return executor.transaction(async (tx) => {
+    const before = await findActiveMember(tx, input.committeeId, input.memberId);
+    if (!before) {
+      return { ok: false, status: 404, error: "Committee member not found" };
+    }
+
+    const now = new Date();
+    const [member] = await tx
+      .update(committee_members)
+      .set({ left_at: now, updated_at: now })
+      .where(eq(committee_members.id, before.id))
+      .returning();
+
+    if (before.role === COMMITTEE_MEMBER_ROLE.HEAD) {
+      await syncCommitteeHead(tx, input.committeeId);
+    }
+    await syncCommitteeUserRole(tx, before.user_id);
+
+    return { ok: true, member: member!, before };
+  });
+}
+
+/**
+ * Replace the head through the committee's contact email: the previous head leaves,
+ * the new one joins as head (or is promoted if already a member). null removes the head.
+ */
+export async function setCommitteeHead(
+  input: { committeeId: number; userId: string | null; addedBy?: string | null },
+  executor: DbExecutor = db
+): Promise<void> {
+  await executor.transaction(async (tx) => {
+    const currentHeads = await tx
+      .select()
+      .from(committee_members)
+      .where(
+        and(
+          eq(committee_members.committee_id, input.committeeId),
+          eq(committee_members.role, COMMITTEE_MEMBER_ROLE.HEAD),
+          isNull(committee_members.left_at)
+        )
+      );
+
+    const now = new Date();
+    for (const head of currentHeads) {
+      if (head.user_id === input.userId) continue;
+      await tx
+        .update(committee_members)
+        .set({ left_at: now, updated_at: now })
+        .where(eq(committee_members.id, head.id));
+    }
+
+    if (input.userId) {
+      const existing = await findActiveMembership(tx, input.committeeId, input.userId);
+      if (existing) {
+        if (existing.role !== COMMITTEE_MEMBER_ROLE.HEAD) {
+          await tx
+            .update(committee_members)
+            .set({ role: COMMITTEE_MEMBER_ROLE.HEAD, updated_at: now })
+            .where(eq(committee_members.id, existing.id));
+        }
+      } else {
+        await tx.insert(committee_members).values({
+          committee_id: input.committeeId,
+          user_id: input.userId,
+          role: COMMITTEE_MEMBER_ROLE.HEAD,
+          added_by: input.addedBy ?? null,
+        });
+      }
+    }
+
+    await syncCommitteeHead(tx, input.committeeId);
+    const affectedUserIds = new Set(currentHeads.map((head) => head.user_id));
+    if (input.userId) affectedUserIds.add(input.userId);
+    for (const userId of affectedUserIds) {
+      await syncCommitteeUserRole(tx, userId);
+    }
+  });
+}
+
+/**
+ * End every active membership of a committee (before it is deleted),
+ * so members without another committee go back to the student role
+ */
+export async function endCommitteeMemberships(committeeId: number, executor: DbExecutor = db): Promise<void> {
+  await executor.transaction(async (tx) => {
+    const now = new Date();
+    const ended = await tx
+      .update(committee_members)
+      .set({ left_at: now, updated_at: now })
+      .where(and(eq(committee_members.committee_id, committeeId), isNull(committee_members.left_at)))
+      .returning({ user_id: committee_members.user_id });
+
+    for (const userId of new Set(ended.map((row) => row.user_id))) {
+      await syncCommitteeUserRole(tx, userId);
+    }
+  });
+}
@@ -4,28 +4,30 @@
  * Used by superadmin to view tickets for any committee
  */
 
-import { db, committees, tickets, categories, ticket_statuses, ticket_committee_tags, ticket_groups, users } from "@/db";
-import { desc, eq, inArray } from "drizzle-orm";
+import { db, committees, committee_members, tickets, categories, ticket_statuses, ticket_committee_tags, ticket_groups, users } from "@/db";
+import { and, desc, eq, inArray, isNull } from "drizzle-orm";
 import { mapTicketRecord } from "@/lib/ticket/data/mapTicketRecord";
 
 export async function getCommitteeTicketsById(committeeId: number) {
-  // Get committee with head_id
   const [committee] = await db
-    .select({
-      id: committees.id,
-      head_id: committees.head_id,
-    })
+    .select({ id: committees.id })
     .from(committees)
     .where(eq(committees.id, committeeId))
     .limit(1);
 
-  if (!committee || !committee.head_id) {
+  if (!committee) {
     return [];
   }
 
+  // Current members of the committee
+  const memberIds = db
+    .select({ id: committee_members.user_id })
+    .from(committee_members)
+    .where(and(eq(committee_members.committee_id, committeeId), isNull(committee_members.left_at)));
+
   // Fetch both created and tagged tickets in parallel
   const [createdTicketRows, taggedTicketIds] = await Promise.all([
-    // Get tickets created by committee head with "Committee" category
+    // Get tickets created by committee members with "Committee" category
     db
       .select({
         id: tickets.id,
@@ -50,7 +52,7 @@ export async function getCommitteeTicketsById(committeeId: number) {
       .from(tickets)
       .leftJoin(ticket_statuses, eq(tickets.status_id, ticket_statuses.id))
       .leftJoin(categories, eq(tickets.category_id, categories.id))
-      .where(eq(tickets.created_by, committee.head_id))
+      .where(inArray(tickets.created_by, memberIds))
       .orderBy(desc(tickets.created_at)),
     
     // Get tickets tagged to this committee
@@ -2,18 +2,14 @@
  * Get tickets tagged to committees (via committee tags + groups)
  */
 
-import { db, tickets, ticket_committee_tags, committees, categories, ticket_statuses, ticket_groups } from "@/db";
+import { db, tickets, ticket_committee_tags, categories, ticket_statuses, ticket_groups } from "@/db";
 import { desc, eq, inArray } from "drizzle-orm";
 import { mapTicketRecord } from "@/lib/ticket/data/mapTicketRecord";
+import { getUserCommitteeIds } from "./committeeMembers";
 
 export async function getTaggedTickets(userId: string) {
-  // Get committee IDs this user is the head of (using head_id)
-  const committeeRecords = await db
-    .select({ id: committees.id })
-    .from(committees)
-    .where(eq(committees.head_id, userId));
-
-  const committeeIds = committeeRecords.map(c => c.id);
+  // Committees this user is currently a member of
+  const committeeIds = await getUserCommitteeIds(userId);
 
   if (committeeIds.length === 0) {
     return [];
@@ -3,7 +3,7 @@
  * Optimized queries for common operations
  */
 
-import { db, users, roles, admin_assignments, tickets, committees, categories, domains, scopes, admin_profiles, ticket_statuses } from "@/db";
+import { db, users, roles, admin_assignments, tickets, categories, domains, scopes, admin_profiles, ticket_statuses } from "@/db";
 import { eq, and, isNotNull, lt, sql } from "drizzle-orm";
 import type { UserRole } from "@/types/auth";
 import { unstable_cache } from "next/cache";
@@ -183,54 +183,29 @@ export async function userHasScope(
 }
 
 /**
- * Get active committee member for a committee
- * Returns the single member (head) of the committee
- * Simplified: committees now have a single head_id instead of multiple members
+ * Get active committee members for a committee (notification recipients)
+ * Current members from committee_members, head first
  */
 export async function getActiveCommitteeMembers(committeeId: number): Promise<Array<{
   userId: string;
   clerkId: string;
   name: string | null;
   email: string | null;
-  role: string | null; // Always "head" for single member
+  role: string | null; // head | coordinator | member
 }>> {
   try {
-    const [committee] = await db
-      .select({
-        head_id: committees.head_id,
-      })
-      .from(committees)
-      .where(eq(committees.id, committeeId))
-      .limit(1);
-
-    if (!committee || !committee.head_id) {
-      return [];
-    }
-
-    const [member] = await db
-      .select({
-        userId: users.id,
-        clerkId: users.external_id,
-        name: users.full_name,
-        email: users.email,
-      })
-      .from(users)
-      .where(eq(users.id, committee.head_id))
-      .limit(1);
-
-    if (!member) {
-      return [];
-    }
+    const { listCommitteeMembers } = await import("@/lib/committee/committeeMembers");
+    const members = await listCommitteeMembers(committeeId);
 
-    return [{
-      userId: member.userId,
-      clerkId: member.clerkId,
-      name: member.name,
+    return members.map((member) => ({
+      userId: member.user_id,
+      clerkId: member.external_id,
+      name: member.full_name,
       email: member.email,
-      role: "head", // Single member is always the head
-    }];
+      role: member.role,
+    }));
   } catch (error) {
-    console.error("[DB Helpers] Error getting active committee member:", error);
+    console.error("[DB Helpers] Error getting active committee members:", error);
     return [];
   }
 }
@@ -1,10 +1,12 @@
 /**
  * Escalation Utility
  * Handles category/location-specific escalation rules
+ * Targets who are out of office are replaced by whoever covers for them (see lib/assignment/coverage)
  */
 
 import { db, escalation_rules, users, domains, scopes } from "@/db";
 import { eq, and, or, isNull } from "drizzle-orm";
+import { resolveAdminCoverage } from "@/lib/assignment/coverage";
 
 export interface EscalationTarget {
   clerkUserId: string;
@@ -13,6 +15,8 @@ export interface EscalationTarget {
   email: string | null;
   level: number;
   tat_hours: number | null; // TAT from escalation rule
+  /** Set when the rule's admin is away and this target covers for them */
+  coveringFor?: { userId: string; fullName: string };
 }
 
 /**
@@ -116,6 +120,21 @@ export async function getEscalationTargets(
 
         // Edge case: Skip if user doesn't exist, is deleted, or doesn't have admin role
         if (user && user.external_id && (user.role_name === "admin" || user.role_name === "super_admin")) {
+          // Away admins hand over to their cover; keep them if nobody can cover
+          const coverage = await resolveAdminCoverage(user.id, { domain: categoryName, scope: scopeId ? locationName : null });
+          if (coverage?.cover) {
+            targets.push({
+              clerkUserId: coverage.cover.clerkUserId,
+              userId: coverage.cover.userId,
+              fullName: coverage.cover.name || "",
+              email: coverage.cover.email,
+              level: rule.level || 0,
+              tat_hours: rule.tat_hours || null,
+              coveringFor: { userId: user.id, fullName: user.full_name || "" },
+            });
+            continue;
+          }
+
           targets.push({
             clerkUserId: user.external_id,
             userId: user.id,
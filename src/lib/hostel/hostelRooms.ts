@@ -0,0 +1,137 @@
+/**
+ * Hostel floors and rooms
+ *
+ * hostel_rooms is the master data behind the "location" field type
+ * (hostel → floor → room). Ticket values keep the names next to the ids, so
+ * deleting a room later does not change what old tickets show.
+ */
+
+import { db, hostels, hostel_rooms } from "@/db";
+import type { HostelRoomSelect } from "@/db/inferred-types";
+import { and, asc, eq, inArray } from "drizzle-orm";
+import type { TicketLocationValue } from "@/schemas/business/ticketForm";
+
+export type HostelFloor = {
+  floor: string;
+  rooms: Array<{ id: number; room_no: string; is_active: boolean }>;
+};
+
+export type HostelRoomsResult =
+  | { ok: true; rooms: HostelRoomSelect[]; skipped: string[] }
+  | { ok: false; status: 400 | 404; error: string };
+
+/**
+ * Rooms of a hostel grouped by floor (floors and rooms in natural order)
+ */
+export async function listHostelFloors(hostelId: number, options: { activeOnly?: boolean } = {}): Promise<HostelFloor[]> {
+  const rows = await db
+    .select({
+      id: hostel_rooms.id,
+      floor: hostel_rooms.floor,
+      room_no: hostel_rooms.room_no,
+      is_active: hostel_rooms.is_active,
+    })
+    .from(hostel_rooms)
+    .where(
+      options.activeOnly
+        ? and(eq(hostel_rooms.hostel_id, hostelId), eq(hostel_rooms.is_active, true))
+        : eq(hostel_rooms.hostel_id, hostelId)
+    )
+    .orderBy(asc(hostel_rooms.floor), asc(hostel_rooms.room_no));
+
+  const naturalOrder = new Intl.Collator(undefined, { numeric: true });
+  const floors = new Map<string, HostelFloor>();
+  for (const row of rows) {
+    const floor = floors.get(row.floor) ?? { floor: row.floor, rooms: [] };
+    floor.rooms.push({ id: row.id, room_no: row.room_no, is_active: row.is_active !== false });
+    floors.set(row.floor, floor);
+  }
+  return Array.from(floors.values())
+    .sort((a, b) => naturalOrder.compare(a.floor, b.floor))
+    .map((floor) => ({ ...floor, rooms: floor.rooms.sort((a, b) => naturalOrder.compare(a.room_no, b.room_no)) }));
+}
+
+/**
+ * Add rooms to a floor of a hostel; room numbers the hostel already has are skipped
+ */
+export async function addHostelRooms(hostelId: number, floor: string, roomNumbers: string[]): Promise<HostelRoomsResult> {
+  const floorName = floor.trim();
+  const wanted = Array.from(new Set(roomNumbers.map((room) => room.trim()).filter(Boolean)));
+  if (!floorName || wanted.length === 0) {
+    return { ok: false, status: 400, error: "Floor and at least one room number are required" };
+  }
+  if (floorName.length > 32 || wanted.some((room) => room.length > 16)) {
+    return { ok: false, status: 400, error: "Floor names are limited to 32 characters and room numbers to 16" };
+  }
+
+  const [hostel] = await db.select({ id: hostels.id }).from(hostels).where(eq(hostels.id, hostelId)).limit(1);
+  if (!hostel) {
+    return { ok: false, status: 404, error: "Hostel not found" };
+  }
+
+  const existing = await db
+    .select({ room_no: hostel_rooms.room_no })
+    .from(hostel_rooms)
+    .where(and(eq(hostel_rooms.hostel_id, hostelId), inArray(hostel_rooms.room_no, wanted)));
+  const skipped = existing.map((row) => row.room_no);
+  const toInsert = wanted.filter((room) => !skipped.includes(room));
+
+  const rooms = toInsert.length
+    ? await db
+        .insert(hostel_rooms)
+        .values(toInsert.map((room_no) => ({ hostel_id: hostelId, floor: floorName, room_no })))
+        .onConflictDoNothing()
+        .returning()
+    : [];
+
+  return { ok: true, rooms, skipped };
+}
+
+/**
+ * Check a location value against the master data and refresh its names.
+ * Returns null when the hostel, floor or room does not exist (or is inactive).
+ */
+export async function resolveTicketLocation(value: TicketLocationValue): Promise<TicketLocationValue | null> {
+  const [hostel] = await db
+    .select({ id: hostels.id, name: hostels.name })
+    .from(hostels)
+    .where(and(eq(hostels.id, value.hostel_id), eq(hostels.is_active, true)))
+    .limit(1);
+  if (!hostel) return null;
+
+  const resolved: TicketLocationValue = { hostel_id: hostel.id, hostel: hostel.name };
+
+  if (value.room_id) {
+    const [room] = await db
+      .select({ id: hostel_rooms.id, floor: hostel_rooms.floor, room_no: hostel_rooms.room_no })
+      .from(hostel_rooms)
+      .where(
+        and(
+          eq(hostel_rooms.id, value.room_id),
+          eq(hostel_rooms.hostel_id, hostel.id),
+          eq(hostel_rooms.is_active, true)
+        )
+      )
+      .limit(1);
+    if (!room || (value.floor && value.floor !== room.floor)) return null;
+    return { ...resolved, floor: room.floor, room_id: room.id, room: room.room_no };
+  }
+
+  if (value.floor) {
+    const [floor] = await db
+      .select({ floor: hostel_rooms.floor })
+      .from(hostel_rooms)
+      .where(
+        and(
+          eq(hostel_rooms.hostel_id, hostel.id),
+          eq(hostel_rooms.floor, value.floor),
+          eq(hostel_rooms.is_active, true)
+        )
+      )
+      .limit(1);
+    if (!floor) return null;
+    resolved.floor = floor.floor;
+  }
+
+  return resolved;
+}
@@ -367,6 +367,44 @@ export function getStatusUpdateEmail(ticketId: number, status: string, category:
 	};
 }
 
+export function getFollowedTicketStatusEmail(ticketId: number, statusLabel: string, category: string) {
+	return {
+		subject: `📝 Ticket #${ticketId} you follow is now ${statusLabel}`,
+		html: `
+			<!DOCTYPE html>
+			<html>
+			<head>
+				<style>
+					body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+					.container { max-width: 600px; margin: 0 auto; padding: 20px; }
+					.header { background-color: #4F46E5; color: white; padding: 20px; text-align: center; border-radius: 5px 5px 0 0; }
+					.content { background-color: #f9fafb; padding: 20px; border: 1px solid #e5e7eb; }
+					.footer { text-align: center; padding: 20px; color: #6b7280; font-size: 12px; }
+				</style>
+			</head>
+			<body>
+				<div class="container">
+					<div class="header">
+						<h1>📝 A ticket you follow was updated</h1>
+					</div>
+					<div class="content">
+						<p>You followed this ticket instead of reporting the same issue again:</p>
+						<p>
+							<strong>Ticket ID:</strong> #${ticketId}<br>
+							<strong>Category:</strong> ${escapeHtml(category)}<br>
+							<strong>New Status:</strong> ${escapeHtml(statusLabel)}
+						</p>
+					</div>
+					<div class="footer">
+						<p>This is an automated email from SST Resolve</p>
+					</div>
+				</div>
+			</body>
+			</html>
+		`,
+	};
+}
+
 export function getCommentAddedEmail(ticketId: number, comment: string, author: string, category: string) {
 	return {
 		subject: `Re: 💬 New Comment on Ticket #${ticketId}`,
@@ -459,6 +497,46 @@ export function getTATSetEmail(ticketId: number, tat: string, tatDate: string, c
 	};
 }
 
+export function getCommitteeTaggedEmail(ticketId: number, committeeName: string, category: string, reason: string | null) {
+	return {
+		subject: `🏷️ Ticket #${ticketId} tagged to ${committeeName}`,
+		html: `
+			<!DOCTYPE html>
+			<html>
+			<head>
+				<style>
+					body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+					.container { max-width: 600px; margin: 0 auto; padding: 20px; }
+					.header { background-color: #6366f1; color: white; padding: 20px; text-align: center; border-radius: 5px 5px 0 0; }
+					.content { background-color: #f9fafb; padding: 20px; border: 1px solid #e5e7eb; }
+					.tag-box { background-color: #eef2ff; padding: 15px; margin: 15px 0; border-radius: 5px; border-left: 4px solid #6366f1; }
+					.footer { text-align: center; padding: 20px; color: #6b7280; font-size: 12px; }
+				</style>
+			</head>
+			<body>
+				<div class="container">
+					<div class="header">
+						<h1>🏷️ Ticket Tagged to Your Committee</h1>
+					</div>
+					<div class="content">
+						<p>A ticket has been tagged to <strong>${escapeHtml(committeeName)}</strong>, which you are a member of.</p>
+						<div class="tag-box">
+							<p><strong>Ticket ID:</strong> #${ticketId}</p>
+							<p><strong>Category:</strong> ${escapeHtml(category)}</p>
+							${reason ? `<p><strong>Reason:</strong> ${escapeHtml(reason)}</p>` : ""}
+							<p>You can find it under Tagged tickets on your committee dashboard.</p>
+						</div>
+					</div>
+					<div class="footer">
+						<p>This is an automated email from SST Resolve</p>
+					</div>
+				</div>
+			</body>
+			</html>
+		`,
+	};
+}
+
 export function getTATReminderEmail(ticketId: number, tat: string, category: string) {
 	return {
 		subject: `Re: ⏰ TAT Reminder - Ticket #${ticketId}`,
@@ -499,8 +577,19 @@ export function getTATReminderEmail(ticketId: number, tat: string, category: str
 	};
 }
 
-export function getEscalationEmail(ticketId: number, category: string, escalationCount: number) {
+export function getEscalationEmail(
+	ticketId: number,
+	category: string,
+	escalationCount: number,
+	audience: "student" | "admin" = "student"
+) {
 	const isUrgent = escalationCount >= 2;
+	const intro = audience === "admin"
+		? "A ticket has been escalated to you and needs your attention."
+		: "Your ticket has been escalated to ensure prompt attention.";
+	const closing = audience === "admin"
+		? "Please review the ticket and respond to the student as soon as possible."
+		: "We will prioritize your ticket and update you shortly.";
 	return {
 		subject: `Re: 🚨 Ticket #${ticketId} Escalated${isUrgent ? " (URGENT)" : ""}`,
 		html: `
@@ -522,13 +611,13 @@ export function getEscalationEmail(ticketId: number, category: string, escalatio
 						<h1>🚨 Ticket Escalated${isUrgent ? " (URGENT)" : ""}</h1>
 					</div>
 					<div class="content">
-						<p>Your ticket has been escalated to ensure prompt attention.</p>
+						<p>${intro}</p>
 						<div class="escalation-box">
 							<p><strong>Ticket ID:</strong> #${ticketId}</p>
 							<p><strong>Category:</strong> ${escapeHtml(category)}</p>
 							<p><strong>Escalation Count:</strong> ${escalationCount}</p>
 							${isUrgent ? "<p><strong>Priority:</strong> URGENT - This ticket has been escalated multiple times and requires immediate attention.</p>" : ""}
-							<p>We will prioritize your ticket and update you shortly.</p>
+							<p>${closing}</p>
 						</div>
 					</div>
 					<div class="footer">
@@ -0,0 +1,334 @@
+/**
+ * Inbound email parsing
+ *
+ * Turns a student's reply to a ticket email into something we can store as a comment:
+ * - parseRawEmail(): minimal RFC 5322 / MIME parser (headers, multipart, base64, quoted-printable, RFC 2047 words)
+ * - parseInboundJson(): normalises the JSON shape posted by relays that parse mail themselves
+ * - extractReplyText(): drops quoted history and signatures so only the new text remains
+ */
+
+export interface InboundEmail {
+	messageId: string | null;
+	inReplyTo: string[];
+	references: string[];
+	fromEmail: string | null;
+	fromName: string | null;
+	subject: string;
+	text: string;
+}
+
+type HeaderMap = Map<string, string[]>;
+
+interface MimePart {
+	headers: HeaderMap;
+	body: string;
+}
+
+/* -------------------------------------------------------------------------- */
+/* Header helpers                                                              */
+/* -------------------------------------------------------------------------- */
+
+function splitHeadersAndBody(raw: string): { headerBlock: string; body: string } {
+	const normalized = raw.replace(/\r\n/g, "\n");
+	const separator = normalized.indexOf("\n\n");
+	if (separator === -1) {
+		return { headerBlock: normalized, body: "" };
+	}
+	return {
+		headerBlock: normalized.slice(0, separator),
+		body: normalized.slice(separator + 2),
+	};
+}
+
+function parseHeaders(headerBlock: string): HeaderMap {
+	const headers: HeaderMap = new Map();
+	// Unfold continuation lines (RFC 5322 §2.2.3)
+	const unfolded = headerBlock.replace(/\n[ \t]+/g, " ");
+	for (const line of unfolded.split("\n")) {
+		const colon = line.indexOf(":");
+		if (colon <= 0) continue;
+		const name = line.slice(0, colon).trim().toLowerCase();
+		const value = line.slice(colon + 1).trim();
+		const existing = headers.get(name);
+		if (existing) {
+			existing.push(value);
+		} else {
+			headers.set(name, [value]);
+		}
+	}
+	return headers;
+}
+
+function getHeader(headers: HeaderMap, name: string): string | null {
+	return headers.get(name)?.[0] ?? null;
+}
+
+/**
+ * Split a structured header like `text/plain; charset="utf-8"` into value + params
+ */
+function parseHeaderParams(value: string | null): { value: string; params: Record<string, string> } {
+	if (!value) return { value: "", params: {} };
+	const [first, ...rest] = value.split(";");
+	const params: Record<string, string> = {};
+	for (const part of rest) {
+		const eq = part.indexOf("=");
+		if (eq === -1) continue;
+		const key = part.slice(0, eq).trim().toLowerCase();
+		const paramValue = part.slice(eq + 1).trim().replace(/^"(.*)"$/, "$1");
+		params[key] = paramValue;
+	}
+	return { value: (first || "").trim().toLowerCase(), params };
+}
+
+/* -------------------------------------------------------------------------- */
+/* Decoding                                                                    */
+/* -------------------------------------------------------------------------- */
+
+function decodeBytes(bytes: Uint8Array, charset: string | undefined): string {
+	try {
+		return new TextDecoder(charset || "utf-8").decode(bytes);
+	} catch {
+		// Unknown charset label - fall back to UTF-8 rather than dropping the reply
+		return new TextDecoder("utf-8").decode(bytes);
+	}
+}
+
+function binaryStringToBytes(value: string): Uint8Array {
+	const bytes = new Uint8Array(value.length);
+	for (let i = 0; i < value.length; i++) {
+		bytes[i] = value.charCodeAt(i) & 0xff;
+	}
+	return bytes;
+}
+
+function decodeQuotedPrintable(value: string): string {
+	// Soft line breaks first, then =XX escapes; result is a binary string
+	return value
+		.replace(/=\n/g, "")
+		.replace(/=([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+function decodeTransferEncoding(body: string, encoding: string | null, charset: string | undefined): string {
+	const normalizedEncoding = (encoding || "7bit").trim().toLowerCase();
+	if (normalizedEncoding === "base64") {
+		return decodeBytes(Buffer.from(body.replace(/\s+/g, ""), "base64"), charset);
+	}
+	if (normalizedEncoding === "quoted-printable") {
+		return decodeBytes(binaryStringToBytes(decodeQuotedPrintable(body)), charset);
+	}
+	return body;
+}
+
+/**
+ * Decode RFC 2047 encoded-words (=?utf-8?B?...?= / =?utf-8?Q?...?=) in header values
+ */
+export function decodeMimeWords(value: string): string {
+	return value
+		// Whitespace between adjacent encoded-words is not significant
+		.replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?)/g, "$1")
+		.replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_, charset: string, type: string, text: string) => {
+			if (type.toUpperCase() === "B") {
+				return decodeBytes(Buffer.from(text, "base64"), charset);
+			}
+			const qp = decodeQuotedPrintable(text.replace(/_/g, " "));
+			return decodeBytes(binaryStringToBytes(qp), charset);
+		});
+}
+
+function htmlToText(html: string): string {
+	return html
+		.replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, "")
+		// Gmail / Outlook wrap the quoted history in a blockquote
+		.replace(/<blockquote[\s\S]*?<\/blockquote>/gi, "")
+		.replace(/<br\s*\/?>/gi, "\n")
+		.replace(/<\/(p|div|li|tr)>/gi, "\n")
+		.replace(/<[^>]+>/g, "")
+		.replace(/&nbsp;/gi, " ")
+		.replace(/&lt;/gi, "<")
+		.replace(/&gt;/gi, ">")
+		.replace(/&quot;/gi, '"')
+		.replace(/&#39;/gi, "'")
+		.replace(/&amp;/gi, "&");
+}
+
+/* -------------------------------------------------------------------------- */
+/* MIME structure                                                              */
+/* -------------------------------------------------------------------------- */
+
+function parsePart(raw: string): MimePart {
+	const { headerBlock, body } = splitHeadersAndBody(raw);
+	return { headers: parseHeaders(headerBlock), body };
+}
+
+/**
+ * Depth-first search for the first text/plain and text/html leaves, skipping attachments
+ */
+function findTextBodies(part: MimePart, found: { plain?: string; html?: string } = {}, depth = 0) {
+	if (depth > 10) return found;
+
+	const contentType = parseHeaderParams(getHeader(part.headers, "content-type") || "text/plain");
+	const disposition = parseHeaderParams(getHeader(part.headers, "content-disposition"));
+	if (disposition.value === "attachment") return found;
+
+	if (contentType.value.startsWith("multipart/")) {
+		const boundary = contentType.params.boundary;
+		if (!boundary) return found;
+		const sections = part.body.split(`--${boundary}`);
+		// sections[0] is the preamble; the closing delimiter leaves a "--" epilogue
+		for (const section of sections.slice(1)) {
+			if (section.startsWith("--")) break;
+			findTextBodies(parsePart(section.replace(/^\n/, "")), found, depth + 1);
+		}
+		return found;
+	}
+
+	const transferEncoding = getHeader(part.headers, "content-transfer-encoding");
+	if (contentType.value === "text/plain" && found.plain === undefined) {
+		found.plain = decodeTransferEncoding(part.body, transferEncoding, contentType.params.charset);
+	} else if (contentType.value === "text/html" && found.html === undefined) {
+		found.html = decodeTransferEncoding(part.body, transferEncoding, contentType.params.charset);
+	}
+	return found;
+}
+
+/* -------------------------------------------------------------------------- */
+/* Public helpers                                                              */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Extract all <message-id> tokens from a Message-ID / In-Reply-To / References value
+ */
+export function extractMessageIds(value: string | string[] | null | undefined): string[] {
+	if (!value) return [];
+	const joined = Array.isArray(value) ? value.join(" ") : value;
+	const bracketed = joined.match(/<[^<>\s]+>/g);
+	if (bracketed) return bracketed;
+	// Some relays strip the angle brackets
+	return joined
+		.split(/[\s,]+/)
+		.filter((id) => id.includes("@"))
+		.map((id) => `<${id}>`);
+}
+
+/**
+ * Parse `"Name" <user@example.com>` / `user@example.com`
+ */
+export function parseAddress(value: string | null | undefined): { email: string | null; name: string | null } {
+	if (!value) return { email: null, name: null };
+	const decoded = decodeMimeWords(value).trim();
+	const angle = decoded.match(/^(.*)<([^<>\s]+@[^<>\s]+)>\s*$/);
+	if (angle) {
+		const name = (angle[1] || "").trim().replace(/^"(.*)"$/, "$1").trim();
+		return { email: (angle[2] || "").toLowerCase(), name: name || null };
+	}
+	const bare = decoded.match(/[^\s<>"]+@[^\s<>"]+/);
+	return { email: bare ? bare[0].toLowerCase() : null, name: null };
+}
+
+/**
+ * Parse a raw RFC 5322 message (as received by the SMTP relay)
+ */
+export function parseRawEmail(raw: string): InboundEmail {
+	const root = parsePart(raw);
+	const bodies = findTextBodies(root);
+	const from = parseAddress(getHeader(root.headers, "from"));
+
+	return {
+		messageId: extractMessageIds(getHeader(root.headers, "message-id"))[0] ?? null,
+		inReplyTo: extractMessageIds(getHeader(root.headers, "in-reply-to")),
+		references: extractMessageIds(getHeader(root.headers, "references")),
+		fromEmail: from.email,
+		fromName: from.name,
+		subject: decodeMimeWords(getHeader(root.headers, "subject") || ""),
+		text: bodies.plain ?? (bodies.html ? htmlToText(bodies.html) : ""),
+	};
+}
+
+function readString(source: Record<string, unknown>, ...keys: string[]): string | null {
+	for (const key of keys) {
+		const value = source[key];
+		if (typeof value === "string" && value.trim()) return value;
+		if (Array.isArray(value) && value.every((v) => typeof v === "string") && value.length > 0) {
+			return value.join(" ");
+		}
+	}
+	return null;
+}
+
+/**
+ * Normalise a pre-parsed JSON payload. Accepts camelCase, snake_case or header-style keys,
+ * plus an optional `headers` object; a `raw` field is parsed as MIME instead.
+ */
+export function parseInboundJson(payload: Record<string, unknown>): InboundEmail {
+	const raw = readString(payload, "raw", "rawEmail", "raw_email", "mime");
+	if (raw) {
+		return parseRawEmail(raw);
+	}
+
+	const headerSource =
+		payload.headers && typeof payload.headers === "object" && !Array.isArray(payload.headers)
+			? Object.fromEntries(
+					Object.entries(payload.headers as Record<string, unknown>).map(([key, value]) => [key.toLowerCase(), value])
+				)
+			: {};
+	const lookup = (...keys: string[]) => readString(payload, ...keys) ?? readString(headerSource, ...keys.map((k) => k.toLowerCase()));
+
+	const from = parseAddress(lookup("from", "sender", "From"));
+	const text = lookup("text", "plain", "body-plain", "TextBody");
+	const html = lookup("html", "body-html", "HtmlBody");
+
+	return {
+		messageId: extractMessageIds(lookup("messageId", "message_id", "Message-ID", "message-id"))[0] ?? null,
+		inReplyTo: extractMessageIds(lookup("inReplyTo", "in_reply_to", "In-Reply-To", "in-reply-to")),
+		references: extractMessageIds(lookup("references", "References")),
+		fromEmail: from.email,
+		fromName: from.name,
+		subject: decodeMimeWords(lookup("subject", "Subject") || ""),
+		text: text ?? (html ? htmlToText(html) : ""),
+	};
+}
+
+// Lines that start the quoted original in common clients
+const REPLY_HEADER_PATTERNS: RegExp[] = [
+	/^On\s.+wrote:\s*$/i, // Gmail / Apple Mail
+	/^-{2,}\s*Original Message\s*-{2,}/i, // Outlook (plain)
+	/^-{2,}\s*Forwarded message\s*-{2,}/i,
+	/^_{10,}\s*$/, // Outlook (HTML converted)
+	/^Sent from my\s/i, // Mobile signatures
+	/^Get Outlook for\s/i,
+];
+
+/**
+ * Keep only the newly written part of a reply: cut at the quoted-message header,
+ * drop ">" quoted lines and anything after the "-- " signature delimiter.
+ */
+export function extractReplyText(text: string): string {
+	const lines = text.replace(/\r\n/g, "\n").split("\n");
+	const kept: string[] = [];
+
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i] ?? "";
+		const trimmed = line.trim();
+
+		// Signature delimiter (RFC 3676 "-- ")
+		if (line === "-- " || trimmed === "--") break;
+
+		if (REPLY_HEADER_PATTERNS.some((pattern) => pattern.test(trimmed))) break;
+
+		// Gmail wraps long "On <date> <name> <email> wrote:" headers across two lines
+		const next = (lines[i + 1] ?? "").trim();
+		if (/^On\s/i.test(trimmed) && /wrote:\s*$/i.test(next)) break;
+
+		// Outlook header block: "From: ..." followed by "Sent:" / "Date:" / "To:"
+		if (/^From:\s/i.test(trimmed) && lines.slice(i + 1, i + 4).some((l) => /^(Sent|Date|To):\s/i.test(l.trim()))) break;
+
+		if (trimmed.startsWith(">")) continue;
+
+		kept.push(line);
+	}
+
+	return kept
+		.join("\n")
+		.replace(/\n{3,}/g, "\n\n")
+		.trim();
+}
@@ -0,0 +1,75 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { NextResponse } from "next/server";
+import { slackConfig, env } from "@/conf/config";
+import { logWarning } from "@/lib/monitoring/alerts";
+
+// Slack recommends rejecting requests older than five minutes (replay protection)
+const MAX_REQUEST_AGE_SECONDS = 60 * 5;
+
+export type SlackSignatureResult =
+	| { ok: true }
+	| { ok: false; reason: string };
+
+/**
+ * Verify a Slack request signature (v0 HMAC-SHA256 of "v0:{timestamp}:{rawBody}").
+ * https://api.slack.com/authentication/verifying-requests-from-slack
+ *
+ * Must be given the raw request body, before any JSON / form parsing.
+ * Without SLACK_SIGNING_SECRET, requests are allowed in development only.
+ */
+export function verifySlackSignature(
+	rawBody: string,
+	headers: Headers,
+	nowSeconds: number = Math.floor(Date.now() / 1000)
+): SlackSignatureResult {
+	const secret = slackConfig.signingSecret;
+	if (!secret) {
+		if (env.isDevelopment) {
+			console.warn("[Slack] SLACK_SIGNING_SECRET not set - skipping signature verification in development");
+			return { ok: true };
+		}
+		return { ok: false, reason: "Signing secret not configured" };
+	}
+
+	const timestamp = headers.get("x-slack-request-timestamp");
+	const signature = headers.get("x-slack-signature");
+	if (!timestamp || !signature) {
+		return { ok: false, reason: "Missing signature headers" };
+	}
+
+	const requestTime = parseInt(timestamp, 10);
+	if (!Number.isFinite(requestTime) || Math.abs(nowSeconds - requestTime) > MAX_REQUEST_AGE_SECONDS) {
+		return { ok: false, reason: "Stale request timestamp" };
+	}
+
+	const expected = `v0=${createHmac("sha256", secret).update(`v0:${timestamp}:${rawBody}`).digest("hex")}`;
+	const expectedBuffer = Buffer.from(expected);
+	const signatureBuffer = Buffer.from(signature);
+	if (expectedBuffer.length !== signatureBuffer.length || !timingSafeEqual(expectedBuffer, signatureBuffer)) {
+		logWarning("[Slack] Request signature mismatch", { timestamp });
+		return { ok: false, reason: "Invalid signature" };
+	}
+
+	return { ok: true };
+}
+
+export type VerifiedSlackBody =
+	| { ok: true; rawBody: string }
+	| { ok: false; response: NextResponse };
+
+/**
+ * Read the raw body of a request from Slack and verify its signature.
+ * Every Slack-facing route under /api/slack (events, interactions) must go through
+ * this before parsing the body; on failure, return `response` (401) as-is.
+ */
+export async function readVerifiedSlackBody(request: Request, logLabel = "Slack"): Promise<VerifiedSlackBody> {
+	const rawBody = await request.text();
+
+	const verification = verifySlackSignature(rawBody, request.headers);
+	if (!verification.ok) {
+		console.warn(`[${logLabel}] Rejected request: ${verification.reason}`);
+		return { ok: false, response: NextResponse.json({ error: "Invalid signature" }, { status: 401 }) };
+	}
+
+	return { ok: true, rawBody };
+}
@@ -1,4 +1,4 @@
-import { WebClient } from "@slack/web-api";
+import { WebClient, type ViewsOpenArguments } from "@slack/web-api";
 import { slackConfig } from "@/conf/config";
 import { logCriticalError, logWarning } from "@/lib/monitoring/alerts";
 
@@ -135,6 +135,16 @@ export async function postToSlackChannel(
 						url: ticketUrl,
 						action_id: "ticket_view_website",
 					},
+					{
+						type: "button",
+						text: {
+							type: "plain_text",
+							text: "👀 Acknowledge",
+							emoji: true,
+						},
+						value: `acknowledge_${ticketId}`,
+						action_id: "ticket_acknowledge",
+					},
 					{
 						type: "button",
 						text: {
@@ -179,6 +189,41 @@ export async function postToSlackChannel(
 					},
 				],
 			});
+			blocks.push({
+				type: "actions",
+				elements: [
+					{
+						type: "button",
+						text: {
+							type: "plain_text",
+							text: "👤 Reassign",
+							emoji: true,
+						},
+						value: `reassign_${ticketId}`,
+						action_id: "ticket_reassign",
+					},
+					{
+						type: "button",
+						text: {
+							type: "plain_text",
+							text: "🏷️ Tag Committee",
+							emoji: true,
+						},
+						value: `tag_committee_${ticketId}`,
+						action_id: "ticket_tag_committee",
+					},
+					{
+						type: "button",
+						text: {
+							type: "plain_text",
+							text: "⏳ Awaiting Student",
+							emoji: true,
+						},
+						value: `awaiting_student_${ticketId}`,
+						action_id: "ticket_awaiting_student",
+					},
+				],
+			});
 		}
 
 		console.log("[Slack] Sending chat.postMessage", {
@@ -374,3 +419,38 @@ export async function postThreadReplyToChannel(
     }
 }
 
+/**
+ * Open a modal in response to an interaction (trigger_id is valid for 3 seconds)
+ */
+export async function openSlackModal(triggerId: string, view: ViewsOpenArguments["view"]): Promise<boolean> {
+	if (!slack) {
+		console.warn("SLACK_BOT_TOKEN not set; cannot open Slack modal.");
+		return false;
+	}
+
+	try {
+		await slack.views.open({ trigger_id: triggerId, view });
+		return true;
+	} catch (error) {
+		console.error(`❌ Error opening Slack modal ${view.callback_id ?? ""}:`, error);
+		return false;
+	}
+}
+
+/**
+ * Name of a channel (without "#") from its ID, for matching against channels configured by name
+ */
+export async function getSlackChannelName(channelId: string): Promise<string | null> {
+	if (!slack) {
+		console.warn("SLACK_BOT_TOKEN not set; cannot look up Slack channel.");
+		return null;
+	}
+
+	try {
+		const result = await slack.conversations.info({ channel: channelId });
+		return result.channel?.name ?? null;
+	} catch (error) {
+		console.error(`❌ Error looking up Slack channel ${channelId}:`, error);
+		return null;
+	}
+}
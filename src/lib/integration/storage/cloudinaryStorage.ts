@@ -0,0 +1,69 @@
+import { cloudinary } from "@/lib/integration/cloudinary";
+import { attachmentStorageConfig } from "@/conf/config";
+import type { AttachmentStorage, StoredFileInfo } from "./index";
+
+type CloudinaryResourceType = "image" | "video" | "raw";
+
+function resourceTypeFor(mimeType: string): CloudinaryResourceType {
+  if (mimeType.startsWith("image/")) return "image";
+  if (mimeType.startsWith("video/")) return "video";
+  return "raw";
+}
+
+/**
+ * Image/video public ids are stored without the extension (Cloudinary keeps it as the format);
+ * raw files keep the extension in the public id.
+ */
+function splitKey(key: string, file: StoredFileInfo) {
+  const resourceType = resourceTypeFor(file.mimeType);
+  const dot = key.lastIndexOf(".");
+  if (resourceType === "raw" || dot < key.lastIndexOf("/")) {
+    return { resourceType, publicId: key, format: "" };
+  }
+  return { resourceType, publicId: key.slice(0, dot), format: key.slice(dot + 1) };
+}
+
+/**
+ * Cloudinary backend. Attachments are uploaded as "authenticated" assets, so they
+ * are only reachable through signed, expiring download URLs.
+ */
+export const cloudinaryStorage: AttachmentStorage = {
+  provider: "cloudinary",
+
+  async put(key, body, file) {
+    if (!process.env.CLOUDINARY_CLOUD_NAME || !process.env.CLOUDINARY_API_KEY || !process.env.CLOUDINARY_API_SECRET) {
+      throw new Error("Attachment storage is not configured (Cloudinary credentials missing)");
+    }
+
+    const { resourceType, publicId } = splitKey(`sst-resolve/${key}`, file);
+    await new Promise<void>((resolve, reject) => {
+      const uploadStream = cloudinary.uploader.upload_stream(
+        {
+          public_id: publicId,
+          resource_type: resourceType,
+          type: "authenticated",
+          overwrite: false,
+        },
+        (error) => (error ? reject(error) : resolve())
+      );
+      uploadStream.end(body);
+    });
+    return `sst-resolve/${key}`;
+  },
+
+  async getDownload(storageKey, file) {
+    const { resourceType, publicId, format } = splitKey(storageKey, file);
+    const url = cloudinary.utils.private_download_url(publicId, format, {
+      resource_type: resourceType,
+      type: "authenticated",
+      attachment: true,
+      expires_at: Math.floor(Date.now() / 1000) + attachmentStorageConfig.downloadUrlTtlSeconds,
+    });
+    return { kind: "redirect", url };
+  },
+
+  async remove(storageKey, file) {
+    const { resourceType, publicId } = splitKey(storageKey, file);
+    await cloudinary.uploader.destroy(publicId, { resource_type: resourceType, type: "authenticated", invalidate: true });
+  },
+};
@@ -0,0 +1,59 @@
+/**
+ * Attachment storage backends
+ *
+ * ticket_attachments rows record the provider that holds each file, so switching
+ * ATTACHMENT_STORAGE_PROVIDER only affects new uploads; older files keep being
+ * served (and deleted) through the backend they were written to.
+ */
+
+import { randomUUID } from "crypto";
+import { attachmentStorageConfig } from "@/conf/config";
+import { cloudinaryStorage } from "./cloudinaryStorage";
+import { localDiskStorage } from "./localDiskStorage";
+
+export type AttachmentStorageProvider = "cloudinary" | "local";
+
+export interface StoredFileInfo {
+  fileName: string;
+  mimeType: string;
+}
+
+export type AttachmentDownload =
+  /** Short-lived URL the client can be redirected to */
+  | { kind: "redirect"; url: string }
+  /** File contents to stream back from the route */
+  | { kind: "body"; body: Buffer };
+
+export interface AttachmentStorage {
+  readonly provider: AttachmentStorageProvider;
+  /** Store the file under `key` and return the storage key to persist */
+  put(key: string, body: Buffer, file: StoredFileInfo): Promise<string>;
+  getDownload(storageKey: string, file: StoredFileInfo): Promise<AttachmentDownload>;
+  remove(storageKey: string, file: StoredFileInfo): Promise<void>;
+}
+
+const BACKENDS: Record<AttachmentStorageProvider, AttachmentStorage> = {
+  cloudinary: cloudinaryStorage,
+  local: localDiskStorage,
+};
+
+/**
+ * Backend for a stored attachment (by its storage_provider) or, without one, for new uploads
+ */
+export function getAttachmentStorage(provider?: string | null): AttachmentStorage {
+  const name = (provider || attachmentStorageConfig.provider) as AttachmentStorageProvider;
+  const backend = BACKENDS[name];
+  if (!backend) {
+    throw new Error(`Unknown attachment storage provider "${name}"`);
+  }
+  return backend;
+}
+
+/**
+ * Unique object key for a ticket attachment: tickets/<ticketId>/<uuid>.<ext>
+ * The original file name is kept on the row, not in the key.
+ */
+export function buildAttachmentKey(ticketId: number, fileName: string): string {
+  const ext = fileName.includes(".") ? fileName.split(".").pop()!.toLowerCase().replace(/[^a-z0-9]/g, "") : "";
+  return `tickets/${ticketId}/${randomUUID()}${ext ? `.${ext}` : ""}`;
+}
@@ -0,0 +1,39 @@
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import { attachmentStorageConfig } from "@/conf/config";
+import type { AttachmentStorage } from "./index";
+
+/**
+ * Resolve a storage key inside the storage root (rejects keys that escape it)
+ */
+function resolveKey(storageKey: string): string {
+  const root = path.resolve(attachmentStorageConfig.localDir);
+  const filePath = path.resolve(root, storageKey);
+  if (!filePath.startsWith(root + path.sep)) {
+    throw new Error(`Invalid storage key "${storageKey}"`);
+  }
+  return filePath;
+}
+
+/**
+ * Local-disk backend (ATTACHMENT_LOCAL_DIR). Files are only reachable through the
+ * download route, which streams them after the access check.
+ */
+export const localDiskStorage: AttachmentStorage = {
+  provider: "local",
+
+  async put(key, body) {
+    const filePath = resolveKey(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, body, { flag: "wx" });
+    return key;
+  },
+
+  async getDownload(storageKey) {
+    return { kind: "body", body: await readFile(resolveKey(storageKey)) };
+  },
+
+  async remove(storageKey) {
+    await rm(resolveKey(storageKey), { force: true });
+  },
+};
@@ -0,0 +1,90 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { NextResponse } from "next/server";
+import { whatsappConfig, env } from "@/conf/config";
+import { logWarning } from "@/lib/monitoring/alerts";
+
+export type TwilioSignatureResult =
+	| { ok: true }
+	| { ok: false; reason: string };
+
+/**
+ * Verify a Twilio request signature (base64 HMAC-SHA1 of the webhook URL followed by
+ * every POST parameter name and value, sorted by name).
+ * https://www.twilio.com/docs/usage/webhooks/webhooks-security
+ *
+ * `url` must be the exact URL configured in Twilio (scheme, host, path and query).
+ * Without TWILIO_AUTH_TOKEN, requests are allowed in development only.
+ */
+export function verifyTwilioSignature(
+	url: string,
+	params: URLSearchParams,
+	signature: string | null
+): TwilioSignatureResult {
+	const authToken = whatsappConfig.authToken;
+	if (!authToken) {
+		if (env.isDevelopment) {
+			console.warn("[Twilio] TWILIO_AUTH_TOKEN not set - skipping signature verification in development");
+			return { ok: true };
+		}
+		return { ok: false, reason: "Auth token not configured" };
+	}
+
+	if (!signature) {
+		return { ok: false, reason: "Missing signature header" };
+	}
+
+	const keys = Array.from(new Set(params.keys())).sort();
+	const data = keys.reduce(
+		(acc, key) => acc + params.getAll(key).sort().map((value) => `${key}${value}`).join(""),
+		url
+	);
+
+	const expected = Buffer.from(createHmac("sha1", authToken).update(data, "utf8").digest("base64"));
+	const provided = Buffer.from(signature);
+	if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+		logWarning("[Twilio] Request signature mismatch", { url });
+		return { ok: false, reason: "Invalid signature" };
+	}
+
+	return { ok: true };
+}
+
+/**
+ * Public URL Twilio called: TWILIO_WHATSAPP_WEBHOOK_URL when set, otherwise rebuilt from the
+ * forwarded host/proto headers (the app usually runs behind a proxy).
+ */
+function twilioWebhookUrl(request: Request): string {
+	if (whatsappConfig.webhookUrl) {
+		return whatsappConfig.webhookUrl;
+	}
+	const url = new URL(request.url);
+	const forwardedHost = request.headers.get("x-forwarded-host");
+	const forwardedProto = request.headers.get("x-forwarded-proto");
+	if (forwardedHost) url.host = forwardedHost;
+	if (forwardedProto) url.protocol = `${forwardedProto.split(",")[0]!.trim()}:`;
+	return url.toString();
+}
+
+export type VerifiedTwilioForm =
+	| { ok: true; params: URLSearchParams }
+	| { ok: false; response: NextResponse };
+
+/**
+ * Read the form-encoded body of a Twilio webhook and verify its signature.
+ * On failure, return `response` (403) as-is.
+ */
+export async function readVerifiedTwilioForm(request: Request, logLabel = "Twilio"): Promise<VerifiedTwilioForm> {
+	const params = new URLSearchParams(await request.text());
+
+	const verification = verifyTwilioSignature(
+		twilioWebhookUrl(request),
+		params,
+		request.headers.get("x-twilio-signature")
+	);
+	if (!verification.ok) {
+		console.warn(`[${logLabel}] Rejected request: ${verification.reason}`);
+		return { ok: false, response: NextResponse.json({ error: "Invalid signature" }, { status: 403 }) };
+	}
+
+	return { ok: true, params };
+}
@@ -0,0 +1,72 @@
+/**
+ * WhatsApp transports
+ *
+ * "twilio" sends through the Twilio Messages API using whatsappConfig;
+ * "stub" (WHATSAPP_TRANSPORT=stub) records messages in memory so local runs and
+ * tests can exercise the notification flow without a Twilio account.
+ */
+
+import { whatsappConfig } from "@/conf/config";
+import { stubWhatsAppTransport } from "./stubTransport";
+import { twilioWhatsAppTransport } from "./twilioTransport";
+
+export type WhatsAppTransportName = "twilio" | "stub";
+
+export interface WhatsAppSendResult {
+  /** Provider message id (Twilio MessageSid) */
+  messageId: string;
+}
+
+export interface WhatsAppTransport {
+  readonly name: WhatsAppTransportName;
+  /** `to` is an E.164 number (+919876543210) */
+  send(to: string, body: string): Promise<WhatsAppSendResult>;
+}
+
+const TRANSPORTS: Record<WhatsAppTransportName, WhatsAppTransport> = {
+  twilio: twilioWhatsAppTransport,
+  stub: stubWhatsAppTransport,
+};
+
+export function getWhatsAppTransport(): WhatsAppTransport {
+  return TRANSPORTS[whatsappConfig.transport];
+}
+
+// WhatsApp rejects bodies over 1600 characters
+const MAX_BODY_LENGTH = 1600;
+
+/**
+ * Send a WhatsApp message. Returns null when WhatsApp is not configured or the number is unusable.
+ * Transport errors are thrown so callers running in the outbox get retries.
+ */
+export async function sendWhatsAppMessage(phone: string, body: string): Promise<WhatsAppSendResult | null> {
+  if (!whatsappConfig.enabled) {
+    console.log("[WhatsApp] Not configured; skipping message");
+    return null;
+  }
+
+  const to = toE164(phone);
+  if (!to) {
+    console.warn(`[WhatsApp] Cannot send to invalid phone number "${phone}"`);
+    return null;
+  }
+
+  const text = body.length > MAX_BODY_LENGTH ? `${body.slice(0, MAX_BODY_LENGTH - 1)}…` : body;
+  return getWhatsAppTransport().send(to, text);
+}
+
+/**
+ * Normalize a stored phone number ("98765 43210", "+91-9876543210", "whatsapp:+91…") to E.164.
+ * Numbers without a country code get whatsappConfig.defaultCountryCode.
+ */
+export function toE164(phone: string): string | null {
+  const raw = phone.replace(/^whatsapp:/i, "").trim();
+  const digits = raw.replace(/\D/g, "");
+  if (digits.length < 8 || digits.length > 15) return null;
+  if (raw.startsWith("+") || raw.startsWith("00")) {
+    return `+${raw.startsWith("00") ? digits.slice(2) : digits}`;
+  }
+  // National number (optionally with a trunk 0)
+  const national = digits.replace(/^0/, "");
+  return national.length <= 10 ? `+${whatsappConfig.defaultCountryCode}${national}` : `+${digits}`;
+}
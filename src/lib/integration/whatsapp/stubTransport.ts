@@ -0,0 +1,34 @@
+import { randomUUID } from "crypto";
+import type { WhatsAppTransport } from "./index";
+
+export interface StubWhatsAppMessage {
+  messageId: string;
+  to: string;
+  body: string;
+  sentAt: Date;
+}
+
+const sentMessages: StubWhatsAppMessage[] = [];
+
+/**
+ * In-memory transport: messages are logged and kept for inspection instead of being sent.
+ */
+export const stubWhatsAppTransport: WhatsAppTransport = {
+  name: "stub",
+
+  async send(to, body) {
+    const message = { messageId: `stub_${randomUUID()}`, to, body, sentAt: new Date() };
+    sentMessages.push(message);
+    console.log(`[WhatsApp stub] → ${to}: ${body}`);
+    return { messageId: message.messageId };
+  },
+};
+
+/** Messages "sent" through the stub transport since the last reset (oldest first) */
+export function getStubWhatsAppMessages(): readonly StubWhatsAppMessage[] {
+  return sentMessages;
+}
+
+export function resetStubWhatsAppMessages(): void {
+  sentMessages.length = 0;
+}
@@ -0,0 +1,36 @@
+import { whatsappConfig } from "@/conf/config";
+import type { WhatsAppTransport } from "./index";
+
+const TWILIO_API_BASE = "https://api.twilio.com/2010-04-01";
+
+/**
+ * Twilio Messages API over fetch (no SDK). The sender is TWILIO_WHATSAPP_FROM
+ * ("whatsapp:+14155238886" or a bare number).
+ */
+export const twilioWhatsAppTransport: WhatsAppTransport = {
+  name: "twilio",
+
+  async send(to, body) {
+    const { accountSid, authToken, fromNumber } = whatsappConfig;
+    if (!accountSid || !authToken || !fromNumber) {
+      throw new Error("WhatsApp is not configured (Twilio credentials missing)");
+    }
+
+    const from = fromNumber.startsWith("whatsapp:") ? fromNumber : `whatsapp:${fromNumber}`;
+    const response = await fetch(`${TWILIO_API_BASE}/Accounts/${accountSid}/Messages.json`, {
+      method: "POST",
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString("base64")}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: new URLSearchParams({ From: from, To: `whatsapp:${to}`, Body: body }),
+      signal: AbortSignal.timeout(10_000),
+    });
+
+    const data = (await response.json().catch(() => ({}))) as { sid?: string; message?: string; code?: number };
+    if (!response.ok || !data.sid) {
+      throw new Error(`Twilio send failed (HTTP ${response.status}${data.code ? `, code ${data.code}` : ""}): ${data.message || "unknown error"}`);
+    }
+    return { messageId: data.sid };
+  },
+};
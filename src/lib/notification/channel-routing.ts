@@ -13,7 +13,7 @@
  */
 
 import { db, notification_channels, categories } from "@/db";
-import { eq, and, inArray, desc } from "drizzle-orm";
+import { eq, and, inArray, desc, ne } from "drizzle-orm";
 import { slackConfig } from "@/conf/config";
 
 export interface ChannelRoutingResult {
@@ -158,6 +158,7 @@ export async function findNotificationChannel(
 
 /**
  * Find a single notification channel by owner type and ID
+ * Webhook endpoints are skipped; they are delivered separately (see webhooks.ts)
  */
 async function findChannel(
   ownerType: string,
@@ -171,7 +172,8 @@ async function findChannel(
         and(
           eq(notification_channels.owner_type, ownerType),
           eq(notification_channels.owner_id, ownerId),
-          eq(notification_channels.is_active, true)
+          eq(notification_channels.is_active, true),
+          ne(notification_channels.channel_type, "webhook")
         )
       )
       .orderBy(desc(notification_channels.priority))
@@ -201,7 +203,8 @@ async function findChannels(
         and(
           eq(notification_channels.owner_type, ownerType),
           inArray(notification_channels.owner_id, ownerIds),
-          eq(notification_channels.is_active, true)
+          eq(notification_channels.is_active, true),
+          ne(notification_channels.channel_type, "webhook")
         )
       )
       .orderBy(desc(notification_channels.priority));
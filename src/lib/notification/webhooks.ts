@@ -0,0 +1,476 @@
+/**
+ * Outgoing Webhooks
+ *
+ * Endpoints are notification_channels rows with channel_type "webhook"
+ * (webhook_url + webhook_secret, optionally limited to some events via webhook_events).
+ * owner_type "global" receives every ticket; domain / scope / category owners only
+ * receive tickets in that domain / scope / category.
+ *
+ * Flow:
+ * 1. A ticket lifecycle event is written to the outbox as usual
+ * 2. When the outbox worker handles it, enqueueWebhookDeliveries() snapshots the
+ *    payload into one webhook_deliveries row per matching endpoint and queues a
+ *    "webhook.deliver" outbox row for each (idempotent per source event)
+ * 3. processWebhookDelivery() POSTs the signed payload; failures are retried by the
+ *    outbox with backoff and every attempt is recorded on the delivery row
+ *
+ * Signature: X-Resolve-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>">
+ */
+
+import { createHmac, randomBytes } from "crypto";
+import { db } from "@/db";
+import {
+  categories,
+  notification_channels,
+  outbox,
+  ticket_comments,
+  ticket_statuses,
+  tickets,
+  webhook_deliveries,
+} from "@/db/schema";
+import type { NotificationChannelSelect } from "@/db/inferred-types";
+import { and, eq, inArray, or, sql } from "drizzle-orm";
+import { webhookConfig } from "@/conf/config";
+import { isInternalCommentType } from "@/lib/ticket/data/ticketComments";
+import type { OutboxRow } from "@/workers/utils";
+
+export const WEBHOOK_CHANNEL_TYPE = "webhook";
+export const WEBHOOK_DELIVER_EVENT = "webhook.deliver";
+
+export const WEBHOOK_EVENTS = [
+  "ticket.created",
+  "ticket.status_changed",
+  "ticket.comment_added",
+  "ticket.escalated",
+  "ticket.tat_set",
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export const WEBHOOK_OWNER_TYPES = ["global", "domain", "scope", "category"] as const;
+
+export type WebhookOwnerType = (typeof WEBHOOK_OWNER_TYPES)[number];
+
+export const WEBHOOK_DELIVERY_STATUS = {
+  PENDING: "pending",
+  DELIVERED: "delivered",
+  FAILED: "failed",
+} as const;
+
+// Outbox event types (including legacy spellings) → public webhook event name
+const OUTBOX_EVENT_TO_WEBHOOK: Record<string, WebhookEvent> = {
+  "ticket.created": "ticket.created",
+  "ticket.created.v1": "ticket.created",
+  "ticket.status.updated": "ticket.status_changed",
+  "ticket.status_changed": "ticket.status_changed",
+  "ticket.comment.added": "ticket.comment_added",
+  "ticket.comment_added": "ticket.comment_added",
+  "ticket.escalated": "ticket.escalated",
+  "ticket.escalated.manual": "ticket.escalated",
+  "ticket.escalated.auto": "ticket.escalated",
+  "ticket.tat.set": "ticket.tat_set",
+};
+
+export function webhookEventForOutboxType(eventType: string): WebhookEvent | null {
+  return OUTBOX_EVENT_TO_WEBHOOK[eventType] ?? null;
+}
+
+export function isWebhookEvent(value: unknown): value is WebhookEvent {
+  return typeof value === "string" && (WEBHOOK_EVENTS as readonly string[]).includes(value);
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+/**
+ * Reason a webhook URL is rejected, or null when it is acceptable
+ */
+export function validateWebhookUrl(value: unknown): string | null {
+  if (typeof value !== "string" || !value.trim()) {
+    return "URL is required";
+  }
+  if (value.length > 2048) {
+    return "URL is too long";
+  }
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    return "URL is not valid";
+  }
+  if (url.protocol !== "https:" && !(url.protocol === "http:" && webhookConfig.allowInsecureUrls)) {
+    return "URL must use https";
+  }
+  if (url.username || url.password) {
+    return "URL must not contain credentials";
+  }
+  return null;
+}
+
+/**
+ * Admin API shape of a webhook endpoint. The secret is only returned when it is created or rotated.
+ */
+export function serializeWebhook(channel: NotificationChannelSelect) {
+  return {
+    id: channel.id,
+    owner_type: channel.owner_type,
+    owner_id: channel.owner_id,
+    url: channel.webhook_url,
+    events: channel.webhook_events ?? null,
+    is_active: channel.is_active,
+    created_at: channel.created_at,
+    updated_at: channel.updated_at,
+  };
+}
+
+export interface WebhookInputUpdates {
+  owner_type?: string;
+  owner_id?: string;
+  webhook_events?: string[] | null;
+}
+
+/**
+ * Validate owner / events input from the admin API (create and update)
+ */
+export function parseWebhookInput(
+  body: Record<string, unknown>
+): { error: string } | { updates: WebhookInputUpdates } {
+  const updates: WebhookInputUpdates = {};
+
+  if (body.owner_type !== undefined) {
+    if (!(WEBHOOK_OWNER_TYPES as readonly string[]).includes(String(body.owner_type))) {
+      return { error: `owner_type must be one of: ${WEBHOOK_OWNER_TYPES.join(", ")}` };
+    }
+    updates.owner_type = String(body.owner_type);
+    if (updates.owner_type === "global") {
+      updates.owner_id = "*";
+    } else {
+      const ownerId = parseInt(String(body.owner_id ?? ""), 10);
+      if (isNaN(ownerId) || ownerId <= 0) {
+        return { error: "owner_id is required for domain, scope and category webhooks" };
+      }
+      updates.owner_id = String(ownerId);
+    }
+  }
+
+  if (body.events !== undefined) {
+    if (body.events === null || (Array.isArray(body.events) && body.events.length === 0)) {
+      updates.webhook_events = null;
+    } else if (Array.isArray(body.events) && body.events.every(isWebhookEvent)) {
+      updates.webhook_events = Array.from(new Set(body.events));
+    } else {
+      return { error: `events must be a list of: ${WEBHOOK_EVENTS.join(", ")}` };
+    }
+  }
+
+  return { updates };
+}
+
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const digest = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${digest}`;
+}
+
+function parseId(value: unknown): number | null {
+  const parsed = typeof value === "number" ? value : typeof value === "string" ? parseInt(value, 10) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+function stringOrNull(value: unknown): string | null {
+  return typeof value === "string" && value ? value : null;
+}
+
+function lowerOrNull(value: unknown): string | null {
+  const text = stringOrNull(value);
+  return text ? text.toLowerCase() : null;
+}
+
+async function loadTicketSnapshot(ticketId: number) {
+  const [row] = await db
+    .select({
+      id: tickets.id,
+      title: tickets.title,
+      location: tickets.location,
+      status: ticket_statuses.value,
+      category_id: tickets.category_id,
+      category: categories.name,
+      domain_id: categories.domain_id,
+      subcategory_id: tickets.subcategory_id,
+      scope_id: tickets.scope_id,
+      escalation_level: tickets.escalation_level,
+      resolution_due_at: tickets.resolution_due_at,
+      created_at: tickets.created_at,
+      updated_at: tickets.updated_at,
+    })
+    .from(tickets)
+    .leftJoin(ticket_statuses, eq(ticket_statuses.id, tickets.status_id))
+    .leftJoin(categories, eq(categories.id, tickets.category_id))
+    .where(eq(tickets.id, ticketId))
+    .limit(1);
+  return row ?? null;
+}
+
+type TicketSnapshot = NonNullable<Awaited<ReturnType<typeof loadTicketSnapshot>>>;
+
+/**
+ * Event-specific fields. Only whitelisted values leave the system (no Clerk IDs, no internal notes).
+ * Returns null when the event must not be delivered.
+ */
+async function buildEventData(
+  event: WebhookEvent,
+  payload: Record<string, unknown>,
+  ticket: TicketSnapshot
+): Promise<Record<string, unknown> | null> {
+  switch (event) {
+    case "ticket.created":
+      return {};
+
+    case "ticket.status_changed":
+      return {
+        old_status: lowerOrNull(payload.old_status ?? payload.oldStatus),
+        new_status: lowerOrNull(payload.new_status ?? payload.newStatus) ?? ticket.status,
+        comment: stringOrNull(payload.comment),
+        automatic: payload.auto_changed === true,
+      };
+
+    case "ticket.comment_added": {
+      const commentId = parseId(payload.comment_id);
+      if (!commentId) return null;
+      const [comment] = await db
+        .select()
+        .from(ticket_comments)
+        .where(and(eq(ticket_comments.id, commentId), eq(ticket_comments.ticket_id, ticket.id)))
+        .limit(1);
+      if (!comment || comment.deleted_at || isInternalCommentType(comment.comment_type)) return null;
+      return {
+        comment: {
+          id: comment.id,
+          body: comment.body,
+          author_name: comment.author_name,
+          author_role: comment.author_role,
+          source: comment.source,
+          created_at: comment.created_at,
+        },
+      };
+    }
+
+    case "ticket.escalated":
+      return {
+        escalation_level: parseId(payload.new_escalation_level) ?? ticket.escalation_level,
+        previous_level: typeof payload.previous_level === "number" ? payload.previous_level : null,
+        escalated_by_role: stringOrNull(payload.escalated_by_role),
+        reason: stringOrNull(payload.reason),
+      };
+
+    case "ticket.tat_set":
+      return {
+        tat: stringOrNull(payload.tat),
+        tat_date: stringOrNull(payload.tat_date),
+        is_extension: payload.is_extension === true,
+      };
+  }
+}
+
+/**
+ * Active webhook endpoints that should receive an event for this ticket
+ */
+async function findWebhookChannels(event: WebhookEvent, ticket: TicketSnapshot): Promise<NotificationChannelSelect[]> {
+  const ownerConditions = [eq(notification_channels.owner_type, "global")];
+  if (ticket.domain_id) {
+    ownerConditions.push(
+      and(eq(notification_channels.owner_type, "domain"), eq(notification_channels.owner_id, String(ticket.domain_id)))!
+    );
+  }
+  if (ticket.scope_id) {
+    ownerConditions.push(
+      and(eq(notification_channels.owner_type, "scope"), eq(notification_channels.owner_id, String(ticket.scope_id)))!
+    );
+  }
+  if (ticket.category_id) {
+    ownerConditions.push(
+      and(eq(notification_channels.owner_type, "category"), eq(notification_channels.owner_id, String(ticket.category_id)))!
+    );
+  }
+
+  const channels = await db
+    .select()
+    .from(notification_channels)
+    .where(
+      and(
+        eq(notification_channels.channel_type, WEBHOOK_CHANNEL_TYPE),
+        eq(notification_channels.is_active, true),
+        or(...ownerConditions)
+      )
+    );
+
+  return channels.filter(
+    (channel) => channel.webhook_url && (!channel.webhook_events?.length || channel.webhook_events.includes(event))
+  );
+}
+
+/**
+ * Fan a lifecycle outbox row out to the matching webhook endpoints.
+ * Safe to call again for the same row (retries): existing deliveries are left alone.
+ * Returns the number of newly queued deliveries.
+ */
+export async function enqueueWebhookDeliveries(row: OutboxRow): Promise<number> {
+  const event = webhookEventForOutboxType(row.event_type);
+  if (!event || !row.payload || typeof row.payload !== "object" || Array.isArray(row.payload)) {
+    return 0;
+  }
+
+  const payload = row.payload as Record<string, unknown>;
+  const ticketId = parseId(payload.ticket_id ?? payload.ticketId);
+  if (!ticketId) return 0;
+
+  const ticket = await loadTicketSnapshot(ticketId);
+  if (!ticket) return 0;
+
+  const channels = await findWebhookChannels(event, ticket);
+  if (channels.length === 0) return 0;
+
+  const data = await buildEventData(event, payload, ticket);
+  if (!data) return 0;
+
+  const body = {
+    event,
+    occurred_at: (row.created_at ?? new Date()).toISOString(),
+    ticket,
+    data,
+  };
+
+  return db.transaction(async (tx) => {
+    const inserted = await tx
+      .insert(webhook_deliveries)
+      .values(
+        channels.map((channel) => ({
+          channel_id: channel.id,
+          source_outbox_id: row.id,
+          event_type: event,
+          ticket_id: ticketId,
+          payload: body,
+        }))
+      )
+      .onConflictDoNothing({ target: [webhook_deliveries.channel_id, webhook_deliveries.source_outbox_id] })
+      .returning({ id: webhook_deliveries.id });
+
+    if (inserted.length > 0) {
+      await tx.insert(outbox).values(
+        inserted.map((delivery) => ({
+          event_type: WEBHOOK_DELIVER_EVENT,
+          payload: { delivery_id: delivery.id },
+        }))
+      );
+    }
+
+    return inserted.length;
+  });
+}
+
+/**
+ * Queue a fresh "webhook.deliver" row for an existing delivery (manual redelivery from the admin UI)
+ */
+export async function requeueWebhookDelivery(deliveryId: number): Promise<boolean> {
+  return db.transaction(async (tx) => {
+    const [delivery] = await tx
+      .update(webhook_deliveries)
+      .set({ status: WEBHOOK_DELIVERY_STATUS.PENDING })
+      .where(
+        and(
+          eq(webhook_deliveries.id, deliveryId),
+          inArray(webhook_deliveries.status, [WEBHOOK_DELIVERY_STATUS.FAILED, WEBHOOK_DELIVERY_STATUS.DELIVERED])
+        )
+      )
+      .returning({ id: webhook_deliveries.id });
+
+    if (!delivery) return false;
+
+    await tx.insert(outbox).values({ event_type: WEBHOOK_DELIVER_EVENT, payload: { delivery_id: delivery.id } });
+    return true;
+  });
+}
+
+/**
+ * Deliver one webhook_deliveries row. Records the attempt on the row and throws when the
+ * endpoint did not accept it, so the outbox retries (and eventually dead-letters) the attempt.
+ *
+ * @param isFinalAttempt - the outbox will not retry after this attempt; a failure marks the delivery failed
+ */
+export async function processWebhookDelivery(deliveryId: number, isFinalAttempt: boolean): Promise<void> {
+  const [delivery] = await db
+    .select({
+      id: webhook_deliveries.id,
+      status: webhook_deliveries.status,
+      event_type: webhook_deliveries.event_type,
+      payload: webhook_deliveries.payload,
+      url: notification_channels.webhook_url,
+      secret: notification_channels.webhook_secret,
+      is_active: notification_channels.is_active,
+    })
+    .from(webhook_deliveries)
+    .innerJoin(notification_channels, eq(notification_channels.id, webhook_deliveries.channel_id))
+    .where(eq(webhook_deliveries.id, deliveryId))
+    .limit(1);
+
+  if (!delivery) {
+    console.warn(`[Webhooks] Delivery ${deliveryId} no longer exists (endpoint removed); skipping`);
+    return;
+  }
+  if (delivery.status === WEBHOOK_DELIVERY_STATUS.DELIVERED) {
+    return;
+  }
+  if (!delivery.is_active || !delivery.url || !delivery.secret) {
+    await db
+      .update(webhook_deliveries)
+      .set({ status: WEBHOOK_DELIVERY_STATUS.FAILED, last_error: "Endpoint disabled", last_attempt_at: new Date() })
+      .where(eq(webhook_deliveries.id, deliveryId));
+    return;
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  let statusCode: number | null = null;
+  let error: string | null = null;
+
+  try {
+    const response = await fetch(delivery.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "SST-Resolve-Webhooks/1.0",
+        "X-Resolve-Event": delivery.event_type,
+        "X-Resolve-Delivery": String(delivery.id),
+        "X-Resolve-Signature": signWebhookPayload(delivery.secret, timestamp, body),
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(webhookConfig.timeoutMs),
+    });
+    statusCode = response.status;
+    if (!response.ok) {
+      const snippet = (await response.text().catch(() => "")).slice(0, webhookConfig.responseSnippetLength);
+      error = `HTTP ${response.status}${snippet ? `: ${snippet}` : ""}`;
+    }
+  } catch (fetchError) {
+    error = fetchError instanceof Error ? fetchError.message : String(fetchError);
+  }
+
+  const now = new Date();
+  await db
+    .update(webhook_deliveries)
+    .set({
+      attempts: sql`${webhook_deliveries.attempts} + 1`,
+      last_attempt_at: now,
+      last_status_code: statusCode,
+      last_error: error,
+      ...(error
+        ? { status: isFinalAttempt ? WEBHOOK_DELIVERY_STATUS.FAILED : WEBHOOK_DELIVERY_STATUS.PENDING }
+        : { status: WEBHOOK_DELIVERY_STATUS.DELIVERED, delivered_at: now }),
+    })
+    .where(eq(webhook_deliveries.id, deliveryId));
+
+  if (error) {
+    throw new Error(`Webhook delivery ${deliveryId} failed: ${error}`);
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * WhatsApp notifications for students
+ *
+ * Messages go to users.phone, and only to users who opted in (users.whatsapp_opt_in).
+ * Students opt in from their profile or by messaging START; STOP opts out
+ * (see lib/ticket/actions/whatsappInbound.ts).
+ */
+
+import { db } from "@/db";
+import { users } from "@/db/schema";
+import { eq } from "drizzle-orm";
+import { sendWhatsAppMessage } from "@/lib/integration/whatsapp";
+import { logNotification } from "@/workers/utils";
+
+export type WhatsAppNotificationType = "ticket.status" | "ticket.comment" | "ticket.rating_prompt";
+
+function formatStatus(status: string): string {
+  return status.replace(/_/g, " ").replace(/\b\w/g, (letter) => letter.toUpperCase());
+}
+
+export function getStatusUpdateWhatsApp(ticketId: number, statusLabel: string, category: string): string {
+  return [
+    `📝 Ticket #${ticketId} (${category}) is now *${formatStatus(statusLabel)}*.`,
+    "",
+    `Reply "#${ticketId} <message>" to add a comment, or "STATUS ${ticketId}" for details.`,
+  ].join("\n");
+}
+
+export function getFollowedStatusUpdateWhatsApp(ticketId: number, statusLabel: string, category: string): string {
+  return `📝 Ticket #${ticketId} (${category}) that you follow is now *${formatStatus(statusLabel)}*.`;
+}
+
+export function getCommentAddedWhatsApp(ticketId: number, comment: string, author: string): string {
+  return [
+    `💬 ${author} replied on ticket #${ticketId}:`,
+    "",
+    comment,
+    "",
+    `Reply "#${ticketId} <message>" to respond.`,
+  ].join("\n");
+}
+
+export function getRatingPromptWhatsApp(ticketId: number): string {
+  return [
+    `✅ Ticket #${ticketId} has been resolved. How did we do?`,
+    "",
+    `Reply "RATE ${ticketId} <1-5>" (5 = excellent), or "#${ticketId} <message>" if the issue is not fixed.`,
+  ].join("\n");
+}
+
+/**
+ * Send a WhatsApp message to a user if they opted in and have a phone number.
+ * Returns true when a message was sent. Transport errors are thrown (callers in the outbox retry).
+ */
+export async function notifyUserOnWhatsApp(params: {
+  userId: string;
+  ticketId: number;
+  body: string;
+  notificationType: WhatsAppNotificationType;
+}): Promise<boolean> {
+  const [user] = await db
+    .select({ id: users.id, phone: users.phone, optIn: users.whatsapp_opt_in })
+    .from(users)
+    .where(eq(users.id, params.userId))
+    .limit(1);
+
+  if (!user?.optIn || !user.phone) {
+    return false;
+  }
+
+  const result = await sendWhatsAppMessage(user.phone, params.body);
+  if (!result) {
+    return false;
+  }
+
+  await logNotification({
+    userId: user.id,
+    ticketId: params.ticketId,
+    channel: "whatsapp",
+    notificationType: params.notificationType,
+    whatsappMessageId: result.messageId,
+    sentAt: new Date(),
+  });
+  return true;
+}
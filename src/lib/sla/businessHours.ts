@@ -0,0 +1,365 @@
+/**
+ * Business-hours arithmetic for SLA clocks
+ *
+ * A calendar says when the SLA clock runs: weekly shift windows in a timezone,
+ * minus holidays. All due dates (acknowledgement, resolution, TAT) are computed
+ * by adding working time to a start instant; overdue checks compare the stored
+ * due date with "now", so they need no calendar math themselves.
+ *
+ * Pure functions only - see calendars.ts for loading calendars from the database.
+ */
+
+/** "HH:MM" 24h local time; end "24:00" means midnight at the end of the day */
+export interface ShiftWindow {
+  start: string;
+  end: string;
+}
+
+/** Keys "0" (Sunday) .. "6" (Saturday); missing/empty day = non-working */
+export type WeeklySchedule = Partial<Record<string, ShiftWindow[]>>;
+
+export interface BusinessCalendar {
+  id: number | null;
+  name: string;
+  timezone: string;
+  weeklySchedule: WeeklySchedule;
+  /** Local dates "YYYY-MM-DD" on which the clock does not run */
+  holidays: Set<string>;
+}
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_HOUR = 60 * MS_PER_MINUTE;
+// Upper bound on days scanned when looking for working time (guards misconfigured calendars)
+const MAX_SCAN_DAYS = 3 * 366;
+
+/**
+ * Round-the-clock calendar: used when nothing is configured, preserves wall-clock behaviour
+ */
+export const ALWAYS_OPEN_CALENDAR: BusinessCalendar = {
+  id: null,
+  name: "24x7",
+  timezone: "UTC",
+  weeklySchedule: Object.fromEntries(
+    ["0", "1", "2", "3", "4", "5", "6"].map((day) => [day, [{ start: "00:00", end: "24:00" }]])
+  ),
+  holidays: new Set(),
+};
+
+/* -------------------------------------------------------------------------- */
+/* Timezone helpers (Intl based, no external tz database)                      */
+/* -------------------------------------------------------------------------- */
+
+interface LocalDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Wall-clock fields of `date` in `timeZone` */
+function getZonedParts(date: Date, timeZone: string) {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== "literal") {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  }
+  return {
+    year: parts.year ?? 1970,
+    month: parts.month ?? 1,
+    day: parts.day ?? 1,
+    hour: parts.hour ?? 0,
+    minute: parts.minute ?? 0,
+    second: parts.second ?? 0,
+  };
+}
+
+/** Offset (ms) of `timeZone` from UTC at instant `date` */
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/** UTC instant for a local wall-clock time in `timeZone` */
+function zonedTimeToUtc(local: LocalDate, minutesOfDay: number, timeZone: string): Date {
+  const naive = Date.UTC(local.year, local.month - 1, local.day) + minutesOfDay * MS_PER_MINUTE;
+  // Two passes settle DST transitions (offset at the guessed instant may differ)
+  let offset = getTimeZoneOffset(new Date(naive), timeZone);
+  offset = getTimeZoneOffset(new Date(naive - offset), timeZone);
+  return new Date(naive - offset);
+}
+
+function toLocalDate(date: Date, timeZone: string): LocalDate {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return { year, month, day };
+}
+
+function addDays(local: LocalDate, days: number): LocalDate {
+  const d = new Date(Date.UTC(local.year, local.month - 1, local.day + days));
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() };
+}
+
+function formatLocalDate(local: LocalDate): string {
+  return `${local.year}-${String(local.month).padStart(2, "0")}-${String(local.day).padStart(2, "0")}`;
+}
+
+function dayOfWeek(local: LocalDate): number {
+  return new Date(Date.UTC(local.year, local.month - 1, local.day)).getUTCDay();
+}
+
+/** "YYYY-MM-DD" of `date` in the calendar's timezone */
+export function getLocalDateKey(date: Date, timeZone: string): string {
+  return formatLocalDate(toLocalDate(date, timeZone));
+}
+
+/* -------------------------------------------------------------------------- */
+/* Schedule helpers                                                            */
+/* -------------------------------------------------------------------------- */
+
+export function parseTimeOfDay(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+  const hours = parseInt(match[1] || "0", 10);
+  const minutes = parseInt(match[2] || "0", 10);
+  if (minutes > 59 || hours > 24 || (hours === 24 && minutes !== 0)) return null;
+  return hours * 60 + minutes;
+}
+
+/**
+ * Validate a weekly schedule from user input; returns null when malformed.
+ * Windows on a day must be well-formed and must not overlap.
+ */
+export function parseWeeklySchedule(value: unknown): WeeklySchedule | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+
+  const schedule: WeeklySchedule = {};
+  for (const [day, windows] of Object.entries(value as Record<string, unknown>)) {
+    if (!/^[0-6]$/.test(day) || !Array.isArray(windows)) return null;
+
+    const parsed: Array<[number, number, ShiftWindow]> = [];
+    for (const window of windows) {
+      if (!window || typeof window !== "object") return null;
+      const { start, end } = window as Record<string, unknown>;
+      if (typeof start !== "string" || typeof end !== "string") return null;
+      const startMinute = parseTimeOfDay(start);
+      const endMinute = parseTimeOfDay(end);
+      if (startMinute === null || endMinute === null || startMinute >= endMinute) return null;
+      parsed.push([startMinute, endMinute, { start: start.trim(), end: end.trim() }]);
+    }
+
+    parsed.sort((a, b) => a[0] - b[0]);
+    for (let i = 1; i < parsed.length; i++) {
+      const previous = parsed[i - 1];
+      const current = parsed[i];
+      if (previous && current && current[0] < previous[1]) return null;
+    }
+    schedule[day] = parsed.map(([, , window]) => window);
+  }
+
+  return schedule;
+}
+
+/** Sorted, valid [startMinute, endMinute) windows for a local day; empty on holidays */
+function getDayWindows(calendar: BusinessCalendar, local: LocalDate): Array<[number, number]> {
+  if (calendar.holidays.has(formatLocalDate(local))) return [];
+  const windows = calendar.weeklySchedule[String(dayOfWeek(local))] || [];
+  return windows
+    .map((w): [number | null, number | null] => [parseTimeOfDay(w.start), parseTimeOfDay(w.end)])
+    .filter((w): w is [number, number] => w[0] !== null && w[1] !== null && w[0] < w[1])
+    .sort((a, b) => a[0] - b[0]);
+}
+
+function hasAnyWorkingTime(calendar: BusinessCalendar): boolean {
+  return Object.values(calendar.weeklySchedule).some((windows) =>
+    (windows || []).some((w) => {
+      const start = parseTimeOfDay(w.start);
+      const end = parseTimeOfDay(w.end);
+      return start !== null && end !== null && start < end;
+    })
+  );
+}
+
+/** Working intervals (UTC instants) of one local day */
+function getDayIntervals(calendar: BusinessCalendar, local: LocalDate): Array<[Date, Date]> {
+  return getDayWindows(calendar, local).map(([start, end]) => [
+    zonedTimeToUtc(local, start, calendar.timezone),
+    zonedTimeToUtc(local, end, calendar.timezone),
+  ]);
+}
+
+/* -------------------------------------------------------------------------- */
+/* Public API                                                                  */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Add `ms` of working time to `start`
+ */
+export function addBusinessMilliseconds(start: Date, ms: number, calendar: BusinessCalendar): Date {
+  if (ms <= 0) return new Date(start.getTime());
+  if (!hasAnyWorkingTime(calendar)) {
+    // Misconfigured calendar (no shifts at all) - fall back to wall clock rather than never-due
+    return new Date(start.getTime() + ms);
+  }
+
+  let remaining = ms;
+  let local = toLocalDate(start, calendar.timezone);
+
+  for (let i = 0; i < MAX_SCAN_DAYS; i++, local = addDays(local, 1)) {
+    for (const [windowStart, windowEnd] of getDayIntervals(calendar, local)) {
+      const from = Math.max(windowStart.getTime(), start.getTime());
+      const available = windowEnd.getTime() - from;
+      if (available <= 0) continue;
+      if (remaining <= available) {
+        return new Date(from + remaining);
+      }
+      remaining -= available;
+    }
+  }
+
+  return new Date(start.getTime() + ms);
+}
+
+export function addBusinessHours(start: Date, hours: number, calendar: BusinessCalendar): Date {
+  return addBusinessMilliseconds(start, hours * MS_PER_HOUR, calendar);
+}
+
+/**
+ * Working time (ms) between two instants; 0 when end <= start
+ */
+export function businessMillisecondsBetween(start: Date, end: Date, calendar: BusinessCalendar): number {
+  if (end.getTime() <= start.getTime()) return 0;
+  if (!hasAnyWorkingTime(calendar)) return end.getTime() - start.getTime();
+
+  let total = 0;
+  let local = toLocalDate(start, calendar.timezone);
+  const lastKey = getLocalDateKey(end, calendar.timezone);
+
+  for (let i = 0; i < MAX_SCAN_DAYS; i++, local = addDays(local, 1)) {
+    for (const [windowStart, windowEnd] of getDayIntervals(calendar, local)) {
+      const from = Math.max(windowStart.getTime(), start.getTime());
+      const to = Math.min(windowEnd.getTime(), end.getTime());
+      if (to > from) total += to - from;
+    }
+    if (formatLocalDate(local) === lastKey) break;
+  }
+
+  return total;
+}
+
+export function businessHoursBetween(start: Date, end: Date, calendar: BusinessCalendar): number {
+  return businessMillisecondsBetween(start, end, calendar) / MS_PER_HOUR;
+}
+
+/** Whether the SLA clock is running at `date` */
+export function isWorkingTime(date: Date, calendar: BusinessCalendar): boolean {
+  return getDayIntervals(calendar, toLocalDate(date, calendar.timezone)).some(
+    ([start, end]) => date.getTime() >= start.getTime() && date.getTime() < end.getTime()
+  );
+}
+
+/** First instant at or after `date` when the clock is running */
+function nextWorkingInstant(date: Date, calendar: BusinessCalendar): Date {
+  let local = toLocalDate(date, calendar.timezone);
+  for (let i = 0; i < MAX_SCAN_DAYS; i++, local = addDays(local, 1)) {
+    for (const [windowStart, windowEnd] of getDayIntervals(calendar, local)) {
+      if (windowEnd.getTime() > date.getTime()) {
+        return new Date(Math.max(windowStart.getTime(), date.getTime()));
+      }
+    }
+  }
+  return new Date(date.getTime());
+}
+
+/**
+ * Same local time on the `days`-th working day after `start`
+ * (a start outside working hours counts from the next shift; the time is pulled back
+ * into the target day's shifts). On a 24x7 calendar this is exactly `days` x 24h.
+ */
+export function addWorkingDays(start: Date, days: number, calendar: BusinessCalendar): Date {
+  if (days <= 0) return new Date(start.getTime());
+  if (!hasAnyWorkingTime(calendar)) {
+    return new Date(start.getTime() + days * 24 * MS_PER_HOUR);
+  }
+
+  const from = nextWorkingInstant(start, calendar);
+  const { hour, minute } = getZonedParts(from, calendar.timezone);
+  const minutesOfDay = hour * 60 + minute;
+
+  let counted = 0;
+  let local = toLocalDate(from, calendar.timezone);
+  for (let i = 0; i < MAX_SCAN_DAYS; i++) {
+    local = addDays(local, 1);
+    const windows = getDayWindows(calendar, local);
+    const firstWindow = windows[0];
+    if (!firstWindow) continue;
+    counted++;
+    if (counted < days) continue;
+
+    if (windows.some(([windowStart, windowEnd]) => minutesOfDay >= windowStart && minutesOfDay <= windowEnd)) {
+      return zonedTimeToUtc(local, minutesOfDay, calendar.timezone);
+    }
+    // Outside the day's shifts: end of the last shift before that time, else the first shift's start
+    const earlier = windows.filter(([, windowEnd]) => windowEnd <= minutesOfDay).pop();
+    return zonedTimeToUtc(local, earlier ? earlier[1] : firstWindow[0], calendar.timezone);
+  }
+
+  return new Date(start.getTime() + days * 24 * MS_PER_HOUR);
+}
+
+/**
+ * Parse TAT text (e.g. "2 days", "1 week", "3 hours") and compute the due date on a calendar.
+ * Hours are working hours and days are working days; weeks / months are calendar periods
+ * (7 / 30 days) that roll forward to the next working time if they end outside it.
+ */
+export function addTATDuration(start: Date, tatText: string, calendar: BusinessCalendar): Date {
+  const match = tatText.toLowerCase().trim().match(/(\d+)\s*(hour|hours|day|days|week|weeks|month|months)/);
+
+  if (!match) {
+    // Default to 1 working day if can't parse
+    return addWorkingDays(start, 1, calendar);
+  }
+
+  const amount = parseInt(match[1] || "1", 10);
+  switch (match[2]) {
+    case "hour":
+    case "hours":
+      return addBusinessHours(start, amount, calendar);
+    case "week":
+    case "weeks":
+      return nextWorkingInstant(new Date(start.getTime() + amount * 7 * 24 * MS_PER_HOUR), calendar);
+    case "month":
+    case "months":
+      return nextWorkingInstant(new Date(start.getTime() + amount * 30 * 24 * MS_PER_HOUR), calendar); // Approximate
+    default:
+      return addWorkingDays(start, amount, calendar);
+  }
+}
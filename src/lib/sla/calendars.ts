@@ -0,0 +1,171 @@
+import "server-only";
+import { db } from "@/db";
+import { business_calendars, business_calendar_holidays, categories } from "@/db/schema";
+import { and, eq, inArray, isNull, ne } from "drizzle-orm";
+import { unstable_cache } from "next/cache";
+import { slaConfig } from "@/conf/config";
+import type { DbExecutor } from "@/lib/ticket/data/ticketComments";
+import {
+  ALWAYS_OPEN_CALENDAR,
+  addBusinessHours,
+  addTATDuration,
+  isValidTimeZone,
+  type BusinessCalendar,
+  type WeeklySchedule,
+} from "./businessHours";
+
+export const BUSINESS_CALENDARS_CACHE_TAG = "business-calendars";
+
+// Serializable shape (unstable_cache round-trips through JSON)
+type CalendarRecord = {
+  id: number;
+  name: string;
+  domain_id: number | null;
+  scope_id: number | null;
+  timezone: string;
+  weekly_schedule: WeeklySchedule;
+  is_default: boolean;
+  holidays: string[];
+};
+
+/**
+ * All active calendars with their holidays (cached, invalidated on edit via the cache tag)
+ */
+const getActiveCalendarRecords = unstable_cache(
+  async (): Promise<CalendarRecord[]> => {
+    const calendars = await db
+      .select()
+      .from(business_calendars)
+      .where(eq(business_calendars.is_active, true));
+
+    if (calendars.length === 0) return [];
+
+    const holidays = await db
+      .select({ calendar_id: business_calendar_holidays.calendar_id, date: business_calendar_holidays.date })
+      .from(business_calendar_holidays)
+      .where(inArray(business_calendar_holidays.calendar_id, calendars.map((c) => c.id)));
+
+    return calendars.map((calendar) => ({
+      id: calendar.id,
+      name: calendar.name,
+      domain_id: calendar.domain_id,
+      scope_id: calendar.scope_id,
+      timezone: calendar.timezone,
+      weekly_schedule: (calendar.weekly_schedule || {}) as WeeklySchedule,
+      is_default: calendar.is_default,
+      holidays: holidays.filter((h) => h.calendar_id === calendar.id).map((h) => h.date),
+    }));
+  },
+  ["business-calendars"],
+  {
+    revalidate: slaConfig.calendarCacheSeconds,
+    tags: [BUSINESS_CALENDARS_CACHE_TAG],
+  }
+);
+
+function toBusinessCalendar(record: CalendarRecord): BusinessCalendar {
+  return {
+    id: record.id,
+    name: record.name,
+    timezone: isValidTimeZone(record.timezone) ? record.timezone : slaConfig.defaultTimezone,
+    weeklySchedule: record.weekly_schedule,
+    holidays: new Set(record.holidays),
+  };
+}
+
+/**
+ * Pick the calendar for a scope / domain.
+ * Order: scope calendar → domain-wide calendar → default calendar → 24x7
+ */
+export async function resolveBusinessCalendar(target: {
+  scopeId?: number | null;
+  domainId?: number | null;
+}): Promise<BusinessCalendar> {
+  const records = await getActiveCalendarRecords();
+
+  const match =
+    (target.scopeId && records.find((r) => r.scope_id === target.scopeId)) ||
+    (target.domainId && records.find((r) => r.domain_id === target.domainId && !r.scope_id)) ||
+    records.find((r) => r.is_default);
+
+  return match ? toBusinessCalendar(match) : ALWAYS_OPEN_CALENDAR;
+}
+
+/**
+ * Another active calendar for the same scope (or the same domain-wide slot) - only one of them is used.
+ * Returns a warning message for the superadmin UI, or null.
+ */
+export async function findShadowingCalendar(
+  calendarId: number,
+  domainId: number | null,
+  scopeId: number | null
+): Promise<string | null> {
+  if (!domainId && !scopeId) return null;
+
+  const [other] = await db
+    .select({ name: business_calendars.name })
+    .from(business_calendars)
+    .where(and(
+      ne(business_calendars.id, calendarId),
+      eq(business_calendars.is_active, true),
+      scopeId
+        ? eq(business_calendars.scope_id, scopeId)
+        : and(eq(business_calendars.domain_id, domainId as number), isNull(business_calendars.scope_id))
+    ))
+    .limit(1);
+
+  return other
+    ? `Calendar '${other.name}' also targets this ${scopeId ? "scope" : "domain"}; only one of them will be used`
+    : null;
+}
+
+/**
+ * Calendar for a ticket: its own scope, else its category's scope / domain
+ */
+export async function getTicketBusinessCalendar(
+  ticket: { scope_id?: number | null; category_id?: number | null },
+  executor: DbExecutor = db
+): Promise<BusinessCalendar> {
+  let scopeId = ticket.scope_id ?? null;
+  let domainId: number | null = null;
+
+  if (ticket.category_id) {
+    const [category] = await executor
+      .select({ domain_id: categories.domain_id, scope_id: categories.scope_id })
+      .from(categories)
+      .where(eq(categories.id, ticket.category_id))
+      .limit(1);
+    if (category) {
+      domainId = category.domain_id;
+      scopeId = scopeId ?? category.scope_id;
+    }
+  }
+
+  return resolveBusinessCalendar({ scopeId, domainId });
+}
+
+/**
+ * Acknowledgement and resolution due dates for a new ticket, in business hours
+ */
+export function computeSlaDueDates(
+  createdAt: Date,
+  calendar: BusinessCalendar,
+  resolutionHours: number | null | undefined
+): { acknowledgement_due_at: Date; resolution_due_at: Date } {
+  return {
+    acknowledgement_due_at: addBusinessHours(createdAt, slaConfig.acknowledgementHours, calendar),
+    resolution_due_at: addBusinessHours(createdAt, resolutionHours || slaConfig.defaultResolutionHours, calendar),
+  };
+}
+
+/**
+ * TAT due date for a ticket on its business calendar ("2 days" = same time, 2 working days later)
+ */
+export async function calculateTicketTATDate(
+  ticket: { scope_id?: number | null; category_id?: number | null },
+  tatText: string,
+  from: Date = new Date()
+): Promise<Date> {
+  const calendar = await getTicketBusinessCalendar(ticket);
+  return addTATDuration(from, tatText, calendar);
+}
@@ -0,0 +1,220 @@
+import "server-only";
+import { db } from "@/db";
+import { outbox, ticket_sla_pauses, ticket_statuses, tickets } from "@/db/schema";
+import type { TicketInsert, TicketMetadata, TicketSlaPauseSelect } from "@/db/inferred-types";
+import { and, asc, desc, eq, inArray, isNull } from "drizzle-orm";
+import { getCachedTicketStatuses } from "@/lib/cache/cached-queries";
+import type { DbExecutor } from "@/lib/ticket/data/ticketComments";
+import type { TATPause } from "@/types/ticket";
+import { getTicketBusinessCalendar } from "./calendars";
+import { addBusinessMilliseconds, businessMillisecondsBetween } from "./businessHours";
+
+interface SlaPauseTransitionOptions {
+  /**
+   * Metadata the caller is about to write; tatDate is shifted in place on resume.
+   * When omitted the stored metadata is shifted and returned in the update.
+   */
+  metadata?: TicketMetadata;
+  /** False when the caller sets a fresh due date in the same update (only the interval is closed) */
+  shiftDueDate?: boolean;
+  at?: Date;
+}
+
+async function getStatusFlags(statusValue: string | null | undefined) {
+  if (!statusValue) return { pausesSla: false, isFinal: false };
+  const statuses = await getCachedTicketStatuses();
+  const status = statuses.find((s) => s.value.toLowerCase() === statusValue.toLowerCase());
+  return { pausesSla: status?.pauses_sla ?? false, isFinal: status?.is_final ?? false };
+}
+
+/**
+ * Ids of the statuses that stop the SLA clock (ticket_statuses.pauses_sla)
+ */
+export async function getSlaPausingStatusIds(): Promise<Set<number>> {
+  const statuses = await getCachedTicketStatuses();
+  return new Set(statuses.filter((s) => s.pauses_sla).map((s) => s.id));
+}
+
+/**
+ * Record SLA pause bookkeeping for a status change.
+ *
+ * Must run before the caller writes the new status_id (the current status is read from the row).
+ * Entering a pausing status opens a pause interval; leaving it closes the interval and, unless
+ * the ticket is being finalised, pushes resolution_due_at (and metadata.tatDate) out by the
+ * paused working time. Returns the ticket columns to merge into the caller's update.
+ */
+export async function applySlaPauseTransition(
+  tx: DbExecutor,
+  ticketId: number,
+  toStatus: string,
+  { metadata, shiftDueDate = true, at = new Date() }: SlaPauseTransitionOptions = {}
+): Promise<Partial<TicketInsert>> {
+  const [ticket] = await tx
+    .select({
+      status: ticket_statuses.value,
+      category_id: tickets.category_id,
+      scope_id: tickets.scope_id,
+      resolution_due_at: tickets.resolution_due_at,
+      metadata: tickets.metadata,
+    })
+    .from(tickets)
+    .leftJoin(ticket_statuses, eq(ticket_statuses.id, tickets.status_id))
+    .where(eq(tickets.id, ticketId))
+    .limit(1);
+
+  if (!ticket) return {};
+
+  const [from, to] = await Promise.all([getStatusFlags(ticket.status), getStatusFlags(toStatus)]);
+
+  // Entering a pause (pausing → pausing keeps the original interval open)
+  if (!from.pausesSla && to.pausesSla) {
+    const [openPause] = await tx
+      .select({ id: ticket_sla_pauses.id })
+      .from(ticket_sla_pauses)
+      .where(and(eq(ticket_sla_pauses.ticket_id, ticketId), isNull(ticket_sla_pauses.resumed_at)))
+      .limit(1);
+
+    if (!openPause) {
+      await tx.insert(ticket_sla_pauses).values({
+        ticket_id: ticketId,
+        status_value: toStatus.toLowerCase(),
+        paused_at: at,
+      });
+    }
+    return {};
+  }
+
+  if (!from.pausesSla || to.pausesSla) {
+    return {};
+  }
+
+  // Leaving a pause
+  const [openPause] = await tx
+    .select()
+    .from(ticket_sla_pauses)
+    .where(and(eq(ticket_sla_pauses.ticket_id, ticketId), isNull(ticket_sla_pauses.resumed_at)))
+    .orderBy(desc(ticket_sla_pauses.paused_at))
+    .limit(1);
+
+  if (!openPause) return {};
+
+  // Paused time in business time - nights, weekends and holidays while waiting don't count
+  const calendar = await getTicketBusinessCalendar(ticket, tx);
+  const pausedMs = businessMillisecondsBetween(openPause.paused_at, at, calendar);
+
+  await tx
+    .update(ticket_sla_pauses)
+    .set({ resumed_at: at, paused_business_seconds: Math.round(pausedMs / 1000) })
+    .where(eq(ticket_sla_pauses.id, openPause.id));
+
+  // Resolved/closed straight from a pause, or the caller resets the TAT: only the interval is recorded
+  if (to.isFinal || !shiftDueDate || pausedMs <= 0) return {};
+
+  const updateData: Partial<TicketInsert> = {};
+
+  if (ticket.resolution_due_at) {
+    updateData.resolution_due_at = addBusinessMilliseconds(ticket.resolution_due_at, pausedMs, calendar);
+  }
+
+  const targetMetadata = metadata ?? { ...((ticket.metadata as TicketMetadata | null) || {}) };
+  if (targetMetadata.tatDate) {
+    const newTATDate = addBusinessMilliseconds(new Date(targetMetadata.tatDate), pausedMs, calendar);
+    targetMetadata.tatDate = newTATDate.toISOString();
+    updateData.resolution_due_at = newTATDate;
+    if (!metadata) {
+      updateData.metadata = targetMetadata as unknown;
+    }
+  }
+
+  await tx.insert(outbox).values({
+    event_type: "TAT_RESUME",
+    payload: {
+      ticket_id: ticketId,
+      paused_duration_ms: pausedMs,
+      new_tat_date: targetMetadata.tatDate ?? updateData.resolution_due_at?.toISOString() ?? null,
+      resumed_at: at.toISOString(),
+    },
+  });
+
+  return updateData;
+}
+
+export function toTATPause(row: TicketSlaPauseSelect): TATPause {
+  return {
+    status: row.status_value,
+    pausedAt: row.paused_at.toISOString(),
+    resumedAt: row.resumed_at ? row.resumed_at.toISOString() : null,
+    pausedBusinessSeconds: row.paused_business_seconds,
+  };
+}
+
+/**
+ * Pause intervals for a ticket (TAT info / timeline shape), oldest first
+ */
+export async function getTicketSlaPauses(ticketId: number, executor: DbExecutor = db): Promise<TATPause[]> {
+  const rows = await executor
+    .select()
+    .from(ticket_sla_pauses)
+    .where(eq(ticket_sla_pauses.ticket_id, ticketId))
+    .orderBy(asc(ticket_sla_pauses.paused_at));
+  return rows.map(toTATPause);
+}
+
+interface ResolvedTicketTimes {
+  id: number;
+  created_at?: Date | string | null;
+  resolved_at?: Date | string | null;
+}
+
+/**
+ * Average resolution time in hours for resolved tickets: gross (created → resolved) and
+ * net of SLA pauses (wall-clock time spent paused between creation and resolution).
+ */
+export async function getAverageResolutionHours(
+  resolvedTickets: ResolvedTicketTimes[]
+): Promise<{ gross: number; net: number; count: number }> {
+  const withTimes = resolvedTickets.filter((t) => t.created_at && t.resolved_at);
+  if (withTimes.length === 0) return { gross: 0, net: 0, count: 0 };
+
+  const pauses = await db
+    .select({
+      ticket_id: ticket_sla_pauses.ticket_id,
+      paused_at: ticket_sla_pauses.paused_at,
+      resumed_at: ticket_sla_pauses.resumed_at,
+    })
+    .from(ticket_sla_pauses)
+    .where(inArray(ticket_sla_pauses.ticket_id, withTimes.map((t) => t.id)));
+
+  const pausesByTicket = new Map<number, typeof pauses>();
+  for (const pause of pauses) {
+    const list = pausesByTicket.get(pause.ticket_id) || [];
+    list.push(pause);
+    pausesByTicket.set(pause.ticket_id, list);
+  }
+
+  let grossMs = 0;
+  let netMs = 0;
+  for (const ticket of withTimes) {
+    const createdAt = new Date(ticket.created_at!).getTime();
+    const resolvedAt = new Date(ticket.resolved_at!).getTime();
+    const total = Math.max(0, resolvedAt - createdAt);
+
+    // Only count paused time inside this resolution cycle (a reopened ticket may pause again later)
+    let paused = 0;
+    for (const pause of pausesByTicket.get(ticket.id) || []) {
+      const start = Math.max(pause.paused_at.getTime(), createdAt);
+      const end = Math.min(pause.resumed_at ? pause.resumed_at.getTime() : resolvedAt, resolvedAt);
+      if (end > start) paused += end - start;
+    }
+
+    grossMs += total;
+    netMs += Math.max(0, total - paused);
+  }
+
+  const msPerHour = 1000 * 60 * 60;
+  return {
+    gross: grossMs / withTimes.length / msPerHour,
+    net: netMs / withTimes.length / msPerHour,
+    count: withTimes.length,
+  };
+}
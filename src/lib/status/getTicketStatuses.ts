@@ -28,6 +28,7 @@ export const getTicketStatuses = unstable_cache(
         badge_color: string | null;
         is_active: boolean | null;
         is_final: boolean | null;
+        pauses_sla: boolean;
         display_order: number | null;
     }>> => {
         return await db
@@ -52,6 +53,7 @@ export async function getTicketStatusByValue(value: string): Promise<{
     badge_color: string | null;
     is_active: boolean | null;
     is_final: boolean | null;
+    pauses_sla: boolean;
     display_order: number | null;
 } | null> {
     const canonical = getCanonicalStatus(value);
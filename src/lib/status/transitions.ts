@@ -0,0 +1,150 @@
+import "server-only";
+import { db } from "@/db";
+import { status_transitions, ticket_statuses } from "@/db/schema";
+import { eq } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { unstable_cache } from "next/cache";
+
+export const STATUS_TRANSITIONS_CACHE_TAG = "status-transitions";
+
+/** Roles a transition can be granted to */
+export const WORKFLOW_ROLES = ["super_admin", "snr_admin", "admin", "committee", "student"] as const;
+
+/**
+ * Validate an allowed_roles payload; returns the de-duplicated list or null when invalid
+ */
+export function parseAllowedRoles(value: unknown): string[] | null {
+    if (!Array.isArray(value)) return null;
+    const known: readonly string[] = WORKFLOW_ROLES;
+    if (!value.every((role) => typeof role === "string" && known.includes(role))) return null;
+    return Array.from(new Set(value as string[]));
+}
+
+export type StatusTransitionRule = {
+    id: number;
+    from_status_id: number;
+    from_value: string;
+    to_status_id: number;
+    to_value: string;
+    allowed_roles: string[];
+    requires_comment: boolean;
+    requires_tat: boolean;
+    is_active: boolean;
+};
+
+export type StatusTransitionCheck =
+    | { ok: true; transition: StatusTransitionRule | null }
+    | { ok: false; status: 400 | 403; error: string };
+
+interface StatusTransitionInput {
+    /** Current status value (null when the ticket's status was deleted) */
+    fromStatus: string | null;
+    toStatus: string;
+    role: string | null | undefined;
+    /** A comment accompanies the change */
+    hasComment?: boolean;
+    /** The ticket has (or is being given) a TAT */
+    hasTAT?: boolean;
+}
+
+const fromStatus = alias(ticket_statuses, "from_status");
+const toStatus = alias(ticket_statuses, "to_status");
+
+/**
+ * All workflow transitions with their status values (cached, invalidated on edit via the cache tag)
+ */
+export const getStatusTransitions = unstable_cache(
+    async (): Promise<StatusTransitionRule[]> => {
+        const rows = await db
+            .select({
+                id: status_transitions.id,
+                from_status_id: status_transitions.from_status_id,
+                from_value: fromStatus.value,
+                to_status_id: status_transitions.to_status_id,
+                to_value: toStatus.value,
+                allowed_roles: status_transitions.allowed_roles,
+                requires_comment: status_transitions.requires_comment,
+                requires_tat: status_transitions.requires_tat,
+                is_active: status_transitions.is_active,
+            })
+            .from(status_transitions)
+            .innerJoin(fromStatus, eq(fromStatus.id, status_transitions.from_status_id))
+            .innerJoin(toStatus, eq(toStatus.id, status_transitions.to_status_id))
+            .orderBy(fromStatus.display_order, toStatus.display_order);
+
+        return rows.map((row) => ({
+            ...row,
+            allowed_roles: Array.isArray(row.allowed_roles) ? row.allowed_roles : [],
+        }));
+    },
+    ["status-transitions"],
+    {
+        revalidate: 300,
+        tags: [STATUS_TRANSITIONS_CACHE_TAG],
+    }
+);
+
+function statusLabel(value: string): string {
+    return value.replace(/_/g, " ");
+}
+
+/**
+ * Check a status change against the configured workflow.
+ *
+ * - Moving to the same status, or from a deleted status, is not checked.
+ * - With no transitions configured at all every move is allowed (unconfigured install).
+ * - super_admin passes the role check but not the comment / TAT requirements.
+ */
+export async function validateStatusTransition({
+    fromStatus: from,
+    toStatus: to,
+    role,
+    hasComment = false,
+    hasTAT = false,
+}: StatusTransitionInput): Promise<StatusTransitionCheck> {
+    if (!from || from.toLowerCase() === to.toLowerCase()) {
+        return { ok: true, transition: null };
+    }
+
+    const transitions = await getStatusTransitions();
+    if (transitions.length === 0) {
+        return { ok: true, transition: null };
+    }
+
+    const transition = transitions.find(
+        (t) => t.is_active && t.from_value.toLowerCase() === from.toLowerCase() && t.to_value.toLowerCase() === to.toLowerCase()
+    );
+    if (!transition) {
+        return {
+            ok: false,
+            status: 400,
+            error: `Invalid status transition: cannot change from ${statusLabel(from)} to ${statusLabel(to)}`,
+        };
+    }
+
+    if (role !== "super_admin" && (!role || !transition.allowed_roles.includes(role))) {
+        return {
+            ok: false,
+            status: 403,
+            error: `Your role cannot change a ticket from ${statusLabel(from)} to ${statusLabel(to)}`,
+        };
+    }
+
+    if (transition.requires_comment && !hasComment) {
+        return {
+            ok: false,
+            status: 400,
+            error: `A comment is required to change a ticket from ${statusLabel(from)} to ${statusLabel(to)}`,
+        };
+    }
+
+    if (transition.requires_tat && !hasTAT) {
+        return {
+            ok: false,
+            status: 400,
+            error: `A TAT must be set to change a ticket from ${statusLabel(from)} to ${statusLabel(to)}`,
+        };
+    }
+
+    return { ok: true, transition };
+}
@@ -4,9 +4,15 @@ import { eq, and } from "drizzle-orm";
 import { TicketCreateInput } from "@/lib/validation/ticket";
 import { getUserRoleFromDB } from "@/lib/auth/db-roles";
 // findSPOCForTicket is imported dynamically from spoc-assignment.ts
-import { TICKET_STATUS } from "@/conf/constants";
+import { TICKET_ACTIVITY, TICKET_STATUS } from "@/conf/constants";
+import { recordTicketActivity } from "@/lib/ticket/data/ticketActivity";
 import { findSuperAdminClerkId } from "@/lib/db-helpers";
 import { getCachedTicketStatuses } from "@/lib/cache/cached-queries";
+import { computeSlaDueDates, resolveBusinessCalendar } from "@/lib/sla/calendars";
+import { findSimilarTickets, formSimilarityText } from "@/lib/ticket/data/similarTickets";
+import { validateTicketDetails } from "@/lib/ticket/validation/ticketFields";
+import { ensureFormVersion } from "@/lib/category/formVersions";
+import { getPublishedSubcategoryFields } from "@/lib/category/categoryReleases";
 
 const SUPER_ADMIN_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
 let cachedSuperAdmin: { value: string | null; expiresAt: number } | null = null;
@@ -199,7 +205,10 @@ export async function createTicket(args: {
           id: categories.id, 
           name: categories.name,
           is_active: categories.is_active,
-          default_admin_id: categories.default_admin_id
+          default_admin_id: categories.default_admin_id,
+          domain_id: categories.domain_id,
+          scope_id: categories.scope_id,
+          sla_hours: categories.sla_hours
         })
       .from(categories)
       .where(eq(categories.id, payload.categoryId))
@@ -211,7 +220,10 @@ export async function createTicket(args: {
           id: categories.id, 
           name: categories.name,
           is_active: categories.is_active,
-          default_admin_id: categories.default_admin_id
+          default_admin_id: categories.default_admin_id,
+          domain_id: categories.domain_id,
+          scope_id: categories.scope_id,
+          sla_hours: categories.sla_hours
         })
       .from(categories)
       .where(eq(categories.name, payload.category))
@@ -224,12 +236,12 @@ export async function createTicket(args: {
     ? categoryPromise.then(async (cat) => {
         if (!cat || !payload.subcategoryId) return undefined;
         const [s] = await db
-          .select({ id: subcategories.id, name: subcategories.name, is_active: subcategories.is_active })
+          .select({ id: subcategories.id, name: subcategories.name, is_active: subcategories.is_active, sla_hours: subcategories.sla_hours })
           .from(subcategories)
           .where(and(eq(subcategories.id, payload.subcategoryId), eq(subcategories.category_id, cat.id)))
       .limit(1);
         if (s && s.is_active) {
-          return { id: s.id, name: s.name };
+          return { id: s.id, name: s.name, sla_hours: s.sla_hours };
         } else if (s && !s.is_active) {
           throw new Error("Subcategory is inactive and cannot be used for ticket creation");
         } else if (!s) {
@@ -249,17 +261,17 @@ export async function createTicket(args: {
   }
 
   // Wait for subcategory if it was started early, otherwise do sequential lookup
-  let subcategoryRecord: { id: number; name: string } | undefined;
+  let subcategoryRecord: { id: number; name: string; sla_hours: number | null } | undefined;
   if (payload.subcategoryId) {
     subcategoryRecord = await subcategoryPromise;
   } else if (payload.subcategory) {
     const [s] = await db
-      .select({ id: subcategories.id, name: subcategories.name, is_active: subcategories.is_active })
+      .select({ id: subcategories.id, name: subcategories.name, is_active: subcategories.is_active, sla_hours: subcategories.sla_hours })
       .from(subcategories)
       .where(and(eq(subcategories.name, payload.subcategory), eq(subcategories.category_id, categoryRecord.id)))
       .limit(1);
     if (s && s.is_active) {
-      subcategoryRecord = { id: s.id, name: s.name };
+      subcategoryRecord = { id: s.id, name: s.name, sla_hours: s.sla_hours };
     } else if (s && !s.is_active) {
       throw new Error("Subcategory is inactive and cannot be used for ticket creation");
     } else if (!s) {
@@ -285,6 +297,20 @@ export async function createTicket(args: {
     }
   }
 
+  // Tickets are filed against the published form; a subcategory that only exists in a draft takes none
+  const publishedFields = subcategoryRecord ? await getPublishedSubcategoryFields(subcategoryRecord.id) : null;
+  if (subcategoryRecord && !publishedFields) {
+    throw new Error("Subcategory is not published yet and cannot be used for ticket creation");
+  }
+
+  // Field values must satisfy the subcategory's field rules (same compiler as TicketForm);
+  // throws TicketFieldValidationError with per-field messages
+  detailsObj = await validateTicketDetails(
+    subcategoryRecord?.id ?? null,
+    detailsObj,
+    payload.profile && !Array.isArray(payload.profile) ? payload.profile : null
+  );
+
   // NEW: Store field IDs for future lookup (snapshot-on-delete approach)
   // Start field lookup early to parallelize with sub-subcategory lookup
   const usedFieldIds: number[] = [];
@@ -296,14 +322,8 @@ export async function createTicket(args: {
     // Wait for subcategory to be resolved first
     const subcat = await subcategoryPromise;
     if (subcat?.id && detailsObj) {
-    // Fetch current active fields to map slugs to IDs
-    const { category_fields } = await import("@/db/schema");
-    const { eq } = await import("drizzle-orm");
-
-    const activeFields = await db
-      .select({ id: category_fields.id, slug: category_fields.slug })
-      .from(category_fields)
-        .where(eq(category_fields.subcategory_id, subcat.id));
+    // Map slugs to IDs using the published fields the details were validated against
+    const activeFields = publishedFields ?? [];
 
     const fieldMap = new Map(activeFields.map(f => [f.slug, f.id]));
 
@@ -358,6 +378,24 @@ export async function createTicket(args: {
     extra: payload.extra || undefined,
   };
 
+  // Possible duplicates: open tickets that look like this one, kept for admins to review.
+  // The student has already been shown them on the form; a failed lookup never blocks creation.
+  const possibleDuplicates = await findSimilarTickets({
+    categoryId: categoryRecord.id,
+    subcategoryId: subcategoryRecord?.id ?? null,
+    location: payload.location || null,
+    text: formSimilarityText(
+      payload.description,
+      detailsObj && typeof detailsObj === 'object' && !Array.isArray(detailsObj) ? detailsObj : null
+    ),
+  }).catch((error) => {
+    console.warn("[createTicket] Similar ticket lookup failed:", error);
+    return [];
+  });
+  if (possibleDuplicates.length > 0) {
+    metadata.possibleDuplicateIds = possibleDuplicates.map((ticket) => ticket.id);
+  }
+
   // Edge case: Validate metadata size (PostgreSQL JSONB limit is ~1GB, but we'll enforce a reasonable limit)
   // This prevents extremely large metadata from causing performance issues
   // Validate synchronously (fast operation, no need to parallelize)
@@ -387,6 +425,8 @@ export async function createTicket(args: {
   // Determine assignment (SPOC or super admin) - optimized parallel lookups
   // Run metadata size check, status lookup, and assignment logic in parallel
   let assignedUserId: string | null = null;
+  // Why the ticket landed with assignedUserId (recorded as auto_assigned activity)
+  let assignmentDetails: Record<string, unknown> | null = null;
   
   // Get status_id for OPEN status (start early to parallelize with other operations)
   const statusIdPromise = (async () => {
@@ -426,11 +466,12 @@ export async function createTicket(args: {
     (async () => {
   if (categoryRecord.name === "Committee" || categoryRecord.name === "Others") {
     // Use super admin directly
+        assignmentDetails = { stage: "super_admin", reason: `${categoryRecord.name} tickets go to the super admin` };
         return await superAdminPromise;
   } else {
     // find SPOC via helper (uses the full assignment hierarchy)
     // Pass category default_admin_id to avoid redundant query in SPOC assignment
-    const { findSPOCForTicket } = await import("@/lib/assignment/spoc-assignment");
+    const { findSPOCAssignment } = await import("@/lib/assignment/spoc-assignment");
     // Safety check: ensure detailsObj is valid before calling Object.keys
     const fieldSlugs = detailsObj && typeof detailsObj === 'object' && !Array.isArray(detailsObj)
       ? Object.keys(detailsObj)
@@ -438,8 +479,8 @@ export async function createTicket(args: {
     
     // Run SPOC lookup and super admin lookup in parallel
     // Pass category default_admin_id from categoryRecord to avoid redundant query
-    const [clerkAssigned, superAdminId] = await Promise.all([
-      findSPOCForTicket(
+    const [spocAssignment, superAdminId] = await Promise.all([
+      findSPOCAssignment(
         categoryRecord.name,
         payload.location || null,
         categoryRecord.id,
@@ -450,17 +491,20 @@ export async function createTicket(args: {
       superAdminPromise,
     ]);
     
-    if (clerkAssigned) {
-      // map clerkId to local users.id
-      const [u] = await db.select({ id: users.id }).from(users).where(eq(users.external_id, clerkAssigned)).limit(1);
-      if (u) {
-            return u.id;
-      }
+    if (spocAssignment) {
+      assignmentDetails = {
+        stage: spocAssignment.stage,
+        strategy: spocAssignment.strategy,
+        reason: spocAssignment.reason,
+        pool: spocAssignment.pool,
+      };
+      return spocAssignment.userId;
     }
     
     // Fallback: If no assignment found, assign to superadmin
         if (superAdminId) {
       console.log(`[createTicket] No assignment found, defaulting to superadmin for ticket in category: ${categoryRecord.name}`);
+          assignmentDetails = { stage: "super_admin", reason: "No available SPOC matched; defaulted to the super admin" };
           return superAdminId;
     }
         return null;
@@ -473,6 +517,7 @@ export async function createTicket(args: {
   // Final fallback if still no assignment
     if (!assignedUserId) {
       assignedUserId = await superAdminPromise;
+      assignmentDetails = { stage: "super_admin", reason: "No available SPOC matched; defaulted to the super admin" };
       if (!assignedUserId) {
         const { logCriticalError } = await import("@/lib/monitoring/alerts");
         logCriticalError(
@@ -524,6 +569,18 @@ export async function createTicket(args: {
     }
   }
 
+  // SLA due dates run on the category's business calendar (working hours + holidays)
+  // Subcategory sla_hours overrides the category's
+  const slaCalendar = await resolveBusinessCalendar({
+    scopeId: categoryRecord.scope_id,
+    domainId: categoryRecord.domain_id,
+  });
+  const slaDueDates = computeSlaDueDates(
+    new Date(),
+    slaCalendar,
+    subcategoryRecord?.sla_hours ?? categoryRecord.sla_hours
+  );
+
   // Use a DB transaction to ensure ticket + outbox + profile updates consistency
   // Wrap in try-catch to handle transaction errors gracefully
   let result;
@@ -587,6 +644,12 @@ export async function createTicket(args: {
       }
     }
 
+    // Record which version of the subcategory form this ticket was submitted with
+    if (subcategoryRecord?.id && publishedFields) {
+      const { version } = await ensureFormVersion(subcategoryRecord.id, { fields: publishedFields }, tx);
+      metadata = { ...metadata, form_version_id: version.id };
+    }
+
     const insertValues = {
       created_by: dbUser.id,
       category_id: categoryRecord.id,
@@ -595,12 +658,17 @@ export async function createTicket(args: {
       location: payload.location || null,
       metadata: metadata && typeof metadata === 'object' && !Array.isArray(metadata) && Object.keys(metadata).length > 0 ? metadata : null,
       attachments: attachments,
+      acknowledgement_due_at: slaDueDates.acknowledgement_due_at,
+      resolution_due_at: slaDueDates.resolution_due_at,
       ...(subcategoryRecord?.id ? { subcategory_id: subcategoryRecord.id } : {}),
       ...(assignedUserId ? { assigned_to: assignedUserId } : {}),
     };
 
     // Insert ticket
     const [newTicket] = await tx.insert(tickets).values(insertValues).returning();
+    if (!newTicket) {
+      throw new Error("Failed to create ticket");
+    }
 
     // Create outbox event for notifications (decoupled)
     await tx.insert(outbox).values({
@@ -613,6 +681,17 @@ export async function createTicket(args: {
       attempts: 0,
     });
 
+    if (assignedUserId && assignmentDetails) {
+      await recordTicketActivity(
+        {
+          ticketId: newTicket.id,
+          action: TICKET_ACTIVITY.AUTO_ASSIGNED,
+          details: { assigned_to: assignedUserId, ...assignmentDetails },
+        },
+        tx
+      );
+    }
+
       console.log(`[createTicket] ✅ Created ticket #${newTicket.id} and outbox event for notifications`);
       return newTicket;
     });
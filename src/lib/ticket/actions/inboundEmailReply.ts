@@ -0,0 +1,205 @@
+import { db } from "@/db";
+import { notifications, outbox, ticket_integrations, ticket_statuses, tickets, users } from "@/db/schema";
+import type { TicketInsert, TicketMetadata } from "@/db/inferred-types";
+import { eq, inArray, sql } from "drizzle-orm";
+import { emailConfig } from "@/conf/config";
+import { COMMENT_SOURCE, COMMENT_TYPE, USER_ROLE, getCanonicalStatus } from "@/conf/constants";
+import { addTicketComment, findCommentByExternalId } from "@/lib/ticket/data/ticketComments";
+import { resumeFromAwaitingStudent } from "@/lib/ticket/actions/studentReply";
+import { extractReplyText, type InboundEmail } from "@/lib/integration/inbound-email";
+
+export type InboundEmailReplyResult =
+  | { status: "created"; ticketId: number; commentId: number }
+  | { status: "duplicate"; ticketId: number; commentId: number }
+  | { status: "unmatched" }
+  | { status: "forbidden"; ticketId: number }
+  | { status: "empty"; ticketId: number };
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Resolve the ticket a reply belongs to from its threading headers.
+ *
+ * Candidates are checked newest-first (In-Reply-To, then References from the end) against:
+ * 1. our deterministic first-email Message-ID <ticket-{id}@EMAIL_DOMAIN>
+ * 2. ticket_integrations.email_thread_id
+ * 3. tickets.metadata.originalEmailMessageId
+ * 4. Message-IDs of later notification emails (notifications.email_message_id)
+ */
+export async function findTicketForEmailReply(email: Pick<InboundEmail, "inReplyTo" | "references">): Promise<number | null> {
+  const candidates = Array.from(new Set([...email.inReplyTo, ...[...email.references].reverse()]));
+  if (candidates.length === 0) return null;
+
+  const deterministic = new RegExp(`^<ticket-(\\d+)@${escapeRegExp(emailConfig.domain)}>$`, "i");
+  const ticketByMessageId = new Map<string, number>();
+
+  for (const messageId of candidates) {
+    const match = messageId.match(deterministic);
+    if (match?.[1]) {
+      ticketByMessageId.set(messageId, parseInt(match[1], 10));
+    }
+  }
+
+  const [integrationRows, metadataRows, notificationRows] = await Promise.all([
+    db
+      .select({ ticketId: ticket_integrations.ticket_id, messageId: ticket_integrations.email_thread_id })
+      .from(ticket_integrations)
+      .where(inArray(ticket_integrations.email_thread_id, candidates)),
+    db
+      .select({ ticketId: tickets.id, messageId: sql<string>`${tickets.metadata}->>'originalEmailMessageId'` })
+      .from(tickets)
+      .where(inArray(sql`${tickets.metadata}->>'originalEmailMessageId'`, candidates)),
+    db
+      .select({ ticketId: notifications.ticket_id, messageId: notifications.email_message_id })
+      .from(notifications)
+      .where(inArray(notifications.email_message_id, candidates)),
+  ]);
+
+  for (const row of [...integrationRows, ...metadataRows, ...notificationRows]) {
+    if (row.ticketId && row.messageId && !ticketByMessageId.has(row.messageId)) {
+      ticketByMessageId.set(row.messageId, row.ticketId);
+    }
+  }
+
+  for (const messageId of candidates) {
+    const ticketId = ticketByMessageId.get(messageId);
+    if (ticketId) return ticketId;
+  }
+  return null;
+}
+
+/**
+ * Store a student's email reply as a student-visible comment.
+ *
+ * The sender must be the ticket creator (account email, or the contact email the thread was sent to).
+ * Mirrors a web reply: resumes TAT if the ticket was awaiting the student and enqueues
+ * ticket.comment.added so the assigned admin and the Slack thread see it.
+ */
+export async function addInboundEmailReply(email: InboundEmail): Promise<InboundEmailReplyResult> {
+  const ticketId = await findTicketForEmailReply(email);
+  if (!ticketId) {
+    return { status: "unmatched" };
+  }
+
+  // Relays retry on timeouts; the Message-ID makes delivery idempotent
+  if (email.messageId) {
+    const existing = await findCommentByExternalId(COMMENT_SOURCE.EMAIL, email.messageId);
+    if (existing) {
+      return { status: "duplicate", ticketId: existing.ticket_id, commentId: existing.id };
+    }
+  }
+
+  const [ticket] = await db
+    .select({
+      id: tickets.id,
+      metadata: tickets.metadata,
+      category_id: tickets.category_id,
+      creatorId: users.id,
+      creatorEmail: users.email,
+      creatorName: users.full_name,
+      creatorClerkId: users.external_id,
+    })
+    .from(tickets)
+    .leftJoin(users, eq(users.id, tickets.created_by))
+    .where(eq(tickets.id, ticketId))
+    .limit(1);
+
+  if (!ticket || !ticket.creatorId) {
+    return { status: "unmatched" };
+  }
+
+  const metadata =
+    ticket.metadata && typeof ticket.metadata === "object" && !Array.isArray(ticket.metadata)
+      ? (ticket.metadata as TicketMetadata)
+      : {};
+  // The ticket.created email goes to the contact email from the form when one was given
+  const rawContactEmail = (metadata as Record<string, unknown>).contactEmail;
+  const contactEmail = typeof rawContactEmail === "string" ? rawContactEmail : null;
+  const ownerEmails = [ticket.creatorEmail, contactEmail]
+    .filter((value): value is string => !!value)
+    .map((value) => value.trim().toLowerCase());
+
+  if (!email.fromEmail || !ownerEmails.includes(email.fromEmail.toLowerCase())) {
+    return { status: "forbidden", ticketId };
+  }
+
+  const body = extractReplyText(email.text);
+  if (!body) {
+    return { status: "empty", ticketId };
+  }
+
+  let commentId: number;
+  try {
+    commentId = await db.transaction(async (tx) => {
+      // Reload inside the transaction so the status transition sees the latest state
+      const [freshTicket] = await tx
+        .select({ metadata: tickets.metadata, status: ticket_statuses.value })
+        .from(tickets)
+        .leftJoin(ticket_statuses, eq(ticket_statuses.id, tickets.status_id))
+        .where(eq(tickets.id, ticketId))
+        .limit(1);
+
+      if (!freshTicket) throw new Error("Ticket not found in transaction");
+
+      const freshMetadata =
+        freshTicket.metadata && typeof freshTicket.metadata === "object" && !Array.isArray(freshTicket.metadata)
+          ? (freshTicket.metadata as TicketMetadata)
+          : {};
+
+      const commentRow = await addTicketComment(
+        {
+          ticketId,
+          body,
+          authorId: ticket.creatorId,
+          authorName: ticket.creatorName || email.fromName || email.fromEmail,
+          authorRole: USER_ROLE.STUDENT,
+          commentType: COMMENT_TYPE.STUDENT_VISIBLE,
+          source: COMMENT_SOURCE.EMAIL,
+          externalId: email.messageId,
+        },
+        tx
+      );
+
+      const statusValue = freshTicket.status || null;
+      const currentStatus = statusValue ? (getCanonicalStatus(statusValue) || statusValue.toLowerCase()) : "";
+      const updateData: Partial<TicketInsert> = {
+        updated_at: new Date(),
+        ...(await resumeFromAwaitingStudent(tx, {
+          ticketId,
+          metadata: freshMetadata,
+          currentStatus,
+          actorClerkId: ticket.creatorClerkId,
+        })),
+      };
+
+      await tx.update(tickets).set(updateData).where(eq(tickets.id, ticketId));
+
+      await tx.insert(outbox).values({
+        event_type: "ticket.comment.added",
+        payload: {
+          ticket_id: ticketId,
+          comment_id: commentRow.id,
+          added_by_clerk_id: ticket.creatorClerkId,
+          originalEmailMessageId: freshMetadata.originalEmailMessageId || null,
+          originalEmailSubject: freshMetadata.originalEmailSubject || null,
+          category_id: ticket.category_id || null,
+        },
+      });
+
+      return commentRow.id;
+    });
+  } catch (error) {
+    // A concurrent redelivery won the (source, external_id) unique constraint
+    if (email.messageId && error && typeof error === "object" && "code" in error && error.code === "23505") {
+      const existing = await findCommentByExternalId(COMMENT_SOURCE.EMAIL, email.messageId);
+      if (existing) {
+        return { status: "duplicate", ticketId: existing.ticket_id, commentId: existing.id };
+      }
+    }
+    throw error;
+  }
+
+  return { status: "created", ticketId, commentId };
+}
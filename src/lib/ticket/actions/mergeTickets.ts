@@ -0,0 +1,313 @@
+import { db } from "@/db";
+import {
+  outbox,
+  ticket_attachments,
+  ticket_comments,
+  ticket_committee_tags,
+  ticket_followers,
+  ticket_statuses,
+  tickets,
+} from "@/db/schema";
+import type { TicketMetadata } from "@/db/inferred-types";
+import { and, asc, eq, inArray, isNull, ne } from "drizzle-orm";
+import { COMMENT_SOURCE, COMMENT_TYPE, TICKET_ACTIVITY, TICKET_STATUS } from "@/conf/constants";
+import { getCachedTicketStatuses } from "@/lib/cache/cached-queries";
+import { applySlaPauseTransition } from "@/lib/sla/pauses";
+import { addTicketComment, type DbExecutor } from "@/lib/ticket/data/ticketComments";
+import { recordTicketActivity } from "@/lib/ticket/data/ticketActivity";
+
+// Keeps a single merge (and its transaction) reasonably small
+export const MAX_MERGE_TICKETS = 20;
+
+export interface MergeTicketsInput {
+  primaryTicketId: number;
+  secondaryTicketIds: number[];
+  actor: { userId: string; clerkId: string; name: string | null; role: string | null };
+  reason?: string | null;
+}
+
+export type MergeTicketsResult =
+  | {
+      ok: true;
+      primaryTicketId: number;
+      mergedTicketIds: number[];
+      /** Groups the merged tickets belonged to (callers re-check them for archiving) */
+      affectedGroupIds: number[];
+      /** comments: internal notes moved plus student-visible comments copied as internal notes */
+      moved: { comments: number; attachments: number; committeeTags: number; followers: number };
+    }
+  | { ok: false; status: 400 | 404 | 409; error: string };
+
+/**
+ * Merge duplicates into a primary ticket.
+ *
+ * In one transaction (with the tickets locked and re-checked first), for every secondary ticket:
+ * - internal notes (and the attachments on them) move to the primary
+ * - student-visible comments and other attachments stay on the secondary, so one student's
+ *   conversation is never shown to another; staff get a copy of each comment on the primary
+ *   as an internal note
+ * - committee tags and followers are copied to the primary (already-present ones are skipped);
+ *   the secondary's creator becomes a follower of the primary (status updates only)
+ * - the secondary is closed with the final "merged" status and merged_into_id = primary
+ * - a student-visible note on the secondary points at the primary
+ * Both sides get a ticket_activity row and the secondary emits a ticket.status.updated event.
+ */
+export async function mergeTickets({
+  primaryTicketId,
+  secondaryTicketIds,
+  actor,
+  reason,
+}: MergeTicketsInput): Promise<MergeTicketsResult> {
+  const secondaryIds = Array.from(new Set(secondaryTicketIds)).filter((id) => id !== primaryTicketId);
+  if (secondaryIds.length === 0) {
+    return { ok: false, status: 400, error: "Select at least one other ticket to merge" };
+  }
+  if (secondaryIds.length > MAX_MERGE_TICKETS) {
+    return { ok: false, status: 400, error: `At most ${MAX_MERGE_TICKETS} tickets can be merged at once` };
+  }
+
+  const preCheck = checkMergeRows(await loadMergeRows(db, primaryTicketId, secondaryIds), primaryTicketId, secondaryIds);
+  if (!preCheck.ok) return preCheck;
+
+  const statuses = await getCachedTicketStatuses();
+  const mergedStatus = statuses.find((s) => s.value.toLowerCase() === TICKET_STATUS.MERGED);
+  if (!mergedStatus?.id) {
+    return { ok: false, status: 409, error: `Status "${TICKET_STATUS.MERGED}" is not configured` };
+  }
+
+  const now = new Date();
+  const moved = { comments: 0, attachments: 0, committeeTags: 0, followers: 0 };
+
+  return db.transaction(async (tx): Promise<MergeTicketsResult> => {
+    // Lock the tickets and re-check them: a concurrent merge may have closed or merged one since
+    const check = checkMergeRows(await loadMergeRows(tx, primaryTicketId, secondaryIds, true), primaryTicketId, secondaryIds);
+    if (!check.ok) return check;
+    const { primary, secondaries } = check;
+
+    // Internal notes move with their attachments (keeping the comment_id links)
+    const movedComments = await tx
+      .update(ticket_comments)
+      .set({ ticket_id: primaryTicketId })
+      .where(
+        and(
+          inArray(ticket_comments.ticket_id, secondaryIds),
+          ne(ticket_comments.comment_type, COMMENT_TYPE.STUDENT_VISIBLE)
+        )
+      )
+      .returning({ id: ticket_comments.id });
+    moved.comments = movedComments.length;
+
+    if (movedComments.length > 0) {
+      const movedAttachments = await tx
+        .update(ticket_attachments)
+        .set({ ticket_id: primaryTicketId })
+        .where(
+          and(
+            inArray(ticket_attachments.ticket_id, secondaryIds),
+            inArray(ticket_attachments.comment_id, movedComments.map((comment) => comment.id))
+          )
+        )
+        .returning({ id: ticket_attachments.id });
+      moved.attachments = movedAttachments.length;
+    }
+
+    // Student-visible comments stay with their student; staff see them on the primary as internal notes
+    const visibleComments = await tx
+      .select({
+        ticket_id: ticket_comments.ticket_id,
+        author_id: ticket_comments.author_id,
+        author_name: ticket_comments.author_name,
+        author_role: ticket_comments.author_role,
+        body: ticket_comments.body,
+        created_at: ticket_comments.created_at,
+      })
+      .from(ticket_comments)
+      .where(
+        and(
+          inArray(ticket_comments.ticket_id, secondaryIds),
+          eq(ticket_comments.comment_type, COMMENT_TYPE.STUDENT_VISIBLE),
+          isNull(ticket_comments.deleted_at)
+        )
+      )
+      .orderBy(asc(ticket_comments.created_at), asc(ticket_comments.id));
+    for (const comment of visibleComments) {
+      await addTicketComment(
+        {
+          ticketId: primaryTicketId,
+          body: `From merged ticket #${comment.ticket_id}:\n${comment.body}`,
+          authorId: comment.author_id,
+          authorName: comment.author_name,
+          authorRole: comment.author_role,
+          commentType: COMMENT_TYPE.INTERNAL_NOTE,
+          source: COMMENT_SOURCE.WEB,
+          createdAt: comment.created_at,
+        },
+        tx
+      );
+    }
+    moved.comments += visibleComments.length;
+
+    // Committee tags: copy to the primary, then drop from the secondaries
+    const tags = await tx
+      .select({
+        committee_id: ticket_committee_tags.committee_id,
+        tagged_by: ticket_committee_tags.tagged_by,
+        reason: ticket_committee_tags.reason,
+      })
+      .from(ticket_committee_tags)
+      .where(inArray(ticket_committee_tags.ticket_id, secondaryIds));
+    if (tags.length > 0) {
+      const insertedTags = await tx
+        .insert(ticket_committee_tags)
+        .values(tags.map((tag) => ({ ...tag, ticket_id: primaryTicketId })))
+        .onConflictDoNothing()
+        .returning({ id: ticket_committee_tags.id });
+      moved.committeeTags = insertedTags.length;
+      await tx.delete(ticket_committee_tags).where(inArray(ticket_committee_tags.ticket_id, secondaryIds));
+    }
+
+    // Followers: the secondaries' followers and creators now follow the primary
+    const followers = await tx
+      .select({ user_id: ticket_followers.user_id })
+      .from(ticket_followers)
+      .where(inArray(ticket_followers.ticket_id, secondaryIds));
+    const followerIds = new Set<string>(followers.map((row) => row.user_id));
+    for (const secondary of secondaries) {
+      if (secondary.created_by) followerIds.add(secondary.created_by);
+    }
+    if (primary.created_by) followerIds.delete(primary.created_by);
+    if (followerIds.size > 0) {
+      const insertedFollowers = await tx
+        .insert(ticket_followers)
+        .values(Array.from(followerIds).map((userId) => ({ ticket_id: primaryTicketId, user_id: userId })))
+        .onConflictDoNothing()
+        .returning({ id: ticket_followers.id });
+      moved.followers = insertedFollowers.length;
+    }
+    await tx.delete(ticket_followers).where(inArray(ticket_followers.ticket_id, secondaryIds));
+
+    // Close each secondary as merged
+    for (const secondary of secondaries) {
+      const metadata = (secondary.metadata && typeof secondary.metadata === "object" ? secondary.metadata : {}) as TicketMetadata;
+      const slaUpdates = await applySlaPauseTransition(tx, secondary.id, TICKET_STATUS.MERGED, {
+        metadata,
+        shiftDueDate: false,
+        at: now,
+      });
+
+      await tx
+        .update(tickets)
+        .set({
+          ...slaUpdates,
+          status_id: mergedStatus.id,
+          merged_into_id: primaryTicketId,
+          updated_at: now,
+          metadata: { ...metadata, closed_at: now.toISOString(), merged_into: primaryTicketId } as unknown,
+        })
+        .where(eq(tickets.id, secondary.id));
+
+      await addTicketComment(
+        {
+          ticketId: secondary.id,
+          body: `This ticket reports the same issue as ticket #${primaryTicketId} and has been merged into it. You'll be notified when the status of #${primaryTicketId} changes.`,
+          authorId: actor.userId,
+          authorName: actor.name,
+          authorRole: actor.role,
+          commentType: COMMENT_TYPE.STUDENT_VISIBLE,
+          source: COMMENT_SOURCE.WEB,
+        },
+        tx
+      );
+
+      await recordTicketActivity(
+        {
+          ticketId: secondary.id,
+          action: TICKET_ACTIVITY.MERGED_INTO,
+          userId: actor.userId,
+          details: { primary_ticket_id: primaryTicketId, previous_status: secondary.status, reason: reason ?? null },
+        },
+        tx
+      );
+
+      await tx.insert(outbox).values({
+        event_type: "ticket.status.updated",
+        payload: {
+          ticket_id: secondary.id,
+          old_status: secondary.status,
+          new_status: TICKET_STATUS.MERGED,
+          updated_by_clerk_id: actor.clerkId,
+          merged_into: primaryTicketId,
+        },
+      });
+    }
+
+    await tx.update(tickets).set({ updated_at: now }).where(eq(tickets.id, primaryTicketId));
+
+    await recordTicketActivity(
+      {
+        ticketId: primaryTicketId,
+        action: TICKET_ACTIVITY.MERGED,
+        userId: actor.userId,
+        details: { merged_ticket_ids: secondaryIds, moved, reason: reason ?? null },
+      },
+      tx
+    );
+
+    const affectedGroupIds = Array.from(
+      new Set(secondaries.map((row) => row.group_id).filter((id): id is number => id !== null))
+    );
+    return { ok: true, primaryTicketId, mergedTicketIds: secondaryIds, affectedGroupIds, moved };
+  });
+}
+
+async function loadMergeRows(executor: DbExecutor, primaryTicketId: number, secondaryIds: number[], lock = false) {
+  const query = executor
+    .select({
+      id: tickets.id,
+      created_by: tickets.created_by,
+      metadata: tickets.metadata,
+      merged_into_id: tickets.merged_into_id,
+      group_id: tickets.group_id,
+      status: ticket_statuses.value,
+      is_final: ticket_statuses.is_final,
+    })
+    .from(tickets)
+    .innerJoin(ticket_statuses, eq(ticket_statuses.id, tickets.status_id))
+    .where(inArray(tickets.id, [primaryTicketId, ...secondaryIds]))
+    // Consistent lock order so overlapping merges wait instead of deadlocking
+    .orderBy(asc(tickets.id));
+  return lock ? query.for("update", { of: tickets }) : query;
+}
+
+type MergeRow = Awaited<ReturnType<typeof loadMergeRows>>[number];
+
+function checkMergeRows(
+  rows: MergeRow[],
+  primaryTicketId: number,
+  secondaryIds: number[]
+): { ok: true; primary: MergeRow; secondaries: MergeRow[] } | { ok: false; status: 404 | 409; error: string } {
+  const primary = rows.find((row) => row.id === primaryTicketId);
+  if (!primary) {
+    return { ok: false, status: 404, error: `Ticket #${primaryTicketId} not found` };
+  }
+  if (primary.merged_into_id || primary.is_final) {
+    return { ok: false, status: 409, error: `Ticket #${primaryTicketId} is closed and cannot receive merged tickets` };
+  }
+
+  const secondaries = rows.filter((row) => row.id !== primaryTicketId);
+  const missing = secondaryIds.filter((id) => !secondaries.some((row) => row.id === id));
+  if (missing.length > 0) {
+    return { ok: false, status: 404, error: `Ticket${missing.length > 1 ? "s" : ""} not found: #${missing.join(", #")}` };
+  }
+  const alreadyMerged = secondaries.filter((row) => row.merged_into_id);
+  if (alreadyMerged.length > 0) {
+    return {
+      ok: false,
+      status: 409,
+      error: `Already merged: #${alreadyMerged.map((row) => row.id).join(", #")}`,
+    };
+  }
+
+  return { ok: true, primary, secondaries };
+}
+
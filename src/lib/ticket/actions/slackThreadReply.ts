@@ -0,0 +1,232 @@
+import { db } from "@/db";
+import { admin_profiles, outbox, roles, ticket_integrations, tickets, users } from "@/db/schema";
+import type { TicketMetadata } from "@/db/inferred-types";
+import { eq, sql } from "drizzle-orm";
+import { slackConfig } from "@/conf/config";
+import { getSlackChannelName } from "@/lib/integration/slack";
+import { COMMENT_SOURCE, COMMENT_TYPE, type CommentTypeValue } from "@/conf/constants";
+import { addTicketComment, findCommentByExternalId } from "@/lib/ticket/data/ticketComments";
+
+export interface SlackThreadMessage {
+  channel: string;
+  ts: string;
+  threadTs: string;
+  slackUserId: string;
+  text: string;
+}
+
+export type SlackThreadReplyResult =
+  | { status: "created"; ticketId: number; commentId: number; commentType: CommentTypeValue }
+  | { status: "duplicate"; ticketId: number; commentId: number }
+  | { status: "unknown_thread" }
+  | { status: "unknown_user"; ticketId: number }
+  | { status: "empty"; ticketId: number };
+
+// Leading markers that choose the comment visibility; the marker itself is stripped
+const PUBLIC_MARKERS = [/^!(public|reply)\b[:\s]*/i, /^public:\s*/i, /^:(speech_balloon|mega):\s*/];
+const INTERNAL_MARKERS = [/^!(internal|note)\b[:\s]*/i, /^internal:\s*/i, /^:lock:\s*/];
+
+/**
+ * Decide whether a thread reply is a public comment or an internal note.
+ *
+ * - "!public" / "!reply" / "public:" / :speech_balloon: / :mega: → student-visible
+ * - "!internal" / "!note" / "internal:" / :lock: → internal note
+ * - no marker → SLACK_THREAD_SYNC_DEFAULT (internal unless set to "public")
+ */
+export function parseSlackCommentVisibility(text: string): { commentType: CommentTypeValue; body: string } {
+  const trimmed = text.trim();
+
+  for (const marker of PUBLIC_MARKERS) {
+    if (marker.test(trimmed)) {
+      return { commentType: COMMENT_TYPE.STUDENT_VISIBLE, body: trimmed.replace(marker, "").trim() };
+    }
+  }
+  for (const marker of INTERNAL_MARKERS) {
+    if (marker.test(trimmed)) {
+      return { commentType: COMMENT_TYPE.INTERNAL_NOTE, body: trimmed.replace(marker, "").trim() };
+    }
+  }
+
+  return {
+    commentType: slackConfig.threadSyncDefaultVisibility === "public" ? COMMENT_TYPE.STUDENT_VISIBLE : COMMENT_TYPE.INTERNAL_NOTE,
+    body: trimmed,
+  };
+}
+
+/**
+ * Convert Slack mrkdwn escapes and link syntax to plain text
+ */
+export function slackTextToPlain(text: string): string {
+  return text
+    .replace(/<((?:https?|mailto):[^|>]+)\|([^>]+)>/g, "$2 ($1)")
+    .replace(/<((?:https?|mailto):[^>]+)>/g, "$1")
+    .replace(/<#[A-Z0-9]+\|([^>]+)>/g, "#$1")
+    .replace(/<@([A-Z0-9]+)(?:\|([^>]+))?>/g, (_, id: string, name?: string) => `@${name || id}`)
+    .replace(/<!(here|channel|everyone)>/g, "@$1")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
+
+// Channel IDs as Slack sends them in events (public, private, DM, multi-party DM)
+const SLACK_CHANNEL_ID = /^[CGDZ][A-Z0-9]+$/;
+
+/**
+ * Whether the channel stored for a ticket (an ID, or a name as configured in
+ * notification_config / env) is the channel an event came from
+ */
+async function slackChannelMatches(
+  stored: string | null,
+  channelId: string,
+  resolveName: () => Promise<string | null>
+): Promise<boolean> {
+  if (!stored) return false;
+  if (stored === channelId) return true;
+  if (SLACK_CHANNEL_ID.test(stored)) return false;
+
+  const name = await resolveName();
+  return !!name && stored.replace(/^#/, "").toLowerCase() === name.toLowerCase();
+}
+
+/**
+ * Find the ticket whose root Slack message is `threadTs` in `channel`.
+ * Message timestamps are only unique within a channel, so the channel the ticket was
+ * posted to (metadata.slackChannel) must match too.
+ * ticket_integrations.slack_thread_id first; tickets created before it was populated
+ * only have metadata.slackMessageTs.
+ */
+export async function findTicketForSlackThread(channel: string, threadTs: string): Promise<number | null> {
+  const storedChannel = sql<string | null>`${tickets.metadata}->>'slackChannel'`;
+
+  const integrationMatches = await db
+    .select({ ticketId: ticket_integrations.ticket_id, channel: storedChannel })
+    .from(ticket_integrations)
+    .innerJoin(tickets, eq(tickets.id, ticket_integrations.ticket_id))
+    .where(eq(ticket_integrations.slack_thread_id, threadTs));
+
+  let channelName: Promise<string | null> | null = null;
+  const resolveName = () => (channelName ??= getSlackChannelName(channel));
+
+  for (const candidate of integrationMatches) {
+    if (await slackChannelMatches(candidate.channel, channel, resolveName)) {
+      return candidate.ticketId;
+    }
+  }
+
+  const legacyMatches = await db
+    .select({ ticketId: tickets.id, channel: storedChannel })
+    .from(tickets)
+    .where(sql`${tickets.metadata}->>'slackMessageTs' = ${threadTs}`);
+
+  for (const candidate of legacyMatches) {
+    if (await slackChannelMatches(candidate.channel, channel, resolveName)) {
+      return candidate.ticketId;
+    }
+  }
+  return null;
+}
+
+/**
+ * Store an admin's reply in a ticket's Slack thread as a comment.
+ *
+ * The Slack user must map to a portal admin via admin_profiles.slack_user_id.
+ * The comment is recorded with source "slack", so the comment worker does not post it back
+ * into the thread; public comments are still emailed to the student.
+ */
+export async function addSlackThreadReply(message: SlackThreadMessage): Promise<SlackThreadReplyResult> {
+  const ticketId = await findTicketForSlackThread(message.channel, message.threadTs);
+  if (!ticketId) {
+    return { status: "unknown_thread" };
+  }
+
+  // Slack retries events it did not see acknowledged within 3 seconds
+  const externalId = `${message.channel}:${message.ts}`;
+  const existing = await findCommentByExternalId(COMMENT_SOURCE.SLACK, externalId);
+  if (existing) {
+    return { status: "duplicate", ticketId: existing.ticket_id, commentId: existing.id };
+  }
+
+  const [author] = await db
+    .select({
+      id: users.id,
+      full_name: users.full_name,
+      external_id: users.external_id,
+      role: roles.name,
+    })
+    .from(admin_profiles)
+    .innerJoin(users, eq(users.id, admin_profiles.user_id))
+    .leftJoin(roles, eq(roles.id, users.role_id))
+    .where(eq(admin_profiles.slack_user_id, message.slackUserId))
+    .limit(1);
+
+  if (!author) {
+    return { status: "unknown_user", ticketId };
+  }
+
+  const { commentType, body } = parseSlackCommentVisibility(slackTextToPlain(message.text));
+  if (!body) {
+    return { status: "empty", ticketId };
+  }
+
+  const sentAt = new Date(parseFloat(message.ts) * 1000);
+
+  let commentId: number;
+  try {
+    commentId = await db.transaction(async (tx) => {
+      const [ticket] = await tx
+        .select({ metadata: tickets.metadata, category_id: tickets.category_id })
+        .from(tickets)
+        .where(eq(tickets.id, ticketId))
+        .limit(1);
+
+      if (!ticket) throw new Error("Ticket not found in transaction");
+
+      const metadata =
+        ticket.metadata && typeof ticket.metadata === "object" && !Array.isArray(ticket.metadata)
+          ? (ticket.metadata as TicketMetadata)
+          : {};
+
+      const commentRow = await addTicketComment(
+        {
+          ticketId,
+          body,
+          authorId: author.id,
+          authorName: author.full_name || message.slackUserId,
+          authorRole: author.role || "admin",
+          commentType,
+          source: COMMENT_SOURCE.SLACK,
+          externalId,
+          createdAt: Number.isNaN(sentAt.getTime()) ? undefined : sentAt,
+        },
+        tx
+      );
+
+      await tx.update(tickets).set({ updated_at: new Date() }).where(eq(tickets.id, ticketId));
+
+      await tx.insert(outbox).values({
+        event_type: "ticket.comment.added",
+        payload: {
+          ticket_id: ticketId,
+          comment_id: commentRow.id,
+          added_by_clerk_id: author.external_id,
+          originalEmailMessageId: metadata.originalEmailMessageId || null,
+          originalEmailSubject: metadata.originalEmailSubject || null,
+          category_id: ticket.category_id || null,
+        },
+      });
+
+      return commentRow.id;
+    });
+  } catch (error) {
+    // A concurrent retry of the same event won the (source, external_id) unique constraint
+    if (error && typeof error === "object" && "code" in error && error.code === "23505") {
+      const duplicate = await findCommentByExternalId(COMMENT_SOURCE.SLACK, externalId);
+      if (duplicate) {
+        return { status: "duplicate", ticketId: duplicate.ticket_id, commentId: duplicate.id };
+      }
+    }
+    throw error;
+  }
+
+  return { status: "created", ticketId, commentId, commentType };
+}
@@ -0,0 +1,249 @@
+import { db } from "@/db";
+import {
+  categories,
+  outbox,
+  subcategories,
+  ticket_attachments,
+  ticket_comments,
+  ticket_statuses,
+  tickets,
+  users,
+} from "@/db/schema";
+import { and, eq, inArray, or } from "drizzle-orm";
+import { COMMENT_SOURCE, COMMENT_TYPE, TICKET_ACTIVITY, TICKET_STATUS } from "@/conf/constants";
+import { getCachedTicketStatuses } from "@/lib/cache/cached-queries";
+import { computeSlaDueDates, resolveBusinessCalendar } from "@/lib/sla/calendars";
+import { addTicketComment } from "@/lib/ticket/data/ticketComments";
+import { recordTicketActivity } from "@/lib/ticket/data/ticketActivity";
+
+export interface SplitTicketInput {
+  parentTicketId: number;
+  /** What the new ticket is about */
+  description: string;
+  /** Defaults to the parent's category (and subcategory when the category is unchanged) */
+  categoryId?: number | null;
+  subcategoryId?: number | null;
+  /** Parent comments that belong to the new problem; their attachments move with them */
+  commentIds?: number[];
+  attachmentIds?: number[];
+  actor: { userId: string; clerkId: string; name: string | null; role: string | null };
+}
+
+export type SplitTicketResult =
+  | {
+      ok: true;
+      parentTicketId: number;
+      childTicketId: number;
+      moved: { comments: number; attachments: number };
+    }
+  | { ok: false; status: 400 | 404 | 409; error: string };
+
+/**
+ * Split a ticket that reports two unrelated problems.
+ *
+ * The child ticket is filed for the same student and inherits the parent's location,
+ * scope, assignee and submitted profile data (metadata.profile); it gets its own
+ * category/subcategory, SLA due dates and parent_ticket_id link. Selected comments and
+ * attachments move to it. Both tickets get a ticket_activity row, the parent a
+ * student-visible note, and the child a ticket.created event like any new ticket.
+ */
+export async function splitTicket({
+  parentTicketId,
+  description,
+  categoryId,
+  subcategoryId,
+  commentIds = [],
+  attachmentIds = [],
+  actor,
+}: SplitTicketInput): Promise<SplitTicketResult> {
+  const [parent] = await db
+    .select({
+      id: tickets.id,
+      category_id: tickets.category_id,
+      subcategory_id: tickets.subcategory_id,
+      scope_id: tickets.scope_id,
+      location: tickets.location,
+      created_by: tickets.created_by,
+      assigned_to: tickets.assigned_to,
+      metadata: tickets.metadata,
+      merged_into_id: tickets.merged_into_id,
+      is_final: ticket_statuses.is_final,
+      creator_clerk_id: users.external_id,
+    })
+    .from(tickets)
+    .innerJoin(ticket_statuses, eq(ticket_statuses.id, tickets.status_id))
+    .leftJoin(users, eq(users.id, tickets.created_by))
+    .where(eq(tickets.id, parentTicketId))
+    .limit(1);
+
+  if (!parent) {
+    return { ok: false, status: 404, error: `Ticket #${parentTicketId} not found` };
+  }
+  if (parent.merged_into_id || parent.is_final) {
+    return { ok: false, status: 409, error: "Closed tickets cannot be split; reopen the ticket first" };
+  }
+
+  const childCategoryId = categoryId ?? parent.category_id;
+  if (!childCategoryId) {
+    return { ok: false, status: 400, error: "A category is required for the new ticket" };
+  }
+  const [category] = await db
+    .select({
+      id: categories.id,
+      name: categories.name,
+      is_active: categories.is_active,
+      domain_id: categories.domain_id,
+      sla_hours: categories.sla_hours,
+    })
+    .from(categories)
+    .where(eq(categories.id, childCategoryId))
+    .limit(1);
+  if (!category || !category.is_active) {
+    return { ok: false, status: 400, error: "Category not found or inactive" };
+  }
+
+  // Keep the parent's subcategory only when the category is unchanged and none was given
+  const childSubcategoryId =
+    subcategoryId !== undefined ? subcategoryId : childCategoryId === parent.category_id ? parent.subcategory_id : null;
+  let subcategory: { id: number; name: string; sla_hours: number | null } | null = null;
+  if (childSubcategoryId) {
+    const [row] = await db
+      .select({
+        id: subcategories.id,
+        name: subcategories.name,
+        is_active: subcategories.is_active,
+        sla_hours: subcategories.sla_hours,
+      })
+      .from(subcategories)
+      .where(and(eq(subcategories.id, childSubcategoryId), eq(subcategories.category_id, category.id)))
+      .limit(1);
+    if (!row || !row.is_active) {
+      return { ok: false, status: 400, error: "Subcategory not found, inactive or not in the selected category" };
+    }
+    subcategory = { id: row.id, name: row.name, sla_hours: row.sla_hours };
+  }
+
+  const statuses = await getCachedTicketStatuses();
+  const openStatus = statuses.find((s) => s.value.toLowerCase() === TICKET_STATUS.OPEN);
+  if (!openStatus?.id) {
+    return { ok: false, status: 409, error: `Status "${TICKET_STATUS.OPEN}" is not configured` };
+  }
+
+  const parentMetadata =
+    parent.metadata && typeof parent.metadata === "object" && !Array.isArray(parent.metadata)
+      ? (parent.metadata as Record<string, unknown>)
+      : {};
+  const now = new Date();
+  const slaDueDates = computeSlaDueDates(
+    now,
+    await resolveBusinessCalendar({ scopeId: parent.scope_id, domainId: category.domain_id }),
+    subcategory?.sla_hours ?? category.sla_hours
+  );
+
+  const { child, moved } = await db.transaction(async (tx) => {
+    const [child] = await tx
+      .insert(tickets)
+      .values({
+        created_by: parent.created_by,
+        category_id: category.id,
+        subcategory_id: subcategory?.id ?? null,
+        scope_id: parent.scope_id,
+        location: parent.location,
+        status_id: openStatus.id,
+        description: description.trim(),
+        assigned_to: parent.assigned_to,
+        parent_ticket_id: parent.id,
+        acknowledgement_due_at: slaDueDates.acknowledgement_due_at,
+        resolution_due_at: slaDueDates.resolution_due_at,
+        metadata: {
+          ...(parentMetadata.profile ? { profile: parentMetadata.profile } : {}),
+          ...(subcategory ? { subcategory: subcategory.name, subcategoryId: subcategory.id } : {}),
+          dynamic_fields: {},
+          used_field_ids: [],
+          images: [],
+          split_from: parent.id,
+        },
+      })
+      .returning({ id: tickets.id });
+
+    if (!child) {
+      throw new Error(`Failed to create the ticket split from #${parent.id}`);
+    }
+
+    const moved = { comments: 0, attachments: 0 };
+    if (commentIds.length > 0) {
+      const movedComments = await tx
+        .update(ticket_comments)
+        .set({ ticket_id: child.id })
+        .where(and(eq(ticket_comments.ticket_id, parent.id), inArray(ticket_comments.id, commentIds)))
+        .returning({ id: ticket_comments.id });
+      moved.comments = movedComments.length;
+    }
+    if (commentIds.length > 0 || attachmentIds.length > 0) {
+      const movedAttachments = await tx
+        .update(ticket_attachments)
+        .set({ ticket_id: child.id })
+        .where(
+          and(
+            eq(ticket_attachments.ticket_id, parent.id),
+            or(
+              attachmentIds.length > 0 ? inArray(ticket_attachments.id, attachmentIds) : undefined,
+              commentIds.length > 0 ? inArray(ticket_attachments.comment_id, commentIds) : undefined
+            )
+          )
+        )
+        .returning({ id: ticket_attachments.id });
+      moved.attachments = movedAttachments.length;
+    }
+
+    await addTicketComment(
+      {
+        ticketId: parent.id,
+        body: `Part of this ticket is about a separate issue, so it has been split out into ticket #${child.id}. Both tickets will be handled and you'll get updates on each.`,
+        authorId: actor.userId,
+        authorName: actor.name,
+        authorRole: actor.role,
+        commentType: COMMENT_TYPE.STUDENT_VISIBLE,
+        source: COMMENT_SOURCE.WEB,
+      },
+      tx
+    );
+
+    await recordTicketActivity(
+      {
+        ticketId: parent.id,
+        action: TICKET_ACTIVITY.SPLIT,
+        userId: actor.userId,
+        details: { child_ticket_id: child.id, moved },
+      },
+      tx
+    );
+    await recordTicketActivity(
+      {
+        ticketId: child.id,
+        action: TICKET_ACTIVITY.SPLIT_FROM,
+        userId: actor.userId,
+        details: { parent_ticket_id: parent.id, category: category.name, subcategory: subcategory?.name ?? null },
+      },
+      tx
+    );
+
+    await tx.update(tickets).set({ updated_at: now }).where(eq(tickets.id, parent.id));
+
+    // Same notifications as a newly filed ticket
+    await tx.insert(outbox).values({
+      event_type: "ticket.created",
+      payload: {
+        ticket_id: child.id,
+        created_by_clerk: parent.creator_clerk_id ?? undefined,
+        category: category.name,
+        split_from: parent.id,
+      },
+      attempts: 0,
+    });
+
+    return { child, moved };
+  });
+
+  return { ok: true, parentTicketId: parent.id, childTicketId: child.id, moved };
+}
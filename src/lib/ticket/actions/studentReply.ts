@@ -0,0 +1,68 @@
+import { outbox } from "@/db/schema";
+import type { TicketInsert, TicketMetadata } from "@/db/inferred-types";
+import { TICKET_STATUS } from "@/conf/constants";
+import { getCachedTicketStatuses } from "@/lib/cache/cached-queries";
+import type { DbExecutor } from "@/lib/ticket/data/ticketComments";
+import { applySlaPauseTransition } from "@/lib/sla/pauses";
+
+interface ResumeFromAwaitingStudentInput {
+  ticketId: number;
+  /** Mutable ticket metadata; tatDate is shifted in place when the SLA resumes */
+  metadata: TicketMetadata;
+  /** Canonical current status value (lowercase) */
+  currentStatus: string;
+  /** Clerk id recorded on the status change event (null for system-originated replies) */
+  actorClerkId: string | null;
+}
+
+/**
+ * Side effects of a student replying while the ticket awaits their response:
+ * resume the paused TAT and move the ticket back to IN_PROGRESS.
+ *
+ * Runs inside the caller's transaction (web comment or inbound email reply).
+ * Returns the ticket columns to update; empty when the ticket was not awaiting the student.
+ */
+export async function resumeFromAwaitingStudent(
+  tx: DbExecutor,
+  { ticketId, metadata, currentStatus, actorClerkId }: ResumeFromAwaitingStudentInput
+): Promise<Partial<TicketInsert>> {
+  if (currentStatus !== TICKET_STATUS.AWAITING_STUDENT) {
+    return {};
+  }
+
+  const updateData: Partial<TicketInsert> = {};
+
+  // 1. Close the SLA pause and push the resolution due date out by the paused working time
+  Object.assign(
+    updateData,
+    await applySlaPauseTransition(tx, ticketId, TICKET_STATUS.IN_PROGRESS, { metadata })
+  );
+  if (updateData.resolution_due_at) {
+    updateData.metadata = metadata as unknown;
+  }
+
+  // 2. Automatically change status to IN_PROGRESS
+  // Use cached statuses for better performance
+  const ticketStatuses = await getCachedTicketStatuses();
+  const inProgressStatus = ticketStatuses.find(s => s.value.toLowerCase() === TICKET_STATUS.IN_PROGRESS.toLowerCase());
+  if (inProgressStatus?.id) {
+    updateData.status_id = inProgressStatus.id;
+  } else {
+    console.error(`[resumeFromAwaitingStudent] Failed to find status_id for "${TICKET_STATUS.IN_PROGRESS}"`);
+  }
+
+  // Create status change event
+  await tx.insert(outbox).values({
+    event_type: "ticket.status.updated",
+    payload: {
+      ticket_id: ticketId,
+      old_status: currentStatus.toUpperCase(),
+      new_status: TICKET_STATUS.IN_PROGRESS.toUpperCase(),
+      updated_by_clerk_id: actorClerkId,
+      auto_changed: true,
+      reason: "Student replied to awaiting question",
+    },
+  });
+
+  return updateData;
+}
@@ -0,0 +1,311 @@
+import { db } from "@/db";
+import { categories, outbox, ticket_statuses, tickets, users } from "@/db/schema";
+import type { TicketInsert, TicketMetadata } from "@/db/inferred-types";
+import { and, desc, eq, or, isNull, sql } from "drizzle-orm";
+import { COMMENT_SOURCE, COMMENT_TYPE, TICKET_STATUS, USER_ROLE, getCanonicalStatus } from "@/conf/constants";
+import { addTicketComment, findCommentByExternalId } from "@/lib/ticket/data/ticketComments";
+import { resumeFromAwaitingStudent } from "@/lib/ticket/actions/studentReply";
+import { toE164 } from "@/lib/integration/whatsapp";
+
+export interface InboundWhatsAppMessage {
+  /** Twilio "From", e.g. whatsapp:+919876543210 */
+  from: string;
+  body: string;
+  /** Twilio MessageSid; makes comment delivery idempotent */
+  messageSid: string | null;
+}
+
+type WhatsAppSender = {
+  id: string;
+  externalId: string;
+  fullName: string | null;
+  optIn: boolean;
+};
+
+const HELP_TEXT = [
+  "Commands:",
+  "• #<ticket> <message> — add a comment",
+  "• STATUS <ticket> — ticket status",
+  "• STATUS — your open tickets",
+  "• RATE <ticket> <1-5> — rate a resolved ticket",
+  "• STOP / START — turn WhatsApp updates off / on",
+].join("\n");
+
+const RECENT_TICKETS_LIMIT = 5;
+
+function formatStatus(status: string): string {
+  return status.replace(/_/g, " ").replace(/\b\w/g, (letter) => letter.toUpperCase());
+}
+
+function readMetadata(value: unknown): TicketMetadata {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as TicketMetadata) : {};
+}
+
+/**
+ * The account a WhatsApp number belongs to. Stored numbers are free-form, so candidates are
+ * narrowed on the last 10 digits in SQL and then compared in E.164 form. Ambiguous numbers
+ * (shared by several accounts) are treated as unknown.
+ */
+export async function findUserByWhatsAppNumber(from: string): Promise<WhatsAppSender | null> {
+  const target = toE164(from);
+  if (!target) return null;
+
+  const candidates = await db
+    .select({
+      id: users.id,
+      externalId: users.external_id,
+      fullName: users.full_name,
+      phone: users.phone,
+      optIn: users.whatsapp_opt_in,
+    })
+    .from(users)
+    .where(sql`right(regexp_replace(${users.phone}, '\\D', '', 'g'), 10) = ${target.replace(/\D/g, "").slice(-10)}`)
+    .limit(5);
+
+  const matches = candidates.filter((candidate) => toE164(candidate.phone) === target);
+  const [match] = matches;
+  if (!match || matches.length > 1) return null;
+  return { id: match.id, externalId: match.externalId, fullName: match.fullName, optIn: match.optIn };
+}
+
+async function setOptIn(sender: WhatsAppSender, optIn: boolean): Promise<string> {
+  if (sender.optIn !== optIn) {
+    await db
+      .update(users)
+      .set({ whatsapp_opt_in: optIn, whatsapp_opt_in_changed_at: new Date(), updated_at: new Date() })
+      .where(eq(users.id, sender.id));
+  }
+  return optIn
+    ? "✅ You'll now get ticket updates on WhatsApp. Reply STOP to turn them off."
+    : "You won't get ticket updates on WhatsApp any more. Reply START to turn them back on.";
+}
+
+async function loadOwnTicket(sender: WhatsAppSender, ticketId: number) {
+  const [ticket] = await db
+    .select({
+      id: tickets.id,
+      createdBy: tickets.created_by,
+      metadata: tickets.metadata,
+      categoryId: tickets.category_id,
+      categoryName: categories.name,
+      status: ticket_statuses.value,
+      statusLabel: ticket_statuses.label,
+      resolutionDueAt: tickets.resolution_due_at,
+    })
+    .from(tickets)
+    .leftJoin(categories, eq(categories.id, tickets.category_id))
+    .leftJoin(ticket_statuses, eq(ticket_statuses.id, tickets.status_id))
+    .where(eq(tickets.id, ticketId))
+    .limit(1);
+
+  // Other people's tickets look the same as missing ones
+  return ticket && ticket.createdBy === sender.id ? ticket : null;
+}
+
+async function describeTicket(sender: WhatsAppSender, ticketId: number): Promise<string> {
+  const ticket = await loadOwnTicket(sender, ticketId);
+  if (!ticket) {
+    return `Ticket #${ticketId} was not found on your account.`;
+  }
+
+  const metadata = readMetadata(ticket.metadata);
+  const lines = [
+    `📝 Ticket #${ticket.id} (${ticket.categoryName || "Unknown"})`,
+    `Status: ${ticket.statusLabel || formatStatus(ticket.status || "unknown")}`,
+  ];
+  if (metadata.tat) {
+    const due = metadata.tatDate ? ` (by ${new Date(metadata.tatDate).toLocaleDateString("en-IN")})` : "";
+    lines.push(`Expected resolution: ${metadata.tat}${due}`);
+  } else if (ticket.resolutionDueAt) {
+    lines.push(`Expected resolution by ${ticket.resolutionDueAt.toLocaleDateString("en-IN")}`);
+  }
+  return lines.join("\n");
+}
+
+async function listOpenTickets(sender: WhatsAppSender): Promise<string> {
+  const rows = await db
+    .select({ id: tickets.id, categoryName: categories.name, statusLabel: ticket_statuses.label })
+    .from(tickets)
+    .leftJoin(categories, eq(categories.id, tickets.category_id))
+    .leftJoin(ticket_statuses, eq(ticket_statuses.id, tickets.status_id))
+    .where(
+      and(
+        eq(tickets.created_by, sender.id),
+        or(isNull(ticket_statuses.is_final), eq(ticket_statuses.is_final, false))
+      )
+    )
+    .orderBy(desc(tickets.updated_at))
+    .limit(RECENT_TICKETS_LIMIT);
+
+  if (rows.length === 0) {
+    return "You have no open tickets.";
+  }
+  return [
+    "Your open tickets:",
+    ...rows.map((row) => `• #${row.id} ${row.categoryName || "Unknown"} — ${row.statusLabel || "Unknown"}`),
+    "",
+    'Reply "STATUS <ticket>" for details.',
+  ].join("\n");
+}
+
+/**
+ * Store the message as a student-visible comment. Mirrors an email reply
+ * (lib/ticket/actions/inboundEmailReply.ts): resumes TAT if the ticket was awaiting the
+ * student and enqueues ticket.comment.added.
+ */
+async function addComment(
+  sender: WhatsAppSender,
+  ticketId: number,
+  body: string,
+  messageSid: string | null
+): Promise<string> {
+  // Twilio retries when our response is slow; the MessageSid makes delivery idempotent
+  if (messageSid && (await findCommentByExternalId(COMMENT_SOURCE.WHATSAPP, messageSid))) {
+    return `Your comment on ticket #${ticketId} was already added.`;
+  }
+
+  const ticket = await loadOwnTicket(sender, ticketId);
+  if (!ticket) {
+    return `Ticket #${ticketId} was not found on your account.`;
+  }
+
+  try {
+    await db.transaction(async (tx) => {
+      const [freshTicket] = await tx
+        .select({ metadata: tickets.metadata, status: ticket_statuses.value })
+        .from(tickets)
+        .leftJoin(ticket_statuses, eq(ticket_statuses.id, tickets.status_id))
+        .where(eq(tickets.id, ticketId))
+        .limit(1);
+
+      if (!freshTicket) throw new Error("Ticket not found in transaction");
+
+      const freshMetadata = readMetadata(freshTicket.metadata);
+      const commentRow = await addTicketComment(
+        {
+          ticketId,
+          body,
+          authorId: sender.id,
+          authorName: sender.fullName || "Student",
+          authorRole: USER_ROLE.STUDENT,
+          commentType: COMMENT_TYPE.STUDENT_VISIBLE,
+          source: COMMENT_SOURCE.WHATSAPP,
+          externalId: messageSid,
+        },
+        tx
+      );
+
+      const statusValue = freshTicket.status || null;
+      const currentStatus = statusValue ? (getCanonicalStatus(statusValue) || statusValue.toLowerCase()) : "";
+      const updateData: Partial<TicketInsert> = {
+        updated_at: new Date(),
+        ...(await resumeFromAwaitingStudent(tx, {
+          ticketId,
+          metadata: freshMetadata,
+          currentStatus,
+          actorClerkId: sender.externalId,
+        })),
+      };
+
+      await tx.update(tickets).set(updateData).where(eq(tickets.id, ticketId));
+
+      await tx.insert(outbox).values({
+        event_type: "ticket.comment.added",
+        payload: {
+          ticket_id: ticketId,
+          comment_id: commentRow.id,
+          added_by_clerk_id: sender.externalId,
+          originalEmailMessageId: freshMetadata.originalEmailMessageId || null,
+          originalEmailSubject: freshMetadata.originalEmailSubject || null,
+          category_id: ticket.categoryId || null,
+        },
+      });
+    });
+  } catch (error) {
+    // A concurrent redelivery won the (source, external_id) unique constraint
+    if (messageSid && error && typeof error === "object" && "code" in error && error.code === "23505") {
+      return `Your comment on ticket #${ticketId} was already added.`;
+    }
+    throw error;
+  }
+
+  return `💬 Your comment was added to ticket #${ticketId}.`;
+}
+
+/**
+ * Same rules as POST /api/tickets/[id]/rate: own ticket, resolved or closed, rated once
+ */
+async function rateTicket(sender: WhatsAppSender, ticketId: number, rating: number): Promise<string> {
+  const ticket = await loadOwnTicket(sender, ticketId);
+  if (!ticket) {
+    return `Ticket #${ticketId} was not found on your account.`;
+  }
+
+  const status = getCanonicalStatus(ticket.status);
+  if (status !== TICKET_STATUS.RESOLVED && status !== TICKET_STATUS.CLOSED) {
+    return `You can only rate closed or resolved tickets. Ticket #${ticketId} is ${formatStatus(ticket.status || "unknown")}.`;
+  }
+
+  const metadata: Record<string, unknown> = { ...readMetadata(ticket.metadata) };
+  if (metadata.rating_submitted) {
+    return `Ticket #${ticketId} has already been rated.`;
+  }
+
+  metadata.rating = rating;
+  metadata.rating_submitted = new Date().toISOString();
+  await db
+    .update(tickets)
+    .set({ metadata: metadata as unknown, updated_at: new Date() })
+    .where(eq(tickets.id, ticketId));
+
+  return `⭐ Thanks! You rated ticket #${ticketId} ${rating}/5.`;
+}
+
+/**
+ * Handle a message a student sent to our WhatsApp number and return the reply text.
+ *
+ * The sender is identified by users.phone. Commands (case-insensitive):
+ *   #<ticket> <message> | REPLY <ticket> <message>   add a comment
+ *   STATUS [<ticket>]                                 ticket status / open tickets
+ *   RATE <ticket> <1-5>                               rate a resolved ticket
+ *   START | STOP                                      WhatsApp opt-in
+ *   HELP
+ */
+export async function handleInboundWhatsAppMessage(message: InboundWhatsAppMessage): Promise<string> {
+  const sender = await findUserByWhatsAppNumber(message.from);
+  if (!sender) {
+    return "We couldn't find an account with this number. Add it to your profile on the portal and try again.";
+  }
+
+  const text = message.body.trim();
+
+  if (/^(start|subscribe)$/i.test(text)) {
+    return setOptIn(sender, true);
+  }
+  if (/^(stop|unsubscribe)$/i.test(text)) {
+    return setOptIn(sender, false);
+  }
+  if (/^(help|\?)$/i.test(text)) {
+    return HELP_TEXT;
+  }
+
+  const status = text.match(/^status(?:\s+#?(\d+))?$/i);
+  if (status) {
+    return status[1] ? describeTicket(sender, parseInt(status[1], 10)) : listOpenTickets(sender);
+  }
+
+  const rate = text.match(/^rate\s+#?(\d+)\s+([1-5])$/i);
+  if (rate?.[1] && rate[2]) {
+    return rateTicket(sender, parseInt(rate[1], 10), parseInt(rate[2], 10));
+  }
+  if (/^rate\b/i.test(text)) {
+    return 'Reply "RATE <ticket> <1-5>", e.g. RATE 42 5.';
+  }
+
+  const reply = text.match(/^(?:#|reply\s+#?)(\d+)[\s:,-]+([\s\S]+)$/i);
+  if (reply?.[1] && reply[2]?.trim()) {
+    return addComment(sender, parseInt(reply[1], 10), reply[2].trim(), message.messageSid);
+  }
+
+  return `Sorry, we didn't understand that.\n\n${HELP_TEXT}`;
+}
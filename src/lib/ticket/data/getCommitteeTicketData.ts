@@ -13,6 +13,9 @@ import {
   getCategoryProfileFields
 } from "@/lib/category/categories";
 import { extractDynamicFields } from "../formatting/formatDynamicFields";
+import { getTicketFormVersionFields } from "@/lib/category/formVersions";
+import { getTicketComments } from "./ticketComments";
+import { getTicketSlaPauses } from "@/lib/sla/pauses";
 
 export async function getCommitteeTicketData(ticketId: number) {
   try {
@@ -192,12 +195,17 @@ export async function getCommitteeTicketData(ticketId: number) {
       : null;
 
     // 8. Extract dynamic fields
+    // Render against the form version the ticket was submitted with (if recorded)
+    const formVersionFields = await getTicketFormVersionFields(metadata);
     const dynamicFields = categorySchema && typeof categorySchema === 'object' && !Array.isArray(categorySchema)
-      ? extractDynamicFields(metadata, categorySchema as Record<string, unknown>)
+      ? extractDynamicFields(metadata, categorySchema as Record<string, unknown>, formVersionFields)
       : [];
 
-    // 9. Extract comments
-    const comments = Array.isArray(metadata?.comments) ? metadata.comments : [];
+    // 9. Fetch comments (committee is staff: internal notes included)
+    const [comments, slaPauses] = await Promise.all([
+      getTicketComments(ticketId, { includeInternal: true }),
+      getTicketSlaPauses(ticketId),
+    ]);
 
     // Build ticket object
     const ticket = {
@@ -243,6 +251,7 @@ export async function getCommitteeTicketData(ticketId: number) {
       profileFields,
       dynamicFields,
       comments,
+      slaPauses,
     };
   } catch (error) {
     console.error('[getCommitteeTicketData] Error:', error);
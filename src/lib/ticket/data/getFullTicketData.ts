@@ -13,6 +13,11 @@ import {
   getCategoryProfileFields
 } from "@/lib/category/categories";
 import { extractDynamicFields } from "../formatting/formatDynamicFields";
+import { getTicketFormVersionFields } from "@/lib/category/formVersions";
+import { getTicketComments } from "./ticketComments";
+import { getTicketLinkEvents } from "./ticketActivity";
+import { getTicketSlaPauses } from "@/lib/sla/pauses";
+import { getTicketCoverageScope, resolveAdminCoverage } from "@/lib/assignment/coverage";
 
 export async function getFullTicketData(ticketId: number, userId: string) {
   let debugStep = "start";
@@ -198,10 +203,22 @@ export async function getFullTicketData(ticketId: number, userId: string) {
         : Promise.resolve([]),
     ]);
 
+    // Who is handling the ticket while the assignee is out of office
+    debugStep = "fetch-coverage";
+    const coverage = ticketData.ticket_assigned_to
+      ? await resolveAdminCoverage(ticketData.ticket_assigned_to, await getTicketCoverageScope(ticketId))
+      : null;
+
     const assignedStaff = assignedStaffResult.length > 0
       ? {
           name: assignedStaffResult[0].user_full_name || "Unknown",
           email: assignedStaffResult[0].user_email || null,
+          coverage: coverage
+            ? {
+                awayUntil: coverage.absence.endsAt.toISOString(),
+                coveredBy: coverage.cover ? coverage.cover.name || coverage.cover.email || "Another admin" : null,
+              }
+            : null,
         }
       : null;
 
@@ -214,30 +231,19 @@ export async function getFullTicketData(ticketId: number, userId: string) {
 
     // 8. Extract dynamic fields using helper
     debugStep = "extract-dynamic-fields";
+    // Render against the form version the ticket was submitted with (if recorded)
+    const formVersionFields = await getTicketFormVersionFields(metadata);
     const dynamicFields = categorySchema && typeof categorySchema === 'object' && !Array.isArray(categorySchema)
-      ? extractDynamicFields(metadata, categorySchema as Record<string, unknown>)
+      ? extractDynamicFields(metadata, categorySchema as Record<string, unknown>, formVersionFields)
       : [];
 
-    // 9. Extract comments and normalize dates
-    const comments = Array.isArray(metadata?.comments) ? metadata.comments : [];
-    type Comment = {
-      isInternal?: boolean;
-      type?: string;
-      [key: string]: unknown;
-    };
-    debugStep = "process-comments";
-    const visibleComments = comments
-      .filter((c: Comment) => !c?.isInternal && c?.type !== "super_admin_note")
-      .map((c: Comment) => ({
-        ...c,
-        // Normalize created_at to Date object for consistent formatting
-        created_at: c.created_at
-          ? (c.created_at instanceof Date ? c.created_at : 
-             typeof c.created_at === 'string' ? new Date(c.created_at) :
-             typeof c.created_at === 'number' ? new Date(c.created_at) :
-             new Date())
-          : null,
-      }));
+    // 9. Fetch student-visible comments, SLA pause intervals and merges/splits
+    debugStep = "fetch-comments";
+    const [visibleComments, slaPauses, linkEvents] = await Promise.all([
+      getTicketComments(ticketId, { includeInternal: false }),
+      getTicketSlaPauses(ticketId),
+      getTicketLinkEvents(ticketId),
+    ]);
 
     // 10. Build timeline
     debugStep = "build-timeline";
@@ -338,6 +344,8 @@ export async function getFullTicketData(ticketId: number, userId: string) {
       profileFields: Array.isArray(profileFields) ? profileFields : [],
       dynamicFields: Array.isArray(dynamicFields) ? dynamicFields : [],
       comments: Array.isArray(visibleComments) ? visibleComments : [],
+      slaPauses,
+      linkEvents,
       timeline: Array.isArray(timeline) ? timeline : [],
       categorySchema: categorySchema || null,
       sla: {
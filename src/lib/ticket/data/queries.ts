@@ -2,6 +2,7 @@ import { db, tickets, users, categories, subcategories, ticket_statuses } from "
 import { eq, ilike, and, or, sql, asc, desc } from "drizzle-orm";
 import { getCanonicalStatus } from "@/conf/constants";
 import type { SQL } from "drizzle-orm";
+import { ticketCommentCountSql } from "./ticketComments";
 
 export interface TicketFilters {
   search?: string;
@@ -195,6 +196,7 @@ export async function getStudentTickets(params: StudentTicketQueryParams) {
       category_name: categories.name,
       creator_full_name: users.full_name,
       creator_email: users.email,
+      comment_count: ticketCommentCountSql(tickets.id),
     })
     .from(tickets)
     .leftJoin(categories, eq(tickets.category_id, categories.id))
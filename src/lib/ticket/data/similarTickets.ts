@@ -0,0 +1,247 @@
+/**
+ * Similar ticket lookup (duplicate detection)
+ *
+ * Candidates are open (non-final) tickets in the same category filed recently.
+ * Each one is scored on up to three signals:
+ * - text: its search_vector matches any significant word of the new ticket's text
+ * - subcategory: same subcategory
+ * - location: same location (case-insensitive)
+ *
+ * A candidate needs two matching signals, or every signal when fewer than two
+ * are available (e.g. no location given). Results are ordered by signals, then
+ * text relevance, then newest first.
+ *
+ * Students only get lookups anchored on a subcategory or location, so free text alone
+ * cannot be used to probe other students' tickets.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+import { db } from "@/db";
+import { categories, subcategories, ticket_followers, ticket_groups, ticket_statuses, tickets } from "@/db/schema";
+import { and, desc, eq, gte, ne, sql, type SQL } from "drizzle-orm";
+import { clerkConfig } from "@/conf/config";
+import { ticketSearchQuery } from "./ticketSearch";
+
+// Only tickets filed within this window are considered duplicates
+const SIMILAR_TICKET_WINDOW_DAYS = 30;
+// websearch_to_tsquery gets at most this many words (OR-ed)
+const MAX_QUERY_TERMS = 12;
+const DESCRIPTION_EXCERPT_LENGTH = 200;
+
+export type SimilarityMatch = "text" | "subcategory" | "location";
+
+export interface SimilarTicketQuery {
+  categoryId: number;
+  subcategoryId?: number | null;
+  location?: string | null;
+  /** Free text of the new ticket (description, field values) */
+  text?: string | null;
+  /** Ticket to leave out (the one suggestions are made for) */
+  excludeTicketId?: number;
+  /** Leave out tickets already grouped with it */
+  excludeGroupId?: number | null;
+  /** Extra condition on tickets, e.g. a staff member's ticket scope */
+  condition?: SQL;
+  /** Only match tickets sharing the subcategory or the location (student lookups) */
+  requireSubcategoryOrLocation?: boolean;
+  limit?: number;
+}
+
+export interface SimilarTicket {
+  id: number;
+  title: string | null;
+  /** First DESCRIPTION_EXCERPT_LENGTH characters */
+  description: string | null;
+  location: string | null;
+  categoryName: string | null;
+  subcategoryName: string | null;
+  status: { value: string; label: string };
+  createdAt: Date | null;
+  createdBy: string | null;
+  /** Non-archived group the ticket already belongs to */
+  group: { id: number; name: string } | null;
+  followerCount: number;
+  matchedOn: SimilarityMatch[];
+}
+
+/**
+ * Significant words of a text, OR-ed for websearch_to_tsquery; null when there are none
+ */
+export function similarityQueryText(text: string | null | undefined): string | null {
+  if (!text) return null;
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) ?? [];
+  const terms = Array.from(new Set(words)).slice(0, MAX_QUERY_TERMS);
+  return terms.length > 0 ? terms.join(" or ") : null;
+}
+
+/**
+ * Text used to compare an existing ticket: title, description and dynamic field values
+ */
+export function ticketSimilarityText(ticket: {
+  title: string | null;
+  description: string | null;
+  metadata: unknown;
+}): string {
+  const parts: string[] = [ticket.title ?? "", ticket.description ?? ""];
+  const metadata = ticket.metadata && typeof ticket.metadata === "object" ? (ticket.metadata as Record<string, unknown>) : {};
+  const dynamicFields = metadata.dynamic_fields;
+  if (dynamicFields && typeof dynamicFields === "object") {
+    for (const field of Object.values(dynamicFields as Record<string, { value?: unknown }>)) {
+      if (typeof field?.value === "string") parts.push(field.value);
+    }
+  }
+  return parts.join(" ");
+}
+
+/**
+ * Text used to compare a ticket being filed: description and string field values
+ */
+export function formSimilarityText(description: string | null | undefined, details?: Record<string, unknown> | null): string {
+  const parts: string[] = [description ?? ""];
+  for (const value of Object.values(details ?? {})) {
+    if (typeof value === "string") parts.push(value);
+  }
+  return parts.join(" ");
+}
+
+export async function findSimilarTickets(query: SimilarTicketQuery): Promise<SimilarTicket[]> {
+  const limit = Math.min(Math.max(query.limit ?? 5, 1), 20);
+  const location = query.location?.trim() || null;
+  const queryText = similarityQueryText(query.text);
+  const tsQuery = queryText ? ticketSearchQuery(queryText) : null;
+
+  const textMatch: SQL<boolean> = tsQuery ? sql<boolean>`(${tickets.search_vector} @@ ${tsQuery})` : sql<boolean>`false`;
+  const subcategoryMatch: SQL<boolean> = query.subcategoryId
+    ? sql<boolean>`(${tickets.subcategory_id} IS NOT DISTINCT FROM ${query.subcategoryId})`
+    : sql<boolean>`false`;
+  const locationMatch: SQL<boolean> = location
+    ? sql<boolean>`(lower(${tickets.location}) IS NOT DISTINCT FROM lower(${location}))`
+    : sql<boolean>`false`;
+
+  const available = [tsQuery, query.subcategoryId, location].filter(Boolean).length;
+  if (available === 0) return [];
+  if (query.requireSubcategoryOrLocation && !query.subcategoryId && !location) return [];
+  const required = Math.min(2, available);
+
+  const score = sql<number>`(${textMatch}::int + ${subcategoryMatch}::int + ${locationMatch}::int)`;
+  const rank = tsQuery ? sql<number>`ts_rank_cd(${tickets.search_vector}, ${tsQuery}, 32)::float8` : sql<number>`0::float8`;
+  const since = new Date(Date.now() - SIMILAR_TICKET_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+  const rows = await db
+    .select({
+      id: tickets.id,
+      title: tickets.title,
+      description: tickets.description,
+      location: tickets.location,
+      createdAt: tickets.created_at,
+      createdBy: tickets.created_by,
+      categoryName: categories.name,
+      subcategoryName: subcategories.name,
+      statusValue: ticket_statuses.value,
+      statusLabel: ticket_statuses.label,
+      groupId: ticket_groups.id,
+      groupName: ticket_groups.name,
+      groupArchived: ticket_groups.is_archived,
+      textMatch,
+      subcategoryMatch,
+      locationMatch,
+      followerCount: sql<number>`(
+        SELECT count(*) FROM ${ticket_followers} WHERE ${ticket_followers.ticket_id} = ${tickets.id}
+      )::int`,
+    })
+    .from(tickets)
+    .innerJoin(ticket_statuses, eq(ticket_statuses.id, tickets.status_id))
+    .leftJoin(categories, eq(categories.id, tickets.category_id))
+    .leftJoin(subcategories, eq(subcategories.id, tickets.subcategory_id))
+    .leftJoin(ticket_groups, eq(ticket_groups.id, tickets.group_id))
+    .where(
+      and(
+        eq(tickets.category_id, query.categoryId),
+        eq(ticket_statuses.is_final, false),
+        gte(tickets.created_at, since),
+        query.excludeTicketId ? ne(tickets.id, query.excludeTicketId) : undefined,
+        query.excludeGroupId ? sql`${tickets.group_id} IS DISTINCT FROM ${query.excludeGroupId}` : undefined,
+        query.condition,
+        query.requireSubcategoryOrLocation ? sql`(${subcategoryMatch} OR ${locationMatch})` : undefined,
+        sql`${score} >= ${required}`
+      )
+    )
+    .orderBy(desc(score), desc(rank), desc(tickets.created_at))
+    .limit(limit);
+
+  return rows.map((row) => {
+    const matchedOn: SimilarityMatch[] = [];
+    if (row.textMatch) matchedOn.push("text");
+    if (row.subcategoryMatch) matchedOn.push("subcategory");
+    if (row.locationMatch) matchedOn.push("location");
+
+    return {
+      id: row.id,
+      title: row.title,
+      description: row.description && row.description.length > DESCRIPTION_EXCERPT_LENGTH
+        ? `${row.description.slice(0, DESCRIPTION_EXCERPT_LENGTH)}…`
+        : row.description,
+      location: row.location,
+      categoryName: row.categoryName,
+      subcategoryName: row.subcategoryName,
+      status: { value: row.statusValue, label: row.statusLabel },
+      createdAt: row.createdAt,
+      createdBy: row.createdBy,
+      group: row.groupId && row.groupName && !row.groupArchived ? { id: row.groupId, name: row.groupName } : null,
+      followerCount: Number(row.followerCount) || 0,
+      matchedOn,
+    };
+  });
+}
+
+/**
+ * Proof that the duplicate check showed `ticketId` to `userId`, so a student can follow
+ * a ticket they cannot otherwise see (null when no signing secret is configured)
+ */
+export function similarTicketFollowToken(ticketId: number, userId: string): string | null {
+  const secret = clerkConfig.secretKey;
+  if (!secret) return null;
+  return createHmac("sha256", secret).update(`ticket-follow:${ticketId}:${userId}`).digest("hex");
+}
+
+export function verifySimilarTicketFollowToken(ticketId: number, userId: string, token: string | null | undefined): boolean {
+  const expected = similarTicketFollowToken(ticketId, userId);
+  if (!expected || !token || token.length !== expected.length) return false;
+  return timingSafeEqual(Buffer.from(expected), Buffer.from(token));
+}
+
+/**
+ * Similar open tickets for an existing ticket (admin "possible duplicate" suggestions)
+ */
+export async function findSimilarToTicket(
+  ticketId: number,
+  options: { condition?: SQL; limit?: number } = {}
+): Promise<SimilarTicket[]> {
+  const [ticket] = await db
+    .select({
+      id: tickets.id,
+      title: tickets.title,
+      description: tickets.description,
+      location: tickets.location,
+      metadata: tickets.metadata,
+      categoryId: tickets.category_id,
+      subcategoryId: tickets.subcategory_id,
+      groupId: tickets.group_id,
+    })
+    .from(tickets)
+    .where(eq(tickets.id, ticketId))
+    .limit(1);
+
+  if (!ticket || !ticket.categoryId) return [];
+
+  return findSimilarTickets({
+    categoryId: ticket.categoryId,
+    subcategoryId: ticket.subcategoryId,
+    location: ticket.location,
+    text: ticketSimilarityText(ticket),
+    excludeTicketId: ticket.id,
+    excludeGroupId: ticket.groupId,
+    condition: options.condition,
+    limit: options.limit,
+  });
+}
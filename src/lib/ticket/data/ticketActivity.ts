@@ -0,0 +1,102 @@
+/**
+ * Ticket activity log
+ *
+ * One ticket_activity row per action taken on a ticket (status changes, TAT,
+ * assignment, committee tags, ...). `details` holds action-specific context
+ * such as the previous/new value and where the action came from (e.g. Slack).
+ */
+
+import { db } from "@/db";
+import { ticket_activity } from "@/db/schema";
+import type { TicketActivitySelect } from "@/db/inferred-types";
+import { TICKET_ACTIVITY, type TicketActivityAction } from "@/conf/constants";
+import type { TicketLinkEvent } from "@/types/ticket";
+import { and, asc, desc, eq, inArray } from "drizzle-orm";
+import type { DbExecutor } from "./ticketComments";
+
+export interface RecordTicketActivityInput {
+  ticketId: number;
+  action: TicketActivityAction | (string & {});
+  /** Acting user; null when the actor has no portal account (e.g. an unlinked Slack user) */
+  userId?: string | null;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Insert an activity row. Pass a transaction handle to keep it atomic with the change it records.
+ */
+export async function recordTicketActivity(
+  input: RecordTicketActivityInput,
+  executor: DbExecutor = db
+): Promise<TicketActivitySelect> {
+  const [row] = await executor
+    .insert(ticket_activity)
+    .values({
+      ticket_id: input.ticketId,
+      user_id: input.userId ?? null,
+      action: input.action,
+      details: input.details ?? null,
+    })
+    .returning();
+
+  if (!row) {
+    throw new Error(`Failed to record "${input.action}" activity for ticket #${input.ticketId}`);
+  }
+  return row;
+}
+
+/**
+ * Most recent activity of one kind on a ticket (e.g. why it was auto-assigned)
+ */
+export async function getLatestTicketActivity(
+  ticketId: number,
+  action: TicketActivityAction | (string & {})
+): Promise<TicketActivitySelect | null> {
+  const [row] = await db
+    .select()
+    .from(ticket_activity)
+    .where(and(eq(ticket_activity.ticket_id, ticketId), eq(ticket_activity.action, action)))
+    .orderBy(desc(ticket_activity.created_at), desc(ticket_activity.id))
+    .limit(1);
+  return row ?? null;
+}
+
+/**
+ * Merges and splits involving a ticket, oldest first, with the ticket ids on the other side
+ */
+export async function getTicketLinkEvents(ticketId: number): Promise<TicketLinkEvent[]> {
+  const rows = await db
+    .select({
+      action: ticket_activity.action,
+      details: ticket_activity.details,
+      created_at: ticket_activity.created_at,
+    })
+    .from(ticket_activity)
+    .where(
+      and(
+        eq(ticket_activity.ticket_id, ticketId),
+        inArray(ticket_activity.action, [
+          TICKET_ACTIVITY.MERGED,
+          TICKET_ACTIVITY.MERGED_INTO,
+          TICKET_ACTIVITY.SPLIT,
+          TICKET_ACTIVITY.SPLIT_FROM,
+        ])
+      )
+    )
+    .orderBy(asc(ticket_activity.created_at), asc(ticket_activity.id));
+
+  return rows.flatMap((row): TicketLinkEvent[] => {
+    const details = (row.details ?? {}) as Record<string, unknown>;
+    const linked =
+      row.action === TICKET_ACTIVITY.MERGED
+        ? details.merged_ticket_ids
+        : row.action === TICKET_ACTIVITY.MERGED_INTO
+          ? [details.primary_ticket_id]
+          : row.action === TICKET_ACTIVITY.SPLIT
+            ? [details.child_ticket_id]
+            : [details.parent_ticket_id];
+    const ticketIds = Array.isArray(linked) ? linked.filter((id): id is number => typeof id === "number") : [];
+    if (ticketIds.length === 0 || !row.created_at) return [];
+    return [{ action: row.action as TicketLinkEvent["action"], ticketIds, at: row.created_at }];
+  });
+}
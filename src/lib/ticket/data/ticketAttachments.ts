@@ -0,0 +1,201 @@
+/**
+ * Ticket attachments data access
+ *
+ * Files (documents, images, short videos) live in a storage backend
+ * (lib/integration/storage) and are recorded in ticket_attachments, optionally
+ * linked to the comment they were posted with. Which types and sizes a ticket
+ * accepts comes from its category (attachment_types / attachment_max_mb),
+ * falling back to ATTACHMENT_DEFAULTS.
+ *
+ * Attachments on internal notes are staff-only, like the notes themselves.
+ */
+
+import { db } from "@/db";
+import { categories, ticket_attachments, ticket_comments, tickets } from "@/db/schema";
+import type { TicketAttachmentSelect } from "@/db/inferred-types";
+import { and, asc, eq, inArray, isNull, or } from "drizzle-orm";
+import { ATTACHMENT_DEFAULTS, COMMENT_TYPE } from "@/conf/constants";
+import { buildAttachmentKey, getAttachmentStorage } from "@/lib/integration/storage";
+import { resolveAttachmentRules, type AttachmentRules } from "@/lib/ticket/utils/attachmentRules";
+import type { TicketAttachment } from "@/types/ticket";
+import type { DbExecutor } from "./ticketComments";
+
+export interface UploadTicketAttachmentInput {
+  ticketId: number;
+  commentId?: number | null;
+  uploadedBy: string | null;
+  fileName: string;
+  mimeType: string;
+  body: Buffer;
+}
+
+export interface TicketAttachmentQueryOptions {
+  /** Include attachments on internal / super admin notes (staff views). Defaults to false. */
+  includeInternal?: boolean;
+}
+
+/**
+ * Attachment rules for a ticket's category (defaults when the category sets none)
+ */
+export async function getTicketAttachmentRules(ticketId: number): Promise<AttachmentRules> {
+  const [category] = await db
+    .select({ types: categories.attachment_types, maxMb: categories.attachment_max_mb })
+    .from(tickets)
+    .leftJoin(categories, eq(categories.id, tickets.category_id))
+    .where(eq(tickets.id, ticketId))
+    .limit(1);
+
+  return resolveAttachmentRules(category?.types, category?.maxMb);
+}
+
+/**
+ * Attachment rules of every category, by category id (for forms filed before the ticket exists)
+ */
+export async function getCategoryAttachmentRules(): Promise<Record<number, AttachmentRules>> {
+  const rows = await db
+    .select({ id: categories.id, types: categories.attachment_types, maxMb: categories.attachment_max_mb })
+    .from(categories);
+  return Object.fromEntries(rows.map((row) => [row.id, resolveAttachmentRules(row.types, row.maxMb)]));
+}
+
+const MIME_TYPE_PATTERN = /^[a-z0-9][a-z0-9!#$&^_.+-]*\/(\*|[a-z0-9][a-z0-9!#$&^_.+-]*)$/;
+
+/**
+ * Validate a categories.attachment_types payload. null (or an empty list) means "use the defaults";
+ * returns undefined when the value is invalid.
+ */
+export function parseAttachmentTypes(value: unknown): string[] | null | undefined {
+  if (value === null) return null;
+  if (!Array.isArray(value) || !value.every((type) => typeof type === "string")) return undefined;
+  const types = Array.from(new Set((value as string[]).map((type) => type.trim().toLowerCase()).filter(Boolean)));
+  if (!types.every((type) => MIME_TYPE_PATTERN.test(type))) return undefined;
+  return types.length > 0 ? types : null;
+}
+
+/**
+ * Display-safe file name (path separators and control characters removed, length capped)
+ */
+export function sanitizeAttachmentFileName(name: string): string {
+  const base = name.split(/[\\/]/).pop() || "";
+  const cleaned = base.replace(/[\u0000-\u001f\u007f"]/g, "").trim();
+  return cleaned.slice(-ATTACHMENT_DEFAULTS.MAX_FILE_NAME_LENGTH) || "attachment";
+}
+
+/**
+ * Store the file and record it. The stored object is removed again if the insert fails.
+ */
+export async function uploadTicketAttachment(
+  input: UploadTicketAttachmentInput,
+  executor: DbExecutor = db
+): Promise<TicketAttachmentSelect> {
+  const storage = getAttachmentStorage();
+  const file = { fileName: input.fileName, mimeType: input.mimeType };
+  const storageKey = await storage.put(buildAttachmentKey(input.ticketId, input.fileName), input.body, file);
+
+  try {
+    const [row] = await executor
+      .insert(ticket_attachments)
+      .values({
+        ticket_id: input.ticketId,
+        comment_id: input.commentId ?? null,
+        uploaded_by: input.uploadedBy,
+        file_name: input.fileName,
+        storage_provider: storage.provider,
+        storage_key: storageKey,
+        mime_type: input.mimeType,
+        file_size: input.body.length,
+      })
+      .returning();
+
+    if (!row) {
+      throw new Error(`Failed to record attachment for ticket #${input.ticketId}`);
+    }
+    return row;
+  } catch (error) {
+    await storage.remove(storageKey, file).catch((cleanupError) => {
+      console.error(`[Attachments] Failed to remove orphaned object ${storageKey}:`, cleanupError);
+    });
+    throw error;
+  }
+}
+
+/**
+ * Client-facing shape of an attachment; downloads go through the access-checked route
+ */
+export function toTicketAttachment(attachment: TicketAttachmentSelect): TicketAttachment {
+  return {
+    id: attachment.id,
+    ticket_id: attachment.ticket_id,
+    comment_id: attachment.comment_id,
+    file_name: attachment.file_name,
+    mime_type: attachment.mime_type,
+    file_size: attachment.file_size,
+    uploaded_by: attachment.uploaded_by,
+    created_at: attachment.created_at,
+    download_url: `/api/tickets/${attachment.ticket_id}/attachments/${attachment.id}`,
+  };
+}
+
+function visibleAttachmentCondition(options: TicketAttachmentQueryOptions) {
+  if (options.includeInternal) return undefined;
+  return or(
+    isNull(ticket_attachments.comment_id),
+    inArray(
+      ticket_attachments.comment_id,
+      db
+        .select({ id: ticket_comments.id })
+        .from(ticket_comments)
+        .where(eq(ticket_comments.comment_type, COMMENT_TYPE.STUDENT_VISIBLE))
+    )
+  );
+}
+
+/**
+ * Attachments of a ticket, oldest first
+ */
+export async function getTicketAttachments(
+  ticketId: number,
+  options: TicketAttachmentQueryOptions = {}
+): Promise<TicketAttachmentSelect[]> {
+  return db
+    .select()
+    .from(ticket_attachments)
+    .where(and(eq(ticket_attachments.ticket_id, ticketId), visibleAttachmentCondition(options)))
+    .orderBy(asc(ticket_attachments.created_at), asc(ticket_attachments.id));
+}
+
+/**
+ * One attachment of a ticket (null when missing or not visible with these options)
+ */
+export async function getTicketAttachment(
+  ticketId: number,
+  attachmentId: number,
+  options: TicketAttachmentQueryOptions = {}
+): Promise<TicketAttachmentSelect | null> {
+  const [row] = await db
+    .select()
+    .from(ticket_attachments)
+    .where(
+      and(
+        eq(ticket_attachments.ticket_id, ticketId),
+        eq(ticket_attachments.id, attachmentId),
+        visibleAttachmentCondition(options)
+      )
+    )
+    .limit(1);
+  return row ?? null;
+}
+
+/**
+ * Delete the row, then the stored object (a leftover object is only logged)
+ */
+export async function deleteTicketAttachment(attachment: TicketAttachmentSelect, executor: DbExecutor = db): Promise<void> {
+  await executor.delete(ticket_attachments).where(eq(ticket_attachments.id, attachment.id));
+
+  const storage = getAttachmentStorage(attachment.storage_provider);
+  await storage
+    .remove(attachment.storage_key, { fileName: attachment.file_name, mimeType: attachment.mime_type || "" })
+    .catch((error) => {
+      console.error(`[Attachments] Failed to remove stored object ${attachment.storage_key}:`, error);
+    });
+}
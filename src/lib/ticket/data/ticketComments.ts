@@ -0,0 +1,176 @@
+/**
+ * Ticket comments data access
+ *
+ * Comments live in the ticket_comments table (one row per comment).
+ * They used to be appended to tickets.metadata.comments, which rewrote the
+ * whole ticket row on every comment; the 0006 migration backfilled them.
+ *
+ * Readers that still render the legacy comment shape ({ text, author,
+ * createdAt, source, type, isInternal }) should use getTicketComments().
+ */
+
+import { db } from "@/db";
+import { ticket_comments } from "@/db/schema";
+import type { TicketCommentSelect } from "@/db/inferred-types";
+import { and, asc, desc, eq, isNull, sql, type AnyColumn } from "drizzle-orm";
+import {
+  COMMENT_SOURCE,
+  COMMENT_TYPE,
+  type CommentSourceValue,
+  type CommentTypeValue,
+} from "@/conf/constants";
+import type { TicketComment } from "@/types/ticket";
+
+/**
+ * Either the root db client or a transaction handle
+ */
+export type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface AddTicketCommentInput {
+  ticketId: number;
+  body: string;
+  authorId?: string | null;
+  authorName?: string | null;
+  authorRole?: string | null;
+  commentType?: CommentTypeValue | (string & {});
+  source?: CommentSourceValue;
+  /** Id of the originating email/Slack message; (source, externalId) is unique */
+  externalId?: string | null;
+  createdAt?: Date;
+}
+
+export interface TicketCommentQueryOptions {
+  /** Include internal_note / super_admin_note rows (staff views). Defaults to false. */
+  includeInternal?: boolean;
+}
+
+export function isInternalCommentType(type: string | null | undefined): boolean {
+  return type === COMMENT_TYPE.INTERNAL_NOTE || type === COMMENT_TYPE.SUPER_ADMIN_NOTE;
+}
+
+function visibilityConditions(ticketId: number, options: TicketCommentQueryOptions) {
+  const conditions = [eq(ticket_comments.ticket_id, ticketId), isNull(ticket_comments.deleted_at)];
+  if (!options.includeInternal) {
+    conditions.push(eq(ticket_comments.comment_type, COMMENT_TYPE.STUDENT_VISIBLE));
+  }
+  return and(...conditions);
+}
+
+/**
+ * Insert a comment row. Pass a transaction handle to keep the insert atomic
+ * with status changes / outbox events.
+ */
+export async function addTicketComment(
+  input: AddTicketCommentInput,
+  executor: DbExecutor = db
+): Promise<TicketCommentSelect> {
+  const body = input.body.trim();
+  if (!body) {
+    throw new Error("Invalid comment: body cannot be empty");
+  }
+
+  const [row] = await executor
+    .insert(ticket_comments)
+    .values({
+      ticket_id: input.ticketId,
+      body,
+      author_id: input.authorId ?? null,
+      author_name: input.authorName ?? null,
+      author_role: input.authorRole ?? null,
+      comment_type: input.commentType ?? COMMENT_TYPE.STUDENT_VISIBLE,
+      source: input.source ?? COMMENT_SOURCE.WEB,
+      external_id: input.externalId ?? null,
+      ...(input.createdAt ? { created_at: input.createdAt } : {}),
+    })
+    .returning();
+
+  if (!row) {
+    throw new Error(`Failed to insert comment for ticket #${input.ticketId}`);
+  }
+  return row;
+}
+
+/**
+ * Look up a comment created from an inbound message (email Message-ID, Slack ts)
+ */
+export async function findCommentByExternalId(
+  source: CommentSourceValue,
+  externalId: string,
+  executor: DbExecutor = db
+): Promise<TicketCommentSelect | null> {
+  const [row] = await executor
+    .select()
+    .from(ticket_comments)
+    .where(and(eq(ticket_comments.source, source), eq(ticket_comments.external_id, externalId)))
+    .limit(1);
+  return row ?? null;
+}
+
+/**
+ * Fetch comment rows for a ticket in chronological order (soft-deleted rows excluded)
+ */
+export async function getTicketCommentRows(
+  ticketId: number,
+  options: TicketCommentQueryOptions = {}
+): Promise<TicketCommentSelect[]> {
+  return db
+    .select()
+    .from(ticket_comments)
+    .where(visibilityConditions(ticketId, options))
+    .orderBy(asc(ticket_comments.created_at), asc(ticket_comments.id));
+}
+
+/**
+ * Fetch comments for a ticket in the legacy TicketComment shape used by the UI
+ */
+export async function getTicketComments(
+  ticketId: number,
+  options: TicketCommentQueryOptions = {}
+): Promise<TicketComment[]> {
+  const rows = await getTicketCommentRows(ticketId, options);
+  return rows.map(toTicketComment);
+}
+
+/**
+ * Most recent (non-deleted) comment on a ticket
+ */
+export async function getLatestTicketComment(
+  ticketId: number,
+  options: TicketCommentQueryOptions = {},
+  executor: DbExecutor = db
+): Promise<TicketCommentSelect | null> {
+  const [row] = await executor
+    .select()
+    .from(ticket_comments)
+    .where(visibilityConditions(ticketId, options))
+    .orderBy(desc(ticket_comments.created_at), desc(ticket_comments.id))
+    .limit(1);
+  return row ?? null;
+}
+
+/**
+ * Correlated subquery counting student-visible comments, for ticket list selects
+ */
+export function ticketCommentCountSql(ticketIdColumn: AnyColumn) {
+  return sql<number>`(
+    SELECT COUNT(*)::int FROM ${ticket_comments}
+    WHERE ${ticket_comments.ticket_id} = ${ticketIdColumn}
+      AND ${ticket_comments.deleted_at} IS NULL
+      AND ${ticket_comments.comment_type} = ${COMMENT_TYPE.STUDENT_VISIBLE}
+  )`;
+}
+
+export function toTicketComment(row: TicketCommentSelect): TicketComment {
+  return {
+    id: row.id,
+    text: row.body,
+    author: row.author_name ?? undefined,
+    createdAt: row.created_at,
+    created_at: row.created_at,
+    source: row.source,
+    type: row.comment_type,
+    isInternal: isInternalCommentType(row.comment_type),
+    authorRole: row.author_role,
+    editedAt: row.edited_at,
+  };
+}
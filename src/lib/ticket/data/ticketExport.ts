@@ -0,0 +1,529 @@
+/**
+ * Ticket exports (CSV / XLSX)
+ *
+ * Exports use the AdminTicketFilters parameters and the requester's ticket scope,
+ * so a spreadsheet contains exactly the tickets the matching dashboard lists.
+ * Each row carries the status history timestamps, TAT, escalation level, rating
+ * and one column per dynamic field of the exported categories.
+ *
+ * Small exports are streamed straight from the route; anything above
+ * ticketExportConfig.syncRowLimit becomes a ticket_exports job that the outbox
+ * worker builds and stores, and the requester downloads it when it is ready.
+ */
+
+import { randomUUID } from "crypto";
+import { db } from "@/db";
+import {
+  categories,
+  outbox,
+  subcategories,
+  ticket_activity,
+  ticket_exports,
+  ticket_sla_pauses,
+  ticket_statuses,
+  tickets,
+  users,
+} from "@/db/schema";
+import type { TicketExportSelect } from "@/db/inferred-types";
+import { alias } from "drizzle-orm/pg-core";
+import { and, count, desc, eq, inArray, isNull, lt, sql, type SQL } from "drizzle-orm";
+import { ticketExportConfig } from "@/conf/config";
+import { TICKET_ACTIVITY } from "@/conf/constants";
+import { getCategorySchema } from "@/lib/category/categories";
+import { getCachedTicketStatuses } from "@/lib/cache/cached-queries";
+import { buildProgressMap } from "@/lib/status/getTicketStatuses";
+import { toTATPause } from "@/lib/sla/pauses";
+import { getAttachmentStorage } from "@/lib/integration/storage";
+import { normalizeStatusForComparison } from "@/lib/utils";
+import { extractDynamicFields } from "../formatting/formatDynamicFields";
+import { getFormVersionFieldsByIds, getTicketFormVersionId } from "@/lib/category/formVersions";
+import { CSV_BOM, SPREADSHEET_MIME_TYPES, buildXlsx, toCsvLine, type SpreadsheetCell } from "../formatting/spreadsheet";
+import { calculateTATInfo } from "../utils/calculateTAT";
+import { buildAdminTicketConditions, type AdminTicketFilterParams } from "../filters/adminTicketFilters";
+import { getTicketScope } from "./ticketScope";
+
+export const TICKET_EXPORT_FORMATS = ["csv", "xlsx"] as const;
+export type TicketExportFormat = (typeof TICKET_EXPORT_FORMATS)[number];
+
+export const TICKET_EXPORT_STATUS = {
+  PENDING: "pending",
+  PROCESSING: "processing",
+  COMPLETED: "completed",
+  FAILED: "failed",
+} as const;
+
+/** Outbox event that asks the worker to build a ticket_exports row */
+export const TICKET_EXPORT_EVENT = "ticket.export.requested";
+
+export function isTicketExportFormat(value: unknown): value is TicketExportFormat {
+  return TICKET_EXPORT_FORMATS.includes(value as TicketExportFormat);
+}
+
+export function ticketExportFileName(format: TicketExportFormat, at: Date = new Date()): string {
+  return `tickets-${at.toISOString().slice(0, 10)}.${format}`;
+}
+
+/* -------------------------------------------------------------------------- */
+/* Scope + filters                                                            */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * WHERE conditions for an export: the filters plus the requester's ticket scope.
+ * Null when the user may not see any tickets.
+ */
+export async function getTicketExportConditions(
+  clerkUserId: string,
+  filters: AdminTicketFilterParams
+): Promise<SQL[] | null> {
+  const scope = await getTicketScope(clerkUserId);
+  if (scope.kind === "none") return null;
+  const conditions = buildAdminTicketConditions(filters);
+  return scope.kind === "scoped" ? [scope.condition, ...conditions] : conditions;
+}
+
+export async function countTicketsForExport(conditions: SQL[]): Promise<number> {
+  const [row] = await db
+    .select({ total: count() })
+    .from(tickets)
+    .where(conditions.length > 0 ? and(...conditions) : undefined);
+  return Number(row?.total ?? 0);
+}
+
+/* -------------------------------------------------------------------------- */
+/* Rows                                                                       */
+/* -------------------------------------------------------------------------- */
+
+const BASE_COLUMNS = [
+  "Ticket ID",
+  "Title",
+  "Description",
+  "Category",
+  "Subcategory",
+  "Location",
+  "Status",
+  "Student Name",
+  "Student Email",
+  "Assigned To",
+  "Escalation Level",
+  "Rating",
+  "Created At (UTC)",
+  "Acknowledged At (UTC)",
+  "Resolved At (UTC)",
+  "Reopened At (UTC)",
+  "Closed At (UTC)",
+  "Last Status Change (UTC)",
+  "TAT",
+  "TAT Due At (UTC)",
+  "TAT Status",
+  "Resolution Time (hours)",
+];
+
+type CategorySchema = Record<string, unknown>;
+
+interface TicketExportPlan {
+  conditions: SQL[];
+  /** Dynamic field labels that get their own column, in column order */
+  fieldLabels: string[];
+  schemas: Map<number, CategorySchema | null>;
+}
+
+/**
+ * Resolve the dynamic field columns: every field of the categories that have matching tickets.
+ * Values for fields outside these (legacy metadata keys) go to "Other Fields".
+ */
+async function planTicketExport(conditions: SQL[]): Promise<TicketExportPlan> {
+  const categoryRows = await db
+    .selectDistinct({ category_id: tickets.category_id })
+    .from(tickets)
+    .where(conditions.length > 0 ? and(...conditions) : undefined);
+  const categoryIds = categoryRows.map((row) => row.category_id).filter((id): id is number => id != null);
+
+  const schemas = new Map<number, CategorySchema | null>();
+  const fieldLabels: string[] = [];
+  for (const categoryId of categoryIds) {
+    const schema = (await getCategorySchema(categoryId)) as CategorySchema | null;
+    schemas.set(categoryId, schema);
+    const subcategoryList = Array.isArray(schema?.subcategories) ? schema.subcategories : [];
+    for (const subcategory of subcategoryList as Array<{ fields?: Array<{ name?: string }> }>) {
+      for (const field of subcategory.fields ?? []) {
+        if (field.name && !fieldLabels.includes(field.name)) fieldLabels.push(field.name);
+      }
+    }
+  }
+
+  return { conditions, fieldLabels, schemas };
+}
+
+function headerRow(plan: TicketExportPlan): string[] {
+  return [...BASE_COLUMNS, ...plan.fieldLabels, "Other Fields"];
+}
+
+/**
+ * Timestamps are stored as UTC wall time; exported as "YYYY-MM-DD HH:MM:SS"
+ */
+function formatTimestamp(value: unknown): string | null {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(String(value));
+  return isNaN(date.getTime()) ? null : date.toISOString().slice(0, 19).replace("T", " ");
+}
+
+function toDate(value: unknown): Date | null {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(String(value));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Cell text for a dynamic field; group items (already "Label: value, ..." text) are split by "; "
+ */
+function formatFieldValue(value: unknown, fieldType: string): string {
+  if (!Array.isArray(value)) return String(value);
+  return value.map(String).join(fieldType === "group" ? "; " : ", ");
+}
+
+const assignee = alias(users, "assignee");
+
+async function loadTicketBatch(conditions: SQL[], beforeId: number | null, limit: number) {
+  const where = beforeId ? [...conditions, lt(tickets.id, beforeId)] : conditions;
+  return db
+    .select({
+      id: tickets.id,
+      title: tickets.title,
+      description: tickets.description,
+      location: tickets.location,
+      category_id: tickets.category_id,
+      category_name: categories.name,
+      subcategory_name: subcategories.name,
+      status_value: ticket_statuses.value,
+      status_label: ticket_statuses.label,
+      escalation_level: tickets.escalation_level,
+      resolution_due_at: tickets.resolution_due_at,
+      metadata: tickets.metadata,
+      created_at: tickets.created_at,
+      creator_name: users.full_name,
+      creator_email: users.email,
+      assignee_name: assignee.full_name,
+      assignee_email: assignee.email,
+    })
+    .from(tickets)
+    .leftJoin(ticket_statuses, eq(ticket_statuses.id, tickets.status_id))
+    .leftJoin(categories, eq(categories.id, tickets.category_id))
+    .leftJoin(subcategories, eq(subcategories.id, tickets.subcategory_id))
+    .leftJoin(users, eq(users.id, tickets.created_by))
+    .leftJoin(assignee, eq(assignee.id, tickets.assigned_to))
+    .where(where.length > 0 ? and(...where) : undefined)
+    .orderBy(desc(tickets.id))
+    .limit(limit);
+}
+
+/**
+ * Spreadsheet rows for the matching tickets (newest first), one batch at a time
+ */
+async function* ticketExportBatches(plan: TicketExportPlan, maxRows: number): AsyncGenerator<SpreadsheetCell[][]> {
+  const progressMap = buildProgressMap(await getCachedTicketStatuses());
+  let beforeId: number | null = null;
+  let exported = 0;
+
+  while (exported < maxRows) {
+    const batch = await loadTicketBatch(
+      plan.conditions,
+      beforeId,
+      Math.min(ticketExportConfig.batchSize, maxRows - exported)
+    );
+    if (batch.length === 0) return;
+
+    const ids = batch.map((ticket) => ticket.id);
+    const formVersionIds = batch
+      .map((ticket) => getTicketFormVersionId(ticket.metadata))
+      .filter((id): id is number => id !== null);
+    const [statusChanges, openPauses, formVersionFields] = await Promise.all([
+      db
+        .select({
+          ticket_id: ticket_activity.ticket_id,
+          last_changed_at: sql<string | null>`max(${ticket_activity.created_at})`,
+        })
+        .from(ticket_activity)
+        .where(and(inArray(ticket_activity.ticket_id, ids), eq(ticket_activity.action, TICKET_ACTIVITY.STATUS_CHANGED)))
+        .groupBy(ticket_activity.ticket_id),
+      db
+        .select()
+        .from(ticket_sla_pauses)
+        .where(and(inArray(ticket_sla_pauses.ticket_id, ids), isNull(ticket_sla_pauses.resumed_at))),
+      getFormVersionFieldsByIds(formVersionIds),
+    ]);
+    const lastStatusChange = new Map(statusChanges.map((row) => [row.ticket_id, row.last_changed_at]));
+    const pausedTickets = new Map(openPauses.map((row) => [row.ticket_id, toTATPause(row)]));
+
+    yield batch.map((ticket) => {
+      const metadata =
+        ticket.metadata && typeof ticket.metadata === "object" && !Array.isArray(ticket.metadata)
+          ? (ticket.metadata as Record<string, unknown>)
+          : {};
+
+      const normalizedStatus = normalizeStatusForComparison(ticket.status_value);
+      const openPause = pausedTickets.get(ticket.id);
+      const tatInfo = calculateTATInfo(
+        { resolution_due_at: ticket.resolution_due_at, metadata: metadata as Parameters<typeof calculateTATInfo>[0]["metadata"] },
+        { normalizedStatus, ticketProgress: progressMap[normalizedStatus] || 0 },
+        openPause ? [openPause] : []
+      );
+
+      const createdAt = toDate(ticket.created_at);
+      const resolvedAt = toDate(metadata.resolved_at);
+      const dueAt = toDate(metadata.tatDate) ?? toDate(ticket.resolution_due_at);
+      let tatStatus = "";
+      if (resolvedAt) {
+        tatStatus = dueAt ? (resolvedAt <= dueAt ? "Met" : "Missed") : "Resolved";
+      } else if (tatInfo.isPaused) {
+        tatStatus = "Paused";
+      } else if (dueAt) {
+        tatStatus = tatInfo.isOverdue ? "Overdue" : "On track";
+      }
+
+      const fieldValues = new Map<string, string>();
+      const otherFields: string[] = [];
+      const schema = ticket.category_id ? plan.schemas.get(ticket.category_id) : null;
+      const versionFields = formVersionFields.get(getTicketFormVersionId(metadata) ?? -1);
+      for (const field of schema ? extractDynamicFields(metadata, schema, versionFields) : []) {
+        const value = formatFieldValue(field.value, field.fieldType);
+        if (plan.fieldLabels.includes(field.label) && !fieldValues.has(field.label)) {
+          fieldValues.set(field.label, value);
+        } else {
+          otherFields.push(`${field.label}: ${value}`);
+        }
+      }
+
+      const rating = Number(metadata.rating);
+      return [
+        ticket.id,
+        ticket.title,
+        ticket.description,
+        ticket.category_name,
+        ticket.subcategory_name ?? (typeof metadata.subcategory === "string" ? metadata.subcategory : null),
+        ticket.location,
+        ticket.status_label ?? ticket.status_value,
+        ticket.creator_name,
+        ticket.creator_email,
+        ticket.assignee_name ?? ticket.assignee_email,
+        ticket.escalation_level ?? 0,
+        metadata.rating != null && Number.isFinite(rating) ? rating : null,
+        formatTimestamp(createdAt),
+        formatTimestamp(metadata.acknowledged_at),
+        formatTimestamp(resolvedAt),
+        formatTimestamp(metadata.reopened_at),
+        formatTimestamp(metadata.closed_at),
+        formatTimestamp(lastStatusChange.get(ticket.id)),
+        tatInfo.tat,
+        formatTimestamp(dueAt),
+        tatStatus,
+        createdAt && resolvedAt
+          ? Math.round(((resolvedAt.getTime() - createdAt.getTime()) / 36e5) * 10) / 10
+          : null,
+        ...plan.fieldLabels.map((label) => fieldValues.get(label) ?? null),
+        otherFields.join("; ") || null,
+      ];
+    });
+
+    exported += batch.length;
+    beforeId = batch[batch.length - 1]!.id;
+    if (batch.length < ticketExportConfig.batchSize) return;
+  }
+}
+
+/**
+ * CSV export as a byte stream; rows are read in batches while the response is sent
+ */
+export async function streamTicketCsv(conditions: SQL[], maxRows: number): Promise<ReadableStream<Uint8Array>> {
+  const plan = await planTicketExport(conditions);
+  const batches = ticketExportBatches(plan, maxRows);
+  const encoder = new TextEncoder();
+  let headerSent = false;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        if (!headerSent) {
+          headerSent = true;
+          controller.enqueue(encoder.encode(CSV_BOM + toCsvLine(headerRow(plan))));
+          return;
+        }
+        const { value, done } = await batches.next();
+        if (done) {
+          controller.close();
+          return;
+        }
+        controller.enqueue(encoder.encode(value.map(toCsvLine).join("")));
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await batches.return(undefined);
+    },
+  });
+}
+
+/**
+ * Complete export file in memory (XLSX downloads and background jobs)
+ */
+export async function buildTicketExportFile(
+  conditions: SQL[],
+  format: TicketExportFormat,
+  maxRows: number
+): Promise<{ body: Buffer; rowCount: number }> {
+  const plan = await planTicketExport(conditions);
+  const rows: SpreadsheetCell[][] = [];
+  for await (const batch of ticketExportBatches(plan, maxRows)) {
+    rows.push(...batch);
+  }
+
+  const body =
+    format === "xlsx"
+      ? buildXlsx("Tickets", [headerRow(plan), ...rows])
+      : Buffer.from(CSV_BOM + [headerRow(plan), ...rows].map(toCsvLine).join(""), "utf8");
+  return { body, rowCount: rows.length };
+}
+
+/* -------------------------------------------------------------------------- */
+/* Background jobs                                                            */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Queue a background export; the outbox worker picks it up on its next run
+ */
+export async function requestTicketExport(input: {
+  requestedBy: string;
+  format: TicketExportFormat;
+  filters: AdminTicketFilterParams;
+}): Promise<TicketExportSelect> {
+  return db.transaction(async (tx) => {
+    const [job] = await tx
+      .insert(ticket_exports)
+      .values({
+        requested_by: input.requestedBy,
+        format: input.format,
+        filters: input.filters,
+        status: TICKET_EXPORT_STATUS.PENDING,
+      })
+      .returning();
+
+    if (!job) {
+      throw new Error("Failed to create the export job");
+    }
+
+    await tx.insert(outbox).values({
+      event_type: TICKET_EXPORT_EVENT,
+      payload: { export_id: job.id },
+      attempts: 0,
+    });
+
+    return job;
+  });
+}
+
+/**
+ * Build and store a queued export.
+ * Throws on failure so the outbox retries; the job is marked failed on the last attempt.
+ */
+export async function runTicketExport(exportId: number, isLastAttempt: boolean): Promise<void> {
+  const [job] = await db
+    .select({
+      id: ticket_exports.id,
+      format: ticket_exports.format,
+      filters: ticket_exports.filters,
+      status: ticket_exports.status,
+      requester_clerk_id: users.external_id,
+    })
+    .from(ticket_exports)
+    .leftJoin(users, eq(users.id, ticket_exports.requested_by))
+    .where(eq(ticket_exports.id, exportId))
+    .limit(1);
+
+  if (!job || job.status === TICKET_EXPORT_STATUS.COMPLETED) return;
+
+  const fail = (error: string) =>
+    db
+      .update(ticket_exports)
+      .set({ status: TICKET_EXPORT_STATUS.FAILED, error, completed_at: new Date() })
+      .where(eq(ticket_exports.id, exportId));
+
+  const format = isTicketExportFormat(job.format) ? job.format : null;
+  const conditions =
+    format && job.requester_clerk_id
+      ? await getTicketExportConditions(job.requester_clerk_id, (job.filters ?? {}) as AdminTicketFilterParams)
+      : null;
+  if (!format || !conditions) {
+    // Not retryable: the requester lost access or the row is malformed
+    await fail("The requester can no longer export these tickets");
+    return;
+  }
+
+  await db
+    .update(ticket_exports)
+    .set({ status: TICKET_EXPORT_STATUS.PROCESSING, error: null })
+    .where(eq(ticket_exports.id, exportId));
+
+  try {
+    const { body, rowCount } = await buildTicketExportFile(conditions, format, ticketExportConfig.maxRows);
+    const fileName = ticketExportFileName(format);
+    const storage = getAttachmentStorage();
+    const storageKey = await storage.put(`exports/${exportId}/${randomUUID()}.${format}`, body, {
+      fileName,
+      mimeType: SPREADSHEET_MIME_TYPES[format],
+    });
+
+    await db
+      .update(ticket_exports)
+      .set({
+        status: TICKET_EXPORT_STATUS.COMPLETED,
+        row_count: rowCount,
+        file_name: fileName,
+        file_size: body.length,
+        storage_provider: storage.provider,
+        storage_key: storageKey,
+        completed_at: new Date(),
+      })
+      .where(eq(ticket_exports.id, exportId));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Export failed";
+    if (isLastAttempt) {
+      await fail(message);
+    } else {
+      await db
+        .update(ticket_exports)
+        .set({ status: TICKET_EXPORT_STATUS.PENDING, error: message })
+        .where(eq(ticket_exports.id, exportId));
+    }
+    throw error;
+  }
+}
+
+/**
+ * An export job, only if it belongs to the given user
+ */
+export async function getTicketExportForUser(exportId: number, userId: string): Promise<TicketExportSelect | null> {
+  const [job] = await db
+    .select()
+    .from(ticket_exports)
+    .where(and(eq(ticket_exports.id, exportId), eq(ticket_exports.requested_by, userId)))
+    .limit(1);
+  return job ?? null;
+}
+
+/**
+ * Job fields safe to return to the client (no storage internals)
+ */
+export function serializeTicketExport(job: TicketExportSelect) {
+  return {
+    id: job.id,
+    format: job.format,
+    status: job.status,
+    row_count: job.row_count,
+    file_name: job.file_name,
+    file_size: job.file_size,
+    error: job.error,
+    created_at: job.created_at,
+    completed_at: job.completed_at,
+    download_url: job.status === TICKET_EXPORT_STATUS.COMPLETED ? `/api/tickets/export/${job.id}/download` : null,
+  };
+}
@@ -0,0 +1,161 @@
+/**
+ * Role-based ticket visibility as SQL conditions
+ *
+ * Mirrors the scoping the dashboards apply so that queries outside the
+ * dashboards (search, exports) return the same tickets:
+ * - super_admin / snr_admin: every ticket
+ * - admin: tickets assigned to them, plus unassigned tickets in their domain/scope
+ *   (primary assignment or the domains of categories they are assigned to)
+ * - committee: tickets they created, tagged to their committees, or in a group
+ *   assigned to one of their committees
+ * - students (getTicketViewer only): tickets they created
+ */
+
+import {
+  db,
+  tickets,
+  categories,
+  domains,
+  ticket_committee_tags,
+  ticket_groups,
+} from "@/db";
+import { and, eq, inArray, isNull, or, sql, type SQL } from "drizzle-orm";
+import { getCachedAdminAssignment, getCachedAdminUser } from "@/lib/cache/cached-queries";
+import { getAdminAssignedCategoryDomains } from "@/lib/assignment/admin-assignment";
+import { activeCommitteeIdsQuery } from "@/lib/committee/committeeMembers";
+
+export type TicketScope =
+  | { kind: "all" }
+  | { kind: "scoped"; condition: SQL }
+  | { kind: "none" };
+
+function locationMatches(scope: string | null): SQL | undefined {
+  // A ticket without a location is not excluded by the admin's scope
+  if (!scope) return undefined;
+  return or(isNull(tickets.location), sql`lower(${tickets.location}) = lower(${scope})`);
+}
+
+/**
+ * Tickets an admin works on (same rules as the admin dashboard)
+ */
+export async function getAdminTicketScopeCondition(clerkUserId: string, adminUserId: string): Promise<SQL> {
+  const [assignment, categoryDomains] = await Promise.all([
+    getCachedAdminAssignment(clerkUserId),
+    getAdminAssignedCategoryDomains(adminUserId),
+  ]);
+
+  const conditions: Array<SQL | undefined> = [
+    and(eq(tickets.assigned_to, adminUserId), locationMatches(assignment.scope)),
+  ];
+
+  // Unassigned tickets are only picked up by admins with a primary domain
+  if (assignment.domain) {
+    const domain = assignment.domain.toLowerCase();
+    const scope = (assignment.scope || "").toLowerCase();
+
+    if (categoryDomains.length > 0) {
+      conditions.push(
+        and(
+          isNull(tickets.assigned_to),
+          inArray(
+            tickets.category_id,
+            db
+              .select({ id: categories.id })
+              .from(categories)
+              .innerJoin(domains, eq(domains.id, categories.domain_id))
+              .where(inArray(domains.name, categoryDomains))
+          ),
+          locationMatches(assignment.scope)
+        )
+      );
+    }
+
+    if (domain === "global") {
+      conditions.push(isNull(tickets.assigned_to));
+    } else {
+      conditions.push(
+        and(
+          isNull(tickets.assigned_to),
+          sql`EXISTS (
+            SELECT 1 FROM ${categories}
+            WHERE ${categories.id} = ${tickets.category_id}
+            AND lower(${categories.name}) = ${domain}
+          )`,
+          !scope || scope === "global" ? undefined : sql`lower(${tickets.location}) = ${scope}`
+        )
+      );
+    }
+  }
+
+  return or(...conditions)!;
+}
+
+function committeeScopeCondition(userId: string): SQL {
+  const memberCommittees = activeCommitteeIdsQuery(userId);
+
+  return or(
+    eq(tickets.created_by, userId),
+    inArray(
+      tickets.id,
+      db
+        .select({ id: ticket_committee_tags.ticket_id })
+        .from(ticket_committee_tags)
+        .where(inArray(ticket_committee_tags.committee_id, memberCommittees))
+    ),
+    inArray(
+      tickets.group_id,
+      db
+        .select({ id: ticket_groups.id })
+        .from(ticket_groups)
+        .where(inArray(ticket_groups.committee_id, memberCommittees))
+    )
+  )!;
+}
+
+/**
+ * Resolve which tickets a staff user may see
+ */
+export async function getTicketScope(clerkUserId: string): Promise<TicketScope> {
+  const { dbUser, role } = await getCachedAdminUser(clerkUserId);
+  if (!dbUser) return { kind: "none" };
+
+  switch (role) {
+    case "super_admin":
+    case "snr_admin":
+      return { kind: "all" };
+    case "admin":
+      return { kind: "scoped", condition: await getAdminTicketScopeCondition(clerkUserId, dbUser.id) };
+    case "committee":
+      return { kind: "scoped", condition: committeeScopeCondition(dbUser.id) };
+    default:
+      return { kind: "none" };
+  }
+}
+
+export type TicketViewer = {
+  userId: string;
+  role: string | null;
+  /** Sees the ticket through a staff scope (internal notes included) rather than as its creator */
+  isStaff: boolean;
+};
+
+/**
+ * Check that a user may see one ticket; null when the ticket doesn't exist or is out of their reach
+ */
+export async function getTicketViewer(clerkUserId: string, ticketId: number): Promise<TicketViewer | null> {
+  const { dbUser, role } = await getCachedAdminUser(clerkUserId);
+  if (!dbUser) return null;
+
+  const scope = await getTicketScope(clerkUserId);
+  const condition =
+    scope.kind === "all"
+      ? eq(tickets.id, ticketId)
+      : scope.kind === "scoped"
+        ? and(eq(tickets.id, ticketId), scope.condition)
+        : and(eq(tickets.id, ticketId), eq(tickets.created_by, dbUser.id));
+
+  const [ticket] = await db.select({ id: tickets.id }).from(tickets).where(condition).limit(1);
+  if (!ticket) return null;
+
+  return { userId: dbUser.id, role: role ?? null, isStaff: scope.kind !== "none" };
+}
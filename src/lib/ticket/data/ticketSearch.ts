@@ -0,0 +1,80 @@
+/**
+ * Ticket full-text search (Postgres tsvector / websearch_to_tsquery)
+ *
+ * tickets.search_vector covers title, description, location and dynamic field
+ * values; ticket_comments.search_vector covers comment bodies. A ticket matches
+ * when either its own document or one of its (non-deleted) comments matches.
+ *
+ * Snippets come from ts_headline with <mark>…</mark> around hits; the source
+ * text is HTML-escaped first so the snippet is safe to render as HTML.
+ */
+
+import { tickets, ticket_comments } from "@/db";
+import { sql, type SQL } from "drizzle-orm";
+
+const HEADLINE_OPTIONS = "StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=\" … \"";
+
+/**
+ * websearch_to_tsquery accepts quoted phrases, OR and -exclusions
+ */
+export function ticketSearchQuery(query: string): SQL {
+  return sql`websearch_to_tsquery('english', ${query})`;
+}
+
+function escapeHtmlSql(text: SQL): SQL {
+  return sql`replace(replace(replace(${text}, '&', '&amp;'), '<', '&lt;'), '>', '&gt;')`;
+}
+
+/**
+ * WHERE condition: the ticket or one of its comments matches
+ */
+export function ticketSearchCondition(tsQuery: SQL): SQL {
+  return sql`(
+    ${tickets.search_vector} @@ ${tsQuery}
+    OR EXISTS (
+      SELECT 1 FROM ${ticket_comments}
+      WHERE ${ticket_comments.ticket_id} = ${tickets.id}
+        AND ${ticket_comments.deleted_at} IS NULL
+        AND ${ticket_comments.search_vector} @@ ${tsQuery}
+    )
+  )`;
+}
+
+/**
+ * Relevance: the ticket document's rank plus half of its best comment's rank
+ */
+export function ticketSearchRank(tsQuery: SQL) {
+  return sql<number>`(
+    ts_rank_cd(${tickets.search_vector}, ${tsQuery})
+    + 0.5 * COALESCE((
+      SELECT MAX(ts_rank_cd(${ticket_comments.search_vector}, ${tsQuery}))
+      FROM ${ticket_comments}
+      WHERE ${ticket_comments.ticket_id} = ${tickets.id}
+        AND ${ticket_comments.deleted_at} IS NULL
+        AND ${ticket_comments.search_vector} @@ ${tsQuery}
+    ), 0)
+  )::float8`;
+}
+
+/**
+ * Highlighted snippet of the title and description
+ */
+export function ticketSearchHeadline(tsQuery: SQL) {
+  const document = sql`concat_ws(' — ', ${tickets.title}, ${tickets.description}, ${tickets.location})`;
+  return sql<string>`ts_headline('english', ${escapeHtmlSql(document)}, ${tsQuery}, ${HEADLINE_OPTIONS})`;
+}
+
+/**
+ * Highlighted snippet of the best matching comment (null when no comment matches)
+ */
+export function ticketCommentSearchHeadline(tsQuery: SQL) {
+  return sql<string | null>`(
+    SELECT ts_headline('english', ${escapeHtmlSql(sql`${ticket_comments.body}`)}, ${tsQuery}, ${HEADLINE_OPTIONS})
+    FROM ${ticket_comments}
+    WHERE ${ticket_comments.ticket_id} = ${tickets.id}
+      AND ${ticket_comments.deleted_at} IS NULL
+      AND ${ticket_comments.search_vector} @@ ${tsQuery}
+    ORDER BY ts_rank_cd(${ticket_comments.search_vector}, ${tsQuery}) DESC, ${ticket_comments.created_at} DESC
+    LIMIT 1
+  )`;
+}
@@ -18,6 +18,8 @@
  * Returns a fully prepared view model ready for UI rendering.
  */
 
+import { db, tickets } from "@/db";
+import { and, eq, inArray } from "drizzle-orm";
 import { getFullTicketData } from "./getFullTicketData";
 import { getCachedTicketStatuses } from "@/lib/cache/cached-queries";
 import { parseTicketMetadata, extractImagesFromMetadata } from "../validation/parseTicketMetadata";
@@ -27,7 +29,10 @@ import { enrichTimelineWithTAT } from "../formatting/enrichTimeline";
 import { calculateTATInfo } from "../utils/calculateTAT";
 import { normalizeStatusForComparison } from "@/lib/utils";
 import { buildProgressMap } from "@/lib/status/getTicketStatuses";
+import { getTicketAttachmentRules, getTicketAttachments, toTicketAttachment } from "./ticketAttachments";
+import type { AttachmentRules } from "@/lib/ticket/utils/attachmentRules";
 import type {
+  TicketAttachment,
   TicketStatusDisplay,
   TicketComment,
   TicketTimelineEntry,
@@ -83,11 +88,19 @@ export interface StudentTicketViewModel {
     value: string | string[];
   }>;
   
-  // Images
+  // Images (legacy uploads stored in metadata)
   images: string[];
+
+  // Attachments (student-visible only) and the rules for adding more
+  attachments: TicketAttachment[];
+  attachmentRules: AttachmentRules;
   
-  // Assigned Staff
-  assignedStaff: { name: string; email: string | null } | null;
+  // Assigned Staff (coverage is set while they are out of office)
+  assignedStaff: {
+    name: string;
+    email: string | null;
+    coverage?: { awayUntil: string; coveredBy: string | null } | null;
+  } | null;
 }
 
 /**
@@ -117,11 +130,17 @@ export async function getStudentTicketViewModel(
     profileFields,
     dynamicFields,
     comments,
+    slaPauses,
+    linkEvents,
   } = data;
 
-  // 2. Parse metadata
+  // 2. Parse metadata and load attachments
   const metadata = parseTicketMetadata(ticket.metadata);
   const images = extractImagesFromMetadata(metadata);
+  const [attachmentRows, attachmentRules] = await Promise.all([
+    getTicketAttachments(ticketId),
+    getTicketAttachmentRules(ticketId),
+  ]);
 
   // 3. Build status display
   const statusValue = ticket.status?.value || null;
@@ -149,7 +168,7 @@ export async function getStudentTicketViewModel(
   const resolution_due_at = ticket.due_at ? (ticket.due_at instanceof Date ? ticket.due_at : new Date(ticket.due_at)) : null;
 
   // 6. Calculate TAT info
-  const tatInfo: TATInfo = calculateTATInfo(ticket, { normalizedStatus, ticketProgress });
+  const tatInfo: TATInfo = calculateTATInfo(ticket, { normalizedStatus, ticketProgress }, slaPauses);
 
   // 7. Build timeline
   const ticketForTimeline = {
@@ -158,11 +177,21 @@ export async function getStudentTicketViewModel(
     resolved_at,
     reopened_at,
   };
-  const baseTimeline = buildTimeline(ticketForTimeline, normalizedStatus);
+  // Merged/split tickets are only linked when they are also the student's own
+  const ownLinkedTicketIds = await getOwnTicketIds(
+    linkEvents.flatMap((event) => event.ticketIds),
+    userId
+  );
+  const baseTimeline = buildTimeline(ticketForTimeline, normalizedStatus, comments || [], {
+    events: linkEvents,
+    linkHref: (linkedId) =>
+      ownLinkedTicketIds.has(linkedId) ? `/student/dashboard/ticket/${linkedId}` : null,
+  });
   const timelineEntries: TicketTimelineEntry[] = enrichTimelineWithTAT(
     baseTimeline,
     ticket,
-    { normalizedStatus, ticketProgress }
+    { normalizedStatus, ticketProgress },
+    slaPauses
   );
 
   // 8. Resolve profile fields
@@ -227,10 +256,24 @@ export async function getStudentTicketViewModel(
     resolvedProfileFields,
     normalizedDynamicFields,
     images,
+    attachments: attachmentRows.map(toTicketAttachment),
+    attachmentRules,
     assignedStaff: assignedStaff || null,
   };
 }
 
+/**
+ * Which of the given tickets were filed by this user
+ */
+async function getOwnTicketIds(ticketIds: number[], userId: string): Promise<Set<number>> {
+  if (ticketIds.length === 0) return new Set();
+  const rows = await db
+    .select({ id: tickets.id })
+    .from(tickets)
+    .where(and(inArray(tickets.id, ticketIds), eq(tickets.created_by, userId)));
+  return new Set(rows.map((row) => row.id));
+}
+
 /**
  * Helper: Extract date from metadata or fallback to ticket date
  */
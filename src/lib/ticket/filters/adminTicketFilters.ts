@@ -1,11 +1,15 @@
 /**
- * Admin ticket filtering utilities
- * Centralized filtering logic for admin dashboard
+ * Admin ticket filtering
+ * Turns the AdminTicketFilters URL parameters into SQL conditions so the
+ * dashboards only load one page of tickets (keyset pagination) and compute
+ * their stats with SQL aggregates.
  */
 
-import { parseTicketMetadata } from "@/db/inferred-types";
+import { db, tickets, categories, subcategories, ticket_statuses, users } from "@/db";
+import { and, asc, desc, eq, gte, ilike, inArray, lte, or, sql, type SQL } from "drizzle-orm";
 import { normalizeStatus } from "../utils/normalizeStatus";
-import { filterEscalatedTickets } from "./filterByStatus";
+import { ticketCommentCountSql } from "../data/ticketComments";
+import { slaConfig } from "@/conf/config";
 
 /**
  * Type for ticket with joined data (from cached queries)
@@ -34,253 +38,411 @@ export type AdminTicketRow = {
   creator_full_name?: string | null;
   creator_email?: string | null;
   status?: string | null; // Alias for status_value
+  comment_count?: number;
 };
 
 /**
- * Apply search filter to tickets
+ * Filter parameters set by the AdminTicketFilters component (URL search params)
  */
-export function applySearchFilter(
-  tickets: AdminTicketRow[],
-  searchQuery: string
-): AdminTicketRow[] {
-  if (!searchQuery) return tickets;
-  
-  const query = searchQuery.toLowerCase();
-  return tickets.filter(t => {
-    const idMatch = t.id.toString().includes(query);
-    const descMatch = (t.description || "").toLowerCase().includes(query);
-    
-    // Get subcategory from metadata
-    const metadata = parseTicketMetadata(t.metadata);
-    const subcatName = metadata.subcategory || "";
-    const subcatMatch = subcatName.toLowerCase().includes(query);
-    
-    return idMatch || descMatch || subcatMatch;
-  });
+export interface AdminTicketFilterParams {
+  search?: string;
+  category?: string;
+  subcategory?: string;
+  location?: string;
+  status?: string;
+  escalated?: string;
+  user?: string;
+  from?: string;
+  to?: string;
+  tat?: string;
+  /** Assigned admin (users.id); set by the per-admin analytics page */
+  assigned?: string;
 }
 
-/**
- * Apply category filter
- */
-export function applyCategoryFilter(
-  tickets: AdminTicketRow[],
-  categoryFilter: string,
-  categoryMap: Map<number, { name: string; domain: string | null }>
-): AdminTicketRow[] {
-  if (!categoryFilter) return tickets;
-  
-  const filterLower = categoryFilter.toLowerCase();
-  return tickets.filter(t => {
-    const ticketCategory = t.category_id ? categoryMap.get(t.category_id) : null;
-    const categoryName = ticketCategory?.name || t.category_name || "";
-    return categoryName.toLowerCase() === filterLower;
-  });
-}
+export type AdminTicketSort = "newest" | "oldest";
 
-/**
- * Apply subcategory filter
- */
-export function applySubcategoryFilter(
-  tickets: AdminTicketRow[],
-  subcategoryFilter: string
-): AdminTicketRow[] {
-  if (!subcategoryFilter) return tickets;
-  
-  const filterLower = subcategoryFilter.toLowerCase();
-  return tickets.filter(t => {
-    const metadata = parseTicketMetadata(t.metadata);
-    const subcatName = metadata.subcategory || "";
-    return subcatName.toLowerCase().includes(filterLower);
-  });
+const FILTER_KEYS = [
+  "search",
+  "category",
+  "subcategory",
+  "location",
+  "status",
+  "escalated",
+  "user",
+  "from",
+  "to",
+  "tat",
+  "assigned",
+] as const satisfies ReadonlyArray<keyof AdminTicketFilterParams>;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function firstParam(value: string | string[] | undefined): string {
+  return (typeof value === "string" ? value : value?.[0]) || "";
 }
 
 /**
- * Apply location filter
+ * Read the filter parameters from a page's searchParams
  */
-export function applyLocationFilter(
-  tickets: AdminTicketRow[],
-  locationFilter: string
-): AdminTicketRow[] {
-  if (!locationFilter) return tickets;
-  
-  const filterLower = locationFilter.toLowerCase();
-  return tickets.filter(t => (t.location || "").toLowerCase().includes(filterLower));
+export function parseAdminTicketFilters(
+  params: Record<string, string | string[] | undefined>
+): AdminTicketFilterParams {
+  const filters: AdminTicketFilterParams = {};
+  for (const key of FILTER_KEYS) {
+    const value = firstParam(params[key]).trim();
+    if (value) filters[key] = value;
+  }
+  return filters;
 }
 
 /**
- * Apply status filter using canonical status values
+ * metadata.tatDate as a UTC timestamp (null when missing or not an ISO date)
  */
-export function applyStatusFilter(
-  tickets: AdminTicketRow[],
-  statusFilter: string
-): AdminTicketRow[] {
-  if (!statusFilter) return tickets;
-  
-  const normalizedFilter = normalizeStatus(statusFilter);
-  if (!normalizedFilter) return tickets;
-  
-  return tickets.filter(t => {
-    const ticketStatus = t.status || t.status_value;
-    const normalizedTicketStatus = normalizeStatus(ticketStatus);
-    
-    // Handle special cases
-    if (normalizedFilter === "escalated") {
-      // Escalated can be either status or escalation_level > 0
-      return normalizedTicketStatus === "escalated" || (t.escalation_level || 0) > 0;
-    }
-    
-    return normalizedTicketStatus === normalizedFilter;
-  });
+const tatDateSql = sql`(CASE
+  WHEN ${tickets.metadata}->>'tatDate' ~ '^\\d{4}-\\d{2}-\\d{2}'
+  THEN ((${tickets.metadata}->>'tatDate')::timestamptz AT TIME ZONE 'UTC')
+END)`;
+
+// Due dates are computed on the business calendar; resolution_due_at (SLA) covers tickets without a TAT
+const dueAtSql = sql`COALESCE(${tatDateSql}, ${tickets.resolution_due_at})`;
+
+const nowUtcSql = sql`(now() AT TIME ZONE 'UTC')`;
+
+// Timestamps are stored as UTC wall time; "today" is the SLA calendar's day, not the server's
+function localDateSql(utcTimestamp: SQL, timeZone: string): SQL {
+  return sql`((${utcTimestamp} AT TIME ZONE 'UTC') AT TIME ZONE ${timeZone})::date`;
 }
 
-/**
- * Apply escalated filter
- */
-export function applyEscalatedFilter(
-  tickets: AdminTicketRow[],
-  escalated: string
-): AdminTicketRow[] {
-  if (escalated !== "true") return tickets;
-  return filterEscalatedTickets(tickets);
+function isDueTodaySql(utcTimestamp: SQL, timeZone: string): SQL {
+  return sql`${localDateSql(utcTimestamp, timeZone)} = ${localDateSql(nowUtcSql, timeZone)}`;
 }
 
-/**
- * Apply user filter (searches creator email and name)
- */
-export function applyUserFilter(
-  tickets: AdminTicketRow[],
-  userFilter: string
-): AdminTicketRow[] {
-  if (!userFilter) return tickets;
-  
-  const filterLower = userFilter.toLowerCase();
-  return tickets.filter(t => {
-    const creatorEmail = (t.creator_email || "").toLowerCase();
-    const creatorName = (t.creator_full_name || "").toLowerCase();
-    return creatorEmail.includes(filterLower) || creatorName.includes(filterLower);
-  });
+function tatCondition(tat: string, timeZone: string): SQL | undefined {
+  switch (tat) {
+    case "has":
+      return sql`${tatDateSql} IS NOT NULL`;
+    case "none":
+      return sql`${tatDateSql} IS NULL`;
+    case "due":
+      return sql`${dueAtSql} < ${nowUtcSql}`;
+    case "upcoming":
+      return sql`${dueAtSql} >= ${nowUtcSql}`;
+    case "today":
+      return isDueTodaySql(dueAtSql, timeZone);
+    default:
+      return undefined;
+  }
 }
 
 /**
- * Apply date range filter
+ * Build WHERE conditions for the admin filters.
+ * Conditions only reference tickets columns (lookups are subqueries), so they
+ * can be combined with any join shape and with the admin's scope condition.
  */
-export function applyDateRangeFilter(
-  tickets: AdminTicketRow[],
-  createdFrom?: string,
-  createdTo?: string
-): AdminTicketRow[] {
-  let filtered = tickets;
-  
-  if (createdFrom) {
-    const from = new Date(createdFrom);
-    from.setHours(0, 0, 0, 0);
-    filtered = filtered.filter(t => 
-      t.created_at ? new Date(t.created_at).getTime() >= from.getTime() : false
+export function buildAdminTicketConditions(
+  filters: AdminTicketFilterParams,
+  timeZone: string = slaConfig.defaultTimezone
+): SQL[] {
+  const conditions: SQL[] = [];
+
+  if (filters.search) {
+    const value = `%${filters.search}%`;
+    conditions.push(
+      or(
+        sql`${tickets.id}::text ILIKE ${value}`,
+        ilike(tickets.description, value),
+        sql`${tickets.metadata}->>'subcategory' ILIKE ${value}`
+      )!
+    );
+  }
+
+  if (filters.category) {
+    // The filter UI sends the category slug; older links use the name
+    const value = filters.category.toLowerCase();
+    conditions.push(
+      inArray(
+        tickets.category_id,
+        db
+          .select({ id: categories.id })
+          .from(categories)
+          .where(or(sql`lower(${categories.slug}) = ${value}`, sql`lower(${categories.name}) = ${value}`))
+      )
     );
   }
-  
-  if (createdTo) {
-    const to = new Date(createdTo);
-    to.setHours(23, 59, 59, 999);
-    filtered = filtered.filter(t => 
-      t.created_at ? new Date(t.created_at).getTime() <= to.getTime() : false
+
+  if (filters.subcategory) {
+    conditions.push(
+      or(
+        inArray(
+          tickets.subcategory_id,
+          db
+            .select({ id: subcategories.id })
+            .from(subcategories)
+            .where(sql`lower(${subcategories.slug}) = ${filters.subcategory.toLowerCase()}`)
+        ),
+        sql`${tickets.metadata}->>'subcategory' ILIKE ${`%${filters.subcategory}%`}`
+      )!
     );
   }
-  
-  return filtered;
-}
 
-/**
- * Apply TAT filter
- */
-export function applyTATFilter(
-  tickets: AdminTicketRow[],
-  tatFilter: string
-): AdminTicketRow[] {
-  if (!tatFilter) return tickets;
-  
-  const now = new Date();
-  const startOfToday = new Date(now);
-  startOfToday.setHours(0, 0, 0, 0);
-  const endOfToday = new Date(now);
-  endOfToday.setHours(23, 59, 59, 999);
-  
-  return tickets.filter(t => {
-    const metadata = parseTicketMetadata(t.metadata);
-    const tatDateStr = metadata.tatDate;
-    
-    if (!tatDateStr || typeof tatDateStr !== 'string') {
-      if (tatFilter === "none") return true;
-      return false;
+  if (filters.location) {
+    conditions.push(ilike(tickets.location, `%${filters.location}%`));
+  }
+
+  if (filters.status) {
+    const normalizedFilter = normalizeStatus(filters.status);
+    if (normalizedFilter) {
+      const statusIds = db
+        .select({ id: ticket_statuses.id })
+        .from(ticket_statuses)
+        .where(sql`lower(${ticket_statuses.value}) = ${normalizedFilter}`);
+      conditions.push(
+        normalizedFilter === "escalated"
+          ? // Escalated can be either status or escalation_level > 0
+            or(inArray(tickets.status_id, statusIds), sql`${tickets.escalation_level} > 0`)!
+          : inArray(tickets.status_id, statusIds)
+      );
     }
-    
-    const tatDate = new Date(tatDateStr);
-    if (isNaN(tatDate.getTime())) {
-      if (tatFilter === "none") return true;
-      return false;
+  }
+
+  if (filters.escalated === "true") {
+    conditions.push(sql`${tickets.escalation_level} > 0`);
+  }
+
+  if (filters.user) {
+    // Matches the creator's email or name
+    const value = `%${filters.user}%`;
+    conditions.push(
+      inArray(
+        tickets.created_by,
+        db
+          .select({ id: users.id })
+          .from(users)
+          .where(or(ilike(users.email, value), ilike(users.full_name, value)))
+      )
+    );
+  }
+
+  if (filters.from) {
+    const from = new Date(filters.from);
+    if (!isNaN(from.getTime())) {
+      from.setHours(0, 0, 0, 0);
+      conditions.push(gte(tickets.created_at, from));
     }
-    
-    const hasTat = true;
-    
-    switch (tatFilter) {
-      case "has":
-        return hasTat;
-      case "none":
-        return !hasTat;
-      case "due":
-        return hasTat && tatDate.getTime() < now.getTime();
-      case "upcoming":
-        return hasTat && tatDate.getTime() >= now.getTime();
-      case "today":
-        return hasTat && 
-               tatDate.getTime() >= startOfToday.getTime() && 
-               tatDate.getTime() <= endOfToday.getTime();
-      default:
-        return true;
+  }
+
+  if (filters.to) {
+    const to = new Date(filters.to);
+    if (!isNaN(to.getTime())) {
+      to.setHours(23, 59, 59, 999);
+      conditions.push(lte(tickets.created_at, to));
     }
-  });
+  }
+
+  if (filters.tat) {
+    const condition = tatCondition(filters.tat, timeZone);
+    if (condition) conditions.push(condition);
+  }
+
+  if (filters.assigned && UUID_PATTERN.test(filters.assigned)) {
+    conditions.push(eq(tickets.assigned_to, filters.assigned));
+  }
+
+  return conditions;
+}
+
+/* -------------------------------------------------------------------------- */
+/* Keyset pagination                                                          */
+/* -------------------------------------------------------------------------- */
+
+// Cursor = the (created_at, id) of a boundary row; created_at is kept at microsecond precision
+const CURSOR_PATTERN = /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{6})_(\d+)$/;
+
+function encodeCursor(createdAt: string | null, id: number): string | null {
+  return createdAt ? `${createdAt}_${id}` : null;
+}
+
+function decodeCursor(cursor: string | null | undefined): { createdAt: string; id: number } | null {
+  const match = cursor ? CURSOR_PATTERN.exec(cursor) : null;
+  if (!match || !match[1] || !match[2]) return null;
+  return { createdAt: match[1], id: Number(match[2]) };
+}
+
+export interface AdminTicketPageOptions {
+  /** Filter and scope conditions (AND-ed) */
+  conditions: SQL[];
+  sort?: AdminTicketSort;
+  /** Boundary cursor from a previous page */
+  cursor?: string | null;
+  /** "next" reads after the cursor, "prev" reads before it */
+  direction?: "next" | "prev";
+  limit?: number;
+}
+
+export interface AdminTicketPage {
+  tickets: AdminTicketRow[];
+  nextCursor: string | null;
+  prevCursor: string | null;
 }
 
 /**
- * Calculate ticket statistics
+ * Fetch one page of tickets ordered by created_at (then id).
+ * tickets.created_at is always set (defaultNow), which keeps the keyset total.
  */
-export function calculateTicketStats(
-  tickets: AdminTicketRow[],
-): {
+export async function queryAdminTicketsPage({
+  conditions,
+  sort = "newest",
+  cursor,
+  direction = "next",
+  limit = 20,
+}: AdminTicketPageOptions): Promise<AdminTicketPage> {
+  const boundary = decodeCursor(cursor);
+  const backwards = !!boundary && direction === "prev";
+  // Reading backwards flips the order; the rows are reversed again below
+  const descending = (sort === "newest") !== backwards;
+
+  const where = [...conditions];
+  if (boundary) {
+    const comparison = descending ? sql`<` : sql`>`;
+    where.push(
+      sql`(${tickets.created_at}, ${tickets.id}) ${comparison} (${boundary.createdAt}::timestamp, ${boundary.id})`
+    );
+  }
+
+  const order = descending ? desc : asc;
+  const rows = await db
+    .select({
+      id: tickets.id,
+      title: tickets.title,
+      description: tickets.description,
+      location: tickets.location,
+      status_id: tickets.status_id,
+      status_value: ticket_statuses.value,
+      status_label: ticket_statuses.label,
+      status_badge_color: ticket_statuses.badge_color,
+      category_id: tickets.category_id,
+      subcategory_id: tickets.subcategory_id,
+      created_by: tickets.created_by,
+      assigned_to: tickets.assigned_to,
+      group_id: tickets.group_id,
+      escalation_level: tickets.escalation_level,
+      acknowledgement_due_at: tickets.acknowledgement_due_at,
+      resolution_due_at: tickets.resolution_due_at,
+      metadata: tickets.metadata,
+      created_at: tickets.created_at,
+      updated_at: tickets.updated_at,
+      category_name: categories.name,
+      creator_full_name: users.full_name,
+      creator_email: users.email,
+      comment_count: ticketCommentCountSql(tickets.id),
+      cursor_created_at: sql<string | null>`to_char(${tickets.created_at}, 'YYYY-MM-DD"T"HH24:MI:SS.US')`,
+    })
+    .from(tickets)
+    .leftJoin(ticket_statuses, eq(ticket_statuses.id, tickets.status_id))
+    .leftJoin(categories, eq(categories.id, tickets.category_id))
+    .leftJoin(users, eq(users.id, tickets.created_by))
+    .where(where.length > 0 ? and(...where) : undefined)
+    .orderBy(order(tickets.created_at), order(tickets.id))
+    .limit(limit + 1);
+
+  const hasMore = rows.length > limit;
+  const pageRows = rows.slice(0, limit);
+  if (backwards) pageRows.reverse();
+
+  const first = pageRows[0];
+  const last = pageRows[pageRows.length - 1];
+  const firstCursor = first ? encodeCursor(first.cursor_created_at, first.id) : null;
+  const lastCursor = last ? encodeCursor(last.cursor_created_at, last.id) : null;
+
+  return {
+    tickets: pageRows.map((row) => {
+      const ticket: AdminTicketRow & { cursor_created_at?: string | null } = { ...row, status: row.status_value };
+      delete ticket.cursor_created_at;
+      return ticket;
+    }),
+    // Going forward there is a previous page whenever we started from a cursor;
+    // going backwards there is always a next page (the one we came from)
+    nextCursor: backwards ? lastCursor : hasMore ? lastCursor : null,
+    prevCursor: backwards ? (hasMore ? firstCursor : null) : boundary ? firstCursor : null,
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/* Stats                                                                      */
+/* -------------------------------------------------------------------------- */
+
+export interface AdminTicketStats {
   total: number;
   open: number;
   inProgress: number;
-  resolved: number;
   awaitingStudent: number;
+  reopened: number;
+  resolved: number;
+  closed: number;
   escalated: number;
-} {
-  const stats = {
-    total: tickets.length,
+  /** Open tickets whose TAT falls today (SLA calendar day) */
+  todayPending: number;
+}
+
+/**
+ * Ticket statistics for the matching tickets, aggregated in SQL
+ */
+export async function getAdminTicketStats(
+  conditions: SQL[],
+  timeZone: string = slaConfig.defaultTimezone
+): Promise<AdminTicketStats> {
+  const rows = await db
+    .select({
+      status: ticket_statuses.value,
+      is_final: ticket_statuses.is_final,
+      count: sql<number>`COUNT(*)::int`,
+      escalated: sql<number>`(COUNT(*) FILTER (WHERE ${tickets.escalation_level} > 0))::int`,
+      due_today: sql<number>`(COUNT(*) FILTER (WHERE ${isDueTodaySql(tatDateSql, timeZone)}))::int`,
+    })
+    .from(tickets)
+    .leftJoin(ticket_statuses, eq(ticket_statuses.id, tickets.status_id))
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .groupBy(ticket_statuses.value, ticket_statuses.is_final);
+
+  const stats: AdminTicketStats = {
+    total: 0,
     open: 0,
     inProgress: 0,
-    resolved: 0,
     awaitingStudent: 0,
+    reopened: 0,
+    resolved: 0,
+    closed: 0,
     escalated: 0,
+    todayPending: 0,
   };
-  
-  for (const ticket of tickets) {
-    const status = ticket.status || ticket.status_value;
-    const normalizedStatus = normalizeStatus(status);
-    
-    if (normalizedStatus === "open") {
-      stats.open++;
-    } else if (normalizedStatus === "in_progress") {
-      stats.inProgress++;
-    } else if (normalizedStatus === "resolved") {
-      stats.resolved++;
-    } else if (normalizedStatus === "awaiting_student") {
-      stats.awaitingStudent++;
-    }
-    
-    if ((ticket.escalation_level || 0) > 0) {
-      stats.escalated++;
+
+  for (const row of rows) {
+    const count = Number(row.count);
+    stats.total += count;
+    stats.escalated += Number(row.escalated);
+    if (!row.is_final) stats.todayPending += Number(row.due_today);
+
+    switch (normalizeStatus(row.status)) {
+      case "open":
+        stats.open += count;
+        break;
+      case "in_progress":
+        stats.inProgress += count;
+        break;
+      case "awaiting_student":
+        stats.awaitingStudent += count;
+        break;
+      case "reopened":
+        stats.reopened += count;
+        break;
+      case "resolved":
+        stats.resolved += count;
+        break;
+      case "closed":
+        stats.closed += count;
+        break;
     }
   }
-  
+
   return stats;
 }
@@ -3,12 +3,15 @@
  * Factory function for creating timeline in a testable, reusable way
  */
 
+import type { TicketLinkEvent } from "@/types/ticket";
+
 type TimelineEntry = {
   title: string;
   icon: string;
   date: Date | null;
   color: string;
   textColor: string;
+  href?: string;
 };
 
 type TicketData = {
@@ -21,7 +24,27 @@ type TicketData = {
   status: string | { value: string; label: string; badge_color: string | null } | null;
 };
 
-export function buildTimeline(ticket: TicketData, normalizedStatus: string): TimelineEntry[] {
+// Subset of TicketComment (ticket_comments rows) needed for reply milestones
+type TimelineComment = {
+  createdAt: Date | string | null;
+  authorRole?: string | null;
+  isInternal?: boolean;
+};
+
+// Merges/splits from ticket_activity; linkHref decides which related tickets the viewer can open
+type TimelineLinks = {
+  events: TicketLinkEvent[];
+  linkHref?: (ticketId: number) => string | null;
+};
+
+const formatTicketRefs = (ids: number[]) => ids.map((id) => `#${id}`).join(", ");
+
+export function buildTimeline(
+  ticket: TicketData,
+  normalizedStatus: string,
+  comments: TimelineComment[] = [],
+  links: TimelineLinks = { events: [] }
+): TimelineEntry[] {
   // Helper to normalize dates - ensures all dates are Date objects, not strings
   const normalizeDate = (date: Date | string | null): Date | null => {
     if (!date) return null;
@@ -49,6 +72,31 @@ export function buildTimeline(ticket: TicketData, normalizedStatus: string): Tim
     });
   }
 
+  // Add first staff response from comments (internal notes are not a response)
+  const visibleComments = comments.filter((c) => !c.isInternal && c.createdAt);
+  const firstResponse = visibleComments.find((c) => c.authorRole !== "student");
+  if (firstResponse) {
+    entries.push({
+      title: "First Response",
+      icon: "MessageSquare",
+      date: normalizeDate(firstResponse.createdAt),
+      color: "bg-sky-100 dark:bg-sky-900/30",
+      textColor: "text-sky-600 dark:text-sky-400",
+    });
+  }
+
+  // Add latest student reply from comments
+  const latestStudentReply = [...visibleComments].reverse().find((c) => c.authorRole === "student");
+  if (latestStudentReply) {
+    entries.push({
+      title: "Student Replied",
+      icon: "MessageSquare",
+      date: normalizeDate(latestStudentReply.createdAt),
+      color: "bg-purple-100 dark:bg-purple-900/30",
+      textColor: "text-purple-600 dark:text-purple-400",
+    });
+  }
+
   // Add in progress entry if applicable
   if (normalizedStatus === "in_progress" && ticket.updated_at) {
     entries.push({
@@ -110,6 +158,29 @@ export function buildTimeline(ticket: TicketData, normalizedStatus: string): Tim
     });
   }
 
+  // Add merge / split entries
+  for (const event of links.events) {
+    const refs = formatTicketRefs(event.ticketIds);
+    const title =
+      event.action === "merged"
+        ? `Merged ${refs} into this ticket`
+        : event.action === "merged_into"
+          ? `Merged into ${refs}`
+          : event.action === "split"
+            ? `Split into ${refs}`
+            : `Split from ${refs}`;
+    const [onlyTicketId] = event.ticketIds;
+    const href = event.ticketIds.length === 1 && onlyTicketId ? links.linkHref?.(onlyTicketId) : null;
+    entries.push({
+      title,
+      icon: event.action.startsWith("merged") ? "GitMerge" : "GitBranch",
+      date: event.at,
+      color: "bg-slate-100 dark:bg-slate-900/30",
+      textColor: "text-slate-600 dark:text-slate-400",
+      ...(href ? { href } : {}),
+    });
+  }
+
   // Filter out entries without dates
   return entries.filter(entry => entry.date !== null);
 }
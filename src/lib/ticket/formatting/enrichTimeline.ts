@@ -2,7 +2,7 @@
  * Enrich timeline with TAT-related entries
  */
 
-import type { TicketTimelineEntry } from "@/types/ticket";
+import type { TATPause, TicketTimelineEntry } from "@/types/ticket";
 
 interface TATMetadata {
   tatSetAt?: string | null;
@@ -17,11 +17,13 @@ interface StatusInfo {
 export function enrichTimelineWithTAT(
   baseTimeline: TicketTimelineEntry[],
   ticket: { metadata?: TATMetadata; [key: string]: unknown },
-  statusInfo: StatusInfo
+  statusInfo: StatusInfo,
+  pauses: TATPause[] = []
 ): TicketTimelineEntry[] {
   const timeline = [...baseTimeline];
   const metadata = ticket.metadata || {};
   const { normalizedStatus, ticketProgress } = statusInfo;
+  const isPaused = pauses.some((pause) => !pause.resumedAt);
 
   // Add TAT set entry if TAT was set
   if (metadata.tatSetAt) {
@@ -37,13 +39,33 @@ export function enrichTimelineWithTAT(
     }
   }
 
-  // Add Overdue entry if TAT date has passed and ticket is not resolved
+  // Add SLA pause / resume entries
+  for (const pause of pauses) {
+    timeline.push({
+      title: "SLA Paused",
+      icon: "PauseCircle",
+      date: new Date(pause.pausedAt),
+      color: "bg-slate-100 dark:bg-slate-900/30",
+      textColor: "text-slate-600 dark:text-slate-400",
+    });
+    if (pause.resumedAt) {
+      timeline.push({
+        title: "SLA Resumed",
+        icon: "PlayCircle",
+        date: new Date(pause.resumedAt),
+        color: "bg-sky-100 dark:bg-sky-900/30",
+        textColor: "text-sky-600 dark:text-sky-400",
+      });
+    }
+  }
+
+  // Add Overdue entry if TAT date has passed and ticket is not resolved or paused
   if (metadata.tatDate) {
     const tatDateObj = new Date(String(metadata.tatDate));
     const now = new Date();
     const isResolved = normalizedStatus === "resolved" || normalizedStatus === "closed" || ticketProgress === 100;
 
-    if (!isNaN(tatDateObj.getTime()) && tatDateObj.getTime() < now.getTime() && !isResolved) {
+    if (!isNaN(tatDateObj.getTime()) && tatDateObj.getTime() < now.getTime() && !isResolved && !isPaused) {
       timeline.push({
         title: "Overdue",
         icon: "AlertTriangle",
@@ -4,10 +4,12 @@
  */
 
 type FieldDefinition = {
+  id?: number;
   slug: string;
   name: string;
   field_type: string;
   options?: Array<{ value: string; label: string }>;
+  validation_rules?: Record<string, unknown> | null;
 };
 
 type DynamicField = {
@@ -40,6 +42,7 @@ const SYSTEM_FIELDS = [
   'profile',
   'used_field_ids',
   'dynamic_fields',
+  'form_version_id',
   'browser',
   'device',
   'userAgent',
@@ -217,6 +220,98 @@ function resolveSelectValue(
   return rawValue;
 }
 
+/**
+ * Field types whose values are objects (or lists of objects); they are turned into text
+ * by formatStructuredValue instead of being skipped like other nested values
+ */
+const STRUCTURED_FIELD_TYPES = ['location', 'time_range', 'group'];
+
+function formatRangePoint(point: unknown): string {
+  return typeof point === 'string' ? point.replace('T', ' ') : '';
+}
+
+/**
+ * Plain-text value of a location, time_range or group field
+ * - location: "Hostel A · Floor 2 · Room 204"
+ * - time_range: "10:00 – 12:30"
+ * - group: one "Item: Chair, Quantity: 2" string per item (select values shown by label)
+ * Returns null when the value has nothing to show.
+ */
+function formatStructuredValue(fieldDef: FieldDefinition, value: unknown): string | string[] | null {
+  switch (fieldDef.field_type) {
+    case 'location': {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+      const location = value as Record<string, unknown>;
+      const parts = [
+        location.hostel ? String(location.hostel) : null,
+        location.floor ? `Floor ${location.floor}` : null,
+        location.room ? `Room ${location.room}` : null,
+      ].filter(Boolean);
+      return parts.length > 0 ? parts.join(' · ') : null;
+    }
+    case 'time_range': {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+      const range = value as Record<string, unknown>;
+      const start = formatRangePoint(range.start);
+      const end = formatRangePoint(range.end);
+      return start || end ? `${start} – ${end}` : null;
+    }
+    case 'group': {
+      if (!Array.isArray(value)) return null;
+      const subfields = Array.isArray(fieldDef.validation_rules?.groupFields)
+        ? (fieldDef.validation_rules.groupFields as FieldDefinition[])
+        : [];
+      const items = value
+        .filter((item): item is Record<string, unknown> => Boolean(item) && typeof item === 'object' && !Array.isArray(item))
+        .map((item) =>
+          Object.entries(item)
+            .filter(([, itemValue]) => itemValue !== null && itemValue !== undefined && itemValue !== '')
+            .map(([slug, itemValue]) => {
+              const subfield = subfields.find((f) => f && f.slug === slug);
+              const option = subfield?.options?.find((opt) => opt && opt.value === itemValue);
+              let text = option?.label ?? String(itemValue);
+              if (subfield?.field_type === 'boolean') {
+                text = itemValue === true || itemValue === 'true' ? 'Yes' : 'No';
+              }
+              return `${subfield?.name || formatLabel(slug)}: ${text}`;
+            })
+            .join(', ')
+        )
+        .filter(Boolean);
+      return items.length > 0 ? items : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Value to display for a field, or undefined when it should be skipped
+ * (empty values and nested objects that are not structured field types)
+ */
+function resolveDisplayValue(
+  value: unknown,
+  fieldDef: FieldDefinition | undefined,
+  categorySchema: Record<string, unknown>
+): unknown {
+  if (value === null || value === undefined || value === '') return undefined;
+
+  if (fieldDef && STRUCTURED_FIELD_TYPES.includes(fieldDef.field_type)) {
+    return formatStructuredValue(fieldDef, value) ?? undefined;
+  }
+
+  // Skip nested objects (except arrays)
+  if (typeof value === 'object' && !Array.isArray(value)) {
+    return undefined;
+  }
+
+  // Resolve display value (especially for select fields)
+  if (fieldDef?.field_type === 'select') {
+    return resolveSelectValue(value, fieldDef, categorySchema);
+  }
+  return value;
+}
+
 /**
  * Extract all field definitions from category schema
  */
@@ -252,10 +347,15 @@ function extractFieldDefinitions(categorySchema: CategorySchema): FieldDefinitio
         }
         
         fieldDefs.push({
+          id: typeof field.id === 'number' ? field.id : undefined,
           slug: field.slug || '',
           name: field.name || '',
           field_type: field.field_type || 'text',
           options: Array.isArray(field.options) ? field.options : [],
+          validation_rules:
+            field.validation_rules && typeof field.validation_rules === 'object'
+              ? (field.validation_rules as Record<string, unknown>)
+              : null,
         });
       });
     });
@@ -268,10 +368,13 @@ function extractFieldDefinitions(categorySchema: CategorySchema): FieldDefinitio
 
 /**
  * Main function: Extract and format dynamic fields from metadata
+ * - formVersionFields: the field definitions of the form version the ticket was submitted
+ *   with; they take precedence over the current schema so old tickets keep their labels
  */
 export function extractDynamicFields(
   metadata: Record<string, unknown>,
-  categorySchema: Record<string, unknown>
+  categorySchema: Record<string, unknown>,
+  formVersionFields?: FieldDefinition[]
 ): DynamicField[] {
   // Guard against null/undefined metadata
   if (!metadata || typeof metadata !== 'object') {
@@ -287,7 +390,8 @@ export function extractDynamicFields(
   const processedKeys = new Set<string>();
   
   try {
-    const fieldDefs = extractFieldDefinitions(categorySchema);
+    const versionFieldDefs = Array.isArray(formVersionFields) ? formVersionFields.filter(Boolean) : [];
+    const fieldDefs = [...versionFieldDefs, ...extractFieldDefinitions(categorySchema)];
     
     // First, check metadata.dynamic_fields (new format with field_id)
     if (metadata.dynamic_fields && typeof metadata.dynamic_fields === 'object' && !Array.isArray(metadata.dynamic_fields)) {
@@ -297,16 +401,14 @@ export function extractDynamicFields(
         const fieldData = dynamicFieldsObj[key];
         if (!fieldData || typeof fieldData !== 'object') return;
         
-        const value = fieldData.value;
-        if (value === null || value === undefined || value === '') return;
-        
-        // Skip nested objects (except arrays)
-        if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
-          return;
-        }
+        // Find field definition (by id within the submitted version first)
+        const fieldDef =
+          (typeof fieldData.field_id === 'number'
+            ? versionFieldDefs.find(f => f.id === fieldData.field_id)
+            : undefined) ?? findFieldDefinition(key, fieldDefs);
         
-        // Find field definition
-        const fieldDef = findFieldDefinition(key, fieldDefs);
+        const displayValue = resolveDisplayValue(fieldData.value, fieldDef, categorySchema);
+        if (displayValue === undefined) return;
         
         // Determine label
         const label = fieldDef?.name || formatLabel(key);
@@ -314,12 +416,6 @@ export function extractDynamicFields(
         // Determine field type
         const fieldType = fieldDef?.field_type || 'text';
         
-        // Resolve display value (especially for select fields)
-        let displayValue: unknown = value;
-        if (fieldType === 'select' && fieldDef) {
-          displayValue = resolveSelectValue(value, fieldDef, categorySchema);
-        }
-        
         dynamicFields.push({
           key,
           value: displayValue,
@@ -344,30 +440,19 @@ export function extractDynamicFields(
       // Skip profile fields
       if (isProfileField(key)) return;
       
-      // Skip empty values
-      const value = metadata[key];
-      if (value === null || value === undefined || value === '') return;
-      
-      // Skip nested objects (except arrays)
-      if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
-        return;
-      }
-      
       // Find field definition
       const fieldDef = findFieldDefinition(key, fieldDefs);
       
+      // Skip empty values and nested objects
+      const displayValue = resolveDisplayValue(metadata[key], fieldDef, categorySchema);
+      if (displayValue === undefined) return;
+      
       // Determine label
       const label = fieldDef?.name || formatLabel(key);
       
       // Determine field type
       const fieldType = fieldDef?.field_type || 'text';
       
-      // Resolve display value (especially for select fields)
-      let displayValue: unknown = value;
-      if (fieldType === 'select' && fieldDef) {
-        displayValue = resolveSelectValue(value, fieldDef, categorySchema);
-      }
-      
       dynamicFields.push({
         key,
         value: displayValue,
@@ -68,6 +68,7 @@ export function sanitizeTicket(ticket: {
   category_name?: string | null;
   creator_full_name?: string | null;
   creator_email?: string | null;
+  comment_count?: number | null;
 }) {
   // Ensure ticket is a valid object
   if (!ticket || typeof ticket !== 'object') {
@@ -109,6 +110,7 @@ export function sanitizeTicket(ticket: {
     category_name: ticket.category_name ?? null,
     creator_name: ticket.creator_full_name ?? null,
     creator_email: ticket.creator_email ?? null,
+    comment_count: Number(ticket.comment_count) || 0,
   };
 }
 
@@ -0,0 +1,56 @@
+/**
+ * Ticket attachment rules
+ * Shared by the upload API (server-side checks) and the ticket form / comment
+ * composers (checks before uploading), so both reject the same files.
+ */
+
+import { ATTACHMENT_DEFAULTS } from "@/conf/constants";
+
+export interface AttachmentRules {
+  /** MIME types; "type/*" entries match a whole family */
+  allowedTypes: string[];
+  maxBytes: number;
+}
+
+/**
+ * Rules from a category's attachment_types / attachment_max_mb (defaults for unset values)
+ */
+export function resolveAttachmentRules(types?: string[] | null, maxMb?: number | null): AttachmentRules {
+  const allowedTypes = types?.length ? types : [...ATTACHMENT_DEFAULTS.ALLOWED_TYPES];
+  const limitMb = maxMb && maxMb > 0 ? maxMb : ATTACHMENT_DEFAULTS.MAX_SIZE_MB;
+  return { allowedTypes, maxBytes: limitMb * 1024 * 1024 };
+}
+
+export function isAttachmentTypeAllowed(mimeType: string, allowedTypes: string[]): boolean {
+  const type = mimeType.toLowerCase();
+  return allowedTypes.some((allowed) => {
+    const rule = allowed.toLowerCase().trim();
+    return rule.endsWith("/*") ? type.startsWith(rule.slice(0, -1)) : type === rule;
+  });
+}
+
+/**
+ * Reason a file is rejected by the rules, or null when it is accepted
+ */
+export function validateAttachment(file: { name: string; type: string; size: number }, rules: AttachmentRules): string | null {
+  if (!file.type || !isAttachmentTypeAllowed(file.type, rules.allowedTypes)) {
+    return `File type ${file.type || "unknown"} is not allowed for this ticket`;
+  }
+  if (file.size <= 0) {
+    return "File is empty";
+  }
+  if (file.size > rules.maxBytes) {
+    return `File exceeds the ${Math.round(rules.maxBytes / (1024 * 1024))}MB limit`;
+  }
+  return null;
+}
+
+/**
+ * Human-readable file size (e.g. "2.4 MB")
+ */
+export function formatFileSize(bytes: number | null | undefined): string {
+  if (!bytes || bytes <= 0) return "0 B";
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
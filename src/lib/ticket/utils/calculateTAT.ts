@@ -2,7 +2,7 @@
  * Calculate TAT (Turnaround Time) information from ticket data
  */
 
-import type { TATInfo } from "@/types/ticket";
+import type { TATInfo, TATPause } from "@/types/ticket";
 
 interface TicketData {
   resolution_due_at?: Date | string | null;
@@ -22,10 +22,12 @@ interface StatusInfo {
 
 export function calculateTATInfo(
   ticket: TicketData,
-  statusInfo: StatusInfo
+  statusInfo: StatusInfo,
+  pauses: TATPause[] = []
 ): TATInfo {
   const { normalizedStatus, ticketProgress } = statusInfo;
   const metadata = ticket.metadata || {};
+  const isPaused = pauses.some((pause) => !pause.resumedAt);
   
   const isResolved = normalizedStatus === "resolved" || normalizedStatus === "closed" || ticketProgress === 100;
   const isReopened = normalizedStatus === "reopened" || normalizedStatus.includes("reopened");
@@ -40,6 +42,23 @@ export function calculateTATInfo(
       tatExtensions: Array.isArray(metadata.tatExtensions) ? metadata.tatExtensions : [],
       expectedResolution: null,
       isOverdue: false,
+      isPaused: false,
+      pauses,
+    };
+  }
+
+  // SLA clock stopped (e.g. awaiting the student) - the due date moves out on resume
+  if (isPaused) {
+    return {
+      tat: metadata.tat ? String(metadata.tat) : null,
+      tatDate: metadata.tatDate ? String(metadata.tatDate) : null,
+      tatSetAt: metadata.tatSetAt ? String(metadata.tatSetAt) : null,
+      tatSetBy: metadata.tatSetBy ? String(metadata.tatSetBy) : null,
+      tatExtensions: Array.isArray(metadata.tatExtensions) ? metadata.tatExtensions : [],
+      expectedResolution: "Paused",
+      isOverdue: false,
+      isPaused: true,
+      pauses,
     };
   }
 
@@ -92,5 +111,7 @@ export function calculateTATInfo(
     tatExtensions: Array.isArray(metadata.tatExtensions) ? metadata.tatExtensions : [],
     expectedResolution,
     isOverdue,
+    isPaused: false,
+    pauses,
   };
 }
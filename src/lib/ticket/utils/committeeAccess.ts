@@ -2,17 +2,13 @@
  * Check if a committee member can access a ticket
  */
 
-import { db, tickets, ticket_committee_tags, committees, ticket_groups, categories } from "@/db";
+import { db, tickets, ticket_committee_tags, ticket_groups, categories } from "@/db";
 import { eq, inArray, and } from "drizzle-orm";
+import { getUserCommitteeIds } from "@/lib/committee/committeeMembers";
 
 export async function canCommitteeAccessTicket(ticketId: number, userId: string): Promise<boolean> {
-  // Get committee IDs this user is the head of
-  const committeeRecords = await db
-    .select({ id: committees.id })
-    .from(committees)
-    .where(eq(committees.head_id, userId));
-
-  const committeeIds = committeeRecords.map(c => c.id);
+  // Committees this user is currently a member of (any role)
+  const committeeIds = await getUserCommitteeIds(userId);
 
   // Fetch ticket to check category and created_by
   const [ticket] = await db
@@ -0,0 +1,144 @@
+/**
+ * Server-side validation of dynamic ticket fields
+ *
+ * Loads a subcategory's published fields and options and runs the shared compiler
+ * from schemas/business/ticketForm, so the API enforces the same rules as TicketForm.
+ * Location values are also checked against the hostel / room master data.
+ */
+
+import {
+  validateTicketFields,
+  type TicketFieldDefinition,
+  type TicketFieldErrors,
+  type TicketLocationValue,
+} from "@/schemas/business/ticketForm";
+import { resolveTicketLocation } from "@/lib/hostel/hostelRooms";
+import { ensureFormVersion, type FormVersionField } from "@/lib/category/formVersions";
+import { getPublishedSubcategoryFields } from "@/lib/category/categoryReleases";
+
+/**
+ * Thrown when submitted field values break the field rules; fieldErrors maps slug → message
+ */
+export class TicketFieldValidationError extends Error {
+  constructor(public fieldErrors: TicketFieldErrors) {
+    super("Some ticket fields are invalid");
+    this.name = "TicketFieldValidationError";
+  }
+}
+
+export type TicketFieldDefinitionWithId = TicketFieldDefinition & { id: number };
+
+/**
+ * Published fields (with their options) of a subcategory - the form students were shown.
+ * Empty when the subcategory has not been published.
+ */
+export async function getTicketFieldDefinitions(subcategoryId: number): Promise<TicketFieldDefinitionWithId[]> {
+  return ((await getPublishedSubcategoryFields(subcategoryId)) ?? []).map(toTicketFieldDefinition);
+}
+
+function toTicketFieldDefinition(field: FormVersionField): TicketFieldDefinitionWithId {
+  return {
+    id: field.id,
+    slug: field.slug,
+    name: field.name,
+    field_type: field.field_type,
+    required: field.required,
+    validation_rules: field.validation_rules,
+    options: field.options,
+  };
+}
+
+/**
+ * Replace location values with their master-data version (current names);
+ * throws TicketFieldValidationError for a hostel, floor or room that does not exist
+ */
+async function resolveLocationValues(
+  fields: TicketFieldDefinition[],
+  details: Record<string, unknown>
+): Promise<Record<string, unknown>> {
+  const resolved = { ...details };
+  const fieldErrors: TicketFieldErrors = {};
+  for (const field of fields) {
+    const value = resolved[field.slug] as TicketLocationValue | undefined;
+    if (field.field_type !== "location" || !value || typeof value !== "object" || !value.hostel_id) continue;
+    const location = await resolveTicketLocation(value);
+    if (location) {
+      resolved[field.slug] = location;
+    } else {
+      fieldErrors[field.slug] = `${field.name} is not a known hostel location`;
+    }
+  }
+  if (Object.keys(fieldErrors).length > 0) {
+    throw new TicketFieldValidationError(fieldErrors);
+  }
+  return resolved;
+}
+
+/**
+ * Validate a new ticket's details against its subcategory's fields.
+ * Returns the details to store (values of hidden fields removed); throws TicketFieldValidationError.
+ */
+export async function validateTicketDetails(
+  subcategoryId: number | null,
+  details: Record<string, unknown>,
+  profile?: Record<string, unknown> | null
+): Promise<Record<string, unknown>> {
+  const fields = subcategoryId ? await getTicketFieldDefinitions(subcategoryId) : [];
+  const result = validateTicketFields(fields, details, profile);
+  if (!result.success) {
+    throw new TicketFieldValidationError(result.fieldErrors);
+  }
+  return resolveLocationValues(fields, result.data);
+}
+
+/**
+ * Apply edited field values to a ticket's metadata.
+ * The edit is merged with the stored values and the result validated as a whole,
+ * so required and conditional rules still hold; dynamic_fields / used_field_ids / form_version_id are rebuilt.
+ */
+export async function applyTicketDetailsUpdate(
+  metadata: Record<string, unknown>,
+  subcategoryId: number | null,
+  changes: Record<string, unknown>
+): Promise<Record<string, unknown>> {
+  const publishedFields = subcategoryId ? await getPublishedSubcategoryFields(subcategoryId) : null;
+  const fields = (publishedFields ?? []).map(toTicketFieldDefinition);
+  const current = Object.fromEntries(
+    fields.filter((field) => field.slug in metadata).map((field) => [field.slug, metadata[field.slug]])
+  );
+  const profile =
+    metadata.profile && typeof metadata.profile === "object" ? (metadata.profile as Record<string, unknown>) : null;
+
+  const result = validateTicketFields(fields, { ...current, ...changes }, profile);
+  if (!result.success) {
+    throw new TicketFieldValidationError(result.fieldErrors);
+  }
+  // Only edited locations are re-checked; stored ones stay valid if a room is retired later
+  const data = await resolveLocationValues(fields.filter((field) => field.slug in changes), result.data);
+
+  const next: Record<string, unknown> = { ...metadata };
+  // Entries for fields that are no longer active stay as they were
+  const dynamicFields: Record<string, unknown> =
+    metadata.dynamic_fields && typeof metadata.dynamic_fields === "object"
+      ? { ...(metadata.dynamic_fields as Record<string, unknown>) }
+      : {};
+
+  for (const field of fields) {
+    delete next[field.slug];
+    delete dynamicFields[field.slug];
+    const value = data[field.slug];
+    if (value === undefined || value === null || value === "" || (Array.isArray(value) && value.length === 0)) continue;
+    next[field.slug] = value;
+    dynamicFields[field.slug] = { field_id: field.id, value };
+  }
+
+  next.dynamic_fields = dynamicFields;
+  next.used_field_ids = Object.values(dynamicFields)
+    .map((entry) => (entry as { field_id?: unknown }).field_id)
+    .filter((id): id is number => typeof id === "number");
+  // The details now follow the published form, so render them against its version
+  if (subcategoryId && publishedFields) {
+    next.form_version_id = (await ensureFormVersion(subcategoryId, { fields: publishedFields })).version.id;
+  }
+  return next;
+}
@@ -6,7 +6,10 @@ const isPublicRoute = createRouteMatcher([
   '/',
   '/favicon.ico',
   '/api/auth(.*)',
-  '/api/slack(.*)', // Allow Slack webhooks without authentication
+  '/api/slack/events(.*)', // Slack webhooks (authenticated with the Slack signing secret)
+  '/api/slack/interactions(.*)',
+  '/api/webhooks/email(.*)', // Inbound email relay (authenticated with INBOUND_EMAIL_SECRET)
+  '/api/webhooks/whatsapp(.*)', // Twilio WhatsApp webhook (authenticated with the Twilio request signature)
 ]);
 
 export default clerkMiddleware(async (auth, req) => {
@@ -0,0 +1,19 @@
+import { z } from "zod";
+
+/**
+ * Admin availability (out-of-office windows)
+ */
+export const CreateAvailabilityWindowSchema = z
+  .object({
+    starts_at: z.coerce.date(),
+    ends_at: z.coerce.date(),
+    // users.id of the admin who covers while away
+    delegate_id: z.string().uuid().nullable().optional(),
+    note: z.string().trim().max(255).nullable().optional(),
+    // Super admins may declare a window for another admin
+    user_id: z.string().uuid().optional(),
+  })
+  .refine((data) => data.ends_at > data.starts_at, {
+    message: "ends_at must be after starts_at",
+    path: ["ends_at"],
+  });
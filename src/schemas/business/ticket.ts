@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { TICKET_STATUS } from "@/conf/constants";
+import { TicketCreateSchema } from "@/lib/validation/ticket";
 
 /**
  * Ticket / workflow enums
@@ -50,6 +51,9 @@ export const SetTATSchema = z.object({
  */
 export const UpdateTicketStatusSchema = z.object({
   status: TicketStatus,
+  // Required by some workflow transitions (status_transitions.requires_comment / requires_tat)
+  comment: z.string().trim().min(1).max(10000).optional(),
+  tat: z.string().trim().min(1).optional(),
 });
 
 /**
@@ -97,12 +101,63 @@ export const EscalateTicketSchema = z.object({
   reason: z.string().trim().max(2000).optional(),
 });
 
+/**
+ * Similar open tickets for a ticket being filed (duplicate check)
+ */
+export const SimilarTicketsQuerySchema = z.object({
+  categoryId: z.number().int().positive(),
+  subcategoryId: z.number().int().positive().nullable().optional(),
+  location: z.string().trim().max(255).nullable().optional(),
+  description: z.string().max(20000).nullable().optional(),
+  // Dynamic field values, compared as text
+  details: z.record(z.string(), z.unknown()).optional(),
+});
+
+/**
+ * Follow a ticket; students pass the token the similar ticket lookup returned
+ */
+export const FollowTicketSchema = z.object({
+  followToken: z.string().max(128).nullable().optional(),
+});
+
+/**
+ * Merge duplicates into a ticket (the route's ticket is the primary)
+ */
+export const MergeTicketsSchema = z.object({
+  ticketIds: z.array(z.number().int().positive()).min(1).max(20),
+  reason: z.string().trim().max(2000).optional(),
+});
+
+/**
+ * Split part of a ticket out into a new child ticket
+ */
+export const SplitTicketSchema = z.object({
+  description: z.string().trim().min(1).max(20000),
+  categoryId: z.number().int().positive().optional(),
+  subcategoryId: z.number().int().positive().nullable().optional(),
+  commentIds: z.array(z.number().int().positive()).max(200).optional(),
+  attachmentIds: z.array(z.number().int().positive()).max(200).optional(),
+});
+
+/**
+ * Ticket create / update payloads.
+ * Dynamic field values in `details` are checked against the subcategory's fields
+ * by compileTicketFieldsSchema (./ticketForm), which needs the field definitions.
+ */
+export const CreateTicketSchema = TicketCreateSchema;
+
+export const UpdateTicketSchema = z.object({
+  status: z.string().trim().min(1).optional(),
+  comment: z.string().max(10000).optional(),
+  commentType: z.string().optional(),
+  // Edited dynamic field values (slug → value); admins only
+  details: z.record(z.string(), z.unknown()).optional(),
+});
+
 /**
  * Placeholders for other business-level schemas used mainly on UI side.
  * These are intentionally broad but keep a stable API surface.
  */
-export const CreateTicketSchema = z.any();
-export const UpdateTicketSchema = z.any();
 export const TicketDetailsSchema = z.any();
 export const TicketFilterSchema = z.any();
 export const TicketDbUpdateSchema = z.any();
@@ -1,5 +1,449 @@
 import { z } from "zod";
 
+/**
+ * Dynamic ticket field schemas
+ *
+ * Compiles a subcategory's field definitions (category_fields + field_options)
+ * into a Zod schema for the ticket's `details`. Isomorphic: TicketForm validates
+ * with it before submitting and createTicket / the ticket PATCH route validate
+ * with it again on the server, so both sides enforce the same rules.
+ */
+
+/**
+ * Rules admins configure in category_fields.validation_rules
+ * (numbers may arrive as strings from older field editors)
+ */
+export type TicketFieldRules = {
+  minLength?: number | string | null;
+  maxLength?: number | string | null;
+  pattern?: string | null;
+  errorMessage?: string | null;
+  min?: number | string | null;
+  max?: number | string | null;
+  dependsOn?: string;
+  showWhenValue?: string | string[];
+  hideWhenValue?: string | string[];
+  requiredWhenValue?: string | string[];
+  multiSelect?: boolean;
+  /** location: how deep the picker goes (default "room") */
+  locationLevel?: TicketLocationLevel;
+  /** rating: stars or a numbered scale, 1..max (max defaults to 5) */
+  ratingStyle?: "stars" | "scale";
+  /** time_range: start/end are date-times instead of times of day */
+  withDate?: boolean;
+  /** group: the sub-fields of each item and how many items are allowed */
+  groupFields?: TicketFieldDefinition[];
+  minItems?: number | string | null;
+  maxItems?: number | string | null;
+  itemLabel?: string;
+};
+
+export type TicketLocationLevel = "hostel" | "floor" | "room";
+
+/**
+ * Value of a location field; names are stored next to the ids so the value
+ * reads (and searches) without joining the master data
+ */
+export type TicketLocationValue = {
+  hostel_id: number;
+  hostel?: string;
+  floor?: string;
+  room_id?: number;
+  room?: string;
+};
+
+/**
+ * Value of a time_range field: "HH:mm" times, or "YYYY-MM-DDTHH:mm" with withDate
+ */
+export type TicketTimeRangeValue = {
+  start: string;
+  end: string;
+};
+
+/**
+ * Field types a group's sub-fields can have (no nested groups, uploads or pickers)
+ */
+export const TICKET_GROUP_SUBFIELD_TYPES = ["text", "number", "select", "date", "email", "phone", "boolean"] as const;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^(\+91)?[6-9]\d{9}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export type TicketFieldDefinition = {
+  slug: string;
+  name: string;
+  field_type: string;
+  required?: boolean | null;
+  validation_rules?: Record<string, unknown> | null;
+  options?: Array<{ value: string; label?: string }>;
+};
+
+/**
+ * Values a field's dependsOn can point at: another field's slug, or "profile.<key>"
+ */
+export type TicketFieldContext = {
+  details: Record<string, unknown>;
+  profile?: Record<string, unknown> | null;
+};
+
+function fieldRules(field: TicketFieldDefinition): TicketFieldRules {
+  return (field.validation_rules || {}) as TicketFieldRules;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isBlankValue(value: unknown): boolean {
+  if (isPlainObject(value)) return Object.values(value).every(isBlankValue);
+  return value === undefined || value === null || value === "" || (Array.isArray(value) && value.length === 0);
+}
+
+function ruleNumber(value: unknown): number | null {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value === "string" && value.trim() !== "" && Number.isFinite(Number(value))) return Number(value);
+  return null;
+}
+
+/* -------------------------------------------------------------------------- */
+/* Field type settings                                                        */
+/* -------------------------------------------------------------------------- */
+
+export function getTicketLocationLevel(field: TicketFieldDefinition): TicketLocationLevel {
+  const level = fieldRules(field).locationLevel;
+  return level === "hostel" || level === "floor" ? level : "room";
+}
+
+/**
+ * Highest value of a rating field (2-10, default 5)
+ */
+export function getTicketRatingScale(field: TicketFieldDefinition): number {
+  const max = ruleNumber(fieldRules(field).max);
+  return max === null ? 5 : Math.min(10, Math.max(2, Math.round(max)));
+}
+
+/**
+ * Sub-fields of a group field; entries without a slug or with an unsupported type are skipped
+ */
+export function getTicketGroupFields(field: TicketFieldDefinition): TicketFieldDefinition[] {
+  const groupFields = fieldRules(field).groupFields;
+  if (!Array.isArray(groupFields)) return [];
+  return groupFields.filter(
+    (subfield): subfield is TicketFieldDefinition =>
+      isPlainObject(subfield) &&
+      typeof subfield.slug === "string" &&
+      subfield.slug.trim() !== "" &&
+      (TICKET_GROUP_SUBFIELD_TYPES as readonly string[]).includes(String(subfield.field_type))
+  );
+}
+
+/* -------------------------------------------------------------------------- */
+/* Conditional logic                                                          */
+/* -------------------------------------------------------------------------- */
+
+export function matchesRuleValue(value: unknown, ruleValue?: string | string[]): boolean {
+  if (ruleValue == null) return false;
+  const values = Array.isArray(value) ? value : [value];
+  const targets = Array.isArray(ruleValue) ? ruleValue : [ruleValue];
+  return values.some((val) =>
+    targets.some(
+      (target) => String(val ?? "").toLowerCase() === String(target ?? "").toLowerCase()
+    )
+  );
+}
+
+export function getFieldDependencyValue(key: string | undefined, context: TicketFieldContext): unknown {
+  if (!key) return undefined;
+  if (key.startsWith("profile.")) {
+    return context.profile?.[key.slice("profile.".length)];
+  }
+  return context.details?.[key];
+}
+
+export function isMultiSelectFieldType(field: TicketFieldDefinition): boolean {
+  if (fieldRules(field).multiSelect) return true;
+  const type = (field.field_type || "").toLowerCase();
+  return type === "multi_select" || type === "multiselect" || type === "select_multiple";
+}
+
+export function isTicketFieldVisible(field: TicketFieldDefinition, context: TicketFieldContext): boolean {
+  const rules = fieldRules(field);
+  if (!rules.dependsOn) return true;
+  const controllingValue = getFieldDependencyValue(rules.dependsOn, context);
+
+  if (rules.showWhenValue !== undefined) {
+    return matchesRuleValue(controllingValue, rules.showWhenValue);
+  }
+  if (rules.hideWhenValue !== undefined) {
+    return !matchesRuleValue(controllingValue, rules.hideWhenValue);
+  }
+  return true;
+}
+
+export function isTicketFieldRequired(field: TicketFieldDefinition, context: TicketFieldContext): boolean {
+  const rules = fieldRules(field);
+  if (rules.dependsOn && rules.requiredWhenValue !== undefined) {
+    return matchesRuleValue(getFieldDependencyValue(rules.dependsOn, context), rules.requiredWhenValue);
+  }
+  return Boolean(field.required);
+}
+
+export function isTicketFieldValueFilled(field: TicketFieldDefinition, value: unknown): boolean {
+  if (isMultiSelectFieldType(field)) {
+    const arr = Array.isArray(value) ? value : value != null ? [value] : [];
+    return arr.filter((v) => typeof v === "string" && v.trim() !== "").length > 0;
+  }
+
+  switch ((field.field_type || "").toLowerCase()) {
+    case "boolean":
+      return value === true || value === false || value === "true" || value === "false";
+    case "upload": {
+      const images = Array.isArray(value) ? value : value ? [value] : [];
+      return images.length > 0;
+    }
+    case "group":
+      return Array.isArray(value) && value.length > 0;
+    case "location":
+    case "time_range":
+      return isPlainObject(value) && !isBlankValue(value);
+    default:
+      if (value === undefined || value === null) return false;
+      if (typeof value === "string") return value.trim() !== "";
+      return true;
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/* Compiler                                                                   */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Schema for one filled-in value of a field (emptiness and "required" are handled by
+ * compileTicketFieldsSchema, since they depend on the other fields)
+ */
+export function compileTicketFieldSchema(field: TicketFieldDefinition): z.ZodType {
+  const rules = fieldRules(field);
+  const optionValues = (field.options || []).map((option) => option.value);
+  const isOption = (value: string) => optionValues.length === 0 || optionValues.includes(value);
+  const invalidOption = `${field.name} has an invalid option`;
+
+  if (isMultiSelectFieldType(field)) {
+    return z
+      .union([z.string(), z.array(z.string())], { error: `${field.name} must be a list of options` })
+      .refine((value) => (Array.isArray(value) ? value : [value]).every(isOption), invalidOption);
+  }
+
+  switch ((field.field_type || "").toLowerCase()) {
+    case "select":
+      return z.string({ error: `${field.name} must be one of the options` }).refine(isOption, invalidOption);
+
+    case "boolean":
+      return z.union([z.boolean(), z.enum(["true", "false"])], { error: `${field.name} must be yes or no` });
+
+    case "upload":
+      return z.union([z.string().min(1), z.array(z.string().min(1))], { error: `${field.name} must be uploaded files` });
+
+    case "date":
+      return z
+        .string({ error: `${field.name} must be a date` })
+        .refine((value) => !isNaN(Date.parse(value)), `${field.name} must be a valid date`);
+
+    case "datetime":
+      return z
+        .string({ error: `${field.name} must be a date and time` })
+        .refine((value) => !isNaN(Date.parse(value)), `${field.name} must be a valid date and time`);
+
+    case "time_range": {
+      const point = rules.withDate
+        ? z
+            .string({ error: `${field.name} needs a start and an end` })
+            .refine((value) => !isNaN(Date.parse(value)), `${field.name} must have valid dates and times`)
+        : z.string({ error: `${field.name} needs a start and an end` }).regex(TIME_PATTERN, `${field.name} must have valid times`);
+      // Both formats sort as strings, so the end must compare greater than the start
+      return z
+        .object({ start: point, end: point }, { error: `${field.name} needs a start and an end` })
+        .refine((range) => range.end > range.start, `${field.name} must end after it starts`);
+    }
+
+    case "email":
+      return z
+        .string({ error: `${field.name} must be an email address` })
+        .refine((value) => EMAIL_PATTERN.test(value.trim()), `${field.name} must be a valid email address`);
+
+    case "phone":
+      return z
+        .string({ error: `${field.name} must be a phone number` })
+        .refine(
+          (value) => PHONE_PATTERN.test(value.replace(/[\s-]/g, "")),
+          `${field.name} must be a valid 10-digit mobile number`
+        );
+
+    case "rating": {
+      const max = getTicketRatingScale(field);
+      return z
+        .union([z.number(), z.string()], { error: `${field.name} must be a rating` })
+        .transform(Number)
+        .pipe(
+          z
+            .number({ error: `${field.name} must be a rating` })
+            .int(`${field.name} must be a whole number`)
+            .min(1, `${field.name} must be between 1 and ${max}`)
+            .max(max, `${field.name} must be between 1 and ${max}`)
+        );
+    }
+
+    case "location": {
+      const level = getTicketLocationLevel(field);
+      const part = (label: string, needed: boolean) =>
+        needed ? z.string({ error: `Select a ${label} for ${field.name}` }).min(1, `Select a ${label} for ${field.name}`) : z.string().optional();
+      return z.object(
+        {
+          hostel_id: z.number({ error: `Select a hostel for ${field.name}` }).int().positive(),
+          hostel: z.string().optional(),
+          floor: part("floor", level !== "hostel"),
+          room_id: level === "room" ? z.number({ error: `Select a room for ${field.name}` }).int().positive() : z.number().optional(),
+          room: part("room", level === "room"),
+        },
+        { error: `${field.name} must be a hostel location` }
+      );
+    }
+
+    case "group": {
+      const itemSchema = compileTicketFieldsSchema(getTicketGroupFields(field));
+      const itemLabel = typeof rules.itemLabel === "string" && rules.itemLabel.trim() ? rules.itemLabel.trim() : "Item";
+      const minItems = ruleNumber(rules.minItems);
+      const maxItems = ruleNumber(rules.maxItems);
+      return z
+        .array(z.record(z.string(), z.unknown()), { error: `${field.name} must be a list of items` })
+        .superRefine((items, ctx) => {
+          if (minItems !== null && items.length < minItems) {
+            ctx.addIssue({ code: "custom", message: `${field.name} needs at least ${minItems} item(s)` });
+          }
+          if (maxItems !== null && items.length > maxItems) {
+            ctx.addIssue({ code: "custom", message: `${field.name} allows at most ${maxItems} item(s)` });
+          }
+          items.forEach((item, index) => {
+            const result = itemSchema.safeParse(item);
+            if (result.success) return;
+            for (const issue of result.error.issues) {
+              ctx.addIssue({ code: "custom", message: `${itemLabel} ${index + 1}: ${issue.message}` });
+            }
+          });
+        });
+    }
+
+    case "number": {
+      let schema = z.number({ error: `${field.name} must be a number` });
+      const min = ruleNumber(rules.min);
+      const max = ruleNumber(rules.max);
+      if (min !== null) schema = schema.min(min, `${field.name} must be at least ${min}`);
+      if (max !== null) schema = schema.max(max, `${field.name} must be at most ${max}`);
+      // Numbers are typed into inputs, so numeric strings are accepted as-is
+      return z
+        .union([z.number(), z.string()], { error: `${field.name} must be a number` })
+        .transform(Number)
+        .pipe(schema);
+    }
+
+    default: {
+      let schema = z.string({ error: `${field.name} must be text` });
+      const minLength = ruleNumber(rules.minLength);
+      const maxLength = ruleNumber(rules.maxLength);
+      if (minLength !== null) schema = schema.min(minLength, `${field.name} must be at least ${minLength} characters`);
+      if (maxLength !== null) schema = schema.max(maxLength, `${field.name} must be at most ${maxLength} characters`);
+      if (typeof rules.pattern === "string" && rules.pattern) {
+        try {
+          schema = schema.regex(
+            new RegExp(rules.pattern),
+            typeof rules.errorMessage === "string" && rules.errorMessage
+              ? rules.errorMessage
+              : `${field.name} format is invalid`
+          );
+        } catch {
+          // An invalid pattern is a configuration problem, not the submitter's
+        }
+      }
+      return schema;
+    }
+  }
+}
+
+/**
+ * Schema for a ticket's `details` (field slug → value).
+ * - Visible fields are checked against their rules; required / requiredWhenValue apply
+ * - Values for fields hidden by their dependsOn rules are dropped from the output
+ * - Filled values for slugs that are not fields of the subcategory are rejected
+ */
+export function compileTicketFieldsSchema(
+  fields: TicketFieldDefinition[],
+  options: { profile?: Record<string, unknown> | null } = {}
+) {
+  const fieldSchemas = new Map(fields.map((field) => [field.slug, { field, schema: compileTicketFieldSchema(field) }]));
+
+  return z
+    .record(z.string(), z.unknown())
+    .superRefine((details, ctx) => {
+      const context: TicketFieldContext = { details, profile: options.profile };
+
+      for (const { field, schema } of fieldSchemas.values()) {
+        if (!isTicketFieldVisible(field, context)) continue;
+        const value = details[field.slug];
+
+        if (!isTicketFieldValueFilled(field, value) && isTicketFieldRequired(field, context)) {
+          ctx.addIssue({ code: "custom", message: `${field.name} is required`, path: [field.slug] });
+          continue;
+        }
+        if (isBlankValue(value)) continue;
+
+        const result = schema.safeParse(value);
+        if (!result.success) {
+          for (const issue of result.error.issues) {
+            ctx.addIssue({ code: "custom", message: issue.message, path: [field.slug] });
+          }
+        }
+      }
+
+      for (const [slug, value] of Object.entries(details)) {
+        if (fieldSchemas.has(slug) || isBlankValue(value)) continue;
+        ctx.addIssue({ code: "custom", message: `Unknown field "${slug}"`, path: [slug] });
+      }
+    })
+    .transform((details) => {
+      const context: TicketFieldContext = { details, profile: options.profile };
+      const output: Record<string, unknown> = {};
+      for (const [slug, value] of Object.entries(details)) {
+        const entry = fieldSchemas.get(slug);
+        if (entry && isTicketFieldVisible(entry.field, context)) output[slug] = value;
+      }
+      return output;
+    });
+}
+
+export type TicketFieldErrors = Record<string, string>;
+
+/**
+ * First error message per field slug
+ */
+export function getTicketFieldErrors(error: z.ZodError): TicketFieldErrors {
+  const errors: TicketFieldErrors = {};
+  for (const issue of error.issues) {
+    const slug = String(issue.path[0] ?? "details");
+    if (!errors[slug]) errors[slug] = issue.message;
+  }
+  return errors;
+}
+
+export function validateTicketFields(
+  fields: TicketFieldDefinition[],
+  details: Record<string, unknown>,
+  profile?: Record<string, unknown> | null
+): { success: true; data: Record<string, unknown> } | { success: false; fieldErrors: TicketFieldErrors } {
+  const result = compileTicketFieldsSchema(fields, { profile }).safeParse(details);
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, fieldErrors: getTicketFieldErrors(result.error) };
+}
+
 /**
  * Minimal ticket form schema used by UI when present.
  * Currently only exported through src/schema/index.ts.
@@ -9,11 +453,16 @@ export const ticketFormSchema = z.any();
 
 export type TicketFormData = z.infer<typeof ticketFormSchema>;
 
-export function validateDynamicField(value: unknown): boolean {
-  // Placeholder: always treat dynamic fields as valid.
-  // Reference the value to avoid unused-parameter warnings.
-  void value;
-  return true;
+/**
+ * Error message for a single dynamic field value, or null when it is valid
+ */
+export function validateDynamicField(
+  field: TicketFieldDefinition,
+  value: unknown,
+  context: TicketFieldContext = { details: {} }
+): string | null {
+  const result = validateTicketFields([field], { ...context.details, [field.slug]: value }, context.profile);
+  return result.success ? null : (result.fieldErrors[field.slug] ?? null);
 }
 
 export function validateProfileField(value: unknown): boolean {
@@ -22,6 +22,9 @@ export {
   EscalateTicketSchema,
   ForwardTicketSchema,
   UpdateTicketStatusSchema,
+  SimilarTicketsQuerySchema,
+  MergeTicketsSchema,
+  SplitTicketSchema,
 } from "@/schemas/business/ticket";
 
 // Student schemas (exported from new business layer)
@@ -33,13 +36,23 @@ export {
   BulkEditStudentsSchema,
 } from "@/schemas/business/student";
 
+// Admin availability schemas
+export { CreateAvailabilityWindowSchema } from "@/schemas/business/availability";
+
 // Ticket form schema (UI)
 export {
   ticketFormSchema,
   validateDynamicField,
   validateProfileField,
+  compileTicketFieldSchema,
+  compileTicketFieldsSchema,
+  validateTicketFields,
+} from "@/schemas/business/ticketForm";
+export type {
+  TicketFormData,
+  TicketFieldDefinition,
+  TicketFieldErrors,
 } from "@/schemas/business/ticketForm";
-export type { TicketFormData } from "@/schemas/business/ticketForm";
 
 // Status schema
 export type { TicketStatus as TicketStatusType } from "@/schemas/status";
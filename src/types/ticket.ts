@@ -40,6 +40,7 @@ export interface TicketSubcategory {
 }
 
 export interface TicketComment {
+  id?: number;
   text: string;
   author?: string;
   createdAt: string | Date | null;
@@ -47,15 +48,40 @@ export interface TicketComment {
   source?: string;
   type?: string;
   isInternal?: boolean;
+  authorRole?: string | null;
+  editedAt?: string | Date | null;
   [key: string]: unknown;
 }
 
+export interface TicketAttachment {
+  id: number;
+  ticket_id: number;
+  comment_id: number | null;
+  file_name: string;
+  mime_type: string | null;
+  file_size: number | null;
+  uploaded_by: string | null;
+  created_at: string | Date | null;
+  download_url: string;
+}
+
 export interface TicketTimelineEntry {
   title: string;
   icon: string;
   date: Date | null;
   color: string;
   textColor: string;
+  /** Link to a related ticket (merge/split), only when the viewer can open it */
+  href?: string;
+}
+
+/**
+ * A merge or split that links this ticket to others (from ticket_activity)
+ */
+export interface TicketLinkEvent {
+  action: "merged" | "merged_into" | "split" | "split_from";
+  ticketIds: number[];
+  at: Date;
 }
 
 export interface ResolvedProfileField {
@@ -64,6 +90,13 @@ export interface ResolvedProfileField {
   value: string;
 }
 
+export interface TATPause {
+  status: string;
+  pausedAt: string;
+  resumedAt: string | null;
+  pausedBusinessSeconds: number | null;
+}
+
 export interface TATInfo {
   tat: string | null;
   tatDate: string | null;
@@ -72,4 +105,6 @@ export interface TATInfo {
   tatExtensions: Array<Record<string, unknown>>;
   expectedResolution: string | null;
   isOverdue: boolean;
+  isPaused: boolean;
+  pauses: TATPause[];
 }
@@ -0,0 +1,93 @@
+/**
+ * Worker: Process Committee Tagged
+ * Emails the current members of a committee when a ticket is tagged to it
+ * - Recipients come from committee_members (head, coordinators and members)
+ * - Respects the ticket's email notification config
+ */
+
+import { db } from "@/db";
+import { categories, committees, tickets } from "@/db/schema";
+import { eq } from "drizzle-orm";
+import { getActiveCommitteeMembers } from "@/lib/db-helpers";
+import { getCommitteeTaggedEmail, sendEmail } from "@/lib/integration/email";
+import { shouldSendEmailNotification } from "@/lib/notification/notification-config";
+import { logNotification } from "@/workers/utils";
+import type { OutboxRow } from "@/workers/utils";
+
+export async function processCommitteeTaggedWorker(row: OutboxRow, payload: Record<string, unknown>) {
+  const ticketId = typeof payload.ticket_id === "number" ? payload.ticket_id : NaN;
+  const committeeId = typeof payload.committee_id === "number" ? payload.committee_id : NaN;
+  if (!Number.isInteger(ticketId) || !Number.isInteger(committeeId)) {
+    throw new Error(`[processCommitteeTagged] Invalid payload for outbox ${row.id}: missing ticket_id or committee_id`);
+  }
+  const reason = typeof payload.reason === "string" && payload.reason.trim() ? payload.reason.trim() : null;
+
+  const [ticket] = await db
+    .select({
+      id: tickets.id,
+      categoryId: tickets.category_id,
+      subcategoryId: tickets.subcategory_id,
+      scopeId: tickets.scope_id,
+      location: tickets.location,
+      categoryName: categories.name,
+    })
+    .from(tickets)
+    .leftJoin(categories, eq(tickets.category_id, categories.id))
+    .where(eq(tickets.id, ticketId))
+    .limit(1);
+
+  const [committee] = await db
+    .select({ name: committees.name })
+    .from(committees)
+    .where(eq(committees.id, committeeId))
+    .limit(1);
+
+  // Ticket or committee deleted since the tag was created
+  if (!ticket || !committee) {
+    console.warn(`[processCommitteeTagged] Ticket #${ticketId} or committee ${committeeId} no longer exists; skipping`);
+    return;
+  }
+
+  const shouldSendEmail = await shouldSendEmailNotification(
+    ticket.categoryId,
+    ticket.subcategoryId,
+    ticket.scopeId,
+    ticket.location
+  );
+  if (!shouldSendEmail) {
+    console.log(`[processCommitteeTagged] Email notifications disabled for ticket #${ticketId}`);
+    return;
+  }
+
+  const members = await getActiveCommitteeMembers(committeeId);
+  const taggedBy = typeof payload.tagged_by === "string" ? payload.tagged_by : null;
+  const emailTemplate = getCommitteeTaggedEmail(ticketId, committee.name, ticket.categoryName || "General", reason);
+
+  for (const member of members) {
+    // Whoever tagged the ticket does not need to hear about it
+    if (!member.email || member.userId === taggedBy) continue;
+    try {
+      const emailResult = await sendEmail({
+        to: member.email,
+        subject: emailTemplate.subject,
+        html: emailTemplate.html,
+        ticketId,
+      });
+
+      if (emailResult) {
+        await logNotification({
+          userId: member.userId,
+          ticketId,
+          channel: "email",
+          notificationType: "ticket.committee.tagged",
+          emailMessageId: typeof emailResult.messageId === "string" ? emailResult.messageId : null,
+          sentAt: new Date(),
+        });
+      }
+    } catch (error) {
+      console.error(`[processCommitteeTagged] Failed to email committee member ${member.email}:`, error);
+    }
+  }
+
+  console.log(`[processCommitteeTagged] ✅ Notified ${members.length} member(s) of committee ${committeeId} about ticket #${ticketId}`);
+}
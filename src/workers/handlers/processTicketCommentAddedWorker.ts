@@ -1,142 +1,167 @@
 /**
  * Worker: Process Ticket Comment Added
  * Sends notifications when a comment is added to a ticket
+ * - Loads the comment from ticket_comments (payload carries comment_id)
  * - Posts to Slack thread
- * - Sends email to student (threaded)
+ * - Sends email to the other party (threaded); internal notes never reach the student
+ * - Sends staff replies to the student on WhatsApp (if they opted in)
  */
 
 import { db } from "@/db";
-import { tickets } from "@/db/schema";
+import { categories, ticket_comments, tickets, users } from "@/db/schema";
+import type { TicketCommentSelect } from "@/db/inferred-types";
 import { eq } from "drizzle-orm";
 import { postThreadReplyToChannel } from "@/lib/integration/slack";
 import { sendEmail, getCommentAddedEmail } from "@/lib/integration/email";
+import { getLatestTicketComment, isInternalCommentType } from "@/lib/ticket/data/ticketComments";
+import { COMMENT_SOURCE, USER_ROLE } from "@/conf/constants";
 import { logNotification } from "@/workers/utils";
+import { getCommentAddedWhatsApp, notifyUserOnWhatsApp } from "@/lib/notification/whatsapp";
 
-type CommentAddedPayload = {
-  ticketId: number;
-  [key: string]: unknown;
-};
-export async function processTicketCommentAddedWorker(payload: CommentAddedPayload) {
-  console.log("[Worker] Processing ticket comment added", { payload });
-
-  try {
-    const ticket_id = typeof payload.ticket_id === 'number' ? payload.ticket_id : 
-                     typeof payload.ticket_id === 'string' ? parseInt(payload.ticket_id, 10) : 0;
-    const comment_text = typeof payload.comment_text === 'string' ? payload.comment_text : '';
-    const author_name = typeof payload.author_name === 'string' ? payload.author_name : '';
-    const author_role = typeof payload.author_role === 'string' ? payload.author_role : '';
-
-    // Fetch ticket with all necessary data
-    const ticket = await db.query.tickets.findMany({
-      where: eq(tickets.id, ticket_id),
-      with: {
-        created_by_user: true,
-        category: true,
-        assigned_admin: {
-          with: {
-            user: true,
-          },
-        },
-      },
-      limit: 1,
-    });
-
-    if (!ticket || ticket.length === 0) {
-      console.error(`[Worker] Ticket ${ticket_id} not found`);
-      return;
-    }
+function parseId(value: unknown): number | null {
+  const parsed = typeof value === "number" ? value : typeof value === "string" ? parseInt(value, 10) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+export async function processTicketCommentAdded(outboxId: number, payload: Record<string, unknown>) {
+  // Older producers used camelCase ticketId
+  const ticketId = parseId(payload.ticket_id ?? payload.ticketId);
+  if (!ticketId) {
+    throw new Error(`[processTicketCommentAdded] Invalid payload for outbox ${outboxId}: missing ticket_id`);
+  }
+
+  // Events enqueued before ticket_comments existed have no comment_id; fall back to the latest comment
+  const commentId = parseId(payload.comment_id);
+  let comment: TicketCommentSelect | null = null;
+  if (commentId) {
+    const [row] = await db
+      .select()
+      .from(ticket_comments)
+      .where(eq(ticket_comments.id, commentId))
+      .limit(1);
+    comment = row ?? null;
+  } else {
+    comment = await getLatestTicketComment(ticketId, { includeInternal: true });
+  }
+
+  if (!comment || comment.ticket_id !== ticketId) {
+    throw new Error(`[processTicketCommentAdded] Comment ${commentId ?? "(latest)"} not found for ticket ${ticketId}`);
+  }
+
+  if (comment.deleted_at) {
+    console.log(`[processTicketCommentAdded] Comment ${comment.id} was deleted before delivery; skipping`);
+    return;
+  }
+
+  console.log(`[processTicketCommentAdded] 📬 Processing comment ${comment.id} on ticket #${ticketId} (outbox ${outboxId})`);
+
+  const [ticketRow] = await db
+    .select({
+      id: tickets.id,
+      metadata: tickets.metadata,
+      createdBy: tickets.created_by,
+      assignedTo: tickets.assigned_to,
+      categoryName: categories.name,
+    })
+    .from(tickets)
+    .leftJoin(categories, eq(categories.id, tickets.category_id))
+    .where(eq(tickets.id, ticketId))
+    .limit(1);
+
+  if (!ticketRow) {
+    throw new Error(`[processTicketCommentAdded] Ticket ${ticketId} not found`);
+  }
 
-    const ticketData = ticket[0];
-    type TicketMetadata = { slackMessageTs?: unknown; slackChannel?: unknown; [key: string]: unknown };
-    const metadata = (ticketData.metadata && typeof ticketData.metadata === 'object' && !Array.isArray(ticketData.metadata))
-      ? (ticketData.metadata as TicketMetadata)
+  const metadata =
+    ticketRow.metadata && typeof ticketRow.metadata === "object" && !Array.isArray(ticketRow.metadata)
+      ? (ticketRow.metadata as Record<string, unknown>)
       : {};
 
-    // 1. Post to Slack thread (if exists)
-    const slackMessageTs = typeof metadata.slackMessageTs === 'string' ? metadata.slackMessageTs : undefined;
-    const slackChannel = typeof metadata.slackChannel === 'string' ? metadata.slackChannel : undefined;
-
-    if (slackMessageTs && slackChannel) {
-      try {
-        const authorLabel = author_role === "student" ? "Student" : "Admin";
-        const slackResult = await postThreadReplyToChannel(
-          slackChannel,
-          slackMessageTs,
-          `💬 *New Comment by ${author_name}* (${authorLabel})\n${comment_text}`
-        );
-        console.log(`[Worker] Posted comment to Slack thread ${slackMessageTs}`);
-        const replyTs = typeof slackResult?.ts === "string" ? slackResult.ts : undefined;
-        await logNotification({
-          userId: null,
-          ticketId: ticket_id,
-          channel: "slack",
-          notificationType: "ticket.comment",
-          slackMessageId: replyTs ?? slackMessageTs,
-          sentAt: new Date(),
-        });
-      } catch (error) {
-        console.error("[Worker] Failed to post to Slack thread:", error);
-      }
-    } else {
-      console.log("[Worker] No Slack thread found for ticket", { ticket_id });
+  const isInternal = isInternalCommentType(comment.comment_type);
+  const isStudentAuthor = comment.author_role === USER_ROLE.STUDENT;
+  const authorName = comment.author_name || (isStudentAuthor ? "Student" : "Admin");
+
+  // ------------------------------------------------------------------
+  // 1. Slack: reply in the ticket thread (skip comments that came from Slack)
+  // ------------------------------------------------------------------
+  const slackMessageTs = typeof metadata.slackMessageTs === "string" ? metadata.slackMessageTs : undefined;
+  const slackChannel = typeof metadata.slackChannel === "string" ? metadata.slackChannel : undefined;
+
+  if (comment.source === COMMENT_SOURCE.SLACK) {
+    console.log(`[processTicketCommentAdded] Comment ${comment.id} originated in Slack; not echoing it back`);
+  } else if (slackMessageTs && slackChannel) {
+    try {
+      const authorLabel = isStudentAuthor ? "Student" : "Admin";
+      const heading = isInternal
+        ? `🔒 *Internal note by ${authorName}*`
+        : `💬 *New Comment by ${authorName}* (${authorLabel})`;
+      const slackResult = await postThreadReplyToChannel(
+        slackChannel,
+        slackMessageTs,
+        `${heading}\n${comment.body}`
+      );
+      const replyTs = typeof slackResult?.ts === "string" ? slackResult.ts : undefined;
+      await logNotification({
+        userId: null,
+        ticketId,
+        channel: "slack",
+        notificationType: "ticket.comment",
+        slackMessageId: replyTs ?? slackMessageTs,
+        sentAt: new Date(),
+      });
+    } catch (error) {
+      console.error(`[processTicketCommentAdded] Failed to post comment to Slack thread for ticket #${ticketId}:`, error);
     }
+  } else {
+    console.log(`[processTicketCommentAdded] No Slack thread found for ticket #${ticketId}`);
+  }
+
+  // ------------------------------------------------------------------
+  // 2. Email: student comment → assigned admin, staff comment → student
+  // ------------------------------------------------------------------
+  const recipientUserId = isStudentAuthor ? ticketRow.assignedTo : isInternal ? null : ticketRow.createdBy;
 
-    // 2. Send email notification
+  if (!recipientUserId) {
+    console.log(`[processTicketCommentAdded] No email recipient for comment ${comment.id}${isInternal ? " (internal note)" : ""}`);
+  } else if (recipientUserId === comment.author_id) {
+    console.log(`[processTicketCommentAdded] Comment ${comment.id} author is the recipient; skipping email`);
+  } else {
     try {
-      // Determine recipient based on author
-      // If student commented -> Notify Admin
-      // If admin commented -> Notify Student
-      let recipientEmail = "";
-      let recipientName = "";
-      let recipientUserId: string | null = null;
-
-      if (author_role === "student") {
-        // Notify assigned admin
-        type AssignedAdmin = { user?: { email?: string; id?: string }; full_name?: string };
-        const assignedAdmin = ticketData.assigned_admin as unknown as AssignedAdmin;
-        if (assignedAdmin?.user?.email) {
-          recipientEmail = assignedAdmin.user.email;
-          recipientName = assignedAdmin.full_name || "Admin";
-          recipientUserId = typeof assignedAdmin.user.id === "string" ? assignedAdmin.user.id : null;
-        }
-      } else {
-        // Notify student
-        type CreatedByUser = { email?: string; first_name?: string; last_name?: string; id?: string };
-        const createdByUser = ticketData.created_by_user as unknown as CreatedByUser;
-        if (createdByUser?.email) {
-          recipientEmail = createdByUser.email;
-          const firstName = createdByUser.first_name || "";
-          const lastName = createdByUser.last_name || "";
-          recipientName = [firstName, lastName].filter(Boolean).join(" ") || "Student";
-          recipientUserId = typeof createdByUser.id === "string" ? createdByUser.id : null;
-        }
-      }
+      const [recipient] = await db
+        .select({ id: users.id, email: users.email, full_name: users.full_name })
+        .from(users)
+        .where(eq(users.id, recipientUserId))
+        .limit(1);
 
-      if (recipientEmail) {
-        type Category = { name?: string; [key: string]: unknown };
-        const category = ticketData.category as unknown as Category;
+      if (recipient?.email) {
         const emailTemplate = getCommentAddedEmail(
-          ticket_id,
-          comment_text,
-          author_name,
-          typeof category?.name === 'string' ? category.name : "Unknown"
+          ticketId,
+          comment.body,
+          authorName,
+          ticketRow.categoryName || "Unknown"
         );
 
+        const threadMessageId =
+          typeof metadata.originalEmailMessageId === "string"
+            ? metadata.originalEmailMessageId
+            : typeof metadata.emailMessageId === "string"
+              ? metadata.emailMessageId
+              : undefined;
+
         const emailResult = await sendEmail({
-          to: recipientEmail,
+          to: recipient.email,
           subject: emailTemplate.subject,
           html: emailTemplate.html,
-          ticketId: ticket_id,
-          threadMessageId: typeof metadata.emailMessageId === 'string' ? metadata.emailMessageId : undefined,
-          originalSubject: typeof metadata.originalEmailSubject === 'string' ? metadata.originalEmailSubject : undefined,
+          ticketId,
+          threadMessageId,
+          originalSubject: typeof metadata.originalEmailSubject === "string" ? metadata.originalEmailSubject : undefined,
         });
 
-        console.log(`[Worker] Sent comment email to ${recipientName} (${recipientEmail})`);
-
         if (emailResult) {
+          console.log(`[processTicketCommentAdded] Sent comment email to ${recipient.full_name || recipient.email}`);
           await logNotification({
-            userId: recipientUserId,
-            ticketId: ticket_id,
+            userId: recipient.id,
+            ticketId,
             channel: "email",
             notificationType: "ticket.comment",
             emailMessageId: typeof emailResult.messageId === "string" ? emailResult.messageId : null,
@@ -144,15 +169,31 @@ export async function processTicketCommentAddedWorker(payload: CommentAddedPaylo
           });
         }
       } else {
-        console.log("[Worker] No recipient email found for comment notification");
+        console.log(`[processTicketCommentAdded] Recipient ${recipientUserId} has no email address`);
       }
     } catch (error) {
-      console.error("[Worker] Failed to send comment email:", error);
+      console.error(`[processTicketCommentAdded] Failed to send comment email for ticket #${ticketId}:`, error);
     }
+  }
 
-    console.log("[Worker] Successfully processed comment notification");
-  } catch (error) {
-    console.error("[Worker] Error in processTicketCommentAddedWorker:", error);
-    throw error;
+  // ------------------------------------------------------------------
+  // 3. WhatsApp: staff replies → student (opt-in only)
+  // ------------------------------------------------------------------
+  if (!isStudentAuthor && !isInternal && ticketRow.createdBy && ticketRow.createdBy !== comment.author_id) {
+    try {
+      const sent = await notifyUserOnWhatsApp({
+        userId: ticketRow.createdBy,
+        ticketId,
+        body: getCommentAddedWhatsApp(ticketId, comment.body, authorName),
+        notificationType: "ticket.comment",
+      });
+      if (sent) {
+        console.log(`[processTicketCommentAdded] Sent comment WhatsApp message for ticket #${ticketId}`);
+      }
+    } catch (error) {
+      console.error(`[processTicketCommentAdded] Failed to send comment WhatsApp message for ticket #${ticketId}:`, error);
+    }
   }
+
+  console.log(`[processTicketCommentAdded] ✅ Comment ${comment.id} notifications processed for ticket #${ticketId}`);
 }
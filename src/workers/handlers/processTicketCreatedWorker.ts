@@ -1,5 +1,5 @@
 import { db } from "@/db";
-import { categories, tickets, users, ticket_committee_tags, ticket_statuses } from "@/db/schema";
+import { categories, tickets, users, ticket_committee_tags, ticket_statuses, ticket_integrations } from "@/db/schema";
 import { eq } from "drizzle-orm";
 import { getTicketCreatedEmail, sendEmail } from "@/lib/integration/email";
 import { postToSlackChannel } from "@/lib/integration/slack";
@@ -377,6 +377,18 @@ export async function processTicketCreated(outboxId: number, payload: TicketCrea
         if (emailResult?.messageId) {
           setMetadataValue("originalEmailMessageId", emailResult.messageId);
           setMetadataValue("originalEmailSubject", emailTemplate.subject);
+          // Inbound replies are matched to the ticket through this thread id
+          try {
+            await db
+              .insert(ticket_integrations)
+              .values({ ticket_id: ticket.id, email_thread_id: emailResult.messageId })
+              .onConflictDoUpdate({
+                target: ticket_integrations.ticket_id,
+                set: { email_thread_id: emailResult.messageId, updated_at: new Date() },
+              });
+          } catch (error) {
+            console.warn(`[processTicketCreated] Failed to save email thread id for ticket #${ticket.id}:`, error);
+          }
           console.log(`[processTicketCreated] ✅ Email sent successfully for ticket #${ticket.id} (Message-ID: ${emailResult.messageId})`);
         } else if (emailResult === null) {
           console.error(`[processTicketCreated] ❌ Email sending failed for ticket #${ticket.id} - sendEmail returned null`);
@@ -548,6 +560,21 @@ export async function processTicketCreated(outboxId: number, payload: TicketCrea
               console.warn(`[processTicketCreated] Could not save Slack thread (table may not exist):`, error);
             }
           }
+
+          // Replies in this thread are synced back as comments (see /api/slack/events)
+          if (!channelRouting.threadTs) {
+            try {
+              await db
+                .insert(ticket_integrations)
+                .values({ ticket_id: ticket.id, slack_thread_id: messageTs })
+                .onConflictDoUpdate({
+                  target: ticket_integrations.ticket_id,
+                  set: { slack_thread_id: messageTs, updated_at: new Date() },
+                });
+            } catch (error) {
+              console.warn(`[processTicketCreated] Failed to save Slack thread id for ticket #${ticket.id}:`, error);
+            }
+          }
           
           setMetadataValue("slackMessageTs", messageTs);
           setMetadataValue("slackChannel", actualChannel || categoryName || "unknown");
@@ -1,8 +1,301 @@
 /**
- * Placeholder worker for ticket escalation notifications.
+ * Worker: Process Ticket Escalated
+ * Delivers escalation notifications to the next-level admin
+ * - Resolves the next escalation target from escalation_rules
+ * - Posts to the ticket's Slack thread (mentioning the target admin)
+ * - Sends escalation email to the student and the target admin (threaded)
  */
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-export async function processTicketEscalated(_outboxId: number, _payload: Record<string, unknown>) {
-  console.warn("[processTicketEscalated] Handler not implemented yet. Event skipped.");
+
+import { db } from "@/db";
+import {
+  admin_profiles,
+  categories,
+  domains,
+  scopes,
+  ticket_committee_tags,
+  ticket_statuses,
+  tickets,
+  users,
+} from "@/db/schema";
+import { eq } from "drizzle-orm";
+import { getEscalationEmail, sendEmail } from "@/lib/integration/email";
+import { postThreadReplyToChannel, postToSlackChannel } from "@/lib/integration/slack";
+import { getNextEscalationTarget } from "@/lib/escalation/escalation";
+import { findNotificationChannel, saveTicketSlackThread } from "@/lib/notification/channel-routing";
+import { shouldSendEmailNotification, shouldSendSlackNotification } from "@/lib/notification/notification-config";
+import { slackConfig } from "@/conf/config";
+import { logNotification } from "@/workers/utils";
+
+type TicketEscalatedPayload = {
+  ticket_id: number;
+  escalated_by_role: string | null;
+  new_escalation_level: number | null;
+  reason: string | null;
+};
+
+function parsePayload(payload: Record<string, unknown>): TicketEscalatedPayload | null {
+  const ticketId =
+    typeof payload.ticket_id === "number"
+      ? payload.ticket_id
+      : typeof payload.ticket_id === "string"
+        ? parseInt(payload.ticket_id, 10)
+        : NaN;
+  if (!Number.isFinite(ticketId) || ticketId <= 0) {
+    return null;
+  }
+
+  const level =
+    typeof payload.new_escalation_level === "number"
+      ? payload.new_escalation_level
+      : typeof payload.new_escalation_level === "string"
+        ? parseInt(payload.new_escalation_level, 10)
+        : NaN;
+
+  return {
+    ticket_id: ticketId,
+    escalated_by_role: typeof payload.escalated_by_role === "string" ? payload.escalated_by_role : null,
+    new_escalation_level: Number.isFinite(level) ? level : null,
+    reason: typeof payload.reason === "string" && payload.reason.trim() ? payload.reason.trim() : null,
+  };
 }
 
+export async function processTicketEscalated(outboxId: number, payload: Record<string, unknown>) {
+  const parsed = payload && typeof payload === "object" && !Array.isArray(payload) ? parsePayload(payload) : null;
+  if (!parsed) {
+    throw new Error(`[processTicketEscalated] Invalid payload for outbox ${outboxId}: missing ticket_id`);
+  }
+
+  const ticketId = parsed.ticket_id;
+  console.log(`[processTicketEscalated] 📬 Processing escalation for ticket #${ticketId} (outbox ${outboxId})`);
+
+  const [ticketRow] = await db
+    .select({
+      id: tickets.id,
+      location: tickets.location,
+      metadata: tickets.metadata,
+      categoryId: tickets.category_id,
+      subcategoryId: tickets.subcategory_id,
+      scopeId: tickets.scope_id,
+      assignedTo: tickets.assigned_to,
+      createdBy: tickets.created_by,
+      escalationLevel: tickets.escalation_level,
+      status: ticket_statuses.value,
+      categoryName: categories.name,
+      domainId: categories.domain_id,
+      domainName: domains.name,
+      scopeName: scopes.name,
+    })
+    .from(tickets)
+    .leftJoin(ticket_statuses, eq(ticket_statuses.id, tickets.status_id))
+    .leftJoin(categories, eq(categories.id, tickets.category_id))
+    .leftJoin(domains, eq(domains.id, categories.domain_id))
+    .leftJoin(scopes, eq(scopes.id, tickets.scope_id))
+    .where(eq(tickets.id, ticketId))
+    .limit(1);
+
+  if (!ticketRow) {
+    throw new Error(`[processTicketEscalated] Ticket ${ticketId} not found`);
+  }
+
+  const metadata =
+    ticketRow.metadata && typeof ticketRow.metadata === "object" && !Array.isArray(ticketRow.metadata)
+      ? (ticketRow.metadata as Record<string, unknown>)
+      : {};
+
+  const escalationLevel = parsed.new_escalation_level ?? ticketRow.escalationLevel ?? 1;
+  const categoryName = ticketRow.categoryName || "General";
+
+  // ------------------------------------------------------------------
+  // 1. Resolve next-level admin
+  // escalation_rules are keyed by domain name + scope name, and the
+  // producer has already incremented escalation_level, so look for rules
+  // above the previous level.
+  // ------------------------------------------------------------------
+  const target = await getNextEscalationTarget(
+    ticketRow.domainName || categoryName,
+    ticketRow.scopeName || ticketRow.location || null,
+    Math.max(0, escalationLevel - 1)
+  );
+
+  let assignedTo = ticketRow.assignedTo;
+  if (target && target.userId !== ticketRow.assignedTo) {
+    await db
+      .update(tickets)
+      .set({ assigned_to: target.userId, updated_at: new Date() })
+      .where(eq(tickets.id, ticketId));
+    assignedTo = target.userId;
+    console.log(`[processTicketEscalated] Reassigned ticket #${ticketId} to level ${target.level} admin ${target.userId}`);
+  } else if (!target) {
+    console.log(`[processTicketEscalated] No escalation rule above level ${escalationLevel - 1} for ticket #${ticketId}; notifying fallback channel only`);
+  }
+
+  let targetSlackUserId: string | null = null;
+  if (target) {
+    const [profile] = await db
+      .select({ slack_user_id: admin_profiles.slack_user_id })
+      .from(admin_profiles)
+      .where(eq(admin_profiles.user_id, target.userId))
+      .limit(1);
+    targetSlackUserId = profile?.slack_user_id?.trim() || null;
+  }
+
+  const escalatedToLabel = target
+    ? `${target.fullName || target.email || "Admin"} (Level ${target.level})`
+    : escalationLevel >= 2
+      ? "Super Admin (URGENT)"
+      : "Super Admin";
+
+  // ------------------------------------------------------------------
+  // 2. Slack: reply in the existing ticket thread
+  // ------------------------------------------------------------------
+  const shouldSendSlack = await shouldSendSlackNotification(
+    categoryName,
+    ticketRow.categoryId,
+    ticketRow.subcategoryId,
+    ticketRow.scopeId,
+    ticketRow.location
+  );
+
+  if (shouldSendSlack) {
+    try {
+      let committeeIds: number[] | null = null;
+      const committeeTags = await db
+        .select({ committee_id: ticket_committee_tags.committee_id })
+        .from(ticket_committee_tags)
+        .where(eq(ticket_committee_tags.ticket_id, ticketId));
+      if (committeeTags.length > 0) {
+        committeeIds = committeeTags.map((tag) => tag.committee_id);
+      }
+
+      const channelRouting = await findNotificationChannel(
+        ticketId,
+        ticketRow.categoryId,
+        ticketRow.scopeId,
+        ticketRow.domainId,
+        committeeIds,
+        assignedTo
+      );
+
+      const metadataThreadTs = typeof metadata.slackMessageTs === "string" ? metadata.slackMessageTs : null;
+      const metadataChannel = typeof metadata.slackChannel === "string" ? metadata.slackChannel : null;
+      const threadTs = channelRouting.threadTs || metadataThreadTs;
+      const channel = channelRouting.threadTs ? channelRouting.channel : metadataChannel || channelRouting.channel;
+
+      const ccUserIds = targetSlackUserId
+        ? [targetSlackUserId]
+        : Array.isArray(slackConfig.defaultCc)
+          ? [...slackConfig.defaultCc]
+          : [];
+
+      const escalationText = [
+        `🚨 *ESCALATION #${escalationLevel}*`,
+        `Ticket #${ticketId} has been escalated${parsed.escalated_by_role ? ` (by ${parsed.escalated_by_role})` : ""}.`,
+        parsed.reason ? `Reason: ${parsed.reason}` : "",
+        `Escalated to: ${escalatedToLabel}`,
+      ]
+        .filter(Boolean)
+        .join("\n");
+
+      let slackMessageId: string | null = null;
+      if (channel && threadTs) {
+        const result = await postThreadReplyToChannel(channel, threadTs, escalationText, ccUserIds);
+        slackMessageId = typeof result?.ts === "string" ? result.ts : threadTs;
+      } else {
+        // No thread yet (e.g. ticket.created notification never went out) - start one
+        slackMessageId = await postToSlackChannel(
+          categoryName,
+          escalationText,
+          ticketId,
+          ccUserIds,
+          channel || undefined
+        );
+        if (slackMessageId && channel) {
+          await saveTicketSlackThread(ticketId, channel, slackMessageId);
+        }
+      }
+
+      if (slackMessageId) {
+        await logNotification({
+          userId: target?.userId ?? null,
+          ticketId,
+          channel: "slack",
+          notificationType: "ticket.escalated",
+          slackMessageId,
+          sentAt: new Date(),
+        });
+      }
+    } catch (error) {
+      console.error(`[processTicketEscalated] Failed to post escalation to Slack for ticket #${ticketId}:`, error);
+    }
+  } else {
+    console.log(`[processTicketEscalated] Slack notifications disabled for ticket #${ticketId} (category: ${categoryName})`);
+  }
+
+  // ------------------------------------------------------------------
+  // 3. Email: student + next-level admin, threaded on the original message
+  // ------------------------------------------------------------------
+  const shouldSendEmail = await shouldSendEmailNotification(
+    ticketRow.categoryId,
+    ticketRow.subcategoryId,
+    ticketRow.scopeId,
+    ticketRow.location
+  );
+
+  if (shouldSendEmail) {
+    const threadMessageId =
+      typeof metadata.originalEmailMessageId === "string"
+        ? metadata.originalEmailMessageId
+        : typeof metadata.emailMessageId === "string"
+          ? metadata.emailMessageId
+          : undefined;
+    const originalSubject = typeof metadata.originalEmailSubject === "string" ? metadata.originalEmailSubject : undefined;
+
+    const recipients: Array<{ userId: string | null; email: string; audience: "student" | "admin" }> = [];
+
+    if (ticketRow.createdBy) {
+      const [student] = await db
+        .select({ id: users.id, email: users.email })
+        .from(users)
+        .where(eq(users.id, ticketRow.createdBy))
+        .limit(1);
+      if (student?.email) {
+        recipients.push({ userId: student.id, email: student.email, audience: "student" });
+      }
+    }
+
+    if (target?.email) {
+      recipients.push({ userId: target.userId, email: target.email, audience: "admin" });
+    }
+
+    for (const recipient of recipients) {
+      try {
+        const emailTemplate = getEscalationEmail(ticketId, categoryName, escalationLevel, recipient.audience);
+        const emailResult = await sendEmail({
+          to: recipient.email,
+          subject: emailTemplate.subject,
+          html: emailTemplate.html,
+          ticketId,
+          threadMessageId,
+          originalSubject,
+        });
+
+        if (emailResult) {
+          await logNotification({
+            userId: recipient.userId,
+            ticketId,
+            channel: "email",
+            notificationType: "ticket.escalated",
+            emailMessageId: typeof emailResult.messageId === "string" ? emailResult.messageId : null,
+            sentAt: new Date(),
+          });
+        }
+      } catch (error) {
+        console.error(`[processTicketEscalated] Failed to send escalation email to ${recipient.email}:`, error);
+      }
+    }
+  } else {
+    console.log(`[processTicketEscalated] Email notifications disabled for ticket #${ticketId} (category: ${categoryName})`);
+  }
+
+  console.log(`[processTicketEscalated] ✅ Escalation notifications processed for ticket #${ticketId} (level ${escalationLevel}, to ${escalatedToLabel})`);
+}
@@ -0,0 +1,19 @@
+/**
+ * Worker: Process Ticket Export
+ * Builds one queued ticket_exports job and stores the file (see lib/ticket/data/ticketExport)
+ * - Throws on failure so the outbox retries with backoff
+ * - The job is marked failed on the last attempt the outbox will make
+ */
+
+import { outboxConfig } from "@/conf/config";
+import { runTicketExport } from "@/lib/ticket/data/ticketExport";
+import type { OutboxRow } from "@/workers/utils";
+
+export async function processTicketExportWorker(row: OutboxRow, payload: Record<string, unknown>) {
+  const exportId = typeof payload.export_id === "number" ? payload.export_id : NaN;
+  if (!Number.isInteger(exportId) || exportId <= 0) {
+    throw new Error(`[processTicketExport] Invalid payload for outbox ${row.id}: missing export_id`);
+  }
+
+  await runTicketExport(exportId, (row.attempts ?? 0) >= outboxConfig.maxAttempts);
+}
@@ -1,11 +1,119 @@
 /**
- * Placeholder worker for ticket.status.updated events.
- * Extend this file when status-change notifications are required.
+ * Worker for ticket.status.updated / ticket.status_changed events.
+ * The status routes notify the student by email and Slack directly; the dispatcher fans these
+ * events out to webhook endpoints before calling this handler.
+ * This handler sends the WhatsApp update to the student (if they opted in): a rating
+ * prompt when the ticket is resolved or closed and not yet rated, otherwise the new status.
+ * Followers (students who followed the ticket instead of filing a duplicate) get the new
+ * status by email and WhatsApp on a best-effort basis.
  */
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-export async function processTicketStatusUpdated(_outboxId: number, _payload: Record<string, unknown>) {
-  console.warn(
-    "[processTicketStatusUpdated] Handler not implemented yet. Event skipped."
-  );
+
+import { db } from "@/db";
+import { categories, ticket_followers, tickets, users } from "@/db/schema";
+import { eq } from "drizzle-orm";
+import { TICKET_STATUS, getCanonicalStatus } from "@/conf/constants";
+import { getTicketStatusByValue } from "@/lib/status/getTicketStatuses";
+import { getFollowedTicketStatusEmail, sendEmail } from "@/lib/integration/email";
+import {
+  getFollowedStatusUpdateWhatsApp,
+  getRatingPromptWhatsApp,
+  getStatusUpdateWhatsApp,
+  notifyUserOnWhatsApp,
+} from "@/lib/notification/whatsapp";
+
+function parseId(value: unknown): number | null {
+  const parsed = typeof value === "number" ? value : typeof value === "string" ? parseInt(value, 10) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+/**
+ * Failures are logged, not thrown: a retry would repeat the student's own update
+ */
+async function notifyFollowers(ticketId: number, statusLabel: string, category: string) {
+  const followers = await db
+    .select({ userId: users.id, email: users.email })
+    .from(ticket_followers)
+    .innerJoin(users, eq(users.id, ticket_followers.user_id))
+    .where(eq(ticket_followers.ticket_id, ticketId));
+
+  if (followers.length === 0) return;
+
+  const email = getFollowedTicketStatusEmail(ticketId, statusLabel, category);
+  const whatsAppBody = getFollowedStatusUpdateWhatsApp(ticketId, statusLabel, category);
+
+  for (const follower of followers) {
+    try {
+      if (follower.email) {
+        await sendEmail({ to: follower.email, subject: email.subject, html: email.html, ticketId });
+      }
+      await notifyUserOnWhatsApp({
+        userId: follower.userId,
+        ticketId,
+        body: whatsAppBody,
+        notificationType: "ticket.status",
+      });
+    } catch (error) {
+      console.error(`[processTicketStatusUpdated] Failed to notify follower ${follower.userId} of ticket #${ticketId}:`, error);
+    }
+  }
+  console.log(`[processTicketStatusUpdated] Notified ${followers.length} follower(s) of ticket #${ticketId}`);
 }
 
+export async function processTicketStatusUpdated(outboxId: number, payload: Record<string, unknown>) {
+  // Bulk actions use camelCase ticketId / newStatus
+  const ticketId = parseId(payload.ticket_id ?? payload.ticketId);
+  const rawStatus = payload.new_status ?? payload.newStatus;
+  if (!ticketId || typeof rawStatus !== "string") {
+    throw new Error(`[processTicketStatusUpdated] Invalid payload for outbox ${outboxId}: missing ticket_id or new_status`);
+  }
+
+  // Student replies reopen awaiting tickets automatically; the student doesn't need to hear about it
+  if (payload.auto_changed === true) {
+    return;
+  }
+
+  const [ticketRow] = await db
+    .select({
+      createdBy: tickets.created_by,
+      metadata: tickets.metadata,
+      categoryName: categories.name,
+    })
+    .from(tickets)
+    .leftJoin(categories, eq(categories.id, tickets.category_id))
+    .where(eq(tickets.id, ticketId))
+    .limit(1);
+
+  if (!ticketRow) {
+    throw new Error(`[processTicketStatusUpdated] Ticket ${ticketId} not found`);
+  }
+  const metadata =
+    ticketRow.metadata && typeof ticketRow.metadata === "object" && !Array.isArray(ticketRow.metadata)
+      ? (ticketRow.metadata as Record<string, unknown>)
+      : {};
+
+  const newStatus = getCanonicalStatus(rawStatus) ?? rawStatus.toLowerCase();
+  const isFinished = newStatus === TICKET_STATUS.RESOLVED || newStatus === TICKET_STATUS.CLOSED;
+  const status = await getTicketStatusByValue(newStatus);
+  const statusLabel = status?.label ?? newStatus;
+  const category = ticketRow.categoryName || "Unknown";
+
+  if (ticketRow.createdBy) {
+    let body: string;
+    let notificationType: "ticket.status" | "ticket.rating_prompt";
+    if (isFinished && !metadata.rating_submitted) {
+      body = getRatingPromptWhatsApp(ticketId);
+      notificationType = "ticket.rating_prompt";
+    } else {
+      body = getStatusUpdateWhatsApp(ticketId, statusLabel, category);
+      notificationType = "ticket.status";
+    }
+
+    // Transport errors propagate so the outbox retries the event
+    const sent = await notifyUserOnWhatsApp({ userId: ticketRow.createdBy, ticketId, body, notificationType });
+    if (sent) {
+      console.log(`[processTicketStatusUpdated] Sent ${notificationType} WhatsApp message for ticket #${ticketId}`);
+    }
+  }
+
+  await notifyFollowers(ticketId, statusLabel, category);
+}
@@ -0,0 +1,19 @@
+/**
+ * Worker: Process Webhook Delivery
+ * POSTs one queued webhook_deliveries row to its endpoint (see lib/notification/webhooks)
+ * - Throws on a non-2xx response or network error so the outbox retries with backoff
+ * - The delivery row is marked failed on the last attempt the outbox will make
+ */
+
+import { outboxConfig } from "@/conf/config";
+import { processWebhookDelivery } from "@/lib/notification/webhooks";
+import type { OutboxRow } from "@/workers/utils";
+
+export async function processWebhookDeliveryWorker(row: OutboxRow, payload: Record<string, unknown>) {
+  const deliveryId = typeof payload.delivery_id === "number" ? payload.delivery_id : NaN;
+  if (!Number.isInteger(deliveryId) || deliveryId <= 0) {
+    throw new Error(`[processWebhookDelivery] Invalid payload for outbox ${row.id}: missing delivery_id`);
+  }
+
+  await processWebhookDelivery(deliveryId, (row.attempts ?? 0) >= outboxConfig.maxAttempts);
+}
@@ -1,39 +1,121 @@
 import { db } from "@/db";
 import { notifications, outbox } from "@/db/schema";
-import { asc, eq, sql } from "drizzle-orm";
+import { and, asc, eq, gt, inArray, isNotNull, isNull, lt, lte, or, sql } from "drizzle-orm";
 import type { InferSelectModel } from "drizzle-orm";
+import { outboxConfig } from "@/conf/config";
 
 export type OutboxRow = InferSelectModel<typeof outbox>;
 
+// Rows that are not finished, not dead-lettered, due, and not leased by another worker
+function claimableCondition() {
+  return and(
+    isNull(outbox.processed_at),
+    isNull(outbox.dead_lettered_at),
+    or(isNull(outbox.next_retry_at), lte(outbox.next_retry_at, sql`NOW()`)),
+    or(isNull(outbox.locked_until), lt(outbox.locked_until, sql`NOW()`))
+  );
+}
+
+function leaseUntil() {
+  return sql`NOW() + make_interval(secs => ${outboxConfig.leaseSeconds})`;
+}
+
+export function getOutboxConcurrencyLimit(eventType: string): number {
+  return outboxConfig.concurrencyByEventType[eventType] ?? outboxConfig.defaultConcurrency;
+}
+
 /**
- * Pick the next pending outbox row.
- * Uses a transaction to avoid delivering the same event twice when the cron endpoint
- * is hit concurrently.
+ * Lease up to `limit` pending outbox rows.
+ * - FOR UPDATE SKIP LOCKED so concurrent cron hits never claim the same row
+ * - Each claimed row gets a lease (locked_until); if the worker dies the row is re-claimable after it expires
+ * - Respects the per-event-type concurrency limit, counting rows already leased by other invocations
  */
-export async function claimNextOutboxRow(): Promise<OutboxRow | null> {
+export async function claimOutboxBatch(limit: number = outboxConfig.batchSize): Promise<OutboxRow[]> {
+  if (limit <= 0) {
+    return [];
+  }
+
   return db.transaction(async (tx) => {
-    const [row] = await tx
-      .select()
+    // Serialize claimers so the in-flight counts below stay accurate
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('outbox_claim'))`);
+
+    const inFlight = await tx
+      .select({ event_type: outbox.event_type, count: sql<number>`count(*)::int` })
       .from(outbox)
       .where(
-        sql`${outbox.processed_at} IS NULL AND (${outbox.next_retry_at} IS NULL OR ${outbox.next_retry_at} <= NOW())`
+        and(
+          isNull(outbox.processed_at),
+          isNull(outbox.dead_lettered_at),
+          gt(outbox.locked_until, sql`NOW()`)
+        )
       )
+      .groupBy(outbox.event_type);
+    const inFlightByType = new Map(inFlight.map((row) => [row.event_type, Number(row.count)]));
+
+    // Over-fetch so one saturated event type doesn't starve the others
+    const candidates = await tx
+      .select({ id: outbox.id, event_type: outbox.event_type })
+      .from(outbox)
+      .where(claimableCondition())
       .orderBy(asc(outbox.id))
-      .limit(1);
+      .limit(limit * 4)
+      .for("update", { skipLocked: true });
+
+    const ids: number[] = [];
+    for (const candidate of candidates) {
+      if (ids.length >= limit) break;
+      const used = inFlightByType.get(candidate.event_type) ?? 0;
+      if (used >= getOutboxConcurrencyLimit(candidate.event_type)) continue;
+      inFlightByType.set(candidate.event_type, used + 1);
+      ids.push(candidate.id);
+    }
+
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const rows = await tx
+      .update(outbox)
+      .set({
+        attempts: sql`COALESCE(${outbox.attempts}, 0) + 1`,
+        locked_until: leaseUntil(),
+        next_retry_at: null,
+      })
+      .where(inArray(outbox.id, ids))
+      .returning();
+
+    return rows.sort((a, b) => a.id - b.id);
+  });
+}
+
+/**
+ * Lease one specific outbox row (used for inline processing right after the event is written).
+ * Returns null if the row is already processed, dead-lettered or leased by someone else.
+ */
+export async function claimOutboxRowById(outboxId: number): Promise<OutboxRow | null> {
+  return db.transaction(async (tx) => {
+    const [row] = await tx
+      .select({ id: outbox.id })
+      .from(outbox)
+      .where(and(eq(outbox.id, outboxId), claimableCondition()))
+      .limit(1)
+      .for("update", { skipLocked: true });
 
     if (!row) {
       return null;
     }
 
-    await tx
+    const [claimed] = await tx
       .update(outbox)
       .set({
-        attempts: (row.attempts || 0) + 1,
+        attempts: sql`COALESCE(${outbox.attempts}, 0) + 1`,
+        locked_until: leaseUntil(),
         next_retry_at: null,
       })
-      .where(eq(outbox.id, row.id));
+      .where(eq(outbox.id, outboxId))
+      .returning();
 
-    return row;
+    return claimed ?? null;
   });
 }
 
@@ -44,11 +126,18 @@ export async function markOutboxSuccess(outboxId: number, _metadata?: Record<str
     .set({
       processed_at: new Date(),
       next_retry_at: null,
+      locked_until: null,
+      last_error: null,
     })
     .where(eq(outbox.id, outboxId));
 }
 
-export async function markOutboxFailure(outboxId: number, reason?: string) {
+/**
+ * Record a failed attempt. Retries with exponential backoff until
+ * outboxConfig.maxAttempts is reached, then moves the row to the dead-letter state.
+ * Returns true if the row was dead-lettered.
+ */
+export async function markOutboxFailure(outboxId: number, reason?: string): Promise<boolean> {
   const [row] = await db
     .select({ attempts: outbox.attempts })
     .from(outbox)
@@ -56,19 +145,58 @@ export async function markOutboxFailure(outboxId: number, reason?: string) {
     .limit(1);
 
   const attempts = row?.attempts ?? 0;
-  const delayMinutes = Math.min(60, Math.pow(2, attempts));
-  const nextRetry = new Date(Date.now() + delayMinutes * 60 * 1000);
+  const lastError = reason || "Unknown error";
 
   if (reason) {
-    console.error(`[Outbox] Failed to process event ${outboxId}: ${reason}`);
+    console.error(`[Outbox] Failed to process event ${outboxId} (attempt ${attempts}): ${reason}`);
+  }
+
+  if (attempts >= outboxConfig.maxAttempts) {
+    await db
+      .update(outbox)
+      .set({
+        dead_lettered_at: new Date(),
+        next_retry_at: null,
+        locked_until: null,
+        last_error: lastError,
+      })
+      .where(eq(outbox.id, outboxId));
+    console.error(`[Outbox] Event ${outboxId} moved to dead letter after ${attempts} attempts`);
+    return true;
   }
 
+  const delayMinutes = Math.min(60, Math.pow(2, attempts));
+  const nextRetry = new Date(Date.now() + delayMinutes * 60 * 1000);
+
   await db
     .update(outbox)
     .set({
       next_retry_at: nextRetry,
+      locked_until: null,
+      last_error: lastError,
     })
     .where(eq(outbox.id, outboxId));
+  return false;
+}
+
+/**
+ * Put a dead-lettered row back in the queue with a fresh attempt budget.
+ * Rows that are not dead-lettered (possibly leased by a worker right now) are left alone.
+ * last_error is kept until the replay succeeds.
+ */
+export async function replayOutboxRow(outboxId: number): Promise<OutboxRow | null> {
+  const [row] = await db
+    .update(outbox)
+    .set({
+      attempts: 0,
+      dead_lettered_at: null,
+      next_retry_at: null,
+      locked_until: null,
+    })
+    .where(and(eq(outbox.id, outboxId), isNull(outbox.processed_at), isNotNull(outbox.dead_lettered_at)))
+    .returning();
+
+  return row ?? null;
 }
 
 type LogNotificationParams = {
@@ -78,6 +206,7 @@ type LogNotificationParams = {
   notificationType: string;
   slackMessageId?: string | null;
   emailMessageId?: string | null;
+  whatsappMessageId?: string | null;
   sentAt?: Date;
 };
 
@@ -88,6 +217,7 @@ export async function logNotification({
   notificationType,
   slackMessageId,
   emailMessageId,
+  whatsappMessageId,
   sentAt,
 }: LogNotificationParams): Promise<void> {
   try {
@@ -98,6 +228,7 @@ export async function logNotification({
       notification_type: notificationType,
       slack_message_id: slackMessageId ?? null,
       email_message_id: emailMessageId ?? null,
+      whatsapp_message_id: whatsappMessageId ?? null,
       sent_at: sentAt ?? new Date(),
     });
   } catch (error) {